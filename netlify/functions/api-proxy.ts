@@ -11,6 +11,9 @@ const tbaAllowed = [
   /^\/event\/[a-z0-9]+\/matches(?:\/simple)?$/i,
   /^\/event\/[a-z0-9]+\/coprs$/i,
   /^\/event\/[a-z0-9]+\/teams\/keys$/i,
+  /^\/event\/[a-z0-9]+\/teams(?:\/simple)?$/i,
+  /^\/event\/[a-z0-9]+\/rankings$/i,
+  /^\/event\/[a-z0-9]+\/alliances$/i,
   /^\/match\/[a-z0-9_]+$/i,
 ];
 
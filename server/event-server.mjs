@@ -0,0 +1,350 @@
+#!/usr/bin/env node
+// @ts-check
+/**
+ * Maneuver event server
+ *
+ * A standalone replacement for the Netlify functions at venues without
+ * internet. Run it on a laptop sharing a hotspot:
+ *
+ *   npm run event-server -- --sync
+ *
+ * - WebRTC signaling for room codes at /signal (and the Netlify function path)
+ * - Optional scouting sync at /sync/scouting (--sync)
+ * - Serves the built app from dist/ when it exists
+ *
+ * No dependencies beyond Node 18+. See docs/EVENT_SERVER.md.
+ */
+
+import { createServer as createHttpServer } from 'node:http';
+import { createServer as createHttpsServer } from 'node:https';
+import { existsSync, mkdirSync, readFileSync, renameSync, statSync, writeFileSync } from 'node:fs';
+import { networkInterfaces } from 'node:os';
+import { extname, join, normalize, resolve, sep } from 'node:path';
+import { parseArgs } from 'node:util';
+import { SignalingRooms } from './signaling-rooms.mjs';
+import { ScoutingSyncStore } from './scouting-sync-store.mjs';
+
+const SIGNAL_PATHS = new Set(['/signal', '/.netlify/functions/webrtc-signal']);
+const API_PROXY_PATH = '/.netlify/functions/api-proxy';
+const SYNC_PATH = '/sync/scouting';
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+const SAVE_DELAY_MS = 500;
+const PRUNE_INTERVAL_MS = 5 * 60 * 1000;
+
+const CONTENT_TYPES = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.mjs': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.webmanifest': 'application/manifest+json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2',
+  '.txt': 'text/plain; charset=utf-8',
+};
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Api-Key',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+const { values: args } = parseArgs({
+  options: {
+    port: { type: 'string', default: process.env.PORT ?? '8888' },
+    host: { type: 'string', default: process.env.HOST ?? '0.0.0.0' },
+    'data-dir': { type: 'string', default: process.env.EVENT_SERVER_DATA_DIR ?? 'event-server-data' },
+    sync: { type: 'boolean', default: process.env.EVENT_SERVER_SYNC === '1' },
+    'sync-token': { type: 'string', default: process.env.EVENT_SERVER_SYNC_TOKEN ?? '' },
+    static: { type: 'string', default: process.env.EVENT_SERVER_STATIC_DIR ?? 'dist' },
+    cert: { type: 'string', default: process.env.EVENT_SERVER_TLS_CERT ?? '' },
+    key: { type: 'string', default: process.env.EVENT_SERVER_TLS_KEY ?? '' },
+  },
+});
+
+const dataDir = resolve(args['data-dir']);
+const staticDir = resolve(args.static);
+const serveStatic = existsSync(join(staticDir, 'index.html'));
+mkdirSync(dataDir, { recursive: true });
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+/**
+ * @param {string} file
+ */
+function readJsonFile(file) {
+  try {
+    return existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) : null;
+  } catch (error) {
+    console.warn(`⚠️ Could not read ${file}, starting empty:`, error);
+    return null;
+  }
+}
+
+/**
+ * Write via a temp file so a crash mid-write never leaves half a JSON file
+ * @param {string} file
+ * @param {unknown} value
+ */
+function writeJsonFile(file, value) {
+  const tempFile = `${file}.tmp`;
+  writeFileSync(tempFile, JSON.stringify(value));
+  renameSync(tempFile, file);
+}
+
+const roomsFile = join(dataDir, 'rooms.json');
+const syncFile = join(dataDir, 'scouting-entries.json');
+
+const rooms = SignalingRooms.fromJSON(readJsonFile(roomsFile));
+const syncStore = ScoutingSyncStore.fromJSON(readJsonFile(syncFile));
+
+/** @type {Map<string, ReturnType<typeof setTimeout>>} */
+const pendingSaves = new Map();
+
+/**
+ * @param {string} file
+ * @param {{ toJSON(): unknown }} source
+ */
+function scheduleSave(file, source) {
+  if (pendingSaves.has(file)) return;
+  pendingSaves.set(file, setTimeout(() => {
+    pendingSaves.delete(file);
+    try {
+      writeJsonFile(file, source.toJSON());
+    } catch (error) {
+      console.error(`❌ Failed to save ${file}:`, error);
+    }
+  }, SAVE_DELAY_MS));
+}
+
+function saveAllNow() {
+  for (const timer of pendingSaves.values()) clearTimeout(timer);
+  pendingSaves.clear();
+  writeJsonFile(roomsFile, rooms.toJSON());
+  if (args.sync) writeJsonFile(syncFile, syncStore.toJSON());
+}
+
+// ============================================================================
+// HTTP helpers
+// ============================================================================
+
+/**
+ * @param {import('node:http').ServerResponse} res
+ * @param {number} status
+ * @param {unknown} body
+ */
+function sendJson(res, status, body) {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * @param {import('node:http').IncomingMessage} req
+ * @returns {Promise<unknown>}
+ */
+function readJsonBody(req) {
+  return new Promise((resolveBody, rejectBody) => {
+    /** @type {Buffer[]} */
+    const chunks = [];
+    let size = 0;
+
+    req.on('data', (/** @type {Buffer} */ chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        rejectBody(Object.assign(new Error('Request body too large'), { status: 413 }));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        const text = Buffer.concat(chunks).toString('utf8');
+        resolveBody(text ? JSON.parse(text) : {});
+      } catch {
+        rejectBody(Object.assign(new Error('Invalid JSON'), { status: 400 }));
+      }
+    });
+    req.on('error', rejectBody);
+  });
+}
+
+/**
+ * @param {import('node:http').IncomingMessage} req
+ */
+function isSyncAuthorized(req) {
+  const token = args['sync-token'];
+  return !token || req.headers.authorization === `Bearer ${token}`;
+}
+
+/**
+ * @param {string} pathname
+ * @param {import('node:http').ServerResponse} res
+ */
+function sendStaticFile(pathname, res) {
+  const requested = normalize(join(staticDir, decodeURIComponent(pathname)));
+  const isInside = requested === staticDir || requested.startsWith(staticDir + sep);
+  const file = isInside && existsSync(requested) && statSync(requested).isFile()
+    ? requested
+    : join(staticDir, 'index.html');
+
+  const type = CONTENT_TYPES[/** @type {keyof typeof CONTENT_TYPES} */ (extname(file))] ?? 'application/octet-stream';
+  res.writeHead(200, {
+    'Content-Type': type,
+    'Cache-Control': file.endsWith('index.html') || file.endsWith('sw.js') ? 'no-cache' : 'public, max-age=3600',
+  });
+  res.end(readFileSync(file));
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+/**
+ * @param {import('node:http').IncomingMessage} req
+ * @param {import('node:http').ServerResponse} res
+ */
+async function handleRequest(req, res) {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const { pathname } = url;
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS);
+    res.end();
+    return;
+  }
+
+  if (SIGNAL_PATHS.has(pathname)) {
+    if (req.method === 'POST') {
+      const result = rooms.handleMessage(await readJsonBody(req));
+      if (result.status === 200 && !('pong' in result.body)) scheduleSave(roomsFile, rooms);
+      sendJson(res, result.status, result.body);
+      return;
+    }
+
+    if (req.method === 'GET') {
+      const result = rooms.poll(url.searchParams.get('roomId'), url.searchParams.get('peerId'));
+      scheduleSave(roomsFile, rooms);
+      sendJson(res, result.status, result.body);
+      return;
+    }
+
+    sendJson(res, 405, { error: 'Method not allowed' });
+    return;
+  }
+
+  if (pathname === '/health') {
+    sendJson(res, 200, {
+      ok: true,
+      server: 'maneuver-event-server',
+      rooms: rooms.size,
+      sync: args.sync,
+      syncTokenRequired: !!args['sync-token'],
+      syncEntries: args.sync ? syncStore.size : undefined,
+    });
+    return;
+  }
+
+  if (pathname === SYNC_PATH) {
+    if (!args.sync) {
+      sendJson(res, 404, { error: 'Scouting sync is disabled on this server. Restart it with --sync.' });
+      return;
+    }
+
+    if (!isSyncAuthorized(req)) {
+      sendJson(res, 401, { error: 'Wrong or missing sync token' });
+      return;
+    }
+
+    if (req.method === 'POST') {
+      const body = /** @type {{ entries?: unknown; deviceName?: unknown }} */ (await readJsonBody(req));
+      const deviceName = typeof body.deviceName === 'string' && body.deviceName ? body.deviceName : 'unknown';
+      const result = syncStore.merge(body.entries, deviceName);
+      if (result.added > 0 || result.updated > 0) scheduleSave(syncFile, syncStore);
+      console.log(`📥 Sync from ${deviceName}: +${result.added} new, ${result.updated} updated, ${result.unchanged} unchanged`);
+      sendJson(res, 200, { success: true, ...result, total: syncStore.size });
+      return;
+    }
+
+    if (req.method === 'GET') {
+      const since = Number(url.searchParams.get('since') ?? 0);
+      sendJson(res, 200, syncStore.list(Number.isFinite(since) ? since : 0));
+      return;
+    }
+
+    sendJson(res, 405, { error: 'Method not allowed' });
+    return;
+  }
+
+  if (pathname === API_PROXY_PATH) {
+    sendJson(res, 503, {
+      error: 'The event server has no internet access. Load TBA, Nexus and Statbotics data before the event.',
+    });
+    return;
+  }
+
+  if (serveStatic && req.method === 'GET') {
+    sendStaticFile(pathname, res);
+    return;
+  }
+
+  sendJson(res, 404, { error: 'Not found' });
+}
+
+// ============================================================================
+// Startup
+// ============================================================================
+
+/** @type {import('node:http').RequestListener} */
+const listener = (req, res) => {
+  handleRequest(req, res).catch((error) => {
+    const status = typeof error?.status === 'number' ? error.status : 500;
+    if (status === 500) console.error('❌ Request failed:', error);
+    if (!res.headersSent) {
+      sendJson(res, status, { error: status === 500 ? 'Internal server error' : error.message });
+    }
+  });
+};
+
+const useTls = !!(args.cert && args.key);
+const server = useTls
+  ? createHttpsServer({ cert: readFileSync(args.cert), key: readFileSync(args.key) }, listener)
+  : createHttpServer(listener);
+
+setInterval(() => {
+  const removed = rooms.prune();
+  if (removed > 0) {
+    console.log(`🧹 Removed ${removed} idle room(s)`);
+    scheduleSave(roomsFile, rooms);
+  }
+}, PRUNE_INTERVAL_MS).unref();
+
+for (const signal of /** @type {const} */ (['SIGINT', 'SIGTERM'])) {
+  process.on(signal, () => {
+    saveAllNow();
+    process.exit(0);
+  });
+}
+
+server.listen(Number(args.port), args.host, () => {
+  const protocol = useTls ? 'https' : 'http';
+  const addresses = Object.values(networkInterfaces())
+    .flat()
+    .filter(address => address && address.family === 'IPv4' && !address.internal)
+    .map(address => `${protocol}://${address?.address}:${args.port}`);
+
+  console.log('🚀 Maneuver event server running');
+  console.log(`   Signaling: /signal (${rooms.size} saved room(s) restored)`);
+  console.log(`   Scouting sync: ${args.sync ? `on (${syncStore.size} entries)${args['sync-token'] ? ', token required' : ''}` : 'off'}`);
+  console.log(`   App: ${serveStatic ? `serving ${staticDir}` : 'not served (run "npm run build" first)'}`);
+  console.log(`   Data: ${dataDir}`);
+  console.log('   Point devices at one of:');
+  for (const address of addresses.length > 0 ? addresses : [`${protocol}://localhost:${args.port}`]) {
+    console.log(`     ${address}`);
+  }
+});
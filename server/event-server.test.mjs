@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { SignalingRooms } from './signaling-rooms.mjs';
+import { ScoutingSyncStore } from './scouting-sync-store.mjs';
+
+const join = (rooms, peerId, role) =>
+  rooms.handleMessage({ type: 'join', roomId: '123456', peerId, peerName: peerId, role });
+
+describe('SignalingRooms', () => {
+  it('delivers joins and targeted offers once, then drops them', () => {
+    const rooms = new SignalingRooms();
+    join(rooms, 'lead', 'lead');
+    join(rooms, 'scout-1', 'scout');
+
+    expect(rooms.poll('123456', 'lead').body.messages).toMatchObject([{ type: 'join', peerId: 'scout-1' }]);
+    expect(rooms.poll('123456', 'lead').body.messages).toEqual([]);
+
+    rooms.handleMessage({ type: 'offer', roomId: '123456', peerId: 'lead', targetPeerId: 'scout-1', data: { sdp: 'x' } });
+    const scoutMessages = rooms.poll('123456', 'scout-1').body.messages;
+    expect(scoutMessages.map(m => m.type)).toEqual(['join', 'offer']);
+    expect(rooms.rooms.get('123456').messages).toEqual([]);
+  });
+
+  it('rejects unknown types and missing ids, and answers pings', () => {
+    const rooms = new SignalingRooms();
+    expect(rooms.handleMessage({ type: 'ping' })).toEqual({ status: 200, body: { pong: true } });
+    expect(rooms.handleMessage({ type: 'join' }).status).toBe(400);
+    expect(rooms.handleMessage({ type: 'shout', roomId: 'r', peerId: 'p' }).status).toBe(400);
+    expect(rooms.size).toBe(0);
+  });
+
+  it('survives a save and restore, and prunes idle rooms', () => {
+    let now = 1000;
+    const rooms = new SignalingRooms({ roomTimeoutMs: 60_000, now: () => now });
+    join(rooms, 'lead', 'lead');
+    join(rooms, 'scout-1', 'scout');
+
+    const restored = SignalingRooms.fromJSON(JSON.parse(JSON.stringify(rooms)), { roomTimeoutMs: 60_000, now: () => now });
+    expect(restored.poll('123456', 'scout-1').body).toMatchObject({
+      messages: [{ type: 'join', peerId: 'lead' }],
+      room: { leadConnected: true, scoutCount: 1 },
+    });
+
+    now += 61_000;
+    expect(restored.prune()).toBe(1);
+    expect(restored.size).toBe(0);
+  });
+});
+
+describe('ScoutingSyncStore', () => {
+  it('keeps the most corrected, then newest entry and lists by write order', () => {
+    let now = 100;
+    const store = new ScoutingSyncStore({ now: () => now });
+
+    expect(store.merge([{ id: 'a', timestamp: 5 }, { id: 'b', timestamp: 5 }, 'junk'], 'tab-1'))
+      .toEqual({ added: 2, updated: 0, unchanged: 0, rejected: 1 });
+
+    now = 200;
+    expect(store.merge([
+      { id: 'a', timestamp: 9 },
+      { id: 'b', timestamp: 9, correctionCount: 0 },
+      { id: 'a', timestamp: 1, correctionCount: 1, lastCorrectedAt: 3 },
+    ], 'tab-2')).toEqual({ added: 0, updated: 3, unchanged: 0, rejected: 0 });
+
+    expect(store.merge([{ id: 'a', timestamp: 50 }], 'tab-3').unchanged).toBe(1);
+
+    const { entries, cursor } = store.list(2);
+    expect(entries.map(e => [e.id, e.correctionCount ?? 0])).toEqual([['a', 1], ['b', 0]]);
+    expect(cursor).toBe(5);
+    expect(store.list(5).entries).toEqual([]);
+  });
+
+  it('resumes pulls from a sequence number, even within one millisecond', () => {
+    const store = new ScoutingSyncStore({ now: () => 100 });
+    store.merge([{ id: 'a', timestamp: 1 }], 'tab-1');
+
+    const first = store.list();
+    store.merge([{ id: 'b', timestamp: 1 }], 'tab-2');
+    expect(store.list(first.cursor).entries.map(e => e.id)).toEqual(['b']);
+
+    const restored = ScoutingSyncStore.fromJSON(JSON.parse(JSON.stringify(store)), { now: () => 100 });
+    restored.merge([{ id: 'c', timestamp: 1 }], 'tab-3');
+    expect(restored.list(first.cursor).entries.map(e => e.id)).toEqual(['b', 'c']);
+
+    const legacy = ScoutingSyncStore.fromJSON({
+      version: 1,
+      entries: [
+        { entry: { id: 'late' }, receivedAt: 300, receivedFrom: 'tab-1' },
+        { entry: { id: 'early' }, receivedAt: 200, receivedFrom: 'tab-1' },
+      ],
+    });
+    expect(legacy.list(1).entries.map(e => e.id)).toEqual(['late']);
+  });
+});
@@ -0,0 +1,134 @@
+// @ts-check
+/**
+ * Scouting entries uploaded to the event server
+ *
+ * Tablets POST their entries; the lead pulls everything received since its
+ * last pull. When two uploads carry the same entry id, the more corrected
+ * entry wins, then the more recent one.
+ *
+ * Every stored write takes the next sequence number, and pulls resume from the
+ * last number they saw. A clock would miss entries stored in the same
+ * millisecond as a pull.
+ */
+
+/**
+ * @typedef {{ id: string; timestamp?: number; correctionCount?: number; lastCorrectedAt?: number; [key: string]: unknown }} SyncEntry
+ * @typedef {{ entry: SyncEntry; receivedAt: number; receivedFrom: string; sequence: number }} StoredEntry
+ */
+
+/**
+ * @param {unknown} value
+ * @returns {value is SyncEntry}
+ */
+const isSyncEntry = (value) =>
+  typeof value === 'object' && value !== null && typeof /** @type {{ id?: unknown }} */ (value).id === 'string';
+
+/**
+ * @param {SyncEntry} incoming
+ * @param {SyncEntry} existing
+ */
+export function isNewerEntry(incoming, existing) {
+  const correctionDiff = (incoming.correctionCount ?? 0) - (existing.correctionCount ?? 0);
+  if (correctionDiff !== 0) return correctionDiff > 0;
+
+  const incomingTime = incoming.lastCorrectedAt ?? incoming.timestamp ?? 0;
+  const existingTime = existing.lastCorrectedAt ?? existing.timestamp ?? 0;
+  return incomingTime > existingTime;
+}
+
+export class ScoutingSyncStore {
+  /**
+   * @param {{ now?: () => number }} [options]
+   */
+  constructor(options = {}) {
+    this.now = options.now ?? Date.now;
+    /** @type {Map<string, StoredEntry>} */
+    this.entries = new Map();
+    /** Sequence number of the last stored write */
+    this.sequence = 0;
+  }
+
+  get size() {
+    return this.entries.size;
+  }
+
+  /**
+   * @param {unknown} entries
+   * @param {string} receivedFrom
+   */
+  merge(entries, receivedFrom) {
+    const result = { added: 0, updated: 0, unchanged: 0, rejected: 0 };
+    if (!Array.isArray(entries)) return result;
+
+    const receivedAt = this.now();
+
+    for (const entry of entries) {
+      if (!isSyncEntry(entry)) {
+        result.rejected++;
+        continue;
+      }
+
+      const existing = this.entries.get(entry.id);
+      if (existing && !isNewerEntry(entry, existing.entry)) {
+        result.unchanged++;
+        continue;
+      }
+
+      this.entries.set(entry.id, { entry, receivedAt, receivedFrom, sequence: ++this.sequence });
+      if (existing) {
+        result.updated++;
+      } else {
+        result.added++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Entries stored after sequence number `since`. Pass the returned `cursor` as the next `since`.
+   * @param {number} [since]
+   */
+  list(since = 0) {
+    const entries = [...this.entries.values()]
+      .filter(stored => stored.sequence > since)
+      .map(stored => stored.entry);
+
+    return { entries, cursor: this.sequence };
+  }
+
+  toJSON() {
+    return { version: 2, sequence: this.sequence, entries: [...this.entries.values()] };
+  }
+
+  /**
+   * @param {unknown} json
+   * @param {{ now?: () => number }} [options]
+   */
+  static fromJSON(json, options = {}) {
+    const store = new ScoutingSyncStore(options);
+    const { entries: saved, sequence } = /** @type {{ entries?: unknown; sequence?: unknown }} */ (json ?? {});
+    if (!Array.isArray(saved)) return store;
+
+    store.sequence = Number(sequence) || 0;
+    // Version 1 files have no sequence numbers; number their entries in receive order
+    const valid = saved
+      .filter(stored => stored && isSyncEntry(stored.entry))
+      .sort((a, b) => (Number(a.sequence) || 0) - (Number(b.sequence) || 0)
+        || (Number(a.receivedAt) || 0) - (Number(b.receivedAt) || 0));
+
+    for (const stored of valid) {
+      const savedSequence = Number(stored.sequence);
+      const entrySequence = Number.isInteger(savedSequence) && savedSequence > 0 ? savedSequence : ++store.sequence;
+      store.entries.set(stored.entry.id, {
+        entry: stored.entry,
+        receivedAt: Number(stored.receivedAt) || 0,
+        receivedFrom: String(stored.receivedFrom ?? ''),
+        sequence: entrySequence,
+      });
+      store.sequence = Math.max(store.sequence, entrySequence);
+    }
+
+    return store;
+  }
+}
@@ -0,0 +1,250 @@
+// @ts-check
+/**
+ * Signaling rooms for the event server
+ *
+ * Same protocol and delivery rules as netlify/functions/webrtc-signal.ts, but
+ * rooms live until they have been idle for `roomTimeoutMs` and can be saved to
+ * disk, so a server restart mid-event does not drop every scout.
+ */
+
+/**
+ * @typedef {'offer' | 'answer' | 'ice-candidate' | 'join' | 'leave' | 'ping'} SignalingMessageType
+ *
+ * @typedef {{
+ *   type: SignalingMessageType;
+ *   roomId?: string;
+ *   peerId?: string;
+ *   peerName?: string;
+ *   role?: 'lead' | 'scout';
+ *   targetPeerId?: string;
+ *   data?: unknown;
+ * }} SignalingMessage
+ *
+ * @typedef {SignalingMessage & { deliveredTo: Set<string> }} StoredMessage
+ * @typedef {{ id: string; name: string; lastSeen: number }} RoomPeer
+ *
+ * @typedef {{
+ *   id: string;
+ *   lead?: RoomPeer;
+ *   scouts: Map<string, RoomPeer>;
+ *   messages: StoredMessage[];
+ *   createdAt: number;
+ *   lastActivity: number;
+ * }} Room
+ *
+ * @typedef {{ status: number; body: Record<string, unknown> }} SignalingResponse
+ */
+
+export const SIGNALING_MESSAGE_TYPES = ['join', 'leave', 'offer', 'answer', 'ice-candidate', 'ping'];
+
+const DEFAULT_ROOM_TIMEOUT_MS = 12 * 60 * 60 * 1000;
+
+export class SignalingRooms {
+  /**
+   * @param {{ roomTimeoutMs?: number; now?: () => number }} [options]
+   */
+  constructor(options = {}) {
+    this.roomTimeoutMs = options.roomTimeoutMs ?? DEFAULT_ROOM_TIMEOUT_MS;
+    this.now = options.now ?? Date.now;
+    /** @type {Map<string, Room>} */
+    this.rooms = new Map();
+  }
+
+  get size() {
+    return this.rooms.size;
+  }
+
+  /**
+   * Handle a POSTed signaling message
+   * @param {unknown} input
+   * @returns {SignalingResponse}
+   */
+  handleMessage(input) {
+    const message = /** @type {SignalingMessage} */ (input ?? {});
+
+    if (!SIGNALING_MESSAGE_TYPES.includes(message.type)) {
+      return { status: 400, body: { error: `Unknown message type: ${String(message.type)}` } };
+    }
+
+    if (message.type === 'ping') {
+      return { status: 200, body: { pong: true } };
+    }
+
+    const { roomId, peerId, peerName, role } = message;
+    if (!roomId || !peerId) {
+      return {
+        status: 400,
+        body: { error: 'Missing roomId or peerId', received: { roomId, peerId, type: message.type, role } },
+      };
+    }
+
+    const now = this.now();
+    let room = this.rooms.get(roomId);
+    if (!room) {
+      room = { id: roomId, scouts: new Map(), messages: [], createdAt: now, lastActivity: now };
+      this.rooms.set(roomId, room);
+    }
+    room.lastActivity = now;
+
+    switch (message.type) {
+      case 'join':
+        if (role === 'lead') {
+          room.lead = { id: peerId, name: peerName || 'Lead', lastSeen: now };
+        } else if (role === 'scout') {
+          room.scouts.set(peerId, { id: peerId, name: peerName || 'Scout', lastSeen: now });
+        }
+        room.messages.push({ ...message, deliveredTo: new Set() });
+        break;
+
+      case 'leave':
+        if (role === 'lead') {
+          room.lead = undefined;
+        } else {
+          room.scouts.delete(peerId);
+        }
+        break;
+
+      case 'offer':
+      case 'answer':
+      case 'ice-candidate':
+        room.messages.push({ ...message, deliveredTo: new Set() });
+        break;
+    }
+
+    return {
+      status: 200,
+      body: {
+        success: true,
+        room: { id: room.id, leadConnected: !!room.lead, scoutCount: room.scouts.size },
+      },
+    };
+  }
+
+  /**
+   * Return undelivered messages for a peer and drop fully delivered ones
+   * @param {string | null | undefined} roomId
+   * @param {string | null | undefined} peerId
+   * @returns {SignalingResponse}
+   */
+  poll(roomId, peerId) {
+    if (!roomId || !peerId) {
+      return { status: 400, body: { error: 'Missing roomId or peerId' } };
+    }
+
+    const room = this.rooms.get(roomId);
+    if (!room) {
+      // The room may not be created yet
+      return {
+        status: 200,
+        body: {
+          messages: [],
+          room: { id: roomId, leadConnected: false, scoutCount: 0, scouts: [] },
+        },
+      };
+    }
+
+    const now = this.now();
+    room.lastActivity = now;
+    if (room.lead?.id === peerId) room.lead.lastSeen = now;
+    const scout = room.scouts.get(peerId);
+    if (scout) scout.lastSeen = now;
+
+    const messages = room.messages.filter(msg =>
+      msg.peerId !== peerId
+      && !msg.deliveredTo.has(peerId)
+      && !(msg.targetPeerId && msg.targetPeerId !== peerId)
+    );
+    messages.forEach(msg => msg.deliveredTo.add(peerId));
+
+    room.messages = room.messages.filter(msg => {
+      // Scout joins stay until the lead has seen them
+      if (msg.type === 'join' && msg.role === 'scout') {
+        return !room.lead || !msg.deliveredTo.has(room.lead.id);
+      }
+
+      // Lead joins stay until every scout has seen them
+      if (msg.type === 'join' && msg.role === 'lead') {
+        return [...room.scouts.keys()].some(scoutId => !msg.deliveredTo.has(scoutId));
+      }
+
+      // Targeted offers, answers and candidates are done once their target has them.
+      // Untargeted ones follow the Netlify function and stay for a second peer
+      if (msg.targetPeerId) {
+        return !msg.deliveredTo.has(msg.targetPeerId);
+      }
+      return msg.deliveredTo.size <= 1;
+    });
+
+    return {
+      status: 200,
+      body: {
+        messages: messages.map(({ deliveredTo: _deliveredTo, ...msg }) => msg),
+        room: {
+          id: room.id,
+          leadConnected: !!room.lead,
+          scoutCount: room.scouts.size,
+          scouts: [...room.scouts.values()].map(s => ({ id: s.id, name: s.name })),
+        },
+      },
+    };
+  }
+
+  /**
+   * Drop rooms that have been idle longer than the timeout
+   * @returns {number} Number of rooms removed
+   */
+  prune() {
+    const cutoff = this.now() - this.roomTimeoutMs;
+    let removed = 0;
+    for (const [roomId, room] of this.rooms) {
+      if (room.lastActivity < cutoff) {
+        this.rooms.delete(roomId);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  toJSON() {
+    return {
+      version: 1,
+      rooms: [...this.rooms.values()].map(room => ({
+        ...room,
+        scouts: [...room.scouts.values()],
+        messages: room.messages.map(msg => ({ ...msg, deliveredTo: [...msg.deliveredTo] })),
+      })),
+    };
+  }
+
+  /**
+   * Restore rooms saved with toJSON(). Malformed rooms are skipped.
+   * @param {unknown} json
+   * @param {{ roomTimeoutMs?: number; now?: () => number }} [options]
+   */
+  static fromJSON(json, options = {}) {
+    const rooms = new SignalingRooms(options);
+    const saved = /** @type {{ rooms?: unknown }} */ (json ?? {}).rooms;
+    if (!Array.isArray(saved)) return rooms;
+
+    for (const room of saved) {
+      if (!room || typeof room.id !== 'string' || !Array.isArray(room.scouts) || !Array.isArray(room.messages)) {
+        continue;
+      }
+
+      rooms.rooms.set(room.id, {
+        id: room.id,
+        lead: room.lead ?? undefined,
+        scouts: new Map(room.scouts.map((/** @type {RoomPeer} */ scout) => [scout.id, scout])),
+        messages: room.messages.map((/** @type {SignalingMessage & { deliveredTo?: string[] }} */ msg) => ({
+          ...msg,
+          deliveredTo: new Set(msg.deliveredTo ?? []),
+        })),
+        createdAt: Number(room.createdAt) || rooms.now(),
+        lastActivity: Number(room.lastActivity) || rooms.now(),
+      });
+    }
+
+    rooms.prune();
+    return rooms;
+  }
+}
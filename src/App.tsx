@@ -37,6 +37,7 @@ import QRDataTransferPage from "@/core/pages/QRDataTransferPage";
 import TeamStatsPage from "@/core/pages/TeamStatsPage";
 import StrategyOverviewPage from "@/core/pages/StrategyOverviewPage";
 import MatchStrategyPage from "@/core/pages/MatchStrategyPage";
+import MatchReplayPage from "@/core/pages/MatchReplayPage";
 import PickListPage from "@/core/pages/PickListPage";
 // import PitScoutingPage from "@/pages/PitScoutingPage";
 import ScoutManagementDashboardPage from "@/core/pages/ScoutManagementDashboardPage";
@@ -44,6 +45,8 @@ import AchievementsPage from "@/core/pages/AchievementsPage";
 import DevUtilitiesPage from "@/core/pages/DevUtilitiesPage";
 import { MatchValidationPage } from "@/core/pages/MatchValidationPage";
 import PitAssignmentsPage from "@/core/pages/PitAssignmentsPage";
+import MatchAssignmentsPage from "@/core/pages/MatchAssignmentsPage";
+import CustomFormBuilderPage from "@/core/pages/CustomFormBuilderPage";
 import TestLandingPage from "@/core/pages/test/TestLandingPage";
 import TestVisualScoutingPage from "@/core/pages/test/TestVisualScoutingPage";
 import TestFormScoutingPage from "@/core/pages/test/TestFormScoutingPage";
@@ -58,6 +61,8 @@ import { SplashScreen } from '@/core/components/SplashScreen';
 import { FullscreenProvider } from '@/core/contexts/FullscreenContext';
 import { WebRTCProvider } from '@/core/contexts/WebRTCContext';
 import { ScoutProvider } from '@/core/contexts/ScoutContext';
+import { NotificationProvider } from '@/core/contexts/NotificationContext';
+import { Toaster as NotificationToaster } from '@/core/components/notification/Toaster';
 import { WebRTCDataRequestDialog } from '@/core/components/webrtc/WebRTCDataRequestDialog';
 import { WebRTCPushedDataDialog } from '@/core/components/webrtc/WebRTCPushedDataDialog';
 import { WebRTCNotifications } from '@/core/components/webrtc/WebRTCNotifications';
@@ -73,7 +78,7 @@ import {
 import logo from "../src/assets/Maneuver Wordmark Vertical.png";
 import { generateDemoEvent, generateDemoEventScheduleOnly } from "@/core/lib/demoDataGenerator";
 import { generate2026GameData } from "@/game-template/demoDataGenerator2026";
-import { db, pitDB, gameDB } from "@/db";
+import { db, pitDB, gameDB, withoutChangeLog } from "@/db";
 import { clearEventCache, clearEventValidationResults, getCachedTBAEventMatches } from "@/core/lib/tbaCache";
 
 // Mock implementations for missing template parts
@@ -156,10 +161,10 @@ const loadDemoScheduleOnly = async () => {
 const clearDemoData = async () => {
   console.log('🗑️ Clearing demo data...');
   
-  // Clear all demo data from databases
+  // Clear all demo data from databases (local only, so peers keep theirs)
   for (const eventKey of DEMO_ALL_EVENT_KEYS) {
-    await db.scoutingData.where('eventKey').equals(eventKey).delete();
-    await pitDB.pitScoutingData.where('eventKey').equals(eventKey).delete();
+    await withoutChangeLog(db.scoutingData, () => db.scoutingData.where('eventKey').equals(eventKey).delete());
+    await withoutChangeLog(pitDB.pitScoutingData, () => pitDB.pitScoutingData.where('eventKey').equals(eventKey).delete());
     await gameDB.predictions.where('eventKey').equals(eventKey).delete();
     await clearEventCache(eventKey);
     await clearEventValidationResults(eventKey);
@@ -269,10 +274,13 @@ function App() {
         <Route path="/team-stats" element={<TeamStatsPage />} />
         <Route path="/strategy-overview" element={<StrategyOverviewPage />} />
         <Route path="/match-strategy" element={<MatchStrategyPage />} />
+        <Route path="/match-replay" element={<MatchReplayPage />} />
         <Route path="/pick-list" element={<PickListPage />} />
         {/* <Route path="/pit-scouting" element={<PitScoutingPage />} />  */}
         <Route path="/scout-management" element={<ScoutManagementDashboardPage />} />
         <Route path="/pit-assignments" element={<PitAssignmentsPage />} />
+        <Route path="/match-assignments" element={<MatchAssignmentsPage />} />
+        <Route path="/custom-form" element={<CustomFormBuilderPage />} />
         <Route path="/achievements" element={<AchievementsPage />} />
         <Route path="/match-validation" element={<MatchValidationPage />} />
         <Route path="/dev-utilities" element={<DevUtilitiesPage />} />
@@ -357,15 +365,18 @@ function App() {
       <ScoutProvider>
         <FullscreenProvider>
           <WebRTCProvider>
-            <div className="min-h-screen bg-background">
-              <RouterProvider router={router} />
-              <InstallPrompt />
-              <PWAUpdatePrompt />
-              <StatusBarSpacer />
-              <WebRTCDataRequestDialog />
-              <WebRTCPushedDataDialog />
-              <WebRTCNotifications />
-            </div>
+            <NotificationProvider>
+              <div className="min-h-screen bg-background">
+                <RouterProvider router={router} />
+                <InstallPrompt />
+                <PWAUpdatePrompt />
+                <StatusBarSpacer />
+                <WebRTCDataRequestDialog />
+                <WebRTCPushedDataDialog />
+                <WebRTCNotifications />
+                <NotificationToaster position="top-right" />
+              </div>
+            </NotificationProvider>
           </WebRTCProvider>
         </FullscreenProvider>
       </ScoutProvider>
@@ -2,11 +2,21 @@ import { useState } from "react";
 import { Button } from "@/core/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/core/components/ui/select";
 import { Popover, PopoverContent, PopoverTrigger } from "@/core/components/ui/popover";
-import { Eraser, EyeOff, Maximize2, Pencil, RotateCw, Save, Trash2, Undo2 } from "lucide-react";
+import { Bot, Eraser, EyeOff, Maximize2, MoveUpRight, Pencil, RotateCw, Save, Trash2, Type, Undo2 } from "lucide-react";
 import { PRESET_COLORS } from "@/core/lib/drawingColors";
+import type { DrawingTool } from "@/core/hooks/useCanvasDrawing";
+
+export interface RobotSlotOption {
+    slot: number;
+    label: string;
+}
 
 interface DrawingControlsProps {
-    isErasing: boolean;
+    tool: DrawingTool;
+    robotSlot: number;
+    robotSlotOptions: RobotSlotOption[];
+    /** Following a live session or replaying - editing is disabled */
+    readOnly?: boolean;
     brushSize: number;
     brushColor: string;
     currentStageId: string;
@@ -14,7 +24,8 @@ interface DrawingControlsProps {
     isFullscreen: boolean;
     isFieldRotated: boolean;
     canUndo: boolean;
-    onToggleErasing: (erasing: boolean) => void;
+    onToolChange: (tool: DrawingTool) => void;
+    onRobotSlotChange: (slot: number) => void;
     onBrushSizeChange: (size: number) => void;
     onBrushColorChange: (color: string) => void;
     onClearCanvas: () => void;
@@ -33,6 +44,14 @@ const getSizeLabel = (size: number): string => {
     return 'X-Large';
 };
 
+const TOOLS: Array<{ id: DrawingTool; label: string; icon: React.ReactNode }> = [
+    { id: 'draw', label: 'Draw', icon: <Pencil className="h-4 w-4" /> },
+    { id: 'erase', label: 'Erase', icon: <Eraser className="h-4 w-4" /> },
+    { id: 'arrow', label: 'Arrow', icon: <MoveUpRight className="h-4 w-4" /> },
+    { id: 'text', label: 'Text', icon: <Type className="h-4 w-4" /> },
+    { id: 'robot', label: 'Robot', icon: <Bot className="h-4 w-4" /> },
+];
+
 const ResponsiveButtonLabel = ({
     icon,
     label,
@@ -47,7 +66,10 @@ const ResponsiveButtonLabel = ({
 );
 
 export const DrawingControls = ({
-    isErasing,
+    tool,
+    robotSlot,
+    robotSlotOptions,
+    readOnly = false,
     brushSize,
     brushColor,
     currentStageId,
@@ -55,7 +77,8 @@ export const DrawingControls = ({
     isFullscreen,
     isFieldRotated,
     canUndo,
-    onToggleErasing,
+    onToolChange,
+    onRobotSlotChange,
     onBrushSizeChange,
     onBrushColorChange,
     onClearCanvas,
@@ -72,6 +95,41 @@ export const DrawingControls = ({
         setColorPickerOpen(false);
     };
 
+    const toolButtons = (
+        <>
+            {TOOLS.map(({ id, label, icon }) => (
+                <Button
+                    key={id}
+                    variant={tool === id ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => onToolChange(id)}
+                    disabled={readOnly}
+                    title={label}
+                >
+                    <ResponsiveButtonLabel icon={icon} label={label} />
+                </Button>
+            ))}
+            {tool === 'robot' && (
+                <Select
+                    value={robotSlot.toString()}
+                    onValueChange={(value) => onRobotSlotChange(Number(value))}
+                    disabled={readOnly}
+                >
+                    <SelectTrigger className="w-fit" size="sm" aria-label="Robot to place">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {robotSlotOptions.map((option) => (
+                            <SelectItem key={option.slot} value={option.slot.toString()}>
+                                {option.label}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            )}
+        </>
+    );
+
     if (isFullscreen) {
         // Fullscreen drawing controls
         return (
@@ -80,22 +138,7 @@ export const DrawingControls = ({
                 <div className="flex flex-col md:flex-row md:flex-wrap justify-center items-center gap-2">
                     {/* Row 1: Main drawing actions */}
                     <div className="flex flex-wrap justify-center items-center gap-2">
-                        <Button
-                            variant={!isErasing ? "default" : "outline"}
-                            size="sm"
-                            onClick={() => onToggleErasing(false)}
-                            title="Draw"
-                        >
-                            <ResponsiveButtonLabel icon={<Pencil className="h-4 w-4" />} label="Draw" />
-                        </Button>
-                        <Button
-                            variant={isErasing ? "default" : "outline"}
-                            size="sm"
-                            onClick={() => onToggleErasing(true)}
-                            title="Erase"
-                        >
-                            <ResponsiveButtonLabel icon={<Eraser className="h-4 w-4" />} label="Erase" />
-                        </Button>
+                        {toolButtons}
                         <Button
                             variant="outline"
                             size="sm"
@@ -105,7 +148,7 @@ export const DrawingControls = ({
                         >
                             <ResponsiveButtonLabel icon={<Undo2 className="h-4 w-4" />} label="Undo" />
                         </Button>
-                        <Button onClick={onClearCanvas} variant="outline" size="sm" title="Clear canvas">
+                        <Button onClick={onClearCanvas} variant="outline" size="sm" title="Clear canvas" disabled={readOnly}>
                             <ResponsiveButtonLabel icon={<Trash2 className="h-4 w-4" />} label="Clear" />
                         </Button>
                     </div>
@@ -211,22 +254,7 @@ export const DrawingControls = ({
             <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-2">
                 {/* Main actions */}
                 <div className="flex flex-wrap items-center gap-2">
-                    <Button
-                        variant={!isErasing ? "default" : "outline"}
-                        size="sm"
-                        onClick={() => onToggleErasing(false)}
-                            title="Draw"
-                    >
-                            <ResponsiveButtonLabel icon={<Pencil className="h-4 w-4" />} label="Draw" />
-                    </Button>
-                    <Button
-                        variant={isErasing ? "default" : "outline"}
-                        size="sm"
-                        onClick={() => onToggleErasing(true)}
-                            title="Erase"
-                    >
-                            <ResponsiveButtonLabel icon={<Eraser className="h-4 w-4" />} label="Erase" />
-                    </Button>
+                    {toolButtons}
                     <Button
                         variant="outline"
                         size="sm"
@@ -236,7 +264,7 @@ export const DrawingControls = ({
                     >
                             <ResponsiveButtonLabel icon={<Undo2 className="h-4 w-4" />} label="Undo" />
                     </Button>
-                    <Button onClick={onClearCanvas} variant="outline" size="sm" title="Clear canvas">
+                    <Button onClick={onClearCanvas} variant="outline" size="sm" title="Clear canvas" disabled={readOnly}>
                         <ResponsiveButtonLabel icon={<Trash2 className="h-4 w-4" />} label="Clear" />
                     </Button>
                 </div>
@@ -6,7 +6,10 @@
  * LAYERS (from bottom to top):
  * 1. Background Canvas - Field image (static, never modified)
  * 2. Overlay Canvas - Team numbers, auto paths (updated when teams change)
- * 3. Drawing Canvas - User drawings (only layer affected by erasing)
+ * 3. Drawing Canvas - Whiteboard elements rendered from vectors (only layer affected by erasing)
+ * 
+ * Drawings are vector elements owned by the page's strategy whiteboard, so
+ * this component renders them and turns gestures into whiteboard operations.
  * 
  * YEAR-AGNOSTIC: Accepts fieldImagePath as prop for configurable field images.
  */
@@ -15,13 +18,26 @@ import { useRef, useEffect, useState, useCallback, useMemo } from "react";
 import { useFullscreen } from "@/core/hooks/useFullscreen";
 import { useFieldOrientation } from "@/core/hooks/useFieldOrientation";
 import { useIsMobile } from "@/core/hooks/use-mobile";
-import { useCanvasDrawing } from "@/core/hooks/useCanvasDrawing";
+import { useCanvasDrawing, type DrawingTool } from "@/core/hooks/useCanvasDrawing";
 import { useCanvasSetup } from "@/core/hooks/useCanvasSetup";
+import type { StrategyWhiteboard } from "@/core/hooks/useStrategyWhiteboard";
 import { drawSelectedAutoRoutines, drawTeamNumbersAndSpots, getAutoRoutineSlotAtPoint } from "@/core/lib/canvasUtils";
+import {
+    DEFAULT_TEXT_SIZE,
+    createWhiteboardElementId,
+    drawWhiteboardElements,
+    findMovableElementAt,
+    isWhiteboardStageId,
+    type WhiteboardElement,
+    type WhiteboardPoint,
+    type WhiteboardRobot,
+    type WhiteboardText,
+} from "@/core/lib/strategyWhiteboard";
 import { FieldCanvasHeader } from "./FieldCanvasHeader";
 import { MobileStageControls } from "./MobileStageControls";
-import { DrawingControls } from "./DrawingControls";
+import { DrawingControls, type RobotSlotOption } from "./DrawingControls";
 import { FloatingControls } from "./FloatingControls";
+import { WhiteboardElementDialog } from "./WhiteboardElementDialog";
 import { Button } from "@/core/components/ui/button";
 import { Play, Pause, RotateCcw } from "lucide-react";
 import type { StrategyAutoRoutine, StrategyStageId, TeamStageSpots } from "@/core/hooks/useMatchStrategy";
@@ -39,6 +55,7 @@ interface FieldCanvasProps {
     teamSlotSpotVisibility?: TeamSlotSpotVisibility[];
     getTeamSpots?: (teamNumber: number | null, stageId: StrategyStageId) => TeamStageSpots;
     selectedAutoRoutinesBySlot?: (StrategyAutoRoutine | null)[];
+    whiteboard: StrategyWhiteboard;
 }
 
 const MIN_REPLAY_DURATION_MS = 6000;
@@ -103,6 +120,7 @@ const FieldCanvas = ({
     teamSlotSpotVisibility = [],
     getTeamSpots,
     selectedAutoRoutinesBySlot = [],
+    whiteboard,
 }: FieldCanvasProps) => {
     // Canvas refs for the 3-layer architecture
     const backgroundCanvasRef = useRef<HTMLCanvasElement>(null);
@@ -112,7 +130,8 @@ const FieldCanvas = ({
     const fullscreenRef = useRef<HTMLDivElement>(null);
 
     // Drawing state
-    const [isErasing, setIsErasing] = useState(false);
+    const [tool, setTool] = useState<DrawingTool>('draw');
+    const [robotSlot, setRobotSlot] = useState(0);
     const [brushSize, setBrushSize] = useState(3);
     const [brushColor, setBrushColor] = useState('#ff0000');
     const { isFullscreen, setIsFullscreen } = useFullscreen();
@@ -219,23 +238,69 @@ const FieldCanvas = ({
         setCanvasDimensions({ width: 0, height: 0 });
     }, [isFullscreen]);
 
-    // Canvas ready state for undo history
-    const [canvasReady, setCanvasReady] = useState(false);
-    const [isStageCanvasReady, setIsStageCanvasReady] = useState(false);
-    const readyStageIdRef = useRef<string | null>(null);
-    const handleCanvasReady = useCallback(() => {
-        setCanvasReady(true);
-        readyStageIdRef.current = currentStageId;
-        setIsStageCanvasReady(true);
-    }, [currentStageId]);
+    // Whiteboard state for the stage on screen
+    const whiteboardStageId = isWhiteboardStageId(currentStageId) ? currentStageId : null;
+    const whiteboardStage = whiteboardStageId ? whiteboard.board[whiteboardStageId] : null;
+    const whiteboardElements = useMemo(() => whiteboardStage?.elements ?? [], [whiteboardStage]);
+    const legacyImageSrc = whiteboardStage?.legacyImage;
+    const isDrawingDisabled = whiteboard.readOnly || !whiteboardStageId;
+    const remoteDraft = whiteboard.remoteDraft && whiteboard.remoteDraft.stageId === whiteboardStageId
+        ? whiteboard.remoteDraft.element
+        : null;
+    const localDraftRef = useRef<WhiteboardElement | null>(null);
+    const legacyImageRef = useRef<HTMLImageElement | null>(null);
+    const [legacyImageVersion, setLegacyImageVersion] = useState(0);
+    const [editingElement, setEditingElement] = useState<WhiteboardRobot | WhiteboardText | null>(null);
+    const [pendingTextPoint, setPendingTextPoint] = useState<WhiteboardPoint | null>(null);
 
     useEffect(() => {
-        readyStageIdRef.current = null;
-        setIsStageCanvasReady(false);
-    }, [currentStageId, isFullscreen]);
+        legacyImageRef.current = null;
+        if (!legacyImageSrc) {
+            setLegacyImageVersion((version) => version + 1);
+            return;
+        }
+
+        const img = new Image();
+        img.onload = () => {
+            legacyImageRef.current = img;
+            setLegacyImageVersion((version) => version + 1);
+        };
+        img.src = legacyImageSrc;
+    }, [legacyImageSrc]);
+
+    // Render the drawing layer from vectors; an in-progress element replaces
+    // the element it is editing, or is drawn on top when new
+    const redrawWhiteboard = useCallback(() => {
+        const canvas = drawingCanvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return;
+
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        if (legacyImageRef.current) {
+            ctx.drawImage(legacyImageRef.current, 0, 0, canvas.width, canvas.height);
+        }
+
+        const draft = localDraftRef.current ?? remoteDraft;
+        const elements = draft
+            ? [...whiteboardElements.filter((element) => element.id !== draft.id), draft]
+            : whiteboardElements;
+        drawWhiteboardElements(ctx, elements, canvas.width, canvas.height);
+    }, [whiteboardElements, remoteDraft]);
+
+    // Setup resizes (and so clears) the drawing layer; redraw from a ref so the
+    // setup callback does not change on every stroke
+    const redrawWhiteboardRef = useRef(redrawWhiteboard);
+    useEffect(() => {
+        redrawWhiteboardRef.current = redrawWhiteboard;
+        redrawWhiteboard();
+    }, [redrawWhiteboard, legacyImageVersion]);
+
+    const handleCanvasReady = useCallback(() => {
+        redrawWhiteboardRef.current();
+    }, []);
 
     // Canvas setup hook (now handles background + overlay layers)
-    const { clearCanvas } = useCanvasSetup({
+    useCanvasSetup({
         fieldImagePath,
         currentStageId,
         isFullscreen,
@@ -257,6 +322,34 @@ const FieldCanvas = ({
     });
 
     const handleCanvasTap = useCallback((point: { x: number; y: number }) => {
+        const canvas = drawingCanvasRef.current;
+        if (whiteboardStageId && canvas && canvas.width > 0 && canvas.height > 0) {
+            const position = { x: point.x / canvas.width, y: point.y / canvas.height };
+
+            if (tool === 'text') {
+                setEditingElement(null);
+                setPendingTextPoint(position);
+                return;
+            }
+
+            if (tool === 'robot') {
+                const now = Date.now();
+                whiteboard.apply({
+                    type: 'add',
+                    stageId: whiteboardStageId,
+                    element: {
+                        id: createWhiteboardElementId(now),
+                        createdAt: now,
+                        kind: 'robot',
+                        position,
+                        teamNumber: selectedTeams[robotSlot] ?? null,
+                        alliance: robotSlot < 3 ? 'red' : 'blue',
+                    },
+                });
+                return;
+            }
+        }
+
         if (currentStageId !== 'autonomous') return;
 
         const hitSlot = getAutoRoutineSlotAtPoint(
@@ -275,7 +368,67 @@ const FieldCanvas = ({
         }
 
         setIsolatedAutoSlot((prev) => (prev === hitSlot ? null : hitSlot));
-    }, [currentStageId, canvasDimensions.width, canvasDimensions.height, selectedTeams, selectedAutoRoutinesBySlot]);
+    }, [whiteboardStageId, tool, whiteboard, robotSlot, currentStageId, canvasDimensions.width, canvasDimensions.height, selectedTeams, selectedAutoRoutinesBySlot]);
+
+    const handleDraftChange = useCallback((element: WhiteboardElement | null) => {
+        localDraftRef.current = element;
+        redrawWhiteboardRef.current();
+        if (whiteboardStageId) {
+            whiteboard.sendDraft(whiteboardStageId, element);
+        }
+    }, [whiteboard, whiteboardStageId]);
+
+    const handleElementComplete = useCallback((element: WhiteboardElement, isNew: boolean) => {
+        if (!whiteboardStageId) return;
+        whiteboard.apply({ type: isNew ? 'add' : 'update', stageId: whiteboardStageId, element });
+    }, [whiteboard, whiteboardStageId]);
+
+    const getMovableElementAt = useCallback(
+        (point: WhiteboardPoint, aspect: number) => findMovableElementAt(whiteboardElements, point, aspect),
+        [whiteboardElements]
+    );
+
+    const closeElementDialog = useCallback(() => {
+        setEditingElement(null);
+        setPendingTextPoint(null);
+    }, []);
+
+    const handleSaveText = useCallback((text: string) => {
+        if (!whiteboardStageId) return;
+
+        if (editingElement?.kind === 'text') {
+            whiteboard.apply({ type: 'update', stageId: whiteboardStageId, element: { ...editingElement, text } });
+        } else if (pendingTextPoint) {
+            const now = Date.now();
+            whiteboard.apply({
+                type: 'add',
+                stageId: whiteboardStageId,
+                element: {
+                    id: createWhiteboardElementId(now),
+                    createdAt: now,
+                    kind: 'text',
+                    position: pendingTextPoint,
+                    text,
+                    color: brushColor,
+                    size: DEFAULT_TEXT_SIZE,
+                },
+            });
+        }
+        closeElementDialog();
+    }, [whiteboard, whiteboardStageId, editingElement, pendingTextPoint, brushColor, closeElementDialog]);
+
+    const handleDeleteElement = useCallback(() => {
+        if (whiteboardStageId && editingElement) {
+            whiteboard.apply({ type: 'remove', stageId: whiteboardStageId, elementId: editingElement.id });
+        }
+        closeElementDialog();
+    }, [whiteboard, whiteboardStageId, editingElement, closeElementDialog]);
+
+    const robotSlotOptions = useMemo<RobotSlotOption[]>(() => Array.from({ length: 6 }, (_, slot) => {
+        const team = selectedTeams[slot];
+        const position = `${slot < 3 ? 'Red' : 'Blue'} ${(slot % 3) + 1}`;
+        return { slot, label: team ? `${position} • ${team}` : position };
+    }), [selectedTeams]);
 
     const handleReplayPlayPause = useCallback(() => {
         if (currentStageId !== 'autonomous' || visibleAutoRoutines.length === 0) return;
@@ -305,8 +458,8 @@ const FieldCanvas = ({
         };
     }, [isFieldRotated]);
 
-    // Save canvas function - composites all layers
-    const saveCanvas = useCallback((showAlert = true) => {
+    // Download the current stage - composites all layers
+    const saveCanvas = useCallback(() => {
         const bgCanvas = backgroundCanvasRef.current;
         const drawingCanvas = drawingCanvasRef.current;
         if (!bgCanvas || !drawingCanvas) return;
@@ -346,36 +499,10 @@ const FieldCanvas = ({
         );
         ctx.drawImage(drawingCanvas, 0, 0);
 
-        const dataURL = compositeCanvas.toDataURL('image/png');
-
-        if (showAlert) {
-            const link = document.createElement('a');
-            link.download = `field-strategy-${currentStageId}-${new Date().toISOString().slice(0, 10)}.png`;
-            link.href = dataURL;
-            link.click();
-        }
-
-        // Auto-save drawing layer to localStorage, but never overwrite an existing
-        // non-empty stage drawing with an empty canvas during stage transition races.
-        const drawingCtx = drawingCanvas.getContext('2d', { willReadFrequently: true });
-        const drawingKey = `fieldStrategy_${currentStageId}`;
-        const existingDrawing = localStorage.getItem(drawingKey);
-        let hasVisibleDrawing = false;
-
-        if (drawingCtx && drawingCanvas.width > 0 && drawingCanvas.height > 0) {
-            const imageData = drawingCtx.getImageData(0, 0, drawingCanvas.width, drawingCanvas.height);
-            const data = imageData.data;
-            for (let index = 3; index < data.length; index += 4) {
-                if ((data[index] ?? 0) > 0) {
-                    hasVisibleDrawing = true;
-                    break;
-                }
-            }
-        }
-
-        if (hasVisibleDrawing || !existingDrawing) {
-            localStorage.setItem(drawingKey, drawingCanvas.toDataURL('image/png'));
-        }
+        const link = document.createElement('a');
+        link.download = `field-strategy-${currentStageId}-${new Date().toISOString().slice(0, 10)}.png`;
+        link.href = compositeCanvas.toDataURL('image/png');
+        link.click();
     }, [
         currentStageId,
         canvasDimensions,
@@ -418,56 +545,29 @@ const FieldCanvas = ({
     ) : null;
 
     // Canvas drawing hook - only operates on drawing layer
-    const { canvasStyle, canvasEventHandlers, undo, canUndo, initializeHistory, saveToHistory } = useCanvasDrawing({
+    const { canvasStyle, canvasEventHandlers } = useCanvasDrawing({
         canvasRef: drawingCanvasRef,
+        tool,
         brushSize,
         brushColor,
-        isErasing,
-        onSave: () => saveCanvas(false),
+        disabled: isDrawingDisabled,
+        getMovableElementAt,
+        onDraftChange: handleDraftChange,
+        onElementComplete: handleElementComplete,
         onTap: handleCanvasTap,
+        onElementTap: setEditingElement,
         mapDisplayPointToCanvas,
-        selectedTeams
     });
 
-    // Persist strategy state when overlay content changes (auto routines, teams, spot toggles)
-    // so an auto-only canvas is treated as saved even without freehand drawing.
-    useEffect(() => {
-        if (!isStageCanvasReady) return;
-        if (readyStageIdRef.current !== currentStageId) return;
-        if (canvasDimensions.width <= 0 || canvasDimensions.height <= 0) return;
-        saveCanvas(false);
-    }, [
-        isStageCanvasReady,
-        canvasDimensions.width,
-        canvasDimensions.height,
-        currentStageId,
-        saveCanvas,
-        selectedTeams,
-        teamSlotSpotVisibility,
-        selectedAutoRoutinesBySlot,
-    ]);
+    const canUndo = whiteboardStageId ? whiteboard.canUndo(whiteboardStageId) : false;
 
-    // Initialize undo history once when component mounts
-    const historyInitializedRef = useRef(false);
-    useEffect(() => {
-        if (canvasReady && initializeHistory && !historyInitializedRef.current) {
-            initializeHistory();
-            historyInitializedRef.current = true;
-        }
-        // Reset canvasReady after saving to history
-        if (canvasReady) {
-            setCanvasReady(false);
-        }
-    }, [canvasReady, initializeHistory]);
+    const undo = useCallback(() => {
+        if (whiteboardStageId) whiteboard.undo(whiteboardStageId);
+    }, [whiteboard, whiteboardStageId]);
 
-    // Wrap clearCanvas to save to history before clearing
     const handleClearCanvas = useCallback(() => {
-        // Save current state to history before clearing
-        if (saveToHistory) {
-            saveToHistory();
-        }
-        clearCanvas();
-    }, [saveToHistory, clearCanvas]);
+        if (whiteboardStageId) whiteboard.apply({ type: 'clear', stageId: whiteboardStageId });
+    }, [whiteboard, whiteboardStageId]);
 
     // Handle fullscreen toggle
     const toggleFullscreen = useCallback(() => {
@@ -498,15 +598,12 @@ const FieldCanvas = ({
         if (!newStage) return;
         const newStageId = newStage.id;
 
-        readyStageIdRef.current = null;
-        setIsStageCanvasReady(false);
-        saveCanvas(false);
         setCurrentStageId(newStageId);
 
         if (!isFullscreen && onStageChange) {
             onStageChange(newStageId);
         }
-    }, [currentStageId, isFullscreen, onStageChange, stages, saveCanvas]);
+    }, [currentStageId, isFullscreen, onStageChange, stages]);
 
     // Keyboard handlers
     useEffect(() => {
@@ -560,6 +657,18 @@ const FieldCanvas = ({
         transformOrigin: 'center center'
     };
 
+    const elementDialog = (
+        <WhiteboardElementDialog
+            open={editingElement !== null || pendingTextPoint !== null}
+            onOpenChange={(open) => {
+                if (!open) closeElementDialog();
+            }}
+            element={editingElement}
+            onSaveText={handleSaveText}
+            onDelete={handleDeleteElement}
+        />
+    );
+
     // Render stacked canvases
     const renderCanvasStack = () => (
         <div className="w-full h-full min-h-0 flex items-center justify-center">
@@ -580,7 +689,7 @@ const FieldCanvas = ({
                 style={{
                     ...rotatedLayerStyle,
                     ...canvasStyle,
-                    cursor: 'crosshair',
+                    cursor: isDrawingDisabled ? 'default' : 'crosshair',
                     touchAction: 'none'
                 }}
                 {...canvasEventHandlers}
@@ -613,7 +722,10 @@ const FieldCanvas = ({
 
                 {(!hideControls || !isMobile) && (
                     <DrawingControls
-                        isErasing={isErasing}
+                        tool={tool}
+                        robotSlot={robotSlot}
+                        robotSlotOptions={robotSlotOptions}
+                        readOnly={whiteboard.readOnly}
                         brushSize={brushSize}
                         brushColor={brushColor}
                         currentStageId={currentStageId}
@@ -621,11 +733,12 @@ const FieldCanvas = ({
                         isFullscreen={isFullscreen}
                         canUndo={canUndo}
                         isFieldRotated={isFieldRotated}
-                        onToggleErasing={setIsErasing}
+                        onToolChange={setTool}
+                        onRobotSlotChange={setRobotSlot}
                         onBrushSizeChange={setBrushSize}
                         onBrushColorChange={setBrushColor}
                         onClearCanvas={handleClearCanvas}
-                        onSaveCanvas={() => saveCanvas(true)}
+                        onSaveCanvas={saveCanvas}
                         onUndo={undo}
                         onToggleFieldOrientation={toggleFieldOrientation}
                         onToggleFullscreen={toggleFullscreen}
@@ -645,10 +758,10 @@ const FieldCanvas = ({
                 >
                     <FloatingControls
                         isVisible={hideControls && isMobile}
-                        isErasing={isErasing}
+                        isErasing={tool === 'erase'}
                         onToggleControls={() => setHideControls(false)}
                         onStageSwitch={switchStage}
-                        onToggleErasing={setIsErasing}
+                        onToggleErasing={(erasing) => setTool(erasing ? 'erase' : 'draw')}
                         onClearCanvas={handleClearCanvas}
                     />
 
@@ -662,6 +775,7 @@ const FieldCanvas = ({
                     </div>
                 </div>
 
+                {elementDialog}
             </div>
         );
     }
@@ -673,7 +787,10 @@ const FieldCanvas = ({
             style={{ touchAction: 'pan-x pan-y' }}
         >
             <DrawingControls
-                isErasing={isErasing}
+                tool={tool}
+                robotSlot={robotSlot}
+                robotSlotOptions={robotSlotOptions}
+                readOnly={whiteboard.readOnly}
                 brushSize={brushSize}
                 brushColor={brushColor}
                 currentStageId={currentStageId}
@@ -681,11 +798,12 @@ const FieldCanvas = ({
                 isFullscreen={isFullscreen}
                 canUndo={canUndo}
                 isFieldRotated={isFieldRotated}
-                onToggleErasing={setIsErasing}
+                onToolChange={setTool}
+                onRobotSlotChange={setRobotSlot}
                 onBrushSizeChange={setBrushSize}
                 onBrushColorChange={setBrushColor}
                 onClearCanvas={handleClearCanvas}
-                onSaveCanvas={() => saveCanvas(true)}
+                onSaveCanvas={saveCanvas}
                 onUndo={undo}
                 onToggleFieldOrientation={toggleFieldOrientation}
                 onToggleFullscreen={toggleFullscreen}
@@ -723,6 +841,8 @@ const FieldCanvas = ({
                     <span>Outline = passing</span>
                 </div>
             </div>
+
+            {elementDialog}
         </div>
     );
 };
@@ -9,6 +9,7 @@ import { Card, CardContent } from "@/core/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/core/components/animate-ui/radix/tabs";
 import FieldCanvas from "./FieldCanvas";
 import type { StrategyAutoRoutine, StrategyStageId, TeamStageSpots } from "@/core/hooks/useMatchStrategy";
+import type { StrategyWhiteboard } from "@/core/hooks/useStrategyWhiteboard";
 
 interface TeamSlotSpotVisibility {
     showShooting: boolean;
@@ -22,6 +23,7 @@ interface FieldStrategyProps {
     teamSlotSpotVisibility?: TeamSlotSpotVisibility[];
     getTeamSpots?: (teamNumber: number | null, stageId: StrategyStageId) => TeamStageSpots;
     selectedAutoRoutinesBySlot?: (StrategyAutoRoutine | null)[];
+    whiteboard: StrategyWhiteboard;
     onTabChange: (value: string) => void;
 }
 
@@ -32,6 +34,7 @@ export const FieldStrategy = ({
     teamSlotSpotVisibility = [],
     getTeamSpots,
     selectedAutoRoutinesBySlot = [],
+    whiteboard,
     onTabChange
 }: FieldStrategyProps) => {
     return (
@@ -54,6 +57,7 @@ export const FieldStrategy = ({
                                 teamSlotSpotVisibility={teamSlotSpotVisibility}
                                 getTeamSpots={getTeamSpots}
                                 selectedAutoRoutinesBySlot={selectedAutoRoutinesBySlot}
+                                whiteboard={whiteboard}
                                 onStageChange={onTabChange}
                             />
                         </TabsContent>
@@ -67,6 +71,7 @@ export const FieldStrategy = ({
                                 teamSlotSpotVisibility={teamSlotSpotVisibility}
                                 getTeamSpots={getTeamSpots}
                                 selectedAutoRoutinesBySlot={selectedAutoRoutinesBySlot}
+                                whiteboard={whiteboard}
                                 onStageChange={onTabChange}
                             />
                         </TabsContent>
@@ -80,6 +85,7 @@ export const FieldStrategy = ({
                                 teamSlotSpotVisibility={teamSlotSpotVisibility}
                                 getTeamSpots={getTeamSpots}
                                 selectedAutoRoutinesBySlot={selectedAutoRoutinesBySlot}
+                                whiteboard={whiteboard}
                                 onStageChange={onTabChange}
                             />
                         </TabsContent>
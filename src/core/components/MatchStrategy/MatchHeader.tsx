@@ -17,6 +17,7 @@ interface MatchHeaderProps {
     onDisplayModeChange: (value: MatchStrategyDisplayMode) => void;
     onClearAll: () => void;
     onSaveAll: () => void;
+    onPrintAll: () => void;
 }
 
 export const MatchHeader = ({
@@ -32,7 +33,8 @@ export const MatchHeader = ({
     onMatchNumberChange,
     onDisplayModeChange,
     onClearAll,
-    onSaveAll
+    onSaveAll,
+    onPrintAll
 }: MatchHeaderProps) => {
     const hasMatchData = localStorage.getItem("matchData");
     const displayModeLabels = Object.fromEntries(
@@ -142,6 +144,14 @@ export const MatchHeader = ({
                     >
                         Save All
                     </Button>
+                    <Button
+                        onClick={onPrintAll}
+                        variant="outline"
+                        className="flex-1 md:flex-none px-3 py-2"
+                        title="Print the plan or save it as a PDF handout"
+                    >
+                        Print / PDF
+                    </Button>
                 </div>
             </div>
         </div>
@@ -0,0 +1,128 @@
+import { Badge } from "@/core/components/ui/badge";
+import { Button } from "@/core/components/ui/button";
+import { Copy, Eye, LogOut, Play, Radio, Square } from "lucide-react";
+import type { StrategyWhiteboard } from "@/core/hooks/useStrategyWhiteboard";
+import { isWhiteboardEmpty } from "@/core/lib/strategyWhiteboard";
+
+interface StrategySessionBarProps {
+    whiteboard: StrategyWhiteboard;
+}
+
+/**
+ * Live session and replay controls for the strategy whiteboard.
+ */
+export const StrategySessionBar = ({ whiteboard }: StrategySessionBarProps) => {
+    const {
+        remoteSession,
+        isFollowing,
+        isBroadcasting,
+        isConnected,
+        replayProgress,
+    } = whiteboard;
+
+    const sessionTitle = remoteSession
+        ? `${remoteSession.hostName}'s plan${remoteSession.label ? ` • ${remoteSession.label}` : ''}`
+        : '';
+
+    const renderStatus = () => {
+        if (isBroadcasting) {
+            return (
+                <span className="flex items-center gap-2">
+                    <Badge variant="destructive" className="text-xs">LIVE</Badge>
+                    Connected devices see this plan as you draw
+                </span>
+            );
+        }
+
+        if (isFollowing && remoteSession) {
+            if (!remoteSession.board) return `Waiting for ${sessionTitle}...`;
+            return remoteSession.ended
+                ? `${sessionTitle} • broadcast ended`
+                : (
+                    <span className="flex items-center gap-2">
+                        <Badge variant="secondary" className="text-xs">Watching</Badge>
+                        {sessionTitle}
+                    </span>
+                );
+        }
+
+        if (remoteSession && !remoteSession.ended) {
+            return `${remoteSession.hostName} is sharing a live plan${remoteSession.label ? ` for ${remoteSession.label}` : ''}`;
+        }
+
+        return isConnected
+            ? 'Go live to share this plan with connected devices'
+            : 'Connect devices with Peer Transfer to share this plan live';
+    };
+
+    return (
+        <div className="flex w-full flex-col gap-2 rounded-md border bg-background/60 px-3 py-2 text-sm md:flex-row md:items-center md:justify-between">
+            <div className="text-muted-foreground">{renderStatus()}</div>
+
+            <div className="flex flex-wrap items-center gap-2">
+                {replayProgress === null ? (
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={whiteboard.startReplay}
+                        disabled={isWhiteboardEmpty(whiteboard.board)}
+                        title="Replay the plan in the order it was drawn"
+                    >
+                        <Play className="h-4 w-4" />
+                        Replay
+                    </Button>
+                ) : (
+                    <Button variant="outline" size="sm" onClick={whiteboard.stopReplay}>
+                        <Square className="h-4 w-4" />
+                        Stop Replay ({Math.round(replayProgress * 100)}%)
+                    </Button>
+                )}
+
+                {isFollowing ? (
+                    <>
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={whiteboard.keepRemoteCopy}
+                            disabled={!remoteSession?.board}
+                            title="Replace your plan with this one so you can edit it"
+                        >
+                            <Copy className="h-4 w-4" />
+                            Keep a Copy
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={whiteboard.unfollow}>
+                            <LogOut className="h-4 w-4" />
+                            Leave
+                        </Button>
+                    </>
+                ) : (
+                    remoteSession && !remoteSession.ended && !isBroadcasting && (
+                        <Button size="sm" onClick={whiteboard.follow}>
+                            <Eye className="h-4 w-4" />
+                            Watch
+                        </Button>
+                    )
+                )}
+
+                {isBroadcasting ? (
+                    <Button variant="outline" size="sm" onClick={whiteboard.stopBroadcast}>
+                        <Square className="h-4 w-4" />
+                        Stop Live
+                    </Button>
+                ) : (
+                    !isFollowing && (
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={whiteboard.startBroadcast}
+                            disabled={!isConnected}
+                        >
+                            <Radio className="h-4 w-4" />
+                            Go Live
+                        </Button>
+                    )
+                )}
+            </div>
+        </div>
+    );
+};
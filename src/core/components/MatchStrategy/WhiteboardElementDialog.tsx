@@ -0,0 +1,89 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/core/components/ui/dialog";
+import { Button } from "@/core/components/ui/button";
+import { Input } from "@/core/components/ui/input";
+import { Label } from "@/core/components/ui/label";
+import type { WhiteboardRobot, WhiteboardText } from "@/core/lib/strategyWhiteboard";
+
+interface WhiteboardElementDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    /** Element being edited, or null when placing a new text label */
+    element: WhiteboardRobot | WhiteboardText | null;
+    onSaveText: (text: string) => void;
+    onDelete: () => void;
+}
+
+export const WhiteboardElementDialog = ({
+    open,
+    onOpenChange,
+    element,
+    onSaveText,
+    onDelete,
+}: WhiteboardElementDialogProps) => {
+    const [text, setText] = useState("");
+
+    useEffect(() => {
+        if (open) {
+            setText(element?.kind === "text" ? element.text : "");
+        }
+    }, [open, element]);
+
+    const isRobot = element?.kind === "robot";
+    const trimmed = text.trim();
+
+    const handleSave = () => {
+        if (!trimmed) return;
+        onSaveText(trimmed);
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-sm">
+                <DialogHeader>
+                    <DialogTitle>
+                        {isRobot ? "Robot Token" : element ? "Edit Label" : "Add Label"}
+                    </DialogTitle>
+                    <DialogDescription>
+                        {isRobot
+                            ? `${element.alliance === "red" ? "Red" : "Blue"} alliance${element.teamNumber !== null ? ` • Team ${element.teamNumber}` : ""}. Drag the token to move it.`
+                            : "Labels can be dragged with the text tool."}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {!isRobot && (
+                    <div className="space-y-2">
+                        <Label htmlFor="whiteboard-label-text">Label</Label>
+                        <Input
+                            id="whiteboard-label-text"
+                            value={text}
+                            maxLength={40}
+                            placeholder="e.g. Defend here"
+                            autoFocus
+                            onChange={(e) => setText(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === "Enter") handleSave();
+                            }}
+                        />
+                    </div>
+                )}
+
+                <DialogFooter className="gap-2">
+                    {element && (
+                        <Button variant="destructive" onClick={onDelete}>
+                            Delete
+                        </Button>
+                    )}
+                    <Button variant="outline" onClick={() => onOpenChange(false)}>
+                        {isRobot ? "Close" : "Cancel"}
+                    </Button>
+                    {!isRobot && (
+                        <Button onClick={handleSave} disabled={!trimmed}>
+                            Save
+                        </Button>
+                    )}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
@@ -5,7 +5,7 @@
  * Matches 2025 styling.
  */
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { toast } from "sonner";
 import { AllianceInitializer } from "./AllianceInitializer";
 import { AllianceTable } from "./AllianceTable";
@@ -21,6 +21,13 @@ import {
 } from "@/core/components/ui/alert-dialog";
 import type { Alliance, BackupTeam } from "@/core/lib/allianceTypes";
 import type { TeamStats } from "@/core/types/team-stats";
+import type { PickList } from "@/core/types/pickListTypes";
+import { AllianceDraftSimulator } from "@/game-template/components";
+import { workspaceStorage } from "@/core/db/eventWorkspaceDatabase";
+import { getCachedTBAEventAlliances } from "@/core/lib/tbaCache";
+import { fetchAndCacheEventAlliances } from "@/core/lib/tba/eventStandingsUtils";
+import { hasAllianceSelections, tbaAlliancesToSelection } from "@/core/lib/eventStandings";
+import type { TBAEliminationAlliance } from "@/core/lib/tba/tbaUtils";
 
 type AlliancePosition = 'captain' | 'pick1' | 'pick2' | 'pick3';
 
@@ -36,6 +43,8 @@ interface AllianceSelectionTableProps {
     backups: BackupTeam[];
     availableTeams: TeamStats[];
     teamLookupTeams: TeamStats[];
+    pickLists: PickList[];
+    pickListEvent: string;
     onUpdateAlliances: (alliances: Alliance[]) => void;
     onUpdateBackups: (backups: BackupTeam[]) => void;
     onAssignTeamToAllianceSlot: (teamNumber: number, allianceId: number, position: AlliancePosition) => void;
@@ -49,6 +58,8 @@ export const AllianceSelectionTable = ({
     backups,
     availableTeams,
     teamLookupTeams,
+    pickLists,
+    pickListEvent,
     onUpdateAlliances,
     onUpdateBackups,
     onAssignTeamToAllianceSlot,
@@ -57,6 +68,75 @@ export const AllianceSelectionTable = ({
     onDiscardTeamPickListSnapshot,
 }: AllianceSelectionTableProps) => {
     const [pendingRemoval, setPendingRemoval] = useState<PendingAllianceRemoval | null>(null);
+    const [tbaAlliancesLoading, setTbaAlliancesLoading] = useState(false);
+    const autoFilledEventRef = useRef<string | null>(null);
+    // The cache read below resolves after saved alliances load, so it checks the latest table
+    const latestRef = useRef({ alliances, backups });
+    latestRef.current = { alliances, backups };
+    const eventKey = (pickListEvent || localStorage.getItem("eventKey") || "").trim().toLowerCase();
+
+    // Replace the table with TBA's selected alliances. Called-in backup robots
+    // are added to the backup list if they are not on it already.
+    const applyTBAAlliances = (tbaAlliances: TBAEliminationAlliance[]) => {
+        const selection = tbaAlliancesToSelection(tbaAlliances, Date.now());
+        onUpdateAlliances(selection.alliances);
+
+        const currentBackups = latestRef.current.backups;
+        const listedBackups = new Set(currentBackups.map(backup => backup.teamNumber));
+        const newBackups = selection.backups.filter(backup => !listedBackups.has(backup.teamNumber));
+        if (newBackups.length > 0) {
+            onUpdateBackups([
+                ...currentBackups,
+                ...newBackups.map((backup, index) => ({ ...backup, rank: currentBackups.length + index + 1 })),
+            ]);
+        }
+    };
+
+    // Fill an empty table from alliances already cached for this event
+    useEffect(() => {
+        if (!eventKey || autoFilledEventRef.current === eventKey || hasAllianceSelections(alliances)) {
+            return;
+        }
+        autoFilledEventRef.current = eventKey;
+
+        getCachedTBAEventAlliances(eventKey)
+            .then(cached => {
+                if (cached && cached.data.length > 0 && !hasAllianceSelections(latestRef.current.alliances)) {
+                    applyTBAAlliances(cached.data);
+                    toast.info(`Filled ${cached.data.length} alliances from TBA for ${eventKey}`);
+                }
+            })
+            .catch(error => console.warn("Failed to read cached TBA alliances:", error));
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [eventKey, alliances]);
+
+    const loadTBAAlliances = async () => {
+        if (!eventKey) {
+            toast.error("Select an event before loading alliances from TBA");
+            return;
+        }
+
+        setTbaAlliancesLoading(true);
+        try {
+            let tbaAlliances: TBAEliminationAlliance[];
+            try {
+                tbaAlliances = await fetchAndCacheEventAlliances(eventKey, "");
+            } catch (error) {
+                console.warn("Failed to fetch TBA alliances, using cache:", error);
+                tbaAlliances = (await getCachedTBAEventAlliances(eventKey))?.data ?? [];
+            }
+
+            if (tbaAlliances.length === 0) {
+                toast.error(`TBA has no alliances for ${eventKey} yet`);
+                return;
+            }
+
+            applyTBAAlliances(tbaAlliances);
+            toast.success(`Loaded ${tbaAlliances.length} alliances from TBA`);
+        } finally {
+            setTbaAlliancesLoading(false);
+        }
+    };
 
     // Get all teams that are already selected
     const getSelectedTeams = (): number[] => {
@@ -263,7 +343,7 @@ export const AllianceSelectionTable = ({
         }
 
         // Save to localStorage with a different key for confirmed alliances
-        localStorage.setItem("confirmedAlliances", JSON.stringify(completedAlliances));
+        workspaceStorage.setItem("confirmedAlliances", JSON.stringify(completedAlliances));
 
         toast.success(`${completedAlliances.length} alliance${completedAlliances.length === 1 ? '' : 's'} confirmed and saved`);
     };
@@ -286,7 +366,7 @@ export const AllianceSelectionTable = ({
 
         const finalizeClearAlliances = () => {
             onUpdateAlliances(clearedAlliances);
-            localStorage.removeItem("confirmedAlliances");
+            workspaceStorage.removeItem("confirmedAlliances");
             toast.success("Alliance selections cleared");
         };
 
@@ -321,6 +401,15 @@ export const AllianceSelectionTable = ({
                 onAddAlliance={addAlliance}
                 onConfirmAlliances={confirmAlliances}
                 onClearAlliances={clearAlliances}
+                onLoadTBAAlliances={loadTBAAlliances}
+                tbaAlliancesLoading={tbaAlliancesLoading}
+            />
+
+            <AllianceDraftSimulator
+                alliances={alliances}
+                pickLists={pickLists}
+                teams={availableTeams}
+                eventKey={eventKey || undefined}
             />
 
             <BackupTeamsSection
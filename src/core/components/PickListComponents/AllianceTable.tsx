@@ -7,7 +7,7 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/core/components/ui/card";
 import { Button } from "@/core/components/ui/button";
-import { Plus, Check, RotateCcw } from "lucide-react";
+import { Plus, Check, RotateCcw, Download, Loader2 } from "lucide-react";
 import { AllianceRow } from "./AllianceRow";
 import type { Alliance } from "@/core/lib/allianceTypes";
 import type { TeamStats } from "@/core/types/team-stats";
@@ -22,6 +22,8 @@ interface AllianceTableProps {
     onAddAlliance: () => void;
     onConfirmAlliances: () => void;
     onClearAlliances: () => void;
+    onLoadTBAAlliances: () => void;
+    tbaAlliancesLoading: boolean;
 }
 
 export const AllianceTable = ({
@@ -33,7 +35,9 @@ export const AllianceTable = ({
     onRemoveAlliance,
     onAddAlliance,
     onConfirmAlliances,
-    onClearAlliances
+    onClearAlliances,
+    onLoadTBAAlliances,
+    tbaAlliancesLoading
 }: AllianceTableProps) => {
     return (
         <Card>
@@ -49,6 +53,12 @@ export const AllianceTable = ({
                             <RotateCcw className="h-4 w-4 mr-2" />
                             Clear Alliances
                         </Button>
+                        <Button onClick={onLoadTBAAlliances} size="sm" variant="outline" disabled={tbaAlliancesLoading}>
+                            {tbaAlliancesLoading
+                                ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                : <Download className="h-4 w-4 mr-2" />}
+                            Load from TBA
+                        </Button>
                         <Button onClick={onAddAlliance} size="sm" variant="outline">
                             <Plus className="h-4 w-4 mr-2" />
                             Add Alliance
@@ -134,6 +134,8 @@ export const DesktopPickListLayout = ({
                             backups={backups}
                             availableTeams={availableTeams}
                             teamLookupTeams={teamLookupTeams}
+                            pickLists={pickLists}
+                            pickListEvent={pickListEvent}
                             onUpdateAlliances={onUpdateAlliances}
                             onUpdateBackups={onUpdateBackups}
                             onAssignTeamToAllianceSlot={onAssignTeamToAllianceSlot}
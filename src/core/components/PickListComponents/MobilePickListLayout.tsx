@@ -159,6 +159,8 @@ export const MobilePickListLayout = ({
                             backups={backups}
                             availableTeams={availableTeams}
                             teamLookupTeams={teamLookupTeams}
+                            pickLists={pickLists}
+                            pickListEvent={pickListEvent}
                             onUpdateAlliances={onUpdateAlliances}
                             onUpdateBackups={onUpdateBackups}
                             onAssignTeamToAllianceSlot={onAssignTeamToAllianceSlot}
@@ -0,0 +1,313 @@
+/**
+ * Pairwise Ranking Panel
+ *
+ * Ranks teams from head-to-head votes instead of ordering the whole list at
+ * once. Each round shows the two teams whose comparison is most informative,
+ * the votes are fit to a Bradley-Terry rating, and the result can be written
+ * into a pick list.
+ */
+
+import { useMemo, useState } from "react";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/core/components/ui/card";
+import { Button } from "@/core/components/ui/button";
+import { Badge } from "@/core/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/core/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/core/components/ui/table";
+import { ArrowDownToLine, Download, Scale, SkipForward, Undo2, Upload } from "lucide-react";
+import { TeamCardStats } from "@/game-template/pick-list-config";
+import { usePairwiseVotes } from "@/core/hooks/usePairwiseVotes";
+import { createPickListItem } from "@/core/lib/pickListUtils";
+import {
+    fitPairwiseRatings,
+    getPairKey,
+    getRankingConfidence,
+    getWinProbability,
+    selectNextPair,
+} from "@/core/lib/pairwiseRanking";
+import type { PickList, PickListItem } from "@/core/types/pickListTypes";
+import type { TeamStats } from "@/core/types/team-stats";
+
+const ALL_TEAMS = "all";
+
+interface PairwiseRankingPanelProps {
+    eventKey: string;
+    availableTeams: TeamStats[];
+    pickLists: PickList[];
+    onUpdateTeams: (listId: number, teams: PickListItem[]) => void;
+}
+
+const formatPercent = (value: number | null) =>
+    value === null ? "—" : `${Math.round(value * 100)}%`;
+
+export const PairwiseRankingPanel = ({
+    eventKey,
+    availableTeams,
+    pickLists,
+    onUpdateTeams,
+}: PairwiseRankingPanelProps) => {
+    const normalizedEventKey = eventKey.trim().toLowerCase();
+    const { votes, voter, castVote, undoLastVote, clearMyVotes, exportVotes, importVotes } = usePairwiseVotes(normalizedEventKey);
+
+    const [poolSource, setPoolSource] = useState(ALL_TEAMS);
+    const [targetListId, setTargetListId] = useState<string>(() => String(pickLists[0]?.id ?? ""));
+    const [skippedPairs, setSkippedPairs] = useState<Set<string>>(new Set());
+    const [lastPairKey, setLastPairKey] = useState<string | null>(null);
+
+    const teamsByNumber = useMemo(
+        () => new Map(availableTeams.map((team) => [team.teamNumber, team])),
+        [availableTeams]
+    );
+
+    // Rank every event team, or just the teams on one list
+    const poolTeamNumbers = useMemo(() => {
+        const sourceList = pickLists.find((list) => String(list.id) === poolSource);
+        return sourceList
+            ? sourceList.teams.map((item) => item.teamNumber)
+            : availableTeams.map((team) => team.teamNumber);
+    }, [availableTeams, pickLists, poolSource]);
+
+    const ratings = useMemo(() => fitPairwiseRatings(poolTeamNumbers, votes), [poolTeamNumbers, votes]);
+    const rankingConfidence = getRankingConfidence(ratings);
+    const poolVoteCount = ratings.reduce((sum, rating) => sum + rating.wins, 0);
+    const voterCount = new Set(votes.map((vote) => vote.voter)).size;
+
+    const nextPair = useMemo(() => {
+        const excluded = new Set(skippedPairs);
+        if (lastPairKey) excluded.add(lastPairKey);
+        return selectNextPair(ratings, votes, excluded);
+    }, [ratings, votes, skippedPairs, lastPairKey]);
+
+    // Fall back to the first list until one is chosen (lists load after mount)
+    const effectiveTargetListId = pickLists.some((list) => String(list.id) === targetListId)
+        ? targetListId
+        : String(pickLists[0]?.id ?? "");
+
+    const ratingsByTeam = new Map(ratings.map((rating) => [rating.teamNumber, rating]));
+
+    const handleVote = (winner: number, loser: number) => {
+        castVote(winner, loser);
+        setLastPairKey(getPairKey(winner, loser));
+    };
+
+    const handleSkip = () => {
+        if (!nextPair) return;
+        const key = getPairKey(nextPair.teamA, nextPair.teamB);
+        setSkippedPairs((current) => new Set(current).add(key));
+        setLastPairKey(key);
+    };
+
+    const handleImportClick = () => {
+        const input = document.getElementById("pairwise-import-input") as HTMLInputElement;
+        if (input) {
+            input.value = "";
+            input.click();
+        }
+    };
+
+    const handleApplyToList = () => {
+        const targetList = pickLists.find((list) => String(list.id) === effectiveTargetListId);
+        if (!targetList) {
+            toast.error("Choose a pick list to write the ranking into");
+            return;
+        }
+
+        // Keep existing items (and their checked state and notes); teams on the
+        // list that were not ranked stay below the ranked ones
+        const existingItems = new Map(targetList.teams.map((item) => [item.teamNumber, item]));
+        const ranked = ratings.map((rating) => existingItems.get(rating.teamNumber) ?? createPickListItem(rating.teamNumber));
+        const rankedNumbers = new Set(ratings.map((rating) => rating.teamNumber));
+        const unranked = targetList.teams.filter((item) => !rankedNumbers.has(item.teamNumber));
+
+        onUpdateTeams(targetList.id, [...ranked, ...unranked]);
+        toast.success(`Ranked ${ranked.length} teams in "${targetList.name}"`);
+    };
+
+    if (!normalizedEventKey) {
+        return (
+            <Card>
+                <CardContent className="py-8 text-center text-muted-foreground">
+                    Select an event to rank its teams.
+                </CardContent>
+            </Card>
+        );
+    }
+
+    const renderTeamChoice = (teamNumber: number, opponent: number) => {
+        const team = teamsByNumber.get(teamNumber);
+        const rating = ratingsByTeam.get(teamNumber);
+        const opponentRating = ratingsByTeam.get(opponent);
+
+        return (
+            <div className="flex flex-col gap-3 rounded-lg border p-4">
+                <div className="flex items-start justify-between gap-2">
+                    <div>
+                        <div className="text-2xl font-bold">Team {teamNumber}</div>
+                        {rating && (
+                            <div className="text-xs text-muted-foreground">
+                                {Math.round(rating.rating)} ± {Math.round(rating.uncertainty)} • {rating.wins}-{rating.losses}
+                            </div>
+                        )}
+                    </div>
+                    {rating && opponentRating && (
+                        <Badge variant="outline">
+                            {formatPercent(getWinProbability(rating.rating, opponentRating.rating))} expected
+                        </Badge>
+                    )}
+                </div>
+                <div className="flex-1">
+                    {team ? (
+                        <TeamCardStats team={team} />
+                    ) : (
+                        <div className="text-xs text-muted-foreground">No scouting data</div>
+                    )}
+                </div>
+                <Button onClick={() => handleVote(teamNumber, opponent)} className="w-full">
+                    Pick {teamNumber}
+                </Button>
+            </div>
+        );
+    };
+
+    return (
+        <div className="space-y-4">
+            <Card>
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <Scale className="w-5 h-5" />
+                        Which is the better pick?
+                    </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="flex flex-wrap items-center gap-2">
+                        <Select value={poolSource} onValueChange={setPoolSource}>
+                            <SelectTrigger className="w-56">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={ALL_TEAMS}>All event teams ({availableTeams.length})</SelectItem>
+                                {pickLists.map((list) => (
+                                    <SelectItem key={list.id} value={String(list.id)}>
+                                        {list.name} ({list.teams.length})
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <Badge variant="secondary">{poolVoteCount} votes</Badge>
+                        <Badge variant="secondary">
+                            {voterCount} {voterCount === 1 ? "strategist" : "strategists"}
+                        </Badge>
+                        <Badge variant="outline">Order confidence {formatPercent(rankingConfidence)}</Badge>
+                    </div>
+
+                    {nextPair ? (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            {renderTeamChoice(nextPair.teamA, nextPair.teamB)}
+                            {renderTeamChoice(nextPair.teamB, nextPair.teamA)}
+                        </div>
+                    ) : (
+                        <div className="py-6 text-center text-muted-foreground">
+                            Add at least two teams to rank.
+                        </div>
+                    )}
+
+                    <div className="flex flex-wrap gap-2">
+                        <Button variant="outline" size="sm" onClick={handleSkip} disabled={!nextPair}>
+                            <SkipForward className="w-4 h-4 mr-2" />
+                            Too close to call
+                        </Button>
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={undoLastVote}
+                            disabled={!votes.some((vote) => vote.voter === voter)}
+                        >
+                            <Undo2 className="w-4 h-4 mr-2" />
+                            Undo my last vote
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={exportVotes}>
+                            <Download className="w-4 h-4 mr-2" />
+                            Export Votes
+                        </Button>
+                        <input
+                            type="file"
+                            accept=".json"
+                            onChange={importVotes}
+                            style={{ display: "none" }}
+                            id="pairwise-import-input"
+                        />
+                        <Button variant="outline" size="sm" onClick={handleImportClick}>
+                            <Upload className="w-4 h-4 mr-2" />
+                            Merge Votes
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={clearMyVotes}
+                            disabled={!votes.some((vote) => vote.voter === voter)}
+                        >
+                            Clear my votes
+                        </Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                        Voting as {voter}. Merging another strategist's export adds their votes to yours.
+                    </p>
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Ranking</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="flex flex-wrap items-center gap-2">
+                        <Select value={effectiveTargetListId} onValueChange={setTargetListId}>
+                            <SelectTrigger className="w-56">
+                                <SelectValue placeholder="Choose pick list..." />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {pickLists.map((list) => (
+                                    <SelectItem key={list.id} value={String(list.id)}>
+                                        {list.name}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <Button size="sm" onClick={handleApplyToList} disabled={ratings.length === 0}>
+                            <ArrowDownToLine className="w-4 h-4 mr-2" />
+                            Write Order to List
+                        </Button>
+                    </div>
+
+                    <div className="overflow-x-auto">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead className="w-12">#</TableHead>
+                                    <TableHead>Team</TableHead>
+                                    <TableHead className="text-right">Rating</TableHead>
+                                    <TableHead className="text-right">W-L</TableHead>
+                                    <TableHead className="text-right">Above next</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {ratings.map((rating) => (
+                                    <TableRow key={rating.teamNumber}>
+                                        <TableCell>{rating.rank}</TableCell>
+                                        <TableCell className="font-medium">{rating.teamNumber}</TableCell>
+                                        <TableCell className="text-right">
+                                            {Math.round(rating.rating)}
+                                            <span className="text-muted-foreground"> ± {Math.round(rating.uncertainty)}</span>
+                                        </TableCell>
+                                        <TableCell className="text-right">{rating.wins}-{rating.losses}</TableCell>
+                                        <TableCell className="text-right">{formatPercent(rating.confidenceAboveNext)}</TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    );
+};
@@ -0,0 +1,192 @@
+/**
+ * Playoff Bracket Card
+ *
+ * Double-elimination bracket from cached TBA alliances and playoff matches,
+ * with who our alliance faces next. Refreshing pulls rankings, alliances,
+ * teams and matches from TBA into the cache.
+ */
+
+import { useMemo } from "react";
+import { toast } from "sonner";
+import { GitBranch, Loader2, RefreshCw } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/core/components/ui/card";
+import { Badge } from "@/core/components/ui/badge";
+import { Button } from "@/core/components/ui/button";
+import { Input } from "@/core/components/ui/input";
+import { Label } from "@/core/components/ui/label";
+import { useEventStandings } from "@/core/hooks/useEventStandings";
+import { useLocalStorage } from "@/core/hooks/useLocalStorage";
+import {
+    findAllianceNumber,
+    getPlayoffOutlook,
+    PLAYOFF_FINALS_ID,
+    type PlayoffBracketMatch,
+    type PlayoffOutlook,
+} from "@/core/lib/playoffBracket";
+
+interface PlayoffBracketCardProps {
+    eventKey: string | undefined;
+}
+
+const describeOutlook = (outlook: PlayoffOutlook): string => {
+    const alliance = `Alliance ${outlook.allianceNumber}`;
+
+    switch (outlook.status) {
+        case "champion":
+            return `${alliance} won the event`;
+        case "eliminated":
+            return `${alliance} was eliminated in ${outlook.match?.label ?? "the playoffs"}`;
+        case "upcoming": {
+            const where = `${outlook.match?.label} (${outlook.match?.round}) on ${outlook.color}`;
+            if (outlook.opponent !== null) {
+                return `${alliance} plays Alliance ${outlook.opponent} next - ${where}`;
+            }
+            return outlook.possibleOpponents.length > 0
+                ? `${alliance} plays Alliance ${outlook.possibleOpponents.join(" or ")} next - ${where}`
+                : `${alliance} plays next in ${where}`;
+        }
+        default:
+            return "Our team is not on a selected alliance";
+    }
+};
+
+export const PlayoffBracketCard = ({ eventKey }: PlayoffBracketCardProps) => {
+    const { standings, allianceTeams, bracket, isRefreshing, refresh } = useEventStandings(eventKey);
+    const [ourTeamNumber, setOurTeamNumber] = useLocalStorage("allianceDraftOurTeam", "");
+
+    const teamNames = useMemo(
+        () => new Map((standings?.teams ?? []).map(team => [team.team_number, team.nickname])),
+        [standings]
+    );
+
+    const parsedOurTeam = Number.parseInt(ourTeamNumber, 10);
+    const ourAlliance = Number.isFinite(parsedOurTeam) ? findAllianceNumber(allianceTeams, parsedOurTeam) : null;
+    const outlook = getPlayoffOutlook(bracket, ourAlliance);
+
+    const rounds = useMemo(() => {
+        const byRound = new Map<string, PlayoffBracketMatch[]>();
+        bracket.matches.forEach(match => {
+            byRound.set(match.round, [...(byRound.get(match.round) ?? []), match]);
+        });
+        return [...byRound.entries()];
+    }, [bracket]);
+
+    if (!eventKey) {
+        return null;
+    }
+
+    const handleRefresh = async () => {
+        try {
+            const result = await refresh();
+            if (!result) return;
+
+            if (result.failed.length === 4) {
+                toast.error("Could not reach TBA - showing cached standings");
+                return;
+            }
+            toast.success(
+                `Loaded ${result.rankingCount} rankings, ${result.allianceCount} alliances and ${result.playoffMatchCount} playoff matches`,
+                result.failed.length > 0 ? { description: `Not refreshed: ${result.failed.join(", ")}` } : undefined
+            );
+        } catch (error) {
+            console.error("Failed to refresh event standings:", error);
+            toast.error("Failed to refresh event standings");
+        }
+    };
+
+    const renderSide = (match: PlayoffBracketMatch, color: "red" | "blue") => {
+        const allianceNumber = match[color];
+        const wins = color === "red" ? match.redWins : match.blueWins;
+        const isWinner = allianceNumber !== null && match.winner === allianceNumber;
+        const teams = allianceNumber !== null ? allianceTeams[allianceNumber - 1] ?? [] : [];
+
+        return (
+            <div
+                className={`flex items-center justify-between gap-2 rounded px-2 py-1 text-sm ${color === "red" ? "bg-red-500/10" : "bg-blue-500/10"} ${allianceNumber !== null && allianceNumber === ourAlliance ? "ring-2 ring-primary" : ""}`}
+                title={teams.map(team => `${team}${teamNames.get(team) ? ` ${teamNames.get(team)}` : ""}`).join("\n")}
+            >
+                <span className={isWinner ? "font-semibold" : match.winner !== null ? "text-muted-foreground" : ""}>
+                    {allianceNumber !== null ? `A${allianceNumber}` : "TBD"}
+                    {teams.length > 0 && (
+                        <span className="ml-1 text-xs text-muted-foreground">{teams.slice(0, 3).join(" · ")}</span>
+                    )}
+                </span>
+                {match.id === PLAYOFF_FINALS_ID && <span className="text-xs">{wins}</span>}
+            </div>
+        );
+    };
+
+    const hasAlliances = allianceTeams.length > 0;
+
+    return (
+        <Card className="w-full">
+            <CardHeader>
+                <div className="flex items-center justify-between gap-2">
+                    <CardTitle className="flex items-center gap-2">
+                        <GitBranch className="h-5 w-5" />
+                        Playoff Bracket
+                    </CardTitle>
+                    <div className="flex items-center gap-2">
+                        <Badge variant="outline">{eventKey}</Badge>
+                        <Button variant="outline" size="sm" onClick={handleRefresh} disabled={isRefreshing}>
+                            {isRefreshing
+                                ? <Loader2 className="h-4 w-4 animate-spin" />
+                                : <RefreshCw className="h-4 w-4" />}
+                            <span className="ml-2 hidden sm:inline">Refresh from TBA</span>
+                        </Button>
+                    </div>
+                </div>
+                <CardDescription>
+                    {hasAlliances
+                        ? bracket.champion !== null
+                            ? `Alliance ${bracket.champion} won the event`
+                            : "Double-elimination bracket from TBA alliances and playoff results"
+                        : "Alliances have not been loaded yet - refresh after alliance selection"}
+                    {standings?.fetchedAt && (
+                        <span className="ml-1">· updated {new Date(standings.fetchedAt).toLocaleTimeString()}</span>
+                    )}
+                </CardDescription>
+            </CardHeader>
+            {hasAlliances && (
+                <CardContent className="space-y-4">
+                    <div className="flex flex-col gap-3 sm:flex-row sm:items-end">
+                        <div className="space-y-2 sm:w-48">
+                            <Label htmlFor="bracket-our-team">Our team number</Label>
+                            <Input
+                                id="bracket-our-team"
+                                inputMode="numeric"
+                                placeholder="e.g., 3314"
+                                value={ourTeamNumber}
+                                onChange={(e) => setOurTeamNumber(e.target.value.trim())}
+                            />
+                        </div>
+                        {ourTeamNumber && (
+                            <p className="text-sm font-medium sm:pb-2">{describeOutlook(outlook)}</p>
+                        )}
+                    </div>
+
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-6">
+                        {rounds.map(([round, matches]) => (
+                            <div key={round} className="space-y-2">
+                                <h4 className="text-xs font-semibold uppercase text-muted-foreground">{round}</h4>
+                                {matches.map(match => (
+                                    <div
+                                        key={match.id}
+                                        className={`space-y-1 rounded-md border p-2 ${match.id === outlook.match?.id && outlook.status === "upcoming" ? "border-primary" : ""}`}
+                                    >
+                                        <div className="flex items-center justify-between text-xs text-muted-foreground">
+                                            <span>{match.label}</span>
+                                            {match.bracket !== "finals" && <span>{match.bracket}</span>}
+                                        </div>
+                                        {renderSide(match, "red")}
+                                        {renderSide(match, "blue")}
+                                    </div>
+                                ))}
+                            </div>
+                        ))}
+                    </div>
+                </CardContent>
+            )}
+        </Card>
+    );
+};
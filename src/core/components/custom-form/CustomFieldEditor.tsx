@@ -0,0 +1,159 @@
+import { ArrowDown, ArrowUp, Trash2 } from "lucide-react";
+import { Button } from "@/core/components/ui/button";
+import { Input } from "@/core/components/ui/input";
+import { Label } from "@/core/components/ui/label";
+import { Badge } from "@/core/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/core/components/ui/select";
+import {
+  CUSTOM_FIELD_PHASES,
+  CUSTOM_FIELD_PHASE_LABELS,
+  CUSTOM_FIELD_TYPES,
+  CUSTOM_FIELD_TYPE_LABELS,
+  DEFAULT_RATING_MAX,
+  type CustomFieldDefinition,
+  type CustomFieldPhase,
+  type CustomFieldType,
+} from "@/core/lib/customFormTypes";
+
+interface CustomFieldEditorProps {
+  field: CustomFieldDefinition;
+  /** Keys already stored in submitted matches cannot be changed */
+  isPublished: boolean;
+  canMoveUp: boolean;
+  canMoveDown: boolean;
+  onChange: (field: CustomFieldDefinition) => void;
+  onMove: (direction: -1 | 1) => void;
+  onRemove: () => void;
+}
+
+const parseOptionalNumber = (raw: string): number | undefined => {
+  if (!raw.trim()) return undefined;
+  const parsed = Number.parseInt(raw, 10);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+export const CustomFieldEditor = ({
+  field,
+  isPublished,
+  canMoveUp,
+  canMoveDown,
+  onChange,
+  onMove,
+  onRemove,
+}: CustomFieldEditorProps) => {
+  const handleTypeChange = (type: CustomFieldType) => {
+    onChange({
+      key: field.key,
+      label: field.label,
+      phase: field.phase,
+      type,
+      ...(type === "select" ? { options: field.options ?? [] } : {}),
+      ...(type === "rating" ? { max: DEFAULT_RATING_MAX } : {}),
+    });
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="flex items-center justify-between gap-2">
+        {isPublished ? (
+          <Badge variant="outline" className="font-mono">{field.key}</Badge>
+        ) : (
+          <Badge variant="secondary">New</Badge>
+        )}
+        <div className="flex gap-1">
+          <Button type="button" variant="ghost" size="icon" disabled={!canMoveUp} onClick={() => onMove(-1)} aria-label="Move up">
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button type="button" variant="ghost" size="icon" disabled={!canMoveDown} onClick={() => onMove(1)} aria-label="Move down">
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+          <Button type="button" variant="ghost" size="icon" onClick={onRemove} aria-label="Remove field">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+        <div className="space-y-1 sm:col-span-3">
+          <Label htmlFor={`label-${field.key}`}>Question</Label>
+          <Input
+            id={`label-${field.key}`}
+            value={field.label}
+            onChange={(e) => onChange({ ...field, label: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>Phase</Label>
+          <Select value={field.phase} onValueChange={(value: CustomFieldPhase) => onChange({ ...field, phase: value })}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CUSTOM_FIELD_PHASES.map(phase => (
+                <SelectItem key={phase} value={phase}>{CUSTOM_FIELD_PHASE_LABELS[phase]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Type</Label>
+          <Select value={field.type} onValueChange={handleTypeChange} disabled={isPublished}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CUSTOM_FIELD_TYPES.map(type => (
+                <SelectItem key={type} value={type}>{CUSTOM_FIELD_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {field.type === "counter" && (
+          <div className="space-y-1">
+            <Label htmlFor={`max-${field.key}`}>Maximum (optional)</Label>
+            <Input
+              id={`max-${field.key}`}
+              type="number"
+              min={1}
+              value={field.max ?? ""}
+              onChange={(e) => onChange({ ...field, max: parseOptionalNumber(e.target.value) })}
+            />
+          </div>
+        )}
+
+        {field.type === "rating" && (
+          <div className="space-y-1">
+            <Label htmlFor={`max-${field.key}`}>Scale (2-10)</Label>
+            <Input
+              id={`max-${field.key}`}
+              type="number"
+              min={2}
+              max={10}
+              value={field.max ?? DEFAULT_RATING_MAX}
+              onChange={(e) => onChange({ ...field, max: parseOptionalNumber(e.target.value) })}
+            />
+          </div>
+        )}
+
+        {field.type === "select" && (
+          <div className="space-y-1 sm:col-span-3">
+            <Label htmlFor={`options-${field.key}`}>Options (comma separated)</Label>
+            <Input
+              id={`options-${field.key}`}
+              value={(field.options ?? []).join(", ")}
+              onChange={(e) => onChange({ ...field, options: e.target.value.split(",").map(option => option.trimStart()) })}
+              placeholder="e.g., Ground, Source, Both"
+            />
+          </div>
+        )}
+      </div>
+
+      {isPublished && (
+        <p className="text-xs text-muted-foreground">
+          Saved in a published version, so its type is locked to keep stats consistent.
+        </p>
+      )}
+    </div>
+  );
+};
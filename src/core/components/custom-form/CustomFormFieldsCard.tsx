@@ -0,0 +1,170 @@
+import { useEffect, useState } from "react";
+import { Minus, Plus } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/core/components/ui/card";
+import { Button } from "@/core/components/ui/button";
+import { Input } from "@/core/components/ui/input";
+import { Label } from "@/core/components/ui/label";
+import {
+  getCustomFieldsForPhase,
+  getCustomFieldsStorageKey,
+  getCustomPhaseValues,
+  getRatingScale,
+  normalizeCustomFieldValue,
+} from "@/core/lib/customForm";
+import type {
+  CustomFieldDefinition,
+  CustomFieldPhase,
+  CustomFieldValue,
+  CustomFieldValues,
+  CustomFormDefinition,
+} from "@/core/lib/customFormTypes";
+
+interface CustomFormFieldsCardProps {
+  form: CustomFormDefinition | null;
+  phase: CustomFieldPhase;
+  title?: string;
+  className?: string;
+}
+
+const readSavedValues = (phase: CustomFieldPhase): unknown => {
+  try {
+    const saved = localStorage.getItem(getCustomFieldsStorageKey(phase));
+    return saved ? JSON.parse(saved) : {};
+  } catch {
+    return {};
+  }
+};
+
+interface FieldInputProps {
+  field: CustomFieldDefinition;
+  value: CustomFieldValue;
+  onChange: (value: CustomFieldValue) => void;
+}
+
+const CustomFieldInput = ({ field, value, onChange }: FieldInputProps) => {
+  const inputId = `custom-field-${field.key}`;
+
+  switch (field.type) {
+    case "counter": {
+      const count = typeof value === "number" ? value : 0;
+      return (
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor={inputId}>{field.label}</Label>
+          <div className="flex items-center gap-2">
+            <Button type="button" variant="outline" size="icon" onClick={() => onChange(count - 1)} aria-label={`Decrease ${field.label}`}>
+              <Minus className="h-4 w-4" />
+            </Button>
+            <span id={inputId} className="w-8 text-center text-lg font-semibold tabular-nums">{count}</span>
+            <Button type="button" variant="outline" size="icon" onClick={() => onChange(count + 1)} aria-label={`Increase ${field.label}`}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      );
+    }
+    case "toggle":
+      return (
+        <Button
+          type="button"
+          variant={value === true ? "default" : "outline"}
+          onClick={() => onChange(value !== true)}
+          className="w-full justify-start"
+        >
+          {field.label}
+        </Button>
+      );
+    case "select":
+      return (
+        <div className="space-y-2">
+          <Label>{field.label}</Label>
+          <div className="flex flex-wrap gap-2">
+            {(field.options ?? []).map(option => (
+              <Button
+                key={option}
+                type="button"
+                variant={value === option ? "default" : "outline"}
+                onClick={() => onChange(value === option ? null : option)}
+                className="h-9"
+              >
+                {option}
+              </Button>
+            ))}
+          </div>
+        </div>
+      );
+    case "rating":
+      return (
+        <div className="space-y-2">
+          <Label>{field.label}</Label>
+          <div className="flex flex-wrap gap-2">
+            {Array.from({ length: getRatingScale(field) }, (_, index) => index + 1).map(rating => (
+              <Button
+                key={rating}
+                type="button"
+                variant={value === rating ? "default" : "outline"}
+                onClick={() => onChange(value === rating ? null : rating)}
+                className="h-9 w-9"
+              >
+                {rating}
+              </Button>
+            ))}
+          </div>
+        </div>
+      );
+    case "text":
+      return (
+        <div className="space-y-1">
+          <Label htmlFor={inputId}>{field.label}</Label>
+          <Input
+            id={inputId}
+            value={typeof value === "string" ? value : ""}
+            onChange={(e) => onChange(e.target.value)}
+          />
+        </div>
+      );
+  }
+};
+
+/**
+ * Renders the custom form questions for one scouting phase and keeps the
+ * answers in localStorage until the match is submitted.
+ */
+export const CustomFormFieldsCard = ({ form, phase, title = "Additional Questions", className }: CustomFormFieldsCardProps) => {
+  const fields = getCustomFieldsForPhase(form, phase);
+  const [values, setValues] = useState<CustomFieldValues>(() => getCustomPhaseValues(form, phase, readSavedValues(phase)));
+
+  // The form loads asynchronously, so rebuild answers once it arrives
+  useEffect(() => {
+    setValues(getCustomPhaseValues(form, phase, readSavedValues(phase)));
+  }, [form, phase]);
+
+  if (fields.length === 0) {
+    return null;
+  }
+
+  const updateValue = (field: CustomFieldDefinition, value: CustomFieldValue) => {
+    setValues(prev => {
+      const next = { ...prev, [field.key]: normalizeCustomFieldValue(field, value) };
+      localStorage.setItem(getCustomFieldsStorageKey(phase), JSON.stringify(next));
+      return next;
+    });
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-lg">{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {fields.map(field => (
+          <CustomFieldInput
+            key={field.key}
+            field={field}
+            value={values[field.key] ?? null}
+            onChange={(value) => updateValue(field, value)}
+          />
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
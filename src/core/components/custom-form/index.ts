@@ -0,0 +1,2 @@
+export { CustomFormFieldsCard } from './CustomFormFieldsCard';
+export { CustomFieldEditor } from './CustomFieldEditor';
@@ -77,6 +77,10 @@ const data = {
           title: "Match Strategy",
           url: "/match-strategy",
         },
+        {
+          title: "Match Replay",
+          url: "/match-replay",
+        },
         {
           title: "Match Validation",
           url: "/match-validation",
@@ -112,6 +116,14 @@ const data = {
           title: "Assign Pit Scouting",
           url: "/pit-assignments",
         },
+        {
+          title: "Assign Match Scouting",
+          url: "/match-assignments",
+        },
+        {
+          title: "Custom Form Builder",
+          url: "/custom-form",
+        },
         ...(import.meta.env.DEV ? [{
           title: "Dev Utilities",
           url: "/dev-utilities",
@@ -0,0 +1,496 @@
+import React, { useMemo, useState } from "react";
+import { Button } from "@/core/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/core/components/ui/card";
+import { Input } from "@/core/components/ui/input";
+import { Label } from "@/core/components/ui/label";
+import { Badge } from "@/core/components/ui/badge";
+import { Separator } from "@/core/components/ui/separator";
+import { Textarea } from "@/core/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/core/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/core/components/ui/table";
+import { toast } from "sonner";
+import {
+  applyCsvMappingPreset,
+  buildCsvImportRows,
+  CSV_ENTRY_FIELDS,
+  deleteCsvMappingPreset,
+  loadCsvMappingPresets,
+  parseCsv,
+  saveCsvMappingPreset,
+  suggestCsvColumnMapping,
+  type CsvColumnMapping,
+  type CsvMappingPreset,
+} from "@/core/lib/csvImport";
+import { csvImportFields, createCsvImportGameData } from "@/game-template/csvImportSchema";
+import { handleScoutingDataUpload } from "@/core/lib/uploadHandlers/scoutingDataUploadHandler";
+import ConflictResolutionDialog from "./ConflictResolutionDialog";
+import { BatchConflictDialog } from "./BatchConflictDialog";
+import type { ConflictInfo } from "@/core/lib/scoutingDataUtils";
+import type { ScoutingEntryBase } from "@/types/scouting-entry";
+import { useConflictResolution } from "@/core/hooks/useConflictResolution";
+
+type CSVImportWizardProps = {
+  onBack: () => void;
+};
+
+type WizardStep = 'source' | 'mapping' | 'preview';
+
+const IGNORE_COLUMN = "__ignore__";
+const PREVIEW_ROW_LIMIT = 50;
+const ALL_FIELDS = [...CSV_ENTRY_FIELDS, ...csvImportFields];
+
+const CSVImportWizard: React.FC<CSVImportWizardProps> = ({ onBack }) => {
+  const [step, setStep] = useState<WizardStep>('source');
+  const [sourceName, setSourceName] = useState<string | null>(null);
+  const [pastedText, setPastedText] = useState("");
+  const [rows, setRows] = useState<string[][]>([]);
+  const [importedAt, setImportedAt] = useState(() => Date.now());
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+  const [defaultEventKey, setDefaultEventKey] = useState(() => localStorage.getItem("eventKey") || "");
+  const [defaultScoutName, setDefaultScoutName] = useState("");
+  const [presets, setPresets] = useState<CsvMappingPreset[]>(() => loadCsvMappingPresets());
+  const [presetName, setPresetName] = useState("");
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const [showBatchDialog, setShowBatchDialog] = useState(false);
+  const [batchReviewEntries, setBatchReviewEntries] = useState<ScoutingEntryBase[]>([]);
+  const [pendingConflicts, setPendingConflicts] = useState<ConflictInfo[]>([]);
+
+  const {
+    showConflictDialog,
+    setShowConflictDialog,
+    currentConflicts,
+    setCurrentConflicts,
+    currentConflictIndex,
+    setCurrentConflictIndex,
+    setConflictResolutions,
+    handleConflictResolution,
+    handleMergeResolution,
+    handleBatchResolve,
+    handleUndo,
+    canUndo,
+    handleBatchReviewDecision: handleBatchReviewDecisionBase
+  } = useConflictResolution();
+
+  const headers = useMemo(() => rows[0] ?? [], [rows]);
+
+  const importRows = useMemo(() => buildCsvImportRows(
+    rows,
+    mapping,
+    ALL_FIELDS,
+    { eventKey: defaultEventKey, scoutName: defaultScoutName, now: importedAt },
+    createCsvImportGameData
+  ), [rows, mapping, defaultEventKey, defaultScoutName, importedAt]);
+
+  const validEntries = useMemo(
+    () => importRows.flatMap((row) => (row.entry ? [row.entry] : [])),
+    [importRows]
+  );
+  const invalidCount = importRows.length - validEntries.length;
+  const mappedPaths = new Set(Object.values(mapping));
+
+  const loadRows = (text: string, name: string) => {
+    const parsed = parseCsv(text);
+    if (parsed.length < 2) {
+      toast.error("Expected a header row and at least one data row");
+      return;
+    }
+
+    setRows(parsed);
+    setSourceName(name);
+    setImportedAt(Date.now());
+    setMapping(suggestCsvColumnMapping(parsed[0] ?? [], ALL_FIELDS));
+    setStep('mapping');
+  };
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    if (!/\.(csv|tsv|txt)$/i.test(file.name)) {
+      toast.error("Please select a CSV or TSV file");
+      return;
+    }
+
+    loadRows(await file.text(), file.name);
+  };
+
+  const handleMappingChange = (header: string, path: string) => {
+    setMapping((prev) => {
+      const next = { ...prev };
+      if (path === IGNORE_COLUMN) {
+        delete next[header];
+      } else {
+        next[header] = path;
+      }
+      return next;
+    });
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) {
+      toast.error("Name the preset first");
+      return;
+    }
+
+    setPresets(saveCsvMappingPreset(name, mapping));
+    setPresetName("");
+    toast.success(`Saved mapping preset "${name}"`);
+  };
+
+  const handleApplyPreset = (name: string) => {
+    const preset = presets.find((p) => p.name === name);
+    if (!preset) return;
+
+    const applied = applyCsvMappingPreset(preset, headers);
+    setMapping(applied);
+    toast.info(`Applied "${name}" to ${Object.keys(applied).length} of ${headers.length} columns`);
+  };
+
+  const handleDeletePreset = (name: string) => {
+    setPresets(deleteCsvMappingPreset(name));
+  };
+
+  const resetWizard = () => {
+    setRows([]);
+    setSourceName(null);
+    setPastedText("");
+    setMapping({});
+    setStep('source');
+  };
+
+  const handleImport = async () => {
+    if (validEntries.length === 0 || isProcessing) return;
+
+    setIsProcessing(true);
+    try {
+      const result = await handleScoutingDataUpload({ entries: validEntries }, "smart-merge");
+
+      if (result.hasBatchReview && result.batchReviewEntries) {
+        setBatchReviewEntries(result.batchReviewEntries);
+        setPendingConflicts(result.conflicts || []);
+        setShowBatchDialog(true);
+        return;
+      }
+
+      if (result.hasConflicts && result.conflicts) {
+        setCurrentConflicts(result.conflicts);
+        setCurrentConflictIndex(0);
+        setConflictResolutions(new Map());
+        setShowConflictDialog(true);
+        return;
+      }
+
+      resetWizard();
+    } catch (error) {
+      toast.error("Error importing CSV rows");
+      console.error("CSV import error:", error);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleBatchReviewDecision = async (decision: 'replace-all' | 'skip-all' | 'review-each') => {
+    const result = await handleBatchReviewDecisionBase(batchReviewEntries, pendingConflicts, decision);
+    setShowBatchDialog(false);
+
+    if (!result.hasMoreConflicts) {
+      setBatchReviewEntries([]);
+      setPendingConflicts([]);
+      resetWizard();
+    }
+  };
+
+  const renderFieldSelect = (header: string) => (
+    <Select
+      value={mapping[header] ?? IGNORE_COLUMN}
+      onValueChange={(value) => handleMappingChange(header, value)}
+    >
+      <SelectTrigger className="w-full">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={IGNORE_COLUMN}>Ignore column</SelectItem>
+        <SelectGroup>
+          <SelectLabel>Match info</SelectLabel>
+          {CSV_ENTRY_FIELDS.map((field) => (
+            <SelectItem
+              key={field.path}
+              value={field.path}
+              disabled={mappedPaths.has(field.path) && mapping[header] !== field.path}
+            >
+              {field.label}
+            </SelectItem>
+          ))}
+        </SelectGroup>
+        <SelectGroup>
+          <SelectLabel>Game data</SelectLabel>
+          {csvImportFields.map((field) => (
+            <SelectItem
+              key={field.path}
+              value={field.path}
+              disabled={mappedPaths.has(field.path) && mapping[header] !== field.path}
+            >
+              {field.label}
+            </SelectItem>
+          ))}
+        </SelectGroup>
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="min-h-screen w-full flex flex-col items-center gap-6 px-4 pt-[var(--header-height)] pb-24">
+      <div className="flex flex-col items-center gap-6 max-w-2xl w-full">
+        <div className="flex items-center justify-between w-full">
+          <Button
+            onClick={step === 'source' ? onBack : () => setStep(step === 'preview' ? 'mapping' : 'source')}
+            variant="ghost"
+            size="sm"
+            className="flex items-center gap-2"
+          >
+            ← Back
+          </Button>
+          {sourceName && (
+            <span className="text-sm text-muted-foreground truncate">
+              {sourceName} • {rows.length - 1} rows
+            </span>
+          )}
+        </div>
+
+        {step === 'source' && (
+          <Card className="w-full">
+            <CardHeader>
+              <CardTitle className="text-center">Import CSV or Spreadsheet</CardTitle>
+              <CardDescription className="text-center">
+                Bring in match scouting from paper transcriptions, Google Forms or a partner team's spreadsheet. The first row must be column headers.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <input
+                type="file"
+                id="csvFileInput"
+                accept=".csv,.tsv,.txt,text/csv"
+                style={{ display: "none" }}
+                onChange={handleFileSelect}
+              />
+              <Button
+                onClick={() => document.getElementById("csvFileInput")?.click()}
+                variant="outline"
+                className="w-full h-16 text-xl"
+              >
+                Select CSV File
+              </Button>
+
+              <div className="flex items-center gap-4">
+                <Separator className="flex-1" />
+                <span className="text-sm text-muted-foreground">OR</span>
+                <Separator className="flex-1" />
+              </div>
+
+              <Textarea
+                value={pastedText}
+                onChange={(e) => setPastedText(e.target.value)}
+                placeholder="Paste rows copied from Google Sheets or Excel, including the header row"
+                className="min-h-32 font-mono text-xs"
+              />
+              <Button
+                onClick={() => loadRows(pastedText, "Pasted rows")}
+                disabled={!pastedText.trim()}
+                className="w-full"
+              >
+                Use Pasted Rows
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {step === 'mapping' && (
+          <Card className="w-full">
+            <CardHeader>
+              <CardTitle>Map Columns</CardTitle>
+              <CardDescription>
+                Columns were matched by name where possible. Check each one, or load a saved preset.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="csv-default-event">Event key (when no column)</Label>
+                  <Input
+                    id="csv-default-event"
+                    value={defaultEventKey}
+                    onChange={(e) => setDefaultEventKey(e.target.value)}
+                    placeholder="2026mrcmp"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="csv-default-scout">Scout name (when no column)</Label>
+                  <Input
+                    id="csv-default-scout"
+                    value={defaultScoutName}
+                    onChange={(e) => setDefaultScoutName(e.target.value)}
+                    placeholder="Paper scouting"
+                  />
+                </div>
+              </div>
+
+              {presets.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm text-muted-foreground">Presets:</span>
+                  {presets.map((preset) => (
+                    <Badge key={preset.name} variant="secondary" className="gap-1">
+                      <button type="button" onClick={() => handleApplyPreset(preset.name)}>
+                        {preset.name}
+                      </button>
+                      <button
+                        type="button"
+                        aria-label={`Delete preset ${preset.name}`}
+                        onClick={() => handleDeletePreset(preset.name)}
+                        className="opacity-60 hover:opacity-100"
+                      >
+                        ×
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                {headers.map((header, index) => (
+                  <div key={`${header}-${index}`} className="grid grid-cols-2 items-center gap-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{header || `Column ${index + 1}`}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        e.g. {rows[1]?.[index] || "—"}
+                      </p>
+                    </div>
+                    {renderFieldSelect(header)}
+                  </div>
+                ))}
+              </div>
+
+              <Separator />
+
+              <div className="flex gap-2">
+                <Input
+                  value={presetName}
+                  onChange={(e) => setPresetName(e.target.value)}
+                  placeholder="Preset name, e.g. Paper sheet v2"
+                />
+                <Button variant="outline" onClick={handleSavePreset}>
+                  Save Preset
+                </Button>
+              </div>
+
+              <Button onClick={() => setStep('preview')} className="w-full h-12 text-lg">
+                Preview {rows.length - 1} Rows
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {step === 'preview' && (
+          <Card className="w-full">
+            <CardHeader>
+              <CardTitle>Preview</CardTitle>
+              <CardDescription>
+                {validEntries.length} ready to import
+                {invalidCount > 0 && `, ${invalidCount} with errors will be skipped`}. Re-importing the same rows updates them instead of adding duplicates.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="max-h-[50vh] overflow-auto rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Match</TableHead>
+                      <TableHead>Team</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {importRows.slice(0, PREVIEW_ROW_LIMIT).map((row) => (
+                      <TableRow key={row.rowNumber}>
+                        <TableCell>{row.rowNumber}</TableCell>
+                        <TableCell>{row.entry?.matchKey ?? "—"}</TableCell>
+                        <TableCell>
+                          {row.entry ? (
+                            <span className={row.entry.allianceColor === "red" ? "text-red-600" : "text-blue-600"}>
+                              {row.entry.teamNumber}
+                            </span>
+                          ) : "—"}
+                        </TableCell>
+                        <TableCell className="whitespace-normal">
+                          {row.errors.length === 0 ? (
+                            <Badge className="bg-green-600">OK</Badge>
+                          ) : (
+                            <ul className="text-xs text-red-600 space-y-0.5">
+                              {row.errors.map((error) => <li key={error}>{error}</li>)}
+                            </ul>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              {importRows.length > PREVIEW_ROW_LIMIT && (
+                <p className="text-xs text-muted-foreground text-center">
+                  Showing the first {PREVIEW_ROW_LIMIT} of {importRows.length} rows
+                </p>
+              )}
+
+              <Button
+                onClick={handleImport}
+                disabled={validEntries.length === 0 || isProcessing}
+                className="w-full h-16 text-xl bg-green-500 hover:bg-green-600 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isProcessing ? '⏳ Processing...' : `🧠 Smart Merge ${validEntries.length} Entries`}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <BatchConflictDialog
+        isOpen={showBatchDialog}
+        entries={batchReviewEntries}
+        onResolve={handleBatchReviewDecision}
+      />
+
+      <ConflictResolutionDialog
+        open={showConflictDialog}
+        onOpenChange={setShowConflictDialog}
+        conflict={currentConflicts[currentConflictIndex] || null}
+        currentIndex={currentConflictIndex}
+        totalConflicts={currentConflicts.length}
+        onResolve={handleConflictResolution}
+        onBatchResolve={handleBatchResolve}
+        onMerge={handleMergeResolution}
+        onUndo={handleUndo}
+        canUndo={canUndo}
+      />
+    </div>
+  );
+};
+
+export default CSVImportWizard;
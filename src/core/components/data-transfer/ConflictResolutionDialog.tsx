@@ -1,10 +1,12 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/core/components/ui/dialog";
 import { Button } from "@/core/components/ui/button";
 import { Badge } from "@/core/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/core/components/ui/card";
-import { AlertTriangle, Loader2 } from 'lucide-react';
+import { AlertTriangle, GitMerge, Loader2 } from 'lucide-react';
 import type { ConflictInfo } from '@/core/lib/scoutingDataUtils';
+import type { ScoutingEntryBase } from '@/core/types/scouting-entry';
+import DualScoutReconciliationDialog from './DualScoutReconciliationDialog';
 
 interface ConflictResolutionDialogProps {
   open: boolean;
@@ -14,6 +16,8 @@ interface ConflictResolutionDialogProps {
   totalConflicts: number;
   onResolve: (action: 'replace' | 'skip') => void;
   onBatchResolve?: (action: 'replace' | 'skip') => void;
+  /** Save a field-by-field merge of both entries (dual-scouted robots) */
+  onMerge?: (merged: ScoutingEntryBase) => void;
   onUndo?: () => void;
   canUndo?: boolean;
   isProcessing?: boolean;
@@ -27,10 +31,13 @@ const ConflictResolutionDialog: React.FC<ConflictResolutionDialogProps> = ({
   totalConflicts,
   onResolve,
   onBatchResolve,
+  onMerge,
   onUndo,
   canUndo = false,
   isProcessing = false
 }) => {
+  const [showReconcile, setShowReconcile] = useState(false);
+
   if (!conflict) return null;
 
   const incomingData = conflict.incoming;
@@ -250,6 +257,19 @@ const ConflictResolutionDialog: React.FC<ConflictResolutionDialogProps> = ({
               Replace - Use Incoming Data
             </Button>
             
+            {/* Field-by-field merge spans both columns */}
+            {onMerge && (
+              <Button
+                variant="secondary"
+                onClick={() => setShowReconcile(true)}
+                className="p-2 sm:col-span-2"
+                disabled={isProcessing}
+              >
+                <GitMerge className="h-4 w-4 mr-2" />
+                Reconcile Field by Field
+              </Button>
+            )}
+
             {/* Batch actions in same grid */}
             {totalConflicts > 1 && onBatchResolve && (
               <>
@@ -294,6 +314,19 @@ const ConflictResolutionDialog: React.FC<ConflictResolutionDialogProps> = ({
           </div>
         </DialogFooter>
       </DialogContent>
+
+      {onMerge && (
+        <DualScoutReconciliationDialog
+          open={showReconcile}
+          onOpenChange={setShowReconcile}
+          local={localData}
+          incoming={incomingData}
+          onMerge={(merged) => {
+            setShowReconcile(false);
+            onMerge(merged);
+          }}
+        />
+      )}
     </Dialog>
   );
 };
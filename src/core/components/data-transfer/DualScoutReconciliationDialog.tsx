@@ -0,0 +1,285 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/core/components/ui/dialog";
+import { Button } from "@/core/components/ui/button";
+import { Badge } from "@/core/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/core/components/ui/card";
+import { Input } from "@/core/components/ui/input";
+import { Label } from "@/core/components/ui/label";
+import { Textarea } from "@/core/components/ui/textarea";
+import { GitMerge, Loader2 } from 'lucide-react';
+import type { ScoutingEntryBase } from '@/core/types/scouting-entry';
+import { loadScoutingEntriesByEvent } from '@/core/db/database';
+import { getCachedTBAMatch } from '@/core/lib/tbaCache';
+import type { TBAMatchData } from '@/core/lib/tbaMatchData';
+import {
+  buildMergedEntry,
+  checkAgainstAllianceTotals,
+  diffScoutingEntries,
+  formatFieldValue,
+  type AllianceTotalsResult,
+  type ReconciliationChoices,
+  type ReconciliationField,
+  type ReconciliationSource,
+} from '@/core/lib/dualScoutReconciliation';
+
+interface DualScoutReconciliationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Entry A - kept as the base of the merge */
+  local: ScoutingEntryBase;
+  /** Entry B - the second scout's entry */
+  incoming: ScoutingEntryBase;
+  onMerge: (merged: ScoutingEntryBase) => void;
+}
+
+const describePath = (field: ReconciliationField, side: ReconciliationSource): string => {
+  const diff = field.pathDiff;
+  if (!diff) return formatFieldValue(side === 'a' ? field.a : field.b);
+  const count = side === 'a' ? diff.aCount : diff.bCount;
+  const fuel = side === 'a' ? diff.aFuelDelta : diff.bFuelDelta;
+  return `${count} waypoints · ${fuel} fuel`;
+};
+
+const DualScoutReconciliationDialog: React.FC<DualScoutReconciliationDialogProps> = ({
+  open,
+  onOpenChange,
+  local,
+  incoming,
+  onMerge,
+}) => {
+  const [choices, setChoices] = useState<ReconciliationChoices>({});
+  const [mergedBy, setMergedBy] = useState(() => localStorage.getItem('currentScout') || '');
+  const [notes, setNotes] = useState('');
+  const [tbaMatch, setTbaMatch] = useState<TBAMatchData | null>(null);
+  const [partners, setPartners] = useState<ScoutingEntryBase[]>([]);
+  const [isLoadingTba, setIsLoadingTba] = useState(false);
+
+  const fields = useMemo(() => diffScoutingEntries(local, incoming), [local, incoming]);
+
+  useEffect(() => {
+    if (!open) return;
+    setChoices({});
+    setNotes('');
+
+    let cancelled = false;
+    const loadAllianceContext = async () => {
+      setIsLoadingTba(true);
+      try {
+        const [match, eventEntries] = await Promise.all([
+          getCachedTBAMatch(`${local.eventKey}_${local.matchKey}`),
+          loadScoutingEntriesByEvent(local.eventKey),
+        ]);
+        if (cancelled) return;
+        setTbaMatch(match);
+        setPartners(eventEntries.filter(entry =>
+          entry.matchKey === local.matchKey &&
+          entry.allianceColor === local.allianceColor &&
+          entry.teamNumber !== local.teamNumber
+        ));
+      } catch (error) {
+        console.error('Failed to load TBA data for reconciliation:', error);
+        if (!cancelled) setTbaMatch(null);
+      } finally {
+        if (!cancelled) setIsLoadingTba(false);
+      }
+    };
+
+    void loadAllianceContext();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, local]);
+
+  const merged = useMemo(
+    () => buildMergedEntry(local, incoming, choices, { mergedBy: mergedBy.trim(), notes }),
+    [local, incoming, choices, mergedBy, notes]
+  );
+
+  const totals = useMemo(() => {
+    if (!tbaMatch?.score_breakdown) return null;
+    return {
+      a: checkAgainstAllianceTotals(local, partners, tbaMatch),
+      b: checkAgainstAllianceTotals(incoming, partners, tbaMatch),
+      merged: checkAgainstAllianceTotals(merged, partners, tbaMatch),
+    };
+  }, [tbaMatch, local, incoming, merged, partners]);
+
+  const chooseAll = (source: ReconciliationSource) => {
+    setChoices(Object.fromEntries(fields.map(field => [field.path, source])));
+  };
+
+  const renderTotal = (result: AllianceTotalsResult, field: string) => {
+    const check = result.checks.find(item => item.field === field);
+    if (!check) return '—';
+    return (
+      <span className={check.difference === 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+        {check.scouted}{check.difference !== 0 && ` (${check.difference > 0 ? '+' : ''}${check.difference})`}
+      </span>
+    );
+  };
+
+  const scoutA = local.scoutName || 'Scout A';
+  const scoutB = incoming.scoutName || 'Scout B';
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="h-5 w-5" />
+            Reconcile Dual-Scouted Entry
+          </DialogTitle>
+          <DialogDescription>
+            Match {local.matchNumber} • Team {local.teamNumber} • {local.allianceColor} Alliance •
+            {' '}{fields.length} differing {fields.length === 1 ? 'field' : 'fields'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* TBA alliance totals for each version */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Alliance Totals vs TBA</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoadingTba ? (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" /> Loading TBA data...
+                </div>
+              ) : !totals ? (
+                <p className="text-sm text-muted-foreground">
+                  No cached TBA results for this match. Load match data from TBA to check each version against official totals.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {!totals.a.complete && (
+                    <p className="text-xs text-amber-700 dark:text-amber-400">
+                      Not every alliance partner is scouted, so totals only include scouted robots.
+                    </p>
+                  )}
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-muted-foreground">
+                          <th className="py-1 pr-2 font-medium">Field</th>
+                          <th className="py-1 pr-2 font-medium">TBA</th>
+                          <th className="py-1 pr-2 font-medium">{scoutA}</th>
+                          <th className="py-1 pr-2 font-medium">{scoutB}</th>
+                          <th className="py-1 font-medium">Merged</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {totals.merged.checks.map(check => (
+                          <tr key={check.field} className="border-t">
+                            <td className="py-1 pr-2">{check.label}</td>
+                            <td className="py-1 pr-2 font-mono">{check.tba}</td>
+                            <td className="py-1 pr-2 font-mono">{renderTotal(totals.a, check.field)}</td>
+                            <td className="py-1 pr-2 font-mono">{renderTotal(totals.b, check.field)}</td>
+                            <td className="py-1 font-mono">{renderTotal(totals.merged, check.field)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Field-by-field choices */}
+          <Card>
+            <CardHeader>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <CardTitle className="text-base">Differing Fields</CardTitle>
+                {fields.length > 0 && (
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => chooseAll('a')}>All from {scoutA}</Button>
+                    <Button variant="outline" size="sm" onClick={() => chooseAll('b')}>All from {scoutB}</Button>
+                  </div>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {fields.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Both entries record the same data.</p>
+              ) : (
+                <div className="space-y-2">
+                  {fields.map(field => {
+                    const choice = choices[field.path] ?? 'a';
+                    return (
+                      <div key={field.path} className="grid grid-cols-1 gap-2 rounded border p-3 sm:grid-cols-[1fr_auto_auto] sm:items-center">
+                        <div className="min-w-0">
+                          <div className="text-sm font-medium">{field.label}</div>
+                          {field.pathDiff && (
+                            <div className="text-xs text-muted-foreground">
+                              {field.pathDiff.actionCounts
+                                .map(count => `${count.action}: ${count.a} vs ${count.b}`)
+                                .join(' · ') || 'Same actions, different positions'}
+                              {field.pathDiff.meanPositionGap !== null && ` · avg gap ${Math.round(field.pathDiff.meanPositionGap * 100)}% of field`}
+                            </div>
+                          )}
+                        </div>
+                        <Button
+                          variant={choice === 'a' ? 'default' : 'outline'}
+                          size="sm"
+                          onClick={() => setChoices(prev => ({ ...prev, [field.path]: 'a' }))}
+                        >
+                          <span className="mr-1 text-xs opacity-75">{scoutA}:</span>
+                          {field.kind === 'path' ? describePath(field, 'a') : formatFieldValue(field.a)}
+                        </Button>
+                        <Button
+                          variant={choice === 'b' ? 'default' : 'outline'}
+                          size="sm"
+                          onClick={() => setChoices(prev => ({ ...prev, [field.path]: 'b' }))}
+                        >
+                          <span className="mr-1 text-xs opacity-75">{scoutB}:</span>
+                          {field.kind === 'path' ? describePath(field, 'b') : formatFieldValue(field.b)}
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="reconcile-merged-by">Reconciled by</Label>
+              <Input
+                id="reconcile-merged-by"
+                value={mergedBy}
+                placeholder="Lead scout name"
+                onChange={(e) => setMergedBy(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reconcile-notes">Notes (optional)</Label>
+              <Textarea
+                id="reconcile-notes"
+                value={notes}
+                placeholder="Why these values were chosen"
+                onChange={(e) => setNotes(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Badge variant="secondary" className="text-xs">Corrected</Badge>
+            Saved as a correction of {scoutA}'s entry, with both scouts recorded as the original scouts.
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => onMerge(merged)} disabled={!mergedBy.trim()}>
+            <GitMerge className="h-4 w-4 mr-2" />
+            Save Merged Entry
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DualScoutReconciliationDialog;
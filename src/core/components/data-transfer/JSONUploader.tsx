@@ -12,6 +12,9 @@ import { handleScoutProfilesUpload } from "@/core/lib/uploadHandlers/scoutProfil
 import { handlePitScoutingUpload } from "@/core/lib/uploadHandlers/pitScoutingUploadHandler";
 import { handlePitScoutingImagesUpload } from "@/core/lib/uploadHandlers/pitScoutingImagesUploadHandler";
 import { handleMatchScheduleUpload } from "@/core/lib/uploadHandlers/matchScheduleUploadHandler";
+import { handleCustomFormUpload } from "@/core/lib/uploadHandlers/customFormUploadHandler";
+import { handleSyncDeltaUpload } from "@/core/lib/uploadHandlers/syncDeltaUploadHandler";
+import { handleEventWorkspaceUpload } from "@/core/lib/uploadHandlers/eventWorkspaceUploadHandler";
 import ConflictResolutionDialog from "./ConflictResolutionDialog";
 import { BatchConflictDialog } from "./BatchConflictDialog";
 import type { ConflictInfo } from "@/core/lib/scoutingDataUtils";
@@ -24,7 +27,7 @@ type JSONUploaderProps = {
 
 const JSONUploader: React.FC<JSONUploaderProps> = ({ onBack }) => {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [detectedDataType, setDetectedDataType] = useState<'scouting' | 'scoutProfiles' | 'pitScouting' | 'pitScoutingImagesOnly' | 'matchSchedule' | null>(null);
+  const [detectedDataType, setDetectedDataType] = useState<'scouting' | 'scoutProfiles' | 'pitScouting' | 'pitScoutingImagesOnly' | 'matchSchedule' | 'customForm' | 'syncDelta' | 'eventWorkspace' | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   
   // Batch review state
@@ -42,6 +45,7 @@ const JSONUploader: React.FC<JSONUploaderProps> = ({ onBack }) => {
     setCurrentConflictIndex,
     setConflictResolutions,
     handleConflictResolution: handleConflictResolutionBase,
+    handleMergeResolution: handleMergeResolutionBase,
     handleBatchResolve: handleBatchResolveBase,
     handleUndo,
     canUndo,
@@ -55,7 +59,11 @@ const JSONUploader: React.FC<JSONUploaderProps> = ({ onBack }) => {
     if (!file) return;
 
     if (!file.name.endsWith('.json')) {
-      toast.error("Please select a JSON file");
+      toast.error(
+        /\.(csv|tsv)$/i.test(file.name)
+          ? "CSV files go through Import CSV / Spreadsheet on the previous screen"
+          : "Please select a JSON file"
+      );
       return;
     }
 
@@ -77,7 +85,10 @@ const JSONUploader: React.FC<JSONUploaderProps> = ({ onBack }) => {
         scoutProfiles: 'Scout Profiles',
         pitScouting: 'Pit Scouting Data',
         pitScoutingImagesOnly: 'Pit Scouting Images Only',
-        matchSchedule: 'Match Schedule'
+        matchSchedule: 'Match Schedule',
+        customForm: 'Custom Scouting Form',
+        syncDelta: 'Changes Since Last Sync',
+        eventWorkspace: 'Event Workspace'
       };
       
       toast.info(`Selected: ${file.name} (${dataTypeNames[dataType]})`);
@@ -134,6 +145,12 @@ const JSONUploader: React.FC<JSONUploaderProps> = ({ onBack }) => {
         await handlePitScoutingImagesUpload(jsonData);
       } else if (detectedDataType === 'matchSchedule') {
         await handleMatchScheduleUpload(jsonData, mode);
+      } else if (detectedDataType === 'customForm') {
+        await handleCustomFormUpload(jsonData);
+      } else if (detectedDataType === 'syncDelta') {
+        await handleSyncDeltaUpload(jsonData, mode);
+      } else if (detectedDataType === 'eventWorkspace') {
+        await handleEventWorkspaceUpload(jsonData, mode);
       }
 
       setSelectedFile(null);
@@ -164,6 +181,18 @@ const JSONUploader: React.FC<JSONUploaderProps> = ({ onBack }) => {
     }
   };
 
+  // Wrapper for field-by-field merges that also handles file reset
+  const handleMergeResolution = async (merged: ScoutingEntryBase) => {
+    await handleMergeResolutionBase(merged);
+
+    if (currentConflictIndex >= currentConflicts.length - 1) {
+      setSelectedFile(null);
+      setDetectedDataType(null);
+      const fileInput = document.getElementById("jsonFileInput") as HTMLInputElement | null;
+      if (fileInput) fileInput.value = "";
+    }
+  };
+
   // Wrapper for batch resolve that also handles file reset
   const handleBatchResolve = async (action: 'replace' | 'skip') => {
     await handleBatchResolveBase(action);
@@ -235,7 +264,7 @@ const JSONUploader: React.FC<JSONUploaderProps> = ({ onBack }) => {
               className="w-full min-h-16 text-xl whitespace-normal text-wrap py-3 px-4"
             >
               {selectedFile 
-                ? `Selected: ${selectedFile.name}${detectedDataType ? ` (${detectedDataType === 'scouting' ? 'Scouting Data' : detectedDataType === 'scoutProfiles' ? 'Scout Profiles' : detectedDataType === 'pitScouting' ? 'Pit Scouting Data' : detectedDataType === 'pitScoutingImagesOnly' ? 'Pit Scouting Images Only' : 'Match Schedule'})` : ''}`
+                ? `Selected: ${selectedFile.name}${detectedDataType ? ` (${detectedDataType === 'scouting' ? 'Scouting Data' : detectedDataType === 'scoutProfiles' ? 'Scout Profiles' : detectedDataType === 'pitScouting' ? 'Pit Scouting Data' : detectedDataType === 'pitScoutingImagesOnly' ? 'Pit Scouting Images Only' : detectedDataType === 'customForm' ? 'Custom Scouting Form' : detectedDataType === 'syncDelta' ? 'Changes Since Last Sync' : detectedDataType === 'eventWorkspace' ? 'Event Workspace' : 'Match Schedule'})` : ''}`
                 : "Select JSON Data File"
               }
             </Button>
@@ -269,6 +298,39 @@ const JSONUploader: React.FC<JSONUploaderProps> = ({ onBack }) => {
                     </Button>
                     <p><strong>Replace Match Schedule</strong>: Overwrites all existing local match schedule data with the uploaded file.</p>
                   </div>
+                ) : detectedDataType === 'customForm' ? (
+                  <div className="space-y-3">
+                    <Button
+                      onClick={() => handleUpload("overwrite")}
+                      disabled={isProcessing}
+                      className="w-full h-16 text-xl bg-blue-500 hover:bg-blue-600 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isProcessing ? '⏳ Processing...' : '📝 Use This Form'}
+                    </Button>
+                    <p><strong>Use This Form</strong>: Makes the uploaded form active on this device. Older versions of the current form are ignored.</p>
+                  </div>
+                ) : detectedDataType === 'syncDelta' ? (
+                  <div className="space-y-3">
+                    <Button
+                      onClick={() => handleUpload("smart-merge")}
+                      disabled={isProcessing}
+                      className="w-full h-16 text-xl bg-green-500 hover:bg-green-600 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isProcessing ? '⏳ Processing...' : '🔄 Apply Changes'}
+                    </Button>
+                    <p><strong>Apply Changes</strong>: Adds, updates and deletes entries to match the sender. When both devices changed the same entry, the newer change wins.</p>
+                  </div>
+                ) : detectedDataType === 'eventWorkspace' ? (
+                  <div className="space-y-3">
+                    <Button
+                      onClick={() => handleUpload("overwrite")}
+                      disabled={isProcessing}
+                      className="w-full h-16 text-xl bg-blue-500 hover:bg-blue-600 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isProcessing ? '⏳ Processing...' : '🗂️ Restore Workspace'}
+                    </Button>
+                    <p><strong>Restore Workspace</strong>: Copies pick lists, assignments, cached event data, scout options, strategy drawings and scouting entries from the archive onto this device. Anything the archive does not include is kept.</p>
+                  </div>
                 ) : (
                   <div className="space-y-3">
                     <Button
@@ -324,6 +386,7 @@ const JSONUploader: React.FC<JSONUploaderProps> = ({ onBack }) => {
         totalConflicts={currentConflicts.length}
         onResolve={handleConflictResolution}
         onBatchResolve={handleBatchResolve}
+        onMerge={handleMergeResolution}
         onUndo={handleUndo}
         canUndo={canUndo}
       />
@@ -0,0 +1,135 @@
+/**
+ * Sync Peer Select
+ * Picks which peer a "Changes Since Last Sync" transfer is for, so only the
+ * changes that peer has not seen are sent.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from "@/core/components/ui/button";
+import { Input } from "@/core/components/ui/input";
+import { Label } from "@/core/components/ui/label";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue
+} from "@/core/components/ui/select";
+import { RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { getSyncPeerIdForName, listSyncCursors, resetSyncCursor } from "@/core/db/syncLogDatabase";
+import type { SyncCursor } from "@/core/lib/syncLog";
+
+export interface SyncPeerChoice {
+    peerId: string;
+    peerName: string;
+}
+
+interface SyncPeerSelectProps {
+    value: SyncPeerChoice | null;
+    onChange: (peer: SyncPeerChoice | null) => void;
+}
+
+const EVERYTHING_VALUE = '__everything__';
+const NEW_PEER_VALUE = '__new__';
+
+export function SyncPeerSelect({ value, onChange }: SyncPeerSelectProps) {
+    const [cursors, setCursors] = useState<SyncCursor[]>([]);
+    const [isAddingPeer, setIsAddingPeer] = useState(false);
+    const [newPeerName, setNewPeerName] = useState('');
+
+    const loadCursors = useCallback(async () => {
+        try {
+            setCursors(await listSyncCursors());
+        } catch (error) {
+            console.error('Failed to load sync peers:', error);
+            setCursors([]);
+        }
+    }, []);
+
+    useEffect(() => {
+        void loadCursors();
+    }, [loadCursors]);
+
+    // Peers added this session have no cursor until the first transfer
+    const options = value && !cursors.some(cursor => cursor.peerId === value.peerId)
+        ? [...cursors, { peerId: value.peerId, peerName: value.peerName, seen: {}, updatedAt: 0 }]
+        : cursors;
+
+    const handleSelect = (selected: string) => {
+        if (selected === NEW_PEER_VALUE) {
+            setIsAddingPeer(true);
+            return;
+        }
+        setIsAddingPeer(false);
+        const cursor = options.find(option => option.peerId === selected);
+        onChange(cursor ? { peerId: cursor.peerId, peerName: cursor.peerName } : null);
+    };
+
+    const handleAddPeer = () => {
+        const peerName = newPeerName.trim();
+        if (!peerName) return;
+        onChange({ peerId: getSyncPeerIdForName(peerName), peerName });
+        setNewPeerName('');
+        setIsAddingPeer(false);
+    };
+
+    const handleResendEverything = async () => {
+        if (!value) return;
+        await resetSyncCursor(value.peerId);
+        await loadCursors();
+        // Hand back a fresh object so the delta is rebuilt
+        onChange({ ...value });
+        toast.info(`Next transfer to ${value.peerName} will include everything`);
+    };
+
+    return (
+        <div className="space-y-2">
+            <Label>Sync with</Label>
+            <Select value={isAddingPeer ? NEW_PEER_VALUE : value?.peerId ?? EVERYTHING_VALUE} onValueChange={handleSelect}>
+                <SelectTrigger className="w-full">
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                    <SelectItem value={EVERYTHING_VALUE}>Everything (no peer)</SelectItem>
+                    {options.map(cursor => (
+                        <SelectItem key={cursor.peerId} value={cursor.peerId}>
+                            {cursor.peerName}
+                            {cursor.updatedAt > 0 && (
+                                <span className="text-muted-foreground"> · {new Date(cursor.updatedAt).toLocaleString()}</span>
+                            )}
+                        </SelectItem>
+                    ))}
+                    <SelectItem value={NEW_PEER_VALUE}>New peer...</SelectItem>
+                </SelectContent>
+            </Select>
+
+            {isAddingPeer && (
+                <div className="flex gap-2">
+                    <Input
+                        value={newPeerName}
+                        onChange={(e) => setNewPeerName(e.target.value)}
+                        placeholder="e.g., Lead tablet"
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleAddPeer();
+                        }}
+                    />
+                    <Button type="button" onClick={handleAddPeer} disabled={!newPeerName.trim()}>
+                        Add
+                    </Button>
+                </div>
+            )}
+
+            {value && !isAddingPeer && (
+                <Button type="button" variant="ghost" size="sm" onClick={handleResendEverything}>
+                    <RotateCcw className="h-4 w-4" />
+                    Resend everything to {value.peerName}
+                </Button>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+                Only changes this peer has not received are sent, including deletes.
+            </p>
+        </div>
+    );
+}
@@ -19,6 +19,7 @@ import { toUint8Array } from "js-base64";
 import { ArrowLeft, CheckCircle, TriangleAlert } from "lucide-react";
 import * as pako from 'pako';
 import { parseScannedFountainPacket, type FountainPacket } from "@/core/lib/fountainPacket";
+import { decodeScoutingTransfer, isScoutingCodecData } from "@/core/lib/scoutingCodec";
 
 export interface UniversalFountainScannerProps {
   onBack: () => void;
@@ -235,7 +236,12 @@ export const UniversalFountainScanner = ({
                 decodedData[0] === 0x1f &&
                 decodedData[1] === 0x8b;
 
-              if (isGzipCompressed) {
+              if (isScoutingCodecData(decodedData)) {
+                addDebugMsg("🗜️ Detected binary scouting data, decoding...");
+                setCompressionDetected(true);
+                parsedData = decodeScoutingTransfer(decodedData);
+                addDebugMsg("✅ Binary decoding successful");
+              } else if (isGzipCompressed) {
                 addDebugMsg("🗜️ Detected compressed data, decompressing...");
                 setCompressionDetected(true);
 
@@ -258,8 +264,9 @@ export const UniversalFountainScanner = ({
                 addDebugMsg("✅ JSON parsing successful");
               }
             } catch (error) {
-              addDebugMsg(`❌ Data processing failed: ${error instanceof Error ? error.message : String(error)}`);
-              toast.error("Failed to process reconstructed data");
+              const message = error instanceof Error ? error.message : String(error);
+              addDebugMsg(`❌ Data processing failed: ${message}`);
+              toast.error("Failed to process reconstructed data", { description: message });
               return;
             }
 
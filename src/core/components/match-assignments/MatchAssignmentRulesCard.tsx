@@ -0,0 +1,153 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from "@/core/components/ui/card";
+import { Button } from "@/core/components/ui/button";
+import { Input } from "@/core/components/ui/input";
+import { Label } from "@/core/components/ui/label";
+import { Checkbox } from "@/core/components/ui/checkbox";
+import { Badge } from "@/core/components/ui/badge";
+import { CalendarClock, Send, Wand2 } from 'lucide-react';
+import type { MatchAssignmentRules } from '@/core/lib/matchAssignmentTypes';
+
+interface MatchAssignmentRulesCardProps {
+  rules: MatchAssignmentRules;
+  scoutsList: string[];
+  matchCount: number;
+  hasAssignments: boolean;
+  readyConnectedScoutsCount: number;
+  onRulesChange: (rules: MatchAssignmentRules) => void;
+  onGenerate: () => void;
+  onPushAssignments: () => void;
+}
+
+const parseWholeNumber = (value: string, fallback: number): number => {
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+export const MatchAssignmentRulesCard: React.FC<MatchAssignmentRulesCardProps> = ({
+  rules,
+  scoutsList,
+  matchCount,
+  hasAssignments,
+  readyConnectedScoutsCount,
+  onRulesChange,
+  onGenerate,
+  onPushAssignments,
+}) => {
+  const togglePitDutyScout = (scoutName: string, checked: boolean) => {
+    const pitDutyScouts = checked
+      ? [...rules.pitDutyScouts, scoutName]
+      : rules.pitDutyScouts.filter(name => name !== scoutName);
+    onRulesChange({ ...rules, pitDutyScouts });
+  };
+
+  return (
+    <Card className="flex-1">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Shift Rules
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="shift-length">Matches per shift</Label>
+            <Input
+              id="shift-length"
+              type="number"
+              inputMode="numeric"
+              min={1}
+              value={rules.shiftLength}
+              onChange={(e) => onRulesChange({ ...rules, shiftLength: Math.max(1, parseWholeNumber(e.target.value, rules.shiftLength)) })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="break-length">Break length (matches)</Label>
+            <Input
+              id="break-length"
+              type="number"
+              inputMode="numeric"
+              min={0}
+              value={rules.breakLength}
+              onChange={(e) => onRulesChange({ ...rules, breakLength: parseWholeNumber(e.target.value, rules.breakLength) })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="our-team">Our team number</Label>
+            <Input
+              id="our-team"
+              inputMode="numeric"
+              placeholder="e.g., 3314"
+              value={rules.ourTeamNumber}
+              onChange={(e) => onRulesChange({ ...rules, ourTeamNumber: e.target.value.trim() })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pit-lead">Pit duty lead (matches)</Label>
+            <Input
+              id="pit-lead"
+              type="number"
+              inputMode="numeric"
+              min={0}
+              value={rules.pitDutyLeadMatches}
+              onChange={(e) => onRulesChange({ ...rules, pitDutyLeadMatches: parseWholeNumber(e.target.value, rules.pitDutyLeadMatches) })}
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="skip-own-team"
+            checked={rules.skipOwnTeam}
+            onCheckedChange={(checked) => onRulesChange({ ...rules, skipOwnTeam: checked === true })}
+          />
+          <Label htmlFor="skip-own-team" className="text-sm font-normal">
+            Don't assign a scout to our own robot
+          </Label>
+        </div>
+
+        {scoutsList.length > 0 && (
+          <div className="space-y-2">
+            <Label>Pulled for pit duty during our matches</Label>
+            <div className="flex flex-wrap gap-2">
+              {scoutsList.map(scoutName => {
+                const selected = rules.pitDutyScouts.includes(scoutName);
+                return (
+                  <Badge
+                    key={scoutName}
+                    variant={selected ? 'default' : 'outline'}
+                    className="cursor-pointer select-none"
+                    onClick={() => togglePitDutyScout(scoutName, !selected)}
+                  >
+                    {scoutName}
+                  </Badge>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-col gap-2 pt-2 border-t sm:flex-row">
+          <Button
+            onClick={onGenerate}
+            disabled={matchCount === 0 || scoutsList.length === 0}
+            className="flex-1"
+          >
+            <Wand2 className="h-4 w-4 mr-2" />
+            Generate for {matchCount} matches
+          </Button>
+          <Button
+            variant="outline"
+            onClick={onPushAssignments}
+            disabled={!hasAssignments || readyConnectedScoutsCount === 0}
+            className="flex-1"
+          >
+            <Send className="h-4 w-4 mr-2" />
+            Push to {readyConnectedScoutsCount} scout{readyConnectedScoutsCount === 1 ? '' : 's'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
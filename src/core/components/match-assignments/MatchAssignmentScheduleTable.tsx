@@ -0,0 +1,154 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from "@/core/components/ui/card";
+import { Badge } from "@/core/components/ui/badge";
+import { Button } from "@/core/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/core/components/ui/table";
+import { Trash2 } from 'lucide-react';
+import { getScoutColor } from '@/core/components/pit-assignments/shared/scoutUtils';
+import type { MatchScheduleTransferEntry } from '@/core/lib/matchScheduleTransfer';
+import {
+  MATCH_SCOUT_STATIONS,
+  type MatchAssignmentGap,
+  type MatchScoutAssignment,
+} from '@/core/lib/matchAssignmentTypes';
+
+interface MatchAssignmentScheduleTableProps {
+  schedule: MatchScheduleTransferEntry[];
+  assignments: MatchScoutAssignment[];
+  gaps: MatchAssignmentGap[];
+  pitDuty: Record<number, string[]>;
+  scoutsList: string[];
+  onClearAssignments: () => void;
+}
+
+const STATION_LABELS: Record<string, string> = {
+  'red-1': 'Red 1',
+  'red-2': 'Red 2',
+  'red-3': 'Red 3',
+  'blue-1': 'Blue 1',
+  'blue-2': 'Blue 2',
+  'blue-3': 'Blue 3',
+};
+
+export const MatchAssignmentScheduleTable: React.FC<MatchAssignmentScheduleTableProps> = ({
+  schedule,
+  assignments,
+  gaps,
+  pitDuty,
+  scoutsList,
+  onClearAssignments,
+}) => {
+  const [highlightedScout, setHighlightedScout] = useState<string | null>(null);
+
+  const assignmentsBySlot = useMemo(() => {
+    return new Map(assignments.map(a => [`${a.matchNum}:${a.station}`, a]));
+  }, [assignments]);
+
+  const gapsBySlot = useMemo(() => {
+    return new Map(gaps.map(g => [`${g.matchNum}:${g.station}`, g]));
+  }, [gaps]);
+
+  const matchCountsByScout = useMemo(() => {
+    const counts = new Map<string, number>();
+    assignments.forEach(a => counts.set(a.scoutName, (counts.get(a.scoutName) ?? 0) + 1));
+    return counts;
+  }, [assignments]);
+
+  const legendScouts = useMemo(() => {
+    return Array.from(new Set([...scoutsList, ...assignments.map(a => a.scoutName)]));
+  }, [scoutsList, assignments]);
+
+  const unfilledCount = gaps.filter(g => g.reason === 'no-scout').length;
+
+  return (
+    <Card>
+      <CardHeader className="space-y-3">
+        <div className="flex items-center justify-between">
+          <CardTitle>Match Schedule</CardTitle>
+          <Button variant="outline" size="sm" onClick={onClearAssignments} disabled={assignments.length === 0}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Clear
+          </Button>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {legendScouts.map((scoutName, index) => (
+            <Badge
+              key={scoutName}
+              variant="outline"
+              className={`cursor-pointer ${getScoutColor(index)} ${highlightedScout === scoutName ? 'ring-2 ring-primary' : ''}`}
+              onClick={() => setHighlightedScout(prev => prev === scoutName ? null : scoutName)}
+            >
+              {scoutName} ({matchCountsByScout.get(scoutName) ?? 0})
+            </Badge>
+          ))}
+        </div>
+        {unfilledCount > 0 && (
+          <p className="text-sm text-red-600">
+            {unfilledCount} slot{unfilledCount === 1 ? '' : 's'} could not be filled. Add scouts or shorten breaks.
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="max-h-[600px] overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Match</TableHead>
+              {MATCH_SCOUT_STATIONS.map(station => (
+                <TableHead
+                  key={station}
+                  className={station.startsWith('red') ? 'text-red-600' : 'text-blue-600'}
+                >
+                  {STATION_LABELS[station]}
+                </TableHead>
+              ))}
+              <TableHead>Pit Duty</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {schedule.map(match => (
+              <TableRow key={match.matchNum}>
+                <TableCell className="font-medium">Q{match.matchNum}</TableCell>
+                {MATCH_SCOUT_STATIONS.map(station => {
+                  const slotKey = `${match.matchNum}:${station}`;
+                  const assignment = assignmentsBySlot.get(slotKey);
+                  const gap = gapsBySlot.get(slotKey);
+                  const scoutIndex = assignment ? legendScouts.indexOf(assignment.scoutName) : -1;
+                  const dimmed = highlightedScout && assignment?.scoutName !== highlightedScout;
+
+                  return (
+                    <TableCell key={station} className={dimmed ? 'opacity-30' : ''}>
+                      <div className="flex flex-col gap-1">
+                        <span className="text-xs text-muted-foreground">
+                          {assignment?.teamNumber ?? gap?.teamNumber ?? '—'}
+                        </span>
+                        {assignment ? (
+                          <Badge variant="outline" className={getScoutColor(scoutIndex)}>
+                            {assignment.scoutName}
+                          </Badge>
+                        ) : gap?.reason === 'own-team' ? (
+                          <Badge variant="secondary">Our robot</Badge>
+                        ) : gap ? (
+                          <Badge variant="destructive">Unassigned</Badge>
+                        ) : null}
+                      </div>
+                    </TableCell>
+                  );
+                })}
+                <TableCell className="text-xs text-muted-foreground">
+                  {(pitDuty[match.matchNum] ?? []).join(', ')}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
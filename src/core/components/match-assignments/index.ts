@@ -0,0 +1,2 @@
+export { MatchAssignmentRulesCard } from './MatchAssignmentRulesCard';
+export { MatchAssignmentScheduleTable } from './MatchAssignmentScheduleTable';
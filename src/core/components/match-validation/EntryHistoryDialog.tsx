@@ -0,0 +1,214 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/core/components/ui/dialog';
+import { Badge } from '@/core/components/ui/badge';
+import { Button } from '@/core/components/ui/button';
+import { History, Loader2, Undo2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  loadRevisionBatch,
+  loadScoutingEntriesByTeamAndEvent,
+  loadScoutingEntryRevisions,
+  revertRevisionBatch,
+  revertScoutingEntryRevision,
+} from '@/core/db/database';
+import { buildEntryHistory, type EntryHistoryStep } from '@/core/lib/entryRevisions';
+import { formatFieldValue, type ReconciliationField } from '@/core/lib/dualScoutReconciliation';
+
+interface EntryHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  eventKey: string;
+  /** Entry match key (e.g. "qm12") */
+  matchKey: string;
+  teamNumber: number;
+  alliance: 'red' | 'blue';
+  /** Called after a revert so validation can be refreshed */
+  onReverted?: () => void;
+}
+
+const KIND_LABELS: Record<EntryHistoryStep['revision']['kind'], string> = {
+  correction: 'Correction',
+  merge: 'Dual-scout merge',
+  replace: 'Replaced by transfer',
+  revert: 'Revert',
+};
+
+const formatChange = (field: ReconciliationField, side: 'a' | 'b') => {
+  if (field.pathDiff) {
+    const count = side === 'a' ? field.pathDiff.aCount : field.pathDiff.bCount;
+    return `${count} waypoints`;
+  }
+  return formatFieldValue(side === 'a' ? field.a : field.b);
+};
+
+export const EntryHistoryDialog: React.FC<EntryHistoryDialogProps> = ({
+  open,
+  onOpenChange,
+  eventKey,
+  matchKey,
+  teamNumber,
+  alliance,
+  onReverted,
+}) => {
+  const [history, setHistory] = useState<EntryHistoryStep[]>([]);
+  const [batchSizes, setBatchSizes] = useState<Record<string, number>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [isReverting, setIsReverting] = useState(false);
+
+  const loadHistory = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const entries = await loadScoutingEntriesByTeamAndEvent(teamNumber, eventKey);
+      const entry = entries.find(item => item.matchKey === matchKey && item.allianceColor === alliance);
+      if (!entry) {
+        setHistory([]);
+        return;
+      }
+
+      const steps = buildEntryHistory(await loadScoutingEntryRevisions(entry.id), entry);
+      const batchIds = [...new Set(steps.map(step => step.revision.batchId).filter((id): id is string => !!id))];
+      const sizes: Record<string, number> = {};
+      for (const batchId of batchIds) {
+        sizes[batchId] = new Set((await loadRevisionBatch(batchId)).map(revision => revision.entryId)).size;
+      }
+
+      setHistory(steps);
+      setBatchSizes(sizes);
+    } catch (error) {
+      console.error('Failed to load entry history:', error);
+      toast.error('Failed to load entry history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [eventKey, matchKey, teamNumber, alliance]);
+
+  useEffect(() => {
+    if (open) {
+      void loadHistory();
+    }
+  }, [open, loadHistory]);
+
+  const revertedBy = () => localStorage.getItem('currentScout') || 'match-validation-undo';
+
+  const handleRevert = async (step: EntryHistoryStep) => {
+    setIsReverting(true);
+    try {
+      await revertScoutingEntryRevision(step.revision.id, revertedBy());
+      toast.success('Entry reverted');
+      await loadHistory();
+      onReverted?.();
+    } catch (error) {
+      console.error('Failed to revert entry:', error);
+      toast.error('Failed to revert entry');
+    } finally {
+      setIsReverting(false);
+    }
+  };
+
+  const handleRevertBatch = async (batchId: string) => {
+    setIsReverting(true);
+    try {
+      const result = await revertRevisionBatch(batchId, revertedBy());
+      toast.success(
+        `Reverted ${result.reverted} entries${result.skipped > 0 ? ` (${result.skipped} edited since, left as is)` : ''}`
+      );
+      await loadHistory();
+      onReverted?.();
+    } catch (error) {
+      console.error('Failed to revert correction batch:', error);
+      toast.error('Failed to revert correction batch');
+    } finally {
+      setIsReverting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Edit History
+          </DialogTitle>
+          <DialogDescription>
+            Team {teamNumber} • {matchKey} • {alliance} alliance
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 py-8 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading history...
+          </div>
+        ) : history.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No earlier versions are stored for this entry.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {history.map(step => {
+              const { revision } = step;
+              const batchSize = revision.batchId ? batchSizes[revision.batchId] ?? 0 : 0;
+              return (
+                <div key={revision.id} className="border rounded-lg p-3 space-y-2">
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <Badge variant="secondary" className="text-xs">{KIND_LABELS[revision.kind]}</Badge>
+                    <span className="font-medium">{revision.changedBy}</span>
+                    <span className="text-xs text-muted-foreground">{new Date(revision.changedAt).toLocaleString()}</span>
+                    {batchSize > 1 && (
+                      <Badge variant="outline" className="text-xs">Bulk • {batchSize} entries</Badge>
+                    )}
+                  </div>
+                  <p className="text-xs italic text-muted-foreground">{revision.reason}</p>
+
+                  {step.changes.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">No scouted values changed.</p>
+                  ) : (
+                    <div className="space-y-1">
+                      {step.changes.map(field => (
+                        <div key={field.path} className="grid grid-cols-3 gap-2 text-xs">
+                          <span className="font-medium">{field.label}</span>
+                          <span className="font-mono text-red-600 dark:text-red-400">{formatChange(field, 'a')}</span>
+                          <span className="font-mono text-green-600 dark:text-green-400">{formatChange(field, 'b')}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="flex flex-wrap gap-2 pt-1">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => void handleRevert(step)}
+                      disabled={isReverting}
+                    >
+                      <Undo2 className="h-3 w-3 mr-1" />
+                      Revert to Before This
+                    </Button>
+                    {revision.batchId && batchSize > 1 && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => void handleRevertBatch(revision.batchId!)}
+                        disabled={isReverting}
+                      >
+                        <Undo2 className="h-3 w-3 mr-1" />
+                        Revert Whole Batch
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
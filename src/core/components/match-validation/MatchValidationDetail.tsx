@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import {
   Sheet,
@@ -14,6 +14,8 @@ import { AllianceCard } from './AllianceCard';
 import { MatchSummaryCard } from './MatchSummaryCard';
 import { DiscrepancyList } from './DiscrepancyList';
 import { TeamBreakdown } from './TeamBreakdown';
+import { EntryHistoryDialog } from './EntryHistoryDialog';
+import { MatchVideoReviewDialog } from '@/game-template/components';
 import { RefreshCw, Users, ExternalLink, AlertTriangle, Info } from 'lucide-react';
 import type { MatchListItem, Discrepancy } from '@/core/lib/matchValidationTypes';
 
@@ -33,6 +35,10 @@ export const MatchValidationDetail: React.FC<MatchValidationDetailProps> = ({
   formatMatchLabel,
 }) => {
   const navigate = useNavigate();
+  const [historyTeam, setHistoryTeam] = useState<{ teamNumber: string; alliance: 'red' | 'blue' } | null>(null);
+  // The review stays mounted while the sheet is open so the loaded video survives closing it
+  const [isVideoReviewOpen, setIsVideoReviewOpen] = useState(false);
+  const [videoTeamNumber, setVideoTeamNumber] = useState<number | null>(null);
   const validationResult = match.validationResult;
   const matchLabel = formatMatchLabel
     ? formatMatchLabel({ ...match, matchNumber: match.matchNumber.toString() })
@@ -181,8 +187,37 @@ export const MatchValidationDetail: React.FC<MatchValidationDetailProps> = ({
               <TeamBreakdown
                 teams={validationResult.teams || []}
                 onRescoutTeam={handleRescoutTeam}
+                onShowHistory={(teamNumber, alliance) => setHistoryTeam({ teamNumber, alliance })}
+                onReviewVideo={(teamNumber) => {
+                  setVideoTeamNumber(Number(teamNumber));
+                  setIsVideoReviewOpen(true);
+                }}
               />
 
+              <MatchVideoReviewDialog
+                open={isVideoReviewOpen}
+                onOpenChange={setIsVideoReviewOpen}
+                eventKey={match.matchKey.split('_')[0] ?? ''}
+                matchKey={match.matchKey}
+                teams={(validationResult.teams || [])
+                  .filter(team => team.hasScoutedData)
+                  .map(team => ({ teamNumber: Number(team.teamNumber), alliance: team.alliance }))}
+                initialTeamNumber={videoTeamNumber}
+                onCorrected={onReValidate}
+              />
+
+              {historyTeam && (
+                <EntryHistoryDialog
+                  open={!!historyTeam}
+                  onOpenChange={(open) => !open && setHistoryTeam(null)}
+                  eventKey={match.matchKey.split('_')[0] ?? ''}
+                  matchKey={match.matchKey.split('_')[1] ?? ''}
+                  teamNumber={Number(historyTeam.teamNumber)}
+                  alliance={historyTeam.alliance}
+                  onReverted={onReValidate}
+                />
+              )}
+
               {/* Metadata */}
               <div className="text-xs text-muted-foreground text-center pb-4">
                 Validated: {new Date(validationResult.validatedAt).toLocaleString()}
@@ -2,17 +2,21 @@ import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/core/components/ui/card';
 import { Badge } from '@/core/components/ui/badge';
 import { Button } from '@/core/components/ui/button';
-import { RefreshCw } from 'lucide-react';
+import { FileVideo, History, RefreshCw } from 'lucide-react';
 import type { MatchValidationResult } from '@/core/lib/matchValidationTypes';
 
 interface TeamBreakdownProps {
   teams: NonNullable<MatchValidationResult['teams']>;
   onRescoutTeam: (teamNumber: string, alliance: 'red' | 'blue') => void;
+  onShowHistory?: (teamNumber: string, alliance: 'red' | 'blue') => void;
+  onReviewVideo?: (teamNumber: string, alliance: 'red' | 'blue') => void;
 }
 
 export const TeamBreakdown: React.FC<TeamBreakdownProps> = ({
   teams,
   onRescoutTeam,
+  onShowHistory,
+  onReviewVideo,
 }) => {
   if (!teams || teams.length === 0) {
     return null;
@@ -54,6 +58,11 @@ export const TeamBreakdown: React.FC<TeamBreakdownProps> = ({
                         {team.notes.join(', ')}
                       </div>
                     )}
+                    {team.discrepancies.map((discrepancy) => (
+                      <div key={discrepancy.field} className="text-xs text-red-600 dark:text-red-400">
+                        {discrepancy.message}
+                      </div>
+                    ))}
                     {team.isCorrected && team.correctionCount && team.correctionCount > 0 && (
                       <div className="text-xs text-muted-foreground">
                         {team.correctionCount} {team.correctionCount === 1 ? 'correction' : 'corrections'}
@@ -81,6 +90,26 @@ export const TeamBreakdown: React.FC<TeamBreakdownProps> = ({
                   } className="text-xs">
                     {team.confidence}
                   </Badge>
+                  {onReviewVideo && team.hasScoutedData && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onReviewVideo(team.teamNumber, team.alliance)}
+                    >
+                      <FileVideo className="h-3 w-3 mr-1" />
+                      Video
+                    </Button>
+                  )}
+                  {onShowHistory && team.hasScoutedData && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onShowHistory(team.teamNumber, team.alliance)}
+                    >
+                      <History className="h-3 w-3 mr-1" />
+                      History
+                    </Button>
+                  )}
                   <Button
                     variant="outline"
                     size="sm"
@@ -10,6 +10,7 @@ import { toast } from 'sonner';
 import type { TransferDataType } from '@/core/contexts/WebRTCContext';
 import { applyFilters, filterPitScoutingEntries, filterScoutProfilePayload, type DataFilters } from '@/core/lib/dataFiltering';
 import { buildPitAssignmentsTransferPayload } from '@/core/lib/pitAssignmentTransfer';
+import { buildMatchAssignmentsTransferPayload } from '@/core/lib/matchAssignmentTransfer';
 import { debugLog } from '@/core/lib/peerTransferUtils';
 
 interface ReceivedDataEntry {
@@ -85,6 +86,15 @@ export function ConnectedScoutCard({
                     };
                     break;
                 }
+                case 'pit-photos': {
+                    const { exportPitPhotoPayload } = await import('@/core/lib/pitScoutingUtils');
+                    const { getPeerPhotoManifest } = await import('@/core/lib/pitPhotos');
+                    data = await exportPitPhotoPayload({
+                        missingFrom: getPeerPhotoManifest(scout.name),
+                        filters: pushFilters,
+                    });
+                    break;
+                }
                 case 'pit-assignments': {
                     const eventKey = localStorage.getItem('eventKey') || localStorage.getItem('eventName') || '';
                     const sourceScoutName = localStorage.getItem('currentScout') || 'Lead Scout';
@@ -96,6 +106,17 @@ export function ConnectedScoutCard({
                     data = buildPitAssignmentsTransferPayload(eventKey, sourceScoutName);
                     break;
                 }
+                case 'match-assignments': {
+                    const eventKey = localStorage.getItem('eventKey') || localStorage.getItem('eventName') || '';
+                    const sourceScoutName = localStorage.getItem('currentScout') || 'Lead Scout';
+
+                    if (!eventKey) {
+                        throw new Error('No active event found for match assignment transfer');
+                    }
+
+                    data = buildMatchAssignmentsTransferPayload(eventKey, sourceScoutName);
+                    break;
+                }
                 case 'match': {
                     const matchDataStr = localStorage.getItem('matchData');
                     const matches = matchDataStr ? JSON.parse(matchDataStr) : [];
@@ -142,6 +163,13 @@ export function ConnectedScoutCard({
                     };
                     break;
                 }
+                case 'sync-delta': {
+                    const { exportSyncDelta } = await import('@/core/db/database');
+                    const { findSyncCursorByName } = await import('@/core/db/syncLogDatabase');
+                    const cursor = await findSyncCursorByName(scout.name);
+                    data = await exportSyncDelta(cursor?.seen);
+                    break;
+                }
             }
 
             onPushData(scout.id, data, dataType);
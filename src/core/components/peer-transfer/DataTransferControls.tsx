@@ -26,10 +26,13 @@ export function DataTransferControls({
         switch (type) {
             case 'scouting': return 'Scouting';
             case 'pit-scouting': return 'Pit Scouting';
+            case 'pit-photos': return 'Pit Photos';
             case 'pit-assignments': return 'Pit Assignments';
+            case 'match-assignments': return 'Match Assignments';
             case 'match': return 'Match';
             case 'scout': return 'Scout Profile';
             case 'combined': return 'Combined';
+            case 'sync-delta': return 'Sync Changes';
             default: return type;
         }
     };
@@ -52,10 +55,13 @@ export function DataTransferControls({
                         <SelectContent>
                             <SelectItem value="scouting">Scouting Data</SelectItem>
                             <SelectItem value="pit-scouting">Pit Scouting</SelectItem>
+                            <SelectItem value="pit-photos">Pit Photos</SelectItem>
                             <SelectItem value="pit-assignments">Pit Assignments</SelectItem>
+                            <SelectItem value="match-assignments">Match Assignments</SelectItem>
                             <SelectItem value="match">Match Schedule</SelectItem>
                             <SelectItem value="scout">Scout Profiles</SelectItem>
                             <SelectItem value="combined">Combined (Scouting + Profiles)</SelectItem>
+                            <SelectItem value="sync-delta">Changes Since Last Sync</SelectItem>
                         </SelectContent>
                     </Select>
                 </div>
@@ -0,0 +1,168 @@
+import { useState } from 'react';
+import { Button } from '@/core/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/core/components/ui/card';
+import { Input } from '@/core/components/ui/input';
+import { Badge } from '@/core/components/ui/badge';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/core/components/ui/collapsible';
+import { ChevronDown, Download, Server, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { db, saveScoutingEntries } from '@/core/db/database';
+import { loadScoutingData } from '@/core/lib/scoutingDataUtils';
+import {
+    checkEventServer,
+    getEventServerToken,
+    getEventServerUrl,
+    isNewerScoutingEntry,
+    markEventServerPulled,
+    normalizeEventServerUrl,
+    pullScoutingFromEventServer,
+    setEventServerToken,
+    setEventServerUrl,
+    uploadScoutingToEventServer,
+    type EventServerHealth,
+} from '@/core/lib/eventServer';
+
+/**
+ * Point room codes at a self-hosted event server and, when the server has
+ * sync enabled, upload or pull scouting entries over the local network.
+ */
+export function EventServerCard() {
+    const [savedUrl, setSavedUrl] = useState(() => getEventServerUrl());
+    const [urlInput, setUrlInput] = useState(() => getEventServerUrl() ?? '');
+    const [tokenInput, setTokenInput] = useState(() => getEventServerToken());
+    const [health, setHealth] = useState<EventServerHealth | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+    const [isOpen, setIsOpen] = useState(() => !!getEventServerUrl());
+
+    const runTask = async (task: () => Promise<void>) => {
+        setIsBusy(true);
+        try {
+            await task();
+        } catch (error) {
+            toast.error('Event server', {
+                description: error instanceof Error ? error.message : 'Request failed',
+            });
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleSave = () => runTask(async () => {
+        const url = normalizeEventServerUrl(urlInput);
+        if (!url) {
+            toast.error('Enter a server address like 192.168.4.1:8888');
+            return;
+        }
+
+        setEventServerToken(tokenInput.trim());
+        const result = await checkEventServer(url);
+        setEventServerUrl(url);
+        setSavedUrl(url);
+        setUrlInput(url);
+        setHealth(result);
+        toast.success('Room codes now use the event server');
+    });
+
+    const handleClear = () => {
+        setEventServerUrl(null);
+        setEventServerToken('');
+        setSavedUrl(null);
+        setUrlInput('');
+        setTokenInput('');
+        setHealth(null);
+        toast.info('Room codes use the default server again');
+    };
+
+    const handleUpload = () => runTask(async () => {
+        if (!savedUrl) return;
+        const entries = await loadScoutingData();
+        const deviceName = localStorage.getItem('currentScout') || 'Unknown device';
+        const result = await uploadScoutingToEventServer(savedUrl, entries, deviceName);
+        toast.success(`Uploaded ${entries.length} entries`, {
+            description: `${result.added} new and ${result.updated} updated on the server (${result.total} total)`,
+        });
+    });
+
+    const handlePull = () => runTask(async () => {
+        if (!savedUrl) return;
+        const { entries, cursor } = await pullScoutingFromEventServer(savedUrl);
+        const existing = await db.scoutingData.bulkGet(entries.map(entry => entry.id));
+        const newer = entries.filter((entry, index) => {
+            const current = existing[index];
+            return !current || isNewerScoutingEntry(entry, current);
+        });
+
+        await saveScoutingEntries(newer);
+        markEventServerPulled(cursor);
+        toast.success(newer.length > 0 ? `Saved ${newer.length} entries from the server` : 'Already up to date');
+    });
+
+    return (
+        <Card className="w-full">
+            <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+                <CardHeader>
+                    <CollapsibleTrigger asChild>
+                        <button type="button" className="flex w-full items-center justify-between text-left">
+                            <CardTitle className="flex items-center gap-2">
+                                <Server className="h-5 w-5" />
+                                Event Server
+                                {savedUrl && <Badge variant="secondary">On</Badge>}
+                            </CardTitle>
+                            <ChevronDown className={`h-4 w-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+                        </button>
+                    </CollapsibleTrigger>
+                    <CardDescription>
+                        No internet at the venue? Run the event server on a laptop hotspot and enter its address.
+                    </CardDescription>
+                </CardHeader>
+                <CollapsibleContent>
+                    <CardContent className="space-y-3">
+                        <Input
+                            value={urlInput}
+                            onChange={(e) => setUrlInput(e.target.value)}
+                            placeholder="192.168.4.1:8888"
+                            inputMode="url"
+                            autoCapitalize="off"
+                            autoCorrect="off"
+                        />
+                        <Input
+                            value={tokenInput}
+                            onChange={(e) => setTokenInput(e.target.value)}
+                            placeholder="Sync token (if the server requires one)"
+                            type="password"
+                        />
+                        <div className="flex gap-2">
+                            <Button onClick={handleSave} disabled={isBusy || !urlInput.trim()} className="flex-1">
+                                {savedUrl ? 'Save & Test' : 'Connect'}
+                            </Button>
+                            {savedUrl && (
+                                <Button variant="outline" onClick={handleClear} disabled={isBusy}>
+                                    Use Default
+                                </Button>
+                            )}
+                        </div>
+
+                        {health && (
+                            <p className="text-sm text-muted-foreground">
+                                Connected · {health.rooms} active room{health.rooms === 1 ? '' : 's'} · sync {health.sync ? 'on' : 'off'}
+                            </p>
+                        )}
+
+                        {savedUrl && health?.sync && (
+                            <div className="flex gap-2">
+                                <Button variant="outline" onClick={handleUpload} disabled={isBusy} className="flex-1">
+                                    <Upload className="h-4 w-4 mr-2" />
+                                    Upload My Data
+                                </Button>
+                                <Button variant="outline" onClick={handlePull} disabled={isBusy} className="flex-1">
+                                    <Download className="h-4 w-4 mr-2" />
+                                    Pull New Data
+                                </Button>
+                            </div>
+                        )}
+                    </CardContent>
+                </CollapsibleContent>
+            </Collapsible>
+        </Card>
+    );
+}
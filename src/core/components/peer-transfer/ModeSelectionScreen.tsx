@@ -4,6 +4,7 @@ import { Alert, AlertDescription } from '@/core/components/ui/alert';
 import { Badge } from '@/core/components/ui/badge';
 import { Separator } from '@/core/components/ui/separator';
 import { Wifi, UserCheck, Users } from 'lucide-react';
+import { EventServerCard } from './EventServerCard';
 
 interface ModeSelectionScreenProps {
     onSelectLead: () => void;
@@ -26,7 +27,7 @@ export function ModeSelectionScreen({ onSelectLead, onSelectScout }: ModeSelecti
                 <Alert className="w-full">
                     <Wifi className="h-4 w-4" />
                     <AlertDescription>
-                        <strong>Requirements:</strong> All devices need internet connection (WiFi or cellular data).
+                        <strong>Requirements:</strong> All devices need internet connection (WiFi or cellular data), or a shared network with an event server (see below).
                         <br /><br />
                         <strong>Limitations:</strong> May not work if devices are very far apart or on certain restricted networks. Still in testing.
                         <br /><br />
@@ -68,6 +69,8 @@ export function ModeSelectionScreen({ onSelectLead, onSelectScout }: ModeSelecti
                     </CardContent>
                 </Card>
 
+                <EventServerCard />
+
                 <div className="flex flex-col gap-3 w-full">
                     <Button
                         onClick={onSelectLead}
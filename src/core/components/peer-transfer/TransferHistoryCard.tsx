@@ -123,6 +123,9 @@ export function TransferHistoryCard({
                             } else if (transferDataType === 'pit-assignments') {
                                 const assignmentCount = (dataObj as { assignments?: unknown[] }).assignments?.length || 0;
                                 displayText = `${assignmentCount} pit assignments`;
+                            } else if (transferDataType === 'match-assignments') {
+                                const assignmentCount = (dataObj as { assignments?: unknown[] }).assignments?.length || 0;
+                                displayText = `${assignmentCount} match assignments`;
                             } else if (transferDataType === 'combined') {
                                 const entryCount = dataObj.entries?.length || 0;
                                 const scoutProfiles = (dataObj as { scoutProfiles?: { scouts?: unknown[]; predictions?: unknown[] } }).scoutProfiles;
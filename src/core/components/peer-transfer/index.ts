@@ -8,3 +8,4 @@ export { ScoutMode } from './ScoutMode';
 export { RoomCodeConnection } from './RoomCodeConnection';
 export { CustomNameDialog } from './CustomNameDialog';
 export { ErrorDialog } from './ErrorDialog';
+export { EventServerCard } from './EventServerCard';
@@ -0,0 +1,381 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/core/components/ui/dialog";
+import { Button } from "@/core/components/ui/button";
+import { Input } from "@/core/components/ui/input";
+import { Label } from "@/core/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/core/components/ui/select";
+import { WhiteboardElementDialog } from "@/core/components/MatchStrategy/WhiteboardElementDialog";
+import { Download, Eraser, MoveUpRight, Pencil, Trash2, Type, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import { useCanvasDrawing, type DrawingTool } from "@/core/hooks/useCanvasDrawing";
+import { PRESET_COLORS } from "@/core/lib/drawingColors";
+import {
+  PIT_PHOTO_TAGS,
+  drawPitPhotoAnnotations,
+  isPitPhotoTag,
+  renderAnnotatedPitPhoto,
+  type PitPhoto,
+  type PitPhotoAnnotation,
+  type PitPhotoTag,
+} from "@/core/lib/pitPhotos";
+import {
+  createWhiteboardElementId,
+  findMovableElementAt,
+  type WhiteboardElement,
+  type WhiteboardText,
+} from "@/core/lib/strategyWhiteboard";
+import { cn } from "@/core/lib/utils";
+
+type AnnotationTool = Exclude<DrawingTool, "robot">;
+
+const TOOLS: Array<{ id: AnnotationTool; label: string; icon: React.ReactNode }> = [
+  { id: "draw", label: "Draw", icon: <Pencil className="h-4 w-4" /> },
+  { id: "arrow", label: "Arrow", icon: <MoveUpRight className="h-4 w-4" /> },
+  { id: "text", label: "Label", icon: <Type className="h-4 w-4" /> },
+  { id: "erase", label: "Erase", icon: <Eraser className="h-4 w-4" /> },
+];
+
+// Line widths and label size as fractions of the photo width
+const LINE_WIDTHS = [
+  { value: 0.004, label: "Thin" },
+  { value: 0.008, label: "Medium" },
+  { value: 0.015, label: "Thick" },
+];
+const LABEL_SIZE = 0.04;
+const ANNOTATION_COLORS = PRESET_COLORS.filter((color) =>
+  ["#ef4444", "#eab308", "#10b981", "#3b82f6", "#ffffff", "#000000"].includes(color.value)
+);
+
+const isAnnotation = (element: WhiteboardElement): element is PitPhotoAnnotation => element.kind !== "robot";
+
+interface PitPhotoEditorDialogProps {
+  photo: PitPhoto | null;
+  onOpenChange: (open: boolean) => void;
+  onSave: (photo: PitPhoto) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+export function PitPhotoEditorDialog({ photo, onOpenChange, onSave, onDelete }: PitPhotoEditorDialogProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+
+  const [tag, setTag] = useState<PitPhotoTag>("robot");
+  const [caption, setCaption] = useState("");
+  const [annotations, setAnnotations] = useState<PitPhotoAnnotation[]>([]);
+  const [history, setHistory] = useState<PitPhotoAnnotation[][]>([]);
+  const [draft, setDraft] = useState<WhiteboardElement | null>(null);
+
+  const [tool, setTool] = useState<AnnotationTool>("draw");
+  const [lineWidth, setLineWidth] = useState(LINE_WIDTHS[1]?.value ?? 0.008);
+  const [color, setColor] = useState(ANNOTATION_COLORS[0]?.value ?? "#ef4444");
+
+  const [labelDialogOpen, setLabelDialogOpen] = useState(false);
+  const [editingLabel, setEditingLabel] = useState<WhiteboardText | null>(null);
+  const [pendingLabelPosition, setPendingLabelPosition] = useState<{ x: number; y: number } | null>(null);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!photo) return;
+
+    setTag(photo.tag);
+    setCaption(photo.caption ?? "");
+    setAnnotations(photo.annotations);
+    setHistory([]);
+    setDraft(null);
+    setConfirmingDelete(false);
+    setSize(null);
+
+    const url = URL.createObjectURL(photo.image);
+    setImageUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [photo]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !size) return;
+
+    canvas.width = size.width;
+    canvas.height = size.height;
+    const context = canvas.getContext("2d");
+    if (!context) return;
+
+    context.clearRect(0, 0, size.width, size.height);
+    const visible = draft
+      ? [...annotations.filter((annotation) => annotation.id !== draft.id), ...(isAnnotation(draft) ? [draft] : [])]
+      : annotations;
+    drawPitPhotoAnnotations(context, visible, size.width, size.height);
+  }, [annotations, draft, size]);
+
+  const commit = useCallback((next: PitPhotoAnnotation[]) => {
+    setHistory((previous) => [...previous, annotations]);
+    setAnnotations(next);
+  }, [annotations]);
+
+  const handleElementComplete = useCallback((element: WhiteboardElement, isNew: boolean) => {
+    if (!isAnnotation(element)) return;
+    commit(isNew
+      ? [...annotations, element]
+      : annotations.map((annotation) => annotation.id === element.id ? element : annotation));
+  }, [annotations, commit]);
+
+  const handleTap = useCallback((point: { x: number; y: number }) => {
+    const canvas = canvasRef.current;
+    if (tool !== "text" || !canvas) return;
+    setEditingLabel(null);
+    setPendingLabelPosition({ x: point.x / canvas.width, y: point.y / canvas.height });
+    setLabelDialogOpen(true);
+  }, [tool]);
+
+  const handleElementTap = useCallback((element: WhiteboardElement) => {
+    if (element.kind !== "text") return;
+    setEditingLabel(element);
+    setLabelDialogOpen(true);
+  }, []);
+
+  const getMovableElementAt = useCallback(
+    (point: { x: number; y: number }, aspect: number) => findMovableElementAt(annotations, point, aspect),
+    [annotations]
+  );
+
+  const { canvasStyle, canvasEventHandlers } = useCanvasDrawing({
+    canvasRef,
+    tool,
+    brushSize: size ? size.width * lineWidth : 4,
+    brushColor: color,
+    disabled: !size,
+    getMovableElementAt,
+    onDraftChange: setDraft,
+    onElementComplete: handleElementComplete,
+    onTap: handleTap,
+    onElementTap: handleElementTap,
+  });
+
+  const handleSaveLabel = (text: string) => {
+    if (editingLabel) {
+      commit(annotations.map((annotation) => annotation.id === editingLabel.id ? { ...editingLabel, text } : annotation));
+    } else if (pendingLabelPosition) {
+      const now = Date.now();
+      commit([...annotations, {
+        id: createWhiteboardElementId(now),
+        createdAt: now,
+        kind: "text",
+        position: pendingLabelPosition,
+        text,
+        color,
+        size: LABEL_SIZE,
+      }]);
+    }
+    setLabelDialogOpen(false);
+  };
+
+  const handleDeleteLabel = () => {
+    if (editingLabel) {
+      commit(annotations.filter((annotation) => annotation.id !== editingLabel.id));
+    }
+    setLabelDialogOpen(false);
+  };
+
+  const handleUndo = () => {
+    const previous = history[history.length - 1];
+    if (!previous) return;
+    setHistory(history.slice(0, -1));
+    setAnnotations(previous);
+  };
+
+  const handleSave = async () => {
+    if (!photo) return;
+    setIsSaving(true);
+    try {
+      await onSave({ ...photo, tag, caption: caption.trim() || undefined, annotations });
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving pit photo:", error);
+      toast.error("Failed to save photo");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!photo) return;
+    if (!confirmingDelete) {
+      setConfirmingDelete(true);
+      return;
+    }
+    try {
+      await onDelete(photo.id);
+      onOpenChange(false);
+      toast.success("Photo removed");
+    } catch (error) {
+      console.error("Error deleting pit photo:", error);
+      toast.error("Failed to remove photo");
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!photo) return;
+    try {
+      const blob = await renderAnnotatedPitPhoto({ ...photo, annotations });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `team-${photo.teamNumber}-${tag}-${photo.eventKey}.jpg`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error downloading pit photo:", error);
+      toast.error("Failed to download photo");
+    }
+  };
+
+  return (
+    <Dialog open={!!photo} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[95vh] max-w-3xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Team {photo?.teamNumber} Photo</DialogTitle>
+          <DialogDescription>
+            Draw, add arrows or labels to point out mechanisms. Drag a label with the label tool to move it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {TOOLS.map((option) => (
+            <Button
+              key={option.id}
+              variant={tool === option.id ? "default" : "outline"}
+              size="sm"
+              onClick={() => setTool(option.id)}
+              title={option.label}
+            >
+              {option.icon}
+              <span className="hidden sm:inline">{option.label}</span>
+            </Button>
+          ))}
+
+          <Select value={String(lineWidth)} onValueChange={(value) => setLineWidth(Number(value))}>
+            <SelectTrigger className="h-8 w-24">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LINE_WIDTHS.map((option) => (
+                <SelectItem key={option.value} value={String(option.value)}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <div className="flex items-center gap-1">
+            {ANNOTATION_COLORS.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                title={option.label}
+                aria-label={option.label}
+                onClick={() => setColor(option.value)}
+                className={cn(
+                  "h-6 w-6 rounded-full border-2",
+                  color === option.value ? "border-primary ring-2 ring-primary/40" : "border-border"
+                )}
+                style={{ backgroundColor: option.value }}
+              />
+            ))}
+          </div>
+
+          <Button variant="outline" size="sm" onClick={handleUndo} disabled={history.length === 0} title="Undo">
+            <Undo2 className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => commit([])}
+            disabled={annotations.length === 0}
+            title="Clear annotations"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div
+          className="relative overflow-hidden rounded-lg border bg-black"
+          style={size ? { aspectRatio: `${size.width} / ${size.height}` } : { minHeight: "200px" }}
+        >
+          {imageUrl && (
+            <img
+              src={imageUrl}
+              alt={`Team ${photo?.teamNumber}`}
+              className="block h-full w-full select-none"
+              draggable={false}
+              onLoad={(event) => setSize({
+                width: event.currentTarget.naturalWidth,
+                height: event.currentTarget.naturalHeight,
+              })}
+            />
+          )}
+          <canvas
+            ref={canvasRef}
+            className="absolute inset-0 h-full w-full"
+            style={canvasStyle}
+            {...canvasEventHandlers}
+          />
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Shows</Label>
+            <Select value={tag} onValueChange={(value) => isPitPhotoTag(value) && setTag(value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PIT_PHOTO_TAGS.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pit-photo-caption">Caption</Label>
+            <Input
+              id="pit-photo-caption"
+              value={caption}
+              maxLength={80}
+              placeholder="e.g. Over-bumper intake"
+              onChange={(event) => setCaption(event.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <div className="flex gap-2">
+            <Button variant="destructive" onClick={handleDelete}>
+              {confirmingDelete ? "Confirm Delete" : "Delete"}
+            </Button>
+            <Button variant="outline" onClick={handleDownload} disabled={!size}>
+              <Download className="mr-2 h-4 w-4" />
+              Download
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              Save
+            </Button>
+          </div>
+        </DialogFooter>
+
+        <WhiteboardElementDialog
+          open={labelDialogOpen}
+          onOpenChange={setLabelDialogOpen}
+          element={editingLabel}
+          onSaveText={handleSaveLabel}
+          onDelete={handleDeleteLabel}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,71 @@
+import { useEffect, useRef, useState } from "react";
+import { drawPitPhotoAnnotations, type PitPhoto } from "@/core/lib/pitPhotos";
+import { cn } from "@/core/lib/utils";
+
+const useObjectUrl = (blob: Blob | undefined) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!blob) {
+      setUrl(null);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  return url;
+};
+
+interface PitPhotoViewProps {
+  photo: PitPhoto;
+  /** Thumbnails load the small image when there is one */
+  variant?: "thumbnail" | "full";
+  alt?: string;
+  className?: string;
+}
+
+/**
+ * A pit photo with its annotations drawn over it. The overlay canvas matches
+ * the loaded image's pixel size and is scaled with it by CSS.
+ */
+export function PitPhotoView({ photo, variant = "full", alt, className }: PitPhotoViewProps) {
+  const source = variant === "thumbnail" ? photo.thumbnail ?? photo.image : photo.image;
+  const url = useObjectUrl(source);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !size) return;
+
+    canvas.width = size.width;
+    canvas.height = size.height;
+    const context = canvas.getContext("2d");
+    if (!context) return;
+
+    context.clearRect(0, 0, size.width, size.height);
+    drawPitPhotoAnnotations(context, photo.annotations, size.width, size.height);
+  }, [photo.annotations, size]);
+
+  return (
+    <div
+      className={cn("relative overflow-hidden rounded-lg border bg-muted", className)}
+      style={size ? { aspectRatio: `${size.width} / ${size.height}` } : undefined}
+    >
+      {url && (
+        <img
+          src={url}
+          alt={alt ?? `Team ${photo.teamNumber} ${photo.tag}`}
+          className="block h-full w-full"
+          onLoad={(event) => setSize({
+            width: event.currentTarget.naturalWidth,
+            height: event.currentTarget.naturalHeight,
+          })}
+        />
+      )}
+      <canvas ref={canvasRef} className="pointer-events-none absolute inset-0 h-full w-full" />
+    </div>
+  );
+}
@@ -0,0 +1,292 @@
+import { useState, useRef } from "react";
+import { Button } from "@/core/components/ui/button";
+import { Badge } from "@/core/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/core/components/ui/card";
+import { Label } from "@/core/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/core/components/ui/select";
+import { Camera, Upload, Image } from "lucide-react";
+import { toast } from "sonner";
+import { usePitPhotos } from "@/core/hooks/usePitPhotos";
+import {
+  MAX_PHOTO_SOURCE_SIZE_BYTES,
+  PIT_PHOTO_TAGS,
+  getPitPhotoTagLabel,
+  isPitPhotoTag,
+  loadImageFromBlob,
+  processPitPhoto,
+  type PitPhoto,
+  type PitPhotoTag,
+} from "@/core/lib/pitPhotos";
+import { PitPhotoView } from "./PitPhotoView";
+import { PitPhotoEditorDialog } from "./PitPhotoEditorDialog";
+
+interface PitPhotosSectionProps {
+  teamNumber: number | "";
+  eventKey: string;
+  scoutName: string;
+}
+
+export function PitPhotosSection({
+  teamNumber,
+  eventKey,
+  scoutName,
+}: PitPhotosSectionProps) {
+  const { photos, addPhoto, updatePhoto, removePhoto } = usePitPhotos(teamNumber, eventKey);
+  const [nextTag, setNextTag] = useState<PitPhotoTag>("robot");
+  const [editingPhoto, setEditingPhoto] = useState<PitPhoto | null>(null);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [isStreamReady, setIsStreamReady] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+
+  const canAddPhotos = teamNumber !== "" && !!eventKey;
+
+  const startCamera = async () => {
+    // Show the video element first
+    setIsCapturing(true);
+    setIsStreamReady(false);
+
+    try {
+      let stream: MediaStream | null = null;
+
+      // First, try to get the back camera (environment-facing)
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: {
+            facingMode: { exact: "environment" },
+            width: { ideal: 1920 },
+            height: { ideal: 1080 }
+          },
+        });
+      } catch {
+        // If exact back camera fails, try with ideal preference (allows fallback)
+        console.log("Back camera not available, trying with ideal preference...");
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: {
+            facingMode: { ideal: "environment" },
+            width: { ideal: 1920 },
+            height: { ideal: 1080 }
+          },
+        });
+      }
+
+      if (videoRef.current && stream) {
+        videoRef.current.srcObject = stream;
+        streamRef.current = stream;
+
+        // Wait for the video metadata to load before showing
+        videoRef.current.onloadedmetadata = () => {
+          if (videoRef.current) {
+            videoRef.current.play().then(() => {
+              setIsStreamReady(true);
+            }).catch((err) => {
+              console.error("Error playing video:", err);
+              toast.error("Failed to start video preview");
+              stopCamera();
+            });
+          }
+        };
+      }
+    } catch (error) {
+      console.error("Error accessing camera:", error);
+      toast.error("Failed to access camera. Please check permissions.");
+      setIsCapturing(false);
+    }
+  };
+
+  const stopCamera = () => {
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach((track) => track.stop());
+      streamRef.current = null;
+    }
+    if (videoRef.current) {
+      videoRef.current.srcObject = null;
+    }
+    setIsCapturing(false);
+    setIsStreamReady(false);
+  };
+
+  const savePhoto = async (images: { image: Blob; thumbnail: Blob }) => {
+    const photo = await addPhoto(nextTag, images, scoutName);
+    if (!photo) {
+      throw new Error("Select a team and event before adding photos.");
+    }
+  };
+
+  const capturePhoto = () => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    setIsProcessing(true);
+    void processPitPhoto(video, video.videoWidth, video.videoHeight)
+      .then(savePhoto)
+      .then(() => {
+        stopCamera();
+        toast.success(`${getPitPhotoTagLabel(nextTag)} photo saved`);
+      })
+      .catch((error) => {
+        console.error("Error optimizing captured photo:", error);
+        toast.error("Failed to process the captured photo.");
+      })
+      .finally(() => setIsProcessing(false));
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (files.length === 0) return;
+
+    setIsProcessing(true);
+    let saved = 0;
+    for (const file of files) {
+      if (file.size > MAX_PHOTO_SOURCE_SIZE_BYTES) {
+        toast.error(`${file.name} is larger than 12MB`);
+        continue;
+      }
+
+      try {
+        const image = await loadImageFromBlob(file);
+        await savePhoto(await processPitPhoto(image, image.naturalWidth, image.naturalHeight));
+        saved += 1;
+      } catch (error) {
+        console.error("Error processing uploaded photo:", error);
+        toast.error(`Failed to process ${file.name}`);
+      }
+    }
+    setIsProcessing(false);
+
+    if (saved > 0) {
+      toast.success(`${saved} ${saved === 1 ? "photo" : "photos"} uploaded and optimized for transfer.`);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Image className="h-5 w-5" />
+          Robot Photos
+          {photos.length > 0 && <Badge variant="secondary">{photos.length}</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Hidden file input */}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          onChange={handleFileUpload}
+          className="hidden"
+        />
+
+        {/* Saved photos */}
+        {photos.length > 0 && !isCapturing && (
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+            {photos.map((photo) => (
+              <button
+                key={photo.id}
+                type="button"
+                className="space-y-1 text-left"
+                onClick={() => setEditingPhoto(photo)}
+              >
+                <PitPhotoView photo={photo} variant="thumbnail" />
+                <div className="flex items-center gap-1">
+                  <Badge variant="outline" className="text-xs">{getPitPhotoTagLabel(photo.tag)}</Badge>
+                  {photo.annotations.length > 0 && (
+                    <span className="text-xs text-muted-foreground">Annotated</span>
+                  )}
+                </div>
+                {photo.caption && (
+                  <p className="truncate text-xs text-muted-foreground">{photo.caption}</p>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Camera view (shown when capturing) */}
+        {isCapturing && (
+          <div className="space-y-2">
+            <div className="relative w-full rounded-lg border bg-black overflow-hidden">
+              {!isStreamReady && (
+                <div className="absolute inset-0 flex items-center justify-center" style={{ minHeight: '300px' }}>
+                  <div className="text-white text-center">
+                    <Camera className="h-12 w-12 mx-auto mb-2 animate-pulse" />
+                    <p>Loading camera...</p>
+                  </div>
+                </div>
+              )}
+              <video
+                ref={videoRef}
+                autoPlay
+                playsInline
+                muted
+                className="w-full rounded-lg"
+                style={{ maxHeight: '60vh', display: isStreamReady ? 'block' : 'none' }}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={capturePhoto} className="flex-1" disabled={!isStreamReady || isProcessing}>
+                <Camera className="mr-2 h-4 w-4" />
+                Capture {getPitPhotoTagLabel(nextTag)}
+              </Button>
+              <Button onClick={stopCamera} variant="outline" className="flex-1">
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Action buttons */}
+        {!isCapturing && (
+          <div className="space-y-2">
+            <Label>Next photo shows</Label>
+            <div className="flex flex-col gap-2 sm:flex-row">
+              <Select value={nextTag} onValueChange={(value) => isPitPhotoTag(value) && setNextTag(value)}>
+                <SelectTrigger className="sm:w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PIT_PHOTO_TAGS.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={startCamera} className="flex-1" disabled={!canAddPhotos || isProcessing}>
+                <Camera className="mr-2 h-4 w-4" />
+                Take Photo
+              </Button>
+              <Button
+                onClick={() => fileInputRef.current?.click()}
+                variant="outline"
+                className="flex-1"
+                disabled={!canAddPhotos || isProcessing}
+              >
+                <Upload className="mr-2 h-4 w-4" />
+                Upload
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <p className="text-sm text-muted-foreground">
+          {canAddPhotos
+            ? "Optional: Add photos of the robot and its mechanisms. Photos are saved right away, resized and compressed for transfer. Tap a photo to annotate it."
+            : "Enter a team number and event to add photos."}
+        </p>
+
+        <PitPhotoEditorDialog
+          photo={editingPhoto}
+          onOpenChange={(open) => {
+            if (!open) setEditingPhoto(null);
+          }}
+          onSave={updatePhoto}
+          onDelete={removePhoto}
+        />
+      </CardContent>
+    </Card>
+  );
+}
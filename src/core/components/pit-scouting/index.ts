@@ -1,5 +1,5 @@
 export { BasicInformation } from "./BasicInformation";
-export { RobotPhotoSection } from "./RobotPhotoSection";
+export { PitPhotosSection } from "./PitPhotosSection";
 export { TechnicalSpecifications } from "./TechnicalSpecifications";
 export { AdditionalNotes } from "./AdditionalNotes";
 export { GameSpecificQuestionsPlaceholder } from "./GameSpecificQuestionsPlaceholder";
@@ -1,16 +1,20 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/core/components/ui/card";
 import { GenericSelector } from "@/core/components/ui/generic-selector";
-import { Trophy, Target, TrendingUp, Award } from "lucide-react";
+import { Checkbox } from "@/core/components/ui/checkbox";
+import { Trophy, Target, TrendingUp, Award, ShieldCheck } from "lucide-react";
 import { ScoutChart } from "./ScoutChart";
 import { ScoutTable } from "./ScoutTable";
 import type { ScoutMetric, ScoutChartData } from '@/core/hooks/useScoutDashboard';
 import type { Scout } from '@/game-template/gamification';
+import { useLocalStorage } from '@/core/hooks/useLocalStorage';
+import { SCOUT_RELIABILITY_WEIGHTING_STORAGE_KEY } from '@/core/lib/scoutReliability';
 
 const iconMap = {
   Trophy,
   Target,
   TrendingUp,
-  Award
+  Award,
+  ShieldCheck
 };
 
 interface ScoutChartSectionProps {
@@ -38,6 +42,7 @@ export function ScoutChartSection({
 }: ScoutChartSectionProps) {
   const selectedMetricInfo = metricOptions.find(opt => opt.key === chartMetric);
   const IconComponent = selectedMetricInfo?.icon ? iconMap[selectedMetricInfo.icon as keyof typeof iconMap] : Trophy;
+  const [weightByReliability, setWeightByReliability] = useLocalStorage(SCOUT_RELIABILITY_WEIGHTING_STORAGE_KEY, false);
 
   return (
     <Card>
@@ -91,6 +96,23 @@ export function ScoutChartSection({
         </div>
       </CardHeader>
       <CardContent>
+        {chartMetric === "reliability" && (
+          <div className="mb-4 space-y-1">
+            <p className="text-sm text-muted-foreground">
+              Scored from match validation against TBA: fuel over/under-counting (split across each alliance's scouts) and per-robot climb mismatches. Run validation on the Match Validation page to update.
+            </p>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="scout-reliability-weighting"
+                checked={weightByReliability}
+                onCheckedChange={(checked) => setWeightByReliability(checked === true)}
+              />
+              <label htmlFor="scout-reliability-weighting" className="text-sm">
+                Weight team point and fuel averages by scout reliability
+              </label>
+            </div>
+          </div>
+        )}
         {loading ? (
           <div className="flex items-center justify-center h-64">
             <div className="text-center">
@@ -103,7 +125,11 @@ export function ScoutChartSection({
             <div className="text-center">
               <Trophy className="h-12 w-12 text-gray-400 mx-auto mb-2" />
               <p className="text-gray-600 dark:text-gray-400">No scout data available</p>
-              <p className="text-sm text-gray-500">Create scouts and make predictions to see the leaderboard</p>
+              <p className="text-sm text-gray-500">
+                {chartMetric === "reliability"
+                  ? "Validate matches for the current event to score scouts"
+                  : "Create scouts and make predictions to see the leaderboard"}
+              </p>
             </div>
           </div>
         ) : (
@@ -2,6 +2,14 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/core/components/ui/badge";
 import { calculateAccuracy } from '@/core/lib/scoutGamificationUtils';
 import type { ScoutChartData, ScoutMetric } from '@/core/hooks/useScoutDashboard';
+import type { ScoutReliability } from '@/core/lib/scoutReliability';
+
+const formatFuelBias = (reliability: ScoutReliability): string => {
+  if (reliability.fuelMatches === 0) return "—";
+  if (reliability.fuelBiasDirection === "none") return "On target";
+  const sign = reliability.fuelBias > 0 ? "+" : "";
+  return `${sign}${reliability.fuelBias}/match (${reliability.fuelBiasDirection})`;
+};
 
 interface ScoutTableProps {
   chartData: ScoutChartData[];
@@ -20,6 +28,12 @@ export function ScoutTable({ chartData, chartMetric, selectedMetricLabel }: Scou
             <TableHead className="text-right min-w-16 font-bold">
               {selectedMetricLabel}
             </TableHead>
+            {chartMetric === "reliability" && (
+              <>
+                <TableHead className="text-right min-w-28">Fuel Bias</TableHead>
+                <TableHead className="text-right min-w-24">Climb Mismatch</TableHead>
+              </>
+            )}
             {chartMetric !== "stakes" && chartMetric !== "totalStakes" && (
               <TableHead className="text-right min-w-16">Stakes</TableHead>
             )}
@@ -63,6 +77,16 @@ export function ScoutTable({ chartData, chartMetric, selectedMetricLabel }: Scou
                 <TableCell className="text-right font-bold text-primary">
                   {chartMetric === "accuracy" ? `${data.value}%` : data.value}
                 </TableCell>
+                {chartMetric === "reliability" && data.reliability && (
+                  <>
+                    <TableCell className="text-right">{formatFuelBias(data.reliability)}</TableCell>
+                    <TableCell className="text-right">
+                      {data.reliability.climbChecks > 0
+                        ? `${Math.round(data.reliability.climbMismatchRate * 100)}% of ${data.reliability.climbChecks}`
+                        : "—"}
+                    </TableCell>
+                  </>
+                )}
                 {chartMetric !== "stakes" && chartMetric !== "totalStakes" && (
                   <TableCell className="text-right">{scout.stakes}</TableCell>
                 )}
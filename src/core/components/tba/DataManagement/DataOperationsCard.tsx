@@ -13,6 +13,7 @@ import {
   AlertCircle,
   CheckCircle,
   BarChart3,
+  Medal,
 } from 'lucide-react';
 import { type TBADataType } from '../EventConfiguration/DataTypeSelector';
 
@@ -25,6 +26,7 @@ interface DataOperationsCardProps {
   matchResultsLoading: boolean;
   validationLoading: boolean;
   eventTeamsLoading: boolean;
+  eventStandingsLoading: boolean;
   pitDataLoading: boolean;
   debugNexusLoading: boolean;
   onLoadMatchData: () => void;
@@ -32,6 +34,7 @@ interface DataOperationsCardProps {
   onLoadValidationData: () => void;
   onLoadStatboticsEPA: () => void;
   onLoadEventTeams: () => void;
+  onLoadEventStandings: () => void;
   onLoadPitData: () => void;
   onDebugNexus: () => void;
 }
@@ -45,6 +48,7 @@ export const DataOperationsCard: React.FC<DataOperationsCardProps> = ({
   matchResultsLoading,
   validationLoading,
   eventTeamsLoading,
+  eventStandingsLoading,
   pitDataLoading,
   debugNexusLoading,
   onLoadMatchData,
@@ -52,6 +56,7 @@ export const DataOperationsCard: React.FC<DataOperationsCardProps> = ({
   onLoadValidationData,
   onLoadStatboticsEPA,
   onLoadEventTeams,
+  onLoadEventStandings,
   onLoadPitData,
   onDebugNexus,
 }) => {
@@ -86,6 +91,15 @@ export const DataOperationsCard: React.FC<DataOperationsCardProps> = ({
           requiresTBA: true,
           requiresNexus: false,
         };
+      case 'event-standings':
+        return {
+          title: 'Load Rankings & Alliances',
+          description: 'Download official rankings, selected alliances, the team list and playoff results from The Blue Alliance',
+          icon: Medal,
+          requiresEvent: true,
+          requiresTBA: true,
+          requiresNexus: false,
+        };
       case 'match-validation-data':
         return {
           title: 'Load Match Validation Data',
@@ -221,6 +235,26 @@ export const DataOperationsCard: React.FC<DataOperationsCardProps> = ({
             )}
           </Button>
         );
+      case 'event-standings':
+        return (
+          <Button
+            className="w-full h-12"
+            onClick={onLoadEventStandings}
+            disabled={eventStandingsLoading || !canLoad}
+          >
+            {eventStandingsLoading ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Loading Rankings & Alliances...
+              </>
+            ) : (
+              <>
+                <Medal className="h-4 w-4 mr-2" />
+                Load Rankings & Alliances
+              </>
+            )}
+          </Button>
+        );
       case 'statbotics-epa':
         return (
           <Button
@@ -9,9 +9,10 @@ import {
   Bug,
   CheckCircle,
   BarChart3,
+  Medal,
 } from 'lucide-react';
 
-export type TBADataType = 'match-data' | 'match-results' | 'match-validation-data' | 'statbotics-epa' | 'event-teams' | 'pit-data' | 'debug-nexus';
+export type TBADataType = 'match-data' | 'match-results' | 'match-validation-data' | 'statbotics-epa' | 'event-teams' | 'event-standings' | 'pit-data' | 'debug-nexus';
 
 interface DataTypeSelectorProps {
   dataType: TBADataType;
@@ -49,6 +50,12 @@ const dataTypeOptions = [
     icon: Users,
     description: 'Download team list participating in the event'
   },
+  {
+    value: 'event-standings' as const,
+    label: 'Rankings & Alliances',
+    icon: Medal,
+    description: 'Download official rankings, selected alliances and playoff results'
+  },
   {
     value: 'pit-data' as const,
     label: 'Pit Data',
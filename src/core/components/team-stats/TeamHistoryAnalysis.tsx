@@ -0,0 +1,274 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/core/components/ui/card";
+import { Badge } from "@/core/components/ui/badge";
+import { GenericSelector } from "@/core/components/ui/generic-selector";
+import { ChartContainer } from "@/core/components/ui/chart";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/core/components/ui/table";
+import { StatCard } from "./StatCard";
+import { useTeamHistory } from "@/core/hooks/useTeamHistory";
+import {
+    TEAM_HISTORY_METRICS,
+    projectTeamMetric,
+    projectTrend,
+    type TeamHistoryMetric,
+} from "@/core/lib/teamHistory";
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { History } from "lucide-react";
+
+interface TeamHistoryAnalysisProps {
+    teamNumber: string;
+}
+
+const PROJECTION_WEEKS = ["1", "2", "3", "4", "5", "6", "7", "8", "9"];
+
+const BASIS_LABELS = {
+    'field-relative': 'Field-relative',
+    'team-trend': 'Team trend',
+    'latest-event': 'Latest event',
+} as const;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const chartConfig = {
+    team: { label: "Team", color: "hsl(210, 82%, 54%)" },
+    field: { label: "Field average", color: "hsl(0, 0%, 60%)" },
+    projected: { label: "Projected", color: "hsl(280, 68%, 64%)" },
+};
+
+/**
+ * TeamHistoryAnalysis - How a team evolved across its events
+ *
+ * Shows one season at a time: per-event values next to the field average,
+ * the improvement rate per week, and a projection to a chosen season week.
+ */
+export const TeamHistoryAnalysis = ({ teamNumber }: TeamHistoryAnalysisProps) => {
+    const { seasons, isLoading } = useTeamHistory(Number.parseInt(teamNumber, 10) || undefined);
+    const [selectedSeason, setSelectedSeason] = useState("");
+    const [selectedMetric, setSelectedMetric] = useState<TeamHistoryMetric>("scoutedPoints");
+    const [projectionWeek, setProjectionWeek] = useState("5");
+
+    const season = seasons.find(s => s.season === selectedSeason) ?? seasons[seasons.length - 1];
+
+    if (!season) {
+        return (
+            <Card>
+                <CardContent className="flex flex-col items-center justify-center py-12">
+                    <p className="text-muted-foreground">
+                        {isLoading ? "Loading event history..." : "No event history for this team"}
+                    </p>
+                </CardContent>
+            </Card>
+        );
+    }
+
+    const availableMetrics = TEAM_HISTORY_METRICS.filter(metric =>
+        season.events.some(point => typeof point.values[metric.key] === 'number')
+    );
+    const firstMetric = availableMetrics[0] ?? TEAM_HISTORY_METRICS[0]!;
+    const metric = availableMetrics.find(m => m.key === selectedMetric) ?? firstMetric;
+
+    const week = Number.parseInt(projectionWeek, 10);
+    const projection = projectTeamMetric(season, metric.key, week);
+    const trend = season.trends[metric.key];
+    const fieldTrend = season.fieldTrends[metric.key];
+    const latest = [...season.events].reverse().find(point => point.comparisons[metric.key]);
+    const latestComparison = latest?.comparisons[metric.key];
+
+    const chartRows = new Map<number, Record<string, number | string>>();
+    for (const point of season.events) {
+        if (point.week === null) continue;
+        const value = point.values[metric.key];
+        const row = chartRows.get(point.week) ?? { week: point.week, label: `Wk ${point.week}` };
+        if (typeof value === 'number') row.team = round1(value);
+        const comparison = point.comparisons[metric.key];
+        if (comparison) row.field = round1(comparison.fieldAverage);
+        chartRows.set(point.week, row);
+    }
+    if (fieldTrend) {
+        for (const row of chartRows.values()) {
+            if (row.field === undefined) row.field = round1(projectTrend(fieldTrend, row.week as number));
+        }
+    }
+    if (projection) {
+        const row = chartRows.get(week) ?? { week, label: `Wk ${week}` };
+        row.projected = round1(projection.value);
+        chartRows.set(week, row);
+
+        // Connect the projection to the latest dated event
+        const lastDated = [...season.events].reverse().find(point => point.week !== null && typeof point.values[metric.key] === 'number');
+        if (lastDated && lastDated.week !== week) {
+            const lastRow = chartRows.get(lastDated.week as number);
+            if (lastRow) lastRow.projected = lastRow.team as number;
+        }
+    }
+    const chartData = [...chartRows.values()].sort((a, b) => (a.week as number) - (b.week as number));
+
+    return (
+        <div className="space-y-6">
+            <Card>
+                <CardHeader className="space-y-4">
+                    <div className="flex flex-col gap-3 lg:flex-row lg:items-start lg:justify-between">
+                        <div>
+                            <CardTitle className="flex items-center gap-2">
+                                <History className="h-5 w-5" />
+                                Event History
+                            </CardTitle>
+                            <CardDescription>
+                                {metric.source} across {season.events.length} event{season.events.length === 1 ? '' : 's'}. Week 1 is the earliest {season.season} event on this device.
+                            </CardDescription>
+                        </div>
+
+                        <div className="flex flex-wrap items-center gap-2">
+                            {seasons.length > 1 && (
+                                <GenericSelector
+                                    label="Select Season"
+                                    value={season.season}
+                                    availableOptions={seasons.map(s => s.season)}
+                                    onValueChange={setSelectedSeason}
+                                    className="w-28"
+                                />
+                            )}
+                            <GenericSelector
+                                label="Select Metric"
+                                value={metric.key}
+                                availableOptions={availableMetrics.map(m => m.key)}
+                                onValueChange={(key: string) => setSelectedMetric(key as TeamHistoryMetric)}
+                                displayFormat={(key: string) => TEAM_HISTORY_METRICS.find(m => m.key === key)?.label || key}
+                                className="w-48"
+                            />
+                            <GenericSelector
+                                label="Project to Week"
+                                value={projectionWeek}
+                                availableOptions={PROJECTION_WEEKS}
+                                onValueChange={setProjectionWeek}
+                                displayFormat={(value: string) => `Project to week ${value}`}
+                                className="w-48"
+                            />
+                        </div>
+                    </div>
+                </CardHeader>
+                <CardContent>
+                    <div className="h-75 w-full">
+                        <ChartContainer config={chartConfig} className="h-full w-full aspect-auto!">
+                            <div className="h-full w-full">
+                                <ResponsiveContainer width="100%" height="100%">
+                                    <LineChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                                        <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                                        <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                                        <YAxis
+                                            tick={{ fontSize: 12 }}
+                                            label={{ value: metric.label, angle: -90, position: 'insideLeft' }}
+                                        />
+                                        <Tooltip />
+                                        <Line
+                                            type="monotone"
+                                            dataKey="field"
+                                            name="Field average"
+                                            stroke={chartConfig.field.color}
+                                            strokeDasharray="4 4"
+                                            strokeWidth={2}
+                                            dot={false}
+                                            connectNulls
+                                        />
+                                        <Line
+                                            type="monotone"
+                                            dataKey="team"
+                                            name={`Team ${teamNumber}`}
+                                            stroke={chartConfig.team.color}
+                                            strokeWidth={2}
+                                            dot={{ r: 4, fill: chartConfig.team.color }}
+                                            connectNulls
+                                        />
+                                        <Line
+                                            type="linear"
+                                            dataKey="projected"
+                                            name="Projected"
+                                            stroke={chartConfig.projected.color}
+                                            strokeDasharray="6 4"
+                                            strokeWidth={2}
+                                            dot={{ r: 4, fill: chartConfig.projected.color }}
+                                            connectNulls
+                                        />
+                                    </LineChart>
+                                </ResponsiveContainer>
+                            </div>
+                        </ChartContainer>
+                    </div>
+                </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <StatCard
+                    title="Improvement Rate"
+                    value={trend ? `${trend.slope >= 0 ? '+' : ''}${round1(trend.slope)} / wk` : 'N/A'}
+                    subtitle={trend ? `Fit over ${trend.sampleSize} events` : 'Needs events in two different weeks'}
+                    type="text"
+                    color={trend && trend.slope < 0 ? 'red' : 'green'}
+                />
+                <StatCard
+                    title="Latest vs Field"
+                    value={latestComparison ? `${Math.round(latestComparison.percentile)}th pct` : 'N/A'}
+                    subtitle={latestComparison
+                        ? `${round1(latestComparison.fieldRatio)}x field average at ${latest?.eventKey}`
+                        : 'No field data'}
+                    type="text"
+                    color="blue"
+                />
+                <StatCard
+                    title={`Projected Week ${week}`}
+                    value={projection ? round1(projection.value) : 'N/A'}
+                    subtitle={projection
+                        ? `${BASIS_LABELS[projection.basis]}${projection.fieldRatio !== null ? ` · ${round1(projection.fieldRatio)}x field` : ''}`
+                        : undefined}
+                    color="purple"
+                />
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Events</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Event</TableHead>
+                                <TableHead>Week</TableHead>
+                                <TableHead>Scouted</TableHead>
+                                <TableHead>TBA Record</TableHead>
+                                <TableHead>{metric.label}</TableHead>
+                                <TableHead>vs Field</TableHead>
+                                <TableHead>Percentile</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {season.events.map(point => {
+                                const value = point.values[metric.key];
+                                const comparison = point.comparisons[metric.key];
+                                return (
+                                    <TableRow key={point.eventKey}>
+                                        <TableCell className="font-medium">{point.eventKey}</TableCell>
+                                        <TableCell>{point.week ?? '—'}</TableCell>
+                                        <TableCell>{point.matchCount > 0 ? `${point.matchCount} matches` : '—'}</TableCell>
+                                        <TableCell>
+                                            {point.record
+                                                ? `${point.record.wins}-${point.record.losses}-${point.record.ties}`
+                                                : '—'}
+                                        </TableCell>
+                                        <TableCell>{typeof value === 'number' ? round1(value) : '—'}</TableCell>
+                                        <TableCell>{comparison ? `${round1(comparison.fieldRatio)}x` : '—'}</TableCell>
+                                        <TableCell>
+                                            {comparison ? (
+                                                <Badge variant="outline">{Math.round(comparison.percentile)}%</Badge>
+                                            ) : '—'}
+                                        </TableCell>
+                                    </TableRow>
+                                );
+                            })}
+                        </TableBody>
+                    </Table>
+                </CardContent>
+            </Card>
+        </div>
+    );
+};
@@ -1,3 +1,4 @@
 export { StatCard } from './StatCard';
 export { ProgressCard } from './ProgressCard';
 export { ConfiguredStatsSections } from './ConfiguredStatsSections';
+export { TeamHistoryAnalysis } from './TeamHistoryAnalysis';
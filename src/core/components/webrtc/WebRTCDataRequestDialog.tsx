@@ -7,10 +7,14 @@ import { useState } from 'react';
 import { Download, Filter, Info } from 'lucide-react';
 import { useWebRTC } from '@/core/contexts/WebRTCContext';
 import { buildPitAssignmentsTransferPayload } from '@/core/lib/pitAssignmentTransfer';
+import { buildMatchAssignmentsTransferPayload } from '@/core/lib/matchAssignmentTransfer';
 import { loadScoutingData } from '@/core/lib/scoutingDataUtils';
-import { loadPitScoutingData } from '@/core/lib/pitScoutingUtils';
+import { exportPitPhotoPayload, loadPitScoutingData } from '@/core/lib/pitScoutingUtils';
 import { gamificationDB as gameDB } from '@/game-template/gamification';
 import { applyFilters, filterPitScoutingEntries, filterScoutProfilePayload, formatTransferMatchLabel } from '@/core/lib/dataFiltering';
+import { exportSyncDelta } from '@/core/db/database';
+import { advanceSyncCursor, getSyncCursor } from '@/core/db/syncLogDatabase';
+import { mergeClocks, type SyncDeltaPayload } from '@/core/lib/syncLog';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -24,7 +28,7 @@ import {
 
 export function WebRTCDataRequestDialog() {
   const context = useWebRTC();
-  const { dataRequested, setDataRequested, sendData, requestFilters, requestDataType } = context;
+  const { dataRequested, setDataRequested, sendData, requestFilters, requestDataType, requestSyncState, requestPhotoManifest } = context;
   const [transferStatus, setTransferStatus] = useState<string>('');
 
   const getSafeJsonSize = (value: unknown): number => {
@@ -43,10 +47,13 @@ export function WebRTCDataRequestDialog() {
     switch (dataType) {
       case 'scouting': return 'Scouting Data';
       case 'pit-scouting': return 'Pit Scouting Data';
+      case 'pit-photos': return 'Pit Photos';
       case 'pit-assignments': return 'Pit Assignments';
+      case 'match-assignments': return 'Match Assignments';
       case 'match': return 'Match Schedule';
       case 'scout': return 'Scout Profiles';
       case 'combined': return 'Combined Data';
+      case 'sync-delta': return 'Changes Since Last Sync';
       default: return 'Data';
     }
   };
@@ -56,6 +63,7 @@ export function WebRTCDataRequestDialog() {
     try {
       let data: any;
       let originalCount = 0;
+      let sentSyncDelta: SyncDeltaPayload | null = null;
 
       // Load data based on requested type
       switch (requestDataType) {
@@ -90,6 +98,18 @@ export function WebRTCDataRequestDialog() {
           break;
         }
 
+        case 'pit-photos': {
+          // The lead sends its manifest, so only photos it lacks are sent
+          const payload = await exportPitPhotoPayload({
+            missingFrom: requestPhotoManifest ?? {},
+            filters: requestFilters ?? undefined,
+          });
+          data = payload;
+          originalCount = payload.photos.length;
+          console.log('📊 Loaded pit photos:', originalCount, 'photos');
+          break;
+        }
+
         case 'pit-assignments': {
           const eventKey = localStorage.getItem('eventKey') || localStorage.getItem('eventName') || '';
           const sourceScoutName = localStorage.getItem('currentScout') || 'Scout';
@@ -104,6 +124,20 @@ export function WebRTCDataRequestDialog() {
           break;
         }
 
+        case 'match-assignments': {
+          const eventKey = localStorage.getItem('eventKey') || localStorage.getItem('eventName') || '';
+          const sourceScoutName = localStorage.getItem('currentScout') || 'Scout';
+
+          if (!eventKey) {
+            throw new Error('No active event found for match assignment transfer');
+          }
+
+          data = buildMatchAssignmentsTransferPayload(eventKey, sourceScoutName);
+          originalCount = data.assignments.length;
+          console.log('📊 Loaded match assignments:', originalCount, 'assignments');
+          break;
+        }
+
         case 'match': {
           const matchDataStr = localStorage.getItem('matchData');
           const matches = matchDataStr ? JSON.parse(matchDataStr) : [];
@@ -162,6 +196,16 @@ export function WebRTCDataRequestDialog() {
           break;
         }
 
+        case 'sync-delta': {
+          // The lead sends its clock, so the delta is exactly what it is missing
+          const cursor = requestSyncState ? await getSyncCursor(requestSyncState.deviceId) : undefined;
+          sentSyncDelta = await exportSyncDelta(mergeClocks(cursor?.seen ?? {}, requestSyncState?.clock ?? {}));
+          data = sentSyncDelta;
+          originalCount = sentSyncDelta.changes.length;
+          console.log('📊 Loaded sync delta:', originalCount, 'changes');
+          break;
+        }
+
         default:
           throw new Error(`Unknown data type: ${requestDataType}`);
       }
@@ -173,6 +217,14 @@ export function WebRTCDataRequestDialog() {
       setTransferStatus(`Sending ${getDataTypeLabel(requestDataType)}...`);
       await sendData(data, requestDataType);
 
+      if (sentSyncDelta && requestSyncState) {
+        await advanceSyncCursor(
+          requestSyncState.deviceId,
+          requestSyncState.deviceName,
+          mergeClocks(sentSyncDelta.since, sentSyncDelta.clock)
+        );
+      }
+
       // Show success
       setTransferStatus(`✅ Sent ${getDataTypeLabel(requestDataType)}`);
 
@@ -12,7 +12,15 @@ import {
   type PitAssignmentImportStrategy,
   type PitAssignmentTransferPayload,
 } from '@/core/lib/pitAssignmentTransfer';
-import { pitDB, saveScoutingEntries } from '@/core/db/database';
+import {
+  hasMatchAssignmentImportConflict,
+  importMatchAssignmentsPayload,
+  type MatchAssignmentTransferPayload,
+} from '@/core/lib/matchAssignmentTransfer';
+import { importSyncDelta, loadPitPhotoManifest, savePitScoutingEntries, saveScoutingEntries } from '@/core/db/database';
+import { importPitPhotoPayload } from '@/core/lib/pitScoutingUtils';
+import { isPitPhotoTransferPayload } from '@/core/lib/pitPhotos';
+import { isSyncDeltaPayload } from '@/core/lib/syncLog';
 import { gamificationDB as gameDB } from '@/game-template/gamification';
 import { normalizeTransferredScoutProfile } from '@/core/lib/normalizeTransferredScoutProfile';
 import { normalizeTransferredMatchPrediction } from '@/core/lib/normalizeTransferredMatchPrediction';
@@ -44,10 +52,13 @@ export function WebRTCPushedDataDialog() {
     switch (dataType) {
       case 'scouting': return 'Scouting Data';
       case 'pit-scouting': return 'Pit Scouting Data';
+      case 'pit-photos': return 'Pit Photos';
       case 'pit-assignments': return 'Pit Assignments';
+      case 'match-assignments': return 'Match Assignments';
       case 'match': return 'Match Schedule';
       case 'scout': return 'Scout Profiles';
       case 'combined': return 'Combined Data';
+      case 'sync-delta': return 'Changes Since Last Sync';
       default: return 'Data';
     }
   };
@@ -69,7 +80,9 @@ export function WebRTCPushedDataDialog() {
         if (data.entries && Array.isArray(data.entries)) {
           parts.push(`${data.entries.length} entries`);
         }
-      } else if (pushedDataType === 'pit-assignments') {
+      } else if (pushedDataType === 'pit-photos') {
+        if (Array.isArray(data.photos)) parts.push(`${data.photos.length} photos`);
+      } else if (pushedDataType === 'pit-assignments' || pushedDataType === 'match-assignments') {
         if (data.assignments && Array.isArray(data.assignments)) {
           parts.push(`${data.assignments.length} assignments`);
         }
@@ -79,6 +92,8 @@ export function WebRTCPushedDataDialog() {
       } else if (pushedDataType === 'match') {
         // Match data
         if (data.matches) parts.push(`${Array.isArray(data.matches) ? data.matches.length : 0} matches`);
+      } else if (pushedDataType === 'sync-delta') {
+        if (Array.isArray(data.changes)) parts.push(`${data.changes.length} changes`);
       } else if (pushedDataType === 'scout') {
         // Scout profile data
         if (data.scouts) parts.push(`${Array.isArray(data.scouts) ? data.scouts.length : 0} scouts`);
@@ -192,13 +207,26 @@ export function WebRTCPushedDataDialog() {
         const entries = data.entries;
 
         if (entries && Array.isArray(entries)) {
-          for (const entry of entries) {
-            await pitDB.pitScoutingData.put(entry);
-          }
+          await savePitScoutingEntries(entries);
           importedCount = entries.length;
           console.log('✅ Imported', importedCount, 'pit scouting entries');
         }
 
+      } else if (pushedDataType === 'pit-photos') {
+        if (!isPitPhotoTransferPayload(pushedData)) {
+          throw new Error('Invalid pit photos');
+        }
+        const result = await importPitPhotoPayload(pushedData);
+        importedCount = result.added + result.updated;
+        console.log('✅ Imported pit photos:', result);
+
+        // Tell the lead what we now hold, so its next push only sends what is missing
+        sendControlMessage({
+          type: 'push-imported',
+          dataType: pushedDataType,
+          photoManifest: await loadPitPhotoManifest(),
+        });
+
       } else if (pushedDataType === 'pit-assignments') {
         const currentScoutName = localStorage.getItem('currentScout') || '';
         if (!currentScoutName.trim()) {
@@ -226,6 +254,37 @@ export function WebRTCPushedDataDialog() {
         importedCount = result.importedCount;
         console.log('✅ Imported pit assignments:', result);
 
+      } else if (pushedDataType === 'match-assignments') {
+        const currentScoutName = localStorage.getItem('currentScout') || '';
+        const payload = pushedData as MatchAssignmentTransferPayload;
+        if (!resolvedPitStrategy && hasMatchAssignmentImportConflict(payload)) {
+          setImportStatus('');
+          setPitImportChoiceOpen(true);
+          return;
+        }
+
+        const result = importMatchAssignmentsPayload(payload, currentScoutName, resolvedPitStrategy);
+
+        if (result.strategy === 'cancel') {
+          setImportStatus('Import canceled');
+          setTimeout(() => {
+            setImportStatus('');
+            setDataPushed(false);
+          }, 1200);
+          return;
+        }
+
+        importedCount = result.importedCount;
+        console.log('✅ Imported match assignments:', result);
+
+      } else if (pushedDataType === 'sync-delta') {
+        if (!isSyncDeltaPayload(pushedData)) {
+          throw new Error('Invalid sync changes');
+        }
+        const result = await importSyncDelta(pushedData);
+        importedCount = result.applied + result.deleted;
+        console.log('✅ Applied sync changes:', result);
+
       } else if (pushedDataType === 'match') {
         // Import match data
         const data = pushedData as any;
@@ -337,7 +396,7 @@ export function WebRTCPushedDataDialog() {
               </div>
 
               <p className="text-sm text-muted-foreground">
-                Accepting will import this data now. Pit assignments will prompt you to replace or merge when needed.
+                Accepting will import this data now. Pit and match assignments will prompt you to replace or merge when needed.
               </p>
             </AlertDialogDescription>
           </AlertDialogHeader>
@@ -368,9 +427,9 @@ export function WebRTCPushedDataDialog() {
       <AlertDialog open={pitImportChoiceOpen}>
         <AlertDialogContent className="max-w-[calc(100vw-2rem)]">
           <AlertDialogHeader>
-            <AlertDialogTitle>Pit Assignments Already Exist</AlertDialogTitle>
+            <AlertDialogTitle>{getDataTypeLabel(pushedDataType)} Already Exist</AlertDialogTitle>
             <AlertDialogDescription className="space-y-2">
-              <p>You already have pit assignments for this event.</p>
+              <p>You already have {getDataTypeLabel(pushedDataType).toLowerCase()} for this event.</p>
               <p>Choose how to import incoming assignments:</p>
             </AlertDialogDescription>
           </AlertDialogHeader>
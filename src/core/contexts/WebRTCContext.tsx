@@ -7,6 +7,10 @@ import { createContext, useContext, useRef, useState, useCallback, useEffect } f
 import type { ReactNode } from 'react';
 import type { DataFilters } from '@/core/lib/dataFiltering';
 import { useWebRTCSignaling } from '@/core/hooks/useWebRTCSignaling';
+import { getLocalSyncState } from '@/core/db/syncLogDatabase';
+import type { SyncPeerState } from '@/core/lib/syncLog';
+import { loadPitPhotoManifest } from '@/core/db/database';
+import { isPitPhotoManifest, setPeerPhotoManifest, type PitPhotoManifest } from '@/core/lib/pitPhotos';
 
 // Utility: Generate UUID with fallback for non-secure contexts
 function generateUUID(): string {
@@ -188,7 +192,7 @@ const sendMessagesWithBackpressure = async (
 };
 
 // Data types that can be transferred
-export type TransferDataType = 'scouting' | 'pit-scouting' | 'pit-assignments' | 'match' | 'scout' | 'combined';
+export type TransferDataType = 'scouting' | 'pit-scouting' | 'pit-photos' | 'pit-assignments' | 'match-assignments' | 'match' | 'scout' | 'combined' | 'sync-delta';
 
 // Types
 export interface ConnectedScout {
@@ -231,6 +235,10 @@ interface WebRTCContextValue {
   startAsScout: (scoutName: string, offerString: string) => Promise<string>;
   requestFilters: DataFilters | null;
   requestDataType: TransferDataType | null;
+  /** The lead's sync state, sent with 'sync-delta' requests so scouts send exactly what it lacks */
+  requestSyncState: SyncPeerState | null;
+  /** The lead's photo manifest, sent with 'pit-photos' requests so scouts only send photos it lacks */
+  requestPhotoManifest: PitPhotoManifest | null;
   sendData: (data: unknown, dataType?: TransferDataType) => Promise<void>;
   sendControlMessage: (message: { type: string; [key: string]: unknown }) => void;
   dataRequested: boolean;
@@ -261,6 +269,10 @@ interface WebRTCContextValue {
     sendIceCandidate: (candidate: RTCIceCandidate) => Promise<void>;
   } | null;
 
+  // Live strategy whiteboard (either side). Received messages are dispatched
+  // as a 'webrtc-strategy-whiteboard' window event.
+  sendStrategyMessage: (payload: unknown) => void;
+
   // Cleanup
   disconnectScout: (scoutId: string) => void;
   disconnectAll: () => void;
@@ -293,6 +305,8 @@ export function WebRTCProvider({ children }: { children: ReactNode }) {
   const [dataRequested, setDataRequested] = useState(false);
   const [requestFilters, setRequestFilters] = useState<DataFilters | null>(null);
   const [requestDataType, setRequestDataType] = useState<TransferDataType | null>(null);
+  const [requestSyncState, setRequestSyncState] = useState<SyncPeerState | null>(null);
+  const [requestPhotoManifest, setRequestPhotoManifest] = useState<PitPhotoManifest | null>(null);
   const [dataPushed, setDataPushed] = useState(false);
   const [pushedData, setPushedData] = useState<unknown | null>(null);
   const [pushedDataType, setPushedDataType] = useState<TransferDataType | null>(null);
@@ -395,6 +409,26 @@ export function WebRTCProvider({ children }: { children: ReactNode }) {
     setConnectedScouts([...connectedScoutsRef.current]);
   }, []);
   
+  // Strategy whiteboard messages go to the Match Strategy page via a window event.
+  // The lead also relays a scout's messages to every other scout, so a session
+  // started on any device reaches the whole room.
+  const handleStrategyMessage = useCallback((scoutName: string, payload: unknown, rawMessage: string) => {
+    window.dispatchEvent(new CustomEvent('webrtc-strategy-whiteboard', {
+      detail: { from: scoutName, payload }
+    }));
+
+    if (scoutName === 'lead') return;
+
+    const messages = buildChunkMessages(rawMessage, undefined, (completePayload) => completePayload);
+    connectedScoutsRef.current.forEach(scout => {
+      if (scout.name === scoutName || !scout.dataChannel || scout.dataChannel.readyState !== 'open') return;
+      void sendMessagesWithBackpressure(scout.dataChannel, messages, `strategy relay to ${scout.name}`)
+        .catch((error) => {
+          console.error(`❌ Failed relaying strategy message to ${scout.name}:`, error);
+        });
+    });
+  }, []);
+
   // Handle received message (with chunk reassembly)
   const handleReceivedMessage = useCallback((scoutName: string, rawMessage: string) => {
     try {
@@ -434,6 +468,19 @@ export function WebRTCProvider({ children }: { children: ReactNode }) {
         return;
       }
       
+      // A scout imported pushed photos and reported the photos it now holds
+      if (message.type === 'push-imported') {
+        if (isPitPhotoManifest(message.photoManifest)) {
+          setPeerPhotoManifest(scoutName, message.photoManifest);
+        }
+        return;
+      }
+
+      if (message.type === 'strategy-whiteboard') {
+        handleStrategyMessage(scoutName, message.payload, rawMessage);
+        return;
+      }
+      
       if (message.type === 'complete') {
         // Single complete message
         const data = JSON.parse(message.data);
@@ -470,6 +517,8 @@ export function WebRTCProvider({ children }: { children: ReactNode }) {
             setPushedData(parsedData.data);
             setPushedDataType(parsedData.dataType);
             setDataPushed(true);
+          } else if (parsedData.type === 'strategy-whiteboard') {
+            handleStrategyMessage(scoutName, parsedData.payload, completeData);
           } else {
             // Regular data transfer
             setReceivedData(prev => [...prev, { 
@@ -500,7 +549,7 @@ export function WebRTCProvider({ children }: { children: ReactNode }) {
       console.error('Raw message length:', rawMessage.length);
       console.error('Raw message preview:', rawMessage.substring(0, 200));
     }
-  }, []);
+  }, [handleStrategyMessage]);
 
   // LEAD: Create offer for a specific scout
   const createOfferForScout = useCallback(async (scoutName: string): Promise<{ scoutId: string; offer: string }> => {
@@ -737,18 +786,32 @@ export function WebRTCProvider({ children }: { children: ReactNode }) {
     setRequestFilters(filters || null);
     setRequestDataType(dataType || 'scouting');
     
-    connectedScoutsRef.current.forEach(scout => {
-      if (scout.dataChannel && scout.dataChannel.readyState === 'open') {
-        console.log(`📤 Sending ${dataType || 'scouting'} request to ${scout.name}`);
-        scout.dataChannel.send(JSON.stringify({ 
-          type: 'request-data',
-          filters: filters || null,
-          dataType: dataType || 'scouting'
-        }));
-      } else {
-        console.warn(`⚠️ Data channel not open for ${scout.name}`);
-      }
-    });
+    const syncState = dataType === 'sync-delta' ? getLocalSyncState() : null;
+
+    const sendRequests = (photoManifest: PitPhotoManifest | null) => {
+      connectedScoutsRef.current.forEach(scout => {
+        if (scout.dataChannel && scout.dataChannel.readyState === 'open') {
+          console.log(`📤 Sending ${dataType || 'scouting'} request to ${scout.name}`);
+          scout.dataChannel.send(JSON.stringify({ 
+            type: 'request-data',
+            filters: filters || null,
+            dataType: dataType || 'scouting',
+            syncState,
+            photoManifest
+          }));
+        } else {
+          console.warn(`⚠️ Data channel not open for ${scout.name}`);
+        }
+      });
+    };
+
+    if (dataType === 'pit-photos') {
+      loadPitPhotoManifest()
+        .then(sendRequests)
+        .catch(error => console.error('❌ Failed to load photo manifest:', error));
+    } else {
+      sendRequests(null);
+    }
   }, []);
 
   // LEAD: Request data from a specific scout
@@ -764,14 +827,26 @@ export function WebRTCProvider({ children }: { children: ReactNode }) {
       console.log('📋 With filters:', filters);
     }
 
-    if (scout.dataChannel && scout.dataChannel.readyState === 'open') {
-      scout.dataChannel.send(JSON.stringify({ 
-        type: 'request-data',
-        filters: filters || null,
-        dataType: dataType || 'scouting'
-      }));
+    const sendRequest = (photoManifest: PitPhotoManifest | null) => {
+      if (scout.dataChannel && scout.dataChannel.readyState === 'open') {
+        scout.dataChannel.send(JSON.stringify({ 
+          type: 'request-data',
+          filters: filters || null,
+          dataType: dataType || 'scouting',
+          syncState: dataType === 'sync-delta' ? getLocalSyncState() : null,
+          photoManifest
+        }));
+      } else {
+        console.warn(`⚠️ Data channel not open for ${scout.name}`);
+      }
+    };
+
+    if (dataType === 'pit-photos') {
+      loadPitPhotoManifest()
+        .then(sendRequest)
+        .catch(error => console.error('❌ Failed to load photo manifest:', error));
     } else {
-      console.warn(`⚠️ Data channel not open for ${scout.name}`);
+      sendRequest(null);
     }
   }, []);
 
@@ -921,6 +996,8 @@ export function WebRTCProvider({ children }: { children: ReactNode }) {
               setRequestFilters(null);
             }
             setRequestDataType(message.dataType || 'scouting');
+            setRequestSyncState(message.syncState ?? null);
+            setRequestPhotoManifest(message.photoManifest ?? null);
             setDataRequested(true);
             return; // Control message handled
           }
@@ -1013,6 +1090,24 @@ export function WebRTCProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
+  // Either side: send a live strategy whiteboard message. The lead sends to every
+  // connected scout; a scout sends to the lead, which relays it to the others.
+  const sendStrategyMessage = useCallback((payload: unknown) => {
+    const dataString = safeStringify({ type: 'strategy-whiteboard', payload });
+    const messages = buildChunkMessages(dataString, undefined, (completePayload) => completePayload);
+    const channels = mode === 'scout'
+      ? [scoutDataChannelRef.current]
+      : connectedScoutsRef.current.map(scout => scout.dataChannel);
+
+    channels.forEach(channel => {
+      if (!channel || channel.readyState !== 'open') return;
+      void sendMessagesWithBackpressure(channel, messages, 'strategy whiteboard')
+        .catch((error) => {
+          console.error('❌ Failed sending strategy whiteboard message:', error);
+        });
+    });
+  }, [mode]);
+
   // SCOUT: Send data to lead
   const sendData = useCallback(async (data: unknown, dataType?: TransferDataType): Promise<void> => {
     const dataChannel = scoutDataChannelRef.current;
@@ -1501,6 +1596,8 @@ export function WebRTCProvider({ children }: { children: ReactNode }) {
     pushedDataType,
     requestFilters,
     requestDataType,
+    requestSyncState,
+    requestPhotoManifest,
     connectionStatus,
     shouldAttemptReconnect,
     setShouldAttemptReconnect,
@@ -1518,6 +1615,7 @@ export function WebRTCProvider({ children }: { children: ReactNode }) {
       sendAnswer: signaling.sendAnswer,
       sendIceCandidate: signaling.sendIceCandidate,
     } : null,
+    sendStrategyMessage,
     disconnectScout,
     disconnectAll
   };
@@ -0,0 +1,80 @@
+import Dexie, { type Table } from 'dexie';
+import type { CustomFieldDefinition, CustomFormDefinition, CustomFormRecord } from '@/core/lib/customFormTypes';
+import { createCustomFormId } from '@/core/lib/customForm';
+
+/**
+ * Custom scouting form definitions. Every saved version is kept so a tablet can
+ * tell whether an imported form is newer than the one it is using.
+ */
+export class CustomFormDB extends Dexie {
+  forms!: Table<CustomFormRecord, [string, number]>;
+
+  constructor() {
+    super('CustomFormDB');
+
+    this.version(1).stores({
+      forms: '[formId+version], formId, activatedAt',
+    });
+  }
+}
+
+export const customFormDB = new CustomFormDB();
+
+customFormDB.open().catch((error) => {
+  console.error('Failed to open CustomFormDB:', error);
+});
+
+const toDefinition = (record: CustomFormRecord): CustomFormDefinition => {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { activatedAt, ...definition } = record;
+  return definition;
+};
+
+export const getActiveCustomForm = async (): Promise<CustomFormDefinition | null> => {
+  const record = await customFormDB.forms.orderBy('activatedAt').last();
+  return record ? toDefinition(record) : null;
+};
+
+/**
+ * Save edited fields as the next version of the active form (or a new form).
+ */
+export const saveCustomFormVersion = async (
+  name: string,
+  fields: CustomFieldDefinition[]
+): Promise<CustomFormDefinition> => {
+  const active = await getActiveCustomForm();
+  const formId = active?.formId ?? createCustomFormId();
+  const versions = await customFormDB.forms.where('formId').equals(formId).toArray();
+  const latestVersion = versions.reduce((max, record) => Math.max(max, record.version), 0);
+  const now = Date.now();
+
+  const record: CustomFormRecord = {
+    formId,
+    name: name.trim() || 'Custom Form',
+    version: latestVersion + 1,
+    updatedAt: now,
+    fields,
+    activatedAt: now,
+  };
+
+  await customFormDB.forms.put(record);
+  return toDefinition(record);
+};
+
+export type CustomFormImportResult = 'imported' | 'unchanged' | 'older';
+
+/**
+ * Store a form received from another device and make it the active form.
+ * Older versions of the form already in use are rejected.
+ */
+export const importCustomForm = async (form: CustomFormDefinition): Promise<CustomFormImportResult> => {
+  const active = await getActiveCustomForm();
+
+  if (active && active.formId === form.formId) {
+    if (form.version < active.version) return 'older';
+    if (form.version === active.version) return 'unchanged';
+  }
+
+  await customFormDB.forms.put({ ...form, activatedAt: Date.now() });
+  return 'imported';
+};
@@ -6,7 +6,7 @@
  * 
  * Two separate databases:
  * 1. MatchScoutingDB - Match scouting entries
- * 2. PitScoutingDB - Pit scouting/robot capabilities
+ * 2. PitScoutingDB - Pit scouting/robot capabilities and photos
  */
 
 import Dexie, { type Table } from 'dexie';
@@ -20,16 +20,57 @@ import type {
   PitScoutingEntryBase,
   PitScoutingStats,
 } from '../types';
+import {
+  advanceSyncCursor,
+  attachChangeLog,
+  flushChangeLog,
+  forgetTableChanges,
+  getLocalSyncState,
+  loadChangeLog,
+  loadChangesForRows,
+  mergeIntoDeviceClock,
+  recordRemoteChanges,
+  recordUnloggedRows,
+  withRemoteChanges,
+} from './syncLogDatabase';
+import {
+  clockCovers,
+  createSyncDeltaPayload,
+  planIncomingChanges,
+  selectDeltaChanges,
+  toChangeLogEntry,
+  type SyncChange,
+  type SyncDeltaPayload,
+  type SyncImportResult,
+  type SyncTableName,
+  type VectorClock,
+} from '../lib/syncLog';
+import {
+  buildRevertedEntry,
+  createEntryRevision,
+  createRevisionBatchId,
+  planBatchRevert,
+  type RevisionMeta,
+  type ScoutingEntryRevision,
+} from '../lib/entryRevisions';
+import {
+  buildPitPhotoManifest,
+  legacyRobotPhotoToPitPhoto,
+  type PitPhoto,
+  type PitPhotoManifest,
+} from '../lib/pitPhotos';
 
 // ============================================================================
 // DATABASE CLASSES
 // ============================================================================
 
 /**
- * Main scouting database - stores match scouting entries
+ * Main scouting database - stores match scouting entries and the prior
+ * versions of corrected entries
  */
 export class MatchScoutingDB extends Dexie {
   scoutingData!: Table<ScoutingEntryBase, string>;
+  scoutingRevisions!: Table<ScoutingEntryRevision, string>;
 
   constructor() {
     super('MatchScoutingDB');
@@ -37,14 +78,19 @@ export class MatchScoutingDB extends Dexie {
     this.version(1).stores({
       scoutingData: 'id, teamNumber, matchNumber, allianceColor, scoutName, eventKey, matchKey, timestamp, isCorrected, [teamNumber+eventKey], [scoutName+eventKey+matchNumber]'
     });
+
+    this.version(2).stores({
+      scoutingRevisions: 'id, entryId, batchId, changedAt'
+    });
   }
 }
 
 /**
- * Pit scouting database - stores robot capabilities and measurements
+ * Pit scouting database - stores robot capabilities, measurements and photos
  */
 export class PitScoutingDB extends Dexie {
   pitScoutingData!: Table<PitScoutingEntryBase, string>;
+  pitPhotos!: Table<PitPhoto, string>;
 
   constructor() {
     super('PitScoutingDB');
@@ -52,6 +98,10 @@ export class PitScoutingDB extends Dexie {
     this.version(1).stores({
       pitScoutingData: 'id, teamNumber, eventKey, scoutName, timestamp, [teamNumber+eventKey]'
     });
+
+    this.version(2).stores({
+      pitPhotos: 'id, teamNumber, eventKey, [teamNumber+eventKey], updatedAt'
+    });
   }
 }
 
@@ -71,6 +121,12 @@ pitDB.open().catch(error => {
   console.error('Failed to open PitScoutingDB:', error);
 });
 
+// Record every change for delta sync (see syncLogDatabase.ts)
+attachChangeLog(db.scoutingData, 'scouting');
+attachChangeLog(pitDB.pitScoutingData, 'pit');
+void recordUnloggedRows(db.scoutingData, 'scouting');
+void recordUnloggedRows(pitDB.pitScoutingData, 'pit');
+
 // ============================================================================
 // SCOUTING DATA CRUD OPERATIONS
 // ============================================================================
@@ -168,30 +224,144 @@ export const findExistingScoutingEntry = async <TGameData = Record<string, unkno
 };
 
 /**
- * Update entry with correction metadata
+ * Update entry with correction metadata. The version being replaced is kept
+ * as a revision; pass a batchId to group a bulk correction for undo.
  */
 export const updateScoutingEntryWithCorrection = async <TGameData = Record<string, unknown>>(
   id: string,
   newData: ScoutingEntryBase<TGameData>,
   correctionNotes: string,
-  correctedBy: string
+  correctedBy: string,
+  options: { batchId?: string } = {}
 ): Promise<void> => {
-  const existing = await db.scoutingData.get(id);
-  if (!existing) {
-    throw new Error('Entry not found');
-  }
+  await db.transaction('rw', db.scoutingData, db.scoutingRevisions, async () => {
+    const existing = await db.scoutingData.get(id);
+    if (!existing) {
+      throw new Error('Entry not found');
+    }
 
-  const updatedEntry: Partial<ScoutingEntryBase<Record<string, unknown>>> = {
-    ...newData as ScoutingEntryBase<Record<string, unknown>>,
-    timestamp: Date.now(),
-    isCorrected: true,
-    correctionCount: (existing.correctionCount || 0) + 1,
-    lastCorrectedAt: Date.now(),
-    lastCorrectedBy: correctedBy,
-    correctionNotes: correctionNotes,
-  };
+    const now = Date.now();
+    const updatedEntry: Partial<ScoutingEntryBase<Record<string, unknown>>> = {
+      ...newData as ScoutingEntryBase<Record<string, unknown>>,
+      timestamp: now,
+      isCorrected: true,
+      correctionCount: (existing.correctionCount || 0) + 1,
+      lastCorrectedAt: now,
+      lastCorrectedBy: correctedBy,
+      correctionNotes: correctionNotes,
+    };
+
+    await db.scoutingRevisions.put(createEntryRevision(existing, {
+      changedBy: correctedBy,
+      reason: correctionNotes,
+      batchId: options.batchId,
+      now,
+    }));
+    await db.scoutingData.put(updatedEntry as ScoutingEntryBase<Record<string, unknown>>);
+  });
+};
+
+// ============================================================================
+// REVISION HISTORY
+// ============================================================================
 
-  await db.scoutingData.put(updatedEntry as ScoutingEntryBase<Record<string, unknown>>);
+/**
+ * Keep a version of an entry that is about to be overwritten outside
+ * updateScoutingEntryWithCorrection (e.g. a dual-scout merge)
+ */
+export const recordScoutingEntryRevision = async (
+  previous: ScoutingEntryBase,
+  meta: RevisionMeta
+): Promise<void> => {
+  await db.scoutingRevisions.put(createEntryRevision(previous, meta));
+};
+
+/**
+ * Load every stored prior version of an entry, oldest first
+ */
+export const loadScoutingEntryRevisions = async (entryId: string): Promise<ScoutingEntryRevision[]> => {
+  return await db.scoutingRevisions.where('entryId').equals(entryId).sortBy('changedAt');
+};
+
+/**
+ * Load the revisions written by one bulk correction
+ */
+export const loadRevisionBatch = async (batchId: string): Promise<ScoutingEntryRevision[]> => {
+  return await db.scoutingRevisions.where('batchId').equals(batchId).sortBy('changedAt');
+};
+
+const writeRevertedEntry = async (
+  revision: ScoutingEntryRevision,
+  current: ScoutingEntryBase,
+  revertedBy: string,
+  batchId?: string
+): Promise<void> => {
+  const now = Date.now();
+  const reverted = buildRevertedEntry(revision, current, revertedBy, now);
+  await db.scoutingRevisions.put(createEntryRevision(current, {
+    changedBy: revertedBy,
+    reason: reverted.correctionNotes ?? 'Reverted',
+    kind: 'revert',
+    batchId,
+    now,
+  }));
+  await db.scoutingData.put(reverted);
+};
+
+/**
+ * Restore the version of an entry stored in a revision. The current version
+ * becomes a revision itself, so the revert can be undone the same way.
+ */
+export const revertScoutingEntryRevision = async (revisionId: string, revertedBy: string): Promise<void> => {
+  await db.transaction('rw', db.scoutingData, db.scoutingRevisions, async () => {
+    const revision = await db.scoutingRevisions.get(revisionId);
+    if (!revision) {
+      throw new Error('Revision not found');
+    }
+
+    const current = await db.scoutingData.get(revision.entryId);
+    if (!current) {
+      throw new Error('Entry not found');
+    }
+
+    await writeRevertedEntry(revision, current, revertedBy);
+  });
+};
+
+/**
+ * Undo a whole bulk correction. Entries changed again since the batch (or
+ * deleted) are left alone and counted as skipped.
+ */
+export const revertRevisionBatch = async (
+  batchId: string,
+  revertedBy: string
+): Promise<{ reverted: number; skipped: number }> => {
+  return await db.transaction('rw', db.scoutingData, db.scoutingRevisions, async () => {
+    const batch = await loadRevisionBatch(batchId);
+    const latestByEntry = new Map<string, ScoutingEntryRevision>();
+    for (const entryId of new Set(batch.map(revision => revision.entryId))) {
+      const revisions = await loadScoutingEntryRevisions(entryId);
+      const latest = revisions[revisions.length - 1];
+      if (latest) latestByEntry.set(entryId, latest);
+    }
+
+    const plan = planBatchRevert(batch, latestByEntry);
+    const revertBatchId = createRevisionBatchId('revert');
+    let reverted = 0;
+    let skipped = plan.skipped.length;
+
+    for (const revision of plan.revertible) {
+      const current = await db.scoutingData.get(revision.entryId);
+      if (!current) {
+        skipped++;
+        continue;
+      }
+      await writeRevertedEntry(revision, current, revertedBy, revertBatchId);
+      reverted++;
+    }
+
+    return { reverted, skipped };
+  });
 };
 
 /**
@@ -219,6 +389,8 @@ export const updateScoutingEntryIgnoreForStats = async (
  */
 export const clearAllScoutingData = async (): Promise<void> => {
   await db.scoutingData.clear();
+  await db.scoutingRevisions.clear();
+  await forgetTableChanges('scouting');
 };
 
 // ============================================================================
@@ -349,6 +521,94 @@ export const importScoutingData = async <TGameData = Record<string, unknown>>(
   }
 };
 
+// ============================================================================
+// DELTA SYNC
+// ============================================================================
+
+const getSyncTable = (table: SyncTableName) =>
+  (table === 'scouting' ? db.scoutingData : pitDB.pitScoutingData) as Table<{ id: string }, string>;
+
+/**
+ * Build a delta holding every change a peer with the given clock has not seen.
+ * Pass `{}` to send the whole log.
+ */
+export const exportSyncDelta = async (since: VectorClock = {}): Promise<SyncDeltaPayload> => {
+  // The clock must not run ahead of the log, so finish (or fail on) pending writes first
+  await flushChangeLog();
+  const device = getLocalSyncState();
+  const delta = selectDeltaChanges(await loadChangeLog(), since);
+  const changes: SyncChange[] = [];
+
+  for (const table of ['scouting', 'pit'] as const) {
+    const tableChanges = delta.filter(change => change.table === table);
+    const liveChanges = tableChanges.filter(change => change.kind !== 'delete');
+    const rows = await getSyncTable(table).bulkGet(liveChanges.map(change => change.rowId));
+    const rowsById = new Map(rows.filter(row => !!row).map(row => [row.id, row]));
+
+    for (const change of tableChanges) {
+      if (change.kind === 'delete') {
+        changes.push(change);
+        continue;
+      }
+      // Rows cleared locally since the change was logged are not sent
+      const row = rowsById.get(change.rowId);
+      if (row) {
+        changes.push({ ...change, row: row as unknown as Record<string, unknown> });
+      }
+    }
+  }
+
+  changes.sort((a, b) => a.changedAt - b.changedAt);
+  return createSyncDeltaPayload(device, since, changes);
+};
+
+/**
+ * Apply a delta from a peer. Each row keeps whichever change wins under
+ * compareChanges, so deletes propagate and peers converge on the same rows.
+ */
+export const importSyncDelta = async (payload: SyncDeltaPayload): Promise<SyncImportResult> => {
+  const local = await loadChangesForRows(payload.changes.map(change => [change.table, change.rowId]));
+  const { fresh, toApply } = planIncomingChanges(payload.changes, local);
+  // Only claim the sender's clock if nothing it assumed we had is missing
+  const complete = clockCovers(getLocalSyncState().clock, payload.since);
+  let applied = 0;
+  let deleted = 0;
+
+  for (const table of ['scouting', 'pit'] as const) {
+    const tableChanges = toApply.filter(change => change.table === table);
+    if (tableChanges.length === 0) continue;
+
+    const puts = tableChanges.filter(change => change.kind !== 'delete' && change.row);
+    const deletes = tableChanges.filter(change => change.kind === 'delete');
+    const syncTable = getSyncTable(table);
+
+    await withRemoteChanges(syncTable, async () => {
+      await syncTable.bulkPut(puts.map(change => change.row as unknown as { id: string }));
+      await syncTable.bulkDelete(deletes.map(change => change.rowId));
+    });
+    applied += puts.length;
+    deleted += deletes.length;
+
+    // Peers on older versions still send base64 photos inside pit entries
+    if (table === 'pit') {
+      await extractLegacyRobotPhotos(puts.map(change => change.row as unknown as PitScoutingEntryBase));
+    }
+  }
+
+  await recordRemoteChanges(fresh.map(toChangeLogEntry));
+  if (complete) {
+    mergeIntoDeviceClock(payload.clock);
+  }
+  await advanceSyncCursor(payload.deviceId, payload.deviceName, payload.clock);
+
+  return {
+    applied,
+    deleted,
+    skipped: payload.changes.length - applied - deleted,
+    complete,
+  };
+};
+
 // ============================================================================
 // PIT SCOUTING OPERATIONS
 // ============================================================================
@@ -356,7 +616,18 @@ export const importScoutingData = async <TGameData = Record<string, unknown>>(
 export const savePitScoutingEntry = async (
   entry: PitScoutingEntryBase
 ): Promise<void> => {
-  await pitDB.pitScoutingData.put(entry);
+  await savePitScoutingEntries([entry]);
+};
+
+/**
+ * Save pit entries, moving any base64 robotPhoto (older app versions and
+ * imports) into the photos table
+ */
+export const savePitScoutingEntries = async (
+  entries: PitScoutingEntryBase[]
+): Promise<void> => {
+  await pitDB.pitScoutingData.bulkPut(entries);
+  await extractLegacyRobotPhotos(entries.filter(entry => entry.robotPhoto));
 };
 
 export const loadAllPitScoutingEntries = async (): Promise<
@@ -404,6 +675,8 @@ export const deletePitScoutingEntry = async (id: string): Promise<void> => {
 
 export const clearAllPitScoutingData = async (): Promise<void> => {
   await pitDB.pitScoutingData.clear();
+  await pitDB.pitPhotos.clear();
+  await forgetTableChanges('pit');
 };
 
 export const getPitScoutingStats = async (): Promise<PitScoutingStats> => {
@@ -419,3 +692,112 @@ export const getPitScoutingStats = async (): Promise<PitScoutingStats> => {
     scouts,
   };
 };
+
+// ============================================================================
+// PIT PHOTO OPERATIONS
+// ============================================================================
+
+export const savePitPhoto = async (photo: PitPhoto): Promise<void> => {
+  await pitDB.pitPhotos.put(photo);
+};
+
+export const loadPitPhotosByTeamAndEvent = async (
+  teamNumber: number,
+  eventKey: string
+): Promise<PitPhoto[]> => {
+  if (!Number.isFinite(teamNumber) || !eventKey) {
+    return [];
+  }
+
+  return pitDB.pitPhotos
+    .where('[teamNumber+eventKey]')
+    .equals([teamNumber, eventKey])
+    .toArray();
+};
+
+export const loadPitPhotosByTeam = async (teamNumber: number): Promise<PitPhoto[]> => {
+  return pitDB.pitPhotos.where('teamNumber').equals(teamNumber).toArray();
+};
+
+export const loadAllPitPhotos = async (): Promise<PitPhoto[]> => {
+  return pitDB.pitPhotos.toArray();
+};
+
+export const deletePitPhoto = async (id: string): Promise<void> => {
+  await pitDB.pitPhotos.delete(id);
+};
+
+/** Ids and versions of every stored photo, without loading the images */
+export const loadPitPhotoManifest = async (): Promise<PitPhotoManifest> => {
+  const photos: Array<Pick<PitPhoto, 'id' | 'updatedAt'>> = [];
+  await pitDB.pitPhotos.each(photo => {
+    photos.push({ id: photo.id, updatedAt: photo.updatedAt });
+  });
+  return buildPitPhotoManifest(photos);
+};
+
+/**
+ * Store received photos. A photo replaces the local copy only when it is
+ * newer, so the most recent annotations win on every device.
+ */
+export const importPitPhotos = async (
+  photos: PitPhoto[]
+): Promise<{ added: number; updated: number; skipped: number }> => {
+  return pitDB.transaction('rw', pitDB.pitPhotos, async () => {
+    const existing = await pitDB.pitPhotos.bulkGet(photos.map(photo => photo.id));
+    const toPut: PitPhoto[] = [];
+    let added = 0;
+    let updated = 0;
+
+    photos.forEach((photo, index) => {
+      const current = existing[index];
+      if (!current) {
+        added += 1;
+      } else if (photo.updatedAt > current.updatedAt) {
+        updated += 1;
+      } else {
+        return;
+      }
+      toPut.push(photo);
+    });
+
+    await pitDB.pitPhotos.bulkPut(toPut);
+    return { added, updated, skipped: photos.length - toPut.length };
+  });
+};
+
+/**
+ * Move base64 robotPhoto values into the photos table and drop them from the
+ * entries. Checks every stored entry when none are given.
+ */
+export const extractLegacyRobotPhotos = async (
+  entries?: PitScoutingEntryBase[]
+): Promise<number> => {
+  const candidates = entries
+    ?? await pitDB.pitScoutingData.filter(entry => !!entry.robotPhoto).toArray();
+  const moved = candidates
+    .map(entry => ({ entry, photo: legacyRobotPhotoToPitPhoto(entry) }))
+    .filter((item): item is { entry: PitScoutingEntryBase; photo: PitPhoto } => item.photo !== null);
+
+  if (moved.length === 0) return 0;
+
+  await pitDB.transaction('rw', pitDB.pitScoutingData, pitDB.pitPhotos, async () => {
+    const existing = await pitDB.pitPhotos.bulkGet(moved.map(({ photo }) => photo.id));
+    // Keep annotations added since an earlier move of the same photo
+    await pitDB.pitPhotos.bulkPut(moved.map(({ photo }, index) => {
+      const current = existing[index];
+      return current && current.updatedAt >= photo.updatedAt ? current : photo;
+    }));
+    await pitDB.pitScoutingData.bulkPut(moved.map(({ entry }) => {
+      const { robotPhoto: _robotPhoto, ...rest } = entry;
+      return rest;
+    }));
+  });
+
+  return moved.length;
+};
+
+// Move base64 photos saved by older versions into the photos table
+void extractLegacyRobotPhotos().catch(error => {
+  console.error('Failed to move legacy robot photos:', error);
+});
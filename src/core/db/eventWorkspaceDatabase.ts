@@ -0,0 +1,298 @@
+/**
+ * Event workspace database - IndexedDB home for the state described in
+ * lib/eventWorkspace.ts
+ *
+ * Most readers of this state are synchronous (hook initializers, render-time
+ * lookups), so the whole workspace is loaded into memory by
+ * initEventWorkspace() before the app renders. `workspaceStorage` then reads
+ * from memory and writes through to Dexie. Keys that are not workspace state,
+ * and every key if IndexedDB cannot be opened, go to localStorage as before.
+ *
+ * Other tabs are told about writes over a BroadcastChannel and re-dispatch
+ * them as `storage` events, so existing cross-tab listeners keep working.
+ */
+
+import Dexie, { type Table } from 'dexie';
+import {
+  createEventWorkspaceItem,
+  getEventWorkspaceKeyInfo,
+  isEventWorkspaceKey,
+  sanitizeEventWorkspaceItems,
+  selectEventWorkspaceItems,
+  EVENT_WORKSPACE_ARCHIVE_TYPE,
+  EVENT_WORKSPACE_ARCHIVE_VERSION,
+  type EventWorkspaceArchive,
+  type EventWorkspaceItem,
+} from '../lib/eventWorkspace';
+import { db, importPitPhotos, pitDB, savePitScoutingEntries, saveScoutingEntries } from './database';
+import { deserializePitPhoto, serializePitPhoto, type PitPhoto } from '../lib/pitPhotos';
+
+export class EventWorkspaceDB extends Dexie {
+  items!: Table<EventWorkspaceItem, string>;
+
+  constructor() {
+    super('EventWorkspaceDB');
+
+    this.version(1).stores({
+      items: 'key, eventKey, category, updatedAt'
+    });
+  }
+}
+
+export const eventWorkspaceDB = new EventWorkspaceDB();
+
+eventWorkspaceDB.open().catch(error => {
+  console.error('Failed to open EventWorkspaceDB:', error);
+});
+
+// ============================================================================
+// SYNCHRONOUS FACADE
+// ============================================================================
+
+const WORKSPACE_CHANNEL_NAME = 'maneuver-event-workspace';
+
+interface WorkspaceChangeMessage {
+  key: string;
+  value: string | null;
+}
+
+const cache = new Map<string, string>();
+let hydrated = false;
+let channel: BroadcastChannel | null = null;
+
+const usesWorkspace = (key: string): boolean => hydrated && isEventWorkspaceKey(key);
+
+const dispatchStorageEvent = (key: string, oldValue: string | null, newValue: string | null) => {
+  window.dispatchEvent(new StorageEvent('storage', { key, oldValue, newValue }));
+};
+
+const persistItem = (key: string, value: string | null) => {
+  const write = value === null
+    ? eventWorkspaceDB.items.delete(key)
+    : (() => {
+        const item = createEventWorkspaceItem(key, value, Date.now());
+        return item ? eventWorkspaceDB.items.put(item) : Promise.resolve();
+      })();
+
+  write.catch(error => {
+    console.error(`Failed to save workspace key ${key}:`, error);
+  });
+
+  channel?.postMessage({ key, value } satisfies WorkspaceChangeMessage);
+};
+
+/**
+ * Drop-in for the localStorage calls that touch workspace keys
+ */
+export const workspaceStorage = {
+  getItem(key: string): string | null {
+    if (!usesWorkspace(key)) return localStorage.getItem(key);
+    return cache.get(key) ?? null;
+  },
+
+  setItem(key: string, value: string): void {
+    if (!usesWorkspace(key)) {
+      localStorage.setItem(key, value);
+      return;
+    }
+
+    cache.set(key, value);
+    persistItem(key, value);
+  },
+
+  removeItem(key: string): void {
+    if (!usesWorkspace(key)) {
+      localStorage.removeItem(key);
+      return;
+    }
+
+    if (!cache.has(key)) return;
+    cache.delete(key);
+    persistItem(key, null);
+  },
+
+  /**
+   * Every key in the workspace and in localStorage, for callers that used to
+   * loop over localStorage.key(i)
+   */
+  keys(): string[] {
+    const keys = new Set(cache.keys());
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key) keys.add(key);
+    }
+    return [...keys];
+  },
+};
+
+/**
+ * Remove every workspace key filed under an event, including per-scout keys
+ * whose names are not known up front
+ */
+export function removeEventWorkspaceItems(eventKey: string): number {
+  const normalizedEventKey = eventKey.trim().toLowerCase();
+  if (!normalizedEventKey) return 0;
+
+  const keys = workspaceStorage.keys().filter(key => getEventWorkspaceKeyInfo(key)?.eventKey === normalizedEventKey);
+  keys.forEach(key => workspaceStorage.removeItem(key));
+  return keys.length;
+}
+
+/**
+ * Empty the workspace entirely, for "clear all data"
+ */
+export async function clearEventWorkspace(): Promise<void> {
+  const keys = [...cache.keys()];
+  cache.clear();
+  keys.forEach(key => channel?.postMessage({ key, value: null } satisfies WorkspaceChangeMessage));
+
+  if (hydrated) {
+    await eventWorkspaceDB.items.clear();
+  }
+}
+
+const collectLegacyItems = (now: number): EventWorkspaceItem[] => {
+  const items: EventWorkspaceItem[] = [];
+
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key) continue;
+
+    const value = localStorage.getItem(key);
+    const item = value === null ? null : createEventWorkspaceItem(key, value, now);
+    if (item) items.push(item);
+  }
+
+  return items;
+};
+
+const listenForOtherTabs = () => {
+  if (channel || typeof BroadcastChannel === 'undefined') return;
+
+  channel = new BroadcastChannel(WORKSPACE_CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<WorkspaceChangeMessage>) => {
+    const { key, value } = event.data;
+    const oldValue = cache.get(key) ?? null;
+
+    if (value === null) {
+      cache.delete(key);
+    } else {
+      cache.set(key, value);
+    }
+    dispatchStorageEvent(key, oldValue, value);
+  };
+};
+
+/**
+ * Open the workspace, move any workspace keys still in localStorage into it
+ * and load it into memory. Call once before rendering. If IndexedDB is not
+ * available the app keeps running on localStorage.
+ */
+export async function initEventWorkspace(): Promise<void> {
+  try {
+    await eventWorkspaceDB.open();
+
+    const legacyItems = collectLegacyItems(Date.now());
+    if (legacyItems.length > 0) {
+      await eventWorkspaceDB.items.bulkPut(legacyItems);
+      legacyItems.forEach(item => localStorage.removeItem(item.key));
+      console.log(`Moved ${legacyItems.length} localStorage keys into the event workspace`);
+    }
+
+    const items = await eventWorkspaceDB.items.toArray();
+    cache.clear();
+    items.forEach(item => cache.set(item.key, item.value));
+    hydrated = true;
+    listenForOtherTabs();
+  } catch (error) {
+    console.error('Event workspace unavailable, using localStorage:', error);
+    return;
+  }
+
+  // Ask the browser not to evict the workspace under storage pressure.
+  // Browsers that decline still keep the data, just without the guarantee.
+  if (navigator.storage?.persist) {
+    navigator.storage.persist().catch(() => undefined);
+  }
+}
+
+// ============================================================================
+// ARCHIVE
+// ============================================================================
+
+const getWorkspaceItems = async (): Promise<EventWorkspaceItem[]> => {
+  if (hydrated) return eventWorkspaceDB.items.toArray();
+  return collectLegacyItems(Date.now());
+};
+
+/**
+ * Everything needed to stand up another device for an event: workspace state
+ * plus the event's match and pit scouting entries. Pass null to take every
+ * event on this device.
+ */
+export async function exportEventWorkspace(eventKey: string | null): Promise<EventWorkspaceArchive> {
+  const normalizedEventKey = eventKey?.trim().toLowerCase() || null;
+  const [items, scoutingEntries, pitEntries, pitPhotos] = await Promise.all([
+    getWorkspaceItems(),
+    db.scoutingData.toArray(),
+    pitDB.pitScoutingData.toArray(),
+    pitDB.pitPhotos.toArray(),
+  ]);
+
+  const belongsToEvent = (entryEventKey: string | undefined) =>
+    !normalizedEventKey || entryEventKey?.toLowerCase() === normalizedEventKey;
+
+  return {
+    type: EVENT_WORKSPACE_ARCHIVE_TYPE,
+    version: EVENT_WORKSPACE_ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    eventKey: normalizedEventKey,
+    items: selectEventWorkspaceItems(items, normalizedEventKey),
+    scoutingEntries: scoutingEntries.filter(entry => belongsToEvent(entry.eventKey)),
+    pitEntries: pitEntries.filter(entry => belongsToEvent(entry.eventKey)),
+    pitPhotos: await Promise.all(
+      pitPhotos.filter(photo => belongsToEvent(photo.eventKey)).map(serializePitPhoto)
+    ),
+  };
+}
+
+export interface EventWorkspaceRestoreResult {
+  itemsRestored: number;
+  scoutingEntriesRestored: number;
+  pitEntriesRestored: number;
+  pitPhotosRestored: number;
+}
+
+/**
+ * Write an archive onto this device. Archive values replace local ones for
+ * the same key or entry id; anything the archive does not mention is kept.
+ */
+export async function restoreEventWorkspace(archive: EventWorkspaceArchive): Promise<EventWorkspaceRestoreResult> {
+  const items = sanitizeEventWorkspaceItems(archive.items, Date.now());
+
+  items.forEach(item => {
+    const oldValue = workspaceStorage.getItem(item.key);
+    workspaceStorage.setItem(item.key, item.value);
+    dispatchStorageEvent(item.key, oldValue, item.value);
+  });
+
+  if (archive.scoutingEntries.length > 0) {
+    await saveScoutingEntries(archive.scoutingEntries);
+  }
+  if (archive.pitEntries.length > 0) {
+    await savePitScoutingEntries(archive.pitEntries);
+  }
+  const pitPhotos = (archive.pitPhotos ?? [])
+    .map(deserializePitPhoto)
+    .filter((photo): photo is PitPhoto => photo !== null);
+  if (pitPhotos.length > 0) {
+    await importPitPhotos(pitPhotos);
+  }
+
+  return {
+    itemsRestored: items.length,
+    scoutingEntriesRestored: archive.scoutingEntries.length,
+    pitEntriesRestored: archive.pitEntries.length,
+    pitPhotosRestored: pitPhotos.length,
+  };
+}
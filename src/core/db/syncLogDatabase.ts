@@ -0,0 +1,316 @@
+/**
+ * Sync log database - append-only record of changes to the scouting tables
+ *
+ * Table hooks on MatchScoutingDB.scoutingData and PitScoutingDB.pitScoutingData
+ * log every create, update, correction and delete with this device's vector
+ * clock. Rows are not copied into the log; a delta reads the current row when
+ * it is exported. Per-peer cursors remember which changes each peer has, so a
+ * transfer only needs to carry what that peer is missing.
+ */
+
+import Dexie, { type Table, type Transaction } from 'dexie';
+import {
+  classifyUpdate,
+  createChangeLogWriter,
+  mergeClocks,
+  type ChangeKind,
+  type ChangeLogEntry,
+  type PendingLogWork,
+  type SyncCursor,
+  type SyncPeerState,
+  type SyncTableName,
+  type VectorClock,
+} from '../lib/syncLog';
+
+export class SyncLogDB extends Dexie {
+  changes!: Table<ChangeLogEntry, string>;
+  cursors!: Table<SyncCursor, string>;
+
+  constructor() {
+    super('SyncLogDB');
+
+    this.version(1).stores({
+      changes: 'opId, [origin+counter], [table+rowId], table, changedAt',
+      cursors: 'peerId, peerName, updatedAt'
+    });
+  }
+}
+
+export const syncLogDB = new SyncLogDB();
+
+syncLogDB.open().catch(error => {
+  console.error('Failed to open SyncLogDB:', error);
+});
+
+// ============================================================================
+// DEVICE CLOCK
+// ============================================================================
+
+const SYNC_DEVICE_STORAGE_KEY = 'syncDevice';
+const SYNC_BASELINE_STORAGE_PREFIX = 'syncLogBaseline_';
+
+interface SyncDeviceState {
+  deviceId: string;
+  clock: VectorClock;
+}
+
+const createDeviceId = (): string =>
+  `device-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * The clock is kept in localStorage so it can be read synchronously. If it is
+ * lost, the device starts over under a new id rather than reusing counters.
+ */
+const loadDeviceState = (): SyncDeviceState => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SYNC_DEVICE_STORAGE_KEY) || 'null') as Partial<SyncDeviceState> | null;
+    if (saved && typeof saved.deviceId === 'string' && saved.clock && typeof saved.clock === 'object') {
+      return { deviceId: saved.deviceId, clock: saved.clock };
+    }
+  } catch {
+    // Fall through and start a fresh identity
+  }
+
+  const state: SyncDeviceState = { deviceId: createDeviceId(), clock: {} };
+  saveDeviceState(state);
+  return state;
+};
+
+const saveDeviceState = (state: SyncDeviceState): void => {
+  localStorage.setItem(SYNC_DEVICE_STORAGE_KEY, JSON.stringify(state));
+};
+
+export const getSyncDeviceId = (): string => loadDeviceState().deviceId;
+
+/** This device's identity and everything it has seen, as sent to peers */
+export const getLocalSyncState = (): SyncPeerState => {
+  const state = loadDeviceState();
+  return {
+    deviceId: state.deviceId,
+    deviceName: localStorage.getItem('currentScout') || 'Unnamed device',
+    clock: state.clock,
+  };
+};
+
+/** Record that this device now has every change in `clock` */
+export const mergeIntoDeviceClock = (clock: VectorClock): void => {
+  const state = loadDeviceState();
+  state.clock = mergeClocks(state.clock, clock);
+  saveDeviceState(state);
+};
+
+/**
+ * Local changes get their counters when they reach the log, and the device
+ * clock advances only after that, so an export never claims a change it
+ * cannot send. See createChangeLogWriter.
+ */
+const changeLogWriter = createChangeLogWriter({
+  loadDevice: loadDeviceState,
+  commitCounter: (counter) => {
+    const state = loadDeviceState();
+    state.clock = mergeClocks(state.clock, { [state.deviceId]: counter });
+    saveDeviceState(state);
+  },
+  addChanges: async (changes) => {
+    await syncLogDB.transaction('rw', syncLogDB.changes, async () => {
+      await syncLogDB.changes.bulkAdd(changes);
+    });
+  },
+  forgetRow: async (table, rowId) => {
+    await syncLogDB.changes.where('[table+rowId]').equals([table, rowId]).delete();
+  },
+});
+
+/**
+ * Wait until every local change is in the log. Rejects if the log cannot be
+ * written, so a delta is never built from a log that is missing changes.
+ */
+export const flushChangeLog = (): Promise<void> => changeLogWriter.flush();
+
+// ============================================================================
+// TABLE HOOKS
+// ============================================================================
+
+/**
+ * 'remote' writes apply changes received from a peer, which are logged by the
+ * importer. 'local-only' writes are housekeeping (demo data, event cleanup) that
+ * should not reach peers; rows they delete are dropped from the log too.
+ */
+type ChangeLogMode = 'remote' | 'local-only';
+
+const transactionModes = new WeakMap<Transaction, ChangeLogMode>();
+const pendingWork = new WeakMap<Transaction, PendingLogWork>();
+
+const getTransactionMode = (transaction: Transaction): ChangeLogMode | undefined => {
+  for (let current: Transaction | undefined = transaction; current; current = current.parent) {
+    const mode = transactionModes.get(current);
+    if (mode) return mode;
+  }
+  return undefined;
+};
+
+/** The log is written once the data transaction commits, so aborted writes are never logged */
+const queueLogWork = (transaction: Transaction, update: (work: PendingLogWork) => void): void => {
+  let work = pendingWork.get(transaction);
+  if (!work) {
+    const created: PendingLogWork = { changes: [], forgotten: [] };
+    pendingWork.set(transaction, created);
+    transaction.on('complete', () => {
+      changeLogWriter.enqueue(created).catch(error => {
+        // Left queued; flushChangeLog retries it and reports the failure to exports
+        console.error('Failed to write sync log:', error);
+      });
+    });
+    work = created;
+  }
+  update(work);
+};
+
+const recordHookChange = (transaction: Transaction, table: SyncTableName, rowId: string, kind: ChangeKind): void => {
+  const mode = getTransactionMode(transaction);
+  if (mode === 'remote') return;
+
+  if (mode === 'local-only') {
+    if (kind === 'delete') {
+      queueLogWork(transaction, work => work.forgotten.push([table, rowId]));
+    }
+    return;
+  }
+
+  const changedAt = Date.now();
+  queueLogWork(transaction, work => work.changes.push({ table, rowId, kind, changedAt }));
+};
+
+/**
+ * Log every write to a scouting table. Table.clear() bypasses hooks, so
+ * callers that clear a table should also call forgetTableChanges.
+ */
+export const attachChangeLog = <T extends { id: string }>(table: Table<T, string>, tableName: SyncTableName): void => {
+  table.hook('creating', (primKey, obj, transaction) => {
+    recordHookChange(transaction, tableName, String(primKey ?? obj.id), 'create');
+  });
+  table.hook('updating', (modifications, primKey, _obj, transaction) => {
+    recordHookChange(transaction, tableName, String(primKey), classifyUpdate(modifications));
+  });
+  table.hook('deleting', (primKey, _obj, transaction) => {
+    recordHookChange(transaction, tableName, String(primKey), 'delete');
+  });
+};
+
+const runTagged = <R>(table: Table, mode: ChangeLogMode, scope: () => Promise<R>): Promise<R> =>
+  table.db.transaction('rw', table, async (transaction) => {
+    transactionModes.set(transaction, mode);
+    return scope();
+  });
+
+/** Run writes that stay on this device: nothing is logged and deleted rows leave the log */
+export const withoutChangeLog = <R>(table: Table, scope: () => Promise<R>): Promise<R> =>
+  runTagged(table, 'local-only', scope);
+
+/** Apply changes received from a peer without logging them as this device's own */
+export const withRemoteChanges = <R>(table: Table, scope: () => Promise<R>): Promise<R> =>
+  runTagged(table, 'remote', scope);
+
+// ============================================================================
+// CHANGE LOG
+// ============================================================================
+
+export const loadChangeLog = async (): Promise<ChangeLogEntry[]> => {
+  return await syncLogDB.changes.toArray();
+};
+
+export const loadChangesForRows = async (rows: [SyncTableName, string][]): Promise<ChangeLogEntry[]> => {
+  if (rows.length === 0) return [];
+  return await syncLogDB.changes.where('[table+rowId]').anyOf(rows).toArray();
+};
+
+/** Store changes received from a peer so they can be relayed onward */
+export const recordRemoteChanges = async (changes: ChangeLogEntry[]): Promise<void> => {
+  if (changes.length === 0) return;
+  await syncLogDB.changes.bulkPut(changes);
+};
+
+/** Drop a table's log after it has been cleared locally */
+export const forgetTableChanges = async (table: SyncTableName): Promise<void> => {
+  await syncLogDB.changes.where('table').equals(table).delete();
+};
+
+/**
+ * Log a 'create' for rows written before change tracking existed, once per
+ * device, so the first delta includes them.
+ */
+export const recordUnloggedRows = async (table: Table<{ id: string }, string>, tableName: SyncTableName): Promise<void> => {
+  try {
+    const baselineKey = `${SYNC_BASELINE_STORAGE_PREFIX}${tableName}`;
+    if (localStorage.getItem(baselineKey)) return;
+
+    const [rowIds, logged] = await Promise.all([
+      table.toCollection().primaryKeys(),
+      syncLogDB.changes.where('table').equals(tableName).toArray(),
+    ]);
+    const loggedIds = new Set(logged.map(change => change.rowId));
+    const changedAt = Date.now();
+    const baseline = rowIds
+      .filter(rowId => !loggedIds.has(rowId))
+      .map(rowId => ({ table: tableName, rowId, kind: 'create' as const, changedAt }));
+
+    if (baseline.length > 0) {
+      await changeLogWriter.enqueue({ changes: baseline, forgotten: [] });
+    }
+    localStorage.setItem(baselineKey, String(Date.now()));
+  } catch (error) {
+    console.error(`Failed to record ${tableName} rows in sync log:`, error);
+  }
+};
+
+// ============================================================================
+// PEER CURSORS
+// ============================================================================
+
+/** Peers added by name (QR or JSON) until their device id is known */
+export const getSyncPeerIdForName = (peerName: string): string =>
+  `name:${peerName.trim().toLowerCase()}`;
+
+export const listSyncCursors = async (): Promise<SyncCursor[]> => {
+  return await syncLogDB.cursors.orderBy('updatedAt').reverse().toArray();
+};
+
+export const getSyncCursor = async (peerId: string): Promise<SyncCursor | undefined> => {
+  return await syncLogDB.cursors.get(peerId);
+};
+
+export const findSyncCursorByName = async (peerName: string): Promise<SyncCursor | undefined> => {
+  const matches = await syncLogDB.cursors.where('peerName').equals(peerName).toArray();
+  return matches.sort((a, b) => b.updatedAt - a.updatedAt)[0];
+};
+
+/** Merge what a peer is now known to have into its cursor */
+export const advanceSyncCursor = async (peerId: string, peerName: string, seen: VectorClock): Promise<SyncCursor> => {
+  return await syncLogDB.transaction('rw', syncLogDB.cursors, async () => {
+    const existing = await syncLogDB.cursors.get(peerId);
+    // A peer first added by name takes over that cursor once its device id is known
+    const namedPeerId = getSyncPeerIdForName(peerName);
+    const named = !existing && namedPeerId !== peerId ? await syncLogDB.cursors.get(namedPeerId) : undefined;
+    if (named) {
+      await syncLogDB.cursors.delete(namedPeerId);
+    }
+
+    const cursor: SyncCursor = {
+      peerId,
+      peerName: peerName || existing?.peerName || named?.peerName || peerId,
+      seen: mergeClocks(existing?.seen ?? {}, named?.seen ?? {}, seen),
+      updatedAt: Date.now(),
+    };
+    await syncLogDB.cursors.put(cursor);
+    return cursor;
+  });
+};
+
+/** Forget what a peer has so the next delta resends everything */
+export const resetSyncCursor = async (peerId: string): Promise<void> => {
+  await syncLogDB.cursors.update(peerId, { seen: {}, updatedAt: Date.now() });
+};
+
+export const deleteSyncCursor = async (peerId: string): Promise<void> => {
+  await syncLogDB.cursors.delete(peerId);
+};
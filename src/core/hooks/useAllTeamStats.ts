@@ -15,11 +15,18 @@ import { useEffect, useMemo, useState } from "react";
 import { useAllMatches } from "./useAllMatches";
 import { calculateTeamStats } from "@/game-template/calculations";
 import { calculateFuelOPR } from "@/game-template/fuelOpr";
+import { estimateTeamFuel, toFuelEstimateEntry, type FuelEstimatePhase, type TeamFuelEstimate } from "@/game-template/fuelEstimate";
 import { calculateRollingFuelMoprRatings, type RollingFuelMoprRatings } from "@/game-template/rollingFuelOpr";
 import type { ScoutingEntry } from "@/game-template/scoring";
 import { getCachedCOPREventKeys, getCachedEventCOPRs } from "@/core/lib/tba/coprUtils";
 import { getCachedEventStatboticsEPA, getCachedStatboticsEventKeys } from "@/core/lib/statbotics/epaUtils";
-import { getCachedTBAEventKeys, getCachedTBAEventMatches } from "@/core/lib/tbaCache";
+import { getCachedTBAEventKeys, getCachedTBAEventMatches, getEventValidationResults } from "@/core/lib/tbaCache";
+import {
+    calculateScoutReliability,
+    getScoutReliabilityWeight,
+    SCOUT_RELIABILITY_WEIGHTING_STORAGE_KEY,
+    type ScoutReliability,
+} from "@/core/lib/scoutReliability";
 import type { TeamStats } from "@/core/types/team-stats";
 
 const FUEL_MOPR_INCLUDE_PLAYOFFS_STORAGE_KEY = 'fuelOprIncludePlayoffs';
@@ -30,10 +37,16 @@ type FuelOprTeamEntry = {
     teleopFuelOPR: number;
     totalFuelOPR: number;
     lambda: number;
+    matchesPlayed: number;
+    // Alliance residual RMSE of the event's fit
+    rmse: Record<FuelEstimatePhase, number>;
 };
 
 type RollingRatingsByMatch = Map<string, RollingFuelMoprRatings>;
 
+// eventKey -> scoutName -> reliability
+type ReliabilityByEvent = Map<string, Map<string, ScoutReliability>>;
+
 function normalizeMatchKey(matchKey: string): string {
     if (!matchKey.includes('_')) {
         return matchKey;
@@ -61,6 +74,7 @@ export const useAllTeamStats = (eventKey?: string): UseAllTeamStatsResult => {
     const [isCacheLoading, setIsCacheLoading] = useState(false);
     const [fuelOprByEventTeam, setFuelOprByEventTeam] = useState<Map<string, FuelOprTeamEntry>>(new Map());
     const [rollingRatingsByEventTeamMatch, setRollingRatingsByEventTeamMatch] = useState<RollingRatingsByMatch>(new Map());
+    const [reliabilityByEvent, setReliabilityByEvent] = useState<ReliabilityByEvent>(new Map());
 
     useEffect(() => {
         let cancelled = false;
@@ -127,6 +141,39 @@ export const useAllTeamStats = (eventKey?: string): UseAllTeamStatsResult => {
         };
     }, [eventKey, matches]);
 
+    useEffect(() => {
+        let cancelled = false;
+
+        const loadReliability = async () => {
+            const relevantEventKeys = eventKey
+                ? [eventKey]
+                : [...new Set(matches.map(match => match.eventKey).filter((key): key is string => !!key))];
+
+            try {
+                const entries = await Promise.all(relevantEventKeys.map(async (key) => {
+                    const results = await getEventValidationResults(key);
+                    const reliability = calculateScoutReliability(results.map(result => result.result));
+                    return [key, new Map(reliability.map(scout => [scout.scoutName, scout]))] as const;
+                }));
+
+                if (!cancelled) {
+                    setReliabilityByEvent(new Map(entries.filter(([, byScout]) => byScout.size > 0)));
+                }
+            } catch (loadError) {
+                console.error("Error loading scout reliability:", loadError);
+                if (!cancelled) {
+                    setReliabilityByEvent(new Map());
+                }
+            }
+        };
+
+        void loadReliability();
+
+        return () => {
+            cancelled = true;
+        };
+    }, [eventKey, matches]);
+
     const scoutedTeamStats = useMemo(() => {
         if (!matches || matches.length === 0) return [];
 
@@ -146,6 +193,8 @@ export const useAllTeamStats = (eventKey?: string): UseAllTeamStatsResult => {
             statboticsEventKeys.map(key => [key, getCachedEventStatboticsEPA(key)] as const)
         );
 
+        const weightByReliability = localStorage.getItem(SCOUT_RELIABILITY_WEIGHTING_STORAGE_KEY) === 'true';
+
         // Group matches by team + event
         const matchesByTeam = matches.reduce((acc, match) => {
             const teamNumber = match.teamNumber;
@@ -167,7 +216,11 @@ export const useAllTeamStats = (eventKey?: string): UseAllTeamStatsResult => {
 
         // Calculate stats for each team (ONCE)
         const stats: TeamStats[] = Object.values(matchesByTeam).map(({ teamNumber, eventKey, matches: teamMatches }) => {
-            const calculated = calculateTeamStats(teamMatches);
+            // Weighting averages is opt-in from the Scout Management dashboard
+            const reliability = weightByReliability ? reliabilityByEvent.get(eventKey) : undefined;
+            const calculated = calculateTeamStats(teamMatches, reliability
+                ? { entryWeight: entry => getScoutReliabilityWeight(reliability.get(entry.scoutName.trim())) }
+                : undefined);
             const fuelOpr = fuelOprByEventTeam.get(`${eventKey}::${teamNumber}`);
             const copr = coprByEvent.get(eventKey)?.get(teamNumber);
             const statbotics = statboticsByEvent.get(eventKey)?.get(teamNumber);
@@ -230,7 +283,7 @@ export const useAllTeamStats = (eventKey?: string): UseAllTeamStatsResult => {
 
         // Sort by team number
         return stats.sort((a, b) => a.teamNumber - b.teamNumber);
-    }, [matches, eventKey, fuelOprByEventTeam, rollingRatingsByEventTeamMatch]);
+    }, [matches, eventKey, fuelOprByEventTeam, rollingRatingsByEventTeamMatch, reliabilityByEvent]);
 
     useEffect(() => {
         let cancelled = false;
@@ -350,7 +403,7 @@ export const useAllTeamStats = (eventKey?: string): UseAllTeamStatsResult => {
 
     const teamStats = useMemo(() => {
         if (cachedOnlyTeamStats.length === 0) {
-            return scoutedTeamStats;
+            return withFusedFuelEstimates(scoutedTeamStats, matches, fuelOprByEventTeam, reliabilityByEvent);
         }
 
         const byKey = new Map<string, TeamStats>();
@@ -366,8 +419,9 @@ export const useAllTeamStats = (eventKey?: string): UseAllTeamStatsResult => {
             }
         }
 
-        return [...byKey.values()].sort((a, b) => a.teamNumber - b.teamNumber || a.eventKey.localeCompare(b.eventKey));
-    }, [scoutedTeamStats, cachedOnlyTeamStats]);
+        const merged = [...byKey.values()].sort((a, b) => a.teamNumber - b.teamNumber || a.eventKey.localeCompare(b.eventKey));
+        return withFusedFuelEstimates(merged, matches, fuelOprByEventTeam, reliabilityByEvent);
+    }, [scoutedTeamStats, cachedOnlyTeamStats, matches, fuelOprByEventTeam, reliabilityByEvent]);
 
     return { teamStats, isLoading: isLoading || isCacheLoading, error };
 };
@@ -436,12 +490,20 @@ async function buildFuelOprMapFromCachedTba(eventKeys: string[]): Promise<Map<st
             nonNegative: false,
         });
 
+        const rmse = {
+            auto: fixed.fitSummary.rmse.autoFuel,
+            teleop: fixed.fitSummary.rmse.teleopFuel,
+            total: fixed.fitSummary.rmse.totalFuel,
+        };
+
         for (const team of fixed.teams) {
             result.set(`${event}::${team.teamNumber}`, {
                 autoFuelOPR: team.autoFuelOPR,
                 teleopFuelOPR: team.teleopFuelOPR,
                 totalFuelOPR: team.totalFuelOPR,
                 lambda: FIXED_FUEL_MOPR_LAMBDA,
+                matchesPlayed: team.matchesPlayed,
+                rmse,
             });
         }
     }
@@ -449,6 +511,79 @@ async function buildFuelOprMapFromCachedTba(eventKeys: string[]): Promise<Map<st
     return result;
 }
 
+/**
+ * Fuse scouted (scaled or bias-corrected), mOPR and event-average fuel into
+ * one estimate per team, event by event
+ */
+function withFusedFuelEstimates(
+    teamStats: TeamStats[],
+    matches: ScoutingEntry[],
+    fuelOprByEventTeam: Map<string, FuelOprTeamEntry>,
+    reliabilityByEvent: ReliabilityByEvent
+): TeamStats[] {
+    if (teamStats.length === 0) {
+        return teamStats;
+    }
+
+    const entriesByEventTeam = new Map<string, ScoutingEntry[]>();
+    for (const match of matches) {
+        if (!match.teamNumber) continue;
+        const key = `${match.eventKey || "Unknown"}::${match.teamNumber}`;
+        entriesByEventTeam.set(key, [...(entriesByEventTeam.get(key) ?? []), match]);
+    }
+
+    const teamNumbersByEvent = new Map<string, number[]>();
+    for (const team of teamStats) {
+        teamNumbersByEvent.set(team.eventKey, [...(teamNumbersByEvent.get(team.eventKey) ?? []), team.teamNumber]);
+    }
+
+    const estimates = new Map<string, TeamFuelEstimate>();
+    for (const [event, teamNumbers] of teamNumbersByEvent) {
+        let moprRmse: FuelOprTeamEntry["rmse"] | undefined;
+        const inputs = teamNumbers.map(teamNumber => {
+            const opr = fuelOprByEventTeam.get(`${event}::${teamNumber}`);
+            moprRmse = moprRmse ?? opr?.rmse;
+            return {
+                teamNumber,
+                entries: (entriesByEventTeam.get(`${event}::${teamNumber}`) ?? []).map(toFuelEstimateEntry),
+                mopr: opr
+                    ? {
+                        matchesPlayed: opr.matchesPlayed,
+                        autoFuel: opr.autoFuelOPR,
+                        teleopFuel: opr.teleopFuelOPR,
+                        totalFuel: opr.totalFuelOPR,
+                    }
+                    : undefined,
+            };
+        });
+
+        const eventEstimates = estimateTeamFuel(inputs, {
+            reliabilityByScout: reliabilityByEvent.get(event),
+            moprRmse,
+        });
+        for (const [teamNumber, estimate] of eventEstimates) {
+            estimates.set(`${event}::${teamNumber}`, estimate);
+        }
+    }
+
+    return teamStats.map(team => {
+        const estimate = estimates.get(`${team.eventKey}::${team.teamNumber}`);
+        if (!estimate) {
+            return team;
+        }
+
+        return {
+            ...team,
+            fusedAutoFuel: estimate.auto.mean,
+            fusedTeleopFuel: estimate.teleop.mean,
+            fusedTotalFuel: estimate.total.mean,
+            fusedTotalFuelLower: estimate.total.lower,
+            fusedTotalFuelUpper: estimate.total.upper,
+            fusedFuelScoutingShare: Math.round(estimate.total.weights.scouting * 100),
+        };
+    });
+}
+
 async function buildRollingRatingsMapFromCachedTba(eventKeys: string[]): Promise<RollingRatingsByMatch> {
     const result: RollingRatingsByMatch = new Map();
     const includePlayoffs = localStorage.getItem(FUEL_MOPR_INCLUDE_PLAYOFFS_STORAGE_KEY) !== 'false';
@@ -1,8 +1,19 @@
 import { useState, useCallback, useRef } from "react";
-
-// Maximum number of undo states to keep in history
-const MAX_UNDO_HISTORY_LENGTH = 20;
-const READBACK_CONTEXT_OPTIONS: CanvasRenderingContext2DSettings = { willReadFrequently: true };
+import {
+  createWhiteboardElementId,
+  moveWhiteboardElement,
+  type WhiteboardElement,
+  type WhiteboardPoint,
+  type WhiteboardRobot,
+  type WhiteboardText,
+} from "@/core/lib/strategyWhiteboard";
+
+// Pointer travel (canvas px) before a press counts as a drag rather than a tap
+const TAP_MOVE_THRESHOLD = 4;
+// Skip stroke points closer than this (fraction of field width) to keep strokes small
+const MIN_POINT_SPACING = 0.002;
+
+export type DrawingTool = 'draw' | 'erase' | 'arrow' | 'text' | 'robot';
 
 interface Point {
   x: number;
@@ -11,38 +22,54 @@ interface Point {
 
 interface UseCanvasDrawingProps {
   canvasRef: React.RefObject<HTMLCanvasElement | null>;
+  tool: DrawingTool;
+  /** Brush width in pixels on the current canvas */
   brushSize: number;
   brushColor: string;
-  isErasing: boolean;
-  onSave: () => void;
+  disabled?: boolean;
+  /** Text label or robot token under a point, so the text and robot tools can drag it */
+  getMovableElementAt?: (point: WhiteboardPoint, aspect: number) => WhiteboardRobot | WhiteboardText | null;
+  /** In-progress stroke, arrow or dragged element (null when the gesture ends) */
+  onDraftChange?: (element: WhiteboardElement | null) => void;
+  /** A finished stroke or arrow (isNew) or a moved label/token */
+  onElementComplete: (element: WhiteboardElement, isNew: boolean) => void;
+  /** Tap on empty canvas, in canvas pixels */
   onTap?: (point: Point) => void;
+  /** Tap on a label or token without moving it */
+  onElementTap?: (element: WhiteboardRobot | WhiteboardText) => void;
   mapDisplayPointToCanvas?: (point: Point, canvas: HTMLCanvasElement) => Point;
-  selectedTeams?: (number | null)[]; // Kept for API compatibility, but no longer used
 }
 
+type Gesture =
+  | { kind: 'stroke'; element: WhiteboardElement & { kind: 'stroke' } }
+  | { kind: 'arrow'; element: WhiteboardElement & { kind: 'arrow' } }
+  | { kind: 'move'; original: WhiteboardRobot | WhiteboardText; offset: WhiteboardPoint; current: WhiteboardRobot | WhiteboardText }
+  | { kind: 'tap' };
+
+/**
+ * Pointer handling for the strategy drawing layer. Gestures are turned into
+ * whiteboard elements with field-normalized coordinates; rendering and
+ * storage are left to the caller.
+ */
 export const useCanvasDrawing = ({
   canvasRef,
+  tool,
   brushSize,
   brushColor,
-  isErasing,
-  onSave,
+  disabled = false,
+  getMovableElementAt,
+  onDraftChange,
+  onElementComplete,
   onTap,
+  onElementTap,
   mapDisplayPointToCanvas,
 }: UseCanvasDrawingProps) => {
   const [isDrawing, setIsDrawing] = useState(false);
-  const [lastPoint, setLastPoint] = useState<Point | null>(null);
-  const [canUndo, setCanUndo] = useState(false);
-
-  // History stores canvas states AFTER each stroke
-  // history[0] = initial state
-  // history[1] = after first stroke
-  // etc.
-  const historyRef = useRef<string[]>([]);
-  const historyIndexRef = useRef(0);
+  const gestureRef = useRef<Gesture | null>(null);
   const startPointRef = useRef<Point | null>(null);
   const hasMovedRef = useRef(false);
 
-  const getPointFromEvent = useCallback((e: React.MouseEvent | React.PointerEvent): Point => {
+  const getPointFromEvent = useCallback((e: React.PointerEvent): Point => {
     const canvas = canvasRef.current;
     if (!canvas) return { x: 0, y: 0 };
 
@@ -60,191 +87,144 @@ export const useCanvasDrawing = ({
       : displayPoint;
   }, [canvasRef, mapDisplayPointToCanvas]);
 
-  // Initialize history with current canvas state (call once after canvas is set up)
-  const initializeHistory = useCallback(() => {
+  const normalize = useCallback((point: Point): WhiteboardPoint => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    // Only initialize if history is empty
-    if (historyRef.current.length > 0) return;
-
-    const dataURL = canvas.toDataURL();
-    historyRef.current = [dataURL];
-    historyIndexRef.current = 0;
-    setCanUndo(false);
+    if (!canvas || canvas.width === 0 || canvas.height === 0) return { x: 0, y: 0 };
+    return { x: point.x / canvas.width, y: point.y / canvas.height };
   }, [canvasRef]);
 
-  // Save current state AFTER a stroke completes
-  const saveToHistory = useCallback(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    // Auto-initialize if needed
-    if (historyRef.current.length === 0) {
-      const dataURL = canvas.toDataURL();
-      historyRef.current = [dataURL];
-      historyIndexRef.current = 0;
-      console.log('[SaveToHistory] Auto-initialized with first state, canvas size:', canvas.width, 'x', canvas.height);
-    }
-
-    const dataURL = canvas.toDataURL();
-
-    // Check if canvas has any content (non-transparent pixels)
-    const ctx = canvas.getContext('2d', READBACK_CONTEXT_OPTIONS);
-    const imageData = ctx?.getImageData(0, 0, canvas.width, canvas.height);
-    const hasContent = imageData?.data.some((val, i) => i % 4 === 3 && val > 0) ?? false;
-    console.log('[SaveToHistory] Saving state - has visible content:', hasContent, 'canvas size:', canvas.width, 'x', canvas.height);
-
-    // Truncate any redo states (future states after current index)
-    historyRef.current = historyRef.current.slice(0, historyIndexRef.current + 1);
-
-    // Add new state
-    historyRef.current.push(dataURL);
-    historyIndexRef.current = historyRef.current.length - 1;
+  const startDrawing = useCallback((e: React.PointerEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
 
-    console.log('[SaveToHistory] History now has', historyRef.current.length, 'states, currentIndex:', historyIndexRef.current);
+    const canvas = canvasRef.current;
+    if (disabled || !canvas || canvas.width === 0) return;
 
-    // Limit history size
-    if (historyRef.current.length > MAX_UNDO_HISTORY_LENGTH) {
-      historyRef.current.shift();
-      historyIndexRef.current--;
+    try {
+      e.currentTarget.setPointerCapture(e.pointerId);
+    } catch {
+      // Ignore
     }
 
-    setCanUndo(historyIndexRef.current > 0);
-  }, [canvasRef]);
+    const point = getPointFromEvent(e);
+    const normalized = normalize(point);
+    const now = Date.now();
+    const size = brushSize / canvas.width;
 
-  const undo = useCallback(() => {
-    // Need at least 2 states to undo (initial + at least one change)
-    if (historyIndexRef.current <= 0 || historyRef.current.length < 2) {
-      console.log('[Undo] Cannot undo - index:', historyIndexRef.current, 'length:', historyRef.current.length);
+    startPointRef.current = point;
+    hasMovedRef.current = false;
+    setIsDrawing(true);
+
+    if (tool === 'text' || tool === 'robot') {
+      const target = getMovableElementAt?.(normalized, canvas.width / canvas.height);
+      gestureRef.current = target
+        ? {
+          kind: 'move',
+          original: target,
+          current: target,
+          offset: { x: target.position.x - normalized.x, y: target.position.y - normalized.y },
+        }
+        : { kind: 'tap' };
       return;
     }
 
-    // Go back to previous state
-    const oldIndex = historyIndexRef.current;
-    historyIndexRef.current--;
-    const previousState = historyRef.current[historyIndexRef.current];
-
-    console.log('[Undo] Going from index', oldIndex, 'to', historyIndexRef.current, '- history length:', historyRef.current.length);
-
-    const canvas = canvasRef.current;
-    const ctx = canvas?.getContext('2d', READBACK_CONTEXT_OPTIONS);
-    if (!canvas || !ctx || !previousState) {
-      console.log('[Undo] Missing canvas, ctx, or previousState');
+    if (tool === 'arrow') {
+      gestureRef.current = {
+        kind: 'arrow',
+        element: { id: createWhiteboardElementId(now), createdAt: now, kind: 'arrow', from: normalized, to: normalized, color: brushColor, size },
+      };
       return;
     }
 
-    const img = new Image();
-    img.onload = () => {
-      console.log('[Undo] Image loaded, natural size:', img.naturalWidth, 'x', img.naturalHeight, 'canvas size:', canvas.width, 'x', canvas.height);
-      // CRITICAL: Reset composite operation to source-over before drawing
-      // After erasing, it stays at 'destination-out' which would erase instead of draw!
-      ctx.globalCompositeOperation = 'source-over';
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      // Draw at canvas dimensions to handle any size differences
-      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-      setCanUndo(historyIndexRef.current > 0);
-      onSave();
+    gestureRef.current = {
+      kind: 'stroke',
+      element: {
+        id: createWhiteboardElementId(now),
+        createdAt: now,
+        kind: 'stroke',
+        points: [normalized],
+        color: brushColor,
+        size,
+        ...(tool === 'erase' ? { erase: true } : {}),
+      },
     };
-    img.onerror = () => {
-      console.log('[Undo] Image load failed');
-      historyIndexRef.current++;
-      setCanUndo(historyIndexRef.current > 0);
-      console.warn("Undo failed: could not load image from history.");
-    };
-    img.src = previousState;
-  }, [canvasRef, onSave]);
+  }, [canvasRef, disabled, getPointFromEvent, normalize, tool, brushSize, brushColor, getMovableElementAt]);
 
-  const startDrawing = useCallback((e: React.MouseEvent | React.PointerEvent) => {
+  const draw = useCallback((e: React.PointerEvent) => {
     e.preventDefault();
     e.stopPropagation();
 
-    if ('setPointerCapture' in e.currentTarget && e.currentTarget instanceof HTMLElement) {
-      try {
-        e.currentTarget.setPointerCapture((e as React.PointerEvent).pointerId);
-      } catch {
-        // Ignore
-      }
-    }
+    const gesture = gestureRef.current;
+    const startPoint = startPointRef.current;
+    if (!gesture || !startPoint) return;
 
-    setIsDrawing(true);
     const point = getPointFromEvent(e);
-    setLastPoint(point);
-    startPointRef.current = point;
-    hasMovedRef.current = false;
-  }, [getPointFromEvent]);
-
-  const draw = useCallback((e: React.MouseEvent | React.PointerEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-
-    if (!isDrawing || !lastPoint) return;
-
-    const canvas = canvasRef.current;
-    const ctx = canvas?.getContext('2d', READBACK_CONTEXT_OPTIONS);
-    if (!canvas || !ctx) return;
+    if (!hasMovedRef.current && Math.hypot(point.x - startPoint.x, point.y - startPoint.y) > TAP_MOVE_THRESHOLD) {
+      hasMovedRef.current = true;
+    }
+    if (!hasMovedRef.current) return;
 
-    const currentPoint = getPointFromEvent(e);
+    const normalized = normalize(point);
 
-    if (!hasMovedRef.current) {
-      const distanceFromStart = Math.hypot(currentPoint.x - lastPoint.x, currentPoint.y - lastPoint.y);
-      if (distanceFromStart > 4) {
-        hasMovedRef.current = true;
+    switch (gesture.kind) {
+      case 'stroke': {
+        const last = gesture.element.points[gesture.element.points.length - 1];
+        if (last && Math.hypot(normalized.x - last.x, normalized.y - last.y) < MIN_POINT_SPACING) return;
+        gesture.element = { ...gesture.element, points: [...gesture.element.points, normalized] };
+        onDraftChange?.(gesture.element);
+        break;
       }
+      case 'arrow':
+        gesture.element = { ...gesture.element, to: normalized };
+        onDraftChange?.(gesture.element);
+        break;
+      case 'move':
+        gesture.current = moveWhiteboardElement(gesture.original, {
+          x: normalized.x + gesture.offset.x,
+          y: normalized.y + gesture.offset.y,
+        });
+        onDraftChange?.(gesture.current);
+        break;
+      case 'tap':
+        break;
     }
+  }, [getPointFromEvent, normalize, onDraftChange]);
 
-    ctx.lineWidth = brushSize;
-    ctx.lineCap = 'round';
-    ctx.lineJoin = 'round';
-
-    if (isErasing) {
-      // SIMPLE ERASING: destination-out makes pixels transparent
-      // Since drawing layer is isolated, this reveals the background/overlay layers beneath
-      ctx.globalCompositeOperation = 'destination-out';
-      ctx.strokeStyle = 'rgba(0,0,0,1)';
-    } else {
-      // Normal drawing
-      ctx.globalCompositeOperation = 'source-over';
-      ctx.strokeStyle = brushColor;
-    }
-
-    ctx.beginPath();
-    ctx.moveTo(lastPoint.x, lastPoint.y);
-    ctx.lineTo(currentPoint.x, currentPoint.y);
-    ctx.stroke();
-
-    setLastPoint(currentPoint);
-  }, [isDrawing, getPointFromEvent, isErasing, brushSize, brushColor, lastPoint, canvasRef]);
-
-  const stopDrawing = useCallback((e?: React.MouseEvent | React.PointerEvent) => {
+  const stopDrawing = useCallback((e?: React.PointerEvent) => {
     if (e) {
       e.preventDefault();
       e.stopPropagation();
 
-      if ('releasePointerCapture' in e.currentTarget && e.currentTarget instanceof HTMLElement) {
-        try {
-          e.currentTarget.releasePointerCapture((e as React.PointerEvent).pointerId);
-        } catch {
-          // Ignore
-        }
+      try {
+        e.currentTarget.releasePointerCapture(e.pointerId);
+      } catch {
+        // Ignore
       }
     }
 
-    if (isDrawing) {
-      const startedAt = startPointRef.current;
-      if (!hasMovedRef.current && startedAt) {
-        onTap?.(startedAt);
+    const gesture = gestureRef.current;
+    const startedAt = startPointRef.current;
+    gestureRef.current = null;
+    startPointRef.current = null;
+    setIsDrawing(false);
+
+    if (!gesture || !startedAt) return;
+
+    if (!hasMovedRef.current) {
+      if (gesture.kind === 'move') {
+        onElementTap?.(gesture.original);
       } else {
-        // Save state AFTER stroke completes
-        saveToHistory();
-        onSave();
+        onTap?.(startedAt);
       }
+    } else if (gesture.kind === 'move') {
+      onElementComplete(gesture.current, false);
+    } else if (gesture.kind !== 'tap') {
+      onElementComplete(gesture.element, true);
     }
-    setIsDrawing(false);
-    setLastPoint(null);
-    startPointRef.current = null;
+
     hasMovedRef.current = false;
-  }, [isDrawing, onSave, saveToHistory, onTap]);
+    onDraftChange?.(null);
+  }, [onDraftChange, onElementComplete, onTap, onElementTap]);
 
   const canvasStyle: React.CSSProperties = {
     userSelect: 'none',
@@ -258,10 +238,6 @@ export const useCanvasDrawing = ({
   };
 
   const canvasEventHandlers = {
-    onMouseDown: startDrawing,
-    onMouseMove: draw,
-    onMouseUp: stopDrawing,
-    onMouseLeave: stopDrawing,
     onPointerDown: startDrawing,
     onPointerMove: draw,
     onPointerUp: stopDrawing,
@@ -273,9 +249,5 @@ export const useCanvasDrawing = ({
     canvasStyle,
     canvasEventHandlers,
     isDrawing,
-    undo,
-    canUndo,
-    initializeHistory,
-    saveToHistory
   };
 };
@@ -138,8 +138,7 @@ export const useCanvasSetup = ({
 
       const bgCtx = bgCanvas.getContext('2d');
       const overlayCtx = overlayCanvas.getContext('2d');
-      const drawingCtx = drawingCanvas.getContext('2d', { willReadFrequently: true });
-      if (!bgCtx || !overlayCtx || !drawingCtx) return;
+      if (!bgCtx || !overlayCtx) return;
 
       const img = new Image();
       img.onload = () => {
@@ -212,27 +211,14 @@ export const useCanvasSetup = ({
         // LAYER 2: Draw team number overlays
         redrawOverlay();
 
-        // LAYER 3: Load saved drawings or start fresh
-        drawingCtx.clearRect(0, 0, canvasWidth, canvasHeight);
-        const savedData = localStorage.getItem(`fieldStrategy_${currentStageId}`);
-        if (savedData) {
-          const savedImg = new Image();
-          savedImg.onload = () => {
-            drawingCtx.drawImage(savedImg, 0, 0, canvasWidth, canvasHeight);
-            if (onCanvasReady) {
-              requestAnimationFrame(() => onCanvasReady());
-            }
-          };
-          savedImg.src = savedData;
-        } else {
-          if (onCanvasReady) {
-            requestAnimationFrame(() => onCanvasReady());
-          }
+        // LAYER 3: Resizing cleared the drawing layer; the owner re-renders the whiteboard
+        if (onCanvasReady) {
+          requestAnimationFrame(() => onCanvasReady());
         }
       };
       img.src = fieldImagePath;
     }, delay);
-  }, [fieldImagePath, currentStageId, isFullscreen, hideControls, isMobile, backgroundCanvasRef, overlayCanvasRef, drawingCanvasRef, containerRef, fullscreenRef, onCanvasReady, onDimensionsChange, redrawOverlay]);
+  }, [fieldImagePath, isFullscreen, hideControls, isMobile, backgroundCanvasRef, overlayCanvasRef, drawingCanvasRef, containerRef, fullscreenRef, onCanvasReady, onDimensionsChange, redrawOverlay]);
 
   // Re-draw overlay when teams change
   useEffect(() => {
@@ -266,19 +252,8 @@ export const useCanvasSetup = ({
     };
   }, [setupCanvas, isFullscreen]);
 
-  // Clear only the drawing layer
-  const clearCanvas = useCallback(() => {
-    const drawingCanvas = drawingCanvasRef.current;
-    const ctx = drawingCanvas?.getContext('2d', { willReadFrequently: true });
-    if (!drawingCanvas || !ctx) return;
-
-    ctx.clearRect(0, 0, drawingCanvas.width, drawingCanvas.height);
-    localStorage.removeItem(`fieldStrategy_${currentStageId}`);
-  }, [currentStageId, drawingCanvasRef]);
-
   return {
     backgroundImageRef,
-    setupCanvas,
-    clearCanvas
+    setupCanvas
   };
 };
@@ -3,7 +3,7 @@ import { toast } from "sonner";
 import type { ConflictInfo } from "@/core/lib/scoutingDataUtils";
 import type { ScoutingEntryBase } from "@/types/scouting-entry";
 import { computeChangedFields } from "@/core/lib/scoutingDataUtils";
-import { db } from "@/core/db/database";
+import { db, recordScoutingEntryRevision } from "@/core/db/database";
 
 // Debug logging helper - only logs in development
 const DEBUG = import.meta.env.DEV;
@@ -11,13 +11,32 @@ const debugLog = (...args: unknown[]) => {
   if (DEBUG) console.log(...args);
 };
 
+export type ConflictAction = 'replace' | 'skip' | 'merge';
+
+// Keep the local entry a resolution overwrites in its revision history
+const recordMergeRevision = (local: ScoutingEntryBase, merged: ScoutingEntryBase) =>
+  recordScoutingEntryRevision(local, {
+    changedBy: merged.lastCorrectedBy || 'unknown',
+    reason: merged.correctionNotes || 'Dual-scout merge',
+    kind: 'merge',
+  });
+
+const recordReplaceRevision = (local: ScoutingEntryBase, incoming: ScoutingEntryBase) =>
+  recordScoutingEntryRevision(local, {
+    changedBy: localStorage.getItem('currentScout') || 'unknown',
+    reason: `Replaced by incoming entry from ${incoming.scoutName || 'another device'}`,
+    kind: 'replace',
+  });
+
 export const useConflictResolution = () => {
   // Conflict resolution state
   const [showConflictDialog, setShowConflictDialog] = useState(false);
   const [currentConflicts, setCurrentConflicts] = useState<ConflictInfo[]>([]);
   const [currentConflictIndex, setCurrentConflictIndex] = useState(0);
-  const [conflictResolutions, setConflictResolutions] = useState<Map<string, 'replace' | 'skip'>>(new Map());
-  const [resolutionHistory, setResolutionHistory] = useState<Array<{ index: number; action: 'replace' | 'skip' }>>([]);
+  const [conflictResolutions, setConflictResolutions] = useState<Map<string, ConflictAction>>(new Map());
+  const [resolutionHistory, setResolutionHistory] = useState<Array<{ index: number; action: ConflictAction }>>([]);
+  // Field-by-field merges of dual-scouted entries, by conflict key
+  const [mergedEntries, setMergedEntries] = useState<Map<string, ScoutingEntryBase>>(new Map());
   const [isProcessing, setIsProcessing] = useState(false);
 
   // Generate conflict key from conflict info
@@ -26,7 +45,7 @@ export const useConflictResolution = () => {
   };
 
   // Handle individual conflict resolution
-  const handleConflictResolution = async (action: 'replace' | 'skip') => {
+  const handleConflictResolution = async (action: ConflictAction, merged?: Map<string, ScoutingEntryBase>) => {
     const currentConflict = currentConflicts[currentConflictIndex];
     if (!currentConflict) return;
 
@@ -43,15 +62,30 @@ export const useConflictResolution = () => {
       setCurrentConflictIndex(currentConflictIndex + 1);
     } else {
       // All conflicts resolved, apply decisions with the updated map
-      await applyConflictResolutions(updatedResolutions);
+      await applyConflictResolutions(updatedResolutions, merged);
     }
   };
 
+  // Resolve the current conflict with an entry built from both sides
+  const handleMergeResolution = async (mergedEntry: ScoutingEntryBase) => {
+    const currentConflict = currentConflicts[currentConflictIndex];
+    if (!currentConflict) return;
+
+    const updatedMerges = new Map(mergedEntries).set(getConflictKey(currentConflict), mergedEntry);
+    setMergedEntries(updatedMerges);
+    await handleConflictResolution('merge', updatedMerges);
+  };
+
   // Apply all conflict resolutions
-  const applyConflictResolutions = async (resolutionsMap?: Map<string, 'replace' | 'skip'>) => {
+  const applyConflictResolutions = async (
+    resolutionsMap?: Map<string, ConflictAction>,
+    mergedMap?: Map<string, ScoutingEntryBase>
+  ) => {
     const resolutions = resolutionsMap || conflictResolutions;
+    const merges = mergedMap || mergedEntries;
     let replaced = 0;
     let kept = 0;
+    let merged = 0;
 
     for (const conflict of currentConflicts) {
       const conflictKey = getConflictKey(conflict);
@@ -66,9 +100,20 @@ export const useConflictResolution = () => {
           hasData: 'data' in conflict.incoming,
           localId: conflict.local.id
         });
+        await recordReplaceRevision(conflict.local, conflict.incoming);
         await db.scoutingData.delete(conflict.local.id);
         await db.scoutingData.put(conflict.incoming as never);
         replaced++;
+      } else if (decision === 'merge') {
+        const mergedEntry = merges.get(conflictKey);
+        if (mergedEntry) {
+          await recordMergeRevision(conflict.local, mergedEntry);
+          await db.scoutingData.delete(conflict.local.id);
+          await db.scoutingData.put(mergedEntry as never);
+          merged++;
+        } else {
+          kept++;
+        }
       } else if (decision === 'skip') {
         // Keep existing entry, do nothing
         kept++;
@@ -76,7 +121,7 @@ export const useConflictResolution = () => {
     }
 
     toast.success(
-      `Conflict resolution complete! ${replaced} entries replaced, ${kept} entries kept.`
+      `Conflict resolution complete! ${replaced} entries replaced, ${merged > 0 ? `${merged} merged, ` : ''}${kept} entries kept.`
     );
 
     // Reset state
@@ -85,6 +130,7 @@ export const useConflictResolution = () => {
     setCurrentConflictIndex(0);
     setConflictResolutions(new Map());
     setResolutionHistory([]);
+    setMergedEntries(new Map());
   };
 
   // Batch resolve all remaining conflicts
@@ -105,6 +151,21 @@ export const useConflictResolution = () => {
       // Apply immediately
       let replaced = 0;
       let skipped = 0;
+      let merged = 0;
+
+      // Merges built earlier in this review were done by hand, so write them too
+      for (let i = 0; i < currentConflictIndex; i++) {
+        const conflict = currentConflicts[i];
+        if (!conflict) continue;
+        const conflictKey = getConflictKey(conflict);
+        const mergedEntry = mergedEntries.get(conflictKey);
+        if (newResolutions.get(conflictKey) === 'merge' && mergedEntry) {
+          await recordMergeRevision(conflict.local, mergedEntry);
+          await db.scoutingData.delete(conflict.local.id);
+          await db.scoutingData.put(mergedEntry as never);
+          merged++;
+        }
+      }
 
       const remainingCount = currentConflicts.length - currentConflictIndex;
       debugLog(`🔄 Batch ${action}ing ${remainingCount} conflicts...`);
@@ -116,6 +177,7 @@ export const useConflictResolution = () => {
         const decision = newResolutions.get(conflictKey);
 
         if (decision === 'replace') {
+          await recordReplaceRevision(conflict.local, conflict.incoming);
           await db.scoutingData.delete(conflict.local.id);
           await db.scoutingData.put(conflict.incoming as never);
           replaced++;
@@ -129,10 +191,10 @@ export const useConflictResolution = () => {
         }
       }
 
-      debugLog(`✅ Batch operation complete: ${replaced} replaced, ${skipped} skipped`);
+      debugLog(`✅ Batch operation complete: ${replaced} replaced, ${merged} merged, ${skipped} skipped`);
 
       toast.success(
-        `Batch operation complete! ${replaced} entries replaced, ${skipped} entries kept.`
+        `Batch operation complete! ${replaced} entries replaced, ${merged > 0 ? `${merged} merged, ` : ''}${skipped} entries kept.`
       );
 
       // Reset state
@@ -141,6 +203,7 @@ export const useConflictResolution = () => {
       setCurrentConflictIndex(0);
       setConflictResolutions(new Map());
       setResolutionHistory([]);
+      setMergedEntries(new Map());
     } finally {
       setIsProcessing(false);
     }
@@ -198,6 +261,7 @@ export const useConflictResolution = () => {
           ));
         
         if (existing) {
+          await recordReplaceRevision(existing as ScoutingEntryBase, entry);
           await db.scoutingData.delete(existing.id);
         }
         await db.scoutingData.put(entry as never);
@@ -299,6 +363,7 @@ export const useConflictResolution = () => {
     
     // Actions
     handleConflictResolution,
+    handleMergeResolution,
     handleBatchResolve,
     handleUndo,
     applyConflictResolutions,
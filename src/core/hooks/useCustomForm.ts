@@ -0,0 +1,36 @@
+/**
+ * Loads the active custom scouting form from IndexedDB.
+ * Framework hook - game-agnostic
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { getActiveCustomForm } from '@/core/db/customFormDatabase';
+import type { CustomFormDefinition } from '@/core/lib/customFormTypes';
+
+export interface UseCustomFormResult {
+  form: CustomFormDefinition | null;
+  isLoading: boolean;
+  reload: () => Promise<void>;
+}
+
+export function useCustomForm(): UseCustomFormResult {
+  const [form, setForm] = useState<CustomFormDefinition | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    try {
+      setForm(await getActiveCustomForm());
+    } catch (error) {
+      console.error('Failed to load custom form:', error);
+      setForm(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  return { form, isLoading, reload };
+}
@@ -1,6 +1,8 @@
 import { useCallback } from "react";
 import { toast } from "sonner";
 import { clearAllScoutingData, db, pitDB } from "@/core/db/database";
+import { withoutChangeLog } from "@/core/db/syncLogDatabase";
+import { clearEventWorkspace, removeEventWorkspaceItems, workspaceStorage } from "@/core/db/eventWorkspaceDatabase";
 import { clearGamificationData as clearGameData } from "@/game-template/gamification";
 import { gamificationDB as gameDB } from "@/game-template/gamification";
 import { clearAllPitScoutingData } from "@/core/lib/pitScoutingUtils";
@@ -13,7 +15,7 @@ export const useDataCleaning = (
   updateMatchData?: (matchData: string | null) => void
 ) => {
   const removeEventFromArrayStorage = useCallback((storageKey: string, eventKey: string) => {
-    const raw = localStorage.getItem(storageKey);
+    const raw = workspaceStorage.getItem(storageKey);
     if (!raw) return;
 
     try {
@@ -37,7 +39,7 @@ export const useDataCleaning = (
         return true;
       });
 
-      localStorage.setItem(storageKey, JSON.stringify(filtered));
+      workspaceStorage.setItem(storageKey, JSON.stringify(filtered));
     } catch (error) {
       console.warn(`Failed to update ${storageKey} while clearing event data`, error);
     }
@@ -63,7 +65,8 @@ export const useDataCleaning = (
       `stakesAwarded_${normalizedEventKey}`,
     ];
 
-    directKeys.forEach(key => localStorage.removeItem(key));
+    directKeys.forEach(key => workspaceStorage.removeItem(key));
+    removeEventWorkspaceItems(normalizedEventKey);
 
     removeEventFromArrayStorage('eventsList', normalizedEventKey);
     removeEventFromArrayStorage('customEventsList', normalizedEventKey);
@@ -72,7 +75,7 @@ export const useDataCleaning = (
     const currentEventKey = localStorage.getItem('eventKey');
     if (currentEventKey && currentEventKey.trim().toLowerCase() === normalizedEventKey.toLowerCase()) {
       localStorage.removeItem('eventKey');
-      localStorage.removeItem('current_event');
+      workspaceStorage.removeItem('current_event');
       localStorage.removeItem('matchData');
       if (updateMatchData) {
         updateMatchData(null);
@@ -141,7 +144,7 @@ export const useDataCleaning = (
 
   const handleClearApiData = useCallback(async () => {
     try {
-      const allKeys = Object.keys(localStorage);
+      const allKeys = workspaceStorage.keys();
       const apiKeys = allKeys.filter(key =>
         key.includes('tba_') ||
         key.startsWith('tba_') ||
@@ -158,7 +161,7 @@ export const useDataCleaning = (
       console.log('Clearing API data keys:', apiKeys);
 
       apiKeys.forEach(key => {
-        localStorage.removeItem(key);
+        workspaceStorage.removeItem(key);
       });
 
       await clearAllTBACache();
@@ -191,8 +194,9 @@ export const useDataCleaning = (
       ]);
 
       await Promise.all([
-        scoutingCount > 0 ? scoutingCollection.delete() : Promise.resolve(),
-        pitCount > 0 ? pitCollection.delete() : Promise.resolve(),
+        // Clearing an event is local housekeeping, so the deletes are not synced to peers
+        scoutingCount > 0 ? withoutChangeLog(db.scoutingData, () => scoutingCollection.delete()) : Promise.resolve(),
+        pitCount > 0 ? withoutChangeLog(pitDB.pitScoutingData, () => pitCollection.delete()) : Promise.resolve(),
         predictionCount > 0 ? predictionCollection.delete() : Promise.resolve(),
       ]);
 
@@ -226,6 +230,7 @@ export const useDataCleaning = (
       await clearAllTBACache();
 
       localStorage.clear();
+      await clearEventWorkspace();
 
       console.log("localStorage after clearing:", Object.keys(localStorage));
 
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from "react";
 import { loadScoutingData } from "@/core/lib/scoutingDataUtils";
 import { pitDB } from "@/core/db/database";
+import { workspaceStorage } from "@/core/db/eventWorkspaceDatabase";
 import { gamificationDB as gameDB } from "@/game-template/gamification";
 import { getPitScoutingStats } from "@/core/lib/pitScoutingUtils";
 
@@ -109,7 +110,7 @@ export const useDataStats = () => {
 
   const loadApiDataCount = useCallback(() => {
     try {
-      const allKeys = Object.keys(localStorage);
+      const allKeys = workspaceStorage.keys();
       const apiKeys = allKeys.filter(key =>
         key.includes('tba_') ||
         key.startsWith('tba_') ||
@@ -125,7 +126,7 @@ export const useDataStats = () => {
 
       let totalSize = 0;
       apiKeys.forEach(key => {
-        const data = localStorage.getItem(key);
+        const data = workspaceStorage.getItem(key);
         if (data) {
           totalSize += new Blob([data]).size;
         }
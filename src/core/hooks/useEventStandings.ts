@@ -0,0 +1,128 @@
+/**
+ * Official TBA standings for an event: rankings, selected alliances, the
+ * team list and the playoff bracket, read from the TBA cache so they work
+ * offline once loaded (see lib/eventStandings.ts and lib/playoffBracket.ts).
+ */
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+    getCachedEventStandings,
+    refreshEventStandings,
+    type CachedEventStandings,
+    type EventStandingsRefreshResult,
+} from "@/core/lib/tba/eventStandingsUtils";
+import { getCachedTBAEventRankings } from "@/core/lib/tbaCache";
+import {
+    getAllianceTeamNumbers,
+    getOfficialRankingsByTeam,
+    parseTBARankings,
+    type OfficialRanking,
+} from "@/core/lib/eventStandings";
+import { buildPlayoffBracket, type PlayoffBracket } from "@/core/lib/playoffBracket";
+
+export interface UseEventStandingsResult {
+    standings: CachedEventStandings | null;
+    rankings: OfficialRanking[];
+    rankingsByTeam: Map<number, OfficialRanking>;
+    /** Teams per alliance, index 0 = alliance 1 */
+    allianceTeams: number[][];
+    bracket: PlayoffBracket;
+    isLoading: boolean;
+    isRefreshing: boolean;
+    refresh: () => Promise<EventStandingsRefreshResult | null>;
+}
+
+/**
+ * @param eventKey - Event to read. Returns empty standings when omitted.
+ * @param apiKey - TBA key override; '' uses the server-side key.
+ */
+export const useEventStandings = (eventKey?: string, apiKey: string = ""): UseEventStandingsResult => {
+    const [standings, setStandings] = useState<CachedEventStandings | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isRefreshing, setIsRefreshing] = useState(false);
+
+    const loadCached = useCallback(async () => {
+        if (!eventKey) {
+            setStandings(null);
+            return;
+        }
+
+        setIsLoading(true);
+        try {
+            setStandings(await getCachedEventStandings(eventKey));
+        } catch (error) {
+            console.error("Error loading cached event standings:", error);
+            setStandings(null);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [eventKey]);
+
+    useEffect(() => {
+        void loadCached();
+    }, [loadCached]);
+
+    const refresh = useCallback(async () => {
+        if (!eventKey) return null;
+
+        setIsRefreshing(true);
+        try {
+            const result = await refreshEventStandings(eventKey, apiKey);
+            await loadCached();
+            return result;
+        } finally {
+            setIsRefreshing(false);
+        }
+    }, [eventKey, apiKey, loadCached]);
+
+    const rankings = useMemo(() => parseTBARankings(standings?.rankings), [standings]);
+    const rankingsByTeam = useMemo(() => getOfficialRankingsByTeam(rankings), [rankings]);
+    const allianceTeams = useMemo(
+        () => (standings?.alliances ?? []).map(getAllianceTeamNumbers),
+        [standings]
+    );
+    const bracket = useMemo(
+        () => buildPlayoffBracket(allianceTeams, standings?.playoffMatches ?? []),
+        [allianceTeams, standings]
+    );
+
+    return { standings, rankings, rankingsByTeam, allianceTeams, bracket, isLoading, isRefreshing, refresh };
+};
+
+/**
+ * Cached official rankings for several events at once, keyed by event
+ */
+export const useOfficialRankings = (eventKeys: readonly string[]): Map<string, Map<number, OfficialRanking>> => {
+    const [rankingsByEvent, setRankingsByEvent] = useState<Map<string, Map<number, OfficialRanking>>>(new Map());
+    const eventKeySignature = [...new Set(eventKeys)].sort().join("|");
+
+    useEffect(() => {
+        let cancelled = false;
+        const keys = eventKeySignature ? eventKeySignature.split("|") : [];
+
+        const loadRankings = async () => {
+            try {
+                const entries = await Promise.all(keys.map(async (key) => {
+                    const cached = await getCachedTBAEventRankings(key.toLowerCase());
+                    return [key, getOfficialRankingsByTeam(parseTBARankings(cached?.data))] as const;
+                }));
+
+                if (!cancelled) {
+                    setRankingsByEvent(new Map(entries.filter(([, rankings]) => rankings.size > 0)));
+                }
+            } catch (error) {
+                console.error("Error loading cached official rankings:", error);
+                if (!cancelled) {
+                    setRankingsByEvent(new Map());
+                }
+            }
+        };
+
+        void loadRankings();
+        return () => {
+            cancelled = true;
+        };
+    }, [eventKeySignature]);
+
+    return rankingsByEvent;
+};
@@ -0,0 +1,69 @@
+/**
+ * useMatchClock Hook
+ * Live view of the in-progress match clock with pause and adjust controls
+ * Framework hook - game-agnostic
+ *
+ * The clock itself lives in localStorage (see lib/matchClock), so the scoring
+ * pages and this hook stay in sync without sharing React state.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  adjustMatchClock,
+  getMatchClockElapsedMs,
+  isMatchClockPaused,
+  loadMatchClock,
+  pauseMatchClock,
+  resumeMatchClock,
+  saveMatchClock,
+  type MatchClockState,
+} from '@/core/lib/matchClock';
+
+const TICK_INTERVAL_MS = 250;
+
+export interface UseMatchClockResult {
+  /** null until the clock is started from the auto page */
+  clock: MatchClockState | null;
+  elapsedMs: number;
+  isPaused: boolean;
+  pause: () => void;
+  resume: () => void;
+  adjust: (deltaMs: number) => void;
+}
+
+export function useMatchClock(): UseMatchClockResult {
+  const [clock, setClock] = useState<MatchClockState | null>(loadMatchClock);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const intervalId = window.setInterval(() => {
+      setClock(loadMatchClock());
+      setNow(Date.now());
+    }, TICK_INTERVAL_MS);
+
+    return () => window.clearInterval(intervalId);
+  }, []);
+
+  const update = useCallback((change: (current: MatchClockState) => MatchClockState) => {
+    const current = loadMatchClock();
+    if (!current) return;
+
+    const next = change(current);
+    saveMatchClock(next);
+    setClock(next);
+    setNow(Date.now());
+  }, []);
+
+  const pause = useCallback(() => update(current => pauseMatchClock(current)), [update]);
+  const resume = useCallback(() => update(current => resumeMatchClock(current)), [update]);
+  const adjust = useCallback((deltaMs: number) => update(current => adjustMatchClock(current, deltaMs)), [update]);
+
+  return {
+    clock,
+    elapsedMs: clock ? getMatchClockElapsedMs(clock, now) : 0,
+    isPaused: clock ? isMatchClockPaused(clock) : false,
+    pause,
+    resume,
+    adjust,
+  };
+}
@@ -19,6 +19,7 @@ import { getAvailableMatchStrategyDisplayModes, type MatchStrategyDisplayMode }
 import type { Alliance } from "../lib/allianceTypes";
 import type { TeamStats } from "@/core/types/team-stats";
 import type { PitScoutingEntryBase } from "@/core/types/pit-scouting";
+import { workspaceStorage } from "@/core/db/eventWorkspaceDatabase";
 
 const MATCH_STRATEGY_EVENT_FILTER_STORAGE_KEY = "matchStrategyEventFilter";
 const MATCH_STRATEGY_AUTO_PATH_EVENTS_STORAGE_KEY = "matchStrategyAutoPathEvents";
@@ -864,7 +865,7 @@ export const useMatchStrategy = () => {
     useEffect(() => {
         const loadConfirmedAlliances = () => {
             try {
-                const savedAlliances = localStorage.getItem("confirmedAlliances");
+                const savedAlliances = workspaceStorage.getItem("confirmedAlliances");
                 if (savedAlliances) {
                     setConfirmedAlliances(JSON.parse(savedAlliances));
                 }
@@ -31,16 +31,20 @@ import {
     calculateValidationSummary,
     filterAndSortMatches,
     sortMatchList,
+    compareTeamToggles,
     extractTeamNumbers,
     parseMatchKey,
+    flattenEntryGameData,
+    getScoutedMappedValues,
 } from '@/core/lib/matchValidationUtils';
+import type { TBAMatchData } from '@/core/lib/tbaMatchData';
 import { useTBAMatchData } from '@/core/hooks/useTBAMatchData';
 import {
     storeValidationResult,
     getEventValidationResults,
     clearEventValidationResults,
 } from '@/core/lib/tbaCache';
-import { getAllMappedActionKeys, getAllMappedToggleKeys } from '@/game-template/game-schema';
+import { getActionMapping, getAllMappedActionKeys, getAllMappedToggleKeys, tbaValidation } from '@/game-template/game-schema';
 import { getEntriesByEvent } from '@/core/db/scoutingDatabase';
 import { fetchAndCacheEventCOPRs } from '@/core/lib/tba/coprUtils';
 import { extractTeamsFromMatches, fetchAndCacheEventStatboticsEPA, fetchEventTeamNumbersFromTBA } from '@/core/lib/statbotics/epaUtils';
@@ -371,7 +375,7 @@ export function useMatchValidation({
             const blueAlliance = buildAllianceValidation('blue', blueScouted, blueTBA, blueDiscrepancies, config);
 
             // Build team validation results
-            const teams = buildTeamValidations(redEntries, blueEntries, redDiscrepancies, blueDiscrepancies);
+            const teams = buildTeamValidations(redEntries, blueEntries, redDiscrepancies, blueDiscrepancies, tbaMatch, config);
 
             // Determine overall status
             const totalDiscrepancies = redDiscrepancies.length + blueDiscrepancies.length;
@@ -613,90 +617,14 @@ function aggregateScoutingData(
 
     // Aggregate from entries
     for (const entry of entries) {
-        const gameData = entry.gameData;
-        console.log('[Aggregate] Processing entry for team', entry.teamNumber, 'gameData:', gameData);
-
-        // Get flattened values from nested gameData structure
-        // gameData can be { auto: {...}, teleop: {...}, endgame: {...} } or flat
-        const flatGameData: Record<string, unknown> = {};
-
-        // Check if gameData is nested (has auto/teleop/endgame phases)
-        const phases = ['auto', 'teleop', 'endgame'];
-        for (const phase of phases) {
-            const phaseData = gameData[phase] as Record<string, unknown> | undefined;
-            if (phaseData && typeof phaseData === 'object') {
-                // Flatten phase data - extract values from nested structure
-                for (const [key, value] of Object.entries(phaseData)) {
-                    flatGameData[key] = value;
-                }
-            }
-        }
-
-        // Also include any top-level flat values
-        for (const [key, value] of Object.entries(gameData)) {
-            if (!phases.includes(key)) {
-                flatGameData[key] = value;
-            }
-        }
+        const values = getScoutedMappedValues(entry.gameData);
 
-        // Derive phase-specific fuel fields for validation mappings
-        const autoPhase = (gameData.auto && typeof gameData.auto === 'object')
-            ? (gameData.auto as Record<string, unknown>)
-            : null;
-        const teleopPhase = (gameData.teleop && typeof gameData.teleop === 'object')
-            ? (gameData.teleop as Record<string, unknown>)
-            : null;
-
-        const autoFuel =
-            (typeof autoPhase?.fuelScoredCount === 'number' ? autoPhase.fuelScoredCount : undefined) ??
-            (typeof autoPhase?.fuelScored === 'number' ? autoPhase.fuelScored : undefined) ??
-            (typeof flatGameData.autoFuelScored === 'number' ? flatGameData.autoFuelScored : undefined) ??
-            (typeof flatGameData.autoFuelScoredCount === 'number' ? flatGameData.autoFuelScoredCount : undefined) ??
-            0;
-
-        const teleopFuel =
-            (typeof teleopPhase?.fuelScoredCount === 'number' ? teleopPhase.fuelScoredCount : undefined) ??
-            (typeof teleopPhase?.fuelScored === 'number' ? teleopPhase.fuelScored : undefined) ??
-            (typeof flatGameData.teleopFuelScored === 'number' ? flatGameData.teleopFuelScored : undefined) ??
-            (typeof flatGameData.teleopFuelScoredCount === 'number' ? flatGameData.teleopFuelScoredCount : undefined) ??
-            0;
-
-        flatGameData.autoFuelScored = autoFuel;
-        flatGameData.teleopFuelScored = teleopFuel;
-        flatGameData.totalFuelScored = autoFuel + teleopFuel;
-
-        const autoClimbSuccess =
-            autoPhase?.autoClimbL1 === true ||
-            autoPhase?.autoClimbL2 === true ||
-            autoPhase?.autoClimbL3 === true ||
-            flatGameData.autoClimbL1 === true ||
-            flatGameData.autoClimbL2 === true ||
-            flatGameData.autoClimbL3 === true;
-
-        flatGameData.autoClimbSuccess = autoClimbSuccess;
-
-        console.log('[Aggregate] Flattened gameData:', flatGameData);
-
-        // Sum actions
         for (const key of actionKeys) {
-            // Try both flat key and phase-prefixed keys
-            let value = flatGameData[key];
-            if (value === undefined) {
-                // Try with phase prefixes (e.g., action1Count might be stored as is)
-                value = flatGameData[`${key}Count`];
-            }
-            if (typeof value === 'number') {
-                data.actions[key] = (data.actions[key] ?? 0) + value;
-            }
+            data.actions[key] = (data.actions[key] ?? 0) + (values.actions[key] ?? 0);
         }
 
-        // Count toggles
         for (const key of toggleKeys) {
-            const value = flatGameData[key];
-            console.log('[Aggregate] Toggle', key, '=', value, 'type:', typeof value);
-            if (value === true || value === 1) {
-                data.toggles[key] = (data.toggles[key] ?? 0) + 1;
-            }
+            data.toggles[key] = (data.toggles[key] ?? 0) + (values.toggles[key] ?? 0);
         }
     }
 
@@ -742,43 +670,75 @@ function buildAllianceValidation(
 }
 
 /**
- * Build team validation results
+ * Build team validation results. Toggles with one TBA field per robot are
+ * checked against the team's own slot, so a climb credited to the wrong robot
+ * shows up on that team even when the alliance totals agree.
  */
 function buildTeamValidations(
     redEntries: Array<{ teamNumber: number; scoutName: string; gameData: Record<string, unknown> }>,
     blueEntries: Array<{ teamNumber: number; scoutName: string; gameData: Record<string, unknown> }>,
     redDiscrepancies: import('@/core/lib/matchValidationTypes').Discrepancy[],
-    blueDiscrepancies: import('@/core/lib/matchValidationTypes').Discrepancy[]
+    blueDiscrepancies: import('@/core/lib/matchValidationTypes').Discrepancy[],
+    tbaMatch: Pick<TBAMatchData, 'alliances' | 'score_breakdown'>,
+    config: ValidationConfig
 ): TeamValidation[] {
-    const teams: TeamValidation[] = [];
-
-    for (const entry of redEntries) {
-        teams.push({
-            teamNumber: entry.teamNumber.toString(),
-            alliance: 'red',
-            scoutName: entry.scoutName,
-            hasScoutedData: true,
-            discrepancies: [],  // Per-team discrepancies would need more complex logic
-            confidence: 'medium',
-            flagForReview: redDiscrepancies.some(d => d.severity === 'critical'),
-            notes: [],
+    const buildAllianceTeams = (
+        alliance: 'red' | 'blue',
+        entries: Array<{ teamNumber: number; scoutName: string; gameData: Record<string, unknown> }>,
+        allianceDiscrepancies: import('@/core/lib/matchValidationTypes').Discrepancy[]
+    ): TeamValidation[] => {
+        const tbaTeams = extractTeamNumbers(tbaMatch.alliances[alliance].team_keys);
+        const breakdown = tbaMatch.score_breakdown?.[alliance] as Record<string, unknown> | undefined;
+
+        return entries.map(entry => {
+            const flatGameData = flattenEntryGameData(entry.gameData);
+            const robotIndex = tbaTeams.indexOf(entry.teamNumber.toString());
+            // Only teams found in TBA's lineup get per-team checks
+            const compared = robotIndex >= 0 && !!breakdown;
+            const discrepancies = compared
+                ? compareTeamToggles(robotIndex, flatGameData, breakdown, config)
+                : [];
+
+            return {
+                teamNumber: entry.teamNumber.toString(),
+                alliance,
+                scoutName: entry.scoutName,
+                hasScoutedData: true,
+                discrepancies,
+                confidence: 'medium',
+                flagForReview: [...allianceDiscrepancies, ...discrepancies].some(d => d.severity === 'critical'),
+                notes: compared ? [] : [`Team ${entry.teamNumber} is not in TBA's ${alliance} lineup`],
+                scoringBreakdown: compared ? buildTeamScoringBreakdown(flatGameData) : undefined,
+            };
         });
+    };
+
+    return [
+        ...buildAllianceTeams('red', redEntries, redDiscrepancies),
+        ...buildAllianceTeams('blue', blueEntries, blueDiscrepancies),
+    ];
+}
+
+/**
+ * Per-team values behind the mapped actions and toggles, split by phase
+ */
+function buildTeamScoringBreakdown(flatGameData: Record<string, unknown>): NonNullable<TeamValidation['scoringBreakdown']> {
+    const scoringBreakdown: NonNullable<TeamValidation['scoringBreakdown']> = { auto: {}, teleop: {}, endgame: {} };
+
+    for (const key of getAllMappedActionKeys()) {
+        const value = flatGameData[key] ?? flatGameData[`${key}Count`];
+        const phase = tbaValidation.categories.find(category => category.key === getActionMapping(key).category)?.phase;
+        if (typeof value === 'number') {
+            scoringBreakdown[phase === 'auto' ? 'auto' : 'teleop'][key] = value;
+        }
     }
 
-    for (const entry of blueEntries) {
-        teams.push({
-            teamNumber: entry.teamNumber.toString(),
-            alliance: 'blue',
-            scoutName: entry.scoutName,
-            hasScoutedData: true,
-            discrepancies: [],
-            confidence: 'medium',
-            flagForReview: blueDiscrepancies.some(d => d.severity === 'critical'),
-            notes: [],
-        });
+    for (const key of getAllMappedToggleKeys()) {
+        const value = flatGameData[key];
+        scoringBreakdown.endgame[key] = value === true || value === 1;
     }
 
-    return teams;
+    return scoringBreakdown;
 }
 
 /**
@@ -0,0 +1,101 @@
+/**
+ * Poll the Nexus live queue for an event
+ *
+ * Fetches the event status through the API proxy (or the local mock, see
+ * lib/nexusQueue.ts) while enabled, and posts new Nexus announcements to
+ * NotificationContext. Announcements already posted when polling starts are
+ * treated as seen so turning the mode on does not replay the whole day.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useNotifications } from "@/core/contexts/NotificationContext";
+import type { NexusEventStatus, NexusMatch } from "@/core/lib/nexusUtils";
+import {
+    fetchNexusQueueStatus,
+    getNewAnnouncements,
+    getQueuingMatch,
+    parseNexusMatchLabel,
+    NEXUS_QUEUE_POLL_INTERVAL_MS,
+    type NexusQueueTarget,
+} from "@/core/lib/nexusQueue";
+
+export interface UseNexusQueueResult {
+    status: NexusEventStatus | null;
+    queuingMatch: NexusMatch | null;
+    /** Game Start match type and number for the queuing match, if it is one we scout */
+    queuingTarget: NexusQueueTarget | null;
+    lastUpdated: number | null;
+    isLoading: boolean;
+    error: Error | null;
+    refresh: () => Promise<void>;
+}
+
+export const useNexusQueue = (
+    eventKey: string,
+    enabled: boolean,
+    intervalMs: number = NEXUS_QUEUE_POLL_INTERVAL_MS
+): UseNexusQueueResult => {
+    const { showNotification } = useNotifications();
+    const [status, setStatus] = useState<NexusEventStatus | null>(null);
+    const [lastUpdated, setLastUpdated] = useState<number | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<Error | null>(null);
+    const seenAnnouncementsRef = useRef<Set<string> | null>(null);
+
+    const refresh = useCallback(async () => {
+        if (!eventKey) return;
+
+        setIsLoading(true);
+        try {
+            const next = await fetchNexusQueueStatus(eventKey);
+            const seen = seenAnnouncementsRef.current;
+
+            if (seen) {
+                getNewAnnouncements(next, seen).forEach(announcement => {
+                    showNotification({
+                        type: "info",
+                        title: "Nexus announcement",
+                        message: announcement.announcement,
+                        duration: 15000,
+                    });
+                });
+            }
+            seenAnnouncementsRef.current = new Set(next.announcements.map(announcement => announcement.id));
+
+            setStatus(next);
+            setLastUpdated(Date.now());
+            setError(null);
+        } catch (err) {
+            setError(err instanceof Error ? err : new Error("Failed to load Nexus queue"));
+        } finally {
+            setIsLoading(false);
+        }
+    }, [eventKey, showNotification]);
+
+    useEffect(() => {
+        seenAnnouncementsRef.current = null;
+        setStatus(null);
+        setLastUpdated(null);
+        setError(null);
+    }, [eventKey]);
+
+    useEffect(() => {
+        if (!enabled || !eventKey) return;
+
+        refresh();
+        const interval = setInterval(refresh, intervalMs);
+        return () => clearInterval(interval);
+    }, [enabled, eventKey, intervalMs, refresh]);
+
+    const queuingMatch = getQueuingMatch(status);
+
+    return {
+        status,
+        queuingMatch,
+        queuingTarget: parseNexusMatchLabel(queuingMatch?.label),
+        lastUpdated,
+        isLoading,
+        error,
+        refresh,
+    };
+};
@@ -0,0 +1,158 @@
+/**
+ * Pairwise Votes Hook
+ *
+ * Loads and saves the pairwise ranking votes for one event, and moves them
+ * between strategists' devices as JSON files that merge into what is
+ * already here. Undone and cleared votes travel as removed ids, so a merge
+ * never brings them back.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { toast } from "sonner";
+import { downloadTextFile } from "@/core/lib/downloadUtils";
+import {
+    buildPairwiseVotesTransferPayload,
+    createPairwiseVote,
+    getPairwiseVotesStorageKey,
+    getRemovedPairwiseVotesStorageKey,
+    isPairwiseVotesTransferPayload,
+    loadPairwiseVotes,
+    mergePairwiseVoteSets,
+    removePairwiseVotes,
+    savePairwiseVotes,
+    type PairwiseVote,
+    type PairwiseVoteSet,
+} from "@/core/lib/pairwiseRanking";
+
+const EMPTY_VOTE_SET: PairwiseVoteSet = { votes: [], removedIds: [] };
+
+export interface UsePairwiseVotesResult {
+    votes: PairwiseVote[];
+    voter: string;
+    castVote: (winner: number, loser: number) => void;
+    undoLastVote: () => void;
+    clearMyVotes: () => void;
+    exportVotes: () => void;
+    importVotes: (event: React.ChangeEvent<HTMLInputElement>) => void;
+}
+
+export const usePairwiseVotes = (eventKey: string): UsePairwiseVotesResult => {
+    const [voteSet, setVoteSet] = useState<PairwiseVoteSet>(() => (eventKey ? loadPairwiseVotes(eventKey) : EMPTY_VOTE_SET));
+    const { votes } = voteSet;
+    const voter = localStorage.getItem("currentScout") || "Strategist";
+
+    useEffect(() => {
+        setVoteSet(eventKey ? loadPairwiseVotes(eventKey) : EMPTY_VOTE_SET);
+
+        // Votes cast or removed in another tab
+        const handleStorage = (event: StorageEvent) => {
+            if (!eventKey) return;
+            if (event.key === getPairwiseVotesStorageKey(eventKey) || event.key === getRemovedPairwiseVotesStorageKey(eventKey)) {
+                setVoteSet(loadPairwiseVotes(eventKey));
+            }
+        };
+        window.addEventListener("storage", handleStorage);
+        return () => window.removeEventListener("storage", handleStorage);
+    }, [eventKey]);
+
+    const updateVotes = useCallback((update: (current: PairwiseVoteSet) => PairwiseVoteSet) => {
+        if (!eventKey) return;
+        setVoteSet((current) => {
+            const next = update(current);
+            savePairwiseVotes(eventKey, next);
+            return next;
+        });
+    }, [eventKey]);
+
+    const castVote = useCallback((winner: number, loser: number) => {
+        updateVotes((current) => ({
+            ...current,
+            votes: [...current.votes, createPairwiseVote(eventKey, winner, loser, voter)],
+        }));
+    }, [eventKey, updateVotes, voter]);
+
+    const undoLastVote = useCallback(() => {
+        // Only ever take back this strategist's own vote, never a merged one
+        updateVotes((current) => {
+            const lastVote = current.votes.filter((vote) => vote.voter === voter).pop();
+            return lastVote ? removePairwiseVotes(current, [lastVote.id]) : current;
+        });
+    }, [updateVotes, voter]);
+
+    const clearMyVotes = useCallback(() => {
+        updateVotes((current) => removePairwiseVotes(
+            current,
+            current.votes.filter((vote) => vote.voter === voter).map((vote) => vote.id)
+        ));
+    }, [updateVotes, voter]);
+
+    const exportVotes = useCallback(() => {
+        // A file with only removals still matters: it takes the votes back on other devices
+        if (voteSet.votes.length === 0 && voteSet.removedIds.length === 0) {
+            toast.error("No votes to export");
+            return;
+        }
+
+        const payload = buildPairwiseVotesTransferPayload(eventKey, voteSet);
+        downloadTextFile(
+            `pairwise-votes-${eventKey}-${voter.replace(/\s+/g, "-").toLowerCase()}.json`,
+            JSON.stringify(payload, null, 2),
+            "application/json;charset=utf-8"
+        );
+        toast.success(`${voteSet.votes.length} votes exported`);
+    }, [eventKey, voteSet, voter]);
+
+    const importVotes = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+
+        const reader = new FileReader();
+        reader.onload = (e) => {
+            try {
+                const result = e.target?.result as string;
+                const importedData: unknown = result ? JSON.parse(result) : null;
+
+                if (!isPairwiseVotesTransferPayload(importedData)) {
+                    toast.error("Invalid vote file");
+                    return;
+                }
+
+                if (importedData.eventKey.trim().toLowerCase() !== eventKey.trim().toLowerCase()) {
+                    toast.error(`These votes are for ${importedData.eventKey}, not ${eventKey}`);
+                    return;
+                }
+
+                const merged = mergePairwiseVoteSets(voteSet, {
+                    votes: importedData.votes,
+                    removedIds: importedData.removedVoteIds,
+                });
+                const currentIds = new Set(voteSet.votes.map((vote) => vote.id));
+                const mergedIds = new Set(merged.votes.map((vote) => vote.id));
+                const added = merged.votes.filter((vote) => !currentIds.has(vote.id)).length;
+                const removed = voteSet.votes.filter((vote) => !mergedIds.has(vote.id)).length;
+                updateVotes(() => merged);
+
+                if (added === 0 && removed === 0) {
+                    toast.success("No new votes in file");
+                } else {
+                    toast.success(removed > 0 ? `Merged ${added} new votes, ${removed} taken back` : `Merged ${added} new votes`);
+                }
+            } catch {
+                toast.error("Error importing votes");
+            } finally {
+                event.target.value = "";
+            }
+        };
+        reader.readAsText(file);
+    }, [eventKey, updateVotes, voteSet]);
+
+    return {
+        votes,
+        voter,
+        castVote,
+        undoLastVote,
+        clearMyVotes,
+        exportVotes,
+        importVotes,
+    };
+};
@@ -7,9 +7,15 @@ import { useEffect, useCallback } from 'react';
 import { toast } from 'sonner';
 import { detectConflicts, type ConflictInfo } from '@/core/lib/scoutingDataUtils';
 import { importPitAssignmentsPayload, type PitAssignmentTransferPayload } from '@/core/lib/pitAssignmentTransfer';
+import { importMatchAssignmentsPayload, type MatchAssignmentTransferPayload } from '@/core/lib/matchAssignmentTransfer';
 import type { ScoutingEntryBase } from '@/core/types/scouting-entry';
+import type { ConflictAction } from '@/core/hooks/useConflictResolution';
 import { debugLog } from '@/core/lib/peerTransferUtils';
-import { db, pitDB, saveScoutingEntry } from '@/core/db/database';
+import { db, savePitScoutingEntries, saveScoutingEntry } from '@/core/db/database';
+import type { PitScoutingEntryBase } from '@/core/types/pit-scouting';
+import { importPitPhotoPayload } from '@/core/lib/pitScoutingUtils';
+import { isPitPhotoTransferPayload, rememberPeerPhotos } from '@/core/lib/pitPhotos';
+import { handleSyncDeltaUpload } from '@/core/lib/uploadHandlers/syncDeltaUploadHandler';
 import { normalizeTransferredScoutProfile } from '@/core/lib/normalizeTransferredScoutProfile';
 import { normalizeTransferredMatchPrediction } from '@/core/lib/normalizeTransferredMatchPrediction';
 import { normalizeTransferredScoutAchievement } from '@/core/lib/normalizeTransferredScoutAchievement';
@@ -52,7 +58,7 @@ interface UsePeerTransferImportOptions {
     setShowBatchDialog: (show: boolean) => void;
     setCurrentConflicts: (conflicts: ConflictInfo[]) => void;
     setCurrentConflictIndex: (index: number) => void;
-    setConflictResolutions: React.Dispatch<React.SetStateAction<Map<string, 'skip' | 'replace'>>>;
+    setConflictResolutions: React.Dispatch<React.SetStateAction<Map<string, ConflictAction>>>;
     setShowConflictDialog: (show: boolean) => void;
     setErrorMessage: (message: string) => void;
     setShowErrorDialog: (show: boolean) => void;
@@ -117,7 +123,7 @@ export function usePeerTransferImport(options: UsePeerTransferImportOptions) {
 
     const importPitScoutingData = useCallback(async (pitData: { entries?: unknown[] }, scoutName: string) => {
         if (pitData.entries && Array.isArray(pitData.entries)) {
-            await pitDB.pitScoutingData.bulkPut(pitData.entries as never[]);
+            await savePitScoutingEntries(pitData.entries as PitScoutingEntryBase[]);
             toast.success(`Imported ${pitData.entries.length} pit scouting entries from ${scoutName}`);
         }
     }, []);
@@ -329,6 +335,27 @@ export function usePeerTransferImport(options: UsePeerTransferImportOptions) {
                         return;
                     }
 
+                    if (receivedDataType === 'pit-photos') {
+                        if (isPitPhotoTransferPayload(receivedDataObj)) {
+                            const result = await importPitPhotoPayload(receivedDataObj);
+                            rememberPeerPhotos(latest.scoutName, receivedDataObj.photos);
+                            const received = result.added + result.updated;
+                            toast.success(received > 0
+                                ? `Imported ${received} ${received === 1 ? 'photo' : 'photos'} from ${latest.scoutName}`
+                                : `${latest.scoutName} had no new photos`);
+                        } else {
+                            toast.error(`Invalid pit photos from ${latest.scoutName}`);
+                        }
+                        setImportedDataCount(receivedData.length);
+                        return;
+                    }
+
+                    if (receivedDataType === 'sync-delta') {
+                        await handleSyncDeltaUpload(receivedDataObj, 'smart-merge');
+                        setImportedDataCount(receivedData.length);
+                        return;
+                    }
+
                     if (receivedDataType === 'pit-assignments') {
                         const currentScout = localStorage.getItem('currentScout') || '';
                         if (!currentScout.trim()) {
@@ -353,6 +380,23 @@ export function usePeerTransferImport(options: UsePeerTransferImportOptions) {
                         return;
                     }
 
+                    if (receivedDataType === 'match-assignments') {
+                        const result = importMatchAssignmentsPayload(
+                            receivedDataObj as MatchAssignmentTransferPayload,
+                            localStorage.getItem('currentScout') || '',
+                            'merge',
+                        );
+
+                        if (result.strategy === 'cancel') {
+                            toast.info(`Skipped match assignments from ${latest.scoutName}`);
+                        } else {
+                            toast.success(`Imported ${result.importedCount} match assignments from ${latest.scoutName}`);
+                        }
+
+                        setImportedDataCount(receivedData.length);
+                        return;
+                    }
+
                     // Handle scouting data and combined
                     const scoutingDataObj = receivedDataObj as {
                         entries?: ScoutingEntryBase[];
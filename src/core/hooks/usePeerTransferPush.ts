@@ -1,6 +1,7 @@
 import { useCallback } from 'react';
 import type { TransferDataType } from '@/core/contexts/WebRTCContext';
 import { buildPitAssignmentsTransferPayload } from '@/core/lib/pitAssignmentTransfer';
+import { buildMatchAssignmentsTransferPayload } from '@/core/lib/matchAssignmentTransfer';
 import { applyFilters, filterPitScoutingEntries, filterScoutProfilePayload, type DataFilters } from '@/core/lib/dataFiltering';
 import { toast } from 'sonner';
 
@@ -16,7 +17,7 @@ interface UsePeerTransferPushOptions {
 
 export function usePeerTransferPush({ addToReceivedData, pushDataToAll }: UsePeerTransferPushOptions) {
 
-    const loadDataByType = useCallback(async (dataType: TransferDataType, filters?: DataFilters): Promise<unknown> => {
+    const loadDataByType = useCallback(async (dataType: TransferDataType, filters?: DataFilters, peerNames: string[] = []): Promise<unknown> => {
         switch (dataType) {
             case 'scouting': {
                 const { loadScoutingData } = await import('@/core/lib/scoutingDataUtils');
@@ -42,6 +43,16 @@ export function usePeerTransferPush({ addToReceivedData, pushDataToAll }: UsePee
                     exportedAt: Date.now()
                 };
             }
+            case 'pit-photos': {
+                const { exportPitPhotoPayload } = await import('@/core/lib/pitScoutingUtils');
+                const { getPeerPhotoManifest, selectPhotosMissingFromAny } = await import('@/core/lib/pitPhotos');
+
+                // One payload goes to everyone, so send what any peer is missing
+                const payload = await exportPitPhotoPayload({ filters });
+                const photos = selectPhotosMissingFromAny(payload.photos, peerNames.map(getPeerPhotoManifest));
+                debugLog('Loaded pit photos:', photos.length, 'of', payload.photos.length, 'photos');
+                return { ...payload, photos };
+            }
             case 'pit-assignments': {
                 const eventKey = localStorage.getItem('eventKey') || localStorage.getItem('eventName') || '';
                 const sourceScoutName = localStorage.getItem('currentScout') || 'Lead Scout';
@@ -54,6 +65,18 @@ export function usePeerTransferPush({ addToReceivedData, pushDataToAll }: UsePee
                 debugLog('Loaded pit assignments data:', payload.assignments.length, 'assignments');
                 return payload;
             }
+            case 'match-assignments': {
+                const eventKey = localStorage.getItem('eventKey') || localStorage.getItem('eventName') || '';
+                const sourceScoutName = localStorage.getItem('currentScout') || 'Lead Scout';
+
+                if (!eventKey) {
+                    throw new Error('No active event found for match assignment transfer');
+                }
+
+                const payload = buildMatchAssignmentsTransferPayload(eventKey, sourceScoutName);
+                debugLog('Loaded match assignments data:', payload.assignments.length, 'assignments');
+                return payload;
+            }
             case 'match': {
                 const matchDataStr = localStorage.getItem('matchData');
                 const matches = matchDataStr ? JSON.parse(matchDataStr) : [];
@@ -106,6 +129,18 @@ export function usePeerTransferPush({ addToReceivedData, pushDataToAll }: UsePee
                 });
                 return data;
             }
+            case 'sync-delta': {
+                const { exportSyncDelta } = await import('@/core/db/database');
+                const { findSyncCursorByName } = await import('@/core/db/syncLogDatabase');
+                const { meetClocks } = await import('@/core/lib/syncLog');
+
+                // One payload goes to everyone, so send what the least up-to-date peer is missing
+                const cursors = await Promise.all(peerNames.map(name => findSyncCursorByName(name)));
+                const since = meetClocks(cursors.map(cursor => cursor?.seen ?? {}));
+                const payload = await exportSyncDelta(since);
+                debugLog('Loaded sync delta:', payload.changes.length, 'changes');
+                return payload;
+            }
             default:
                 throw new Error(`Unknown data type: ${dataType}`);
         }
@@ -119,13 +154,13 @@ export function usePeerTransferPush({ addToReceivedData, pushDataToAll }: UsePee
         try {
             debugLog('📤 Pushing', dataType, 'data to all scouts');
 
-            const data = await loadDataByType(dataType, filters);
+            const readyScouts = connectedScouts.filter(s => s.channel?.readyState === 'open');
+            const data = await loadDataByType(dataType, filters, readyScouts.map(s => s.name));
 
             // Push data to all scouts
             pushDataToAll(data, dataType);
 
             // Add entries to received data for each scout that was pushed to
-            const readyScouts = connectedScouts.filter(s => s.channel?.readyState === 'open');
             readyScouts.forEach(scout => {
                 addToReceivedData({
                     scoutName: scout.name,
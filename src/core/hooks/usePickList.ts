@@ -31,6 +31,7 @@ import {
 } from "@/game-template/pick-list-config";
 import type { Alliance, BackupTeam } from "@/core/lib/allianceTypes";
 import type { TeamStats } from "@/core/types/team-stats";
+import { workspaceStorage } from "@/core/db/eventWorkspaceDatabase";
 
 type AlliancePosition = 'captain' | 'pick1' | 'pick2' | 'pick3';
 
@@ -231,7 +232,7 @@ export const usePickList = (eventKey?: string): UsePickListResult => {
 
     // Load pick lists from localStorage
     useEffect(() => {
-        const savedLists = localStorage.getItem("pickLists");
+        const savedLists = workspaceStorage.getItem("pickLists");
         if (savedLists) {
             try {
                 setPickLists(JSON.parse(savedLists));
@@ -247,12 +248,12 @@ export const usePickList = (eventKey?: string): UsePickListResult => {
     // Save pick lists to localStorage
     useEffect(() => {
         if (!isInitialized) return;
-        localStorage.setItem("pickLists", JSON.stringify(pickLists));
+        workspaceStorage.setItem("pickLists", JSON.stringify(pickLists));
     }, [pickLists, isInitialized]);
 
     // Load alliances from localStorage
     useEffect(() => {
-        const savedAlliances = localStorage.getItem("alliances");
+        const savedAlliances = workspaceStorage.getItem("alliances");
         if (savedAlliances) {
             try {
                 setAlliances(JSON.parse(savedAlliances));
@@ -266,7 +267,7 @@ export const usePickList = (eventKey?: string): UsePickListResult => {
 
     // Load team membership snapshots from localStorage
     useEffect(() => {
-        const savedSnapshots = localStorage.getItem(TEAM_MEMBERSHIP_SNAPSHOTS_STORAGE_KEY);
+        const savedSnapshots = workspaceStorage.getItem(TEAM_MEMBERSHIP_SNAPSHOTS_STORAGE_KEY);
         if (!savedSnapshots) {
             return;
         }
@@ -280,7 +281,7 @@ export const usePickList = (eventKey?: string): UsePickListResult => {
 
     // Load available team filtering preference from localStorage
     useEffect(() => {
-        const savedPreference = localStorage.getItem("pickListHideAllianceAssignedTeams");
+        const savedPreference = workspaceStorage.getItem("pickListHideAllianceAssignedTeams");
         if (savedPreference !== null) {
             setHideAllianceAssignedTeams(savedPreference === "true");
         }
@@ -289,24 +290,24 @@ export const usePickList = (eventKey?: string): UsePickListResult => {
     // Save alliances to localStorage
     useEffect(() => {
         if (alliances.length > 0) {
-            localStorage.setItem("alliances", JSON.stringify(alliances));
+            workspaceStorage.setItem("alliances", JSON.stringify(alliances));
         }
     }, [alliances]);
 
     // Save team membership snapshots to localStorage
     useEffect(() => {
-        localStorage.setItem(TEAM_MEMBERSHIP_SNAPSHOTS_STORAGE_KEY, JSON.stringify(teamMembershipSnapshots));
+        workspaceStorage.setItem(TEAM_MEMBERSHIP_SNAPSHOTS_STORAGE_KEY, JSON.stringify(teamMembershipSnapshots));
     }, [teamMembershipSnapshots]);
 
     // Save available team filtering preference to localStorage
     useEffect(() => {
-        localStorage.setItem("pickListHideAllianceAssignedTeams", String(hideAllianceAssignedTeams));
+        workspaceStorage.setItem("pickListHideAllianceAssignedTeams", String(hideAllianceAssignedTeams));
     }, [hideAllianceAssignedTeams]);
 
     // Load event filter preference from localStorage
     useEffect(() => {
-        const savedPickListEvent = localStorage.getItem(PICK_LIST_EVENT_STORAGE_KEY)
-            ?? localStorage.getItem(LEGACY_PICK_LIST_EVENT_STORAGE_KEY);
+        const savedPickListEvent = workspaceStorage.getItem(PICK_LIST_EVENT_STORAGE_KEY)
+            ?? workspaceStorage.getItem(LEGACY_PICK_LIST_EVENT_STORAGE_KEY);
         if (savedPickListEvent && savedPickListEvent.trim() && savedPickListEvent !== "all") {
             setPickListEvent(savedPickListEvent);
         }
@@ -314,13 +315,13 @@ export const usePickList = (eventKey?: string): UsePickListResult => {
 
     // Save pick list event preference to localStorage
     useEffect(() => {
-        localStorage.setItem(PICK_LIST_EVENT_STORAGE_KEY, pickListEvent);
-        localStorage.removeItem(LEGACY_PICK_LIST_EVENT_STORAGE_KEY);
+        workspaceStorage.setItem(PICK_LIST_EVENT_STORAGE_KEY, pickListEvent);
+        workspaceStorage.removeItem(LEGACY_PICK_LIST_EVENT_STORAGE_KEY);
     }, [pickListEvent]);
 
     // Load backups from localStorage
     useEffect(() => {
-        const savedBackups = localStorage.getItem("backups");
+        const savedBackups = workspaceStorage.getItem("backups");
         if (savedBackups) {
             try {
                 setBackups(JSON.parse(savedBackups));
@@ -333,7 +334,7 @@ export const usePickList = (eventKey?: string): UsePickListResult => {
     // Save backups to localStorage
     useEffect(() => {
         if (backups.length > 0) {
-            localStorage.setItem("backups", JSON.stringify(backups));
+            workspaceStorage.setItem("backups", JSON.stringify(backups));
         }
     }, [backups]);
 
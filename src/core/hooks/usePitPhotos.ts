@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  deletePitPhoto,
+  loadPitPhotosByTeamAndEvent,
+  savePitPhoto,
+} from "@/core/db/database";
+import { createPitPhotoId, sortPitPhotos, type PitPhoto, type PitPhotoTag } from "@/core/lib/pitPhotos";
+
+interface UsePitPhotosReturn {
+  photos: PitPhoto[];
+  isLoading: boolean;
+  addPhoto: (tag: PitPhotoTag, images: { image: Blob; thumbnail: Blob }, takenBy: string) => Promise<PitPhoto | null>;
+  updatePhoto: (photo: PitPhoto) => Promise<void>;
+  removePhoto: (id: string) => Promise<void>;
+}
+
+/**
+ * Photos for one team at one event. Photos are saved as soon as they are
+ * taken or edited, independently of the pit scouting form.
+ */
+export function usePitPhotos(teamNumber: number | "", eventKey: string): UsePitPhotosReturn {
+  const [photos, setPhotos] = useState<PitPhoto[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [reloadToken, setReloadToken] = useState(0);
+
+  useEffect(() => {
+    if (teamNumber === "" || !eventKey) {
+      setPhotos([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    loadPitPhotosByTeamAndEvent(teamNumber, eventKey)
+      .then((loaded) => {
+        if (!cancelled) setPhotos(sortPitPhotos(loaded));
+      })
+      .catch((error) => {
+        console.error("Error loading pit photos:", error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [teamNumber, eventKey, reloadToken]);
+
+  const reload = useCallback(() => setReloadToken((token) => token + 1), []);
+
+  const addPhoto = useCallback(async (
+    tag: PitPhotoTag,
+    images: { image: Blob; thumbnail: Blob },
+    takenBy: string
+  ): Promise<PitPhoto | null> => {
+    if (teamNumber === "" || !eventKey) return null;
+
+    const now = Date.now();
+    const photo: PitPhoto = {
+      id: createPitPhotoId(teamNumber, eventKey, now),
+      teamNumber,
+      eventKey,
+      tag,
+      image: images.image,
+      thumbnail: images.thumbnail,
+      annotations: [],
+      takenBy,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await savePitPhoto(photo);
+    reload();
+    return photo;
+  }, [teamNumber, eventKey, reload]);
+
+  const updatePhoto = useCallback(async (photo: PitPhoto) => {
+    await savePitPhoto({ ...photo, updatedAt: Date.now() });
+    reload();
+  }, [reload]);
+
+  const removePhoto = useCallback(async (id: string) => {
+    await deletePitPhoto(id);
+    reload();
+  }, [reload]);
+
+  return {
+    photos,
+    isLoading,
+    addPhoto,
+    updatePhoto,
+    removePhoto,
+  };
+}
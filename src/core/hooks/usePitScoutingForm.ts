@@ -11,7 +11,6 @@ interface PitScoutingFormState {
   teamNumber: number | "";
   eventKey: string;
   scoutName: string;
-  robotPhoto?: string;
   weight?: number;
   drivetrain?: DrivetrainType;
   programmingLanguage?: ProgrammingLanguage;
@@ -27,7 +26,6 @@ interface UsePitScoutingFormReturn {
   setTeamNumber: (value: number | "") => void;
   setEventKey: (value: string) => void;
   setScoutName: (value: string) => void;
-  setRobotPhoto: (value: string | undefined) => void;
   setWeight: (value: number | undefined) => void;
   setDrivetrain: (value: DrivetrainType | undefined) => void;
   setProgrammingLanguage: (value: ProgrammingLanguage | undefined) => void;
@@ -52,7 +50,6 @@ export function usePitScoutingForm(): UsePitScoutingFormReturn {
     teamNumber: "",
     eventKey: localStorage.getItem("eventKey") || "",
     scoutName: localStorage.getItem("currentScout") || "",
-    robotPhoto: undefined,
     weight: undefined,
     drivetrain: undefined,
     programmingLanguage: undefined,
@@ -67,7 +64,6 @@ export function usePitScoutingForm(): UsePitScoutingFormReturn {
     setFormState((prev) => ({
       ...prev,
       scoutName: reuseExistingId ? entry.scoutName : prev.scoutName,
-      robotPhoto: entry.robotPhoto,
       weight: entry.weight,
       drivetrain: entry.drivetrain,
       programmingLanguage: entry.programmingLanguage,
@@ -130,10 +126,6 @@ export function usePitScoutingForm(): UsePitScoutingFormReturn {
     setFormState((prev) => ({ ...prev, scoutName: value }));
   }, []);
 
-  const setRobotPhoto = useCallback((value: string | undefined) => {
-    setFormState((prev) => ({ ...prev, robotPhoto: value }));
-  }, []);
-
   const setWeight = useCallback((value: number | undefined) => {
     setFormState((prev) => ({ ...prev, weight: value }));
   }, []);
@@ -194,7 +186,6 @@ export function usePitScoutingForm(): UsePitScoutingFormReturn {
         eventKey: formState.eventKey,
         scoutName: formState.scoutName,
         timestamp: Date.now(),
-        robotPhoto: formState.robotPhoto,
         weight: formState.weight,
         drivetrain: formState.drivetrain,
         programmingLanguage: formState.programmingLanguage,
@@ -226,7 +217,6 @@ export function usePitScoutingForm(): UsePitScoutingFormReturn {
       teamNumber: "",
       eventKey: localStorage.getItem("eventKey") || "",
       scoutName: localStorage.getItem("currentScout") || "",
-      robotPhoto: undefined,
       weight: undefined,
       drivetrain: undefined,
       programmingLanguage: undefined,
@@ -241,7 +231,6 @@ export function usePitScoutingForm(): UsePitScoutingFormReturn {
     setTeamNumber,
     setEventKey,
     setScoutName,
-    setRobotPhoto,
     setWeight,
     setDrivetrain,
     setProgrammingLanguage,
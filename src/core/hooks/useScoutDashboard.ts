@@ -3,18 +3,23 @@ import { getAllScouts, calculateAccuracy } from '@/core/lib/scoutGamificationUti
 import { getAchievementStats } from '@/core/lib/achievementUtils';
 import type { Scout } from '@/game-template/gamification';
 import { analytics } from '@/core/lib/analytics';
+import { getEventValidationResults } from '@/core/lib/tbaCache';
+import { calculateScoutReliability, type ScoutReliability } from '@/core/lib/scoutReliability';
 
-export type ScoutMetric = "stakes" | "totalStakes" | "totalPredictions" | "correctPredictions" | "accuracy" | "currentStreak" | "longestStreak";
+export type ScoutMetric = "stakes" | "totalStakes" | "totalPredictions" | "correctPredictions" | "accuracy" | "currentStreak" | "longestStreak" | "reliability";
 
 export interface ScoutChartData {
   name: string;
   value: number;
   scout: Scout;
+  /** From validated matches at the current event, if any */
+  reliability?: ScoutReliability;
 }
 
 export function useScoutDashboard() {
   const [scouts, setScouts] = useState<Scout[]>([]);
   const [achievementStakes, setAchievementStakes] = useState<Record<string, number>>({});
+  const [reliabilityByScout, setReliabilityByScout] = useState<Map<string, ScoutReliability>>(new Map());
   const [loading, setLoading] = useState(true);
   const [chartMetric, setChartMetric] = useState<ScoutMetric>("totalStakes");
   const [chartType, setChartType] = useState<"bar" | "line" | "table">("bar");
@@ -27,6 +32,7 @@ export function useScoutDashboard() {
     { key: "accuracy", label: "Accuracy %", icon: "TrendingUp" },
     { key: "currentStreak", label: "Current Streak", icon: "TrendingUp" },
     { key: "longestStreak", label: "Best Streak", icon: "Award" },
+    { key: "reliability", label: "Reliability Score", icon: "ShieldCheck" },
   ];
 
   const loadScoutData = async () => {
@@ -48,6 +54,17 @@ export function useScoutDashboard() {
       }
       setAchievementStakes(achievementStakesMap);
 
+      // Reliability comes from match validation against TBA for the current event
+      const eventKey = localStorage.getItem('eventKey') || '';
+      try {
+        const validationResults = eventKey ? await getEventValidationResults(eventKey) : [];
+        const reliability = calculateScoutReliability(validationResults.map(result => result.result));
+        setReliabilityByScout(new Map(reliability.map(entry => [entry.scoutName, entry])));
+      } catch (error) {
+        console.error('Error loading scout reliability: ', error);
+        setReliabilityByScout(new Map());
+      }
+
       analytics.trackEvent('scout_dashboard_loaded', { scoutCount: scoutData.length });
     } catch (error) {
       console.error('❌ Error loading scout data:', error);
@@ -62,12 +79,18 @@ export function useScoutDashboard() {
 
   const chartData = useMemo(() => {
     return scouts
+      // Only scouts with validated matches have a reliability score
+      .filter(scout => chartMetric !== "reliability" || reliabilityByScout.has(scout.name))
       .map(scout => {
+        const reliability = reliabilityByScout.get(scout.name);
         let value: number;
         switch (chartMetric) {
           case "accuracy":
             value = calculateAccuracy(scout);
             break;
+          case "reliability":
+            value = reliability?.score ?? 0;
+            break;
           case "totalStakes": {
             // Total stakes = prediction stakes + achievement stakes
             const predictionStakes = scout.stakes;
@@ -92,12 +115,13 @@ export function useScoutDashboard() {
         return {
           name: scout.name,
           value,
-          scout
+          scout,
+          reliability
         };
       })
       .sort((a, b) => b.value - a.value)
       .slice(0, 12);
-  }, [scouts, chartMetric, achievementStakes]);
+  }, [scouts, chartMetric, achievementStakes, reliabilityByScout]);
 
   // Line chart data - shows progression over number of matches
   const lineChartData = useMemo(() => {
@@ -140,6 +164,10 @@ export function useScoutDashboard() {
               // Simulate longest streak growth
               value = Math.floor((scout.longestStreak / scout.totalPredictions) * matchNum);
               break;
+            case "reliability":
+              // No per-match history; show the event score throughout
+              value = reliabilityByScout.get(scout.name)?.score ?? 0;
+              break;
             default:
               value = Math.floor((scout[chartMetric] as number / scout.totalPredictions) * matchNum);
           }
@@ -150,11 +178,12 @@ export function useScoutDashboard() {
     }
 
     return dataPoints;
-  }, [scouts, chartMetric, chartType, achievementStakes]);
+  }, [scouts, chartMetric, chartType, achievementStakes, reliabilityByScout]);
 
   return {
     scouts,
     achievementStakes,
+    reliabilityByScout,
     loading,
     chartMetric,
     setChartMetric,
@@ -0,0 +1,331 @@
+/**
+ * Strategy Whiteboard Hook
+ *
+ * Owns the vector whiteboard for all three match strategy stages:
+ * - Applies, persists and undoes whiteboard operations
+ * - Broadcasts a live session to connected peers (drive coach's tablet)
+ * - Follows a session broadcast by another device (pit, stands)
+ * - Replays the plan in the order it was drawn
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useWebRTC } from "@/core/contexts/WebRTCContext";
+import { loadStrategyWhiteboard, saveStrategyWhiteboard } from "@/core/lib/strategyCanvasUtils";
+import {
+    WHITEBOARD_STAGES,
+    applyWhiteboardOperation,
+    applyWhiteboardSessionMessage,
+    getWhiteboardReplayFrame,
+    invertWhiteboardOperation,
+    isWhiteboardSessionMessage,
+    type WhiteboardBoard,
+    type WhiteboardElement,
+    type WhiteboardOperation,
+    type WhiteboardSessionMessage,
+    type WhiteboardStageId,
+    type WhiteboardViewerState,
+} from "@/core/lib/strategyWhiteboard";
+
+const MAX_UNDO_HISTORY_LENGTH = 50;
+const REPLAY_DURATION_MS = 8000;
+// In-progress strokes are streamed at most this often
+const DRAFT_SEND_INTERVAL_MS = 100;
+// Don't flood the host with snapshot requests while one is on its way
+const SNAPSHOT_REQUEST_INTERVAL_MS = 2000;
+
+interface HostSession {
+    sessionId: string;
+    seq: number;
+}
+
+export interface StrategyWhiteboard {
+    /** Board to display: the local plan, or the followed session's, at the current replay frame */
+    board: WhiteboardBoard;
+    /** In-progress element from the followed session's host */
+    remoteDraft: { stageId: WhiteboardStageId; element: WhiteboardElement } | null;
+    /** Drawing is disabled while following a session or replaying */
+    readOnly: boolean;
+    apply: (op: WhiteboardOperation) => void;
+    sendDraft: (stageId: WhiteboardStageId, element: WhiteboardElement | null) => void;
+    undo: (stageId: WhiteboardStageId) => void;
+    canUndo: (stageId: WhiteboardStageId) => boolean;
+    clearAll: () => void;
+
+    /** At least one peer connection is open */
+    isConnected: boolean;
+    isBroadcasting: boolean;
+    startBroadcast: () => void;
+    stopBroadcast: () => void;
+    /** Latest session broadcast by another device, if any */
+    remoteSession: WhiteboardViewerState | null;
+    isFollowing: boolean;
+    follow: () => void;
+    unfollow: () => void;
+    keepRemoteCopy: () => void;
+
+    /** 0-1 while replaying, otherwise null */
+    replayProgress: number | null;
+    startReplay: () => void;
+    stopReplay: () => void;
+}
+
+const createEmptyUndoStacks = (): Record<WhiteboardStageId, WhiteboardOperation[]> => ({
+    autonomous: [],
+    teleop: [],
+    endgame: [],
+});
+
+const getHostName = (mode: string) =>
+    localStorage.getItem("currentScout") || (mode === "lead" ? "Lead" : "Scout");
+
+export const useStrategyWhiteboard = (label?: string): StrategyWhiteboard => {
+    const { mode, connectedScouts, connectionStatus, sendStrategyMessage } = useWebRTC();
+
+    const [localBoard, setLocalBoard] = useState<WhiteboardBoard>(loadStrategyWhiteboard);
+    const localBoardRef = useRef(localBoard);
+    const undoStacksRef = useRef(createEmptyUndoStacks());
+    const [undoCounts, setUndoCounts] = useState<Record<WhiteboardStageId, number>>({ autonomous: 0, teleop: 0, endgame: 0 });
+
+    const [hostSession, setHostSession] = useState<HostSession | null>(null);
+    const hostSessionRef = useRef<HostSession | null>(null);
+    const lastDraftSentAtRef = useRef(0);
+
+    const [remoteSession, setRemoteSession] = useState<WhiteboardViewerState | null>(null);
+    const remoteSessionRef = useRef<WhiteboardViewerState | null>(null);
+    const lastSnapshotRequestRef = useRef(0);
+    const [isFollowing, setIsFollowing] = useState(false);
+
+    const [replayProgress, setReplayProgress] = useState<number | null>(null);
+
+    const isConnected = mode === "lead"
+        ? connectedScouts.some(scout => scout.status === "connected")
+        : mode === "scout" && connectionStatus.includes("Connected");
+
+    const send = useCallback((message: WhiteboardSessionMessage) => {
+        sendStrategyMessage(message);
+    }, [sendStrategyMessage]);
+
+    const sendSnapshot = useCallback(() => {
+        const session = hostSessionRef.current;
+        if (!session) return;
+        send({
+            kind: "snapshot",
+            sessionId: session.sessionId,
+            hostName: getHostName(mode),
+            seq: session.seq,
+            board: localBoardRef.current,
+            label,
+        });
+    }, [send, mode, label]);
+
+    // Apply to the local board, persist, and stream to viewers when broadcasting
+    const commit = useCallback((op: WhiteboardOperation) => {
+        const next = applyWhiteboardOperation(localBoardRef.current, op);
+        localBoardRef.current = next;
+        setLocalBoard(next);
+        saveStrategyWhiteboard(next);
+
+        const session = hostSessionRef.current;
+        if (session) {
+            session.seq += 1;
+            send({ kind: "op", sessionId: session.sessionId, hostName: getHostName(mode), seq: session.seq, op });
+        }
+    }, [send, mode]);
+
+    const pushUndo = useCallback((stageId: WhiteboardStageId, inverse: WhiteboardOperation) => {
+        const stack = undoStacksRef.current[stageId];
+        stack.push(inverse);
+        if (stack.length > MAX_UNDO_HISTORY_LENGTH) {
+            stack.shift();
+        }
+        setUndoCounts(prev => ({ ...prev, [stageId]: stack.length }));
+    }, []);
+
+    const readOnly = isFollowing || replayProgress !== null;
+
+    const apply = useCallback((op: WhiteboardOperation) => {
+        if (readOnly) return;
+        pushUndo(op.stageId, invertWhiteboardOperation(localBoardRef.current, op));
+        commit(op);
+    }, [readOnly, pushUndo, commit]);
+
+    const undo = useCallback((stageId: WhiteboardStageId) => {
+        if (readOnly) return;
+        const inverse = undoStacksRef.current[stageId].pop();
+        setUndoCounts(prev => ({ ...prev, [stageId]: undoStacksRef.current[stageId].length }));
+        if (inverse) {
+            commit(inverse);
+        }
+    }, [readOnly, commit]);
+
+    const canUndo = useCallback((stageId: WhiteboardStageId) => !readOnly && undoCounts[stageId] > 0, [readOnly, undoCounts]);
+
+    const clearAll = useCallback(() => {
+        if (readOnly) return;
+        WHITEBOARD_STAGES.forEach(({ id }) => {
+            const stage = localBoardRef.current[id];
+            if (stage.elements.length > 0 || stage.legacyImage) {
+                apply({ type: "clear", stageId: id });
+            }
+        });
+    }, [readOnly, apply]);
+
+    const sendDraft = useCallback((stageId: WhiteboardStageId, element: WhiteboardElement | null) => {
+        const session = hostSessionRef.current;
+        if (!session) return;
+
+        const now = Date.now();
+        if (element && now - lastDraftSentAtRef.current < DRAFT_SEND_INTERVAL_MS) return;
+        lastDraftSentAtRef.current = now;
+        send({ kind: "draft", sessionId: session.sessionId, stageId, element });
+    }, [send]);
+
+    // ------------------------------------------------------------------------
+    // Hosting
+    // ------------------------------------------------------------------------
+
+    const startBroadcast = useCallback(() => {
+        const session = { sessionId: `strategy-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, seq: 0 };
+        hostSessionRef.current = session;
+        setHostSession(session);
+        setIsFollowing(false);
+        sendSnapshot();
+    }, [sendSnapshot]);
+
+    const stopBroadcast = useCallback(() => {
+        const session = hostSessionRef.current;
+        if (!session) return;
+        send({ kind: "end", sessionId: session.sessionId });
+        hostSessionRef.current = null;
+        setHostSession(null);
+    }, [send]);
+
+    // Viewers show the match label, so resend the plan when it changes
+    useEffect(() => {
+        sendSnapshot();
+    }, [sendSnapshot]);
+
+    // Leaving the page ends the session for everyone watching
+    useEffect(() => () => {
+        const session = hostSessionRef.current;
+        if (session) {
+            sendStrategyMessage({ kind: "end", sessionId: session.sessionId });
+        }
+    }, [sendStrategyMessage]);
+
+    // ------------------------------------------------------------------------
+    // Viewing
+    // ------------------------------------------------------------------------
+
+    useEffect(() => {
+        const handleMessage = (event: Event) => {
+            const { payload } = (event as CustomEvent<{ from: string; payload: unknown }>).detail;
+            if (!isWhiteboardSessionMessage(payload)) return;
+
+            const session = hostSessionRef.current;
+            if (session && payload.sessionId === session.sessionId) {
+                if (payload.kind === "request-snapshot") {
+                    sendSnapshot();
+                }
+                return;
+            }
+
+            const update = applyWhiteboardSessionMessage(remoteSessionRef.current, payload);
+            remoteSessionRef.current = update.state;
+            setRemoteSession(update.state);
+
+            const now = Date.now();
+            if (update.needsSnapshot && update.state && now - lastSnapshotRequestRef.current > SNAPSHOT_REQUEST_INTERVAL_MS) {
+                lastSnapshotRequestRef.current = now;
+                send({ kind: "request-snapshot", sessionId: update.state.sessionId });
+            }
+        };
+
+        window.addEventListener("webrtc-strategy-whiteboard", handleMessage);
+        return () => window.removeEventListener("webrtc-strategy-whiteboard", handleMessage);
+    }, [send, sendSnapshot]);
+
+    const follow = useCallback(() => {
+        const session = remoteSessionRef.current;
+        if (!session) return;
+        setReplayProgress(null);
+        setIsFollowing(true);
+        if (!session.board) {
+            lastSnapshotRequestRef.current = Date.now();
+            send({ kind: "request-snapshot", sessionId: session.sessionId });
+        }
+    }, [send]);
+
+    const unfollow = useCallback(() => {
+        setIsFollowing(false);
+        if (remoteSessionRef.current?.ended) {
+            remoteSessionRef.current = null;
+            setRemoteSession(null);
+        }
+    }, []);
+
+    // Copy the followed plan into the local board so it can be edited here
+    const keepRemoteCopy = useCallback(() => {
+        const remoteBoard = remoteSessionRef.current?.board;
+        if (!remoteBoard) return;
+        WHITEBOARD_STAGES.forEach(({ id }) => {
+            pushUndo(id, { type: "replace", stageId: id, stage: localBoardRef.current[id] });
+            commit({ type: "replace", stageId: id, stage: remoteBoard[id] });
+        });
+        unfollow();
+    }, [pushUndo, commit, unfollow]);
+
+    // ------------------------------------------------------------------------
+    // Replay
+    // ------------------------------------------------------------------------
+
+    const startReplay = useCallback(() => setReplayProgress(0), []);
+    const stopReplay = useCallback(() => setReplayProgress(null), []);
+
+    useEffect(() => {
+        if (replayProgress === null) return;
+        if (replayProgress >= 1) {
+            const timeout = window.setTimeout(() => setReplayProgress(null), 1000);
+            return () => window.clearTimeout(timeout);
+        }
+
+        const timeout = window.setTimeout(() => {
+            setReplayProgress(previous => previous === null ? null : Math.min(1, previous + 16 / REPLAY_DURATION_MS));
+        }, 16);
+        return () => window.clearTimeout(timeout);
+    }, [replayProgress]);
+
+    const sourceBoard = isFollowing && remoteSession?.board ? remoteSession.board : localBoard;
+
+    const board = useMemo(() => {
+        if (replayProgress === null) return sourceBoard;
+        const frame = { ...sourceBoard };
+        WHITEBOARD_STAGES.forEach(({ id }) => {
+            frame[id] = { ...sourceBoard[id], elements: getWhiteboardReplayFrame(sourceBoard[id].elements, replayProgress) };
+        });
+        return frame;
+    }, [sourceBoard, replayProgress]);
+
+    return {
+        board,
+        remoteDraft: isFollowing ? remoteSession?.draft ?? null : null,
+        readOnly,
+        apply,
+        sendDraft,
+        undo,
+        canUndo,
+        clearAll,
+        isConnected,
+        isBroadcasting: hostSession !== null,
+        startBroadcast,
+        stopBroadcast,
+        remoteSession,
+        isFollowing,
+        follow,
+        unfollow,
+        keepRemoteCopy,
+        replayProgress,
+        startReplay,
+        stopReplay,
+    };
+};
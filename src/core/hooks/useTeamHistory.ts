@@ -0,0 +1,137 @@
+/**
+ * Cross-event history for one team
+ *
+ * Combines scouted averages from every event in MatchScoutingDB, cached
+ * Statbotics EPA and cached TBA qualification results into per-season
+ * histories with trends and field comparisons (see lib/teamHistory.ts).
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { useAllTeamStats } from "./useAllTeamStats";
+import { useAllMatches } from "./useAllMatches";
+import { getCachedTBAEventMatches } from "@/core/lib/tbaCache";
+import {
+    buildTeamHistory,
+    summarizeTbaResults,
+    type TeamEventSample,
+    type TeamHistoryEventSource,
+    type TeamSeasonHistory,
+} from "@/core/lib/teamHistory";
+
+type TbaEventSummary = {
+    startedAt: number | null;
+    results: ReturnType<typeof summarizeTbaResults>;
+};
+
+export interface UseTeamHistoryResult {
+    seasons: TeamSeasonHistory[];
+    isLoading: boolean;
+    error: Error | null;
+}
+
+/**
+ * @param teamNumber - Team to build history for. Returns no seasons when omitted.
+ */
+export const useTeamHistory = (teamNumber?: number): UseTeamHistoryResult => {
+    const { teamStats, isLoading: isStatsLoading, error } = useAllTeamStats();
+    const { matches, isLoading: isMatchesLoading } = useAllMatches();
+    const [tbaByEvent, setTbaByEvent] = useState<Map<string, TbaEventSummary>>(new Map());
+    const [isTbaLoading, setIsTbaLoading] = useState(false);
+
+    const eventKeys = useMemo(
+        () => [...new Set(teamStats.map(team => team.eventKey).filter(Boolean))].sort(),
+        [teamStats]
+    );
+
+    useEffect(() => {
+        let cancelled = false;
+
+        const loadTbaResults = async () => {
+            setIsTbaLoading(true);
+            try {
+                const summaries = await Promise.all(eventKeys.map(async (eventKey) => {
+                    const eventMatches = await getCachedTBAEventMatches(eventKey, true);
+                    const times = eventMatches
+                        .map(match => match.actual_time || match.time)
+                        .filter(time => Number.isFinite(time) && time > 0);
+
+                    return [eventKey, {
+                        startedAt: times.length > 0 ? Math.min(...times) * 1000 : null,
+                        results: summarizeTbaResults(eventMatches),
+                    }] as const;
+                }));
+
+                if (!cancelled) {
+                    setTbaByEvent(new Map(summaries));
+                }
+            } catch (loadError) {
+                console.error("Error loading TBA results for team history:", loadError);
+                if (!cancelled) {
+                    setTbaByEvent(new Map());
+                }
+            } finally {
+                if (!cancelled) {
+                    setIsTbaLoading(false);
+                }
+            }
+        };
+
+        void loadTbaResults();
+
+        return () => {
+            cancelled = true;
+        };
+    }, [eventKeys]);
+
+    const seasons = useMemo(() => {
+        if (!teamNumber) return [];
+
+        // Earliest scouted entry per event, for events without cached TBA times
+        const scoutedStartByEvent = new Map<string, number>();
+        for (const match of matches) {
+            if (!match.eventKey || !Number.isFinite(match.timestamp) || match.timestamp <= 0) continue;
+            const current = scoutedStartByEvent.get(match.eventKey);
+            if (current === undefined || match.timestamp < current) {
+                scoutedStartByEvent.set(match.eventKey, match.timestamp);
+            }
+        }
+
+        const sources: TeamHistoryEventSource[] = eventKeys.map(eventKey => {
+            const tba = tbaByEvent.get(eventKey);
+            const teams = new Map<number, TeamEventSample>();
+
+            for (const stats of teamStats) {
+                if (stats.eventKey !== eventKey) continue;
+                teams.set(stats.teamNumber, {
+                    teamNumber: stats.teamNumber,
+                    matchCount: stats.matchCount,
+                    values: {
+                        scoutedPoints: stats.matchCount > 0 ? stats.overall.avgTotalPoints : undefined,
+                        epaPoints: stats.statboticsTotalPoints,
+                    },
+                });
+            }
+
+            for (const [tbaTeam, result] of tba?.results ?? []) {
+                const sample = teams.get(tbaTeam) ?? { teamNumber: tbaTeam, matchCount: 0, values: {} };
+                sample.values.allianceScore = result.avgAllianceScore;
+                sample.record = { wins: result.wins, losses: result.losses, ties: result.ties };
+                teams.set(tbaTeam, sample);
+            }
+
+            return {
+                eventKey,
+                startedAt: tba?.startedAt ?? scoutedStartByEvent.get(eventKey) ?? null,
+                teams: [...teams.values()],
+            };
+        });
+
+        return buildTeamHistory(teamNumber, sources);
+    }, [teamNumber, eventKeys, teamStats, matches, tbaByEvent]);
+
+    return {
+        seasons,
+        isLoading: isStatsLoading || isMatchesLoading || isTbaLoading,
+        error,
+    };
+};
@@ -6,11 +6,14 @@
  * 
  * NOTE: This hook NO LONGER calculates stats directly. All calculations
  * are done in game-template/calculations.ts via useAllTeamStats.
+ * Official TBA rank and RP are merged in from the TBA cache.
  */
 
 import { useMemo } from "react";
 import { useAllTeamStats } from "./useAllTeamStats";
 import { StrategyConfig, ColumnFilter, TeamData, AggregationType } from "@/core/types/strategy";
+import { useOfficialRankings } from "./useEventStandings";
+import { getOfficialRankingValues } from "@/core/lib/eventStandings";
 
 export interface UseTeamStatisticsResult {
     teamStats: TeamData[];
@@ -51,6 +54,8 @@ export const useTeamStatistics = (
         return Array.from(new Set(allTeamStats.map((team) => team.eventKey).filter(Boolean))).sort();
     }, [allTeamStats]);
 
+    const officialRankings = useOfficialRankings(availableEvents);
+
     const filteredSourceTeamStats = useMemo(() => {
         if (selectedEventKeys.length === 0) {
             return allTeamStats;
@@ -81,9 +86,12 @@ export const useTeamStatistics = (
                 }
             });
 
+            // Official TBA rank and RP sit next to the scouted stats
+            Object.assign(teamData, getOfficialRankingValues(officialRankings.get(stats.eventKey)?.get(stats.teamNumber)));
+
             return teamData;
         });
-    }, [filteredSourceTeamStats, config.columns, aggregationType]);
+    }, [filteredSourceTeamStats, config.columns, aggregationType, officialRankings]);
 
     const teamStats = useMemo(() => {
         if (selectedEventKeys.length === 1) {
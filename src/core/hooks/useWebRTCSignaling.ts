@@ -1,9 +1,11 @@
 /**
  * WebRTC Signaling Hook
- * Handles communication with the Netlify signaling server for auto-reconnection
+ * Handles communication with the signaling server (Netlify function or
+ * self-hosted event server) for auto-reconnection
  */
 
 import { useEffect, useRef, useState, useCallback } from 'react';
+import { getEventServerUrl, getSignalingUrl } from '@/core/lib/eventServer';
 
 interface SignalingMessage {
   type: 'offer' | 'answer' | 'ice-candidate' | 'join' | 'leave';
@@ -46,9 +48,7 @@ export function useWebRTCSignaling({
 
   // Determine the signaling server URL
   // Use absolute URL to ensure it works across devices on the network
-  const signalingUrl = import.meta.env.DEV
-    ? `${window.location.protocol}//${window.location.hostname}:8888/.netlify/functions/webrtc-signal`
-    : '/.netlify/functions/webrtc-signal';
+  const signalingUrl = getSignalingUrl();
 
   // Send a message to the signaling server
   const sendMessage = useCallback(
@@ -112,7 +112,10 @@ export function useWebRTCSignaling({
         }
 
         if (!functionsAvailableRef.current) {
-          const devError = 'Netlify Functions not available. Please run with "npm run dev" instead of "npm run dev:vite" to enable room code connections.';
+          const eventServerUrl = getEventServerUrl();
+          const devError = eventServerUrl
+            ? `Event server at ${eventServerUrl} is not reachable. Check that it is running and this device is on the same network.`
+            : 'Netlify Functions not available. Please run with "npm run dev" instead of "npm run dev:vite" to enable room code connections.';
           console.error('❌', devError);
           setError(devError);
           setConnected(false);
@@ -35,6 +35,98 @@ function createSyntheticScoutingPayload(entryCount: number) {
   };
 }
 
+function createRealisticEventPayload(entryCount: number) {
+  // Deterministic PRNG so packet counts are stable between runs
+  let seed = 2026;
+  const random = () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const randomInt = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+  const jitter = (value: number) => Math.round((value + (random() - 0.5) * 0.1) * 10000) / 10000;
+
+  const createPath = (count: number, startTime: number) => Array.from({ length: count }, (_, index) => {
+    const type = ['score', 'collect', 'pass', 'score', 'traversal'][index % 5]!;
+    const fuel = randomInt(2, 8);
+    return {
+      id: `${startTime + index * 2500}-${random().toString(36).slice(2, 11)}`,
+      type,
+      action: type === 'score' ? 'hub' : type === 'collect' ? 'neutral' : type === 'pass' ? 'alliance' : 'trench1',
+      position: { x: jitter(0.3), y: jitter(0.5) },
+      timestamp: startTime + index * randomInt(1500, 4000),
+      ...(type === 'score' ? { fuelDelta: -fuel, amountLabel: `${fuel}`, shotType: random() < 0.5 ? 'onTheMove' : 'stationary' } : {}),
+      ...(type === 'pass' ? { fuelDelta: -fuel, zone: 'neutralZone' } : {}),
+      ...(type === 'traversal' && random() < 0.3 ? { pathPoints: [{ x: jitter(0.4), y: jitter(0.2) }, { x: jitter(0.45), y: jitter(0.15) }] } : {}),
+    };
+  });
+
+  const counts = () => ({
+    fuelScoredCount: randomInt(0, 60),
+    fuelPassedCount: randomInt(0, 20),
+    shotOnTheMoveCount: randomInt(0, 8),
+    shotStationaryCount: randomInt(0, 8),
+    trenchStuckCount: randomInt(0, 1),
+    trenchStuckDuration: randomInt(0, 1) * randomInt(1000, 9000),
+    bumpStuckCount: 0,
+    bumpStuckDuration: 0,
+    brokenDownCount: 0,
+    brokenDownDuration: 0,
+  });
+
+  const endgameToggles = [
+    'roleActiveCleanUp', 'roleActivePasser', 'roleActiveDefense', 'roleActiveCycler', 'roleActiveThief',
+    'roleInactiveCleanUp', 'roleInactivePasser', 'roleInactiveDefense', 'roleInactiveCycler', 'roleInactiveThief',
+    'passedToAllianceFromNeutral', 'passedToAllianceFromOpponent', 'passedToNeutral',
+    'usedTrenchInTeleop', 'usedBumpInTeleop',
+    'accuracyAll', 'accuracyMost', 'accuracySome', 'accuracyFew', 'accuracyLittle', 'usedCorral',
+  ];
+
+  const entries = Array.from({ length: entryCount }, (_, index) => {
+    const matchNumber = Math.floor(index / 6) + 1;
+    const station = (index % 6) + 1;
+    const allianceColor = station <= 3 ? 'red' : 'blue';
+    const teamNumber = [254, 1678, 118, 2056, 971, 4414, 1323, 6328, 3476, 1114][index % 10]! + (index % 4) * 1000;
+    const timestamp = 1738900000000 + matchNumber * 480000 + station * 1000;
+
+    return {
+      id: `2026test_qm${matchNumber}_${allianceColor}_${teamNumber}`,
+      teamNumber,
+      matchNumber,
+      matchKey: `qm${matchNumber}`,
+      allianceColor,
+      scoutName: `Scout-${(index % 12) + 1}`,
+      eventKey: '2026test',
+      timestamp,
+      noShow: false,
+      comments: index % 5 === 0 ? 'Fast cycles, struggled with defense' : '',
+      gameData: {
+        auto: {
+          startPosition: randomInt(0, 4),
+          autoPath: createPath(randomInt(4, 9), timestamp),
+          ...counts(),
+          depotCollectCount: randomInt(0, 2),
+          outpostCollectCount: randomInt(0, 2),
+          foulCommittedCount: 0,
+        },
+        teleop: {
+          teleopPath: createPath(randomInt(20, 45), timestamp + 20000),
+          ...counts(),
+          stealCount: randomInt(0, 2),
+        },
+        endgame: Object.fromEntries(endgameToggles.map(key => [key, random() < 0.2])),
+      },
+    };
+  });
+
+  return {
+    entries,
+    exportedAt: 1738990000000,
+    version: '3.0-maneuver-core'
+  };
+}
+
 describe('benchmarkCompressionVariants', () => {
   it('outputs benchmark results to console and returns sensible packet estimates', () => {
     const payload = createSyntheticScoutingPayload(60);
@@ -89,4 +181,25 @@ describe('benchmarkCompressionVariants', () => {
     expect(result.bestVariant.gzipBytes).toBeLessThanOrEqual(result.baselineGzipBytes);
     expect(result.bestVariant.estimatedFountainPackets).toBeLessThanOrEqual(result.baselineFountainPackets);
   });
+
+  it('reports the binary codec gain for a full event with paths', () => {
+    const payload = createRealisticEventPayload(480);
+    const result = benchmarkCompressionVariants(payload);
+    const binary = result.variants.find(variant => variant.name === 'Binary columnar codec');
+
+    console.log('[Compression Benchmark - Full Event]');
+    console.table(
+      result.variants.map(variant => ({
+        variant: variant.name,
+        bytes: variant.gzipBytes,
+        packets: variant.estimatedFountainPackets,
+        gain: `${(result.baselineFountainPackets / variant.estimatedFountainPackets).toFixed(1)}x`
+      }))
+    );
+
+    expect(binary).toBeDefined();
+    expect(result.bestVariant.name).toBe('Binary columnar codec');
+    // Waypoint ids travel whole, and their random suffixes do not compress
+    expect(result.baselineFountainPackets / binary!.estimatedFountainPackets).toBeGreaterThanOrEqual(1.5);
+  });
 });
@@ -1,8 +1,11 @@
 import * as pako from 'pako';
+import { scoutingCodecFields } from '@/game-template/scoutingCodecSchema';
 import { getFountainEstimate } from './fountainUtils';
+import { encodeScoutingTransfer, isScoutingTransferPayload, type ScoutingCodecField } from './scoutingCodec';
 
 export interface CompressionVariantResult {
   name: string;
+  /** Bytes on the wire (the binary codec deflates instead of gzipping) */
   gzipBytes: number;
   estimatedFountainPackets: number;
 }
@@ -235,7 +238,10 @@ function encodeScoutingSchemaAware(data: unknown): unknown | null {
   };
 }
 
-export function benchmarkCompressionVariants(data: unknown): CompressionBenchmarkResult {
+export function benchmarkCompressionVariants(
+  data: unknown,
+  codecFields: ScoutingCodecField[] = scoutingCodecFields
+): CompressionBenchmarkResult {
   const baselineJson = JSON.stringify(data);
   const baselineGzipBytes = pako.gzip(baselineJson).length;
   const baselineFountainPackets = estimateFountainPackets(baselineGzipBytes);
@@ -299,6 +305,15 @@ export function benchmarkCompressionVariants(data: unknown): CompressionBenchmar
     });
   }
 
+  if (isScoutingTransferPayload(data) && data.entries.length > 0) {
+    const binaryBytes = encodeScoutingTransfer(data, codecFields).length;
+    variants.push({
+      name: 'Binary columnar codec',
+      gzipBytes: binaryBytes,
+      estimatedFountainPackets: estimateFountainPackets(binaryBytes)
+    });
+  }
+
   const bestVariant = variants.reduce((best, current) => {
     if (current.estimatedFountainPackets < best.estimatedFountainPackets) {
       return current;
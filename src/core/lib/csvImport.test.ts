@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/core/db/database', () => ({ db: {} }));
+
+import { csvImportFields, createCsvImportGameData } from '@/game-template/csvImportSchema';
+import {
+  applyCsvMappingPreset,
+  buildCsvImportRows,
+  CSV_ENTRY_FIELDS,
+  parseCsv,
+  suggestCsvColumnMapping,
+} from './csvImport';
+
+const FIELDS = [...CSV_ENTRY_FIELDS, ...csvImportFields];
+const NOW = Date.UTC(2026, 2, 14);
+
+describe('parseCsv', () => {
+  it('handles quotes, CRLF, blank lines and pasted tab-separated text', () => {
+    expect(parseCsv('a,b\r\n"x, ""y""",2\r\n\r\n')).toEqual([['a', 'b'], ['x, "y"', '2']]);
+    expect(parseCsv('Team\tMatch\n254\t3')).toEqual([['Team', 'Match'], ['254', '3']]);
+    expect(parseCsv('"multi\nline",1')).toEqual([['multi\nline', '1']]);
+  });
+});
+
+describe('suggestCsvColumnMapping', () => {
+  it('maps our own export headers, labels and aliases, leaving ambiguous keys alone', () => {
+    const mapping = suggestCsvColumnMapping(
+      ['id', 'Team #', 'Match', 'Alliance', 'Scout', 'auto.fuelScoredCount', 'Teleop Fuel Scored', 'fuelPassedCount', 'endgame.climbL2', 'Notes'],
+      FIELDS
+    );
+
+    expect(mapping).toEqual({
+      'Team #': 'teamNumber',
+      Match: 'matchNumber',
+      Alliance: 'allianceColor',
+      Scout: 'scoutName',
+      'auto.fuelScoredCount': 'gameData.auto.fuelScoredCount',
+      'Teleop Fuel Scored': 'gameData.teleop.fuelScoredCount',
+      'endgame.climbL2': 'gameData.endgame.climbL2',
+      Notes: 'comments',
+    });
+  });
+});
+
+describe('buildCsvImportRows', () => {
+  const rows = parseCsv([
+    'Team,Match,Alliance,Auto Fuel Scored,Endgame Climb Level 2,Notes',
+    '254,12,Red 2,7,yes,fast',
+    '1678,12,blue,,no,',
+    '254,12,red,3,y,duplicate',
+    'abc,13,green,x,maybe,',
+  ].join('\n'));
+  const mapping = suggestCsvColumnMapping(rows[0] ?? [], FIELDS);
+  const build = () => buildCsvImportRows(rows, mapping, FIELDS, { eventKey: '2026Test', scoutName: 'Paper', now: NOW }, createCsvImportGameData);
+
+  it('builds entries with deterministic ids and nested gameData', () => {
+    const [first, second] = build();
+
+    expect(first?.errors).toEqual([]);
+    expect(first?.entry).toMatchObject({
+      id: '2026test::qm12::254::red',
+      teamNumber: 254,
+      matchNumber: 12,
+      matchKey: 'qm12',
+      allianceColor: 'red',
+      eventKey: '2026test',
+      scoutName: 'Paper',
+      timestamp: NOW,
+      comments: 'fast',
+      gameData: { auto: { startPosition: null, fuelScoredCount: 7 }, teleop: {}, endgame: { climbL2: true } },
+    });
+    expect(second?.entry?.gameData).toEqual({ auto: { startPosition: null }, teleop: {}, endgame: { climbL2: false } });
+
+    expect(build().map(row => row.entry?.id)).toEqual(build().map(row => row.entry?.id));
+  });
+
+  it('reports duplicates and bad cells per row', () => {
+    const [, , duplicate, invalid] = build();
+
+    expect(duplicate?.entry).toBeNull();
+    expect(duplicate?.errors).toEqual(['Same team and match as row 2']);
+    expect(invalid?.entry).toBeNull();
+    expect(invalid?.errors).toEqual([
+      'Team Number: "abc" is not a whole number',
+      'Alliance: "green" is not red or blue',
+      'Auto Fuel Scored: "x" is not a number',
+      'Endgame Climb Level 2: "maybe" is not yes/no',
+      'Team number is required',
+      'Alliance is required',
+    ]);
+  });
+
+  it('derives the match number from a match key and keeps preset columns the file has', () => {
+    const [row] = buildCsvImportRows(
+      [['team', 'matchKey', 'alliance', 'event', 'scout'], ['118', '2026test_sf3m1', 'b', '2026test', 'Sam']],
+      suggestCsvColumnMapping(['team', 'matchKey', 'alliance', 'event', 'scout'], FIELDS),
+      FIELDS,
+      { now: NOW }
+    );
+    expect(row?.entry).toMatchObject({ id: '2026test::sf3m1::118::blue', matchNumber: 3 });
+
+    const preset = { name: 'Paper', mapping: { Team: 'teamNumber', Gone: 'comments' }, savedAt: 0 };
+    expect(applyCsvMappingPreset(preset, ['Team', 'Match'])).toEqual({ Team: 'teamNumber' });
+  });
+});
@@ -0,0 +1,357 @@
+/**
+ * CSV / spreadsheet import for match scouting
+ *
+ * Maps the columns of a paper-transcription sheet, a Google Forms export or
+ * our own CSV export onto ScoutingEntryBase fields and gameData paths, then
+ * builds entries with deterministic IDs so importing the same sheet twice
+ * updates rather than duplicates. Game-specific columns come from
+ * game-template/csvImportSchema.ts.
+ */
+
+import type { ScoutingEntryBase } from '@/core/types/scouting-entry';
+import { generateDeterministicEntryId } from './scoutingDataUtils';
+
+export type CsvImportFieldKind = 'integer' | 'number' | 'boolean' | 'text' | 'alliance' | 'timestamp' | 'json';
+
+export interface CsvImportField {
+  /** Dot path from the entry root, e.g. `teamNumber` or `gameData.auto.fuelScoredCount` */
+  path: string;
+  label: string;
+  kind: CsvImportFieldKind;
+  /** Other header spellings that should map to this field */
+  aliases?: string[];
+}
+
+/** CSV header → field path. Unmapped headers are left out */
+export type CsvColumnMapping = Record<string, string>;
+
+export interface CsvImportDefaults {
+  eventKey?: string;
+  scoutName?: string;
+  /** Timestamp for rows without a mapped timestamp column */
+  now: number;
+}
+
+export interface CsvImportRow {
+  /** 1-based line in the file, counting the header */
+  rowNumber: number;
+  entry: ScoutingEntryBase | null;
+  errors: string[];
+}
+
+export interface CsvMappingPreset {
+  name: string;
+  mapping: CsvColumnMapping;
+  savedAt: number;
+}
+
+export const CSV_MAPPING_PRESETS_STORAGE_KEY = 'csvImportMappingPresets';
+
+export const CSV_ENTRY_FIELDS: CsvImportField[] = [
+  { path: 'teamNumber', label: 'Team Number', kind: 'integer', aliases: ['team', 'team #', 'team no', 'robot', 'robot number'] },
+  { path: 'matchNumber', label: 'Match Number', kind: 'integer', aliases: ['match', 'match #', 'match no', 'qual', 'qual number'] },
+  { path: 'matchKey', label: 'Match Key', kind: 'text' },
+  { path: 'allianceColor', label: 'Alliance', kind: 'alliance', aliases: ['alliance color', 'color', 'station', 'driver station'] },
+  { path: 'scoutName', label: 'Scout Name', kind: 'text', aliases: ['scout', 'scouter', 'name', 'your name'] },
+  { path: 'eventKey', label: 'Event Key', kind: 'text', aliases: ['event', 'event code'] },
+  { path: 'timestamp', label: 'Timestamp', kind: 'timestamp', aliases: ['time', 'date', 'submitted', 'submitted at'] },
+  { path: 'comments', label: 'Comments', kind: 'text', aliases: ['comment', 'notes', 'additional comments'] },
+  { path: 'noShow', label: 'No Show', kind: 'boolean', aliases: ['did not show', 'absent'] },
+];
+
+const TRUE_VALUES = new Set(['true', 'yes', 'y', '1', 'x', 'checked', 'on']);
+const FALSE_VALUES = new Set(['false', 'no', 'n', '0', 'unchecked', 'off']);
+
+/**
+ * Parse CSV text (RFC 4180 quoting). Tab- and semicolon-separated text, as
+ * pasted from a spreadsheet, is detected from the first line.
+ * Returns rows of cells; blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [',', '\t', ';']
+    .map(candidate => ({ candidate, count: firstLine.split(candidate).length }))
+    .sort((a, b) => b.count - a.count)[0]?.candidate ?? ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) endRow();
+  return rows;
+}
+
+const normalizeHeader = (value: string): string =>
+  value.toLowerCase().replace(/^gamedata\./, '').replace(/[^a-z0-9]/g, '');
+
+/**
+ * Suggest a field for each header. Exact path matches (our own export) win
+ * over labels and aliases, which win over a bare key name; a bare key only
+ * counts when it is unique (fuelScoredCount exists in auto and teleop).
+ * Each field is suggested at most once.
+ */
+export function suggestCsvColumnMapping(headers: string[], fields: CsvImportField[]): CsvColumnMapping {
+  const lastSegmentCounts = new Map<string, number>();
+  for (const field of fields) {
+    const segment = normalizeHeader(field.path.split('.').pop() ?? '');
+    lastSegmentCounts.set(segment, (lastSegmentCounts.get(segment) ?? 0) + 1);
+  }
+
+  const scoreField = (header: string, field: CsvImportField): number => {
+    const normalized = normalizeHeader(header);
+    if (!normalized) return 0;
+    if (normalized === normalizeHeader(field.path)) return 3;
+    if ([field.label, ...(field.aliases ?? [])].some(name => normalizeHeader(name) === normalized)) return 2;
+
+    const segment = normalizeHeader(field.path.split('.').pop() ?? '');
+    return segment === normalized && lastSegmentCounts.get(segment) === 1 ? 1 : 0;
+  };
+
+  const candidates = headers.flatMap(header =>
+    fields.map(field => ({ header, path: field.path, score: scoreField(header, field) }))
+  ).filter(candidate => candidate.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  const mapping: CsvColumnMapping = {};
+  const usedPaths = new Set<string>();
+  for (const { header, path } of candidates) {
+    if (mapping[header] || usedPaths.has(path)) continue;
+    mapping[header] = path;
+    usedPaths.add(path);
+  }
+
+  return mapping;
+}
+
+function parseAlliance(value: string): 'red' | 'blue' | null {
+  const normalized = value.trim().toLowerCase();
+  if (normalized.startsWith('r')) return 'red';
+  if (normalized.startsWith('b')) return 'blue';
+  return null;
+}
+
+function parseMatchKey(value: string): { matchKey: string; matchNumber: number } | null {
+  const normalized = value.trim().toLowerCase().replace(/^[^_]*_/, '');
+  const qual = normalized.match(/^qm(\d+)$/);
+  if (qual?.[1]) return { matchKey: normalized, matchNumber: Number(qual[1]) };
+
+  const semi = normalized.match(/^sf(\d+)m\d+$/);
+  if (semi?.[1]) return { matchKey: normalized, matchNumber: Number(semi[1]) };
+
+  const final = normalized.match(/^f\d+m(\d+)$/);
+  if (final?.[1]) return { matchKey: normalized, matchNumber: Number(final[1]) };
+
+  return null;
+}
+
+type ParsedCell = { ok: true; value: unknown } | { ok: false; error: string };
+
+function parseCell(raw: string, field: CsvImportField): ParsedCell {
+  const value = raw.trim();
+
+  switch (field.kind) {
+    case 'integer':
+    case 'number': {
+      const parsed = Number(value);
+      if (!Number.isFinite(parsed) || (field.kind === 'integer' && !Number.isInteger(parsed))) {
+        return { ok: false, error: `${field.label}: "${value}" is not a ${field.kind === 'integer' ? 'whole number' : 'number'}` };
+      }
+      return { ok: true, value: parsed };
+    }
+    case 'boolean': {
+      const normalized = value.toLowerCase();
+      if (TRUE_VALUES.has(normalized)) return { ok: true, value: true };
+      if (FALSE_VALUES.has(normalized)) return { ok: true, value: false };
+      return { ok: false, error: `${field.label}: "${value}" is not yes/no` };
+    }
+    case 'alliance': {
+      const alliance = parseAlliance(value);
+      return alliance ? { ok: true, value: alliance } : { ok: false, error: `${field.label}: "${value}" is not red or blue` };
+    }
+    case 'timestamp': {
+      const parsed = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+      return Number.isFinite(parsed) ? { ok: true, value: parsed } : { ok: false, error: `${field.label}: "${value}" is not a date` };
+    }
+    case 'json':
+      try {
+        return { ok: true, value: JSON.parse(value) };
+      } catch {
+        return { ok: false, error: `${field.label}: not valid JSON` };
+      }
+    case 'text':
+      return { ok: true, value };
+  }
+}
+
+function setPath(target: Record<string, unknown>, path: string, value: unknown): void {
+  const segments = path.split('.');
+  let current = target;
+  segments.slice(0, -1).forEach(segment => {
+    const next = current[segment];
+    if (!next || typeof next !== 'object' || Array.isArray(next)) {
+      current[segment] = {};
+    }
+    current = current[segment] as Record<string, unknown>;
+  });
+  current[segments[segments.length - 1] as string] = value;
+}
+
+/**
+ * Build scouting entries from parsed CSV rows (header first). Blank cells
+ * are skipped, so gameData only carries what the sheet recorded on top of
+ * `createGameData()`. Rows with errors get `entry: null`.
+ */
+export function buildCsvImportRows(
+  rows: string[][],
+  mapping: CsvColumnMapping,
+  fields: CsvImportField[],
+  defaults: CsvImportDefaults,
+  createGameData: () => Record<string, unknown> = () => ({})
+): CsvImportRow[] {
+  const [headers = [], ...dataRows] = rows;
+  const fieldsByPath = new Map(fields.map(field => [field.path, field]));
+  const mappedColumns = headers.flatMap((header, index) => {
+    const field = fieldsByPath.get(mapping[header] ?? '');
+    return field ? [{ index, field }] : [];
+  });
+  const firstRowById = new Map<string, number>();
+
+  return dataRows.map((cells, rowIndex) => {
+    const rowNumber = rowIndex + 2;
+    const errors: string[] = [];
+    const values: Record<string, unknown> = { gameData: createGameData() };
+
+    for (const { index, field } of mappedColumns) {
+      const raw = cells[index] ?? '';
+      if (raw.trim() === '') continue;
+
+      const parsed = parseCell(raw, field);
+      if (parsed.ok) {
+        setPath(values, field.path, parsed.value);
+      } else {
+        errors.push(parsed.error);
+      }
+    }
+
+    const eventKey = String(values.eventKey ?? defaults.eventKey ?? '').trim().toLowerCase();
+    const scoutName = String(values.scoutName ?? defaults.scoutName ?? '').trim();
+    let matchNumber = typeof values.matchNumber === 'number' ? values.matchNumber : null;
+    let matchKey = `qm${matchNumber ?? ''}`;
+
+    if (typeof values.matchKey === 'string') {
+      const parsedKey = parseMatchKey(values.matchKey);
+      if (parsedKey) {
+        matchKey = parsedKey.matchKey;
+        matchNumber = matchNumber ?? parsedKey.matchNumber;
+      } else {
+        errors.push(`Match Key: "${values.matchKey}" is not like qm12, sf3m1 or f1m2`);
+      }
+    }
+
+    if (typeof values.teamNumber !== 'number' || values.teamNumber <= 0) errors.push('Team number is required');
+    if (matchNumber === null || matchNumber <= 0) errors.push('Match number is required');
+    if (!values.allianceColor) errors.push('Alliance is required');
+    if (!eventKey) errors.push('Event key is required');
+    if (!scoutName) errors.push('Scout name is required');
+
+    const id = generateDeterministicEntryId(eventKey, matchKey, values.teamNumber, values.allianceColor);
+    if (id && errors.length === 0) {
+      const firstRow = firstRowById.get(id);
+      if (firstRow !== undefined) {
+        errors.push(`Same team and match as row ${firstRow}`);
+      } else {
+        firstRowById.set(id, rowNumber);
+      }
+    }
+
+    if (errors.length > 0 || !id) {
+      return { rowNumber, entry: null, errors };
+    }
+
+    const entry = {
+      ...values,
+      id,
+      eventKey,
+      scoutName,
+      matchKey,
+      matchNumber,
+      timestamp: typeof values.timestamp === 'number' ? values.timestamp : defaults.now,
+    } as ScoutingEntryBase;
+
+    return { rowNumber, entry, errors };
+  });
+}
+
+export function loadCsvMappingPresets(): CsvMappingPreset[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CSV_MAPPING_PRESETS_STORAGE_KEY) ?? '[]') as unknown;
+    return Array.isArray(stored)
+      ? stored.filter((preset): preset is CsvMappingPreset =>
+        !!preset && typeof preset.name === 'string' && typeof preset.mapping === 'object' && preset.mapping !== null)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Save a preset, replacing any preset with the same name
+ */
+export function saveCsvMappingPreset(name: string, mapping: CsvColumnMapping): CsvMappingPreset[] {
+  const presets = [
+    ...loadCsvMappingPresets().filter(preset => preset.name !== name),
+    { name, mapping, savedAt: Date.now() },
+  ].sort((a, b) => a.name.localeCompare(b.name));
+
+  localStorage.setItem(CSV_MAPPING_PRESETS_STORAGE_KEY, JSON.stringify(presets));
+  return presets;
+}
+
+export function deleteCsvMappingPreset(name: string): CsvMappingPreset[] {
+  const presets = loadCsvMappingPresets().filter(preset => preset.name !== name);
+  localStorage.setItem(CSV_MAPPING_PRESETS_STORAGE_KEY, JSON.stringify(presets));
+  return presets;
+}
+
+/**
+ * Keep only the preset columns this file has
+ */
+export function applyCsvMappingPreset(preset: CsvMappingPreset, headers: string[]): CsvColumnMapping {
+  return Object.fromEntries(
+    headers.flatMap(header => (preset.mapping[header] ? [[header, preset.mapping[header]]] : []))
+  );
+}
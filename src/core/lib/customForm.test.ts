@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import {
+    buildCustomFormGameData,
+    collectCustomFieldRawValues,
+    createCustomFieldKey,
+    createCustomFormPayload,
+    getCustomFormStrategyColumns,
+    isCustomFormPayload,
+    normalizeCustomFormDefinition,
+} from './customForm';
+import type { CustomFormDefinition } from './customFormTypes';
+
+const FORM: CustomFormDefinition = {
+    formId: 'form-test',
+    name: 'Event Extras',
+    version: 2,
+    updatedAt: 1,
+    fields: [
+        { key: 'floorPickups', label: 'Floor pickups', phase: 'teleop', type: 'counter', max: 10 },
+        { key: 'groundIntake', label: 'Ground intake', phase: 'auto', type: 'toggle' },
+        { key: 'humanPlayer', label: 'Human player', phase: 'endgame', type: 'select', options: ['Source', 'Hub'] },
+        { key: 'driverSkill', label: 'Driver skill', phase: 'endgame', type: 'rating', max: 5 },
+        { key: 'driverNotes', label: 'Driver notes', phase: 'endgame', type: 'text' },
+    ],
+};
+
+describe('createCustomFieldKey', () => {
+    it('camel-cases the label and suffixes duplicates', () => {
+        expect(createCustomFieldKey('Floor pickups!', [])).toBe('floorPickups');
+        expect(createCustomFieldKey('Floor pickups', ['floorPickups', 'floorPickups2'])).toBe('floorPickups3');
+        expect(createCustomFieldKey('2nd intake', [])).toBe('field2ndIntake');
+    });
+});
+
+describe('buildCustomFormGameData', () => {
+    it('clamps answers, drops unknown options and keeps text apart from values', () => {
+        const gameData = buildCustomFormGameData(FORM, {
+            auto: { groundIntake: true },
+            teleop: { floorPickups: 14, staleKey: 3 },
+            endgame: { humanPlayer: 'Feeder', driverSkill: 4, driverNotes: '  Smooth  ' },
+        });
+
+        expect(gameData).toEqual({
+            formId: 'form-test',
+            version: 2,
+            values: { groundIntake: true, floorPickups: 10, humanPlayer: null, driverSkill: 4 },
+            notes: { driverNotes: 'Smooth' },
+        });
+    });
+});
+
+describe('collectCustomFieldRawValues', () => {
+    it('turns answers into per-match series and skips unanswered matches', () => {
+        const matches = [
+            { customForm: buildCustomFormGameData(FORM, { auto: { groundIntake: true }, teleop: { floorPickups: 3 }, endgame: { humanPlayer: 'Source', driverSkill: 5 } }) },
+            { customForm: buildCustomFormGameData(FORM, { teleop: { floorPickups: 1 }, endgame: { humanPlayer: 'Hub' } }) },
+            { auto: {} },
+        ];
+
+        const rawValues = collectCustomFieldRawValues(matches);
+
+        expect(rawValues.custom_floorPickups).toEqual([3, 1]);
+        expect(rawValues.custom_groundIntake).toEqual([100, 0]);
+        expect(rawValues.custom_driverSkill).toEqual([5]);
+        expect(rawValues.custom_humanPlayer__source).toEqual([100, 0]);
+        expect(rawValues.custom_humanPlayer__hub).toEqual([0, 100]);
+        expect(rawValues.custom_driverNotes).toBeUndefined();
+    });
+
+    it('matches the keys used by the strategy columns', () => {
+        const columnKeys = getCustomFormStrategyColumns(FORM).map(col => col.key);
+
+        expect(columnKeys).toEqual([
+            'rawValues.custom_floorPickups',
+            'rawValues.custom_groundIntake',
+            'rawValues.custom_humanPlayer__source',
+            'rawValues.custom_humanPlayer__hub',
+            'rawValues.custom_driverSkill',
+        ]);
+    });
+});
+
+describe('custom form transfer', () => {
+    it('round-trips through the payload and rejects malformed forms', () => {
+        const payload = JSON.parse(JSON.stringify(createCustomFormPayload(FORM)));
+
+        expect(isCustomFormPayload(payload)).toBe(true);
+        expect(normalizeCustomFormDefinition(payload.form)).toEqual(FORM);
+        expect(isCustomFormPayload({ ...payload, form: { ...payload.form, version: 0 } })).toBe(false);
+    });
+
+    it('drops invalid and duplicate fields from imported forms', () => {
+        const form = normalizeCustomFormDefinition({
+            ...FORM,
+            fields: [
+                ...FORM.fields,
+                { key: 'floorPickups', label: 'Duplicate', phase: 'auto', type: 'counter' },
+                { key: 'noOptions', label: 'No options', phase: 'auto', type: 'select', options: [] },
+                { key: 'bad key', label: 'Bad key', phase: 'auto', type: 'toggle' },
+            ],
+        });
+
+        expect(form?.fields.map(field => field.key)).toEqual(FORM.fields.map(field => field.key));
+    });
+});
@@ -0,0 +1,336 @@
+import {
+  CUSTOM_FIELD_PHASES,
+  CUSTOM_FIELD_PHASE_LABELS,
+  CUSTOM_FIELD_TYPES,
+  DEFAULT_RATING_MAX,
+  type CustomFieldDefinition,
+  type CustomFieldPhase,
+  type CustomFieldValue,
+  type CustomFieldValues,
+  type CustomFormDefinition,
+  type CustomFormGameData,
+  type CustomFormTransferPayload,
+} from '@/core/lib/customFormTypes';
+import type { StrategyColumnConfig } from '@/core/types/strategy';
+
+const CUSTOM_RAW_VALUE_PREFIX = 'custom_';
+const MAX_RATING_SCALE = 10;
+
+const toSlug = (value: string): string =>
+  value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+
+/**
+ * Build a camelCase key from a field label, suffixed to stay unique within the form.
+ */
+export const createCustomFieldKey = (label: string, existingKeys: Iterable<string>): string => {
+  const words = toSlug(label).split('_').filter(Boolean);
+  const base = words.length > 0
+    ? words.map((word, index) => (index === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1))).join('')
+    : 'field';
+  const safeBase = /^[0-9]/.test(base) ? `field${base}` : base;
+
+  const taken = new Set(existingKeys);
+  if (!taken.has(safeBase)) return safeBase;
+
+  let suffix = 2;
+  while (taken.has(`${safeBase}${suffix}`)) {
+    suffix++;
+  }
+  return `${safeBase}${suffix}`;
+};
+
+export const createCustomFormId = (): string =>
+  `form-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const getRatingScale = (field: CustomFieldDefinition): number =>
+  Math.min(MAX_RATING_SCALE, Math.max(2, Math.round(field.max ?? DEFAULT_RATING_MAX)));
+
+export const getDefaultCustomFieldValue = (field: CustomFieldDefinition): CustomFieldValue => {
+  switch (field.type) {
+    case 'counter':
+      return Math.max(0, field.min ?? 0);
+    case 'toggle':
+      return false;
+    case 'text':
+      return '';
+    case 'select':
+    case 'rating':
+      return null;
+  }
+};
+
+/**
+ * Coerce a stored or user-entered value to the field's type, clamping counters
+ * and ratings and dropping select values that are no longer options.
+ */
+export const normalizeCustomFieldValue = (field: CustomFieldDefinition, raw: unknown): CustomFieldValue => {
+  switch (field.type) {
+    case 'counter': {
+      if (typeof raw !== 'number' || !Number.isFinite(raw)) return getDefaultCustomFieldValue(field);
+      const min = field.min ?? 0;
+      const max = field.max ?? Number.POSITIVE_INFINITY;
+      return Math.min(max, Math.max(min, Math.round(raw)));
+    }
+    case 'toggle':
+      return raw === true;
+    case 'select':
+      return typeof raw === 'string' && (field.options ?? []).includes(raw) ? raw : null;
+    case 'rating': {
+      if (typeof raw !== 'number' || !Number.isFinite(raw)) return null;
+      const rating = Math.round(raw);
+      return rating >= 1 && rating <= getRatingScale(field) ? rating : null;
+    }
+    case 'text':
+      return typeof raw === 'string' ? raw : '';
+  }
+};
+
+/** localStorage key holding in-progress answers for a phase, cleared after submit */
+export const getCustomFieldsStorageKey = (phase: CustomFieldPhase): string => `${phase}CustomFields`;
+
+export const getCustomFieldsForPhase = (
+  form: CustomFormDefinition | null | undefined,
+  phase: CustomFieldPhase
+): CustomFieldDefinition[] => (form?.fields ?? []).filter(field => field.phase === phase);
+
+/**
+ * Values for the fields of one phase, filling unanswered fields with defaults.
+ */
+export const getCustomPhaseValues = (
+  form: CustomFormDefinition | null | undefined,
+  phase: CustomFieldPhase,
+  saved: unknown
+): CustomFieldValues => {
+  const record = saved && typeof saved === 'object' ? saved as Record<string, unknown> : {};
+  const values: CustomFieldValues = {};
+
+  for (const field of getCustomFieldsForPhase(form, phase)) {
+    values[field.key] = field.key in record
+      ? normalizeCustomFieldValue(field, record[field.key])
+      : getDefaultCustomFieldValue(field);
+  }
+
+  return values;
+};
+
+/**
+ * Combine per-phase answers into the block stored under gameData.customForm.
+ */
+export const buildCustomFormGameData = (
+  form: CustomFormDefinition,
+  valuesByPhase: Partial<Record<CustomFieldPhase, unknown>>
+): CustomFormGameData => {
+  const values: CustomFieldValues = {};
+  const notes: Record<string, string> = {};
+
+  for (const phase of CUSTOM_FIELD_PHASES) {
+    const phaseValues = getCustomPhaseValues(form, phase, valuesByPhase[phase]);
+    for (const field of getCustomFieldsForPhase(form, phase)) {
+      const value = phaseValues[field.key] ?? null;
+      if (field.type === 'text') {
+        if (typeof value === 'string' && value.trim()) notes[field.key] = value.trim();
+      } else {
+        values[field.key] = value;
+      }
+    }
+  }
+
+  return { formId: form.formId, version: form.version, values, notes };
+};
+
+const normalizeField = (raw: unknown): CustomFieldDefinition | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const record = raw as Record<string, unknown>;
+
+  if (typeof record.key !== 'string' || !/^[A-Za-z][A-Za-z0-9_]*$/.test(record.key)) return null;
+  if (typeof record.label !== 'string' || !record.label.trim()) return null;
+  if (!CUSTOM_FIELD_PHASES.includes(record.phase as CustomFieldPhase)) return null;
+  if (!CUSTOM_FIELD_TYPES.includes(record.type as CustomFieldDefinition['type'])) return null;
+
+  const field: CustomFieldDefinition = {
+    key: record.key,
+    label: record.label.trim(),
+    phase: record.phase as CustomFieldPhase,
+    type: record.type as CustomFieldDefinition['type'],
+  };
+
+  if (field.type === 'select') {
+    const options = Array.isArray(record.options)
+      ? [...new Set(record.options.filter((option): option is string => typeof option === 'string').map(option => option.trim()).filter(Boolean))]
+      : [];
+    if (options.length === 0) return null;
+    field.options = options;
+  }
+
+  if (typeof record.min === 'number' && Number.isFinite(record.min)) field.min = record.min;
+  if (typeof record.max === 'number' && Number.isFinite(record.max)) field.max = record.max;
+
+  return field;
+};
+
+/**
+ * Validate a form definition from storage or another device. Fields that fail
+ * validation or reuse an earlier key are dropped.
+ */
+export const normalizeCustomFormDefinition = (raw: unknown): CustomFormDefinition | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const record = raw as Record<string, unknown>;
+
+  if (typeof record.formId !== 'string' || !record.formId.trim()) return null;
+  if (typeof record.version !== 'number' || !Number.isInteger(record.version) || record.version < 1) return null;
+  if (!Array.isArray(record.fields)) return null;
+
+  const seenKeys = new Set<string>();
+  const fields = record.fields
+    .map(normalizeField)
+    .filter((field): field is CustomFieldDefinition => {
+      if (!field || seenKeys.has(field.key)) return false;
+      seenKeys.add(field.key);
+      return true;
+    });
+
+  return {
+    formId: record.formId,
+    name: typeof record.name === 'string' && record.name.trim() ? record.name.trim() : 'Custom Form',
+    version: record.version,
+    updatedAt: typeof record.updatedAt === 'number' ? record.updatedAt : Date.now(),
+    fields,
+  };
+};
+
+export const createCustomFormPayload = (form: CustomFormDefinition): CustomFormTransferPayload => ({
+  type: 'custom-form',
+  version: '1.0',
+  exportedAt: new Date().toISOString(),
+  form: {
+    formId: form.formId,
+    name: form.name,
+    version: form.version,
+    updatedAt: form.updatedAt,
+    fields: form.fields,
+  },
+});
+
+export const isCustomFormPayload = (jsonData: unknown): jsonData is CustomFormTransferPayload => {
+  if (!jsonData || typeof jsonData !== 'object') return false;
+
+  const data = jsonData as Record<string, unknown>;
+
+  if (data.type !== 'custom-form') return false;
+  if (data.version !== '1.0') return false;
+  if (typeof data.exportedAt !== 'string') return false;
+
+  return normalizeCustomFormDefinition(data.form) !== null;
+};
+
+// ============================================================================
+// STATS
+// ============================================================================
+
+/**
+ * rawValues key for a custom field, or for one option of a select field.
+ */
+export const getCustomFieldRawValueKey = (fieldKey: string, option?: string): string =>
+  option === undefined
+    ? `${CUSTOM_RAW_VALUE_PREFIX}${fieldKey}`
+    : `${CUSTOM_RAW_VALUE_PREFIX}${fieldKey}__${toSlug(option)}`;
+
+const getCustomFormValues = (gameData: unknown): Record<string, unknown> | null => {
+  if (!gameData || typeof gameData !== 'object') return null;
+  const customForm = (gameData as Record<string, unknown>).customForm;
+  if (!customForm || typeof customForm !== 'object') return null;
+  const values = (customForm as Record<string, unknown>).values;
+  return values && typeof values === 'object' ? values as Record<string, unknown> : null;
+};
+
+/**
+ * Per-match arrays for every custom answer found in a team's matches. Counters
+ * and ratings are kept as numbers, toggles become 0/100 and each select option
+ * becomes its own 0/100 series so rates average like the built-in % columns.
+ * Matches without an answer are left out rather than counted as zero.
+ */
+export const collectCustomFieldRawValues = (gameDataList: unknown[]): Record<string, number[]> => {
+  const valuesPerMatch = gameDataList.map(getCustomFormValues);
+
+  const selectOptions = new Map<string, Set<string>>();
+  for (const values of valuesPerMatch) {
+    if (!values) continue;
+    for (const [key, value] of Object.entries(values)) {
+      if (typeof value === 'string' && value.length > 0) {
+        const options = selectOptions.get(key) ?? new Set<string>();
+        options.add(value);
+        selectOptions.set(key, options);
+      }
+    }
+  }
+
+  const rawValues: Record<string, number[]> = {};
+  const push = (key: string, value: number) => {
+    (rawValues[key] ??= []).push(value);
+  };
+
+  for (const values of valuesPerMatch) {
+    if (!values) continue;
+
+    for (const [key, value] of Object.entries(values)) {
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        push(getCustomFieldRawValueKey(key), value);
+      } else if (typeof value === 'boolean') {
+        push(getCustomFieldRawValueKey(key), value ? 100 : 0);
+      } else if (typeof value === 'string' && value.length > 0) {
+        for (const option of selectOptions.get(key) ?? []) {
+          push(getCustomFieldRawValueKey(key, option), option === value ? 100 : 0);
+        }
+      }
+    }
+  }
+
+  return rawValues;
+};
+
+/**
+ * Strategy Overview columns for a form. Text fields have no column.
+ */
+export const getCustomFormStrategyColumns = (form: CustomFormDefinition | null | undefined): StrategyColumnConfig[] => {
+  if (!form) return [];
+
+  return form.fields.flatMap((field): StrategyColumnConfig[] => {
+    const category = `Custom ${CUSTOM_FIELD_PHASE_LABELS[field.phase]}`;
+
+    switch (field.type) {
+      case 'counter':
+      case 'rating':
+        return [{
+          key: `rawValues.${getCustomFieldRawValueKey(field.key)}`,
+          label: field.label,
+          category,
+          visible: true,
+          numeric: true,
+        }];
+      case 'toggle':
+        return [{
+          key: `rawValues.${getCustomFieldRawValueKey(field.key)}`,
+          label: `${field.label} %`,
+          category,
+          visible: true,
+          numeric: true,
+          percentage: true,
+        }];
+      case 'select':
+        return (field.options ?? []).map(option => ({
+          key: `rawValues.${getCustomFieldRawValueKey(field.key, option)}`,
+          label: `${field.label}: ${option} %`,
+          category,
+          visible: false,
+          numeric: true,
+          percentage: true,
+        }));
+      case 'text':
+        return [];
+    }
+  });
+};
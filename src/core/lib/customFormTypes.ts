@@ -0,0 +1,71 @@
+export type CustomFieldType = 'counter' | 'toggle' | 'select' | 'rating' | 'text';
+
+export type CustomFieldPhase = 'auto' | 'teleop' | 'endgame';
+
+export const CUSTOM_FIELD_TYPES: CustomFieldType[] = ['counter', 'toggle', 'select', 'rating', 'text'];
+
+export const CUSTOM_FIELD_PHASES: CustomFieldPhase[] = ['auto', 'teleop', 'endgame'];
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  counter: 'Counter',
+  toggle: 'Toggle',
+  select: 'Select',
+  rating: 'Rating',
+  text: 'Text',
+};
+
+export const CUSTOM_FIELD_PHASE_LABELS: Record<CustomFieldPhase, string> = {
+  auto: 'Auto',
+  teleop: 'Teleop',
+  endgame: 'Endgame',
+};
+
+export const DEFAULT_RATING_MAX = 5;
+
+export interface CustomFieldDefinition {
+  /** Stable key used in gameData and stat columns (letters, digits and underscores) */
+  key: string;
+  label: string;
+  phase: CustomFieldPhase;
+  type: CustomFieldType;
+  /** Choices for select fields */
+  options?: string[];
+  /** Counter lower bound (defaults to 0) */
+  min?: number;
+  /** Counter upper bound or rating scale (rating defaults to 5) */
+  max?: number;
+}
+
+export interface CustomFormDefinition {
+  formId: string;
+  name: string;
+  /** Incremented on every save so tablets can tell which form is newer */
+  version: number;
+  updatedAt: number;
+  fields: CustomFieldDefinition[];
+}
+
+/** Stored row; activatedAt is device-local and decides which version is in use */
+export interface CustomFormRecord extends CustomFormDefinition {
+  activatedAt: number;
+}
+
+/** Unanswered ratings and selects are stored as null so they stay out of averages */
+export type CustomFieldValue = number | boolean | string | null;
+
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+/** Shape saved under gameData.customForm; text answers are kept apart from stat values */
+export interface CustomFormGameData {
+  formId: string;
+  version: number;
+  values: CustomFieldValues;
+  notes: Record<string, string>;
+}
+
+export interface CustomFormTransferPayload {
+  type: 'custom-form';
+  version: '1.0';
+  exportedAt: string;
+  form: CustomFormDefinition;
+}
@@ -1,5 +1,6 @@
 // Debug utilities for pit assignments and spatial clustering
 import { getStoredPitData } from '@/core/lib/nexusUtils';
+import { workspaceStorage } from '@/core/db/eventWorkspaceDatabase';
 
 export interface DebugTeamInfo {
   teamNumber: number;
@@ -37,7 +38,7 @@ export function setupDebugFunctions(): void {
       if (teams.length > 0) {
         // Store in localStorage
         const nexusKey = `nexus_event_teams_${eventKey}`;
-        localStorage.setItem(nexusKey, JSON.stringify(teams));
+        workspaceStorage.setItem(nexusKey, JSON.stringify(teams));
         console.log(`Stored ${teams.length} teams to ${nexusKey}`);
       }
     } else if (pitData.addresses && Object.keys(pitData.addresses).length > 0) {
@@ -47,7 +48,7 @@ export function setupDebugFunctions(): void {
       
       if (teams.length > 0) {
         const nexusKey = `nexus_event_teams_${eventKey}`;
-        localStorage.setItem(nexusKey, JSON.stringify(teams));
+        workspaceStorage.setItem(nexusKey, JSON.stringify(teams));
         console.log(`Stored ${teams.length} teams to ${nexusKey}`);
       }
     } else {
@@ -58,10 +59,9 @@ export function setupDebugFunctions(): void {
   // List available pit data
   (window as unknown as Record<string, unknown>).listAvailablePitData = () => {
     console.log('=== Available Pit Data ===');
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && (key.includes('nexus_pit_data_') || key.includes('nexus_pit_addresses_'))) {
-        const data = localStorage.getItem(key);
+    for (const key of workspaceStorage.keys()) {
+      if (key.includes('nexus_pit_data_') || key.includes('nexus_pit_addresses_')) {
+        const data = workspaceStorage.getItem(key);
         const parsed = data ? JSON.parse(data) : null;
         console.log(`${key}:`, parsed);
       }
@@ -72,16 +72,15 @@ export function setupDebugFunctions(): void {
   (window as unknown as Record<string, unknown>).debugPitAssignments = () => {
     console.log('=== Manual Debug localStorage ===');
     const allKeys = [];
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && (key.includes('nexus') || key.includes('tba'))) {
+    for (const key of workspaceStorage.keys()) {
+      if (key.includes('nexus') || key.includes('tba')) {
         allKeys.push(key);
       }
     }
     console.log('All nexus/tba keys:', allKeys);
     
     allKeys.forEach(key => {
-      const data = localStorage.getItem(key);
+      const data = workspaceStorage.getItem(key);
       try {
         const parsed = JSON.parse(data || '{}');
         console.log(`${key}:`, parsed);
@@ -12,6 +12,7 @@
  */
 
 import { db, saveScoutingEntry, savePitScoutingEntry } from '@/core/db/database';
+import { withoutChangeLog } from '@/core/db/syncLogDatabase';
 import type { ScoutingEntryBase } from '@/core/types/scouting-entry';
 import type { PitScoutingEntryBase, DrivetrainType, ProgrammingLanguage } from '@/core/types/pit-scouting';
 import { setCurrentEvent } from '@/core/lib/tba/eventDataUtils';
@@ -1030,7 +1031,7 @@ export async function generateDemoEventScheduleOnly(options: Pick<DemoDataOption
 
     try {
         if (clearExisting) {
-            await db.scoutingData.where('eventKey').equals(eventKey).delete();
+            await withoutChangeLog(db.scoutingData, () => db.scoutingData.where('eventKey').equals(eventKey).delete());
             await clearEventCache(eventKey);
             await clearEventValidationResults(eventKey);
             await gamificationDB.predictions.where('eventKey').equals(eventKey).delete();
@@ -1098,10 +1099,10 @@ export async function generateDemoEvent(options: DemoDataOptions = {}): Promise<
     try {
         // Clear existing demo data if requested
         if (clearExisting) {
-            await db.scoutingData
+            await withoutChangeLog(db.scoutingData, () => db.scoutingData
                 .where('eventKey')
                 .equals(eventKey)
-                .delete();
+                .delete());
             await clearEventValidationResults(eventKey);
             console.log('  ✓ Cleared existing demo data');
         }
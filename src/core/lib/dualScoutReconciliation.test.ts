@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import type { ScoutingEntryBase } from '@/core/types/scouting-entry';
+import type { TBAMatchData } from './tbaMatchData';
+import {
+  buildMergedEntry,
+  checkAgainstAllianceTotals,
+  diffScoutingEntries,
+  formatFieldPath,
+} from './dualScoutReconciliation';
+
+const waypoint = (action: string, x: number, fuelDelta = 0) => ({
+  id: `${action}-${x}`,
+  type: 'score',
+  action,
+  position: { x, y: 0.5 },
+  fuelDelta,
+  timestamp: 0,
+});
+
+const entry = (
+  scoutName: string,
+  teleopFuel: number,
+  extra: Partial<ScoutingEntryBase> = {},
+  autoPath = [waypoint('shoot', 0.2, 4)]
+): ScoutingEntryBase => ({
+  id: '2026test::qm1::100::red',
+  teamNumber: 100,
+  matchNumber: 1,
+  matchKey: 'qm1',
+  allianceColor: 'red',
+  scoutName,
+  eventKey: '2026test',
+  timestamp: 1,
+  gameData: {
+    auto: { fuelScoredCount: 4, autoPath },
+    teleop: { fuelScoredCount: teleopFuel },
+    endgame: { climbL2: true },
+    scaledMetrics: { scaledTeleopFuel: 99 },
+  },
+  ...extra,
+});
+
+const tbaMatch: Pick<TBAMatchData, 'alliances' | 'score_breakdown'> = {
+  alliances: {
+    red: { score: 80, team_keys: ['frc100', 'frc200', 'frc300'], dq_team_keys: [], surrogate_team_keys: [] },
+    blue: { score: 60, team_keys: ['frc400', 'frc500', 'frc600'], dq_team_keys: [], surrogate_team_keys: [] },
+  },
+  score_breakdown: {
+    red: {
+      hubScore: { autoCount: 10, teleopCount: 40, totalCount: 50 },
+      endGameTowerRobot1: 'Level2',
+      endGameTowerRobot2: 'None',
+      endGameTowerRobot3: 'None',
+    },
+    blue: {},
+  },
+};
+
+describe('diffScoutingEntries', () => {
+  it('lists differing fields, summarizes waypoint paths and ignores scaled metrics', () => {
+    const a = entry('Ann', 20);
+    const b = entry('Ben', 25, {}, [waypoint('shoot', 0.3, 4), waypoint('collect', 0.5)]);
+
+    const fields = diffScoutingEntries(a, b);
+
+    expect(fields.map(field => field.path)).toEqual(['auto.autoPath', 'teleop.fuelScoredCount']);
+    expect(fields[1]).toMatchObject({ kind: 'value', a: 20, b: 25, label: 'Teleop: Fuel Scored Count' });
+    expect(fields[0]?.pathDiff).toMatchObject({
+      aCount: 1,
+      bCount: 2,
+      actionCounts: [{ action: 'collect', a: 0, b: 1 }],
+      meanPositionGap: 0.1,
+    });
+  });
+});
+
+describe('checkAgainstAllianceTotals', () => {
+  it('sums the entry with its alliance partners against TBA', () => {
+    const partners = [
+      { teamNumber: 200, gameData: { auto: { fuelScoredCount: 3 }, teleop: { fuelScoredCount: 10 } } },
+      { teamNumber: 300, gameData: { auto: { fuelScoredCount: 3 }, teleop: { fuelScoredCount: 10 } } },
+    ];
+
+    const closer = checkAgainstAllianceTotals(entry('Ann', 20), partners, tbaMatch);
+    const further = checkAgainstAllianceTotals(entry('Ben', 30), partners, tbaMatch);
+
+    expect(closer.complete).toBe(true);
+    expect(closer.checks.find(check => check.field === 'teleopFuelScored')).toMatchObject({ scouted: 40, tba: 40, difference: 0 });
+    expect(closer.checks.find(check => check.field === 'climbL2')?.difference).toBe(0);
+    expect(further.totalAbsoluteDifference).toBeGreaterThan(closer.totalAbsoluteDifference);
+  });
+
+  it('marks the check incomplete when a partner is unscouted', () => {
+    expect(checkAgainstAllianceTotals(entry('Ann', 20), [], tbaMatch).complete).toBe(false);
+  });
+});
+
+describe('buildMergedEntry', () => {
+  it('takes chosen fields from the second entry and records provenance', () => {
+    const a = entry('Ann', 20, { comments: 'fast cycles' });
+    const b = entry('Ben', 25, { comments: 'missed a few' }, [waypoint('shoot', 0.3, 4)]);
+
+    const merged = buildMergedEntry(a, b, { 'teleop.fuelScoredCount': 'b' }, { mergedBy: 'Lead', notes: 'Ben had the better view', now: 50 });
+    const gameData = merged.gameData as Record<string, Record<string, unknown>>;
+
+    expect(merged.id).toBe(a.id);
+    expect(gameData.teleop?.fuelScoredCount).toBe(25);
+    expect(gameData.auto?.autoPath).toEqual([waypoint('shoot', 0.2, 4)]);
+    expect(gameData.scaledMetrics).toBeUndefined();
+    expect(merged).toMatchObject({
+      scoutName: 'Ann',
+      originalScoutName: 'Ann + Ben',
+      isCorrected: true,
+      correctionCount: 1,
+      lastCorrectedBy: 'Lead',
+      lastCorrectedAt: 50,
+      comments: 'fast cycles | missed a few',
+    });
+    expect(merged.correctionNotes).toBe(
+      'Dual-scout merge of Ann and Ben: 1 of 2 differing fields from Ann; from Ben: teleop.fuelScoredCount. Ben had the better view'
+    );
+    // Inputs are not mutated
+    expect((a.gameData.teleop as Record<string, unknown>).fuelScoredCount).toBe(20);
+  });
+});
+
+describe('formatFieldPath', () => {
+  it('turns nested camelCase paths into labels', () => {
+    expect(formatFieldPath('endgame.climbL2')).toBe('Endgame: Climb L2');
+    expect(formatFieldPath('noShow')).toBe('No Show');
+  });
+});
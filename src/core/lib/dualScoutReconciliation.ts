@@ -0,0 +1,289 @@
+/**
+ * Dual-scout reconciliation
+ *
+ * When a robot is scouted twice in one match (on purpose, for key teams),
+ * the two entries share an ID and arrive as an import conflict. Rather than
+ * keep one whole entry, a lead compares them field by field, checks each
+ * against TBA's alliance totals and builds a merged entry. Provenance goes in
+ * the correction fields so the merge shows up like any other correction.
+ */
+
+import type { ScoutingEntryBase } from '@/core/types/scouting-entry';
+import type { TBAMatchData } from './tbaMatchData';
+import {
+  extractTeamNumbers,
+  getActionLabel,
+  getScoutedMappedValues,
+  getToggleLabel,
+  parseTBABreakdown,
+} from './matchValidationUtils';
+import { getAllMappedActionKeys, getAllMappedToggleKeys } from '@/game-template/game-schema';
+
+export type ReconciliationSource = 'a' | 'b';
+
+/** Field path (e.g. "teleop.fuelScoredCount") -> which entry's value to keep */
+export type ReconciliationChoices = Record<string, ReconciliationSource>;
+
+export interface WaypointPathDiff {
+  aCount: number;
+  bCount: number;
+  /** Waypoints per action, only where the two paths disagree */
+  actionCounts: Array<{ action: string; a: number; b: number }>;
+  aFuelDelta: number;
+  bFuelDelta: number;
+  /** Average distance (0-1 field units) between waypoints at the same step, null if either path is empty */
+  meanPositionGap: number | null;
+}
+
+export interface ReconciliationField {
+  path: string;
+  label: string;
+  kind: 'value' | 'path';
+  a: unknown;
+  b: unknown;
+  pathDiff?: WaypointPathDiff;
+}
+
+export interface AllianceTotalCheck {
+  field: string;
+  label: string;
+  scouted: number;
+  tba: number;
+  difference: number;
+}
+
+export interface AllianceTotalsResult {
+  /** False when a partner robot is unscouted, so totals can't match exactly */
+  complete: boolean;
+  checks: AllianceTotalCheck[];
+  totalAbsoluteDifference: number;
+}
+
+export interface MergeOptions {
+  mergedBy: string;
+  notes?: string;
+  now?: number;
+}
+
+// Derived from TBA by scaling; recomputed after the merged entry is re-validated
+const DERIVED_FIELDS = ['scaledMetrics'];
+
+type Waypoint = {
+  action?: unknown;
+  type?: unknown;
+  fuelDelta?: unknown;
+  position?: { x?: unknown; y?: unknown };
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const isWaypointPath = (value: unknown): value is Waypoint[] =>
+  Array.isArray(value) && value.length > 0 && value.every(item => isPlainObject(item) && isPlainObject(item.position));
+
+const flattenGameData = (data: Record<string, unknown>, prefix = ''): Record<string, unknown> => {
+  const flattened: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(data)) {
+    if (!prefix && DERIVED_FIELDS.includes(key)) continue;
+    const path = prefix ? `${prefix}.${key}` : key;
+
+    if (isPlainObject(value)) {
+      Object.assign(flattened, flattenGameData(value, path));
+    } else {
+      flattened[path] = value;
+    }
+  }
+
+  return flattened;
+};
+
+/** "teleop.fuelScoredCount" -> "Teleop: Fuel Scored Count" */
+export const formatFieldPath = (path: string): string => {
+  const words = (segment: string) => segment
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/^./, char => char.toUpperCase());
+  const segments = path.split('.');
+  const field = segments.pop() ?? path;
+  return segments.length > 0 ? `${segments.map(words).join(' ')}: ${words(field)}` : words(field);
+};
+
+/** Short display form of a gameData value */
+export const formatFieldValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return `${value.length} items`;
+  return String(value);
+};
+
+const getWaypointAction = (waypoint: Waypoint): string =>
+  typeof waypoint.action === 'string' && waypoint.action
+    ? waypoint.action
+    : typeof waypoint.type === 'string' ? waypoint.type : 'unknown';
+
+const sumFuelDelta = (path: Waypoint[]): number =>
+  path.reduce((sum, waypoint) => sum + (typeof waypoint.fuelDelta === 'number' ? waypoint.fuelDelta : 0), 0);
+
+export const diffWaypointPaths = (a: unknown, b: unknown): WaypointPathDiff => {
+  const pathA = Array.isArray(a) ? a as Waypoint[] : [];
+  const pathB = Array.isArray(b) ? b as Waypoint[] : [];
+
+  const counts = new Map<string, { a: number; b: number }>();
+  pathA.forEach(waypoint => {
+    const action = getWaypointAction(waypoint);
+    counts.set(action, { a: (counts.get(action)?.a ?? 0) + 1, b: counts.get(action)?.b ?? 0 });
+  });
+  pathB.forEach(waypoint => {
+    const action = getWaypointAction(waypoint);
+    counts.set(action, { a: counts.get(action)?.a ?? 0, b: (counts.get(action)?.b ?? 0) + 1 });
+  });
+
+  const steps = Math.min(pathA.length, pathB.length);
+  let gapTotal = 0;
+  for (let index = 0; index < steps; index++) {
+    const positionA = pathA[index]?.position;
+    const positionB = pathB[index]?.position;
+    const dx = Number(positionA?.x ?? 0) - Number(positionB?.x ?? 0);
+    const dy = Number(positionA?.y ?? 0) - Number(positionB?.y ?? 0);
+    gapTotal += Math.sqrt(dx * dx + dy * dy);
+  }
+
+  return {
+    aCount: pathA.length,
+    bCount: pathB.length,
+    actionCounts: [...counts.entries()]
+      .filter(([, count]) => count.a !== count.b)
+      .map(([action, count]) => ({ action, ...count }))
+      .sort((x, y) => x.action.localeCompare(y.action)),
+    aFuelDelta: sumFuelDelta(pathA),
+    bFuelDelta: sumFuelDelta(pathB),
+    meanPositionGap: steps > 0 ? Math.round((gapTotal / steps) * 1000) / 1000 : null,
+  };
+};
+
+/**
+ * Fields where two entries' gameData disagree. Waypoint paths are compared
+ * as a whole and summarized; everything else is compared by value.
+ */
+export const diffScoutingEntries = (
+  a: Pick<ScoutingEntryBase, 'gameData'>,
+  b: Pick<ScoutingEntryBase, 'gameData'>
+): ReconciliationField[] => {
+  const flatA = flattenGameData(a.gameData ?? {});
+  const flatB = flattenGameData(b.gameData ?? {});
+  const paths = [...new Set([...Object.keys(flatA), ...Object.keys(flatB)])].sort();
+
+  return paths.flatMap<ReconciliationField>(path => {
+    const valueA = flatA[path];
+    const valueB = flatB[path];
+    if (JSON.stringify(valueA ?? null) === JSON.stringify(valueB ?? null)) return [];
+
+    if (isWaypointPath(valueA) || isWaypointPath(valueB)) {
+      return [{ path, label: formatFieldPath(path), kind: 'path', a: valueA, b: valueB, pathDiff: diffWaypointPaths(valueA, valueB) }];
+    }
+
+    return [{ path, label: formatFieldPath(path), kind: 'value', a: valueA, b: valueB }];
+  });
+};
+
+/**
+ * Compare the alliance's scouted totals (this entry plus its partners')
+ * against TBA for every mapped action and toggle
+ */
+export const checkAgainstAllianceTotals = (
+  entry: Pick<ScoutingEntryBase, 'teamNumber' | 'allianceColor' | 'gameData'>,
+  partners: Array<Pick<ScoutingEntryBase, 'teamNumber' | 'gameData'>>,
+  tbaMatch: Pick<TBAMatchData, 'alliances' | 'score_breakdown'>
+): AllianceTotalsResult => {
+  const alliance = entry.allianceColor;
+  const tbaTeams = extractTeamNumbers(tbaMatch.alliances[alliance].team_keys);
+  const breakdown = tbaMatch.score_breakdown?.[alliance] as Record<string, unknown> | undefined;
+  const tba = parseTBABreakdown(alliance, tbaTeams, breakdown ?? null, tbaMatch.alliances[alliance]);
+
+  const allianceEntries = [
+    entry,
+    ...partners.filter(partner => partner.teamNumber !== entry.teamNumber && tbaTeams.includes(String(partner.teamNumber))),
+  ];
+  const scoutedTeams = new Set(allianceEntries.map(allianceEntry => String(allianceEntry.teamNumber)));
+  const values = allianceEntries.map(allianceEntry => getScoutedMappedValues(allianceEntry.gameData ?? {}));
+
+  const check = (field: string, label: string, kind: 'actions' | 'toggles'): AllianceTotalCheck => {
+    const scouted = values.reduce((sum, value) => sum + (value[kind][field] ?? 0), 0);
+    const official = tba.breakdown[field] ?? 0;
+    return { field, label, scouted, tba: official, difference: scouted - official };
+  };
+
+  const checks = breakdown
+    ? [
+      ...getAllMappedActionKeys().map(field => check(field, getActionLabel(field), 'actions')),
+      ...getAllMappedToggleKeys().map(field => check(field, getToggleLabel(field), 'toggles')),
+    ]
+    : [];
+
+  return {
+    complete: tbaTeams.every(team => scoutedTeams.has(team)),
+    checks,
+    totalAbsoluteDifference: checks.reduce((sum, item) => sum + Math.abs(item.difference), 0),
+  };
+};
+
+const setNestedValue = (target: Record<string, unknown>, path: string, value: unknown): void => {
+  const keys = path.split('.');
+  const last = keys.pop();
+  if (!last) return;
+
+  let current = target;
+  for (const key of keys) {
+    if (!isPlainObject(current[key])) {
+      current[key] = {};
+    }
+    current = current[key] as Record<string, unknown>;
+  }
+
+  if (value === undefined) {
+    delete current[last];
+  } else {
+    current[last] = value;
+  }
+};
+
+const scoutLabel = (entry: ScoutingEntryBase): string => entry.scoutName?.trim() || 'Unknown scout';
+
+/**
+ * Build one entry from two, taking each differing field from the chosen side
+ * (entry A where no choice was made). Keeps A's identity and scout, drops
+ * scaled metrics, and records both scouts and the fields taken from B.
+ */
+export const buildMergedEntry = (
+  a: ScoutingEntryBase,
+  b: ScoutingEntryBase,
+  choices: ReconciliationChoices,
+  options: MergeOptions
+): ScoutingEntryBase => {
+  const gameData = structuredClone(a.gameData ?? {});
+  DERIVED_FIELDS.forEach(field => delete gameData[field]);
+
+  const fields = diffScoutingEntries(a, b);
+  const fromB = fields.filter(field => choices[field.path] === 'b');
+  fromB.forEach(field => setNestedValue(gameData, field.path, structuredClone(field.b)));
+
+  const now = options.now ?? Date.now();
+  const summary = fields.length === 0
+    ? `Dual-scout merge of ${scoutLabel(a)} and ${scoutLabel(b)}: entries matched.`
+    : `Dual-scout merge of ${scoutLabel(a)} and ${scoutLabel(b)}: ${fields.length - fromB.length} of ${fields.length} differing fields from ${scoutLabel(a)}`
+      + (fromB.length > 0 ? `; from ${scoutLabel(b)}: ${fromB.map(field => field.path).join(', ')}.` : '.');
+  const notes = options.notes?.trim();
+
+  return {
+    ...a,
+    gameData,
+    comments: [a.comments, b.comments].filter(comment => comment?.trim()).join(' | ') || undefined,
+    timestamp: now,
+    isCorrected: true,
+    correctionCount: Math.max(a.correctionCount ?? 0, b.correctionCount ?? 0) + 1,
+    lastCorrectedAt: now,
+    lastCorrectedBy: options.mergedBy,
+    correctionNotes: notes ? `${summary} ${notes}` : summary,
+    originalScoutName: `${a.originalScoutName?.trim() || scoutLabel(a)} + ${b.originalScoutName?.trim() || scoutLabel(b)}`,
+  };
+};
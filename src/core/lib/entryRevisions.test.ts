@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import type { ScoutingEntryBase } from '@/core/types/scouting-entry';
+import {
+  buildEntryHistory,
+  buildRevertedEntry,
+  createEntryRevision,
+  diffEntryVersions,
+  planBatchRevert,
+  type ScoutingEntryRevision,
+} from './entryRevisions';
+
+const entry = (climbL2: boolean, extra: Partial<ScoutingEntryBase> = {}): ScoutingEntryBase => ({
+  id: '2026test::qm1::100::red',
+  teamNumber: 100,
+  matchNumber: 1,
+  matchKey: 'qm1',
+  allianceColor: 'red',
+  scoutName: 'Ann',
+  eventKey: '2026test',
+  timestamp: 1,
+  gameData: { endgame: { climbL2 } },
+  ...extra,
+});
+
+const revision = (
+  snapshot: ScoutingEntryBase,
+  changedAt: number,
+  batchId?: string
+): ScoutingEntryRevision => createEntryRevision(snapshot, { changedBy: 'Lead', reason: `change at ${changedAt}`, batchId, now: changedAt });
+
+describe('createEntryRevision', () => {
+  it('stores a copy of the replaced version', () => {
+    const original = entry(false);
+    const stored = createEntryRevision(original, { changedBy: 'Lead', reason: 'TBA climb', batchId: 'b1', now: 10 });
+
+    (original.gameData.endgame as Record<string, unknown>).climbL2 = true;
+
+    expect(stored).toMatchObject({ entryId: original.id, kind: 'correction', changedAt: 10, batchId: 'b1' });
+    expect(stored.snapshot.gameData).toEqual({ endgame: { climbL2: false } });
+  });
+});
+
+describe('diffEntryVersions', () => {
+  it('lists gameData and entry field changes but not correction metadata', () => {
+    const changes = diffEntryVersions(
+      entry(false),
+      entry(true, { comments: 'climbed', isCorrected: true, correctionCount: 1, timestamp: 5 })
+    );
+
+    expect(changes.map(change => change.path)).toEqual(['comments', 'endgame.climbL2']);
+    expect(changes[1]).toMatchObject({ a: false, b: true });
+  });
+});
+
+describe('buildEntryHistory', () => {
+  it('pairs each revision with the version that replaced it, newest first', () => {
+    const original = entry(false);
+    const corrected = entry(true, { isCorrected: true });
+    const current = entry(true, { comments: 'checked', isCorrected: true });
+
+    const history = buildEntryHistory([revision(corrected, 20), revision(original, 10)], current);
+
+    expect(history.map(step => step.revision.changedAt)).toEqual([20, 10]);
+    expect(history[0]?.changes.map(change => change.path)).toEqual(['comments']);
+    expect(history[1]?.changes.map(change => change.path)).toEqual(['endgame.climbL2']);
+  });
+});
+
+describe('buildRevertedEntry', () => {
+  it('restores the snapshot values as a new correction', () => {
+    const stored = revision(entry(false), 10);
+    const current = entry(true, { isCorrected: true, correctionCount: 1, correctionNotes: 'TBA climb' });
+
+    const reverted = buildRevertedEntry(stored, current, 'Lead', 30);
+
+    expect(reverted.gameData).toEqual({ endgame: { climbL2: false } });
+    expect(reverted).toMatchObject({
+      isCorrected: true,
+      correctionCount: 2,
+      lastCorrectedAt: 30,
+      lastCorrectedBy: 'Lead',
+      correctionNotes: 'Reverted to the version before: change at 10',
+    });
+  });
+});
+
+describe('planBatchRevert', () => {
+  it('skips entries that were changed again after the batch', () => {
+    const untouched = revision(entry(false), 10, 'batch');
+    const editedLater = revision(entry(false, { id: 'other' }), 10, 'batch');
+    const laterEdit = revision(entry(true, { id: 'other' }), 20);
+
+    const plan = planBatchRevert(
+      [untouched, editedLater],
+      new Map([[untouched.entryId, untouched], ['other', laterEdit]])
+    );
+
+    expect(plan.revertible).toEqual([untouched]);
+    expect(plan.skipped).toEqual([editedLater]);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Scouting entry revisions
+ *
+ * Corrections overwrite the entry in place, so every write that replaces an
+ * entry first stores the version it replaces as a revision. Reading an entry's
+ * revisions oldest-first and ending with the live entry gives its full
+ * history; reverting writes an old snapshot back as a new correction, so a
+ * revert can itself be reverted.
+ *
+ * Bulk corrections (e.g. the climb auto-correction) share a batch ID so the
+ * whole batch can be undone at once.
+ */
+
+import type { ScoutingEntryBase } from '@/core/types/scouting-entry';
+import { diffScoutingEntries, type ReconciliationField } from './dualScoutReconciliation';
+
+export type EntryRevisionKind = 'correction' | 'merge' | 'replace' | 'revert';
+
+export interface ScoutingEntryRevision {
+  id: string;
+  entryId: string;
+  /** The entry exactly as it was before this change */
+  snapshot: ScoutingEntryBase;
+  kind: EntryRevisionKind;
+  changedAt: number;
+  changedBy: string;
+  reason: string;
+  /** Shared by every revision written by one bulk correction */
+  batchId?: string;
+}
+
+export interface RevisionMeta {
+  changedBy: string;
+  reason: string;
+  kind?: EntryRevisionKind;
+  batchId?: string;
+  now?: number;
+}
+
+/** One step of an entry's history: the version a revision replaced and what replaced it */
+export interface EntryHistoryStep {
+  revision: ScoutingEntryRevision;
+  before: ScoutingEntryBase;
+  after: ScoutingEntryBase;
+  changes: ReconciliationField[];
+}
+
+export interface BatchRevertPlan {
+  /** Revisions whose entry is unchanged since the batch, safe to restore */
+  revertible: ScoutingEntryRevision[];
+  /** Entries edited again after the batch; reverting would discard that edit */
+  skipped: ScoutingEntryRevision[];
+}
+
+// Entry fields outside gameData that a correction can change
+const TRACKED_ENTRY_FIELDS = {
+  scoutName: 'Scout',
+  comments: 'Comments',
+  noShow: 'No Show',
+  ignoreForStats: 'Ignored for Stats',
+} as const satisfies Partial<Record<keyof ScoutingEntryBase, string>>;
+
+export const createRevisionBatchId = (label: string, now = Date.now()): string =>
+  `${label}-${now}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createEntryRevision = (previous: ScoutingEntryBase, meta: RevisionMeta): ScoutingEntryRevision => {
+  const changedAt = meta.now ?? Date.now();
+  return {
+    id: `${previous.id}::rev-${changedAt}-${Math.random().toString(36).slice(2, 8)}`,
+    entryId: previous.id,
+    snapshot: structuredClone(previous),
+    kind: meta.kind ?? 'correction',
+    changedAt,
+    changedBy: meta.changedBy,
+    reason: meta.reason,
+    ...(meta.batchId ? { batchId: meta.batchId } : {}),
+  };
+};
+
+/**
+ * Fields that differ between two versions of an entry: every gameData path
+ * plus the scout, comments and flags. Correction metadata is left out since
+ * it changes on every write.
+ */
+export const diffEntryVersions = (before: ScoutingEntryBase, after: ScoutingEntryBase): ReconciliationField[] => {
+  const fields = Object.keys(TRACKED_ENTRY_FIELDS) as Array<keyof typeof TRACKED_ENTRY_FIELDS>;
+  const entryChanges = fields.flatMap<ReconciliationField>(field => {
+    const a = before[field];
+    const b = after[field];
+    if ((a ?? null) === (b ?? null)) return [];
+    return [{ path: field, label: TRACKED_ENTRY_FIELDS[field], kind: 'value', a, b }];
+  });
+
+  return [...entryChanges, ...diffScoutingEntries(before, after)];
+};
+
+const byChangedAt = (a: ScoutingEntryRevision, b: ScoutingEntryRevision) =>
+  a.changedAt - b.changedAt || a.id.localeCompare(b.id);
+
+/**
+ * Pair every revision with the version that replaced it (the next revision's
+ * snapshot, or the live entry for the latest one). Newest first.
+ */
+export const buildEntryHistory = (
+  revisions: ScoutingEntryRevision[],
+  current: ScoutingEntryBase | undefined
+): EntryHistoryStep[] => {
+  const ordered = [...revisions].sort(byChangedAt);
+
+  return ordered.flatMap<EntryHistoryStep>((revision, index) => {
+    const after = ordered[index + 1]?.snapshot ?? current;
+    if (!after) return [];
+    return [{ revision, before: revision.snapshot, after, changes: diffEntryVersions(revision.snapshot, after) }];
+  }).reverse();
+};
+
+/**
+ * Build the entry to write when reverting to a revision's snapshot. The old
+ * values come back, but it is recorded as a new correction so peers holding
+ * the corrected version accept it as newer.
+ */
+export const buildRevertedEntry = (
+  revision: ScoutingEntryRevision,
+  current: ScoutingEntryBase,
+  revertedBy: string,
+  now = Date.now()
+): ScoutingEntryBase => ({
+  ...structuredClone(revision.snapshot),
+  timestamp: now,
+  isCorrected: true,
+  correctionCount: (current.correctionCount ?? 0) + 1,
+  lastCorrectedAt: now,
+  lastCorrectedBy: revertedBy,
+  correctionNotes: `Reverted to the version before: ${revision.reason}`,
+  originalScoutName: revision.snapshot.originalScoutName ?? current.originalScoutName,
+});
+
+/**
+ * Split a batch's revisions into those that can be undone and those whose
+ * entry was changed again afterwards. `latestByEntry` is the newest revision
+ * recorded for each entry in the batch.
+ */
+export const planBatchRevert = (
+  batchRevisions: ScoutingEntryRevision[],
+  latestByEntry: Map<string, ScoutingEntryRevision>
+): BatchRevertPlan => {
+  // A batch touches each entry once; if it did more, restore the oldest snapshot
+  const firstByEntry = new Map<string, ScoutingEntryRevision>();
+  [...batchRevisions].sort(byChangedAt).forEach(revision => {
+    if (!firstByEntry.has(revision.entryId)) firstByEntry.set(revision.entryId, revision);
+  });
+
+  const plan: BatchRevertPlan = { revertible: [], skipped: [] };
+  const batchId = batchRevisions[0]?.batchId;
+  firstByEntry.forEach(revision => {
+    const latest = latestByEntry.get(revision.entryId);
+    if (!latest || latest.batchId === batchId) {
+      plan.revertible.push(revision);
+    } else {
+      plan.skipped.push(revision);
+    }
+  });
+
+  return plan;
+};
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import type { ScoutingEntryBase } from '@/core/types/scouting-entry';
+import { isNewerScoutingEntry, normalizeEventServerUrl } from './eventServer';
+
+describe('normalizeEventServerUrl', () => {
+  it('adds http and drops trailing slashes', () => {
+    expect(normalizeEventServerUrl(' 192.168.4.1:8888/ ')).toBe('http://192.168.4.1:8888');
+    expect(normalizeEventServerUrl('https://scouting.local/maneuver//')).toBe('https://scouting.local/maneuver');
+    expect(normalizeEventServerUrl('')).toBeNull();
+    expect(normalizeEventServerUrl('http://')).toBeNull();
+  });
+});
+
+describe('isNewerScoutingEntry', () => {
+  it('prefers corrections, then the latest change', () => {
+    const entry = (overrides: Partial<ScoutingEntryBase>) => ({ id: 'a', timestamp: 100, ...overrides }) as ScoutingEntryBase;
+
+    expect(isNewerScoutingEntry(entry({ correctionCount: 1, lastCorrectedAt: 50 }), entry({ timestamp: 900 }))).toBe(true);
+    expect(isNewerScoutingEntry(entry({ timestamp: 200 }), entry({}))).toBe(true);
+    expect(isNewerScoutingEntry(entry({}), entry({}))).toBe(false);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Self-hosted event server (server/event-server.mjs)
+ *
+ * When an event server URL is set, room-code signaling goes to it instead of
+ * the Netlify function, and scouting entries can be uploaded to / pulled from it.
+ */
+
+import type { ScoutingEntryBase } from '@/core/types/scouting-entry';
+
+export const EVENT_SERVER_URL_STORAGE_KEY = 'eventServerUrl';
+export const EVENT_SERVER_TOKEN_STORAGE_KEY = 'eventServerSyncToken';
+/** Server sequence number of the last pull. The older `eventServerLastPull` key held a time and is ignored */
+const EVENT_SERVER_PULL_CURSOR_STORAGE_KEY = 'eventServerPullCursor';
+
+export interface EventServerHealth {
+  ok: boolean;
+  rooms: number;
+  sync: boolean;
+  syncTokenRequired: boolean;
+  syncEntries?: number;
+}
+
+export interface EventServerUploadResult {
+  added: number;
+  updated: number;
+  unchanged: number;
+  rejected: number;
+  total: number;
+}
+
+/**
+ * Turn user input like "192.168.4.1:8888" into an origin URL.
+ * Returns null for input that is not a valid http(s) address.
+ */
+export function normalizeEventServerUrl(input: string): string | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+
+  const withProtocol = /^https?:\/\//i.test(trimmed) ? trimmed : `http://${trimmed}`;
+
+  try {
+    const url = new URL(withProtocol);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    return `${url.origin}${url.pathname.replace(/\/+$/, '')}`;
+  } catch {
+    return null;
+  }
+}
+
+export function getEventServerUrl(): string | null {
+  try {
+    const stored = localStorage.getItem(EVENT_SERVER_URL_STORAGE_KEY);
+    if (stored) return stored;
+  } catch {
+    // localStorage unavailable
+  }
+
+  const fromEnv = import.meta.env.VITE_EVENT_SERVER_URL;
+  return fromEnv ? normalizeEventServerUrl(fromEnv) : null;
+}
+
+export function setEventServerUrl(url: string | null): void {
+  if (url) {
+    localStorage.setItem(EVENT_SERVER_URL_STORAGE_KEY, url);
+  } else {
+    localStorage.removeItem(EVENT_SERVER_URL_STORAGE_KEY);
+  }
+  localStorage.removeItem(EVENT_SERVER_PULL_CURSOR_STORAGE_KEY);
+}
+
+export function getEventServerToken(): string {
+  return localStorage.getItem(EVENT_SERVER_TOKEN_STORAGE_KEY) ?? '';
+}
+
+export function setEventServerToken(token: string): void {
+  if (token) {
+    localStorage.setItem(EVENT_SERVER_TOKEN_STORAGE_KEY, token);
+  } else {
+    localStorage.removeItem(EVENT_SERVER_TOKEN_STORAGE_KEY);
+  }
+}
+
+/**
+ * Signaling endpoint for room codes: the event server when configured,
+ * otherwise the Netlify function (port 8888 in development).
+ */
+export function getSignalingUrl(): string {
+  const eventServerUrl = getEventServerUrl();
+  if (eventServerUrl) {
+    return `${eventServerUrl}/signal`;
+  }
+
+  return import.meta.env.DEV
+    ? `${window.location.protocol}//${window.location.hostname}:8888/.netlify/functions/webrtc-signal`
+    : '/.netlify/functions/webrtc-signal';
+}
+
+/**
+ * Browsers block http:// requests from an https:// page
+ */
+export function isMixedContentBlocked(serverUrl: string): boolean {
+  return typeof window !== 'undefined'
+    && window.location.protocol === 'https:'
+    && serverUrl.startsWith('http:');
+}
+
+async function requestEventServer<T>(serverUrl: string, path: string, init: RequestInit = {}): Promise<T> {
+  const token = getEventServerToken();
+  let response: Response;
+
+  try {
+    response = await fetch(`${serverUrl}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...init.headers,
+      },
+    });
+  } catch {
+    throw new Error(
+      isMixedContentBlocked(serverUrl)
+        ? 'This page is served over https, so the browser blocks an http event server. Open the app from the event server or start it with a certificate.'
+        : `Could not reach the event server at ${serverUrl}`
+    );
+  }
+
+  const payload = await response.json().catch(() => null) as (T & { error?: string }) | null;
+  if (!response.ok) {
+    throw new Error(payload?.error ?? `Event server request failed (${response.status})`);
+  }
+
+  return payload as T;
+}
+
+export async function checkEventServer(serverUrl: string): Promise<EventServerHealth> {
+  return requestEventServer<EventServerHealth>(serverUrl, '/health');
+}
+
+export async function uploadScoutingToEventServer(
+  serverUrl: string,
+  entries: ScoutingEntryBase[],
+  deviceName: string
+): Promise<EventServerUploadResult> {
+  return requestEventServer<EventServerUploadResult>(serverUrl, '/sync/scouting', {
+    method: 'POST',
+    body: JSON.stringify({ deviceName, entries }),
+  });
+}
+
+/**
+ * Same rule the server uses when two uploads carry one entry id:
+ * the more corrected entry wins, then the more recent one.
+ */
+export function isNewerScoutingEntry(incoming: ScoutingEntryBase, existing: ScoutingEntryBase): boolean {
+  const correctionDiff = (incoming.correctionCount ?? 0) - (existing.correctionCount ?? 0);
+  if (correctionDiff !== 0) return correctionDiff > 0;
+
+  return (incoming.lastCorrectedAt ?? incoming.timestamp ?? 0) > (existing.lastCorrectedAt ?? existing.timestamp ?? 0);
+}
+
+/**
+ * Pull entries the server received since the last pull from this device.
+ * Pass `full` to pull everything. Call markEventServerPulled(cursor)
+ * once the entries are saved.
+ */
+export async function pullScoutingFromEventServer(
+  serverUrl: string,
+  full = false
+): Promise<{ entries: ScoutingEntryBase[]; cursor: number }> {
+  const since = full ? 0 : Number(localStorage.getItem(EVENT_SERVER_PULL_CURSOR_STORAGE_KEY) ?? 0) || 0;
+  return requestEventServer<{ entries: ScoutingEntryBase[]; cursor: number }>(
+    serverUrl,
+    `/sync/scouting?since=${since}`
+  );
+}
+
+export function markEventServerPulled(cursor: number): void {
+  localStorage.setItem(EVENT_SERVER_PULL_CURSOR_STORAGE_KEY, String(cursor));
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getAllianceTeamNumbers,
+  getOfficialRankingValues,
+  parseTBARankings,
+  tbaAlliancesToSelection,
+} from './eventStandings';
+import type { TBAEliminationAlliance } from './tba/tbaUtils';
+
+describe('parseTBARankings', () => {
+  it('reads rank, record and total RP in rank order', () => {
+    const rankings = parseTBARankings({
+      sort_order_info: [{ name: 'Ranking Score', precision: 2 }],
+      extra_stats_info: [{ name: 'Total Ranking Points', precision: 0 }],
+      rankings: [
+        { rank: 2, team_key: 'frc254', matches_played: 10, dq: 0, record: { wins: 7, losses: 3, ties: 0 }, sort_orders: [3.1], extra_stats: [31] },
+        { rank: 1, team_key: 'frc1678', matches_played: 10, dq: 0, record: { wins: 9, losses: 1, ties: 0 }, sort_orders: [3.6], extra_stats: [36] },
+        { rank: 3, team_key: 'bogus', matches_played: 10, dq: 0, record: null, sort_orders: null },
+      ],
+    });
+
+    expect(rankings.map(ranking => ranking.teamNumber)).toEqual([1678, 254]);
+    expect(rankings[0]).toMatchObject({ rank: 1, rankingPoints: 36, rankingScore: 3.6, wins: 9, losses: 1 });
+    expect(getOfficialRankingValues(rankings[1])).toEqual({ tbaRank: 2, tbaRankingPoints: 31 });
+  });
+
+  it('works out total RP from Ranking Score when there is no total', () => {
+    const [ranking] = parseTBARankings({
+      sort_order_info: [{ name: 'Ranking Score', precision: 2 }],
+      rankings: [{ rank: 1, team_key: 'frc1', matches_played: 4, dq: 0, record: null, sort_orders: [2.25] }],
+    });
+
+    expect(ranking?.rankingPoints).toBe(9);
+    expect(parseTBARankings(null)).toEqual([]);
+  });
+});
+
+describe('tbaAlliancesToSelection', () => {
+  const tbaAlliances: TBAEliminationAlliance[] = [
+    { picks: ['frc1', 'frc2', 'frc3'], backup: { in: 'frc9', out: 'frc3' } },
+    { picks: ['frc4', 'frc5', 'frc6', 'frc7'] },
+  ];
+
+  it('fills captain and picks in seed order and lists called-in backups', () => {
+    const { alliances, backups } = tbaAlliancesToSelection(tbaAlliances, 1000);
+
+    expect(alliances).toEqual([
+      { id: 1001, allianceNumber: 1, captain: 1, pick1: 2, pick2: 3, pick3: null },
+      { id: 1002, allianceNumber: 2, captain: 4, pick1: 5, pick2: 6, pick3: 7 },
+    ]);
+    expect(backups).toEqual([{ teamNumber: 9, rank: 1 }]);
+    expect(getAllianceTeamNumbers(tbaAlliances[0]!)).toEqual([1, 2, 3, 9]);
+  });
+});
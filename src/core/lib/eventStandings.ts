@@ -0,0 +1,149 @@
+/**
+ * Event standings - official TBA rankings and alliance selections, turned
+ * into the shapes the pick list and Strategy Overview already use.
+ *
+ * Fetching and caching live in tba/eventStandingsUtils.ts; this module is
+ * pure so it can run on cached data offline.
+ */
+
+import type { Alliance, BackupTeam } from '@/core/lib/allianceTypes';
+import type { StrategyColumnConfig } from '@/core/types/strategy';
+import type { TBAEliminationAlliance, TBAEventRankings } from '@/core/lib/tba/tbaUtils';
+
+export interface OfficialRanking {
+  teamNumber: number;
+  rank: number;
+  /** Total ranking points, or null if TBA did not report enough to work it out */
+  rankingPoints: number | null;
+  /** Average RP per match (TBA's first sort order) */
+  rankingScore: number | null;
+  matchesPlayed: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  dq: number;
+}
+
+export const teamKeyToNumber = (teamKey: string): number | null => {
+  const normalized = String(teamKey).trim().toLowerCase();
+  const parsed = Number.parseInt(normalized.startsWith('frc') ? normalized.slice(3) : normalized, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+const findStatIndex = (info: TBAEventRankings['sort_order_info'] | undefined, pattern: RegExp): number =>
+  (info ?? []).findIndex(stat => pattern.test(stat.name));
+
+/**
+ * Official rankings in rank order. Total RP comes from the "Total Ranking
+ * Points" extra stat when TBA reports it, otherwise from Ranking Score times
+ * matches played.
+ */
+export function parseTBARankings(data: TBAEventRankings | null | undefined): OfficialRanking[] {
+  if (!data || !Array.isArray(data.rankings)) return [];
+
+  const totalIndex = findStatIndex(data.extra_stats_info, /ranking points/i);
+  const scoreIndex = findStatIndex(data.sort_order_info, /ranking score|avg.*rp/i);
+
+  return data.rankings
+    .flatMap((item): OfficialRanking[] => {
+      const teamNumber = teamKeyToNumber(item.team_key);
+      if (teamNumber === null || !Number.isFinite(item.rank)) return [];
+
+      const matchesPlayed = Number(item.matches_played) || 0;
+      const rankingScore = scoreIndex >= 0 ? item.sort_orders?.[scoreIndex] ?? null : null;
+      const totalPoints = totalIndex >= 0 ? item.extra_stats?.[totalIndex] ?? null : null;
+
+      return [{
+        teamNumber,
+        rank: item.rank,
+        rankingPoints: totalPoints ?? (rankingScore !== null ? Math.round(rankingScore * matchesPlayed) : null),
+        rankingScore,
+        matchesPlayed,
+        wins: item.record?.wins ?? 0,
+        losses: item.record?.losses ?? 0,
+        ties: item.record?.ties ?? 0,
+        dq: Number(item.dq) || 0,
+      }];
+    })
+    .sort((a, b) => a.rank - b.rank);
+}
+
+export const getOfficialRankingsByTeam = (rankings: readonly OfficialRanking[]): Map<number, OfficialRanking> =>
+  new Map(rankings.map(ranking => [ranking.teamNumber, ranking]));
+
+// ============================================================================
+// STRATEGY OVERVIEW COLUMNS
+// ============================================================================
+
+export const OFFICIAL_RANK_COLUMN_KEY = 'tbaRank';
+export const OFFICIAL_RANKING_POINTS_COLUMN_KEY = 'tbaRankingPoints';
+
+export const getOfficialRankingStrategyColumns = (): StrategyColumnConfig[] => [
+  { key: OFFICIAL_RANK_COLUMN_KEY, label: 'Official Rank', category: 'Official', visible: true, numeric: true },
+  { key: OFFICIAL_RANKING_POINTS_COLUMN_KEY, label: 'Official RP', category: 'Official', visible: true, numeric: true },
+];
+
+/**
+ * Column values for one team's row, keyed like getOfficialRankingStrategyColumns()
+ */
+export function getOfficialRankingValues(ranking: OfficialRanking | undefined): Record<string, number> {
+  if (!ranking) return {};
+
+  return {
+    [OFFICIAL_RANK_COLUMN_KEY]: ranking.rank,
+    ...(ranking.rankingPoints !== null ? { [OFFICIAL_RANKING_POINTS_COLUMN_KEY]: ranking.rankingPoints } : {}),
+  };
+}
+
+// ============================================================================
+// ALLIANCE SELECTION
+// ============================================================================
+
+/**
+ * Every team that plays for an alliance: picks in order, then a called-in backup
+ */
+export function getAllianceTeamNumbers(alliance: TBAEliminationAlliance): number[] {
+  const teamKeys = [...(alliance.picks ?? []), ...(alliance.backup?.in ? [alliance.backup.in] : [])];
+  return teamKeys
+    .map(teamKeyToNumber)
+    .filter((teamNumber): teamNumber is number => teamNumber !== null);
+}
+
+export interface TBAAllianceSelection {
+  alliances: Alliance[];
+  backups: BackupTeam[];
+}
+
+/**
+ * Pick list alliances from TBA's selected alliances. Called-in backup robots
+ * go to the backup list in seed order. `idBase` keeps row ids unique the way
+ * the alliance table creates them.
+ */
+export function tbaAlliancesToSelection(
+  tbaAlliances: readonly TBAEliminationAlliance[],
+  idBase: number
+): TBAAllianceSelection {
+  const pickAt = (alliance: TBAEliminationAlliance, index: number): number | null => {
+    const teamKey = alliance.picks?.[index];
+    return teamKey ? teamKeyToNumber(teamKey) : null;
+  };
+
+  const alliances = tbaAlliances.map((alliance, index): Alliance => ({
+    id: idBase + index + 1,
+    allianceNumber: index + 1,
+    captain: pickAt(alliance, 0),
+    pick1: pickAt(alliance, 1),
+    pick2: pickAt(alliance, 2),
+    pick3: pickAt(alliance, 3),
+  }));
+
+  const backups = tbaAlliances
+    .map(alliance => (alliance.backup?.in ? teamKeyToNumber(alliance.backup.in) : null))
+    .filter((teamNumber): teamNumber is number => teamNumber !== null)
+    .map((teamNumber, index): BackupTeam => ({ teamNumber, rank: index + 1 }));
+
+  return { alliances, backups };
+}
+
+export const hasAllianceSelections = (alliances: readonly Alliance[]): boolean =>
+  alliances.some(alliance => alliance.captain || alliance.pick1 || alliance.pick2 || alliance.pick3);
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createEventWorkspaceItem,
+  getEventWorkspaceKeyInfo,
+  isEventWorkspaceArchive,
+  sanitizeEventWorkspaceItems,
+  selectEventWorkspaceItems,
+  summarizeEventWorkspaceArchive,
+  EVENT_WORKSPACE_ARCHIVE_TYPE,
+  type EventWorkspaceArchive,
+} from './eventWorkspace';
+
+describe('getEventWorkspaceKeyInfo', () => {
+  it('files event-scoped keys under their event', () => {
+    expect(getEventWorkspaceKeyInfo('pit_assignments_2026mimid')).toEqual({ category: 'pitAssignments', eventKey: '2026mimid' });
+    expect(getEventWorkspaceKeyInfo('pit_assignments_meta_2026mimid')).toEqual({ category: 'pitAssignments', eventKey: '2026mimid' });
+    expect(getEventWorkspaceKeyInfo('pit_assignments_mine_2026mimid_riley')).toEqual({ category: 'pitAssignments', eventKey: '2026mimid' });
+    expect(getEventWorkspaceKeyInfo('match_assignment_rules_2026MIMID')).toEqual({ category: 'matchAssignments', eventKey: '2026mimid' });
+    expect(getEventWorkspaceKeyInfo('nexus_pit_map_2026mimid')).toEqual({ category: 'nexus', eventKey: '2026mimid' });
+    expect(getEventWorkspaceKeyInfo('tba_event_teams_2026mimid')).toEqual({ category: 'eventTeams', eventKey: '2026mimid' });
+    expect(getEventWorkspaceKeyInfo('tba_event_coprs_2026mimid')).toEqual({ category: 'copr', eventKey: '2026mimid' });
+    expect(getEventWorkspaceKeyInfo('statbotics_event_epa_2026mimid')).toEqual({ category: 'statbotics', eventKey: '2026mimid' });
+    expect(getEventWorkspaceKeyInfo('pairwise_votes_2026mimid')).toEqual({ category: 'pickLists', eventKey: '2026mimid' });
+  });
+
+  it('files device-wide keys without an event and leaves other keys alone', () => {
+    expect(getEventWorkspaceKeyInfo('pickLists')).toEqual({ category: 'pickLists', eventKey: '' });
+    expect(getEventWorkspaceKeyInfo('event_history')).toEqual({ category: 'eventHistory', eventKey: '' });
+    expect(getEventWorkspaceKeyInfo('fieldStrategy_teleop')).toEqual({ category: 'strategyCanvas', eventKey: '' });
+
+    expect(getEventWorkspaceKeyInfo('eventKey')).toBeNull();
+    expect(getEventWorkspaceKeyInfo('currentScout')).toBeNull();
+    expect(getEventWorkspaceKeyInfo('nexusMockQueue')).toBeNull();
+    expect(getEventWorkspaceKeyInfo('constructor')).toBeNull();
+  });
+});
+
+describe('selectEventWorkspaceItems', () => {
+  it('keeps the event and device-wide state', () => {
+    const items = ['pickLists', 'pit_assignments_2026mimid', 'pit_assignments_2026miket']
+      .map(key => createEventWorkspaceItem(key, '[]', 1)!);
+
+    expect(selectEventWorkspaceItems(items, '2026MIMID').map(item => item.key)).toEqual([
+      'pickLists',
+      'pit_assignments_2026mimid',
+    ]);
+    expect(selectEventWorkspaceItems(items, null)).toHaveLength(3);
+  });
+});
+
+describe('event workspace archive', () => {
+  const archive: EventWorkspaceArchive = {
+    type: EVENT_WORKSPACE_ARCHIVE_TYPE,
+    version: 1,
+    exportedAt: 10,
+    eventKey: '2026mimid',
+    items: [
+      createEventWorkspaceItem('pickLists', '[]', 1)!,
+      createEventWorkspaceItem('tba_event_teams_2026mimid', '{}', 1)!,
+    ],
+    scoutingEntries: [],
+    pitEntries: [],
+  };
+
+  it('recognizes archives', () => {
+    expect(isEventWorkspaceArchive(archive)).toBe(true);
+    expect(isEventWorkspaceArchive({ ...archive, type: 'other' })).toBe(false);
+    expect(isEventWorkspaceArchive({ entries: [] })).toBe(false);
+  });
+
+  it('drops unknown keys and re-derives where items belong', () => {
+    const items = sanitizeEventWorkspaceItems([
+      { key: 'tba_event_teams_2026mimid', value: '{}', eventKey: 'wrong', category: 'pickLists' },
+      { key: 'eventKey', value: '2026mimid' },
+      { key: 'pickLists', value: 42 },
+      null,
+    ], 5);
+
+    expect(items).toEqual([
+      { key: 'tba_event_teams_2026mimid', value: '{}', eventKey: '2026mimid', category: 'eventTeams', updatedAt: 5 },
+    ]);
+  });
+
+  it('summarizes what an archive holds', () => {
+    expect(summarizeEventWorkspaceArchive(archive)).toEqual({
+      itemCount: 2,
+      scoutingEntryCount: 0,
+      pitEntryCount: 0,
+      eventKeys: ['2026mimid'],
+      categories: { pickLists: 1, eventTeams: 1 },
+    });
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Event workspace - the per-event working state that used to live in loose
+ * localStorage keys (pick lists, assignments, Nexus and Statbotics caches,
+ * event teams, scout options, strategy drawings).
+ *
+ * This module only knows which keys belong to the workspace and what an
+ * archive looks like. Storage itself is in db/eventWorkspaceDatabase.ts.
+ * Keys keep their old names, so callers only swap `localStorage` for
+ * `workspaceStorage`.
+ */
+
+import type { ScoutingEntryBase } from '@/core/types/scouting-entry';
+import type { PitScoutingEntryBase } from '@/core/types/pit-scouting';
+import type { SerializedPitPhoto } from './pitPhotos';
+
+export type EventWorkspaceCategory =
+  | 'pickLists'
+  | 'pitAssignments'
+  | 'matchAssignments'
+  | 'nexus'
+  | 'eventTeams'
+  | 'copr'
+  | 'statbotics'
+  | 'eventHistory'
+  | 'scoutOptions'
+  | 'strategyCanvas';
+
+export const EVENT_WORKSPACE_CATEGORY_LABELS: Record<EventWorkspaceCategory, string> = {
+  pickLists: 'Pick lists & alliances',
+  pitAssignments: 'Pit assignments',
+  matchAssignments: 'Match assignments',
+  nexus: 'Nexus pit data',
+  eventTeams: 'Event teams',
+  copr: 'TBA COPRs',
+  statbotics: 'Statbotics EPA',
+  eventHistory: 'Event history',
+  scoutOptions: 'Scout options',
+  strategyCanvas: 'Strategy drawings',
+};
+
+export interface EventWorkspaceItem {
+  key: string;
+  /** Event the key belongs to, or '' for device-wide state */
+  eventKey: string;
+  category: EventWorkspaceCategory;
+  value: string;
+  updatedAt: number;
+}
+
+export interface EventWorkspaceKeyInfo {
+  category: EventWorkspaceCategory;
+  eventKey: string;
+}
+
+const GLOBAL_KEYS = new Map<string, EventWorkspaceCategory>([
+  ['pickLists', 'pickLists'],
+  ['alliances', 'pickLists'],
+  ['backups', 'pickLists'],
+  ['confirmedAlliances', 'pickLists'],
+  ['pickListTeamMembershipSnapshots', 'pickLists'],
+  ['pickListEventKey', 'pickLists'],
+  ['pickListEventFilter', 'pickLists'],
+  ['pickListHideAllianceAssignedTeams', 'pickLists'],
+  ['event_history', 'eventHistory'],
+  ['current_event', 'eventHistory'],
+  ['scoutOptions', 'scoutOptions'],
+]);
+
+// Longer prefixes first so `pit_assignments_meta_` is not read as an event
+// called "meta_...".
+const EVENT_KEY_PATTERNS: Array<{ pattern: RegExp; category: EventWorkspaceCategory }> = [
+  { pattern: /^pit_assignments_mine_(.+?)_.*$/, category: 'pitAssignments' },
+  { pattern: /^pit_assignments_(?:meta_)?(.+)$/, category: 'pitAssignments' },
+  { pattern: /^match_assignments_(?:meta_)?(.+)$/, category: 'matchAssignments' },
+  { pattern: /^match_assignment_rules_(.+)$/, category: 'matchAssignments' },
+  { pattern: /^nexus_(?:pit_addresses|pit_map|event_teams)_(.+)$/, category: 'nexus' },
+  { pattern: /^tba_event_teams_(.+)$/, category: 'eventTeams' },
+  { pattern: /^tba_event_coprs_(.+)$/, category: 'copr' },
+  { pattern: /^statbotics_event_epa_(.+)$/, category: 'statbotics' },
+  { pattern: /^pairwise_votes_(.+)$/, category: 'pickLists' },
+];
+
+const STRATEGY_CANVAS_PATTERN = /^fieldStrategy_.+$/;
+
+/**
+ * Which workspace category a storage key belongs to, or null if the key is
+ * not workspace state and stays in localStorage.
+ */
+export function getEventWorkspaceKeyInfo(key: string): EventWorkspaceKeyInfo | null {
+  const globalCategory = GLOBAL_KEYS.get(key);
+  if (globalCategory) {
+    return { category: globalCategory, eventKey: '' };
+  }
+
+  if (STRATEGY_CANVAS_PATTERN.test(key)) {
+    return { category: 'strategyCanvas', eventKey: '' };
+  }
+
+  for (const { pattern, category } of EVENT_KEY_PATTERNS) {
+    const match = key.match(pattern);
+    if (match?.[1]) {
+      return { category, eventKey: match[1].toLowerCase() };
+    }
+  }
+
+  return null;
+}
+
+export const isEventWorkspaceKey = (key: string): boolean => getEventWorkspaceKeyInfo(key) !== null;
+
+export function createEventWorkspaceItem(key: string, value: string, updatedAt: number): EventWorkspaceItem | null {
+  const info = getEventWorkspaceKeyInfo(key);
+  if (!info) return null;
+
+  return { key, value, updatedAt, ...info };
+}
+
+/**
+ * Items to carry for one event: its own keys plus device-wide state. Pass
+ * null to take everything.
+ */
+export function selectEventWorkspaceItems(
+  items: readonly EventWorkspaceItem[],
+  eventKey: string | null
+): EventWorkspaceItem[] {
+  if (!eventKey) return [...items];
+
+  const normalizedEventKey = eventKey.trim().toLowerCase();
+  return items.filter(item => item.eventKey === '' || item.eventKey === normalizedEventKey);
+}
+
+// ============================================================================
+// ARCHIVE
+// ============================================================================
+
+export const EVENT_WORKSPACE_ARCHIVE_TYPE = 'maneuver-event-workspace';
+export const EVENT_WORKSPACE_ARCHIVE_VERSION = 1;
+
+export interface EventWorkspaceArchive {
+  type: typeof EVENT_WORKSPACE_ARCHIVE_TYPE;
+  version: number;
+  exportedAt: number;
+  /** Event the archive was taken for, or null for every event on the device */
+  eventKey: string | null;
+  items: EventWorkspaceItem[];
+  scoutingEntries: ScoutingEntryBase[];
+  pitEntries: PitScoutingEntryBase[];
+  /** Team photos; archives taken before photos had their own table have none */
+  pitPhotos?: SerializedPitPhoto[];
+}
+
+export interface EventWorkspaceArchiveSummary {
+  itemCount: number;
+  scoutingEntryCount: number;
+  pitEntryCount: number;
+  eventKeys: string[];
+  categories: Partial<Record<EventWorkspaceCategory, number>>;
+}
+
+export function isEventWorkspaceArchive(data: unknown): data is EventWorkspaceArchive {
+  if (!data || typeof data !== 'object') return false;
+
+  const candidate = data as Partial<EventWorkspaceArchive>;
+  return (
+    candidate.type === EVENT_WORKSPACE_ARCHIVE_TYPE &&
+    typeof candidate.version === 'number' &&
+    Array.isArray(candidate.items) &&
+    Array.isArray(candidate.scoutingEntries) &&
+    Array.isArray(candidate.pitEntries)
+  );
+}
+
+/**
+ * Keep only archive items whose key is still workspace state and whose
+ * value is a string, re-deriving event and category from the key so an
+ * edited archive cannot file items under the wrong event.
+ */
+export function sanitizeEventWorkspaceItems(items: readonly unknown[], now: number): EventWorkspaceItem[] {
+  return items.flatMap(raw => {
+    if (!raw || typeof raw !== 'object') return [];
+
+    const { key, value, updatedAt } = raw as Partial<EventWorkspaceItem>;
+    if (typeof key !== 'string' || typeof value !== 'string') return [];
+
+    const item = createEventWorkspaceItem(key, value, typeof updatedAt === 'number' ? updatedAt : now);
+    return item ? [item] : [];
+  });
+}
+
+export function summarizeEventWorkspaceArchive(archive: EventWorkspaceArchive): EventWorkspaceArchiveSummary {
+  const categories: Partial<Record<EventWorkspaceCategory, number>> = {};
+  const eventKeys = new Set<string>();
+
+  archive.items.forEach(item => {
+    categories[item.category] = (categories[item.category] ?? 0) + 1;
+    if (item.eventKey) eventKeys.add(item.eventKey);
+  });
+  archive.scoutingEntries.forEach(entry => {
+    if (entry.eventKey) eventKeys.add(entry.eventKey.toLowerCase());
+  });
+
+  return {
+    itemCount: archive.items.length,
+    scoutingEntryCount: archive.scoutingEntries.length,
+    pitEntryCount: archive.pitEntries.length,
+    eventKeys: [...eventKeys].sort(),
+    categories,
+  };
+}
@@ -38,7 +38,7 @@ export const createEmptyMetrics = (): NormalizedExperimentMetrics => ({
   teleop: createEmptyPhaseMetrics(),
 });
 
-const getGridCellIndex = (position: { x: number; y: number } | undefined, options?: { shootableOnly?: boolean }) => {
+export const getGridCellIndex = (position: { x: number; y: number } | undefined, options?: { shootableOnly?: boolean }) => {
   if (!position) return null;
 
   const x = Math.min(0.999999, Math.max(0, position.x));
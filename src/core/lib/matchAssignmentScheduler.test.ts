@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import type { MatchScheduleTransferEntry } from './matchScheduleTransfer';
+import { generateMatchAssignments } from './matchAssignmentScheduler';
+import { DEFAULT_MATCH_ASSIGNMENT_RULES, type MatchAssignmentRules } from './matchAssignmentTypes';
+
+function createSchedule(matchCount: number, ourTeamEvery = 0): MatchScheduleTransferEntry[] {
+    return Array.from({ length: matchCount }, (_, index) => {
+        const matchNum = index + 1;
+        const base = matchNum * 10;
+        const red = [String(base + 1), String(base + 2), String(base + 3)];
+        if (ourTeamEvery > 0 && matchNum % ourTeamEvery === 0) {
+            red[1] = '3314';
+        }
+        return {
+            matchNum,
+            redAlliance: red,
+            blueAlliance: [String(base + 4), String(base + 5), String(base + 6)],
+        };
+    });
+}
+
+const SCOUTS = ['Alex', 'Blake', 'Casey', 'Devin', 'Emery', 'Finley', 'Gray', 'Harper', 'Indy'];
+
+const rules = (overrides: Partial<MatchAssignmentRules>): MatchAssignmentRules => ({
+    ...DEFAULT_MATCH_ASSIGNMENT_RULES,
+    ...overrides,
+});
+
+describe('generateMatchAssignments', () => {
+    it('fills every station once per match without double-booking scouts', () => {
+        const schedule = createSchedule(20);
+        const plan = generateMatchAssignments('2026test', schedule, SCOUTS, rules({ shiftLength: 4, breakLength: 2 }));
+
+        expect(plan.assignments).toHaveLength(20 * 6);
+        expect(plan.gaps).toHaveLength(0);
+
+        for (const match of schedule) {
+            const matchAssignments = plan.assignments.filter(a => a.matchNum === match.matchNum);
+            expect(new Set(matchAssignments.map(a => a.station)).size).toBe(6);
+            expect(new Set(matchAssignments.map(a => a.scoutName)).size).toBe(6);
+
+            const red2 = matchAssignments.find(a => a.station === 'red-2');
+            expect(red2?.teamNumber).toBe(match.redAlliance[1]);
+            expect(red2?.alliance).toBe('red');
+        }
+    });
+
+    it('never runs a scout past the shift length when reserves are available', () => {
+        const schedule = createSchedule(30);
+        const plan = generateMatchAssignments('2026test', schedule, SCOUTS, rules({ shiftLength: 3, breakLength: 1 }));
+
+        for (const scout of SCOUTS) {
+            const matches = plan.assignments
+                .filter(a => a.scoutName === scout)
+                .map(a => a.matchNum)
+                .sort((a, b) => a - b);
+
+            let streak = 1;
+            for (let i = 1; i < matches.length; i++) {
+                streak = matches[i] === (matches[i - 1] ?? 0) + 1 ? streak + 1 : 1;
+                expect(streak).toBeLessThanOrEqual(3);
+            }
+        }
+    });
+
+    it('rotates scouts across stations between shifts', () => {
+        const schedule = createSchedule(40);
+        const plan = generateMatchAssignments('2026test', schedule, SCOUTS, rules({ shiftLength: 4, breakLength: 2 }));
+
+        const alexStations = new Set(plan.assignments.filter(a => a.scoutName === 'Alex').map(a => a.station));
+        expect(alexStations.size).toBeGreaterThan(1);
+    });
+
+    it('leaves our robot unassigned and pulls pit duty scouts around our matches', () => {
+        const schedule = createSchedule(12, 4);
+        const plan = generateMatchAssignments('2026test', schedule, SCOUTS, rules({
+            ourTeamNumber: '3314',
+            pitDutyScouts: ['Alex', 'Blake'],
+            pitDutyLeadMatches: 1,
+        }));
+
+        const ownTeamGaps = plan.gaps.filter(g => g.reason === 'own-team');
+        expect(ownTeamGaps.map(g => g.matchNum)).toEqual([4, 8, 12]);
+        expect(ownTeamGaps.every(g => g.station === 'red-2' && g.teamNumber === '3314')).toBe(true);
+
+        expect(plan.pitDuty[3]).toEqual(['Alex', 'Blake']);
+        expect(plan.pitDuty[4]).toEqual(['Alex', 'Blake']);
+        expect(plan.pitDuty[5]).toBeUndefined();
+
+        const pitDutyMatches = [3, 4, 7, 8, 11, 12];
+        const misassigned = plan.assignments.filter(a =>
+            pitDutyMatches.includes(a.matchNum) && (a.scoutName === 'Alex' || a.scoutName === 'Blake')
+        );
+        expect(misassigned).toHaveLength(0);
+    });
+
+    it('reports slots it cannot fill when there are too few scouts', () => {
+        const schedule = createSchedule(3);
+        const plan = generateMatchAssignments('2026test', schedule, ['Alex', 'Blake', 'Casey', 'Devin'], rules({}));
+
+        expect(plan.assignments).toHaveLength(12);
+        expect(plan.gaps.filter(g => g.reason === 'no-scout')).toHaveLength(6);
+    });
+});
@@ -0,0 +1,271 @@
+import type { MatchScheduleTransferEntry } from '@/core/lib/matchScheduleTransfer';
+import {
+  MATCH_SCOUT_STATIONS,
+  type MatchAssignmentGap,
+  type MatchAssignmentPlan,
+  type MatchAssignmentRules,
+  type MatchScoutAssignment,
+  type MatchScoutStation,
+} from '@/core/lib/matchAssignmentTypes';
+
+interface ScoutShiftState {
+  name: string;
+  /** Matches watched in the current shift (0 = not on a shift) */
+  onShift: number;
+  /** Matches remaining in the current break */
+  breakLeft: number;
+  totalAssigned: number;
+  station: MatchScoutStation | null;
+  stationCounts: Record<MatchScoutStation, number>;
+}
+
+const normalizeTeamNumber = (team: string): string => team.trim().replace(/^frc/i, '');
+
+const getStationTeam = (match: MatchScheduleTransferEntry, station: MatchScoutStation): string | null => {
+  const [alliance, position] = station.split('-');
+  const teams = alliance === 'red' ? match.redAlliance : match.blueAlliance;
+  const team = teams[Number(position) - 1];
+  return team ? normalizeTeamNumber(team) : null;
+};
+
+const createScoutState = (name: string): ScoutShiftState => ({
+  name,
+  onShift: 0,
+  breakLeft: 0,
+  totalAssigned: 0,
+  station: null,
+  stationCounts: {
+    'red-1': 0,
+    'red-2': 0,
+    'red-3': 0,
+    'blue-1': 0,
+    'blue-2': 0,
+    'blue-3': 0,
+  },
+});
+
+const byWorkload = (a: ScoutShiftState, b: ScoutShiftState): number =>
+  a.totalAssigned - b.totalAssigned || a.name.localeCompare(b.name);
+
+/** Pick the open station this scout has watched least so scouts rotate across robots */
+const pickStationForScout = (
+  scout: ScoutShiftState,
+  openStations: MatchScoutStation[],
+): MatchScoutStation | undefined => {
+  let best: MatchScoutStation | undefined;
+  for (const station of openStations) {
+    if (!best || scout.stationCounts[station] < scout.stationCounts[best]) {
+      best = station;
+    }
+  }
+  return best;
+};
+
+/**
+ * Find match indices where pit duty scouts are away from the stands.
+ * Covers each of our matches plus `leadMatches` matches before it for queueing.
+ */
+const getPitDutyMatchIndices = (
+  schedule: MatchScheduleTransferEntry[],
+  ourTeamNumber: string,
+  leadMatches: number,
+): Set<number> => {
+  const indices = new Set<number>();
+  const ourTeam = normalizeTeamNumber(ourTeamNumber);
+  if (!ourTeam) return indices;
+
+  schedule.forEach((match, index) => {
+    const teams = [...match.redAlliance, ...match.blueAlliance].map(normalizeTeamNumber);
+    if (!teams.includes(ourTeam)) return;
+
+    for (let offset = Math.max(0, leadMatches); offset >= 0; offset--) {
+      if (index - offset >= 0) indices.add(index - offset);
+    }
+  });
+
+  return indices;
+};
+
+const sortSchedule = (schedule: MatchScheduleTransferEntry[]): MatchScheduleTransferEntry[] =>
+  [...schedule].sort((a, b) => a.matchNum - b.matchNum);
+
+/** Scouts away on pit duty, keyed by match number */
+export const getPitDutyByMatch = (
+  schedule: MatchScheduleTransferEntry[],
+  rules: MatchAssignmentRules,
+): Record<number, string[]> => {
+  const pitDuty: Record<number, string[]> = {};
+  const scouts = Array.from(new Set(rules.pitDutyScouts.map(name => name.trim()).filter(Boolean)));
+  if (scouts.length === 0) return pitDuty;
+
+  const sortedSchedule = sortSchedule(schedule);
+  getPitDutyMatchIndices(sortedSchedule, rules.ourTeamNumber, rules.pitDutyLeadMatches).forEach(index => {
+    const match = sortedSchedule[index];
+    if (match) pitDuty[match.matchNum] = scouts;
+  });
+  return pitDuty;
+};
+
+/** Slots in the schedule that have no scout, either on purpose (our robot) or for lack of scouts */
+export const findMatchAssignmentGaps = (
+  schedule: MatchScheduleTransferEntry[],
+  assignments: MatchScoutAssignment[],
+  rules: MatchAssignmentRules,
+): MatchAssignmentGap[] => {
+  const assignedSlots = new Set(assignments.map(a => `${a.matchNum}:${a.station}`));
+  const ourTeam = normalizeTeamNumber(rules.ourTeamNumber);
+  const gaps: MatchAssignmentGap[] = [];
+
+  sortSchedule(schedule).forEach(match => {
+    MATCH_SCOUT_STATIONS.forEach(station => {
+      const team = getStationTeam(match, station);
+      if (!team || assignedSlots.has(`${match.matchNum}:${station}`)) return;
+
+      gaps.push({
+        matchNum: match.matchNum,
+        station,
+        teamNumber: team,
+        reason: rules.skipOwnTeam && ourTeam && team === ourTeam ? 'own-team' : 'no-scout',
+      });
+    });
+  });
+
+  return gaps;
+};
+
+/**
+ * Assign a scout to each of the six driver-station slots for every match.
+ *
+ * Scouts stay on their station for a shift, then take a break and rotate to the
+ * station they have watched least when they come back. Initial shifts are
+ * staggered so the whole stand crew doesn't go on break at the same time.
+ * Scouts on break are pulled back early only when nobody else is free.
+ */
+export const generateMatchAssignments = (
+  eventKey: string,
+  schedule: MatchScheduleTransferEntry[],
+  scoutNames: string[],
+  rules: MatchAssignmentRules,
+): MatchAssignmentPlan => {
+  const assignments: MatchScoutAssignment[] = [];
+
+  const uniqueNames = Array.from(new Set(scoutNames.map(name => name.trim()).filter(Boolean)));
+  const scouts = uniqueNames.map(createScoutState);
+  const pitDutyNames = new Set(rules.pitDutyScouts.map(name => name.trim()));
+  const sortedSchedule = sortSchedule(schedule);
+  const pitDutyIndices = getPitDutyMatchIndices(sortedSchedule, rules.ourTeamNumber, rules.pitDutyLeadMatches);
+  const ourTeam = normalizeTeamNumber(rules.ourTeamNumber);
+  const shiftLength = Math.max(1, Math.floor(rules.shiftLength));
+  const breakLength = Math.max(0, Math.floor(rules.breakLength));
+  const assignedAt = Date.now();
+
+  sortedSchedule.forEach((match, matchIndex) => {
+    const onPitDuty = pitDutyIndices.has(matchIndex)
+      ? scouts.filter(scout => pitDutyNames.has(scout.name))
+      : [];
+    onPitDuty.forEach(scout => {
+      scout.onShift = 0;
+      scout.station = null;
+    });
+
+    const openStations: MatchScoutStation[] = [];
+    const stationTeams = new Map<MatchScoutStation, string>();
+    MATCH_SCOUT_STATIONS.forEach(station => {
+      const team = getStationTeam(match, station);
+      if (!team) return;
+
+      stationTeams.set(station, team);
+      if (rules.skipOwnTeam && ourTeam && team === ourTeam) return;
+      openStations.push(station);
+    });
+
+    const available = scouts.filter(scout => !onPitDuty.includes(scout) && scout.breakLeft === 0);
+    const resting = scouts.filter(scout => !onPitDuty.includes(scout) && scout.breakLeft > 0);
+    const assignedThisMatch = new Map<ScoutShiftState, MatchScoutStation>();
+
+    const assign = (scout: ScoutShiftState, station: MatchScoutStation) => {
+      assignedThisMatch.set(scout, station);
+      openStations.splice(openStations.indexOf(station), 1);
+    };
+
+    // Scouts mid-shift keep their seat when their station is still open
+    const continuing = available.filter(scout => scout.onShift > 0).sort(byWorkload);
+    continuing.forEach(scout => {
+      if (scout.station && openStations.includes(scout.station)) {
+        assign(scout, scout.station);
+      }
+    });
+
+    const fillFrom = (candidates: ScoutShiftState[]) => {
+      for (const scout of candidates) {
+        if (openStations.length === 0) break;
+        if (assignedThisMatch.has(scout)) continue;
+        const station = pickStationForScout(scout, openStations);
+        if (station) assign(scout, station);
+      }
+    };
+
+    fillFrom(continuing);
+    fillFrom(available.filter(scout => scout.onShift === 0).sort(byWorkload));
+    fillFrom([...resting].sort((a, b) => a.breakLeft - b.breakLeft || byWorkload(a, b)));
+
+    // Advance breaks for scouts who actually rested this match
+    resting.forEach(scout => {
+      if (assignedThisMatch.has(scout)) {
+        scout.breakLeft = 0;
+      } else {
+        scout.breakLeft -= 1;
+      }
+    });
+
+    // Scouts left idle while others watch are effectively off shift
+    available.forEach(scout => {
+      if (!assignedThisMatch.has(scout)) {
+        scout.onShift = 0;
+        scout.station = null;
+      }
+    });
+
+    let slotIndex = 0;
+    assignedThisMatch.forEach((station, scout) => {
+      if (matchIndex === 0 && scout.onShift === 0) {
+        // Stagger the first shift so breaks don't all line up
+        scout.onShift = Math.floor((slotIndex * shiftLength) / MATCH_SCOUT_STATIONS.length);
+      }
+      slotIndex++;
+
+      scout.onShift += 1;
+      scout.totalAssigned += 1;
+      scout.station = station;
+      scout.stationCounts[station] += 1;
+
+      assignments.push({
+        id: `${eventKey}:${match.matchNum}:${station}`,
+        eventKey,
+        matchNum: match.matchNum,
+        station,
+        alliance: station.startsWith('red') ? 'red' : 'blue',
+        teamNumber: stationTeams.get(station) ?? '',
+        scoutName: scout.name,
+        assignedAt,
+      });
+
+      if (scout.onShift >= shiftLength) {
+        scout.onShift = 0;
+        scout.station = null;
+        scout.breakLeft = breakLength;
+      }
+    });
+  });
+
+  assignments.sort((a, b) =>
+    a.matchNum - b.matchNum
+    || MATCH_SCOUT_STATIONS.indexOf(a.station) - MATCH_SCOUT_STATIONS.indexOf(b.station)
+  );
+
+  return {
+    assignments,
+    gaps: findMatchAssignmentGaps(sortedSchedule, assignments, rules),
+    pitDuty: getPitDutyByMatch(sortedSchedule, rules),
+  };
+};
@@ -0,0 +1,188 @@
+import {
+  DEFAULT_MATCH_ASSIGNMENT_RULES,
+  MATCH_SCOUT_STATIONS,
+  type MatchAssignmentRules,
+  type MatchScoutAssignment,
+} from '@/core/lib/matchAssignmentTypes';
+import { normalizeScoutName } from '@/core/lib/pitAssignmentTransfer';
+import { workspaceStorage } from '@/core/db/eventWorkspaceDatabase';
+
+const MATCH_ASSIGNMENTS_KEY_PREFIX = 'match_assignments_';
+const MATCH_ASSIGNMENTS_META_KEY_PREFIX = 'match_assignments_meta_';
+const MATCH_ASSIGNMENT_RULES_KEY_PREFIX = 'match_assignment_rules_';
+
+export interface MatchAssignmentTransferPayload {
+  eventKey: string;
+  sourceScoutName: string;
+  generatedAt: number;
+  assignments: MatchScoutAssignment[];
+}
+
+export type MatchAssignmentImportStrategy = 'replace' | 'merge' | 'cancel';
+
+const isMatchAssignmentImportStrategy = (value: unknown): value is MatchAssignmentImportStrategy =>
+  value === 'replace' || value === 'merge' || value === 'cancel';
+
+export interface MatchAssignmentImportResult {
+  strategy: MatchAssignmentImportStrategy;
+  importedCount: number;
+  myAssignmentCount: number;
+}
+
+interface MatchAssignmentMeta {
+  lastSyncedAt: number;
+  sourceScoutName: string;
+  strategy: Exclude<MatchAssignmentImportStrategy, 'cancel'>;
+}
+
+const parseJson = <T>(raw: string | null, fallback: T): T => {
+  if (!raw) return fallback;
+
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+};
+
+export const getMatchAssignmentsStorageKey = (eventKey: string): string => `${MATCH_ASSIGNMENTS_KEY_PREFIX}${eventKey}`;
+
+const getMatchAssignmentsMetaKey = (eventKey: string): string => `${MATCH_ASSIGNMENTS_META_KEY_PREFIX}${eventKey}`;
+
+const getMatchAssignmentRulesKey = (eventKey: string): string => `${MATCH_ASSIGNMENT_RULES_KEY_PREFIX}${eventKey}`;
+
+const sortAssignments = (assignments: MatchScoutAssignment[]): MatchScoutAssignment[] =>
+  [...assignments].sort((a, b) =>
+    a.matchNum - b.matchNum
+    || MATCH_SCOUT_STATIONS.indexOf(a.station) - MATCH_SCOUT_STATIONS.indexOf(b.station)
+  );
+
+const mergeAssignments = (existing: MatchScoutAssignment[], incoming: MatchScoutAssignment[]): MatchScoutAssignment[] => {
+  // One scout per station per match, so the slot is the identity
+  const bySlot = new Map<string, MatchScoutAssignment>();
+
+  existing.forEach((assignment) => {
+    bySlot.set(`${assignment.matchNum}:${assignment.station}`, assignment);
+  });
+
+  incoming.forEach((assignment) => {
+    bySlot.set(`${assignment.matchNum}:${assignment.station}`, assignment);
+  });
+
+  return sortAssignments(Array.from(bySlot.values()));
+};
+
+export const loadMatchAssignmentsForEvent = (eventKey: string): MatchScoutAssignment[] => {
+  return parseJson<MatchScoutAssignment[]>(workspaceStorage.getItem(getMatchAssignmentsStorageKey(eventKey)), []);
+};
+
+export const saveMatchAssignmentsForEvent = (eventKey: string, assignments: MatchScoutAssignment[]) => {
+  if (assignments.length === 0) {
+    workspaceStorage.removeItem(getMatchAssignmentsStorageKey(eventKey));
+    return;
+  }
+  workspaceStorage.setItem(getMatchAssignmentsStorageKey(eventKey), JSON.stringify(sortAssignments(assignments)));
+};
+
+export const loadMatchAssignmentRules = (eventKey: string): MatchAssignmentRules => ({
+  ...DEFAULT_MATCH_ASSIGNMENT_RULES,
+  ...parseJson<Partial<MatchAssignmentRules>>(workspaceStorage.getItem(getMatchAssignmentRulesKey(eventKey)), {}),
+});
+
+export const saveMatchAssignmentRules = (eventKey: string, rules: MatchAssignmentRules) => {
+  workspaceStorage.setItem(getMatchAssignmentRulesKey(eventKey), JSON.stringify(rules));
+};
+
+export const loadMyMatchAssignments = (eventKey: string, scoutName: string): MatchScoutAssignment[] => {
+  const normalizedScoutName = normalizeScoutName(scoutName);
+  if (!normalizedScoutName) return [];
+
+  return loadMatchAssignmentsForEvent(eventKey).filter(
+    (assignment) => normalizeScoutName(assignment.scoutName) === normalizedScoutName
+  );
+};
+
+export const findMatchAssignmentForScout = (
+  eventKey: string,
+  scoutName: string,
+  matchNum: number,
+): MatchScoutAssignment | null => {
+  return loadMyMatchAssignments(eventKey, scoutName).find(
+    (assignment) => assignment.matchNum === matchNum
+  ) ?? null;
+};
+
+export const buildMatchAssignmentsTransferPayload = (
+  eventKey: string,
+  sourceScoutName: string,
+): MatchAssignmentTransferPayload => ({
+  eventKey,
+  sourceScoutName,
+  generatedAt: Date.now(),
+  assignments: loadMatchAssignmentsForEvent(eventKey),
+});
+
+export const hasMatchAssignmentImportConflict = (payload: MatchAssignmentTransferPayload): boolean => {
+  const existingAssignments = loadMatchAssignmentsForEvent(payload.eventKey);
+  return existingAssignments.length > 0 && payload.assignments.length > 0;
+};
+
+export const importMatchAssignmentsPayload = (
+  payload: MatchAssignmentTransferPayload,
+  currentScoutName: string,
+  strategyOverride?: MatchAssignmentImportStrategy,
+): MatchAssignmentImportResult => {
+  const existingAssignments = loadMatchAssignmentsForEvent(payload.eventKey);
+
+  let strategy: MatchAssignmentImportStrategy = isMatchAssignmentImportStrategy(strategyOverride)
+    ? strategyOverride
+    : 'replace';
+  if (existingAssignments.length > 0 && payload.assignments.length > 0 && !strategyOverride) {
+    strategy = 'merge';
+  }
+
+  if (strategy === 'cancel') {
+    return {
+      strategy,
+      importedCount: 0,
+      myAssignmentCount: 0,
+    };
+  }
+
+  const nextAssignments = strategy === 'replace'
+    ? sortAssignments(payload.assignments)
+    : mergeAssignments(existingAssignments, payload.assignments);
+
+  // Sync active event context on the receiving scout
+  if (payload.eventKey?.trim()) {
+    localStorage.setItem('eventKey', payload.eventKey);
+    localStorage.setItem('eventName', payload.eventKey);
+  }
+
+  saveMatchAssignmentsForEvent(payload.eventKey, nextAssignments);
+
+  workspaceStorage.setItem(getMatchAssignmentsMetaKey(payload.eventKey), JSON.stringify({
+    lastSyncedAt: Date.now(),
+    sourceScoutName: payload.sourceScoutName,
+    strategy,
+  } satisfies MatchAssignmentMeta));
+
+  const normalizedScoutName = normalizeScoutName(currentScoutName);
+
+  return {
+    strategy,
+    importedCount: payload.assignments.length,
+    myAssignmentCount: nextAssignments.filter(
+      (assignment) => normalizeScoutName(assignment.scoutName) === normalizedScoutName
+    ).length,
+  };
+};
+
+export const getMatchAssignmentMeta = (eventKey: string): { lastSyncedAt: number; sourceScoutName: string } | null => {
+  const raw = parseJson<MatchAssignmentMeta | null>(workspaceStorage.getItem(getMatchAssignmentsMetaKey(eventKey)), null);
+  if (!raw) return null;
+  return {
+    lastSyncedAt: raw.lastSyncedAt,
+    sourceScoutName: raw.sourceScoutName,
+  };
+};
@@ -0,0 +1,61 @@
+// Types for match scouting assignment functionality
+
+export type MatchScoutStation = 'red-1' | 'red-2' | 'red-3' | 'blue-1' | 'blue-2' | 'blue-3';
+
+export const MATCH_SCOUT_STATIONS: MatchScoutStation[] = [
+  'red-1',
+  'red-2',
+  'red-3',
+  'blue-1',
+  'blue-2',
+  'blue-3',
+];
+
+export interface MatchScoutAssignment {
+  id: string;
+  eventKey: string;
+  matchNum: number;
+  station: MatchScoutStation;
+  alliance: 'red' | 'blue';
+  teamNumber: string;
+  scoutName: string;
+  assignedAt: number;
+}
+
+export interface MatchAssignmentRules {
+  /** Consecutive matches a scout watches before taking a break */
+  shiftLength: number;
+  /** Matches a scout sits out after finishing a shift */
+  breakLength: number;
+  /** Our team number; its matches pull pit crew scouts off the stands */
+  ourTeamNumber: string;
+  /** Scouts who leave the stands for pit duty around our matches */
+  pitDutyScouts: string[];
+  /** Matches before each of our matches that pit duty scouts are already gone (queueing, repairs) */
+  pitDutyLeadMatches: number;
+  /** Leave our own robot's station unassigned since the drive team reports on it */
+  skipOwnTeam: boolean;
+}
+
+export const DEFAULT_MATCH_ASSIGNMENT_RULES: MatchAssignmentRules = {
+  shiftLength: 6,
+  breakLength: 3,
+  ourTeamNumber: '',
+  pitDutyScouts: [],
+  pitDutyLeadMatches: 1,
+  skipOwnTeam: true,
+};
+
+export interface MatchAssignmentGap {
+  matchNum: number;
+  station: MatchScoutStation;
+  teamNumber: string;
+  reason: 'own-team' | 'no-scout';
+}
+
+export interface MatchAssignmentPlan {
+  assignments: MatchScoutAssignment[];
+  gaps: MatchAssignmentGap[];
+  /** Scouts on pit duty keyed by match number */
+  pitDuty: Record<number, string[]>;
+}
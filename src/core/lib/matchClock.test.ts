@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import {
+  adjustMatchClock,
+  advanceMatchClockTo,
+  createMatchClock,
+  formatMatchClock,
+  getMatchClockElapsedMs,
+  isMatchClockPaused,
+  pauseMatchClock,
+  resumeMatchClock,
+  stampMatchTimes,
+  toMatchTimeSeconds,
+} from './matchClock';
+
+const START = 1_000_000;
+
+describe('match clock', () => {
+  it('measures match time from the start, to 0.1s', () => {
+    const clock = createMatchClock(START);
+
+    expect(getMatchClockElapsedMs(clock, START + 12_345)).toBe(12_345);
+    expect(toMatchTimeSeconds(clock, START + 12_345)).toBe(12.3);
+    expect(toMatchTimeSeconds(clock, START - 500)).toBe(0);
+  });
+
+  it('excludes paused time, including an open pause', () => {
+    let clock = pauseMatchClock(createMatchClock(START), START + 10_000);
+    expect(isMatchClockPaused(clock)).toBe(true);
+    expect(getMatchClockElapsedMs(clock, START + 15_000)).toBe(10_000);
+
+    clock = resumeMatchClock(clock, START + 16_000);
+    expect(isMatchClockPaused(clock)).toBe(false);
+    expect(getMatchClockElapsedMs(clock, START + 20_000)).toBe(14_000);
+    // Times before the pause are unaffected
+    expect(getMatchClockElapsedMs(clock, START + 5_000)).toBe(5_000);
+  });
+
+  it('covers late starts with an adjustment', () => {
+    const clock = adjustMatchClock(createMatchClock(START), 3_000);
+
+    expect(toMatchTimeSeconds(clock, START + 1_000)).toBe(4);
+  });
+
+  it('only advances to a phase boundary it has not reached', () => {
+    const clock = createMatchClock(START);
+
+    expect(getMatchClockElapsedMs(advanceMatchClockTo(clock, 20_000, START + 17_000), START + 17_000)).toBe(20_000);
+    expect(advanceMatchClockTo(clock, 20_000, START + 22_000)).toBe(clock);
+  });
+
+  it('stamps waypoints that have no match time yet', () => {
+    const clock = createMatchClock(START);
+    const stamped = stampMatchTimes([
+      { timestamp: START + 2_000 },
+      { timestamp: START + 4_000, matchTime: 3 },
+    ], clock);
+
+    expect(stamped.map(waypoint => waypoint.matchTime)).toEqual([2, 3]);
+    expect(stampMatchTimes([{ timestamp: START }], null)).toEqual([{ timestamp: START }]);
+  });
+
+  it('formats as m:ss', () => {
+    expect(formatMatchClock(0)).toBe('0:00');
+    expect(formatMatchClock(65_900)).toBe('1:05');
+    expect(formatMatchClock(-1_000)).toBe('0:00');
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Match clock for scouting sessions
+ * Framework implementation - game-agnostic
+ *
+ * Waypoint `timestamp`s are wall-clock times, which cannot be compared across
+ * matches. The match clock maps them to seconds since the start of auto, so
+ * "scored at 47s" means the same thing for every robot.
+ *
+ * The clock is started from the auto page and kept in localStorage with the
+ * rest of the in-progress match, so teleop and page reloads see the same clock.
+ * Pauses (field faults, the scout switching apps) are excluded from match time
+ * and a manual adjustment covers scouts who started the clock late or early.
+ */
+
+/** Stored with the in-progress match (see clearScoutingLocalStorage) */
+export const MATCH_CLOCK_STORAGE_KEY = 'matchClock';
+
+export interface MatchClockPause {
+  start: number;
+  /** null while the clock is paused */
+  end: number | null;
+}
+
+export interface MatchClockState {
+  /** Wall-clock time the clock was started */
+  startedAt: number;
+  pauses: MatchClockPause[];
+  /** Added to the elapsed time; positive when the clock was started late */
+  adjustMs: number;
+}
+
+export const createMatchClock = (now = Date.now(), initialElapsedMs = 0): MatchClockState => ({
+  startedAt: now,
+  pauses: [],
+  adjustMs: initialElapsedMs,
+});
+
+export const isMatchClockPaused = (clock: MatchClockState): boolean =>
+  clock.pauses.some(pause => pause.end === null);
+
+const pausedMsBefore = (clock: MatchClockState, at: number): number =>
+  clock.pauses.reduce((total, pause) => {
+    const end = Math.min(pause.end ?? at, at);
+    return total + Math.max(0, end - pause.start);
+  }, 0);
+
+/** Match time in milliseconds at a wall-clock time, never negative */
+export const getMatchClockElapsedMs = (clock: MatchClockState, at = Date.now()): number =>
+  Math.max(0, at - clock.startedAt - pausedMsBefore(clock, at) + clock.adjustMs);
+
+/** Match-relative seconds for a wall-clock timestamp, to 0.1s */
+export const toMatchTimeSeconds = (clock: MatchClockState, timestamp: number): number =>
+  Math.round(getMatchClockElapsedMs(clock, timestamp) / 100) / 10;
+
+export const pauseMatchClock = (clock: MatchClockState, now = Date.now()): MatchClockState =>
+  isMatchClockPaused(clock) ? clock : { ...clock, pauses: [...clock.pauses, { start: now, end: null }] };
+
+export const resumeMatchClock = (clock: MatchClockState, now = Date.now()): MatchClockState => ({
+  ...clock,
+  pauses: clock.pauses.map(pause => pause.end === null ? { ...pause, end: now } : pause),
+});
+
+export const adjustMatchClock = (clock: MatchClockState, deltaMs: number): MatchClockState => ({
+  ...clock,
+  adjustMs: clock.adjustMs + deltaMs,
+});
+
+/**
+ * Move the clock forward to a phase boundary it has not reached, e.g. when the
+ * scout continues to teleop before the clock shows the end of auto.
+ */
+export const advanceMatchClockTo = (
+  clock: MatchClockState,
+  elapsedMs: number,
+  now = Date.now()
+): MatchClockState => {
+  const current = getMatchClockElapsedMs(clock, now);
+  return current >= elapsedMs ? clock : adjustMatchClock(clock, elapsedMs - current);
+};
+
+/** Fill in `matchTime` on waypoints recorded without one */
+export const stampMatchTimes = <T extends { timestamp?: number; matchTime?: number }>(
+  waypoints: T[],
+  clock: MatchClockState | null
+): T[] => {
+  if (!clock) return waypoints;
+  return waypoints.map(waypoint =>
+    typeof waypoint.matchTime === 'number' || typeof waypoint.timestamp !== 'number'
+      ? waypoint
+      : { ...waypoint, matchTime: toMatchTimeSeconds(clock, waypoint.timestamp) }
+  );
+};
+
+/** m:ss */
+export const formatMatchClock = (milliseconds: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+};
+
+const isMatchClockState = (value: unknown): value is MatchClockState => {
+  if (!value || typeof value !== 'object') return false;
+  const clock = value as Record<string, unknown>;
+  return typeof clock.startedAt === 'number'
+    && typeof clock.adjustMs === 'number'
+    && Array.isArray(clock.pauses);
+};
+
+export const loadMatchClock = (): MatchClockState | null => {
+  try {
+    const stored = localStorage.getItem(MATCH_CLOCK_STORAGE_KEY);
+    if (!stored) return null;
+    const parsed: unknown = JSON.parse(stored);
+    return isMatchClockState(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveMatchClock = (clock: MatchClockState): void => {
+  localStorage.setItem(MATCH_CLOCK_STORAGE_KEY, JSON.stringify(clock));
+};
+
+export const clearMatchClock = (): void => {
+  localStorage.removeItem(MATCH_CLOCK_STORAGE_KEY);
+};
+
+/** The saved clock, or a new one started now */
+export const ensureMatchClock = (now = Date.now(), initialElapsedMs = 0): MatchClockState => {
+  const existing = loadMatchClock();
+  if (existing) return existing;
+
+  const clock = createMatchClock(now, initialElapsedMs);
+  saveMatchClock(clock);
+  return clock;
+};
@@ -440,6 +440,101 @@ function getNestedValue(obj: Record<string, unknown>, path: string): unknown {
     }, obj as unknown);
 }
 
+// ============================================================================
+// Scouted Data Flattening
+// ============================================================================
+
+/**
+ * Flatten an entry's phase-nested gameData and derive the fields that the
+ * validation mappings read (phase fuel totals, auto climb success)
+ */
+export function flattenEntryGameData(gameData: Record<string, unknown>): Record<string, unknown> {
+    // gameData can be { auto: {...}, teleop: {...}, endgame: {...} } or flat
+    const flatGameData: Record<string, unknown> = {};
+
+    // Check if gameData is nested (has auto/teleop/endgame phases)
+    const phases = ['auto', 'teleop', 'endgame'];
+    for (const phase of phases) {
+        const phaseData = gameData[phase] as Record<string, unknown> | undefined;
+        if (phaseData && typeof phaseData === 'object') {
+            // Flatten phase data - extract values from nested structure
+            for (const [key, value] of Object.entries(phaseData)) {
+                flatGameData[key] = value;
+            }
+        }
+    }
+
+    // Also include any top-level flat values
+    for (const [key, value] of Object.entries(gameData)) {
+        if (!phases.includes(key)) {
+            flatGameData[key] = value;
+        }
+    }
+
+    // Derive phase-specific fuel fields for validation mappings
+    const autoPhase = (gameData.auto && typeof gameData.auto === 'object')
+        ? (gameData.auto as Record<string, unknown>)
+        : null;
+    const teleopPhase = (gameData.teleop && typeof gameData.teleop === 'object')
+        ? (gameData.teleop as Record<string, unknown>)
+        : null;
+
+    const autoFuel =
+        (typeof autoPhase?.fuelScoredCount === 'number' ? autoPhase.fuelScoredCount : undefined) ??
+        (typeof autoPhase?.fuelScored === 'number' ? autoPhase.fuelScored : undefined) ??
+        (typeof flatGameData.autoFuelScored === 'number' ? flatGameData.autoFuelScored : undefined) ??
+        (typeof flatGameData.autoFuelScoredCount === 'number' ? flatGameData.autoFuelScoredCount : undefined) ??
+        0;
+
+    const teleopFuel =
+        (typeof teleopPhase?.fuelScoredCount === 'number' ? teleopPhase.fuelScoredCount : undefined) ??
+        (typeof teleopPhase?.fuelScored === 'number' ? teleopPhase.fuelScored : undefined) ??
+        (typeof flatGameData.teleopFuelScored === 'number' ? flatGameData.teleopFuelScored : undefined) ??
+        (typeof flatGameData.teleopFuelScoredCount === 'number' ? flatGameData.teleopFuelScoredCount : undefined) ??
+        0;
+
+    flatGameData.autoFuelScored = autoFuel;
+    flatGameData.teleopFuelScored = teleopFuel;
+    flatGameData.totalFuelScored = autoFuel + teleopFuel;
+
+    const autoClimbSuccess =
+        autoPhase?.autoClimbL1 === true ||
+        autoPhase?.autoClimbL2 === true ||
+        autoPhase?.autoClimbL3 === true ||
+        flatGameData.autoClimbL1 === true ||
+        flatGameData.autoClimbL2 === true ||
+        flatGameData.autoClimbL3 === true;
+
+    flatGameData.autoClimbSuccess = autoClimbSuccess;
+
+    return flatGameData;
+}
+
+/**
+ * Mapped action counts and toggle states (0/1) from one entry's gameData,
+ * ready to sum into an alliance total
+ */
+export function getScoutedMappedValues(gameData: Record<string, unknown>): {
+    actions: Record<string, number>;
+    toggles: Record<string, number>;
+} {
+    const flatGameData = flattenEntryGameData(gameData);
+    const result = { actions: {} as Record<string, number>, toggles: {} as Record<string, number> };
+
+    for (const key of getAllMappedActionKeys()) {
+        // Counters may be stored with or without the Count suffix
+        const value = flatGameData[key] ?? flatGameData[`${key}Count`];
+        result.actions[key] = typeof value === 'number' ? value : 0;
+    }
+
+    for (const key of getAllMappedToggleKeys()) {
+        const value = flatGameData[key];
+        result.toggles[key] = value === true || value === 1 ? 1 : 0;
+    }
+
+    return result;
+}
+
 // ============================================================================
 // Validation Comparison
 // ============================================================================
@@ -511,6 +606,61 @@ export function compareAllianceData(
     return discrepancies;
 }
 
+/**
+ * Compare one robot's scouted toggles against its own slot in the TBA
+ * breakdown. Only toggle mappings with one path per robot (e.g.
+ * endGameTowerRobot1-3) can be checked this way; alliance-wide ones are skipped.
+ *
+ * @param robotIndex - Position of the team in the alliance's TBA team_keys
+ * @param scoutedValues - Flattened gameData for the team's entry
+ */
+export function compareTeamToggles(
+    robotIndex: number,
+    scoutedValues: Record<string, unknown>,
+    breakdown: Record<string, unknown>,
+    config: ValidationConfig
+): Discrepancy[] {
+    const discrepancies: Discrepancy[] = [];
+
+    const toggleKeys = getAllMappedToggleKeys();
+    for (const toggleKey of toggleKeys) {
+        const mapping = getToggleMapping(toggleKey);
+        const robotPath = Array.isArray(mapping.tbaPath) ? mapping.tbaPath[robotIndex] : undefined;
+        if (typeof robotPath !== 'string') {
+            continue;
+        }
+
+        const scouted = scoutedValues[toggleKey];
+        const scoutedValue = scouted === true || scouted === 1 ? 1 : 0;
+        const tbaValue = extractTBAValue(
+            breakdown,
+            [robotPath],
+            mapping.type,
+            'matchValue' in mapping ? mapping.matchValue : undefined
+        );
+
+        if (scoutedValue !== tbaValue) {
+            const category = mapping.category;
+            const thresholds = config.categoryThresholds?.[category] ?? config.thresholds;
+
+            const discrepancy = createDiscrepancy(
+                category,
+                toggleKey,
+                getToggleLabel(toggleKey),
+                scoutedValue,
+                tbaValue,
+                thresholds
+            );
+
+            if (discrepancy) {
+                discrepancies.push(discrepancy);
+            }
+        }
+    }
+
+    return discrepancies;
+}
+
 /**
  * Create a discrepancy object with severity calculation
  */
@@ -570,7 +720,7 @@ function calculateSeverity(
 /**
  * Get human-readable label for action key
  */
-function getActionLabel(actionKey: string): string {
+export function getActionLabel(actionKey: string): string {
     // Check if this action key exists in the actions object
     if (actionKey in actions) {
         return actions[actionKey as keyof typeof actions].label;
@@ -592,7 +742,7 @@ function getActionLabel(actionKey: string): string {
 /**
  * Get human-readable label for toggle key
  */
-function getToggleLabel(toggleKey: string): string {
+export function getToggleLabel(toggleKey: string): string {
     // Check all toggle phases for the key
     for (const phase of ['auto', 'teleop', 'endgame'] as const) {
         const phaseToggles = toggles[phase];
@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  createMockNexusEventStatus,
+  formatNexusRelativeTime,
+  getNewAnnouncements,
+  getQueuingMatch,
+  parseNexusMatchLabel,
+} from './nexusQueue';
+
+vi.mock('@/core/db/eventWorkspaceDatabase', () => ({ workspaceStorage: {} }));
+
+const MINUTE = 60_000;
+const START = Date.UTC(2026, 2, 14, 15);
+
+describe('parseNexusMatchLabel', () => {
+  it('maps Nexus labels to Game Start match types', () => {
+    expect(parseNexusMatchLabel('Qualification 12')).toEqual({ matchType: 'qm', matchNumber: 12 });
+    expect(parseNexusMatchLabel('Playoff 4')).toEqual({ matchType: 'sf', matchNumber: 4 });
+    expect(parseNexusMatchLabel('Final 2')).toEqual({ matchType: 'f', matchNumber: 2 });
+    expect(parseNexusMatchLabel('Qualification 7 Replay')).toEqual({ matchType: 'qm', matchNumber: 7 });
+    expect(parseNexusMatchLabel('Practice 3')).toBeNull();
+    expect(parseNexusMatchLabel(null)).toBeNull();
+  });
+});
+
+describe('mock Nexus queue', () => {
+  it('advances the queuing match with the clock', () => {
+    const options = { startTime: START, cycleTimeMs: 7 * MINUTE };
+
+    const beforeStart = createMockNexusEventStatus('2026test', START - 10 * MINUTE, options);
+    expect(beforeStart.nowQueuing).toBe('Qualification 1');
+    expect(getQueuingMatch(beforeStart)?.label).toBe('Qualification 1');
+
+    const later = createMockNexusEventStatus('2026test', START + 30 * MINUTE, options);
+    const queuing = getQueuingMatch(later);
+    expect(queuing?.label).toBe('Qualification 7');
+    expect(later.matches.find(match => match.status === 'On field')?.label).toBe('Qualification 5');
+    expect(queuing?.times.estimatedStartTime).toBe(START + 42 * MINUTE);
+    expect(later.matches.filter(match => match.status === 'Now queuing')).toHaveLength(1);
+  });
+
+  it('only reports announcements that have not been seen', () => {
+    const status = createMockNexusEventStatus('2026test', START + 30 * MINUTE, { startTime: START });
+    const first = getNewAnnouncements(status, new Set());
+    expect(first.length).toBeGreaterThan(1);
+
+    const seen = new Set(first.slice(0, -1).map(a => a.id));
+    expect(getNewAnnouncements(status, seen)).toEqual([first[first.length - 1]]);
+  });
+});
+
+describe('formatNexusRelativeTime', () => {
+  it('rounds to minutes', () => {
+    expect(formatNexusRelativeTime(START + 4 * MINUTE + 10_000, START)).toBe('in 4 min');
+    expect(formatNexusRelativeTime(START - 2 * MINUTE, START)).toBe('2 min ago');
+    expect(formatNexusRelativeTime(START + 10_000, START)).toBe('now');
+    expect(formatNexusRelativeTime(null, START)).toBe('No estimate');
+  });
+});
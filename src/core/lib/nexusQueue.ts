@@ -0,0 +1,198 @@
+/**
+ * Live Nexus queue helpers
+ *
+ * Turns a Nexus event status into the match the field is queuing, so
+ * Game Start can follow the queue instead of relying on auto-increment.
+ * A local mock of the status endpoint (enabled with VITE_NEXUS_MOCK=true or
+ * the `nexusMockQueue` localStorage flag) lets the mode be tested away from
+ * an event.
+ */
+
+import {
+  getNexusEventStatus,
+  type NexusAnnouncement,
+  type NexusEventStatus,
+  type NexusMatch,
+  type NexusMatchStatus,
+} from './nexusUtils';
+
+export const NEXUS_QUEUE_POLL_INTERVAL_MS = 30_000;
+export const NEXUS_MOCK_STORAGE_KEY = 'nexusMockQueue';
+
+export type NexusQueueMatchType = 'qm' | 'sf' | 'f';
+
+export interface NexusQueueTarget {
+  matchType: NexusQueueMatchType;
+  matchNumber: number;
+}
+
+/**
+ * Map a Nexus label to the match type and number Game Start uses.
+ * "Playoff N" is the double-elimination match number, which Game Start
+ * stores as sfNm1. Practice matches and unknown labels return null.
+ */
+export function parseNexusMatchLabel(label: string | null | undefined): NexusQueueTarget | null {
+  const match = String(label ?? '').trim().match(/^(qualification|playoff|final)\s+(\d+)(?:\s+replay)?$/i);
+  if (!match || !match[1] || !match[2]) return null;
+
+  const matchNumber = Number.parseInt(match[2], 10);
+  if (!Number.isFinite(matchNumber) || matchNumber <= 0) return null;
+
+  const kind = match[1].toLowerCase();
+  const matchType: NexusQueueMatchType = kind === 'qualification' ? 'qm' : kind === 'playoff' ? 'sf' : 'f';
+  return { matchType, matchNumber };
+}
+
+/**
+ * The match currently being queued: the one named by `nowQueuing`, falling
+ * back to the first match whose status says so.
+ */
+export function getQueuingMatch(status: NexusEventStatus | null | undefined): NexusMatch | null {
+  if (!status) return null;
+
+  if (status.nowQueuing) {
+    const named = status.matches.find(match => match.label === status.nowQueuing);
+    if (named) return named;
+  }
+
+  return status.matches.find(match => match.status === 'Now queuing') ?? null;
+}
+
+/**
+ * Actual times win over estimates once Nexus has recorded them
+ */
+export function getNexusMatchQueueTime(match: NexusMatch): number | null {
+  return match.times.actualQueueTime ?? match.times.estimatedQueueTime ?? null;
+}
+
+export function getNexusMatchStartTime(match: NexusMatch): number | null {
+  return match.times.estimatedStartTime ?? match.times.scheduledStartTime ?? null;
+}
+
+/**
+ * Announcements whose ids are not in `seenIds`, oldest first
+ */
+export function getNewAnnouncements(
+  status: NexusEventStatus | null | undefined,
+  seenIds: ReadonlySet<string>
+): NexusAnnouncement[] {
+  if (!status) return [];
+
+  return status.announcements
+    .filter(announcement => !seenIds.has(announcement.id))
+    .sort((a, b) => a.postedTime - b.postedTime);
+}
+
+/**
+ * "in 4 min", "2 min ago" or "now"
+ */
+export function formatNexusRelativeTime(time: number | null, now: number): string {
+  if (time === null) return 'No estimate';
+
+  const minutes = Math.round((time - now) / 60_000);
+  if (minutes === 0) return 'now';
+  return minutes > 0 ? `in ${minutes} min` : `${-minutes} min ago`;
+}
+
+export function isNexusMockEnabled(): boolean {
+  if (import.meta.env.VITE_NEXUS_MOCK === 'true') return true;
+
+  try {
+    return localStorage.getItem(NEXUS_MOCK_STORAGE_KEY) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+export interface MockNexusOptions {
+  /** Scheduled start of Qualification 1. Defaults to the top of the current hour */
+  startTime?: number;
+  matchCount?: number;
+  cycleTimeMs?: number;
+  teams?: string[];
+}
+
+const MOCK_ANNOUNCEMENTS = [
+  'Queuing is open. Teams for the first matches, please report to the queue.',
+  'Reminder: safety glasses are required in the pits at all times.',
+  'Field reset is taking longer than expected. Times have been updated.',
+  'Lunch break after the current block. Queuing resumes 45 minutes later.',
+];
+
+const DEFAULT_MOCK_TEAMS = Array.from({ length: 36 }, (_, i) => String(100 + i * 37));
+
+function getMockStatus(now: number, queueTime: number, onDeckTime: number, onFieldTime: number, endTime: number): NexusMatchStatus | null {
+  if (now >= endTime) return null;
+  if (now >= onFieldTime) return 'On field';
+  if (now >= onDeckTime) return 'On deck';
+  if (now >= queueTime) return 'Now queuing';
+  if (now >= queueTime - (onDeckTime - queueTime)) return 'Queuing soon';
+  return null;
+}
+
+/**
+ * Build a Nexus event status for a fake qualification schedule that moves
+ * with the clock, one match every `cycleTimeMs`.
+ */
+export function createMockNexusEventStatus(
+  eventKey: string,
+  now: number,
+  options: MockNexusOptions = {}
+): NexusEventStatus {
+  const cycleTimeMs = options.cycleTimeMs ?? 7 * 60_000;
+  const matchCount = options.matchCount ?? 60;
+  const startTime = options.startTime ?? Math.floor(now / 3_600_000) * 3_600_000;
+  const teams = options.teams && options.teams.length >= 6 ? options.teams : DEFAULT_MOCK_TEAMS;
+
+  const matches: NexusMatch[] = Array.from({ length: matchCount }, (_, index) => {
+    const estimatedStartTime = startTime + index * cycleTimeMs;
+    const estimatedQueueTime = estimatedStartTime - 2 * cycleTimeMs;
+    const estimatedOnDeckTime = estimatedStartTime - cycleTimeMs;
+    const estimatedOnFieldTime = estimatedStartTime - Math.round(cycleTimeMs / 3);
+    const slot = (position: number) => teams[(index * 6 + position) % teams.length] ?? null;
+
+    return {
+      label: `Qualification ${index + 1}`,
+      status: getMockStatus(now, estimatedQueueTime, estimatedOnDeckTime, estimatedOnFieldTime, estimatedStartTime + cycleTimeMs),
+      redTeams: [slot(0), slot(1), slot(2)],
+      blueTeams: [slot(3), slot(4), slot(5)],
+      times: {
+        estimatedQueueTime,
+        estimatedOnDeckTime,
+        estimatedOnFieldTime,
+        estimatedStartTime,
+        actualQueueTime: now >= estimatedQueueTime ? estimatedQueueTime : null,
+      },
+      breakAfter: index + 1 === Math.floor(matchCount / 2) ? 'Lunch' : null,
+      replayOf: null,
+    };
+  });
+
+  const announcements: NexusAnnouncement[] = MOCK_ANNOUNCEMENTS
+    .map((announcement, index) => ({
+      id: `mock-announcement-${index + 1}`,
+      announcement,
+      postedTime: startTime - 2 * cycleTimeMs + index * 5 * cycleTimeMs,
+    }))
+    .filter(announcement => announcement.postedTime <= now);
+
+  return {
+    eventKey,
+    dataAsOfTime: now,
+    nowQueuing: matches.find(match => match.status === 'Now queuing')?.label ?? null,
+    matches,
+    announcements,
+    partsRequests: [],
+  };
+}
+
+/**
+ * Fetch the live status through the API proxy, or the local mock when enabled
+ */
+export async function fetchNexusQueueStatus(eventKey: string, apiKey = ''): Promise<NexusEventStatus> {
+  if (isNexusMockEnabled()) {
+    return createMockNexusEventStatus(eventKey, Date.now());
+  }
+
+  return getNexusEventStatus(eventKey, apiKey);
+}
@@ -112,9 +112,21 @@ export const PAGE_HELP_CONFIG: Record<string, PageHelpConfig> = {
       "2. Switch tabs to strategize scoring and paths for different phases of the game",
       "3. Enter the teams on each alliance or enter a match number to auto-fill the data.",
       "4. Compare alliance abilities in each phase of the game.",
+      "5. Check Match Prediction for win probability, expected score range and ranking point odds from the current display mode.",
       "Pro tip: Using the save all button will create an image with all drawings from each phase, team numbers, and match number"
     ]
   },
+  "/match-replay": {
+    title: "Match Replay",
+    content: [
+      "Replay all six robots from a scouted match together on the field.",
+      "1. Pick the event and match. The match list shows how many of the six robots were scouted.",
+      "2. Press Play, change the speed, or drag the timeline to jump to any moment.",
+      "3. Dots trail behind each robot for its recent actions; shots show the fuel scored.",
+      "4. Alliance cards show scouted fuel so far, and compare auto and match fuel with TBA hub counts once match results are loaded from API Data.",
+      "Entries scouted without the match clock are marked \"est.\" because their timing is estimated."
+    ]
+  },
   "/pick-list": {
     title: "Pick Lists & Alliance Selection",
     useDialog: true,
@@ -134,6 +146,8 @@ export const PAGE_HELP_CONFIG: Record<string, PageHelpConfig> = {
       "• **Sort Options** - Order teams by number, total coral, algae, auto performance, climb rate, and more",
       "• **Search Filter** - Quickly find specific teams using the search box",
       "• **Performance Stats** - View detailed metrics for each team including averages and match counts",
+      "• **Ranking Projection** - Simulates the remaining qualification matches to show each team's projected rank, top-8 captain odds and expected RP",
+      "• **Pairwise Ranking** - Switch to 'Pairwise Ranking' to vote on two teams at a time; votes become a rating with confidence that can be written into a pick list, and other strategists' exported votes can be merged in",
       "",
       "**Alliance Selection Integration:**",
       "• **Toggle Alliances** - Use 'Show/Hide Alliances' button to enable alliance selection features",
@@ -142,6 +156,7 @@ export const PAGE_HELP_CONFIG: Record<string, PageHelpConfig> = {
       "• **Smart Positioning** - Teams are automatically assigned to next available position (Captain → Pick 1 → Pick 2 → Pick 3)",
       "• **Conflict Prevention** - Teams are automatically removed from pick lists when assigned to alliances",
       "• **Confirm Alliances** - Lock in final alliance selections for use in match strategy",
+      "• **Draft Simulator** - Enter our team number and pick list to see predicted picks for every captain and the odds each of our targets is still available at our turn; add declines as they happen",
       "",
       "**Data Management:**",
       "• **Export** - Download your pick lists as JSON files for backup or sharing with team members",
@@ -271,6 +286,7 @@ export const PAGE_HELP_CONFIG: Record<string, PageHelpConfig> = {
       "5. 'Column Filters' - Set numeric filters (>, >=, <, <=, =, !=) to find teams meeting specific criteria",
       "6. 'Data Table' - Sort by any column, view aggregated statistics across all scouted matches",
       "7. Use scatter plots to find correlations between metrics (e.g., coral vs algae scoring)",
+      "8. 'Ranking Projection' - Projected final qualification rank, captain odds and expected RP for the selected event (or the current event when several are selected)",
       "Perfect for alliance selection, identifying team strengths/weaknesses, and strategic planning."
     ]
   },
@@ -353,6 +369,54 @@ export const PAGE_HELP_CONFIG: Record<string, PageHelpConfig> = {
       "- Import new event data from TBA Data page will replace the current event automatically"
     ]
   },
+  "/match-assignments": {
+    title: "Match Assignments",
+    useDialog: true,
+    content: [
+      "Build a stand schedule that tells every scout which robot to watch in each qualification match.",
+      "**Getting Started:**",
+      "1. **Load the Schedule** - Match data must be loaded from the API Data page (or imported as a match schedule)",
+      "2. **Add Scouts** - Use the Scout Management section or connect scouts over WiFi",
+      "3. **Set Shift Rules** - Choose how many matches a shift lasts and how long breaks are",
+      "",
+      "**Our Matches:**",
+      "• Enter our team number so our robot's station can be left to the drive team",
+      "• Tap scouts to pull them for pit duty during our matches, plus the lead matches before each one",
+      "",
+      "**How Scouts Rotate:**",
+      "• Scouts keep the same station for a whole shift, then rotate to the station they've watched least",
+      "• First shifts are staggered so breaks don't all start at once",
+      "• Scouts on break are only pulled back when nobody else is free; unfilled slots are flagged in red",
+      "",
+      "**Sharing:**",
+      "• Push assignments to connected scouts, or send them as 'Match Assignments' from the WiFi Transfer page",
+      "• Game Start fills in the team and alliance for the signed-in scout's assigned match",
+    ]
+  },
+  "/custom-form": {
+    title: "Custom Form Builder",
+    useDialog: true,
+    content: [
+      "Add extra scouting questions at an event without changing code. Questions appear on the Auto, Teleop and Endgame screens under 'Additional Questions'.",
+      "**Question Types:**",
+      "• **Counter** - Plus/minus count with an optional maximum",
+      "• **Toggle** - Yes/no button",
+      "• **Select** - Pick one of two or more options",
+      "• **Rating** - 1 to N scale (5 by default)",
+      "• **Text** - Short note, saved with the match but not charted",
+      "",
+      "**Versions:**",
+      "• Every save creates a new version; entries record which version they were scouted with",
+      "• Once a question is saved its key and type are locked so stats stay comparable across matches",
+      "",
+      "**Sharing:**",
+      "• Send the form as 'Custom Scouting Form' from JSON or QR Data Transfer",
+      "• Tablets switch to the received form unless they already have a newer version of it",
+      "",
+      "**Strategy Overview:**",
+      "• Counters and ratings become average columns, toggles become % columns, and each select option gets its own % column (hidden by default)",
+    ]
+  },
   "/peer-transfer": {
     title: "WiFi Transfer",
     useDialog: true,
@@ -0,0 +1,114 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  buildPairwiseVotesTransferPayload,
+  fitPairwiseRatings,
+  getPairKey,
+  getRankingConfidence,
+  isPairwiseVotesTransferPayload,
+  mergePairwiseVotes,
+  mergePairwiseVoteSets,
+  removePairwiseVotes,
+  selectNextPair,
+  type PairwiseVote,
+} from './pairwiseRanking';
+
+vi.mock('@/core/db/eventWorkspaceDatabase', () => ({ workspaceStorage: {} }));
+
+let nextId = 0;
+const vote = (winner: number, loser: number, voter = 'Riley'): PairwiseVote => {
+  nextId += 1;
+  return { id: `v${nextId}`, eventKey: '2026mimid', winner, loser, voter, createdAt: nextId };
+};
+
+describe('fitPairwiseRatings', () => {
+  it('starts every team at 1500 with no votes', () => {
+    const ratings = fitPairwiseRatings([254, 118, 1678], []);
+
+    expect(ratings.map(rating => rating.teamNumber)).toEqual([118, 254, 1678]);
+    ratings.forEach(rating => expect(rating.rating).toBeCloseTo(1500));
+    expect(ratings[0]!.confidenceAboveNext).toBeCloseTo(0.5);
+    expect(ratings[2]!.confidenceAboveNext).toBeNull();
+  });
+
+  it('orders a consistent set of votes and grows more confident with more of them', () => {
+    const votes = [vote(254, 118), vote(118, 1678), vote(254, 1678)];
+    const ratings = fitPairwiseRatings([1678, 118, 254], votes);
+
+    expect(ratings.map(rating => rating.teamNumber)).toEqual([254, 118, 1678]);
+    expect(ratings.map(rating => rating.rank)).toEqual([1, 2, 3]);
+    expect(ratings[0]).toMatchObject({ wins: 2, losses: 0 });
+    // The prior keeps an unbeaten team finite
+    expect(Number.isFinite(ratings[0]!.rating)).toBe(true);
+
+    const moreVotes = fitPairwiseRatings([1678, 118, 254], [...votes, ...votes.map(v => vote(v.winner, v.loser))]);
+    expect(moreVotes[0]!.uncertainty).toBeLessThan(ratings[0]!.uncertainty);
+    expect(moreVotes[0]!.confidenceAboveNext!).toBeGreaterThan(ratings[0]!.confidenceAboveNext!);
+    expect(getRankingConfidence(moreVotes)!).toBeGreaterThan(getRankingConfidence(ratings)!);
+  });
+
+  it('ignores votes for teams outside the pool', () => {
+    const ratings = fitPairwiseRatings([254, 118], [vote(254, 118), vote(9999, 254)]);
+
+    expect(ratings.find(rating => rating.teamNumber === 254)).toMatchObject({ wins: 1, losses: 0 });
+  });
+});
+
+describe('selectNextPair', () => {
+  it('prefers close, uncertain pairs that have not been compared yet', () => {
+    const votes = [vote(254, 118), vote(254, 118), vote(254, 118)];
+    const ratings = fitPairwiseRatings([118, 254, 1678, 2056], votes);
+
+    expect(selectNextPair(ratings, votes)).toEqual({ teamA: 1678, teamB: 2056 });
+  });
+
+  it('skips excluded pairs until nothing else is left', () => {
+    const ratings = fitPairwiseRatings([118, 254, 1678], []);
+    const first = selectNextPair(ratings, [])!;
+    const second = selectNextPair(ratings, [], new Set([getPairKey(first.teamA, first.teamB)]))!;
+
+    expect(getPairKey(second.teamA, second.teamB)).not.toBe(getPairKey(first.teamA, first.teamB));
+    expect(selectNextPair(ratings, [], new Set(['118-254', '118-1678', '254-1678']))).not.toBeNull();
+    expect(selectNextPair(ratings.slice(0, 1), [])).toBeNull();
+  });
+});
+
+describe('merging votes', () => {
+  it('unions votes from several devices by id', () => {
+    const shared = vote(254, 118);
+    const mine = [shared, vote(118, 1678)];
+    const theirs = [shared, vote(1678, 254, 'Sam'), { id: 'bad', winner: 1, loser: 1 }];
+
+    const merged = mergePairwiseVotes(mine, theirs);
+
+    expect(merged.map(v => v.id)).toEqual([shared.id, mine[1]!.id, theirs[1]!.id]);
+    expect(mergePairwiseVotes(merged, theirs)).toEqual(merged);
+  });
+
+  it('does not bring back undone or cleared votes when an older file is merged again', () => {
+    const kept = vote(254, 118);
+    const undone = vote(118, 1678);
+    const older = buildPairwiseVotesTransferPayload('2026mimid', { votes: [kept, undone], removedIds: [] });
+
+    const mine = removePairwiseVotes({ votes: [kept, undone], removedIds: [] }, [undone.id]);
+    const remerged = mergePairwiseVoteSets(mine, { votes: older.votes, removedIds: older.removedVoteIds });
+    expect(remerged.votes).toEqual([kept]);
+
+    // The removal travels with the export and takes the vote back elsewhere
+    const exported = buildPairwiseVotesTransferPayload('2026mimid', mine);
+    const theirs = mergePairwiseVoteSets({ votes: [kept, undone], removedIds: [] }, {
+      votes: exported.votes,
+      removedIds: exported.removedVoteIds,
+    });
+    expect(theirs).toEqual({ votes: [kept], removedIds: [undone.id] });
+  });
+
+  it('recognizes exported vote files', () => {
+    const payload = buildPairwiseVotesTransferPayload('2026mimid', { votes: [vote(254, 118)], removedIds: ['v0'] });
+
+    expect(isPairwiseVotesTransferPayload(JSON.parse(JSON.stringify(payload)))).toBe(true);
+    // Files from before removals were tracked
+    expect(isPairwiseVotesTransferPayload({ ...payload, removedVoteIds: undefined })).toBe(true);
+    expect(isPairwiseVotesTransferPayload({ votes: [] })).toBe(false);
+    expect(isPairwiseVotesTransferPayload([{ id: 1 }])).toBe(false);
+  });
+});
@@ -0,0 +1,345 @@
+/**
+ * Pairwise ranking
+ * Framework implementation - game-agnostic
+ *
+ * Instead of ordering dozens of teams at once, strategists answer "which of
+ * these two is the better pick?" over and over. Votes are fit to a
+ * Bradley-Terry model, where team i beats team j with probability
+ * s_i / (s_i + s_j), and the strengths are reported on the Elo scale so a
+ * 200 point gap reads as roughly a 3:1 favourite.
+ *
+ * Votes are records with their own ids, so the votes collected on several
+ * devices merge by union and the fit is simply rerun. An undone or cleared
+ * vote leaves its id behind as removed, and removed ids travel with exports,
+ * so merging an older file does not bring the vote back.
+ */
+
+import { workspaceStorage } from '@/core/db/eventWorkspaceDatabase';
+
+export interface PairwiseVote {
+  id: string;
+  eventKey: string;
+  winner: number;
+  loser: number;
+  /** Strategist who cast the vote */
+  voter: string;
+  createdAt: number;
+}
+
+export interface PairwiseRating {
+  teamNumber: number;
+  /** Elo-scale rating, 1500 for a team with no information */
+  rating: number;
+  /** Standard error of the rating, in Elo points */
+  uncertainty: number;
+  wins: number;
+  losses: number;
+  rank: number;
+  /** Probability this team really is better than the next one down, or null for the last team */
+  confidenceAboveNext: number | null;
+}
+
+export interface PairwisePair {
+  teamA: number;
+  teamB: number;
+}
+
+export interface PairwiseVoteSet {
+  votes: PairwiseVote[];
+  /** Ids of votes that were undone or cleared */
+  removedIds: string[];
+}
+
+export interface PairwiseVotesTransferPayload {
+  type: typeof PAIRWISE_VOTES_TRANSFER_TYPE;
+  eventKey: string;
+  exportedAt: number;
+  votes: PairwiseVote[];
+  /** Missing from files exported before removals were tracked */
+  removedVoteIds?: string[];
+}
+
+export const PAIRWISE_VOTES_TRANSFER_TYPE = 'maneuver-pairwise-votes';
+
+const PAIRWISE_VOTES_KEY_PREFIX = 'pairwise_votes_';
+const PAIRWISE_REMOVED_VOTES_KEY_PREFIX = 'pairwise_removed_votes_';
+
+const ELO_BASE = 1500;
+const ELO_PER_NATURAL_LOG = 400 / Math.LN10;
+
+// Every team also plays one virtual game against an average phantom team and
+// draws it. This keeps strengths finite for unbeaten or winless teams and
+// pulls teams with few votes toward the middle.
+const PRIOR_GAMES = 1;
+
+const MAX_ITERATIONS = 200;
+const TOLERANCE = 1e-7;
+
+export const getPairwiseVotesStorageKey = (eventKey: string): string =>
+  `${PAIRWISE_VOTES_KEY_PREFIX}${eventKey}`;
+
+export const getRemovedPairwiseVotesStorageKey = (eventKey: string): string =>
+  `${PAIRWISE_REMOVED_VOTES_KEY_PREFIX}${eventKey}`;
+
+export const getPairKey = (teamA: number, teamB: number): string =>
+  teamA < teamB ? `${teamA}-${teamB}` : `${teamB}-${teamA}`;
+
+export const createPairwiseVote = (
+  eventKey: string,
+  winner: number,
+  loser: number,
+  voter: string,
+  createdAt = Date.now()
+): PairwiseVote => ({
+  id: `${createdAt.toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+  eventKey,
+  winner,
+  loser,
+  voter,
+  createdAt,
+});
+
+const isPairwiseVote = (value: unknown): value is PairwiseVote => {
+  if (!value || typeof value !== 'object') return false;
+  const vote = value as Record<string, unknown>;
+  return typeof vote.id === 'string'
+    && typeof vote.eventKey === 'string'
+    && typeof vote.winner === 'number'
+    && typeof vote.loser === 'number'
+    && vote.winner !== vote.loser
+    && typeof vote.voter === 'string'
+    && typeof vote.createdAt === 'number';
+};
+
+export const isPairwiseVotesTransferPayload = (value: unknown): value is PairwiseVotesTransferPayload => {
+  if (!value || typeof value !== 'object') return false;
+  const payload = value as Record<string, unknown>;
+  return payload.type === PAIRWISE_VOTES_TRANSFER_TYPE
+    && typeof payload.eventKey === 'string'
+    && Array.isArray(payload.votes)
+    && (payload.removedVoteIds === undefined || Array.isArray(payload.removedVoteIds));
+};
+
+/** Union of two removed-id lists. Anything that is not a string is dropped. */
+export const mergeRemovedPairwiseVoteIds = (existing: string[], incoming: unknown[]): string[] =>
+  Array.from(new Set([...existing, ...incoming].filter((id): id is string => typeof id === 'string')));
+
+/**
+ * Union of two vote sets by id, oldest first, without the votes in
+ * `removedIds`. Malformed votes are dropped.
+ */
+export const mergePairwiseVotes = (
+  existing: PairwiseVote[],
+  incoming: unknown[],
+  removedIds: Iterable<string> = []
+): PairwiseVote[] => {
+  const removed = new Set(removedIds);
+  const byId = new Map<string, PairwiseVote>();
+  [...existing, ...incoming].forEach((vote) => {
+    if (isPairwiseVote(vote) && !removed.has(vote.id) && !byId.has(vote.id)) byId.set(vote.id, vote);
+  });
+  return Array.from(byId.values()).sort((a, b) => a.createdAt - b.createdAt || a.id.localeCompare(b.id));
+};
+
+/** Merge another device's votes and removals into this one's */
+export const mergePairwiseVoteSets = (
+  existing: PairwiseVoteSet,
+  incoming: { votes: unknown[]; removedIds?: unknown[] }
+): PairwiseVoteSet => {
+  const removedIds = mergeRemovedPairwiseVoteIds(existing.removedIds, incoming.removedIds ?? []);
+  return { votes: mergePairwiseVotes(existing.votes, incoming.votes, removedIds), removedIds };
+};
+
+/** Take votes back, remembering their ids so merges do not restore them */
+export const removePairwiseVotes = (set: PairwiseVoteSet, ids: string[]): PairwiseVoteSet => {
+  const removedIds = mergeRemovedPairwiseVoteIds(set.removedIds, ids);
+  return { votes: mergePairwiseVotes(set.votes, [], removedIds), removedIds };
+};
+
+const readStoredArray = (key: string): unknown[] => {
+  try {
+    const raw = workspaceStorage.getItem(key);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+export const loadPairwiseVotes = (eventKey: string): PairwiseVoteSet => {
+  const removedIds = mergeRemovedPairwiseVoteIds([], readStoredArray(getRemovedPairwiseVotesStorageKey(eventKey)));
+  return {
+    votes: mergePairwiseVotes([], readStoredArray(getPairwiseVotesStorageKey(eventKey)), removedIds),
+    removedIds,
+  };
+};
+
+export const savePairwiseVotes = (eventKey: string, { votes, removedIds }: PairwiseVoteSet): void => {
+  const entries: [string, unknown[]][] = [
+    [getPairwiseVotesStorageKey(eventKey), votes],
+    [getRemovedPairwiseVotesStorageKey(eventKey), removedIds],
+  ];
+  entries.forEach(([key, values]) => {
+    if (values.length === 0) {
+      workspaceStorage.removeItem(key);
+    } else {
+      workspaceStorage.setItem(key, JSON.stringify(values));
+    }
+  });
+};
+
+export const buildPairwiseVotesTransferPayload = (
+  eventKey: string,
+  { votes, removedIds }: PairwiseVoteSet
+): PairwiseVotesTransferPayload => ({
+  type: PAIRWISE_VOTES_TRANSFER_TYPE,
+  eventKey,
+  exportedAt: Date.now(),
+  votes,
+  removedVoteIds: removedIds,
+});
+
+/** Standard normal CDF (Abramowitz & Stegun 7.1.26, error below 1.5e-7) */
+const normalCdf = (z: number): number => {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+/** Probability that a team rated `ratingA` is picked over one rated `ratingB` */
+export const getWinProbability = (ratingA: number, ratingB: number): number =>
+  1 / (1 + Math.pow(10, (ratingB - ratingA) / 400));
+
+/**
+ * Fit Bradley-Terry strengths to the votes with the MM algorithm (Hunter,
+ * 2004), and return the teams best first. Votes involving teams outside
+ * `teamNumbers` are ignored, so a shortlist can be ranked on its own.
+ */
+export const fitPairwiseRatings = (teamNumbers: number[], votes: PairwiseVote[]): PairwiseRating[] => {
+  const teams = Array.from(new Set(teamNumbers));
+  const index = new Map(teams.map((teamNumber, i) => [teamNumber, i]));
+  const wins = teams.map(() => 0);
+  const losses = teams.map(() => 0);
+  // Comparison counts per opponent, for each team
+  const opponents = teams.map(() => new Map<number, number>());
+
+  votes.forEach((vote) => {
+    const winner = index.get(vote.winner);
+    const loser = index.get(vote.loser);
+    if (winner === undefined || loser === undefined || winner === loser) return;
+    wins[winner]! += 1;
+    losses[loser]! += 1;
+    opponents[winner]!.set(loser, (opponents[winner]!.get(loser) ?? 0) + 1);
+    opponents[loser]!.set(winner, (opponents[loser]!.get(winner) ?? 0) + 1);
+  });
+
+  let strengths = teams.map(() => 1);
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const next = strengths.map((strength, i) => {
+      let denominator = PRIOR_GAMES / (strength + 1);
+      opponents[i]!.forEach((count, j) => {
+        denominator += count / (strength + strengths[j]!);
+      });
+      return (wins[i]! + PRIOR_GAMES / 2) / denominator;
+    });
+
+    const change = Math.max(0, ...next.map((strength, i) => Math.abs(Math.log(strength / strengths[i]!))));
+    strengths = next;
+    if (change < TOLERANCE) break;
+  }
+
+  const ratings = teams.map((teamNumber, i) => {
+    const strength = strengths[i]!;
+    const priorP = strength / (strength + 1);
+    let information = PRIOR_GAMES * priorP * (1 - priorP);
+    opponents[i]!.forEach((count, j) => {
+      const p = strength / (strength + strengths[j]!);
+      information += count * p * (1 - p);
+    });
+
+    return {
+      teamNumber,
+      rating: ELO_BASE + ELO_PER_NATURAL_LOG * Math.log(strength),
+      uncertainty: ELO_PER_NATURAL_LOG / Math.sqrt(information),
+      wins: wins[i]!,
+      losses: losses[i]!,
+      rank: 0,
+      confidenceAboveNext: null as number | null,
+    };
+  });
+
+  ratings.sort((a, b) => b.rating - a.rating || a.teamNumber - b.teamNumber);
+
+  return ratings.map((rating, i) => {
+    const below = ratings[i + 1];
+    return {
+      ...rating,
+      rank: i + 1,
+      confidenceAboveNext: below
+        ? normalCdf((rating.rating - below.rating) / Math.hypot(rating.uncertainty, below.uncertainty))
+        : null,
+    };
+  });
+};
+
+/** Mean confidence over adjacent pairs, a single "how settled is this order" figure */
+export const getRankingConfidence = (ratings: PairwiseRating[]): number | null => {
+  const confidences = ratings
+    .map(rating => rating.confidenceAboveNext)
+    .filter((confidence): confidence is number => confidence !== null);
+  if (confidences.length === 0) return null;
+  return confidences.reduce((sum, confidence) => sum + confidence, 0) / confidences.length;
+};
+
+/**
+ * The pair whose vote is expected to teach the most: teams that are close
+ * (p near 0.5) and still uncertain. Pairs already compared count for less
+ * so the same two teams do not come up over and over, and `excludedPairs`
+ * (skipped or just shown, see getPairKey) are left out unless nothing else
+ * remains. Ties go to teams with fewer votes, then to lower team numbers.
+ */
+export const selectNextPair = (
+  ratings: PairwiseRating[],
+  votes: PairwiseVote[],
+  excludedPairs: ReadonlySet<string> = new Set()
+): PairwisePair | null => {
+  if (ratings.length < 2) return null;
+
+  const pairCounts = new Map<string, number>();
+  votes.forEach((vote) => {
+    const key = getPairKey(vote.winner, vote.loser);
+    pairCounts.set(key, (pairCounts.get(key) ?? 0) + 1);
+  });
+
+  const byNumber = [...ratings].sort((a, b) => a.teamNumber - b.teamNumber);
+  let best: { pair: PairwisePair; score: number; votes: number; excluded: boolean } | null = null;
+
+  for (let i = 0; i < byNumber.length; i++) {
+    for (let j = i + 1; j < byNumber.length; j++) {
+      const a = byNumber[i]!;
+      const b = byNumber[j]!;
+      const key = getPairKey(a.teamNumber, b.teamNumber);
+      const p = getWinProbability(a.rating, b.rating);
+      const variance = a.uncertainty ** 2 + b.uncertainty ** 2;
+      const candidate = {
+        pair: { teamA: a.teamNumber, teamB: b.teamNumber },
+        score: (p * (1 - p) * variance) / (1 + (pairCounts.get(key) ?? 0)),
+        votes: a.wins + a.losses + b.wins + b.losses,
+        excluded: excludedPairs.has(key),
+      };
+
+      const isBetter = !best
+        || (best.excluded && !candidate.excluded)
+        || (best.excluded === candidate.excluded && (
+          candidate.score > best.score + 1e-9
+          || (Math.abs(candidate.score - best.score) <= 1e-9 && candidate.votes < best.votes)
+        ));
+      if (isBetter) best = candidate;
+    }
+  }
+
+  return best?.pair ?? null;
+};
@@ -1,4 +1,5 @@
 import type { PitAssignment } from '@/core/lib/pitAssignmentTypes';
+import { workspaceStorage } from '@/core/db/eventWorkspaceDatabase';
 
 const PIT_ASSIGNMENTS_KEY_PREFIX = 'pit_assignments_';
 const PIT_ASSIGNMENTS_META_KEY_PREFIX = 'pit_assignments_meta_';
@@ -72,7 +73,7 @@ const mergeAssignments = (existing: PitAssignment[], incoming: PitAssignment[]):
 };
 
 export const loadPitAssignmentsForEvent = (eventKey: string): PitAssignment[] => {
-  return parseJson<PitAssignment[]>(localStorage.getItem(getPitAssignmentsStorageKey(eventKey)), []);
+  return parseJson<PitAssignment[]>(workspaceStorage.getItem(getPitAssignmentsStorageKey(eventKey)), []);
 };
 
 export const loadMyPitAssignments = (eventKey: string, scoutName: string): PitAssignment[] => {
@@ -80,7 +81,7 @@ export const loadMyPitAssignments = (eventKey: string, scoutName: string): PitAs
   if (!normalizedScoutName) return [];
 
   const mineKey = getPitAssignmentsMineKey(eventKey, normalizedScoutName);
-  const storedMine = parseJson<PitAssignment[]>(localStorage.getItem(mineKey), []);
+  const storedMine = parseJson<PitAssignment[]>(workspaceStorage.getItem(mineKey), []);
 
   if (storedMine.length > 0) {
     return storedMine;
@@ -98,7 +99,7 @@ export const loadMyPitAssignments = (eventKey: string, scoutName: string): PitAs
 };
 
 const storePitAssignmentMeta = (eventKey: string, meta: PitAssignmentMeta) => {
-  localStorage.setItem(getPitAssignmentsMetaKey(eventKey), JSON.stringify(meta));
+  workspaceStorage.setItem(getPitAssignmentsMetaKey(eventKey), JSON.stringify(meta));
 };
 
 const storeMineAssignments = (eventKey: string, scoutName: string, assignments: PitAssignment[]) => {
@@ -106,7 +107,7 @@ const storeMineAssignments = (eventKey: string, scoutName: string, assignments:
   if (!normalizedScoutName) return;
 
   const mineKey = getPitAssignmentsMineKey(eventKey, normalizedScoutName);
-  localStorage.setItem(mineKey, JSON.stringify(assignments));
+  workspaceStorage.setItem(mineKey, JSON.stringify(assignments));
 };
 
 export const buildPitAssignmentsTransferPayload = (
@@ -157,7 +158,7 @@ export const importPitAssignmentsPayload = (
     localStorage.setItem('eventName', payload.eventKey);
   }
 
-  localStorage.setItem(getPitAssignmentsStorageKey(payload.eventKey), JSON.stringify(nextAssignments));
+  workspaceStorage.setItem(getPitAssignmentsStorageKey(payload.eventKey), JSON.stringify(nextAssignments));
 
   const myAssignments = nextAssignments.filter(
     (assignment) => normalizeScoutName(assignment.scoutName) === normalizeScoutName(currentScoutName)
@@ -213,7 +214,7 @@ export const markPitAssignmentCompleted = (
     return false;
   }
 
-  localStorage.setItem(getPitAssignmentsStorageKey(eventKey), JSON.stringify(nextAssignments));
+  workspaceStorage.setItem(getPitAssignmentsStorageKey(eventKey), JSON.stringify(nextAssignments));
 
   const myAssignments = nextAssignments.filter(
     (assignment) => normalizeScoutName(assignment.scoutName) === normalizedScoutName
@@ -224,7 +225,7 @@ export const markPitAssignmentCompleted = (
 };
 
 export const getPitAssignmentMeta = (eventKey: string): { lastSyncedAt: number; sourceScoutName: string } | null => {
-  const raw = parseJson<PitAssignmentMeta | null>(localStorage.getItem(getPitAssignmentsMetaKey(eventKey)), null);
+  const raw = parseJson<PitAssignmentMeta | null>(workspaceStorage.getItem(getPitAssignmentsMetaKey(eventKey)), null);
   if (!raw) return null;
   return {
     lastSyncedAt: raw.lastSyncedAt,
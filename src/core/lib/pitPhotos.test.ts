@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import type { PitScoutingEntryBase } from '@/core/types/pit-scouting';
+import {
+  blobToDataUrl,
+  dataUrlToBlob,
+  deserializePitPhoto,
+  getScaledDimensions,
+  isPitPhotoManifest,
+  isPitPhotoTransferPayload,
+  legacyRobotPhotoToPitPhoto,
+  selectPhotosMissingFrom,
+  selectPhotosMissingFromAny,
+  sortPitPhotos,
+  type SerializedPitPhoto,
+} from './pitPhotos';
+
+const PNG_DATA_URL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==';
+
+const serializedPhoto = (overrides: Partial<SerializedPitPhoto> = {}): SerializedPitPhoto => ({
+  id: 'photo-1',
+  teamNumber: 3314,
+  eventKey: '2026mrcmp',
+  tag: 'intake',
+  image: PNG_DATA_URL,
+  annotations: [],
+  takenBy: 'Alice',
+  createdAt: 100,
+  updatedAt: 200,
+  ...overrides,
+});
+
+describe('pit photo encoding', () => {
+  it('round-trips a data URL through a Blob', async () => {
+    const blob = dataUrlToBlob(PNG_DATA_URL);
+
+    expect(blob?.type).toBe('image/png');
+    expect(await blobToDataUrl(blob!)).toBe(PNG_DATA_URL);
+  });
+
+  it('rejects strings that are not data URLs', () => {
+    expect(dataUrlToBlob('https://example.com/robot.jpg')).toBeNull();
+    expect(dataUrlToBlob('data:image/png;base64,***')).toBeNull();
+  });
+
+  it('scales the longest side down and leaves small images alone', () => {
+    expect(getScaledDimensions(4000, 3000, 1600)).toEqual({ width: 1600, height: 1200 });
+    expect(getScaledDimensions(1080, 1920, 1600)).toEqual({ width: 900, height: 1600 });
+    expect(getScaledDimensions(800, 600, 1600)).toEqual({ width: 800, height: 600 });
+  });
+});
+
+describe('legacyRobotPhotoToPitPhoto', () => {
+  const entry: PitScoutingEntryBase = {
+    id: 'pit-3314-2026mrcmp-1',
+    teamNumber: 3314,
+    eventKey: '2026mrcmp',
+    scoutName: 'Alice',
+    timestamp: 1234,
+    robotPhoto: PNG_DATA_URL,
+    gameData: {},
+  };
+
+  it('converts a base64 robot photo with an id derived from the entry', () => {
+    const photo = legacyRobotPhotoToPitPhoto(entry);
+
+    expect(photo).toMatchObject({
+      id: 'photo-legacy-pit-3314-2026mrcmp-1',
+      teamNumber: 3314,
+      eventKey: '2026mrcmp',
+      tag: 'robot',
+      takenBy: 'Alice',
+      updatedAt: 1234,
+    });
+    expect(photo?.image.type).toBe('image/png');
+  });
+
+  it('skips entries without a usable photo', () => {
+    expect(legacyRobotPhotoToPitPhoto({ ...entry, robotPhoto: undefined })).toBeNull();
+    expect(legacyRobotPhotoToPitPhoto({ ...entry, robotPhoto: 'https://example.com/robot.jpg' })).toBeNull();
+  });
+});
+
+describe('photo manifests', () => {
+  const photos = [
+    { id: 'a', updatedAt: 10 },
+    { id: 'b', updatedAt: 20 },
+    { id: 'c', updatedAt: 30 },
+  ];
+
+  it('selects photos the peer lacks or has an older copy of', () => {
+    const missing = selectPhotosMissingFrom(photos, { a: 10, b: 15 });
+
+    expect(missing.map(photo => photo.id)).toEqual(['b', 'c']);
+  });
+
+  it('selects photos any peer lacks', () => {
+    const missing = selectPhotosMissingFromAny(photos, [
+      { a: 10, b: 20, c: 30 },
+      { a: 10, b: 20 },
+    ]);
+
+    expect(missing.map(photo => photo.id)).toEqual(['c']);
+  });
+
+  it('sends everything when no peer manifests are known', () => {
+    expect(selectPhotosMissingFromAny(photos, [])).toHaveLength(3);
+  });
+
+  it('accepts only id to timestamp maps as reported manifests', () => {
+    expect(isPitPhotoManifest({ a: 10, b: 20 })).toBe(true);
+    expect(isPitPhotoManifest({})).toBe(true);
+    expect(isPitPhotoManifest({ a: '10' })).toBe(false);
+    expect(isPitPhotoManifest([10])).toBe(false);
+    expect(isPitPhotoManifest(null)).toBe(false);
+  });
+});
+
+describe('pit photo payloads', () => {
+  it('recognizes valid payloads only', () => {
+    expect(isPitPhotoTransferPayload({ type: 'pit-photos', version: 1, exportedAt: 1, photos: [serializedPhoto()] })).toBe(true);
+    expect(isPitPhotoTransferPayload({ type: 'pit-photos', photos: [{ id: 'photo-1' }] })).toBe(false);
+    expect(isPitPhotoTransferPayload({ entries: [] })).toBe(false);
+  });
+
+  it('falls back to safe defaults for unknown tags and annotations', () => {
+    const photo = deserializePitPhoto(serializedPhoto({
+      tag: 'bumper' as SerializedPitPhoto['tag'],
+      annotations: undefined as unknown as SerializedPitPhoto['annotations'],
+    }));
+
+    expect(photo?.tag).toBe('other');
+    expect(photo?.annotations).toEqual([]);
+    expect(photo?.image).toBeInstanceOf(Blob);
+  });
+
+  it('drops photos whose image cannot be decoded', () => {
+    expect(deserializePitPhoto(serializedPhoto({ image: 'not-a-data-url' }))).toBeNull();
+  });
+});
+
+describe('sortPitPhotos', () => {
+  it('orders by tag, then oldest first', () => {
+    const sorted = sortPitPhotos([
+      { id: '1', tag: 'climber' as const, createdAt: 1 },
+      { id: '2', tag: 'robot' as const, createdAt: 5 },
+      { id: '3', tag: 'robot' as const, createdAt: 2 },
+      { id: '4', tag: 'intake' as const, createdAt: 3 },
+    ]);
+
+    expect(sorted.map(photo => photo.id)).toEqual(['3', '2', '4', '1']);
+  });
+});
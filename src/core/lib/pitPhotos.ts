@@ -0,0 +1,417 @@
+/**
+ * Pit scouting photos
+ *
+ * Photos are stored as Blobs in their own table (see PitScoutingDB.pitPhotos)
+ * instead of a base64 `robotPhoto` string on the pit entry, so entries stay
+ * small and a team can have several tagged photos.
+ *
+ * Photos are resized and re-encoded (WebP, or JPEG where WebP encoding is not
+ * supported) to a target size when captured, with a small thumbnail for lists.
+ * Annotations are whiteboard elements (strokes, arrows, labels) positioned as
+ * fractions of the photo, drawn over the image rather than baked into it.
+ *
+ * Transfers exchange a manifest (photo id → updatedAt) so only photos the
+ * other device lacks, or has an older version of, are sent.
+ */
+
+import type { PitScoutingEntryBase } from '@/core/types/pit-scouting';
+import {
+  drawWhiteboardElements,
+  type WhiteboardArrow,
+  type WhiteboardStroke,
+  type WhiteboardText,
+} from './strategyWhiteboard';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PitPhotoTag = 'robot' | 'intake' | 'drivetrain' | 'climber' | 'other';
+
+export const PIT_PHOTO_TAGS: ReadonlyArray<{ id: PitPhotoTag; label: string }> = [
+  { id: 'robot', label: 'Full Robot' },
+  { id: 'intake', label: 'Intake' },
+  { id: 'drivetrain', label: 'Drivetrain' },
+  { id: 'climber', label: 'Climber' },
+  { id: 'other', label: 'Other' },
+];
+
+export type PitPhotoAnnotation = WhiteboardStroke | WhiteboardArrow | WhiteboardText;
+
+export interface PitPhoto {
+  id: string;                    // "photo-{teamNumber}-{eventKey}-{timestamp}-{random}"
+  teamNumber: number;
+  eventKey: string;
+  tag: PitPhotoTag;
+  caption?: string;
+  image: Blob;
+  /** Missing for photos moved over from a legacy robotPhoto */
+  thumbnail?: Blob;
+  /** Positions are fractions of the photo, sizes fractions of its width */
+  annotations: PitPhotoAnnotation[];
+  takenBy: string;
+  createdAt: number;
+  /** Bumped on every edit so transfers can tell which copy is newer */
+  updatedAt: number;
+}
+
+/** Photo id → updatedAt of the copy a device holds */
+export type PitPhotoManifest = Record<string, number>;
+
+/** A photo with its images as data URLs, for JSON and peer transfers */
+export type SerializedPitPhoto = Omit<PitPhoto, 'image' | 'thumbnail'> & {
+  image: string;
+  thumbnail?: string;
+};
+
+export interface PitPhotoTransferPayload {
+  type: 'pit-photos';
+  version: 1;
+  exportedAt: number;
+  photos: SerializedPitPhoto[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const MAX_PHOTO_SOURCE_SIZE_BYTES = 12 * 1024 * 1024;
+const MAX_PHOTO_DIMENSION = 1600;
+const TARGET_PHOTO_SIZE_BYTES = 300 * 1024;
+const THUMBNAIL_DIMENSION = 240;
+const INITIAL_QUALITY = 0.8;
+const MIN_QUALITY = 0.45;
+const QUALITY_STEP = 0.07;
+const THUMBNAIL_QUALITY = 0.6;
+
+const PEER_MANIFESTS_STORAGE_KEY = 'pitPhotoPeerManifests';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export const isPitPhotoTag = (value: unknown): value is PitPhotoTag =>
+  PIT_PHOTO_TAGS.some(tag => tag.id === value);
+
+export const getPitPhotoTagLabel = (tag: PitPhotoTag): string =>
+  PIT_PHOTO_TAGS.find(option => option.id === tag)?.label ?? tag;
+
+export const createPitPhotoId = (teamNumber: number, eventKey: string, now = Date.now()): string =>
+  `photo-${teamNumber}-${eventKey}-${now}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const getScaledDimensions = (width: number, height: number, maxDimension: number) => {
+  const longestSide = Math.max(width, height);
+  if (longestSide <= maxDimension) {
+    return { width, height };
+  }
+
+  const scale = maxDimension / longestSide;
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+};
+
+/** Photos are listed by tag (in PIT_PHOTO_TAGS order), then oldest first */
+export const sortPitPhotos = <T extends Pick<PitPhoto, 'tag' | 'createdAt'>>(photos: T[]): T[] => {
+  const tagOrder = (tag: PitPhotoTag) => PIT_PHOTO_TAGS.findIndex(option => option.id === tag);
+  return [...photos].sort((a, b) => tagOrder(a.tag) - tagOrder(b.tag) || a.createdAt - b.createdAt);
+};
+
+export const dataUrlToBlob = (dataUrl: string): Blob | null => {
+  const match = /^data:([^;,]+)?(;base64)?,(.*)$/s.exec(dataUrl);
+  if (!match) return null;
+
+  const [, mimeType = 'application/octet-stream', isBase64, data = ''] = match;
+  try {
+    if (!isBase64) {
+      return new Blob([decodeURIComponent(data)], { type: mimeType });
+    }
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: mimeType });
+  } catch {
+    return null;
+  }
+};
+
+export const blobToDataUrl = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // String.fromCharCode has an argument limit, so convert in chunks
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${blob.type || 'application/octet-stream'};base64,${btoa(binary)}`;
+};
+
+/**
+ * Turn a legacy base64 robotPhoto into a photo record. The id is derived from
+ * the entry so running the migration twice (or on two devices) yields one photo.
+ */
+export const legacyRobotPhotoToPitPhoto = (entry: PitScoutingEntryBase): PitPhoto | null => {
+  if (!entry.robotPhoto) return null;
+  const image = dataUrlToBlob(entry.robotPhoto);
+  if (!image) return null;
+
+  return {
+    id: `photo-legacy-${entry.id}`,
+    teamNumber: entry.teamNumber,
+    eventKey: entry.eventKey,
+    tag: 'robot',
+    image,
+    annotations: [],
+    takenBy: entry.scoutName,
+    createdAt: entry.timestamp,
+    updatedAt: entry.timestamp,
+  };
+};
+
+// ============================================================================
+// MANIFESTS & TRANSFER
+// ============================================================================
+
+export const buildPitPhotoManifest = (photos: Array<Pick<PitPhoto, 'id' | 'updatedAt'>>): PitPhotoManifest =>
+  Object.fromEntries(photos.map(photo => [photo.id, photo.updatedAt]));
+
+const isMissingFrom = (manifest: PitPhotoManifest, photo: Pick<PitPhoto, 'id' | 'updatedAt'>) => {
+  const known = manifest[photo.id];
+  return known === undefined || known < photo.updatedAt;
+};
+
+/** Photos a device with the given manifest does not have, or has an older copy of */
+export const selectPhotosMissingFrom = <T extends Pick<PitPhoto, 'id' | 'updatedAt'>>(
+  photos: T[],
+  manifest: PitPhotoManifest
+): T[] => photos.filter(photo => isMissingFrom(manifest, photo));
+
+/**
+ * Photos at least one of several devices lacks. Used when one payload goes to
+ * every connected device.
+ */
+export const selectPhotosMissingFromAny = <T extends Pick<PitPhoto, 'id' | 'updatedAt'>>(
+  photos: T[],
+  manifests: PitPhotoManifest[]
+): T[] => {
+  if (manifests.length === 0) return photos;
+  return photos.filter(photo => manifests.some(manifest => isMissingFrom(manifest, photo)));
+};
+
+export const serializePitPhoto = async (photo: PitPhoto): Promise<SerializedPitPhoto> => ({
+  ...photo,
+  image: await blobToDataUrl(photo.image),
+  thumbnail: photo.thumbnail ? await blobToDataUrl(photo.thumbnail) : undefined,
+});
+
+export const deserializePitPhoto = (photo: SerializedPitPhoto): PitPhoto | null => {
+  const image = dataUrlToBlob(photo.image);
+  if (!image) return null;
+
+  return {
+    ...photo,
+    tag: isPitPhotoTag(photo.tag) ? photo.tag : 'other',
+    annotations: Array.isArray(photo.annotations) ? photo.annotations : [],
+    image,
+    thumbnail: photo.thumbnail ? dataUrlToBlob(photo.thumbnail) ?? undefined : undefined,
+  };
+};
+
+export const createPitPhotoTransferPayload = (photos: SerializedPitPhoto[]): PitPhotoTransferPayload => ({
+  type: 'pit-photos',
+  version: 1,
+  exportedAt: Date.now(),
+  photos,
+});
+
+const isSerializedPitPhoto = (value: unknown): value is SerializedPitPhoto => {
+  if (!value || typeof value !== 'object') return false;
+  const photo = value as Record<string, unknown>;
+  return typeof photo.id === 'string'
+    && typeof photo.teamNumber === 'number'
+    && typeof photo.eventKey === 'string'
+    && typeof photo.image === 'string'
+    && typeof photo.updatedAt === 'number';
+};
+
+export const isPitPhotoTransferPayload = (value: unknown): value is PitPhotoTransferPayload => {
+  if (!value || typeof value !== 'object') return false;
+  const data = value as Record<string, unknown>;
+  return data.type === 'pit-photos'
+    && Array.isArray(data.photos)
+    && data.photos.every(isSerializedPitPhoto);
+};
+
+/**
+ * Photos a peer is known to hold: ones received from it, plus the manifest it
+ * reports after importing a push. Pushed photos are not recorded when sent,
+ * since the peer may decline them or the transfer may fail. Lets a push skip
+ * photos every connected device already has.
+ */
+const loadPeerManifests = (): Record<string, PitPhotoManifest> => {
+  try {
+    const stored = localStorage.getItem(PEER_MANIFESTS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) as Record<string, PitPhotoManifest> : {};
+  } catch {
+    return {};
+  }
+};
+
+export const isPitPhotoManifest = (value: unknown): value is PitPhotoManifest =>
+  !!value
+  && typeof value === 'object'
+  && !Array.isArray(value)
+  && Object.values(value).every(updatedAt => typeof updatedAt === 'number');
+
+export const getPeerPhotoManifest = (peerName: string): PitPhotoManifest =>
+  loadPeerManifests()[peerName.trim().toLowerCase()] ?? {};
+
+export const rememberPeerPhotos = (peerName: string, photos: Array<Pick<PitPhoto, 'id' | 'updatedAt'>>): void => {
+  if (photos.length === 0) return;
+  const manifests = loadPeerManifests();
+  const key = peerName.trim().toLowerCase();
+  manifests[key] = { ...manifests[key], ...buildPitPhotoManifest(photos) };
+  localStorage.setItem(PEER_MANIFESTS_STORAGE_KEY, JSON.stringify(manifests));
+};
+
+/** Replace what we know about a peer with the manifest it reported itself */
+export const setPeerPhotoManifest = (peerName: string, manifest: PitPhotoManifest): void => {
+  const manifests = loadPeerManifests();
+  manifests[peerName.trim().toLowerCase()] = manifest;
+  localStorage.setItem(PEER_MANIFESTS_STORAGE_KEY, JSON.stringify(manifests));
+};
+
+// ============================================================================
+// IMAGE PROCESSING (browser only)
+// ============================================================================
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> =>
+  new Promise(resolve => canvas.toBlob(resolve, type, quality));
+
+/**
+ * Encode as WebP, stepping quality down until the target size is reached.
+ * Browsers that cannot encode WebP return PNG from toBlob, so fall back to JPEG.
+ */
+const encodeCanvas = async (
+  canvas: HTMLCanvasElement,
+  targetBytes: number,
+  initialQuality: number
+): Promise<Blob> => {
+  let type = 'image/webp';
+  let quality = initialQuality;
+  let blob = await canvasToBlob(canvas, type, quality);
+
+  if (!blob || blob.type !== type) {
+    type = 'image/jpeg';
+    blob = await canvasToBlob(canvas, type, quality);
+  }
+
+  while (blob && blob.size > targetBytes && quality > MIN_QUALITY) {
+    quality = Math.max(MIN_QUALITY, quality - QUALITY_STEP);
+    blob = await canvasToBlob(canvas, type, quality);
+  }
+
+  if (!blob) {
+    throw new Error('Failed to encode photo.');
+  }
+  return blob;
+};
+
+const drawScaled = (
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  maxDimension: number
+): HTMLCanvasElement => {
+  const { width, height } = getScaledDimensions(sourceWidth, sourceHeight, maxDimension);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Failed to prepare photo canvas.');
+  }
+  context.drawImage(source, 0, 0, width, height);
+  return canvas;
+};
+
+/** Resize and re-encode a captured frame or uploaded image, with a thumbnail */
+export const processPitPhoto = async (
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number
+): Promise<{ image: Blob; thumbnail: Blob }> => {
+  const image = await encodeCanvas(
+    drawScaled(source, sourceWidth, sourceHeight, MAX_PHOTO_DIMENSION),
+    TARGET_PHOTO_SIZE_BYTES,
+    INITIAL_QUALITY
+  );
+  const thumbnail = await encodeCanvas(
+    drawScaled(source, sourceWidth, sourceHeight, THUMBNAIL_DIMENSION),
+    Number.POSITIVE_INFINITY,
+    THUMBNAIL_QUALITY
+  );
+  return { image, thumbnail };
+};
+
+export const loadImageFromBlob = (blob: Blob): Promise<HTMLImageElement> => {
+  const url = URL.createObjectURL(blob);
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to load photo.'));
+    };
+    image.src = url;
+  });
+};
+
+/**
+ * Draw annotations over a photo of the given size. Annotations go on their
+ * own layer first so eraser strokes remove ink without cutting into the photo.
+ */
+export const drawPitPhotoAnnotations = (
+  ctx: CanvasRenderingContext2D,
+  annotations: PitPhotoAnnotation[],
+  width: number,
+  height: number
+): void => {
+  if (annotations.length === 0) return;
+
+  const layer = document.createElement('canvas');
+  layer.width = width;
+  layer.height = height;
+  const layerContext = layer.getContext('2d');
+  if (!layerContext) return;
+
+  drawWhiteboardElements(layerContext, annotations, width, height);
+  ctx.drawImage(layer, 0, 0);
+};
+
+/** Full-size photo with its annotations, for downloads and handouts */
+export const renderAnnotatedPitPhoto = async (photo: PitPhoto): Promise<Blob> => {
+  const image = await loadImageFromBlob(photo.image);
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Failed to prepare photo canvas.');
+  }
+  context.drawImage(image, 0, 0);
+  drawPitPhotoAnnotations(context, photo.annotations, canvas.width, canvas.height);
+
+  const blob = await canvasToBlob(canvas, 'image/jpeg', 0.9);
+  if (!blob) {
+    throw new Error('Failed to render photo.');
+  }
+  return blob;
+};
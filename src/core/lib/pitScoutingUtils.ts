@@ -7,8 +7,20 @@ import {
   loadPitScoutingByEvent,
   deletePitScoutingEntry as dbDeletePitScoutingEntry,
   clearAllPitScoutingData as dbClearAllPitScoutingData,
-  getPitScoutingStats as dbGetPitScoutingStats
+  getPitScoutingStats as dbGetPitScoutingStats,
+  loadAllPitPhotos,
+  importPitPhotos,
 } from '../db/database';
+import {
+  createPitPhotoTransferPayload,
+  deserializePitPhoto,
+  selectPhotosMissingFrom,
+  serializePitPhoto,
+  type PitPhoto,
+  type PitPhotoManifest,
+  type PitPhotoTransferPayload,
+} from './pitPhotos';
+import { filterPitScoutingEntries, type DataFilters } from './dataFiltering';
 
 // Type alias for convenience - uses the database schema type
 export type PitScoutingEntry = PitScoutingEntryBase;
@@ -202,7 +214,8 @@ export const downloadPitScoutingDataWithImages = async (): Promise<void> => {
       throw new Error('No pit scouting data found');
     }
 
-    const jsonString = JSON.stringify(pitScoutingData, null, 2);
+    const { photos } = await exportPitPhotoPayload();
+    const jsonString = JSON.stringify({ ...pitScoutingData, photos }, null, 2);
     const blob = new Blob([jsonString], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
 
@@ -219,34 +232,42 @@ export const downloadPitScoutingDataWithImages = async (): Promise<void> => {
   }
 };
 
-// Download only images from pit scouting data
-export const downloadPitScoutingImagesOnly = async (): Promise<void> => {
-  try {
-    const pitScoutingData = await loadPitScoutingData();
+// Serialize stored photos for transfer, optionally only those a peer lacks
+export const exportPitPhotoPayload = async (options: {
+  missingFrom?: PitPhotoManifest;
+  filters?: DataFilters;
+} = {}): Promise<PitPhotoTransferPayload> => {
+  let photos: PitPhoto[] = await loadAllPitPhotos();
+  if (options.filters) {
+    photos = filterPitScoutingEntries(photos, options.filters);
+  }
+  if (options.missingFrom) {
+    photos = selectPhotosMissingFrom(photos, options.missingFrom);
+  }
+  return createPitPhotoTransferPayload(await Promise.all(photos.map(serializePitPhoto)));
+};
 
-    if (pitScoutingData.entries.length === 0) {
-      throw new Error('No pit scouting data found');
-    }
+// Store photos from a transfer payload, keeping whichever copy is newer
+export const importPitPhotoPayload = async (
+  payload: PitPhotoTransferPayload
+): Promise<{ added: number; updated: number; skipped: number; invalid: number }> => {
+  const photos = payload.photos
+    .map(deserializePitPhoto)
+    .filter((photo): photo is PitPhoto => photo !== null);
+  const result = await importPitPhotos(photos);
+  return { ...result, invalid: payload.photos.length - photos.length };
+};
 
-    // Filter entries to only include those with images and minimal identifying data
-    const imagesOnlyData = {
-      type: 'pit-scouting-images-only',
-      lastUpdated: pitScoutingData.lastUpdated,
-      entries: pitScoutingData.entries
-        .filter(entry => entry.robotPhoto) // Only entries with images
-        .map(entry => ({
-          teamNumber: entry.teamNumber,
-          eventKey: entry.eventKey,
-          robotPhoto: entry.robotPhoto,
-          timestamp: entry.timestamp // For conflict resolution
-        }))
-    };
+// Download pit scouting photos (with annotations) as a JSON file
+export const downloadPitScoutingImagesOnly = async (): Promise<void> => {
+  try {
+    const payload = await exportPitPhotoPayload();
 
-    if (imagesOnlyData.entries.length === 0) {
-      throw new Error('No images found in pit scouting data');
+    if (payload.photos.length === 0) {
+      throw new Error('No pit scouting photos found');
     }
 
-    const jsonString = JSON.stringify(imagesOnlyData, null, 2);
+    const jsonString = JSON.stringify(payload);
     const blob = new Blob([jsonString], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
 
@@ -342,6 +363,12 @@ export const exportPitScoutingToCSV = async (excludedFields: string[] = []): Pro
     return '';
   }
 
+  const photoCounts = new Map<string, number>();
+  (await loadAllPitPhotos()).forEach(photo => {
+    const key = `${photo.teamNumber}-${photo.eventKey}`;
+    photoCounts.set(key, (photoCounts.get(key) ?? 0) + 1);
+  });
+
   const shouldExcludeField = (fieldPath: string): boolean => {
     return excludedFields.some(excluded =>
       fieldPath === excluded || fieldPath.startsWith(`${excluded}.`)
@@ -390,7 +417,7 @@ export const exportPitScoutingToCSV = async (excludedFields: string[] = []): Pro
     'Weight (lbs)',
     'Drivetrain',
     'Programming Language',
-    'Robot Photo',
+    'Photos',
     'Notes',
     ...sortedGameDataKeys // Add all game data fields as columns
   ];
@@ -425,7 +452,7 @@ export const exportPitScoutingToCSV = async (excludedFields: string[] = []): Pro
       entry.weight?.toString() || '',
       entry.drivetrain || '',
       entry.programmingLanguage || '',
-      entry.robotPhoto ? 'Has Image' : 'No Image',
+      String(photoCounts.get(`${entry.teamNumber}-${entry.eventKey}`) ?? 0),
       entry.notes || ''
     ];
 
@@ -446,7 +473,7 @@ export const exportPitScoutingToCSV = async (excludedFields: string[] = []): Pro
   ).join('\n');
 };
 
-// Import images-only data and merge with existing pit scouting entries
+// Import a legacy images-only file (one base64 robotPhoto per team) into pit scouting entries
 export const importPitScoutingImagesOnly = async (
   imagesData: {
     type: string;
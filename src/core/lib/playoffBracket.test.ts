@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildPlayoffBracket,
+  findAllianceNumber,
+  getPlayoffOutlook,
+  type PlayoffMatchInput,
+} from './playoffBracket';
+
+// Alliance n is teams n01, n02, n03
+const ALLIANCES = Array.from({ length: 8 }, (_, index) => [1, 2, 3].map(pick => (index + 1) * 100 + pick));
+
+const teamKeys = (allianceNumber: number) => ALLIANCES[allianceNumber - 1]!.map(teamNumber => `frc${teamNumber}`);
+
+const playoffMatch = (
+  setNumber: number,
+  red: number,
+  blue: number,
+  winner: 'red' | 'blue' | '',
+  compLevel = 'sf',
+  matchNumber = 1
+): PlayoffMatchInput => ({
+  comp_level: compLevel,
+  set_number: setNumber,
+  match_number: matchNumber,
+  alliances: {
+    red: { score: winner === '' ? -1 : winner === 'red' ? 100 : 50, team_keys: teamKeys(red) },
+    blue: { score: winner === '' ? -1 : winner === 'blue' ? 100 : 50, team_keys: teamKeys(blue) },
+  },
+  winning_alliance: winner,
+});
+
+const ROUND_ONE = [
+  playoffMatch(1, 1, 8, 'red'),
+  playoffMatch(2, 4, 5, 'red'),
+  playoffMatch(3, 2, 7, 'red'),
+  playoffMatch(4, 3, 6, 'red'),
+];
+
+describe('buildPlayoffBracket', () => {
+  it('seeds round one and sends winners and losers on', () => {
+    const bracket = buildPlayoffBracket(ALLIANCES, ROUND_ONE);
+    const byId = new Map(bracket.matches.map(match => [match.id, match]));
+
+    expect(byId.get(1)).toMatchObject({ red: 1, blue: 8, winner: 1, loser: 8 });
+    expect(byId.get(5)).toMatchObject({ red: 8, blue: 5, winner: null });
+    expect(byId.get(7)).toMatchObject({ red: 1, blue: 4 });
+    expect(byId.get(14)).toMatchObject({ red: null, blue: null });
+    expect(bracket.champion).toBeNull();
+  });
+
+  it('needs two finals wins and ignores tied replays', () => {
+    const bracket = buildPlayoffBracket(ALLIANCES, [
+      playoffMatch(1, 2, 6, 'blue', 'f', 1),
+      playoffMatch(1, 2, 6, '', 'f', 2),
+      playoffMatch(1, 2, 6, 'red', 'f', 3),
+      playoffMatch(1, 2, 6, 'red', 'f', 4),
+    ]);
+
+    expect(bracket.matches.at(-1)).toMatchObject({ red: 2, blue: 6, redWins: 2, blueWins: 1, winner: 2 });
+    expect(bracket.champion).toBe(2);
+  });
+});
+
+describe('getPlayoffOutlook', () => {
+  it('names the next opponent, or who it could be', () => {
+    expect(getPlayoffOutlook(buildPlayoffBracket(ALLIANCES, []), 5)).toMatchObject({
+      status: 'upcoming',
+      color: 'blue',
+      opponent: 4,
+    });
+
+    const afterMatchOne = buildPlayoffBracket(ALLIANCES, ROUND_ONE.slice(0, 1));
+    expect(getPlayoffOutlook(afterMatchOne, 1)).toMatchObject({
+      status: 'upcoming',
+      match: expect.objectContaining({ id: 7 }),
+      opponent: null,
+      possibleOpponents: [4, 5],
+    });
+  });
+
+  it('tracks the lower bracket and elimination', () => {
+    const afterRoundTwo = buildPlayoffBracket(ALLIANCES, [
+      ...ROUND_ONE,
+      playoffMatch(5, 8, 5, 'blue'),
+    ]);
+
+    expect(getPlayoffOutlook(afterRoundTwo, 5)).toMatchObject({
+      status: 'upcoming',
+      match: expect.objectContaining({ id: 10 }),
+      possibleOpponents: [2, 3],
+    });
+    expect(getPlayoffOutlook(afterRoundTwo, 8).status).toBe('eliminated');
+    expect(getPlayoffOutlook(afterRoundTwo, null).status).toBe('not-in-bracket');
+  });
+
+  it('finds the alliance a team plays for', () => {
+    expect(findAllianceNumber(ALLIANCES, 302)).toBe(3);
+    expect(findAllianceNumber(ALLIANCES, 999)).toBeNull();
+  });
+});
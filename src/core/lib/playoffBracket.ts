@@ -0,0 +1,271 @@
+/**
+ * Playoff bracket - the eight-alliance double-elimination bracket FRC has
+ * used since 2023, filled in from TBA playoff matches.
+ *
+ * TBA files bracket matches as sf{1-13}m1 and the finals as f1m{1-3}. Which
+ * alliance plays where is read from the teams on each match when TBA has
+ * them, and otherwise follows the bracket from earlier results, so the view
+ * still works with a cached schedule and no network.
+ */
+
+import { teamKeyToNumber } from './eventStandings';
+
+export type PlayoffColor = 'red' | 'blue';
+
+type BracketSource =
+  | { seed: number }
+  | { winnerOf: number }
+  | { loserOf: number };
+
+interface BracketSlot {
+  id: number;
+  label: string;
+  round: string;
+  bracket: 'upper' | 'lower' | 'finals';
+  red: BracketSource;
+  blue: BracketSource;
+  bestOf: number;
+}
+
+export const PLAYOFF_FINALS_ID = 14;
+
+const slot = (
+  id: number,
+  round: string,
+  bracket: BracketSlot['bracket'],
+  red: BracketSource,
+  blue: BracketSource
+): BracketSlot => ({ id, label: `Match ${id}`, round, bracket, red, blue, bestOf: 1 });
+
+const DOUBLE_ELIMINATION_SLOTS: readonly BracketSlot[] = [
+  slot(1, 'Round 1', 'upper', { seed: 1 }, { seed: 8 }),
+  slot(2, 'Round 1', 'upper', { seed: 4 }, { seed: 5 }),
+  slot(3, 'Round 1', 'upper', { seed: 2 }, { seed: 7 }),
+  slot(4, 'Round 1', 'upper', { seed: 3 }, { seed: 6 }),
+  slot(5, 'Round 2', 'lower', { loserOf: 1 }, { loserOf: 2 }),
+  slot(6, 'Round 2', 'lower', { loserOf: 3 }, { loserOf: 4 }),
+  slot(7, 'Round 2', 'upper', { winnerOf: 1 }, { winnerOf: 2 }),
+  slot(8, 'Round 2', 'upper', { winnerOf: 3 }, { winnerOf: 4 }),
+  slot(9, 'Round 3', 'lower', { loserOf: 7 }, { winnerOf: 6 }),
+  slot(10, 'Round 3', 'lower', { loserOf: 8 }, { winnerOf: 5 }),
+  slot(11, 'Round 4', 'upper', { winnerOf: 7 }, { winnerOf: 8 }),
+  slot(12, 'Round 4', 'lower', { winnerOf: 10 }, { winnerOf: 9 }),
+  slot(13, 'Round 5', 'lower', { loserOf: 11 }, { winnerOf: 12 }),
+  {
+    id: PLAYOFF_FINALS_ID,
+    label: 'Finals',
+    round: 'Finals',
+    bracket: 'finals',
+    red: { winnerOf: 11 },
+    blue: { winnerOf: 13 },
+    bestOf: 3,
+  },
+];
+
+/**
+ * The parts of a TBA match the bracket reads; TBAMatch and TBAMatchData both fit
+ */
+export interface PlayoffMatchInput {
+  comp_level: string;
+  set_number: number;
+  match_number: number;
+  alliances: {
+    red: { score: number; team_keys: string[] };
+    blue: { score: number; team_keys: string[] };
+  };
+  winning_alliance: string;
+}
+
+export interface PlayoffBracketMatch {
+  id: number;
+  label: string;
+  round: string;
+  bracket: BracketSlot['bracket'];
+  /** Alliance numbers, null until known */
+  red: number | null;
+  blue: number | null;
+  redWins: number;
+  blueWins: number;
+  winner: number | null;
+  loser: number | null;
+}
+
+export interface PlayoffBracket {
+  matches: PlayoffBracketMatch[];
+  champion: number | null;
+}
+
+const getSlotMatches = (bracketSlot: BracketSlot, matches: readonly PlayoffMatchInput[]): PlayoffMatchInput[] =>
+  matches
+    .filter(match => bracketSlot.bracket === 'finals'
+      ? match.comp_level === 'f'
+      : match.comp_level === 'sf' && match.set_number === bracketSlot.id)
+    .sort((a, b) => a.match_number - b.match_number);
+
+/**
+ * Fill in the bracket from alliance rosters (index 0 = alliance 1) and
+ * whatever playoff matches are known
+ */
+export function buildPlayoffBracket(
+  allianceTeams: readonly (readonly number[])[],
+  matches: readonly PlayoffMatchInput[]
+): PlayoffBracket {
+  const allianceByTeam = new Map<number, number>();
+  allianceTeams.forEach((teams, index) => {
+    teams.forEach(teamNumber => allianceByTeam.set(teamNumber, index + 1));
+  });
+
+  const sideAlliance = (teamKeys: readonly string[]): number | null => {
+    for (const teamKey of teamKeys) {
+      const teamNumber = teamKeyToNumber(teamKey);
+      const allianceNumber = teamNumber !== null ? allianceByTeam.get(teamNumber) : undefined;
+      if (allianceNumber) return allianceNumber;
+    }
+    return null;
+  };
+
+  const resolved = new Map<number, PlayoffBracketMatch>();
+  const resolveSource = (source: BracketSource): number | null => {
+    if ('seed' in source) return source.seed <= allianceTeams.length ? source.seed : null;
+    if ('winnerOf' in source) return resolved.get(source.winnerOf)?.winner ?? null;
+    return resolved.get(source.loserOf)?.loser ?? null;
+  };
+
+  for (const bracketSlot of DOUBLE_ELIMINATION_SLOTS) {
+    let red = resolveSource(bracketSlot.red);
+    let blue = resolveSource(bracketSlot.blue);
+    const wins = new Map<number, number>();
+
+    for (const match of getSlotMatches(bracketSlot, matches)) {
+      const matchRed = sideAlliance(match.alliances.red.team_keys) ?? red;
+      const matchBlue = sideAlliance(match.alliances.blue.team_keys) ?? blue;
+      red = matchRed;
+      blue = matchBlue;
+
+      const matchWinner = match.winning_alliance === 'red'
+        ? matchRed
+        : match.winning_alliance === 'blue'
+          ? matchBlue
+          : null;
+      if (matchWinner !== null) wins.set(matchWinner, (wins.get(matchWinner) ?? 0) + 1);
+    }
+
+    const winsNeeded = Math.ceil(bracketSlot.bestOf / 2);
+    const redWins = red !== null ? wins.get(red) ?? 0 : 0;
+    const blueWins = blue !== null ? wins.get(blue) ?? 0 : 0;
+    const winner = redWins >= winsNeeded ? red : blueWins >= winsNeeded ? blue : null;
+
+    resolved.set(bracketSlot.id, {
+      id: bracketSlot.id,
+      label: bracketSlot.label,
+      round: bracketSlot.round,
+      bracket: bracketSlot.bracket,
+      red,
+      blue,
+      redWins,
+      blueWins,
+      winner,
+      loser: winner === null ? null : winner === red ? blue : red,
+    });
+  }
+
+  const matchesInOrder = DOUBLE_ELIMINATION_SLOTS.map(bracketSlot => resolved.get(bracketSlot.id)!);
+  return {
+    matches: matchesInOrder,
+    champion: resolved.get(PLAYOFF_FINALS_ID)?.winner ?? null,
+  };
+}
+
+// ============================================================================
+// OUTLOOK
+// ============================================================================
+
+export type PlayoffOutlookStatus = 'not-in-bracket' | 'upcoming' | 'eliminated' | 'champion';
+
+export interface PlayoffOutlook {
+  status: PlayoffOutlookStatus;
+  allianceNumber: number | null;
+  /** Next match this alliance plays, for 'upcoming' */
+  match: PlayoffBracketMatch | null;
+  color: PlayoffColor | null;
+  /** Known opponent, or null while it is still being decided */
+  opponent: number | null;
+  /** Alliances that could still become the opponent */
+  possibleOpponents: number[];
+}
+
+/**
+ * Alliance number a team plays for, or null if it was not picked
+ */
+export function findAllianceNumber(allianceTeams: readonly (readonly number[])[], teamNumber: number): number | null {
+  const index = allianceTeams.findIndex(teams => teams.includes(teamNumber));
+  return index >= 0 ? index + 1 : null;
+}
+
+/**
+ * Where an alliance stands and who it plays next
+ */
+export function getPlayoffOutlook(bracket: PlayoffBracket, allianceNumber: number | null): PlayoffOutlook {
+  const outlook: PlayoffOutlook = {
+    status: 'not-in-bracket',
+    allianceNumber,
+    match: null,
+    color: null,
+    opponent: null,
+    possibleOpponents: [],
+  };
+  if (allianceNumber === null) return outlook;
+
+  if (bracket.champion === allianceNumber) {
+    return { ...outlook, status: 'champion' };
+  }
+
+  // Losing a match whose loser is not sent anywhere else ends the run
+  const secondChances = new Set(
+    DOUBLE_ELIMINATION_SLOTS.flatMap(bracketSlot => [bracketSlot.red, bracketSlot.blue])
+      .flatMap(source => ('loserOf' in source ? [source.loserOf] : []))
+  );
+  const finalLoss = bracket.matches.find(match => match.loser === allianceNumber && !secondChances.has(match.id));
+  if (finalLoss) {
+    return { ...outlook, status: 'eliminated', match: finalLoss };
+  }
+
+  const next = bracket.matches.find(match =>
+    match.winner === null && (match.red === allianceNumber || match.blue === allianceNumber));
+  if (!next) return outlook;
+
+  const color: PlayoffColor = next.red === allianceNumber ? 'red' : 'blue';
+  const opponent = color === 'red' ? next.blue : next.red;
+  const possibleOpponents = opponent !== null
+    ? [opponent]
+    : getPossibleAlliances(bracket, getSlot(next.id)[color === 'red' ? 'blue' : 'red']);
+
+  return {
+    ...outlook,
+    status: 'upcoming',
+    match: next,
+    color,
+    opponent,
+    possibleOpponents: possibleOpponents.filter(candidate => candidate !== allianceNumber),
+  };
+}
+
+const getSlot = (id: number): BracketSlot => DOUBLE_ELIMINATION_SLOTS.find(bracketSlot => bracketSlot.id === id)!;
+
+function getPossibleAlliances(bracket: PlayoffBracket, source: BracketSource): number[] {
+  if ('seed' in source) return [source.seed];
+
+  const feederId = 'winnerOf' in source ? source.winnerOf : source.loserOf;
+  const feeder = bracket.matches.find(match => match.id === feederId);
+  if (!feeder) return [];
+
+  const decided = 'winnerOf' in source ? feeder.winner : feeder.loser;
+  if (decided !== null) return [decided];
+
+  const feederSlot = getSlot(feederId);
+  const sides = [
+    feeder.red !== null ? [feeder.red] : getPossibleAlliances(bracket, feederSlot.red),
+    feeder.blue !== null ? [feeder.blue] : getPossibleAlliances(bracket, feederSlot.blue),
+  ];
+  return [...new Set(sides.flat())].sort((a, b) => a - b);
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateScoutReliability,
+  getScoutReliabilityWeight,
+  MIN_RELIABILITY_WEIGHT,
+  RELIABILITY_PRIOR_SCORE,
+} from './scoutReliability';
+import type { AllianceValidation, Discrepancy, MatchValidationResult, TeamValidation } from './matchValidationTypes';
+
+const CLIMB_MISMATCH: Discrepancy = {
+  category: 'endgame',
+  field: 'climbL2',
+  fieldLabel: 'Climb L2',
+  scoutedValue: 1,
+  tbaValue: 0,
+  difference: 1,
+  percentDiff: 100,
+  severity: 'critical',
+  message: '',
+};
+
+const team = (scoutName: string, fuel: number, climbMismatch = false): TeamValidation => ({
+  teamNumber: '1',
+  alliance: 'red',
+  scoutName,
+  hasScoutedData: true,
+  discrepancies: climbMismatch ? [CLIMB_MISMATCH] : [],
+  confidence: 'medium',
+  flagForReview: false,
+  notes: [],
+  scoringBreakdown: { auto: {}, teleop: { totalFuelScored: fuel }, endgame: {} },
+});
+
+const redAlliance = (scoutedFuel: number, tbaFuel: number): AllianceValidation => ({
+  alliance: 'red',
+  status: 'passed',
+  confidence: 'high',
+  discrepancies: [],
+  totalScoutedPoints: scoutedFuel,
+  totalTBAPoints: tbaFuel,
+  scoreDifference: 0,
+  scorePercentDiff: 0,
+  scoutedData: {
+    alliance: 'red',
+    matchKey: 'qm1',
+    matchNumber: '1',
+    eventKey: '2026test',
+    teams: ['1', '2', '3'],
+    scoutNames: [],
+    actions: { totalFuelScored: scoutedFuel },
+    toggles: {},
+    missingTeams: [],
+    scoutedTeamsCount: 3,
+  },
+  tbaData: {
+    alliance: 'red',
+    teams: ['1', '2', '3'],
+    totalPoints: tbaFuel,
+    autoPoints: 0,
+    teleopPoints: 0,
+    foulPoints: 0,
+    breakdown: { totalFuelScored: tbaFuel },
+    foulCount: 0,
+    techFoulCount: 0,
+  },
+});
+
+const result = (teams: TeamValidation[], scoutedFuel: number, tbaFuel: number): MatchValidationResult => ({
+  id: 'x',
+  eventKey: '2026test',
+  matchKey: '2026test_qm1',
+  matchNumber: '1',
+  compLevel: 'qm',
+  status: 'passed',
+  confidence: 'high',
+  redAlliance: redAlliance(scoutedFuel, tbaFuel),
+  blueAlliance: { ...redAlliance(0, 0), alliance: 'blue', scoutedData: undefined },
+  teams,
+  totalDiscrepancies: 0,
+  criticalDiscrepancies: 0,
+  warningDiscrepancies: 0,
+  flaggedForReview: false,
+  requiresReScout: false,
+  validatedAt: 0,
+});
+
+describe('calculateScoutReliability', () => {
+  it('splits alliance fuel error by counted share and reports bias direction', () => {
+    // Ann logged 20 of 30 fuel; TBA saw 20, so the alliance over-counted by 10
+    const reliability = calculateScoutReliability([
+      result([team('Ann', 20), team('Ben', 10), team('Cal', 0)], 30, 20),
+    ]);
+    const byName = new Map(reliability.map(scout => [scout.scoutName, scout]));
+
+    // Ann: 0.5 * 20/30 + 0.5 / 3 = 0.5 of the error
+    expect(byName.get('Ann')).toMatchObject({ fuelMatches: 1, fuelBias: 5, fuelBiasDirection: 'over' });
+    expect(byName.get('Cal')?.fuelBias).toBeCloseTo(1.7, 1);
+    // Relative to what each was responsible for, the error is the same
+    expect(reliability.map(scout => scout.fuelErrorRate)).toEqual([0.5, 0.5, 0.5]);
+  });
+
+  it('tracks climb mismatches per scout and pulls thin records toward the prior', () => {
+    const matches = Array.from({ length: 6 }, (_, index) =>
+      result([team('Ann', 10, index < 3), team('Ben', 10), team('Cal', 10)], 30, 30)
+    );
+    const byName = new Map(calculateScoutReliability(matches).map(scout => [scout.scoutName, scout]));
+
+    expect(byName.get('Ann')).toMatchObject({ climbChecks: 6, climbMismatches: 3, climbMismatchRate: 0.5 });
+    expect(byName.get('Ben')).toMatchObject({ fuelBiasDirection: 'none', climbMismatchRate: 0 });
+    expect(byName.get('Ben')!.score).toBeGreaterThan(byName.get('Ann')!.score);
+    expect(byName.get('Ben')!.score).toBeLessThan(100);
+  });
+
+  it('skips alliances with unscouted robots', () => {
+    const partial = result([team('Ann', 10)], 10, 40);
+    partial.redAlliance.scoutedData!.missingTeams = ['2', '3'];
+
+    expect(calculateScoutReliability([partial])[0]).toMatchObject({ fuelMatches: 0, climbChecks: 1 });
+  });
+});
+
+describe('getScoutReliabilityWeight', () => {
+  it('counts unknown and prior-score scouts once and floors poor scouts', () => {
+    expect(getScoutReliabilityWeight(undefined)).toBe(1);
+    const [scout] = calculateScoutReliability([result([team('Ann', 10)], 10, 10)]);
+    expect(getScoutReliabilityWeight({ ...scout!, score: RELIABILITY_PRIOR_SCORE })).toBe(1);
+    expect(getScoutReliabilityWeight({ ...scout!, score: 0 })).toBe(MIN_RELIABILITY_WEIGHT);
+  });
+});
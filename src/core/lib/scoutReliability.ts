@@ -0,0 +1,201 @@
+/**
+ * Scout reliability from match validation results.
+ *
+ * TBA only reports fuel per alliance, so each validated alliance's fuel error
+ * (scouted - TBA) is split between its scouts: half by how much each of them
+ * counted and half evenly, since a scout who logged nothing can still be the
+ * one under-counting. Climbs are checked per robot (TeamValidation.discrepancies),
+ * so the climb-mismatch rate belongs to a single scout.
+ */
+
+import type { AllianceValidation, MatchValidationResult, TeamValidation } from './matchValidationTypes';
+
+export type ScoutBiasDirection = 'over' | 'under' | 'none';
+
+export interface ScoutReliability {
+  scoutName: string;
+  /** Validated alliances (all robots scouted) this scout was part of */
+  fuelMatches: number;
+  /** Average fuel per match this scout over-counted (+) or under-counted (-) */
+  fuelBias: number;
+  fuelBiasDirection: ScoutBiasDirection;
+  /** Absolute fuel error as a share of the TBA fuel this scout was responsible for */
+  fuelErrorRate: number;
+  climbChecks: number;
+  climbMismatches: number;
+  /** 0-1 */
+  climbMismatchRate: number;
+  /** 0-100, pulled toward RELIABILITY_PRIOR_SCORE until the scout has a few matches */
+  score: number;
+}
+
+export interface ScoutReliabilityOptions {
+  /** Mapped action compared against TBA for fuel */
+  fuelField?: string;
+  /** Discrepancy categories that count as a climb mismatch */
+  climbCategories?: readonly string[];
+}
+
+/** localStorage flag: weight team stat averages by scout reliability */
+export const SCOUT_RELIABILITY_WEIGHTING_STORAGE_KEY = 'scoutReliabilityWeighting';
+
+/** Score given to a scout with no validated matches */
+export const RELIABILITY_PRIOR_SCORE = 75;
+
+/** Lowest weight an entry can get when weighting team stats by reliability */
+export const MIN_RELIABILITY_WEIGHT = 0.25;
+
+const DEFAULT_FUEL_FIELD = 'totalFuelScored';
+const DEFAULT_CLIMB_CATEGORIES = ['auto-climb', 'endgame'];
+
+// How many matches of evidence the prior is worth
+const PRIOR_MATCHES = 3;
+const FUEL_SCORE_SHARE = 0.7;
+
+// Bias smaller than this many fuel per match (or 5% of the scout's share) is noise
+const MIN_FUEL_BIAS = 1;
+const RELATIVE_FUEL_BIAS = 0.05;
+
+interface ScoutTally {
+  fuelMatches: number;
+  signedError: number;
+  absoluteError: number;
+  expectedFuel: number;
+  climbChecks: number;
+  climbMismatches: number;
+}
+
+const round = (value: number, decimals: number = 2): number =>
+  Math.round(value * Math.pow(10, decimals)) / Math.pow(10, decimals);
+
+const shrink = (accuracy: number, samples: number): number =>
+  (accuracy * samples + (RELIABILITY_PRIOR_SCORE / 100) * PRIOR_MATCHES) / (samples + PRIOR_MATCHES);
+
+const getTeamFuel = (team: TeamValidation, fuelField: string): number | null => {
+  const breakdown = team.scoringBreakdown;
+  if (!breakdown) return null;
+  return breakdown.teleop[fuelField] ?? breakdown.auto[fuelField] ?? 0;
+};
+
+/**
+ * Each scout's share of an alliance's fuel, or null if it can't be attributed
+ */
+const getFuelShares = (
+  alliance: AllianceValidation,
+  teams: TeamValidation[],
+  fuelField: string
+): number[] | null => {
+  const scouted = alliance.scoutedData;
+  if (!scouted || !alliance.tbaData || scouted.missingTeams.length > 0 || teams.length === 0) {
+    return null;
+  }
+
+  const evenShare = 1 / teams.length;
+  const counted = teams.map(team => getTeamFuel(team, fuelField));
+  if (counted.some(fuel => fuel === null)) {
+    return teams.map(() => evenShare);
+  }
+
+  const countedTotal = counted.reduce<number>((sum, fuel) => sum + (fuel ?? 0), 0);
+  return counted.map(fuel =>
+    countedTotal > 0 ? 0.5 * ((fuel ?? 0) / countedTotal) + 0.5 * evenShare : evenShare
+  );
+};
+
+const getBiasDirection = (tally: ScoutTally): ScoutBiasDirection => {
+  if (tally.fuelMatches === 0) return 'none';
+
+  const bias = tally.signedError / tally.fuelMatches;
+  const tolerance = Math.max(MIN_FUEL_BIAS, RELATIVE_FUEL_BIAS * (tally.expectedFuel / tally.fuelMatches));
+  if (Math.abs(bias) < tolerance) return 'none';
+  return bias > 0 ? 'over' : 'under';
+};
+
+/**
+ * Aggregate validation results (usually one event's) into a reliability
+ * score per scout, best first
+ */
+export const calculateScoutReliability = (
+  results: MatchValidationResult[],
+  options: ScoutReliabilityOptions = {}
+): ScoutReliability[] => {
+  const fuelField = options.fuelField ?? DEFAULT_FUEL_FIELD;
+  const climbCategories = new Set(options.climbCategories ?? DEFAULT_CLIMB_CATEGORIES);
+  const tallies = new Map<string, ScoutTally>();
+
+  const getTally = (scoutName: string): ScoutTally => {
+    let tally = tallies.get(scoutName);
+    if (!tally) {
+      tally = { fuelMatches: 0, signedError: 0, absoluteError: 0, expectedFuel: 0, climbChecks: 0, climbMismatches: 0 };
+      tallies.set(scoutName, tally);
+    }
+    return tally;
+  };
+
+  results.forEach(result => {
+    (['red', 'blue'] as const).forEach(color => {
+      const alliance = color === 'red' ? result.redAlliance : result.blueAlliance;
+      const teams = result.teams.filter(team => team.alliance === color && team.hasScoutedData && team.scoutName.trim());
+
+      teams.forEach(team => {
+        // Teams without a breakdown were not compared against their own TBA slot
+        if (!team.scoringBreakdown) return;
+
+        const tally = getTally(team.scoutName.trim());
+        tally.climbChecks += 1;
+        if (team.discrepancies.some(discrepancy => climbCategories.has(discrepancy.category))) {
+          tally.climbMismatches += 1;
+        }
+      });
+
+      const shares = getFuelShares(alliance, teams, fuelField);
+      if (!shares) return;
+
+      const scoutedFuel = alliance.scoutedData?.actions[fuelField] ?? 0;
+      const tbaFuel = alliance.tbaData?.breakdown[fuelField] ?? 0;
+      const error = scoutedFuel - tbaFuel;
+
+      teams.forEach((team, index) => {
+        const share = shares[index] ?? 0;
+        const tally = getTally(team.scoutName.trim());
+        tally.fuelMatches += 1;
+        tally.signedError += error * share;
+        tally.absoluteError += Math.abs(error * share);
+        tally.expectedFuel += tbaFuel * share;
+      });
+    });
+  });
+
+  return [...tallies.entries()]
+    .map(([scoutName, tally]) => {
+      const fuelErrorRate = tally.fuelMatches > 0
+        ? tally.absoluteError / Math.max(tally.expectedFuel, 1)
+        : 0;
+      const climbMismatchRate = tally.climbChecks > 0 ? tally.climbMismatches / tally.climbChecks : 0;
+
+      const fuelAccuracy = shrink(Math.max(0, 1 - fuelErrorRate), tally.fuelMatches);
+      const climbAccuracy = shrink(1 - climbMismatchRate, tally.climbChecks);
+
+      return {
+        scoutName,
+        fuelMatches: tally.fuelMatches,
+        fuelBias: tally.fuelMatches > 0 ? round(tally.signedError / tally.fuelMatches, 1) : 0,
+        fuelBiasDirection: getBiasDirection(tally),
+        fuelErrorRate: round(fuelErrorRate),
+        climbChecks: tally.climbChecks,
+        climbMismatches: tally.climbMismatches,
+        climbMismatchRate: round(climbMismatchRate),
+        score: Math.round(100 * (FUEL_SCORE_SHARE * fuelAccuracy + (1 - FUEL_SCORE_SHARE) * climbAccuracy)),
+      };
+    })
+    .sort((a, b) => b.score - a.score || a.scoutName.localeCompare(b.scoutName));
+};
+
+/**
+ * How much a scout's entries count when team stats are weighted by
+ * reliability. A scout at the prior score, or with no validations, counts 1.
+ */
+export const getScoutReliabilityWeight = (reliability: ScoutReliability | undefined): number => {
+  if (!reliability) return 1;
+  return Math.max(MIN_RELIABILITY_WEIGHT, reliability.score / RELIABILITY_PRIOR_SCORE);
+};
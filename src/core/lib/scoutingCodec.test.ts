@@ -0,0 +1,140 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/core/db/database', () => ({ db: {} }));
+
+import { scoutingCodecFields } from '@/game-template/scoutingCodecSchema';
+import {
+  decodeScoutingTransfer,
+  encodeScoutingTransfer,
+  isScoutingCodecData,
+  SCOUTING_CODEC_FORMAT_VERSION,
+} from './scoutingCodec';
+import { generateDataFingerprint } from './scoutingDataUtils';
+import type { ScoutingEntryBase } from '@/types/scouting-entry';
+
+function createEntry(index: number) {
+  return {
+    id: `2026test_qm${index + 1}_red_${1000 + index}`,
+    teamNumber: 1000 + index,
+    matchNumber: index + 1,
+    matchKey: `qm${index + 1}`,
+    allianceColor: index % 2 === 0 ? 'red' : 'blue',
+    scoutName: index % 2 === 0 ? 'Riley' : 'Sam',
+    eventKey: '2026test',
+    timestamp: 1738900000000 + index * 7000,
+    comments: index === 0 ? 'Lost comms — 10s' : '',
+    noShow: false,
+    gameData: {
+      auto: {
+        startPosition: index === 0 ? null : 2,
+        autoPath: [
+          { id: `wp-${index}-a`, type: 'start', action: 'hub', position: { x: 0.31, y: 0.5 }, timestamp: 1738900000000 },
+          {
+            type: 'score',
+            action: 'fuelScored',
+            position: { x: 0.2712, y: 0.4988 },
+            timestamp: 1738900001200,
+            fuelDelta: -4,
+            amountLabel: '4',
+            pathPoints: [{ x: 0.3, y: 0.5 }, { x: 0.28, y: 0.4991 }],
+          },
+        ],
+        fuelScoredCount: 4,
+        trenchStuckDuration: index * 1500,
+      },
+      teleop: {
+        teleopPath: [],
+        fuelScoredCount: 30 + index,
+        avgShotDistance: 2.75,
+      },
+      endgame: {
+        roleActiveCycler: index % 2 === 0,
+        accuracyMost: true,
+      },
+      'notes.v2': { raw: 'kept whole' },
+      penalties: index === 0 ? ['foul'] : [],
+    },
+  };
+}
+
+describe('scouting codec', () => {
+  it('round-trips entries, including fields the schema does not declare', () => {
+    const payload = {
+      entries: [createEntry(0), createEntry(1), { ...createEntry(2), correctionCount: 1 }],
+      version: '3.0-maneuver-core',
+      exportedAt: 1738900500000,
+    };
+
+    const encoded = encodeScoutingTransfer(payload, scoutingCodecFields);
+
+    expect(isScoutingCodecData(encoded)).toBe(true);
+    expect(decodeScoutingTransfer(encoded)).toEqual(payload);
+  });
+
+  it('gives back field-map entries unchanged, so their fingerprints still match', () => {
+    // Ids from ScoringContext's generateId and positions straight from pointer events
+    const entries = [createEntry(0), createEntry(1)].map((entry, index) => {
+      entry.gameData.auto.autoPath = [
+        {
+          id: `${1738900000123 + index}-k3j9x0q2m`,
+          type: 'start',
+          action: 'hub',
+          position: { x: 0.3127450980392157, y: 0.4982456140350877 },
+          timestamp: 1738900000000,
+        },
+        {
+          id: `${1738900001457 + index}-a81zpw4ve`,
+          type: 'score',
+          action: 'fuelScored',
+          position: { x: 0.27118644067796605, y: 0.5 },
+          timestamp: 1738900001200,
+          fuelDelta: -4,
+          amountLabel: '4',
+          matchTime: 1.2345,
+          pathPoints: [{ x: 0.30980392156862746, y: 0.5017543859649123 }, { x: 0.28, y: 0.5 }],
+        },
+      ];
+      return entry;
+    });
+
+    const decoded = decodeScoutingTransfer<{ entries: ReturnType<typeof createEntry>[] }>(
+      encodeScoutingTransfer({ entries }, scoutingCodecFields)
+    );
+
+    expect(decoded.entries).toEqual(entries);
+    decoded.entries.forEach((entry, index) => {
+      expect(generateDataFingerprint(entry as unknown as ScoutingEntryBase))
+        .toBe(generateDataFingerprint(entries[index] as unknown as ScoutingEntryBase));
+    });
+  });
+
+  it('sends match-clock times in tenths of a second and keeps finer ones exactly', () => {
+    const entry = createEntry(0);
+    const [start, score] = entry.gameData.auto.autoPath as { matchTime?: number }[];
+    start!.matchTime = 0;
+    score!.matchTime = 12.34;
+
+    const decoded = decodeScoutingTransfer<{ entries: ReturnType<typeof createEntry>[] }>(
+      encodeScoutingTransfer({ entries: [entry] }, scoutingCodecFields)
+    );
+
+    expect(decoded.entries[0]!.gameData.auto.autoPath.map(waypoint => (waypoint as { matchTime?: number }).matchTime))
+      .toEqual([0, 12.34]);
+  });
+
+  it('skips columns of an unknown kind and rejects newer formats', () => {
+    const encoded = Uint8Array.from([
+      0x4d, 0x53, SCOUTING_CODEC_FORMAT_VERSION, 0,
+      2, ...new TextEncoder().encode('{}'),
+      1, // entries
+      2, // columns
+      1, 10, ...new TextEncoder().encode('teamNumber'), 2, 3, 0, 0x01, 0x7f,
+      1, 6, ...new TextEncoder().encode('future'), 99, 2, 0xaa, 0xbb,
+    ]);
+
+    expect(decodeScoutingTransfer(encoded)).toEqual({ entries: [{ teamNumber: 127 }] });
+
+    encoded[2] = SCOUTING_CODEC_FORMAT_VERSION + 1;
+    expect(() => decodeScoutingTransfer(encoded)).toThrow(/newer format/);
+  });
+});
@@ -0,0 +1,736 @@
+/**
+ * Binary columnar codec for scouting entries in QR transfers
+ * Framework implementation - game-agnostic
+ *
+ * Entries are flattened to one column per field path. Booleans are bit-packed,
+ * counters are varints, team/scout/event fields are dictionary-encoded and
+ * waypoint paths store position and time deltas plus match-clock times. Every
+ * column carries its path and kind, so a device on a different game schema
+ * still decodes every field it receives; columns of a kind it does not know are
+ * skipped.
+ *
+ * Game implementations supply their field layout (see
+ * game-template/scoutingCodecSchema.ts); fields not listed are inferred.
+ */
+
+import * as pako from 'pako';
+
+export type ScoutingCodecFieldKind =
+  | 'bool'
+  | 'uint'
+  | 'int'
+  | 'delta'
+  | 'float'
+  | 'string'
+  | 'dictString'
+  | 'dictUint'
+  | 'path'
+  | 'json';
+
+export interface ScoutingCodecField {
+  /** Dot path from the entry root, e.g. `gameData.auto.fuelScoredCount` */
+  path: string;
+  kind: ScoutingCodecFieldKind;
+}
+
+interface ScoutingTransferPayload {
+  entries: Record<string, unknown>[];
+  [key: string]: unknown;
+}
+
+/** "MS" - never the start of gzip (1f 8b) or JSON */
+const CODEC_MAGIC = [0x4d, 0x53] as const;
+/** Bumped only for changes older decoders cannot skip over */
+export const SCOUTING_CODEC_FORMAT_VERSION = 1;
+const FLAG_DEFLATED = 0x01;
+const COLUMN_FLAG_HAS_NULLS = 0x01;
+
+/**
+ * Waypoint positions are normalized 0-1 and sent as deltas on a 1/10000 grid.
+ * Positions off the grid also carry their exact value (see writePathValues).
+ */
+const POSITION_SCALE = 10000;
+/** Keeps zigzag-encoded integers and their deltas exact as doubles */
+const INT_LIMIT = 2 ** 50;
+
+const KIND_CODES: Record<ScoutingCodecFieldKind, number> = {
+  bool: 1,
+  uint: 2,
+  int: 3,
+  delta: 4,
+  float: 5,
+  string: 6,
+  dictString: 7,
+  dictUint: 8,
+  path: 9,
+  json: 10,
+};
+
+const KINDS_BY_CODE = new Map(
+  Object.entries(KIND_CODES).map(([kind, code]) => [code, kind as ScoutingCodecFieldKind])
+);
+
+/** ScoutingEntryBase fields, shared by every game */
+export const SCOUTING_ENTRY_CODEC_FIELDS: ScoutingCodecField[] = [
+  { path: 'id', kind: 'string' },
+  { path: 'teamNumber', kind: 'dictUint' },
+  { path: 'matchNumber', kind: 'uint' },
+  { path: 'matchKey', kind: 'dictString' },
+  { path: 'allianceColor', kind: 'dictString' },
+  { path: 'scoutName', kind: 'dictString' },
+  { path: 'eventKey', kind: 'dictString' },
+  { path: 'timestamp', kind: 'delta' },
+  { path: 'comments', kind: 'string' },
+  { path: 'noShow', kind: 'bool' },
+  { path: 'ignoreForStats', kind: 'bool' },
+  { path: 'isCorrected', kind: 'bool' },
+  { path: 'correctionCount', kind: 'uint' },
+  { path: 'lastCorrectedAt', kind: 'delta' },
+  { path: 'lastCorrectedBy', kind: 'dictString' },
+  { path: 'correctionNotes', kind: 'string' },
+  { path: 'originalScoutName', kind: 'dictString' },
+];
+
+// ============================================================================
+// BYTE I/O
+// ============================================================================
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+class ByteWriter {
+  private chunks: number[] = [];
+  private blobs: Uint8Array[] = [];
+
+  private flush(): void {
+    if (this.chunks.length > 0) {
+      this.blobs.push(Uint8Array.from(this.chunks));
+      this.chunks = [];
+    }
+  }
+
+  byte(value: number): void {
+    this.chunks.push(value & 0xff);
+  }
+
+  bytes(value: Uint8Array): void {
+    this.flush();
+    this.blobs.push(value);
+  }
+
+  /** Unsigned LEB128. Arithmetic instead of bit ops so values above 2^31 survive */
+  varint(value: number): void {
+    let remaining = value;
+    while (remaining >= 0x80) {
+      this.chunks.push((remaining % 0x80) | 0x80);
+      remaining = Math.floor(remaining / 0x80);
+    }
+    this.chunks.push(remaining);
+  }
+
+  zigzag(value: number): void {
+    this.varint(value >= 0 ? value * 2 : -value * 2 - 1);
+  }
+
+  float(value: number): void {
+    const buffer = new Uint8Array(8);
+    new DataView(buffer.buffer).setFloat64(0, value, true);
+    this.bytes(buffer);
+  }
+
+  string(value: string): void {
+    const encoded = textEncoder.encode(value);
+    this.varint(encoded.length);
+    this.bytes(encoded);
+  }
+
+  /** Length-prefixed nested section */
+  section(write: (writer: ByteWriter) => void): void {
+    const nested = new ByteWriter();
+    write(nested);
+    const encoded = nested.finish();
+    this.varint(encoded.length);
+    this.bytes(encoded);
+  }
+
+  finish(): Uint8Array {
+    this.flush();
+    const total = this.blobs.reduce((sum, blob) => sum + blob.length, 0);
+    const result = new Uint8Array(total);
+    let offset = 0;
+    for (const blob of this.blobs) {
+      result.set(blob, offset);
+      offset += blob.length;
+    }
+    return result;
+  }
+}
+
+class ByteReader {
+  private offset = 0;
+
+  constructor(private readonly data: Uint8Array) {}
+
+  private ensure(length: number): void {
+    if (this.offset + length > this.data.length) {
+      throw new Error('Scouting data is truncated');
+    }
+  }
+
+  byte(): number {
+    this.ensure(1);
+    return this.data[this.offset++]!;
+  }
+
+  bytes(length: number): Uint8Array {
+    this.ensure(length);
+    const slice = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  varint(): number {
+    let result = 0;
+    let multiplier = 1;
+    for (;;) {
+      const current = this.byte();
+      result += (current & 0x7f) * multiplier;
+      if (current < 0x80) return result;
+      multiplier *= 0x80;
+    }
+  }
+
+  zigzag(): number {
+    const value = this.varint();
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  }
+
+  float(): number {
+    const slice = this.bytes(8);
+    return new DataView(slice.buffer, slice.byteOffset, 8).getFloat64(0, true);
+  }
+
+  string(): string {
+    return textDecoder.decode(this.bytes(this.varint()));
+  }
+
+  section(): ByteReader {
+    return new ByteReader(this.bytes(this.varint()));
+  }
+
+  hasMore(): boolean {
+    return this.offset < this.data.length;
+  }
+}
+
+const packBits = (bits: boolean[]): Uint8Array => {
+  const packed = new Uint8Array(Math.ceil(bits.length / 8));
+  bits.forEach((bit, index) => {
+    if (bit) packed[index >> 3]! |= 1 << (index & 7);
+  });
+  return packed;
+};
+
+const unpackBits = (reader: ByteReader, count: number): boolean[] => {
+  const packed = reader.bytes(Math.ceil(count / 8));
+  return Array.from({ length: count }, (_, index) => (packed[index >> 3]! & (1 << (index & 7))) !== 0);
+};
+
+// ============================================================================
+// FIELD KINDS
+// ============================================================================
+
+interface Waypoint {
+  id?: string;
+  type: string;
+  action: string;
+  position: { x: number; y: number };
+  timestamp: number;
+  pathPoints?: { x: number; y: number }[];
+  matchTime?: number;
+  [key: string]: unknown;
+}
+
+const WAYPOINT_CORE_KEYS = new Set(['id', 'type', 'action', 'position', 'timestamp', 'pathPoints', 'matchTime']);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const isSafeInt = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && Math.abs(value) < INT_LIMIT;
+
+const isPoint = (value: unknown): value is { x: number; y: number } =>
+  isPlainObject(value) &&
+  Object.keys(value).every(key => key === 'x' || key === 'y') &&
+  typeof value.x === 'number' && Number.isFinite(value.x) &&
+  typeof value.y === 'number' && Number.isFinite(value.y);
+
+const isWaypoint = (value: unknown): value is Waypoint =>
+  isPlainObject(value) &&
+  typeof value.type === 'string' &&
+  typeof value.action === 'string' &&
+  isPoint(value.position) &&
+  isSafeInt(value.timestamp) &&
+  (value.matchTime === undefined || (typeof value.matchTime === 'number' && Number.isFinite(value.matchTime))) &&
+  (value.id === undefined || typeof value.id === 'string') &&
+  (value.pathPoints === undefined || (Array.isArray(value.pathPoints) && value.pathPoints.every(isPoint)));
+
+const fitsKind = (kind: ScoutingCodecFieldKind, value: unknown): boolean => {
+  switch (kind) {
+    case 'bool': return typeof value === 'boolean';
+    case 'uint':
+    case 'dictUint': return isSafeInt(value) && value >= 0;
+    case 'int':
+    case 'delta': return isSafeInt(value);
+    case 'float': return typeof value === 'number' && Number.isFinite(value);
+    case 'string':
+    case 'dictString': return typeof value === 'string';
+    case 'path': return Array.isArray(value) && value.every(isWaypoint);
+    case 'json': return true;
+  }
+};
+
+const inferKind = (values: unknown[]): ScoutingCodecFieldKind => {
+  if (values.length === 0) return 'json';
+  const all = (kind: ScoutingCodecFieldKind) => values.every(value => fitsKind(kind, value));
+
+  if (all('bool')) return 'bool';
+  if (all('uint')) return 'uint';
+  if (all('int')) return 'int';
+  if (all('float')) return 'float';
+  if (all('string')) {
+    // Repeated strings are cheaper as a dictionary
+    return new Set(values).size * 2 <= values.length ? 'dictString' : 'string';
+  }
+  if (all('path') && values.some(value => (value as unknown[]).length > 0)) return 'path';
+  return 'json';
+};
+
+const quantize = (value: number): number => Math.round(value * POSITION_SCALE);
+
+const buildDictionary = <T>(values: T[]): { values: T[]; index: Map<T, number> } => {
+  const unique = Array.from(new Set(values));
+  return { values: unique, index: new Map(unique.map((value, idx) => [value, idx])) };
+};
+
+/** Path fields are split into one stream each so similar bytes sit together */
+const PATH_STREAMS = ['lengths', 'flags', 'types', 'actions', 'x', 'y', 'time', 'points', 'extras'] as const;
+type PathStream = typeof PATH_STREAMS[number];
+
+/**
+ * Match-clock times (tenths of a second) follow the other streams, then
+ * waypoint ids, then exact values for waypoints flagged as off the position
+ * grid or clock tenths (x, y, every path point, match time). Older decoders
+ * stop reading before these and drop the match time, regenerate ids and keep
+ * the grid values; data from older encoders simply ends without them.
+ */
+const MATCH_TIME_SCALE = 10;
+
+const WAYPOINT_FLAG_ID = 1;
+const WAYPOINT_FLAG_PATH_POINTS = 2;
+const WAYPOINT_FLAG_EXTRAS = 4;
+const WAYPOINT_FLAG_MATCH_TIME = 8;
+const WAYPOINT_FLAG_EXACT = 16;
+
+const isOnGrid = (point: { x: number; y: number }): boolean =>
+  quantize(point.x) / POSITION_SCALE === point.x && quantize(point.y) / POSITION_SCALE === point.y;
+
+/**
+ * Action-log ids are usually `<Date.now()>-<random>`, so the clock part is sent
+ * as an offset from the waypoint timestamp. Other ids are sent whole.
+ */
+const STAMPED_ID_PATTERN = /^([1-9]\d{0,14})-(.*)$/s;
+
+const writeWaypointId = (stamps: ByteWriter, text: ByteWriter, id: string, timestamp: number): void => {
+  const stamped = STAMPED_ID_PATTERN.exec(id);
+  // Offsets are stored +1 so 0 can mark an id sent whole
+  stamps.zigzag(stamped ? Number(stamped[1]) - timestamp + 1 : 0);
+  text.string(stamped ? stamped[2]! : id);
+};
+
+const readWaypointId = (stamps: ByteReader, text: ByteReader, timestamp: number): string => {
+  const offset = stamps.zigzag();
+  return offset === 0 ? text.string() : `${timestamp + offset - 1}-${text.string()}`;
+};
+
+/** True when the grid and clock streams alone give back this waypoint unchanged */
+const fitsPathGrid = (waypoint: Waypoint): boolean =>
+  isOnGrid(waypoint.position) &&
+  (waypoint.pathPoints ?? []).every(isOnGrid) &&
+  (waypoint.matchTime === undefined ||
+    Math.round(waypoint.matchTime * MATCH_TIME_SCALE) / MATCH_TIME_SCALE === waypoint.matchTime);
+
+const writePathValues = (writer: ByteWriter, paths: Waypoint[][]): void => {
+  const waypoints = paths.flat();
+  const extrasOf = (waypoint: Waypoint): string | null => {
+    const extras = Object.fromEntries(
+      Object.entries(waypoint).filter(([key, value]) => !WAYPOINT_CORE_KEYS.has(key) && value !== undefined)
+    );
+    return Object.keys(extras).length > 0 ? JSON.stringify(extras) : null;
+  };
+
+  const types = buildDictionary(waypoints.map(waypoint => waypoint.type));
+  const actions = buildDictionary(waypoints.map(waypoint => waypoint.action));
+  const extras = buildDictionary(waypoints.map(extrasOf).filter((value): value is string => value !== null));
+
+  for (const dictionary of [types, actions, extras]) {
+    writer.varint(dictionary.values.length);
+    dictionary.values.forEach(value => writer.string(value));
+  }
+
+  const streams = Object.fromEntries(PATH_STREAMS.map(name => [name, new ByteWriter()])) as Record<PathStream, ByteWriter>;
+  const matchTimes = new ByteWriter();
+  const idStamps = new ByteWriter();
+  const idText = new ByteWriter();
+  const exact = new ByteWriter();
+  let lastTimestamp = 0;
+
+  for (const path of paths) {
+    streams.lengths.varint(path.length);
+    let lastX = 0;
+    let lastY = 0;
+
+    for (const waypoint of path) {
+      const extra = extrasOf(waypoint);
+      const x = quantize(waypoint.position.x);
+      const y = quantize(waypoint.position.y);
+      const onGrid = fitsPathGrid(waypoint);
+
+      streams.flags.byte((waypoint.id !== undefined ? WAYPOINT_FLAG_ID : 0) |
+        (waypoint.pathPoints !== undefined ? WAYPOINT_FLAG_PATH_POINTS : 0) |
+        (extra !== null ? WAYPOINT_FLAG_EXTRAS : 0) |
+        (waypoint.matchTime !== undefined ? WAYPOINT_FLAG_MATCH_TIME : 0) |
+        (onGrid ? 0 : WAYPOINT_FLAG_EXACT));
+      streams.types.varint(types.index.get(waypoint.type)!);
+      streams.actions.varint(actions.index.get(waypoint.action)!);
+      streams.x.zigzag(x - lastX);
+      streams.y.zigzag(y - lastY);
+      streams.time.zigzag(waypoint.timestamp - lastTimestamp);
+      if (waypoint.pathPoints !== undefined) {
+        streams.points.varint(waypoint.pathPoints.length);
+        let pointX = x;
+        let pointY = y;
+        for (const point of waypoint.pathPoints) {
+          const nextX = quantize(point.x);
+          const nextY = quantize(point.y);
+          streams.points.zigzag(nextX - pointX);
+          streams.points.zigzag(nextY - pointY);
+          pointX = nextX;
+          pointY = nextY;
+        }
+      }
+      if (extra !== null) streams.extras.varint(extras.index.get(extra)!);
+      if (waypoint.matchTime !== undefined) matchTimes.zigzag(Math.round(waypoint.matchTime * MATCH_TIME_SCALE));
+      if (waypoint.id !== undefined) writeWaypointId(idStamps, idText, waypoint.id, waypoint.timestamp);
+      if (!onGrid) {
+        [waypoint.position, ...(waypoint.pathPoints ?? [])].forEach(point => {
+          exact.float(point.x);
+          exact.float(point.y);
+        });
+        if (waypoint.matchTime !== undefined) exact.float(waypoint.matchTime);
+      }
+
+      lastX = x;
+      lastY = y;
+      lastTimestamp = waypoint.timestamp;
+    }
+  }
+
+  PATH_STREAMS.forEach(name => writer.section(stream => stream.bytes(streams[name].finish())));
+  [matchTimes, idStamps, idText, exact].forEach(trailing => writer.section(stream => stream.bytes(trailing.finish())));
+};
+
+const readPathValues = (reader: ByteReader, count: number): Waypoint[][] => {
+  const readDictionary = () => Array.from({ length: reader.varint() }, () => reader.string());
+  const types = readDictionary();
+  const actions = readDictionary();
+  const extras = readDictionary();
+  const streams = Object.fromEntries(PATH_STREAMS.map(name => [name, reader.section()])) as Record<PathStream, ByteReader>;
+  const [matchTimes, idStamps, idText, exact] = [0, 1, 2, 3].map(() => (reader.hasMore() ? reader.section() : null));
+
+  let lastTimestamp = 0;
+  return Array.from({ length: count }, () => {
+    let lastX = 0;
+    let lastY = 0;
+
+    return Array.from({ length: streams.lengths.varint() }, (_, waypointIndex) => {
+      const flags = streams.flags.byte();
+      const type = types[streams.types.varint()] ?? '';
+      const action = actions[streams.actions.varint()] ?? '';
+      const x = lastX + streams.x.zigzag();
+      const y = lastY + streams.y.zigzag();
+      const timestamp = lastTimestamp + streams.time.zigzag();
+      const waypoint: Waypoint = {
+        type,
+        action,
+        position: { x: x / POSITION_SCALE, y: y / POSITION_SCALE },
+        timestamp,
+      };
+
+      if (flags & WAYPOINT_FLAG_ID) {
+        waypoint.id = idStamps && idText
+          ? readWaypointId(idStamps, idText, timestamp)
+          : `${timestamp}-${waypointIndex}`;
+      }
+      if (flags & WAYPOINT_FLAG_PATH_POINTS) {
+        let pointX = x;
+        let pointY = y;
+        waypoint.pathPoints = Array.from({ length: streams.points.varint() }, () => {
+          pointX += streams.points.zigzag();
+          pointY += streams.points.zigzag();
+          return { x: pointX / POSITION_SCALE, y: pointY / POSITION_SCALE };
+        });
+      }
+      if (flags & WAYPOINT_FLAG_EXTRAS) Object.assign(waypoint, JSON.parse(extras[streams.extras.varint()] ?? '{}'));
+      if (flags & WAYPOINT_FLAG_MATCH_TIME && matchTimes) waypoint.matchTime = matchTimes.zigzag() / MATCH_TIME_SCALE;
+      if (flags & WAYPOINT_FLAG_EXACT && exact) {
+        [waypoint.position, ...(waypoint.pathPoints ?? [])].forEach(point => {
+          point.x = exact.float();
+          point.y = exact.float();
+        });
+        if (waypoint.matchTime !== undefined) waypoint.matchTime = exact.float();
+      }
+
+      lastX = x;
+      lastY = y;
+      lastTimestamp = timestamp;
+      return waypoint;
+    });
+  });
+};
+
+const writeValues = (writer: ByteWriter, kind: ScoutingCodecFieldKind, values: unknown[]): void => {
+  switch (kind) {
+    case 'bool':
+      writer.bytes(packBits(values as boolean[]));
+      return;
+    case 'uint':
+      values.forEach(value => writer.varint(value as number));
+      return;
+    case 'int':
+      values.forEach(value => writer.zigzag(value as number));
+      return;
+    case 'delta': {
+      let last = 0;
+      for (const value of values as number[]) {
+        writer.zigzag(value - last);
+        last = value;
+      }
+      return;
+    }
+    case 'float':
+      values.forEach(value => writer.float(value as number));
+      return;
+    case 'string':
+      values.forEach(value => writer.string(value as string));
+      return;
+    case 'dictString':
+    case 'dictUint': {
+      const dictionary = buildDictionary(values);
+      writer.varint(dictionary.values.length);
+      dictionary.values.forEach(value => kind === 'dictString' ? writer.string(value as string) : writer.varint(value as number));
+      values.forEach(value => writer.varint(dictionary.index.get(value)!));
+      return;
+    }
+    case 'path':
+      writePathValues(writer, values as Waypoint[][]);
+      return;
+    case 'json':
+      values.forEach(value => writer.string(JSON.stringify(value)));
+      return;
+  }
+};
+
+const readValues = (reader: ByteReader, kind: ScoutingCodecFieldKind, count: number): unknown[] => {
+  const repeat = (read: () => unknown) => Array.from({ length: count }, read);
+
+  switch (kind) {
+    case 'bool': return unpackBits(reader, count);
+    case 'uint': return repeat(() => reader.varint());
+    case 'int': return repeat(() => reader.zigzag());
+    case 'delta': {
+      let last = 0;
+      return repeat(() => (last += reader.zigzag()));
+    }
+    case 'float': return repeat(() => reader.float());
+    case 'string': return repeat(() => reader.string());
+    case 'dictString':
+    case 'dictUint': {
+      const dictionary: unknown[] = Array.from({ length: reader.varint() }, () =>
+        kind === 'dictString' ? reader.string() : reader.varint()
+      );
+      return repeat(() => dictionary[reader.varint()]);
+    }
+    case 'path': return readPathValues(reader, count);
+    case 'json': return repeat(() => JSON.parse(reader.string()));
+  }
+};
+
+// ============================================================================
+// ENTRY FLATTENING
+// ============================================================================
+
+/** Columns are keyed by their path segments, so keys containing dots survive */
+const toPathKey = (segments: string[]): string => JSON.stringify(segments);
+
+/** Split an entry into leaf values. Nested objects become columns unless declared as leaves */
+const flattenEntry = (
+  value: Record<string, unknown>,
+  leafKeys: Set<string>,
+  prefix: string[] = [],
+  leaves: Map<string, unknown> = new Map()
+): Map<string, unknown> => {
+  for (const [key, child] of Object.entries(value)) {
+    if (child === undefined) continue;
+    const segments = [...prefix, key];
+    const pathKey = toPathKey(segments);
+
+    if (isPlainObject(child) && Object.keys(child).length > 0 && !leafKeys.has(pathKey)) {
+      flattenEntry(child, leafKeys, segments, leaves);
+    } else {
+      leaves.set(pathKey, child);
+    }
+  }
+  return leaves;
+};
+
+const setPath = (target: Record<string, unknown>, segments: string[], value: unknown): void => {
+  let current = target;
+  segments.slice(0, -1).forEach(key => {
+    if (!isPlainObject(current[key])) current[key] = {};
+    current = current[key] as Record<string, unknown>;
+  });
+  current[segments[segments.length - 1]!] = value;
+};
+
+// ============================================================================
+// ENCODE / DECODE
+// ============================================================================
+
+export const isScoutingTransferPayload = (data: unknown): data is ScoutingTransferPayload =>
+  isPlainObject(data) && Array.isArray(data.entries) && data.entries.every(isPlainObject);
+
+export const isScoutingCodecData = (data: Uint8Array): boolean =>
+  data.length > 4 && data[0] === CODEC_MAGIC[0] && data[1] === CODEC_MAGIC[1];
+
+/**
+ * Encode a `{ entries, ... }` export. Fields other than `entries` (version,
+ * exportedAt, scout profiles for combined transfers) travel as JSON.
+ * @param gameFields - Game-specific field layout, checked after the base entry fields
+ */
+export function encodeScoutingTransfer(data: unknown, gameFields: ScoutingCodecField[] = []): Uint8Array {
+  if (!isScoutingTransferPayload(data)) {
+    throw new Error('Binary codec only supports scouting entry exports');
+  }
+
+  const { entries, ...envelope } = data;
+  const declared = new Map(
+    [...SCOUTING_ENTRY_CODEC_FIELDS, ...gameFields].map(field => [toPathKey(field.path.split('.')), field.kind])
+  );
+  const leafKeys = new Set([...declared].filter(([, kind]) => kind === 'path' || kind === 'json').map(([key]) => key));
+  const rows = entries.map(entry => flattenEntry(entry, leafKeys));
+
+  // Declared fields first so the layout is stable, then anything the schema does not know
+  const seenKeys = new Set(rows.flatMap(row => [...row.keys()]));
+  const columnKeys = [
+    ...[...declared.keys()].filter(key => seenKeys.has(key)),
+    ...[...seenKeys].filter(key => !declared.has(key)),
+  ];
+
+  const body = new ByteWriter();
+  body.string(JSON.stringify(envelope));
+  body.varint(entries.length);
+  body.varint(columnKeys.length);
+
+  for (const key of columnKeys) {
+    const present = rows.map(row => row.has(key));
+    const presentValues = rows.filter(row => row.has(key)).map(row => row.get(key));
+    const values = presentValues.filter(value => value !== null);
+    const declaredKind = declared.get(key);
+    const kind = declaredKind && values.every(value => fitsKind(declaredKind, value))
+      ? declaredKind
+      : inferKind(values);
+    const hasNulls = values.length < presentValues.length;
+
+    const segments = JSON.parse(key) as string[];
+    body.varint(segments.length);
+    segments.forEach(segment => body.string(segment));
+    body.byte(KIND_CODES[kind]);
+    body.section(column => {
+      column.byte(hasNulls ? COLUMN_FLAG_HAS_NULLS : 0);
+      column.bytes(packBits(present));
+      if (hasNulls) column.bytes(packBits(presentValues.map(value => value === null)));
+      writeValues(column, kind, values);
+    });
+  }
+
+  const raw = body.finish();
+  const deflated = pako.deflateRaw(raw, { level: 9 });
+  const useDeflate = deflated.length < raw.length;
+
+  const output = new ByteWriter();
+  output.byte(CODEC_MAGIC[0]);
+  output.byte(CODEC_MAGIC[1]);
+  output.byte(SCOUTING_CODEC_FORMAT_VERSION);
+  output.byte(useDeflate ? FLAG_DEFLATED : 0);
+  output.bytes(useDeflate ? deflated : raw);
+  return output.finish();
+}
+
+/**
+ * Decode data from encodeScoutingTransfer. Fields are rebuilt from the paths in
+ * the data, so entries keep fields this device's schema does not define.
+ */
+export function decodeScoutingTransfer<T = unknown>(data: Uint8Array): T {
+  if (!isScoutingCodecData(data)) {
+    throw new Error('Not binary scouting data');
+  }
+
+  const formatVersion = data[2]!;
+  if (formatVersion > SCOUTING_CODEC_FORMAT_VERSION) {
+    throw new Error(`Scouting data uses a newer format (v${formatVersion}). Update this device to import it.`);
+  }
+
+  const flags = data[3]!;
+  const raw = data.subarray(4);
+  const body = new ByteReader(flags & FLAG_DEFLATED ? pako.inflateRaw(raw) : raw);
+
+  const envelope = JSON.parse(body.string()) as Record<string, unknown>;
+  const entryCount = body.varint();
+  const entries: Record<string, unknown>[] = Array.from({ length: entryCount }, () => ({}));
+  const skippedFields: string[] = [];
+
+  const columnCount = body.varint();
+  for (let columnIndex = 0; columnIndex < columnCount; columnIndex++) {
+    const segments = Array.from({ length: body.varint() }, () => body.string());
+    const kind = KINDS_BY_CODE.get(body.byte());
+    const column = body.section();
+
+    if (!kind) {
+      skippedFields.push(segments.join('.'));
+      continue;
+    }
+
+    const columnFlags = column.byte();
+    const present = unpackBits(column, entryCount);
+    const presentCount = present.filter(Boolean).length;
+    const nulls = columnFlags & COLUMN_FLAG_HAS_NULLS
+      ? unpackBits(column, presentCount)
+      : new Array<boolean>(presentCount).fill(false);
+    const values = readValues(column, kind, nulls.filter(isNull => !isNull).length);
+
+    let presentIndex = 0;
+    let valueIndex = 0;
+    present.forEach((isPresent, entryIndex) => {
+      if (!isPresent) return;
+      const value = nulls[presentIndex++] ? null : values[valueIndex++];
+      setPath(entries[entryIndex]!, segments, value);
+    });
+  }
+
+  if (skippedFields.length > 0) {
+    console.warn(`Skipped scouting fields in an unsupported format: ${skippedFields.join(', ')}`);
+  }
+
+  return { ...envelope, entries } as T;
+}
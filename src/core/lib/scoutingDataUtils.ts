@@ -44,12 +44,29 @@ export const generateDeterministicEntryId = (
   return `${event}::${match}::${team}::${alliance}`;
 };
 
+/** JSON with object keys sorted at every level, so key order never matters */
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item ?? null)).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const fields = Object.entries(value)
+      .filter(([, fieldValue]) => fieldValue !== undefined)
+      .sort(([keyA], [keyB]) => keyA.localeCompare(keyB))
+      .map(([key, fieldValue]) => `${JSON.stringify(key)}:${stableStringify(fieldValue)}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
 export const generateDataFingerprint = (entry: ScoutingEntryBase): string => {
+  // Nested keys are sorted too: entries rebuilt by a transfer codec (see
+  // scoutingCodec.ts) come back with the same values in a different key order
   const sortedEntries = Object.entries(entry.gameData || {})
     .sort(([keyA], [keyB]) => keyA.localeCompare(keyB));
   
   const dataString = sortedEntries
-    .map(([key, value]) => `${key}:${JSON.stringify(value)}`)
+    .map(([key, value]) => `${key}:${stableStringify(value)}`)
     .join('|');
   
   let hash = 2166136261;
@@ -1,5 +1,6 @@
 import { proxyGetJson } from '@/core/lib/apiProxy';
 import type { TBAMatchData } from '@/core/lib/tbaMatchData';
+import { workspaceStorage } from '@/core/db/eventWorkspaceDatabase';
 
 export interface StatboticsEPAMetrics {
   totalPoints: number;
@@ -103,9 +104,8 @@ const fetchTeamEventEPA = async (teamNumber: number, eventKey: string): Promise<
 export const getCachedStatboticsEventKeys = (): string[] => {
   try {
     const keys: string[] = [];
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && key.startsWith(STATBOTICS_STORAGE_PREFIX)) {
+    for (const key of workspaceStorage.keys()) {
+      if (key.startsWith(STATBOTICS_STORAGE_PREFIX)) {
         const eventKey = key.replace(STATBOTICS_STORAGE_PREFIX, '');
         if (eventKey) keys.push(eventKey);
       }
@@ -119,7 +119,7 @@ export const getCachedStatboticsEventKeys = (): string[] => {
 
 export const clearCachedEventStatboticsEPA = (eventKey: string): void => {
   try {
-    localStorage.removeItem(getStorageKey(eventKey));
+    workspaceStorage.removeItem(getStorageKey(eventKey));
   } catch (error) {
     console.warn(`[Statbotics] Failed to clear cached data for ${eventKey}:`, error);
   }
@@ -127,7 +127,7 @@ export const clearCachedEventStatboticsEPA = (eventKey: string): void => {
 
 export const getCachedEventStatboticsEPA = (eventKey: string): Map<number, StatboticsEPAMetrics> => {
   try {
-    const raw = localStorage.getItem(getStorageKey(eventKey));
+    const raw = workspaceStorage.getItem(getStorageKey(eventKey));
     if (!raw) return new Map();
 
     const parsed = JSON.parse(raw) as CachedStatboticsEventPayload;
@@ -151,7 +151,7 @@ export const getCachedEventStatboticsEPA = (eventKey: string): Map<number, Statb
 
 export const getCachedStatboticsFetchedAt = (eventKey: string): number | null => {
   try {
-    const raw = localStorage.getItem(getStorageKey(eventKey));
+    const raw = workspaceStorage.getItem(getStorageKey(eventKey));
     if (!raw) return null;
 
     const parsed = JSON.parse(raw) as CachedStatboticsEventPayload;
@@ -204,7 +204,7 @@ export const fetchAndCacheEventStatboticsEPA = async (
   const metricsByTeam = new Map<number, StatboticsEPAMetrics>();
 
   if (uniqueTeams.length === 0) {
-    localStorage.setItem(
+    workspaceStorage.setItem(
       getStorageKey(eventKey),
       JSON.stringify({
         schemaVersion: STATBOTICS_SCHEMA_VERSION,
@@ -239,6 +239,6 @@ export const fetchAndCacheEventStatboticsEPA = async (
     metricsByTeam: Object.fromEntries(metricsByTeam.entries()),
   };
 
-  localStorage.setItem(getStorageKey(eventKey), JSON.stringify(payload));
+  workspaceStorage.setItem(getStorageKey(eventKey), JSON.stringify(payload));
   return metricsByTeam;
 };
@@ -2,14 +2,24 @@
  * Strategy Canvas Utility Functions
  * 
  * Utilities for managing field strategy canvases including:
+ * - Loading and saving the vector whiteboard
  * - Clearing all strategy drawings
- * - Saving composite images of all game phases
+ * - Exporting all game phases as a PNG or printable PDF handout
  */
 
 import { drawSelectedAutoRoutines, drawTeamNumbersAndSpots } from "@/core/lib/canvasUtils";
 import type { StrategyAutoRoutine } from "@/core/hooks/useMatchStrategy";
-
-type StrategyStageId = 'autonomous' | 'teleop' | 'endgame';
+import { workspaceStorage } from "@/core/db/eventWorkspaceDatabase";
+import {
+    WHITEBOARD_STAGES,
+    createEmptyWhiteboard,
+    drawWhiteboardElements,
+    isWhiteboardStageId,
+    type WhiteboardBoard,
+    type WhiteboardStageId,
+} from "@/core/lib/strategyWhiteboard";
+
+type StrategyStageId = WhiteboardStageId;
 
 interface TeamSpotPoint {
     x: number;
@@ -31,213 +41,249 @@ interface SaveAllStrategyOptions {
     teamSlotSpotVisibility?: TeamSlotSpotVisibility[];
     getTeamSpots?: (teamNumber: number | null, stageId: StrategyStageId) => TeamStageSpots;
     selectedAutoRoutinesBySlot?: (StrategyAutoRoutine | null)[];
+    /** Board to export; defaults to the saved whiteboard */
+    board?: WhiteboardBoard;
+    /** 'pdf' opens the handout in a print window so it can be saved as PDF */
+    format?: 'png' | 'pdf';
 }
 
-export const clearAllStrategies = (setActiveTab: (tab: string) => void, activeTab: string) => {
-    // Clear all localStorage data for the three stages
-    localStorage.removeItem('fieldStrategy_autonomous');
-    localStorage.removeItem('fieldStrategy_teleop');
-    localStorage.removeItem('fieldStrategy_endgame');
-
-    // Force refresh of all canvases by changing the activeTab and back
-    const currentTab = activeTab;
-    setActiveTab('');
-    setTimeout(() => {
-        setActiveTab(currentTab);
-    }, 50);
+export const STRATEGY_WHITEBOARD_STORAGE_KEY = 'fieldStrategy_whiteboard';
+
+// Raster drawings saved per stage before the whiteboard was stored as vectors
+const legacyDrawingKey = (stageId: StrategyStageId) => `fieldStrategy_${stageId}`;
+
+/**
+ * Load the saved whiteboard. Raster drawings from before the vector format
+ * are carried over as each stage's legacy image.
+ */
+export const loadStrategyWhiteboard = (): WhiteboardBoard => {
+    const board = createEmptyWhiteboard();
+    const saved = workspaceStorage.getItem(STRATEGY_WHITEBOARD_STORAGE_KEY);
+
+    if (!saved) {
+        WHITEBOARD_STAGES.forEach(({ id }) => {
+            const legacyImage = workspaceStorage.getItem(legacyDrawingKey(id));
+            if (legacyImage) {
+                board[id] = { elements: [], legacyImage };
+            }
+        });
+        return board;
+    }
+
+    try {
+        const parsed = JSON.parse(saved) as Partial<WhiteboardBoard>;
+        Object.entries(parsed).forEach(([stageId, stage]) => {
+            if (isWhiteboardStageId(stageId) && stage && Array.isArray(stage.elements)) {
+                board[stageId] = stage;
+            }
+        });
+    } catch (error) {
+        console.error('Failed to parse saved strategy whiteboard:', error);
+    }
+
+    return board;
+};
+
+export const saveStrategyWhiteboard = (board: WhiteboardBoard) => {
+    workspaceStorage.setItem(STRATEGY_WHITEBOARD_STORAGE_KEY, JSON.stringify(board));
+    // Legacy images now live in the board itself
+    WHITEBOARD_STAGES.forEach(({ id }) => workspaceStorage.removeItem(legacyDrawingKey(id)));
 };
 
+const loadImage = (src: string): Promise<HTMLImageElement | null> => new Promise((resolve) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => resolve(null);
+    img.src = src;
+});
+
+/**
+ * Draw one stage's whiteboard (legacy image first, then elements) onto a
+ * transparent layer, so eraser strokes never cut through the field image.
+ */
+export const renderWhiteboardStageLayer = (
+    board: WhiteboardBoard,
+    stageId: StrategyStageId,
+    width: number,
+    height: number,
+    legacyImage?: HTMLImageElement | null,
+): HTMLCanvasElement => {
+    const layer = document.createElement('canvas');
+    layer.width = width;
+    layer.height = height;
+    const ctx = layer.getContext('2d');
+    if (!ctx) return layer;
+
+    if (legacyImage) {
+        ctx.drawImage(legacyImage, 0, 0, width, height);
+    }
+    drawWhiteboardElements(ctx, board[stageId].elements, width, height);
+
+    return layer;
+};
+
+const HANDOUT_MAX_WIDTH = 1600;
+const HANDOUT_FALLBACK_SIZE = { width: 1200, height: 600 };
+
 export const saveAllStrategyCanvases = (
     matchNumber: string | number,
     selectedTeams: (number | null)[],
     fieldImagePath?: string,
     options?: SaveAllStrategyOptions,
 ) => {
-    // Add a small delay to ensure all canvases are rendered
-    setTimeout(() => {
-        // Try to get from localStorage first since it's more reliable
-        const autonomousData = localStorage.getItem('fieldStrategy_autonomous');
-        const teleopData = localStorage.getItem('fieldStrategy_teleop');
-        const endgameData = localStorage.getItem('fieldStrategy_endgame');
-
-        if (!autonomousData || !teleopData || !endgameData) {
-            alert('Please draw on all three strategy tabs (Autonomous, Teleop, and Endgame) before saving');
-            return;
+    const board = options?.board ?? loadStrategyWhiteboard();
+    const format = options?.format ?? 'png';
+
+    // Open the print window straight away - browsers block pop-ups that are
+    // not opened directly from the click
+    const printWindow = format === 'pdf' ? window.open('', '_blank') : null;
+    if (format === 'pdf' && !printWindow) {
+        alert('Allow pop-ups for this site to print the strategy handout');
+        return;
+    }
+
+    const buildHandout = async () => {
+        const fieldImg = fieldImagePath ? await loadImage(fieldImagePath) : null;
+        const legacyImages = await Promise.all(
+            WHITEBOARD_STAGES.map(({ id }) => {
+                const legacyImage = board[id].legacyImage;
+                return legacyImage ? loadImage(legacyImage) : Promise.resolve(null);
+            })
+        );
+
+        // Render at the field image's own resolution (capped) so the handout stays sharp
+        let targetWidth = HANDOUT_FALLBACK_SIZE.width;
+        let targetHeight = HANDOUT_FALLBACK_SIZE.height;
+        if (fieldImg && fieldImg.naturalWidth > 0) {
+            targetWidth = Math.min(fieldImg.naturalWidth, HANDOUT_MAX_WIDTH);
+            targetHeight = Math.round(targetWidth * (fieldImg.naturalHeight / fieldImg.naturalWidth));
         }
 
-        // Create a new canvas to composite all three images
         const compositeCanvas = document.createElement('canvas');
         const ctx = compositeCanvas.getContext('2d');
-        if (!ctx) return;
-
-        // Load all three drawing images
-        const autonomousDrawingImg = new Image();
-        const teleopDrawingImg = new Image();
-        const endgameDrawingImg = new Image();
-
-        // Load the field background image
-        const fieldImg = new Image();
-
-        let loadedCount = 0;
-        const totalImages = fieldImagePath ? 4 : 3; // Include field image if path provided
-
-        const compositeFieldWithDrawing = (
-            stageId: StrategyStageId,
-            fieldImage: HTMLImageElement,
-            drawingImage: HTMLImageElement,
-            width: number,
-            height: number,
-        ): HTMLCanvasElement => {
-            const tempCanvas = document.createElement('canvas');
-            tempCanvas.width = width;
-            tempCanvas.height = height;
-            const tempCtx = tempCanvas.getContext('2d');
-            if (!tempCtx) return tempCanvas;
-
-            // Draw field background first
-            tempCtx.drawImage(fieldImage, 0, 0, width, height);
-            // Draw strategy overlays (team numbers, spots, and selected auto routines)
+        if (!ctx) return null;
+
+        // Set composite canvas size (3x height for stacking + extra space for match number)
+        // Scale fonts relative to width
+        const scaleFactor = targetWidth / 1000; // Base scale on 1000px width
+        const topMargin = matchNumber ? Math.round(60 * scaleFactor) : Math.round(40 * scaleFactor);
+        const sectionHeaderHeight = Math.round(40 * scaleFactor);
+        const sectionBlockHeight = sectionHeaderHeight + targetHeight;
+
+        compositeCanvas.width = targetWidth;
+        compositeCanvas.height = topMargin + (sectionBlockHeight * WHITEBOARD_STAGES.length);
+
+        // Clear canvas with white background
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, compositeCanvas.width, compositeCanvas.height);
+
+        // Add match number at the very top if provided
+        if (matchNumber) {
+            ctx.fillStyle = '#000000';
+            ctx.textAlign = 'center';
+            const fontSize = Math.round(20 * scaleFactor);
+            ctx.font = `bold ${fontSize}px Arial`;
+            ctx.fillText(`Match ${matchNumber}`, targetWidth / 2, Math.round(30 * scaleFactor));
+        }
+
+        WHITEBOARD_STAGES.forEach(({ id, label }, index) => {
+            const yOffset = topMargin + (sectionBlockHeight * index);
+            const imgY = yOffset + sectionHeaderHeight;
+
+            ctx.fillStyle = '#000000';
+            ctx.font = `bold ${Math.round(24 * scaleFactor)}px Arial`;
+            ctx.textAlign = 'center';
+            ctx.fillText(label.toUpperCase(), targetWidth / 2, yOffset + Math.round(sectionHeaderHeight * 0.7));
+
+            const section = document.createElement('canvas');
+            section.width = targetWidth;
+            section.height = targetHeight;
+            const sectionCtx = section.getContext('2d');
+            if (!sectionCtx) return;
+
+            // Field, then strategy overlays (team numbers, spots, selected auto routines), then the plan
+            if (fieldImg) {
+                sectionCtx.drawImage(fieldImg, 0, 0, targetWidth, targetHeight);
+            }
             drawTeamNumbersAndSpots(
-                tempCtx,
-                width,
-                height,
+                sectionCtx,
+                targetWidth,
+                targetHeight,
                 selectedTeams,
-                stageId,
+                id,
                 options?.teamSlotSpotVisibility,
                 options?.getTeamSpots,
             );
             drawSelectedAutoRoutines(
-                tempCtx,
-                width,
-                height,
+                sectionCtx,
+                targetWidth,
+                targetHeight,
                 selectedTeams,
-                stageId,
+                id,
                 options?.selectedAutoRoutinesBySlot,
                 null,
             );
-            // Draw the user's drawings on top
-            tempCtx.drawImage(drawingImage, 0, 0, width, height);
-
-            return tempCanvas;
-        };
-
-        const onImageLoad = () => {
-            loadedCount++;
-            if (loadedCount === totalImages) {
-                // All images loaded, now composite them
-                // Use field image natural size as the target resolution, or fallback to drawing size (but ideally larger)
-                // If field image is available, use its high-res dimensions. Otherwise, scale up if too small?
-                // For now, let's trust the field image if it exists.
-
-                let targetWidth = autonomousDrawingImg.width;
-                let targetHeight = autonomousDrawingImg.height;
-
-                // Set composite canvas size (3x height for stacking + extra space for match number)
-                // Scale fonts relative to width
-                const scaleFactor = targetWidth / 1000; // Base scale on 1000px width
-                const topMargin = matchNumber ? Math.round(60 * scaleFactor) : Math.round(40 * scaleFactor);
-                const sectionHeaderHeight = Math.round(40 * scaleFactor);
-                const sectionBlockHeight = sectionHeaderHeight + targetHeight;
-
-                compositeCanvas.width = targetWidth;
-                compositeCanvas.height = topMargin + (sectionBlockHeight * 3);
-
-                // Clear canvas with white background
-                ctx.fillStyle = '#ffffff';
-                ctx.fillRect(0, 0, compositeCanvas.width, compositeCanvas.height);
-
-                // Add match number at the very top if provided
-                if (matchNumber) {
-                    ctx.fillStyle = '#000000';
-                    ctx.textAlign = 'center';
-                    // Scale font based on resolution
-                    const fontSize = Math.round(20 * scaleFactor);
-                    ctx.font = `bold ${fontSize}px Arial`;
-                    ctx.fillText(`Match ${matchNumber}`, targetWidth / 2, Math.round(30 * scaleFactor));
-                }
-
-                // Draw title labels for each section
-                ctx.fillStyle = '#000000';
-                const labelFontSize = Math.round(24 * scaleFactor);
-                ctx.font = `bold ${labelFontSize}px Arial`;
-                ctx.textAlign = 'center';
-
-                // Helper to draw section
-                const drawSection = (label: string, stageId: StrategyStageId, drawingImg: HTMLImageElement, yOffset: number) => {
-                    const labelY = yOffset + Math.round(sectionHeaderHeight * 0.7);
-                    const imgY = yOffset + sectionHeaderHeight;
-
-                    ctx.fillText(label, targetWidth / 2, labelY);
-
-                    if (fieldImagePath && fieldImg.complete && fieldImg.naturalWidth > 0) {
-                        const composite = compositeFieldWithDrawing(stageId, fieldImg, drawingImg, targetWidth, targetHeight);
-                        ctx.drawImage(composite, 0, imgY);
-                    } else {
-                        // Scale drawing to target size
-                        ctx.drawImage(drawingImg, 0, imgY, targetWidth, targetHeight);
-                    }
-                };
-
-                // Draw Autonomous section
-                drawSection('AUTONOMOUS', 'autonomous', autonomousDrawingImg, topMargin);
-
-                // Draw Teleop section
-                drawSection('TELEOP', 'teleop', teleopDrawingImg, topMargin + sectionBlockHeight);
-
-                // Draw Endgame section
-                drawSection('ENDGAME', 'endgame', endgameDrawingImg, topMargin + (sectionBlockHeight * 2));
-
-                // Add team information at the top
-                const teamFontSize = Math.round(16 * scaleFactor);
-                ctx.font = `bold ${teamFontSize}px Arial`;
-                const blueTeams = selectedTeams.slice(3, 6).filter(Boolean).map(t => t?.toString()); // Blue teams (originally index 3-5)
-                const redTeams = selectedTeams.slice(0, 3).filter(Boolean).map(t => t?.toString());  // Red teams (originally index 0-2)
-
-                if (blueTeams.length > 0 || redTeams.length > 0) {
-                    const teamInfoY = matchNumber ? Math.round(50 * scaleFactor) : Math.round(20 * scaleFactor);
-
-                    // Blue alliance on left side
-                    ctx.fillStyle = '#0000ff';
-                    ctx.textAlign = 'left';
-                    ctx.fillText(`Blue: ${blueTeams.join(', ')}`, Math.round(10 * scaleFactor), teamInfoY);
-
-                    // Red alliance on right side
-                    ctx.fillStyle = '#ff0000';
-                    ctx.textAlign = 'right';
-                    ctx.fillText(`Red: ${redTeams.join(', ')}`, targetWidth - Math.round(10 * scaleFactor), teamInfoY);
-                }
-
-                // Download the composite image
-                const dataURL = compositeCanvas.toDataURL('image/png');
-                const link = document.createElement('a');
-                link.href = dataURL;
-                const filename = matchNumber
-                    ? `match-${matchNumber}-strategy-${new Date().toISOString().slice(0, 10)}.png`
-                    : `match-strategy-complete-${new Date().toISOString().slice(0, 10)}.png`;
-                link.download = filename;
-                link.click();
-            }
-        };
-
-        // Set up image load handlers
-        autonomousDrawingImg.onload = onImageLoad;
-        teleopDrawingImg.onload = onImageLoad;
-        endgameDrawingImg.onload = onImageLoad;
-
-        if (fieldImagePath) {
-            fieldImg.onload = onImageLoad;
-            fieldImg.onerror = () => {
-                // If field image fails to load, still proceed without it
-                loadedCount++;
-                onImageLoad();
-            };
-            fieldImg.src = fieldImagePath;
+            sectionCtx.drawImage(renderWhiteboardStageLayer(board, id, targetWidth, targetHeight, legacyImages[index]), 0, 0);
+
+            ctx.drawImage(section, 0, imgY);
+        });
+
+        // Add team information at the top
+        const teamFontSize = Math.round(16 * scaleFactor);
+        ctx.font = `bold ${teamFontSize}px Arial`;
+        const blueTeams = selectedTeams.slice(3, 6).filter(Boolean).map(t => t?.toString()); // Blue teams (originally index 3-5)
+        const redTeams = selectedTeams.slice(0, 3).filter(Boolean).map(t => t?.toString());  // Red teams (originally index 0-2)
+
+        if (blueTeams.length > 0 || redTeams.length > 0) {
+            const teamInfoY = matchNumber ? Math.round(50 * scaleFactor) : Math.round(20 * scaleFactor);
+
+            // Blue alliance on left side
+            ctx.fillStyle = '#0000ff';
+            ctx.textAlign = 'left';
+            ctx.fillText(`Blue: ${blueTeams.join(', ')}`, Math.round(10 * scaleFactor), teamInfoY);
+
+            // Red alliance on right side
+            ctx.fillStyle = '#ff0000';
+            ctx.textAlign = 'right';
+            ctx.fillText(`Red: ${redTeams.join(', ')}`, targetWidth - Math.round(10 * scaleFactor), teamInfoY);
         }
 
-        // Load the drawing images
-        autonomousDrawingImg.src = autonomousData;
-        teleopDrawingImg.src = teleopData;
-        endgameDrawingImg.src = endgameData;
+        return compositeCanvas.toDataURL('image/png');
+    };
+
+    void buildHandout().then((dataURL) => {
+        if (!dataURL) {
+            printWindow?.close();
+            return;
+        }
+
+        const title = matchNumber ? `Match ${matchNumber} Strategy` : 'Match Strategy';
+
+        if (printWindow) {
+            const doc = printWindow.document;
+            doc.title = title;
+            doc.body.style.margin = '0';
+            const img = doc.createElement('img');
+            img.style.width = '100%';
+            img.alt = title;
+            img.onload = () => {
+                printWindow.focus();
+                printWindow.print();
+            };
+            img.src = dataURL;
+            doc.body.appendChild(img);
+            return;
+        }
 
-    }, 100); // Small delay to ensure DOM is ready
+        // Download the composite image
+        const link = document.createElement('a');
+        link.href = dataURL;
+        link.download = matchNumber
+            ? `match-${matchNumber}-strategy-${new Date().toISOString().slice(0, 10)}.png`
+            : `match-strategy-complete-${new Date().toISOString().slice(0, 10)}.png`;
+        link.click();
+    }).catch((error) => {
+        console.error('Failed to export strategy handout:', error);
+        printWindow?.close();
+    });
 };
@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyWhiteboardOperation,
+  applyWhiteboardSessionMessage,
+  createEmptyWhiteboard,
+  findMovableElementAt,
+  getWhiteboardReplayFrame,
+  invertWhiteboardOperation,
+  isWhiteboardSessionMessage,
+  type WhiteboardBoard,
+  type WhiteboardElement,
+  type WhiteboardOperation,
+} from './strategyWhiteboard';
+
+const stroke = (id: string, pointCount: number): WhiteboardElement => ({
+  id,
+  createdAt: 1,
+  kind: 'stroke',
+  points: Array.from({ length: pointCount }, (_, index) => ({ x: index / 10, y: 0.5 })),
+  color: '#ff0000',
+  size: 0.005,
+});
+
+const robot = (id: string, x: number): WhiteboardElement => ({
+  id,
+  createdAt: 1,
+  kind: 'robot',
+  position: { x, y: 0.5 },
+  teamNumber: 254,
+  alliance: 'red',
+});
+
+const applyAll = (board: WhiteboardBoard, ops: WhiteboardOperation[]) =>
+  ops.reduce(applyWhiteboardOperation, board);
+
+describe('applyWhiteboardOperation / invertWhiteboardOperation', () => {
+  it('undoes adds, moves and clears in any order', () => {
+    const start = applyAll(createEmptyWhiteboard(), [
+      { type: 'add', stageId: 'teleop', element: stroke('s1', 3) },
+      { type: 'add', stageId: 'teleop', element: robot('r1', 0.2) },
+    ]);
+
+    const ops: WhiteboardOperation[] = [
+      { type: 'update', stageId: 'teleop', element: robot('r1', 0.6) },
+      { type: 'add', stageId: 'teleop', element: stroke('s2', 2) },
+      { type: 'clear', stageId: 'teleop' },
+    ];
+
+    let board = start;
+    const inverses: WhiteboardOperation[] = [];
+    ops.forEach(op => {
+      inverses.push(invertWhiteboardOperation(board, op));
+      board = applyWhiteboardOperation(board, op);
+    });
+
+    expect(board.teleop.elements).toEqual([]);
+    const undone = [...inverses].reverse().reduce(applyWhiteboardOperation, board);
+    expect(undone).toEqual(start);
+  });
+
+  it('does not duplicate an element when an add is applied twice', () => {
+    const add: WhiteboardOperation = { type: 'add', stageId: 'autonomous', element: stroke('s1', 2) };
+    const board = applyAll(createEmptyWhiteboard(), [add, add]);
+
+    expect(board.autonomous.elements).toHaveLength(1);
+  });
+});
+
+describe('getWhiteboardReplayFrame', () => {
+  it('reveals strokes point by point in drawing order', () => {
+    const elements = [stroke('s1', 4), robot('r1', 0.5), stroke('s2', 4)];
+
+    const frame = getWhiteboardReplayFrame(elements, 0.7);
+
+    expect(frame.map(element => element.id)).toEqual(['s1', 'r1', 's2']);
+    expect(frame[2]?.kind === 'stroke' && frame[2].points).toHaveLength(1);
+    expect(getWhiteboardReplayFrame(elements, 0)).toEqual([]);
+    expect(getWhiteboardReplayFrame(elements, 1)).toEqual(elements);
+  });
+});
+
+describe('findMovableElementAt', () => {
+  it('returns the topmost token under the point and ignores strokes', () => {
+    const elements = [robot('below', 0.5), robot('above', 0.51), stroke('s1', 10)];
+
+    expect(findMovableElementAt(elements, { x: 0.5, y: 0.5 }, 2)?.id).toBe('above');
+    expect(findMovableElementAt(elements, { x: 0.9, y: 0.9 }, 2)).toBeNull();
+  });
+});
+
+describe('applyWhiteboardSessionMessage', () => {
+  const board = applyWhiteboardOperation(createEmptyWhiteboard(), {
+    type: 'add',
+    stageId: 'endgame',
+    element: stroke('s1', 2),
+  });
+  const snapshot = { kind: 'snapshot' as const, sessionId: 'live', hostName: 'Coach', seq: 3, board, label: 'Match 12' };
+  const op = (seq: number) => ({
+    kind: 'op' as const,
+    sessionId: 'live',
+    hostName: 'Coach',
+    seq,
+    op: { type: 'add' as const, stageId: 'endgame' as const, element: robot(`r${seq}`, 0.5) },
+  });
+
+  it('applies operations in sequence after a snapshot', () => {
+    const joined = applyWhiteboardSessionMessage(null, snapshot).state;
+    const update = applyWhiteboardSessionMessage(joined, op(4));
+
+    expect(update.needsSnapshot).toBe(false);
+    expect(update.state?.seq).toBe(4);
+    expect(update.state?.board?.endgame.elements.map(element => element.id)).toEqual(['s1', 'r4']);
+    expect(update.state?.label).toBe('Match 12');
+  });
+
+  it('asks for a snapshot after a gap or when joining mid-session', () => {
+    const joined = applyWhiteboardSessionMessage(null, snapshot).state;
+
+    expect(applyWhiteboardSessionMessage(joined, op(6)).needsSnapshot).toBe(true);
+    expect(applyWhiteboardSessionMessage(null, op(1)).needsSnapshot).toBe(true);
+    // Operations already covered by the snapshot are ignored
+    expect(applyWhiteboardSessionMessage(joined, op(3))).toEqual({ state: joined, needsSnapshot: false });
+  });
+
+  it('marks the session ended and drops drafts', () => {
+    const joined = applyWhiteboardSessionMessage(null, snapshot).state;
+    const drafting = applyWhiteboardSessionMessage(joined, {
+      kind: 'draft',
+      sessionId: 'live',
+      stageId: 'endgame',
+      element: stroke('draft', 2),
+    }).state;
+
+    expect(drafting?.draft?.element.id).toBe('draft');
+    const ended = applyWhiteboardSessionMessage(drafting, { kind: 'end', sessionId: 'live' }).state;
+    expect(ended).toMatchObject({ ended: true, draft: null });
+  });
+
+  it('drops messages with an unknown stage or a malformed element instead of throwing', () => {
+    expect(isWhiteboardSessionMessage(snapshot)).toBe(true);
+    expect(isWhiteboardSessionMessage(op(4))).toBe(true);
+
+    const badStage = { ...op(4), op: { type: 'add', stageId: 'halftime', element: robot('r4', 0.5) } };
+    const badElement = { ...op(4), op: { type: 'add', stageId: 'endgame', element: { id: 'r4', kind: 'robot' } } };
+    const badBoard = { ...snapshot, board: { autonomous: { elements: [] } } };
+    const badDraft = { kind: 'draft', sessionId: 'live', stageId: 'endgame', element: { ...stroke('d', 2), points: null } };
+
+    for (const message of [badStage, badElement, badBoard, badDraft]) {
+      expect(isWhiteboardSessionMessage(message)).toBe(false);
+    }
+    expect(isWhiteboardSessionMessage({ kind: 'end', sessionId: 'live' })).toBe(true);
+    expect(isWhiteboardSessionMessage({ kind: 'shout', sessionId: 'live' })).toBe(false);
+  });
+});
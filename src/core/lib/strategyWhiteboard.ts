@@ -0,0 +1,519 @@
+/**
+ * Strategy whiteboard
+ *
+ * Match strategy drawings are stored as vector elements (strokes, arrows,
+ * text labels and robot tokens) rather than canvas images, so a plan can be
+ * replayed, edited, re-rendered at any size and streamed to other devices.
+ *
+ * Positions are normalized to the unrotated field (0-1 on both axes) and
+ * sizes are fractions of the field width, so every device renders the same
+ * plan regardless of its canvas size or field orientation.
+ *
+ * Every change is a WhiteboardOperation. The drawing device applies it
+ * locally and, while broadcasting a live session, sends it to connected
+ * devices, which apply the same operation to their copy.
+ */
+
+export type WhiteboardStageId = 'autonomous' | 'teleop' | 'endgame';
+
+export const WHITEBOARD_STAGES: ReadonlyArray<{ id: WhiteboardStageId; label: string }> = [
+  { id: 'autonomous', label: 'Autonomous' },
+  { id: 'teleop', label: 'Teleop' },
+  { id: 'endgame', label: 'Endgame' },
+];
+
+export interface WhiteboardPoint {
+  x: number;
+  y: number;
+}
+
+interface WhiteboardElementBase {
+  id: string;
+  createdAt: number;
+}
+
+export interface WhiteboardStroke extends WhiteboardElementBase {
+  kind: 'stroke';
+  points: WhiteboardPoint[];
+  color: string;
+  /** Line width as a fraction of the field width */
+  size: number;
+  /** Eraser strokes clear whatever was drawn underneath them */
+  erase?: boolean;
+}
+
+export interface WhiteboardArrow extends WhiteboardElementBase {
+  kind: 'arrow';
+  from: WhiteboardPoint;
+  to: WhiteboardPoint;
+  color: string;
+  size: number;
+}
+
+export interface WhiteboardText extends WhiteboardElementBase {
+  kind: 'text';
+  position: WhiteboardPoint;
+  text: string;
+  color: string;
+  /** Font size as a fraction of the field width */
+  size: number;
+}
+
+export interface WhiteboardRobot extends WhiteboardElementBase {
+  kind: 'robot';
+  position: WhiteboardPoint;
+  teamNumber: number | null;
+  alliance: 'red' | 'blue';
+}
+
+export type WhiteboardElement = WhiteboardStroke | WhiteboardArrow | WhiteboardText | WhiteboardRobot;
+
+export interface WhiteboardStage {
+  elements: WhiteboardElement[];
+  /** Raster drawing saved before the vector format, drawn beneath the elements until cleared */
+  legacyImage?: string;
+}
+
+export type WhiteboardBoard = Record<WhiteboardStageId, WhiteboardStage>;
+
+export type WhiteboardOperation =
+  | { type: 'add'; stageId: WhiteboardStageId; element: WhiteboardElement }
+  | { type: 'update'; stageId: WhiteboardStageId; element: WhiteboardElement }
+  | { type: 'remove'; stageId: WhiteboardStageId; elementId: string }
+  | { type: 'clear'; stageId: WhiteboardStageId }
+  | { type: 'replace'; stageId: WhiteboardStageId; stage: WhiteboardStage };
+
+/** Robot token radius as a fraction of the field width */
+export const ROBOT_TOKEN_RADIUS = 0.022;
+export const DEFAULT_TEXT_SIZE = 0.025;
+
+const ALLIANCE_COLORS = { red: '#ef4444', blue: '#3b82f6' } as const;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+export const createEmptyWhiteboard = (): WhiteboardBoard => ({
+  autonomous: { elements: [] },
+  teleop: { elements: [] },
+  endgame: { elements: [] },
+});
+
+export const createWhiteboardElementId = (now = Date.now()): string =>
+  `wb-${now}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const isWhiteboardStageId = (value: unknown): value is WhiteboardStageId =>
+  WHITEBOARD_STAGES.some(stage => stage.id === value);
+
+// ============================================================================
+// OPERATIONS
+// ============================================================================
+
+/** Apply an operation, returning a new board. Unknown element IDs are ignored. */
+export const applyWhiteboardOperation = (board: WhiteboardBoard, op: WhiteboardOperation): WhiteboardBoard => {
+  const stage = board[op.stageId];
+  let next: WhiteboardStage;
+
+  switch (op.type) {
+    case 'add':
+      // Re-applying an add (e.g. a resent message) must not duplicate the element
+      next = { ...stage, elements: [...stage.elements.filter(element => element.id !== op.element.id), op.element] };
+      break;
+    case 'update':
+      next = { ...stage, elements: stage.elements.map(element => element.id === op.element.id ? op.element : element) };
+      break;
+    case 'remove':
+      next = { ...stage, elements: stage.elements.filter(element => element.id !== op.elementId) };
+      break;
+    case 'clear':
+      next = { elements: [] };
+      break;
+    case 'replace':
+      next = op.stage;
+      break;
+  }
+
+  return { ...board, [op.stageId]: next };
+};
+
+/**
+ * The operation that undoes `op` on `board`. Must be computed before `op` is
+ * applied. Removals and clears are undone by restoring the whole stage so the
+ * drawing order is kept.
+ */
+export const invertWhiteboardOperation = (board: WhiteboardBoard, op: WhiteboardOperation): WhiteboardOperation => {
+  const stage = board[op.stageId];
+
+  if (op.type === 'add' && !stage.elements.some(element => element.id === op.element.id)) {
+    return { type: 'remove', stageId: op.stageId, elementId: op.element.id };
+  }
+
+  if (op.type === 'update') {
+    const previous = stage.elements.find(element => element.id === op.element.id);
+    if (previous) return { type: 'update', stageId: op.stageId, element: previous };
+  }
+
+  return { type: 'replace', stageId: op.stageId, stage };
+};
+
+export const isWhiteboardEmpty = (board: WhiteboardBoard): boolean =>
+  WHITEBOARD_STAGES.every(({ id }) => board[id].elements.length === 0 && !board[id].legacyImage);
+
+// ============================================================================
+// HIT TESTING & REPLAY
+// ============================================================================
+
+/**
+ * The topmost text label or robot token at a point, for dragging. `aspect`
+ * is the field's width / height, so hit areas stay round on screen.
+ */
+export const findMovableElementAt = (
+  elements: WhiteboardElement[],
+  point: WhiteboardPoint,
+  aspect: number
+): WhiteboardRobot | WhiteboardText | null => {
+  for (let index = elements.length - 1; index >= 0; index--) {
+    const element = elements[index];
+    if (!element || (element.kind !== 'robot' && element.kind !== 'text')) continue;
+
+    const dx = point.x - element.position.x;
+    const dy = (point.y - element.position.y) / aspect;
+
+    if (element.kind === 'robot' && Math.hypot(dx, dy) <= ROBOT_TOKEN_RADIUS * 1.5) {
+      return element;
+    }
+
+    if (element.kind === 'text') {
+      // Approximate the label box from its character count
+      const halfWidth = (element.text.length * element.size * 0.6) / 2;
+      if (Math.abs(dx) <= halfWidth && Math.abs(dy) <= element.size) return element;
+    }
+  }
+
+  return null;
+};
+
+export const moveWhiteboardElement = <T extends WhiteboardRobot | WhiteboardText>(element: T, position: WhiteboardPoint): T => ({
+  ...element,
+  position: { x: clamp01(position.x), y: clamp01(position.y) },
+});
+
+const replayWeight = (element: WhiteboardElement): number =>
+  element.kind === 'stroke' ? Math.max(1, element.points.length) : 1;
+
+/**
+ * Elements as they were part-way through being drawn, in drawing order.
+ * Progress runs 0-1; strokes are revealed point by point, everything else
+ * appears whole.
+ */
+export const getWhiteboardReplayFrame = (elements: WhiteboardElement[], progress: number): WhiteboardElement[] => {
+  const total = elements.reduce((sum, element) => sum + replayWeight(element), 0);
+  let remaining = Math.round(Math.min(1, Math.max(0, progress)) * total);
+  const frame: WhiteboardElement[] = [];
+
+  for (const element of elements) {
+    if (remaining <= 0) break;
+    const weight = replayWeight(element);
+
+    if (element.kind === 'stroke' && remaining < weight) {
+      frame.push({ ...element, points: element.points.slice(0, remaining) });
+    } else {
+      frame.push(element);
+    }
+    remaining -= weight;
+  }
+
+  return frame;
+};
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+const drawArrowHead = (
+  ctx: CanvasRenderingContext2D,
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  lineWidth: number
+) => {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const headLength = Math.max(10, lineWidth * 4);
+
+  ctx.beginPath();
+  ctx.moveTo(to.x, to.y);
+  ctx.lineTo(to.x - headLength * Math.cos(angle - Math.PI / 6), to.y - headLength * Math.sin(angle - Math.PI / 6));
+  ctx.lineTo(to.x - headLength * Math.cos(angle + Math.PI / 6), to.y - headLength * Math.sin(angle + Math.PI / 6));
+  ctx.closePath();
+  ctx.fill();
+};
+
+/**
+ * Draw elements onto a canvas that covers the field at `width` x `height`.
+ * Eraser strokes use destination-out, so draw onto a dedicated layer.
+ */
+export const drawWhiteboardElements = (
+  ctx: CanvasRenderingContext2D,
+  elements: WhiteboardElement[],
+  width: number,
+  height: number
+) => {
+  const toCanvas = (point: WhiteboardPoint) => ({ x: point.x * width, y: point.y * height });
+
+  ctx.save();
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  elements.forEach(element => {
+    ctx.globalCompositeOperation = 'source-over';
+
+    switch (element.kind) {
+      case 'stroke': {
+        const [first, ...rest] = element.points;
+        if (!first) break;
+        const lineWidth = Math.max(1, element.size * width);
+        ctx.globalCompositeOperation = element.erase ? 'destination-out' : 'source-over';
+        ctx.strokeStyle = element.erase ? 'rgba(0,0,0,1)' : element.color;
+        ctx.fillStyle = ctx.strokeStyle;
+        ctx.lineWidth = lineWidth;
+
+        const start = toCanvas(first);
+        if (rest.length === 0) {
+          ctx.beginPath();
+          ctx.arc(start.x, start.y, lineWidth / 2, 0, Math.PI * 2);
+          ctx.fill();
+          break;
+        }
+
+        ctx.beginPath();
+        ctx.moveTo(start.x, start.y);
+        rest.forEach(point => {
+          const { x, y } = toCanvas(point);
+          ctx.lineTo(x, y);
+        });
+        ctx.stroke();
+        break;
+      }
+      case 'arrow': {
+        const from = toCanvas(element.from);
+        const to = toCanvas(element.to);
+        const lineWidth = Math.max(1, element.size * width);
+        ctx.strokeStyle = element.color;
+        ctx.fillStyle = element.color;
+        ctx.lineWidth = lineWidth;
+        ctx.beginPath();
+        ctx.moveTo(from.x, from.y);
+        ctx.lineTo(to.x, to.y);
+        ctx.stroke();
+        drawArrowHead(ctx, from, to, lineWidth);
+        break;
+      }
+      case 'text': {
+        const { x, y } = toCanvas(element.position);
+        const fontSize = Math.max(10, Math.round(element.size * width));
+        ctx.font = `bold ${fontSize}px Arial`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        // Outline keeps labels readable over the field image
+        ctx.lineWidth = Math.max(2, fontSize / 6);
+        ctx.strokeStyle = element.color === '#ffffff' ? '#000000' : '#ffffff';
+        ctx.strokeText(element.text, x, y);
+        ctx.fillStyle = element.color;
+        ctx.fillText(element.text, x, y);
+        break;
+      }
+      case 'robot': {
+        const { x, y } = toCanvas(element.position);
+        const radius = ROBOT_TOKEN_RADIUS * width;
+        ctx.fillStyle = ALLIANCE_COLORS[element.alliance];
+        ctx.strokeStyle = '#ffffff';
+        ctx.lineWidth = Math.max(2, radius / 6);
+        ctx.beginPath();
+        ctx.arc(x, y, radius, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+
+        if (element.teamNumber !== null) {
+          const label = String(element.teamNumber);
+          ctx.fillStyle = '#ffffff';
+          ctx.font = `bold ${Math.round(radius * (label.length > 4 ? 0.6 : 0.75))}px Arial`;
+          ctx.textAlign = 'center';
+          ctx.textBaseline = 'middle';
+          ctx.fillText(label, x, y);
+        }
+        break;
+      }
+    }
+  });
+
+  ctx.restore();
+};
+
+// ============================================================================
+// LIVE SESSIONS
+// ============================================================================
+
+/**
+ * Messages sent over the peer-to-peer data channels during a live session.
+ * The host numbers snapshots and operations with `seq`; a viewer that sees a
+ * gap asks for a fresh snapshot. Drafts are in-progress strokes and arrows,
+ * sent while the host is still drawing.
+ */
+export type WhiteboardSessionMessage =
+  | { kind: 'snapshot'; sessionId: string; hostName: string; seq: number; board: WhiteboardBoard; label?: string }
+  | { kind: 'op'; sessionId: string; hostName: string; seq: number; op: WhiteboardOperation }
+  | { kind: 'draft'; sessionId: string; stageId: WhiteboardStageId; element: WhiteboardElement | null }
+  | { kind: 'request-snapshot'; sessionId: string }
+  | { kind: 'end'; sessionId: string };
+
+export interface WhiteboardViewerState {
+  sessionId: string;
+  hostName: string;
+  label?: string;
+  /** Null until the first snapshot arrives */
+  board: WhiteboardBoard | null;
+  seq: number;
+  draft: { stageId: WhiteboardStageId; element: WhiteboardElement } | null;
+  ended: boolean;
+}
+
+export interface WhiteboardViewerUpdate {
+  state: WhiteboardViewerState | null;
+  /** The viewer missed an operation (or joined late) and needs a snapshot */
+  needsSnapshot: boolean;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isWhiteboardPoint = (value: unknown): value is WhiteboardPoint =>
+  isRecord(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y);
+
+const isWhiteboardElement = (value: unknown): value is WhiteboardElement => {
+  if (!isRecord(value) || typeof value.id !== 'string' || !isFiniteNumber(value.createdAt)) return false;
+
+  switch (value.kind) {
+    case 'stroke':
+      return Array.isArray(value.points) && value.points.every(isWhiteboardPoint) &&
+        typeof value.color === 'string' && isFiniteNumber(value.size) &&
+        (value.erase === undefined || typeof value.erase === 'boolean');
+    case 'arrow':
+      return isWhiteboardPoint(value.from) && isWhiteboardPoint(value.to) &&
+        typeof value.color === 'string' && isFiniteNumber(value.size);
+    case 'text':
+      return isWhiteboardPoint(value.position) && typeof value.text === 'string' &&
+        typeof value.color === 'string' && isFiniteNumber(value.size);
+    case 'robot':
+      return isWhiteboardPoint(value.position) &&
+        (value.teamNumber === null || isFiniteNumber(value.teamNumber)) &&
+        (value.alliance === 'red' || value.alliance === 'blue');
+    default:
+      return false;
+  }
+};
+
+const isWhiteboardStage = (value: unknown): value is WhiteboardStage =>
+  isRecord(value) && Array.isArray(value.elements) && value.elements.every(isWhiteboardElement) &&
+  (value.legacyImage === undefined || typeof value.legacyImage === 'string');
+
+const isWhiteboardBoard = (value: unknown): value is WhiteboardBoard =>
+  isRecord(value) && WHITEBOARD_STAGES.every(({ id }) => isWhiteboardStage(value[id]));
+
+const isWhiteboardOperation = (value: unknown): value is WhiteboardOperation => {
+  if (!isRecord(value) || !isWhiteboardStageId(value.stageId)) return false;
+
+  switch (value.type) {
+    case 'add':
+    case 'update':
+      return isWhiteboardElement(value.element);
+    case 'remove':
+      return typeof value.elementId === 'string';
+    case 'clear':
+      return true;
+    case 'replace':
+      return isWhiteboardStage(value.stage);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Checks the whole message, elements included, since it comes from another
+ * device. Messages that fail are dropped rather than applied.
+ */
+export const isWhiteboardSessionMessage = (value: unknown): value is WhiteboardSessionMessage => {
+  if (!isRecord(value) || typeof value.sessionId !== 'string') return false;
+
+  switch (value.kind) {
+    case 'snapshot':
+      return typeof value.hostName === 'string' && isFiniteNumber(value.seq) && isWhiteboardBoard(value.board) &&
+        (value.label === undefined || typeof value.label === 'string');
+    case 'op':
+      return typeof value.hostName === 'string' && isFiniteNumber(value.seq) && isWhiteboardOperation(value.op);
+    case 'draft':
+      return isWhiteboardStageId(value.stageId) && (value.element === null || isWhiteboardElement(value.element));
+    case 'request-snapshot':
+    case 'end':
+      return true;
+    default:
+      return false;
+  }
+};
+
+/**
+ * Fold an incoming session message into a viewer's copy of the host's board.
+ * A message from a different session replaces the current one, since only one
+ * coach broadcasts at a time.
+ */
+export const applyWhiteboardSessionMessage = (
+  state: WhiteboardViewerState | null,
+  message: WhiteboardSessionMessage
+): WhiteboardViewerUpdate => {
+  if (message.kind === 'request-snapshot') {
+    return { state, needsSnapshot: false };
+  }
+
+  if (message.kind === 'end') {
+    if (!state || state.sessionId !== message.sessionId) return { state, needsSnapshot: false };
+    return { state: { ...state, ended: true, draft: null }, needsSnapshot: false };
+  }
+
+  if (message.kind === 'draft') {
+    if (!state || state.sessionId !== message.sessionId || !state.board) return { state, needsSnapshot: false };
+    return {
+      state: { ...state, draft: message.element ? { stageId: message.stageId, element: message.element } : null },
+      needsSnapshot: false,
+    };
+  }
+
+  const current: WhiteboardViewerState = state && state.sessionId === message.sessionId
+    ? state
+    : { sessionId: message.sessionId, hostName: message.hostName, board: null, seq: 0, draft: null, ended: false };
+
+  if (message.kind === 'snapshot') {
+    if (current.board && message.seq < current.seq) return { state: current, needsSnapshot: false };
+    return {
+      state: { ...current, hostName: message.hostName, label: message.label, board: message.board, seq: message.seq, ended: false },
+      needsSnapshot: false,
+    };
+  }
+
+  if (message.seq <= current.seq && current.board) {
+    return { state: current, needsSnapshot: false };
+  }
+
+  if (!current.board || message.seq !== current.seq + 1) {
+    return { state: current, needsSnapshot: true };
+  }
+
+  return {
+    state: {
+      ...current,
+      board: applyWhiteboardOperation(current.board, message.op),
+      seq: message.seq,
+      draft: null,
+      ended: false,
+    },
+    needsSnapshot: false,
+  };
+};
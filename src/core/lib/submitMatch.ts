@@ -8,6 +8,9 @@
 import { db } from '@/core/db/database';
 import { isSubstantiveComment } from '@/core/lib/commentValidation';
 import { clearScoutingLocalStorage } from '@/core/lib/utils';
+import { getActiveCustomForm } from '@/core/db/customFormDatabase';
+import { buildCustomFormGameData, getCustomFieldsStorageKey } from '@/core/lib/customForm';
+import { CUSTOM_FIELD_PHASES, type CustomFieldPhase } from '@/core/lib/customFormTypes';
 import { toast } from 'sonner';
 import type { DataTransformation } from '@/types';
 
@@ -57,6 +60,18 @@ function getRobotStatusFromLocalStorage(phase: string): Record<string, unknown>
     return saved ? JSON.parse(saved) : {};
 }
 
+/**
+ * Get custom form answers for every phase from localStorage
+ */
+function getCustomFieldsFromLocalStorage(): Partial<Record<CustomFieldPhase, unknown>> {
+    const valuesByPhase: Partial<Record<CustomFieldPhase, unknown>> = {};
+    for (const phase of CUSTOM_FIELD_PHASES) {
+        const saved = localStorage.getItem(getCustomFieldsStorageKey(phase));
+        valuesByPhase[phase] = saved ? JSON.parse(saved) : {};
+    }
+    return valuesByPhase;
+}
+
 /**
  * Build match key from match type and number
  */
@@ -93,6 +108,7 @@ function advanceStoredMatchNumber(submittedMatchNumber: string): void {
  * This function:
  * 1. Retrieves all action/status data from localStorage
  * 2. Transforms actions to counter fields using game transformation
+ *    and attaches custom form answers
  * 3. Saves the entry to IndexedDB
  * 4. Clears localStorage and increments match number
  * 
@@ -183,6 +199,12 @@ export async function submitMatchData({
             startPosition: inputs.startPosition,
         });
 
+        // Answers to the in-app custom form ride along under gameData.customForm
+        const customForm = await getActiveCustomForm();
+        const gameData = customForm && customForm.fields.length > 0
+            ? { ...transformedGameData, customForm: buildCustomFormGameData(customForm, getCustomFieldsFromLocalStorage()) }
+            : transformedGameData;
+
         // Create the scouting entry
         const scoutingEntry: Record<string, unknown> = {
             id: entryId,
@@ -193,7 +215,7 @@ export async function submitMatchData({
             matchKey: matchKey,
             allianceColor: inputs.alliance,
             timestamp: Date.now(),
-            gameData: transformedGameData,
+            gameData,
             comments: comment,
         };
 
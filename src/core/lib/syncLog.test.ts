@@ -0,0 +1,217 @@
+import { describe, expect, it } from 'vitest';
+import {
+    classifyUpdate,
+    compareChanges,
+    compareClocks,
+    createChangeLogWriter,
+    createSyncDeltaPayload,
+    isSyncDeltaPayload,
+    meetClocks,
+    mergeClocks,
+    planIncomingChanges,
+    selectDeltaChanges,
+    type ChangeKind,
+    type ChangeLogEntry,
+    type ChangeLogWriterStore,
+    type SyncChange,
+    type VectorClock,
+} from './syncLog';
+
+const change = (
+    origin: string,
+    counter: number,
+    clock: VectorClock,
+    rowId: string,
+    kind: ChangeKind = 'update',
+    changedAt = counter * 1000
+): SyncChange => ({
+    opId: `${origin}:${counter}`,
+    origin,
+    counter,
+    clock,
+    table: 'scouting',
+    rowId,
+    kind,
+    changedAt,
+    ...(kind === 'delete' ? {} : { row: { id: rowId } }),
+});
+
+describe('vector clocks', () => {
+    it('orders clocks causally and detects concurrent edits', () => {
+        expect(compareClocks({ a: 2, b: 1 }, { a: 1, b: 1 })).toBe('after');
+        expect(compareClocks({ a: 1 }, { a: 1, b: 1 })).toBe('before');
+        expect(compareClocks({ a: 1, b: 0 }, { a: 1 })).toBe('equal');
+        expect(compareClocks({ a: 2 }, { b: 1 })).toBe('concurrent');
+    });
+
+    it('merges to the highest counter and meets at the lowest', () => {
+        expect(mergeClocks({ a: 3, b: 1 }, { b: 4, c: 2 })).toEqual({ a: 3, b: 4, c: 2 });
+        expect(meetClocks([{ a: 3, b: 1 }, { a: 2, c: 5 }])).toEqual({ a: 2 });
+        expect(meetClocks([])).toEqual({});
+    });
+});
+
+describe('selectDeltaChanges', () => {
+    it('keeps only the latest unseen change per row, including deletes', () => {
+        const changes = [
+            change('a', 1, { a: 1 }, 'row-1', 'create'),
+            change('a', 2, { a: 2 }, 'row-1', 'correction'),
+            change('a', 3, { a: 3 }, 'row-2', 'create'),
+            change('a', 4, { a: 4 }, 'row-2', 'delete'),
+            change('a', 5, { a: 5 }, 'row-3', 'create'),
+        ];
+
+        const delta = selectDeltaChanges(changes, { a: 4 });
+        expect(delta.map(c => c.opId)).toEqual(['a:5']);
+
+        const fromScratch = selectDeltaChanges(changes, {});
+        expect(fromScratch.map(c => [c.rowId, c.kind])).toEqual([
+            ['row-1', 'correction'],
+            ['row-2', 'delete'],
+            ['row-3', 'create'],
+        ]);
+    });
+});
+
+describe('compareChanges', () => {
+    it('prefers causal order, then time, then device id', () => {
+        const early = change('b', 1, { a: 1, b: 1 }, 'row-1', 'update', 500);
+        const late = change('a', 1, { a: 1 }, 'row-1', 'update', 900);
+        expect(compareChanges(early, late)).toBeGreaterThan(0);
+
+        const concurrentA = change('a', 2, { a: 2 }, 'row-1', 'update', 900);
+        const concurrentB = change('b', 2, { b: 2 }, 'row-1', 'update', 900);
+        expect(compareChanges(concurrentB, concurrentA)).toBeGreaterThan(0);
+        expect(compareChanges({ ...concurrentB, changedAt: 800 }, concurrentA)).toBeLessThan(0);
+    });
+});
+
+describe('planIncomingChanges', () => {
+    it('skips known changes and keeps newer local edits', () => {
+        const local = [
+            change('a', 1, { a: 1 }, 'row-1', 'create'),
+            change('a', 2, { a: 2 }, 'row-1', 'update', 5000),
+        ];
+        const incoming = [
+            change('a', 1, { a: 1 }, 'row-1', 'create'),
+            change('b', 1, { b: 1 }, 'row-1', 'delete', 1000),
+            change('b', 2, { b: 2 }, 'row-2', 'create'),
+            change('b', 3, { b: 3 }, 'row-2', 'delete'),
+        ];
+
+        const plan = planIncomingChanges(incoming, local);
+
+        expect(plan.fresh.map(c => c.opId)).toEqual(['b:1', 'b:2', 'b:3']);
+        expect(plan.toApply.map(c => c.opId)).toEqual(['b:3']);
+    });
+});
+
+describe('sync delta payload', () => {
+    it('round-trips and rejects changes without rows', () => {
+        const device = { deviceId: 'a', deviceName: 'Lead', clock: { a: 2 } };
+        const payload = JSON.parse(JSON.stringify(createSyncDeltaPayload(device, {}, [
+            change('a', 1, { a: 1 }, 'row-1', 'create'),
+            change('a', 2, { a: 2 }, 'row-2', 'delete'),
+        ])));
+
+        expect(isSyncDeltaPayload(payload)).toBe(true);
+        expect(isSyncDeltaPayload({ ...payload, changes: [{ ...payload.changes[0], row: undefined }] })).toBe(false);
+        expect(isSyncDeltaPayload({ ...payload, clock: { a: 'two' } })).toBe(false);
+    });
+});
+
+describe('classifyUpdate', () => {
+    it('marks correction metadata updates as corrections', () => {
+        expect(classifyUpdate({ correctionCount: 1, 'gameData.auto.fuel': 3 })).toBe('correction');
+        expect(classifyUpdate({ isCorrected: true })).toBe('correction');
+        expect(classifyUpdate({ comments: 'Tipped over' })).toBe('update');
+    });
+});
+
+describe('createChangeLogWriter', () => {
+    const createStore = () => {
+        const device = { deviceId: 'a', clock: { b: 4 } as VectorClock };
+        const log: ChangeLogEntry[] = [];
+        let gate: Promise<void> = Promise.resolve();
+        let failNext = false;
+
+        const store: ChangeLogWriterStore = {
+            loadDevice: () => ({ deviceId: device.deviceId, clock: { ...device.clock } }),
+            commitCounter: (counter) => {
+                device.clock = mergeClocks(device.clock, { a: counter });
+            },
+            addChanges: async (changes) => {
+                await gate;
+                if (failNext) {
+                    failNext = false;
+                    throw new Error('QuotaExceededError');
+                }
+                log.push(...changes);
+            },
+            forgetRow: async (table, rowId) => {
+                const kept = log.filter(entry => entry.table !== table || entry.rowId !== rowId);
+                log.splice(0, log.length, ...kept);
+            },
+        };
+
+        // What exportSyncDelta would send: the device clock and the stored log
+        const exportDelta = (since: VectorClock) => ({
+            clock: { ...device.clock },
+            changes: selectDeltaChanges(log, since),
+        });
+
+        return {
+            store,
+            log,
+            exportDelta,
+            hold: () => {
+                let release = () => {};
+                gate = new Promise(resolve => { release = resolve; });
+                return release;
+            },
+            failNextWrite: () => { failNext = true; },
+        };
+    };
+
+    const pending = (rowId: string) => ({
+        changes: [{ table: 'scouting' as const, rowId, kind: 'create' as const, changedAt: 1 }],
+        forgotten: [],
+    });
+
+    it('never exports a clock ahead of the stored log', async () => {
+        const { store, exportDelta, hold } = createStore();
+        const writer = createChangeLogWriter(store);
+        const release = hold();
+
+        const write = writer.enqueue(pending('row-1'));
+        const early = exportDelta({});
+
+        expect(early.clock).toEqual({ b: 4 });
+        expect(early.changes).toEqual([]);
+
+        release();
+        await write;
+
+        // A peer that merged the early clock still gets the change next time
+        const later = exportDelta(early.clock);
+        expect(later.clock).toEqual({ a: 1, b: 4 });
+        expect(later.changes.map(entry => entry.opId)).toEqual(['a:1']);
+        expect(later.changes[0]?.clock).toEqual({ a: 1, b: 4 });
+    });
+
+    it('reports a failed write and retries it without skipping a counter', async () => {
+        const { store, log, exportDelta, failNextWrite } = createStore();
+        const writer = createChangeLogWriter(store);
+        failNextWrite();
+
+        await expect(writer.enqueue(pending('row-1'))).rejects.toThrow('QuotaExceededError');
+        expect(writer.pendingCount()).toBe(1);
+        expect(exportDelta({}).clock).toEqual({ b: 4 });
+
+        await writer.enqueue(pending('row-2'));
+
+        expect(writer.pendingCount()).toBe(0);
+        expect(log.map(entry => [entry.opId, entry.rowId])).toEqual([['a:1', 'row-1'], ['a:2', 'row-2']]);
+        expect(exportDelta({}).clock).toEqual({ a: 2, b: 4 });
+    });
+});
@@ -0,0 +1,365 @@
+/**
+ * Change log and vector clock helpers for delta sync between devices.
+ *
+ * Storage lives in `core/db/syncLogDatabase.ts`. Nothing here touches storage
+ * directly, and the merge rules are pure so two devices given the same changes
+ * always resolve them the same way.
+ */
+
+/** Highest change counter seen from each device, keyed by device id */
+export type VectorClock = Record<string, number>;
+
+export type SyncTableName = 'scouting' | 'pit';
+
+export type ChangeKind = 'create' | 'update' | 'correction' | 'delete';
+
+export type ClockOrder = 'before' | 'after' | 'equal' | 'concurrent';
+
+export interface ChangeLogEntry {
+  /** `${origin}:${counter}`, unique across devices */
+  opId: string;
+  /** Device that made the change */
+  origin: string;
+  /** Origin's own clock value for this change */
+  counter: number;
+  /** Origin's vector clock right after the change */
+  clock: VectorClock;
+  table: SyncTableName;
+  rowId: string;
+  kind: ChangeKind;
+  changedAt: number;
+}
+
+/** A change as sent to a peer. Everything except deletes carries the row it produced. */
+export interface SyncChange extends ChangeLogEntry {
+  row?: Record<string, unknown>;
+}
+
+export interface SyncCursor {
+  peerId: string;
+  peerName: string;
+  /** Changes this peer is known to have */
+  seen: VectorClock;
+  updatedAt: number;
+}
+
+/** What a device tells a peer about itself when asking for a delta */
+export interface SyncPeerState {
+  deviceId: string;
+  deviceName: string;
+  clock: VectorClock;
+}
+
+export interface SyncDeltaPayload {
+  type: 'sync-delta';
+  version: '1.0';
+  exportedAt: string;
+  deviceId: string;
+  deviceName: string;
+  /** Everything the sender had seen when exporting */
+  clock: VectorClock;
+  /** The peer state the delta was computed against */
+  since: VectorClock;
+  changes: SyncChange[];
+}
+
+export interface SyncImportResult {
+  applied: number;
+  deleted: number;
+  /** Changes already on this device or beaten by a newer local change */
+  skipped: number;
+  /** False when this device was missing changes the sender assumed it had */
+  complete: boolean;
+}
+
+const SYNC_TABLE_NAMES: readonly SyncTableName[] = ['scouting', 'pit'];
+const CHANGE_KINDS: readonly ChangeKind[] = ['create', 'update', 'correction', 'delete'];
+
+// ============================================================================
+// VECTOR CLOCKS
+// ============================================================================
+
+export const compareClocks = (a: VectorClock, b: VectorClock): ClockOrder => {
+  let aAhead = false;
+  let bAhead = false;
+
+  for (const deviceId of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const aValue = a[deviceId] ?? 0;
+    const bValue = b[deviceId] ?? 0;
+    if (aValue > bValue) aAhead = true;
+    if (bValue > aValue) bAhead = true;
+  }
+
+  if (aAhead && bAhead) return 'concurrent';
+  if (aAhead) return 'after';
+  if (bAhead) return 'before';
+  return 'equal';
+};
+
+export const mergeClocks = (...clocks: VectorClock[]): VectorClock => {
+  const merged: VectorClock = {};
+  for (const clock of clocks) {
+    for (const [deviceId, value] of Object.entries(clock)) {
+      merged[deviceId] = Math.max(merged[deviceId] ?? 0, value);
+    }
+  }
+  return merged;
+};
+
+/** The changes every one of the clocks has seen */
+export const meetClocks = (clocks: VectorClock[]): VectorClock => {
+  const [first, ...rest] = clocks;
+  if (!first) return {};
+
+  const meet: VectorClock = {};
+  for (const [deviceId, value] of Object.entries(first)) {
+    const lowest = Math.min(value, ...rest.map(clock => clock[deviceId] ?? 0));
+    if (lowest > 0) meet[deviceId] = lowest;
+  }
+  return meet;
+};
+
+/** True when `clock` has seen everything `other` has */
+export const clockCovers = (clock: VectorClock, other: VectorClock): boolean => {
+  const order = compareClocks(clock, other);
+  return order === 'after' || order === 'equal';
+};
+
+export const hasSeenChange = (seen: VectorClock, change: Pick<ChangeLogEntry, 'origin' | 'counter'>): boolean =>
+  (seen[change.origin] ?? 0) >= change.counter;
+
+// ============================================================================
+// CHANGE ORDERING
+// ============================================================================
+
+export const getChangeRowKey = (change: Pick<ChangeLogEntry, 'table' | 'rowId'>): string =>
+  `${change.table}:${change.rowId}`;
+
+/**
+ * Positive when `a` should win over `b`. Causal order decides first; concurrent
+ * edits fall back to wall-clock time, then device id, so every peer agrees.
+ */
+export const compareChanges = (a: ChangeLogEntry, b: ChangeLogEntry): number => {
+  const order = compareClocks(a.clock, b.clock);
+  if (order === 'after') return 1;
+  if (order === 'before') return -1;
+
+  if (a.changedAt !== b.changedAt) return a.changedAt - b.changedAt;
+  if (a.origin !== b.origin) return a.origin < b.origin ? -1 : 1;
+  return a.counter - b.counter;
+};
+
+/** The winning change for each row */
+export const selectLatestChanges = <T extends ChangeLogEntry>(changes: T[]): T[] => {
+  const latest = new Map<string, T>();
+  for (const change of changes) {
+    const key = getChangeRowKey(change);
+    const current = latest.get(key);
+    if (!current || compareChanges(change, current) > 0) {
+      latest.set(key, change);
+    }
+  }
+  return [...latest.values()];
+};
+
+/**
+ * Changes a peer with the given clock has not seen, compacted to the winning
+ * change per row. Superseded changes are left out since the peer only needs the
+ * row's current state.
+ */
+export const selectDeltaChanges = <T extends ChangeLogEntry>(changes: T[], seen: VectorClock): T[] =>
+  selectLatestChanges(changes)
+    .filter(change => !hasSeenChange(seen, change))
+    .sort((a, b) => a.changedAt - b.changedAt);
+
+/** Treat updates that bump the correction metadata as corrections */
+export const classifyUpdate = (modifications: object): Extract<ChangeKind, 'update' | 'correction'> => {
+  const mods = modifications as Record<string, unknown>;
+  return 'correctionCount' in mods || mods.isCorrected === true ? 'correction' : 'update';
+};
+
+export interface IncomingChangePlan {
+  /** Changes not yet in the local log */
+  fresh: SyncChange[];
+  /** Winning changes to write into the scouting tables */
+  toApply: SyncChange[];
+}
+
+/**
+ * Decide which incoming changes to keep and which to apply, given the local
+ * log entries for the same rows.
+ */
+export const planIncomingChanges = (incoming: SyncChange[], localChanges: ChangeLogEntry[]): IncomingChangePlan => {
+  const knownOpIds = new Set(localChanges.map(change => change.opId));
+  const localLatest = new Map(selectLatestChanges(localChanges).map(change => [getChangeRowKey(change), change]));
+  const fresh: SyncChange[] = [];
+  const winners = new Map<string, SyncChange>();
+
+  for (const change of incoming) {
+    if (knownOpIds.has(change.opId)) continue;
+    knownOpIds.add(change.opId);
+    fresh.push(change);
+
+    const key = getChangeRowKey(change);
+    const current = winners.get(key) ?? localLatest.get(key);
+    if (!current || compareChanges(change, current) > 0) {
+      winners.set(key, change);
+    }
+  }
+
+  return { fresh, toApply: [...winners.values()] };
+};
+
+/** Drop the row snapshot before storing a change in the log */
+export const toChangeLogEntry = (change: SyncChange): ChangeLogEntry => {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { row, ...entry } = change;
+  return entry;
+};
+
+export const formatSyncImportSummary = (result: SyncImportResult): string => {
+  const parts = [`${result.applied} updated`, `${result.deleted} deleted`];
+  if (result.skipped > 0) parts.push(`${result.skipped} already up to date`);
+  return parts.join(', ');
+};
+
+// ============================================================================
+// CHANGE LOG WRITER
+// ============================================================================
+
+/** A local write waiting to be stored in the log; its counter is assigned when it is */
+export interface PendingChange {
+  table: SyncTableName;
+  rowId: string;
+  kind: ChangeKind;
+  changedAt: number;
+}
+
+export interface PendingLogWork {
+  changes: PendingChange[];
+  /** Rows whose logged changes should be dropped */
+  forgotten: [SyncTableName, string][];
+}
+
+export interface ChangeLogWriterStore {
+  loadDevice: () => { deviceId: string; clock: VectorClock };
+  /** Advance the device's own counter; only called once the entries up to it are stored */
+  commitCounter: (counter: number) => void;
+  /** Store entries atomically: all of them or none */
+  addChanges: (changes: ChangeLogEntry[]) => Promise<void>;
+  forgetRow: (table: SyncTableName, rowId: string) => Promise<void>;
+}
+
+export interface ChangeLogWriter {
+  /** Queue work and write it; rejects if the log could not be written */
+  enqueue: (work: PendingLogWork) => Promise<void>;
+  /** Write anything still queued, including work a failed write left behind */
+  flush: () => Promise<void>;
+  pendingCount: () => number;
+}
+
+/**
+ * Writes local changes to the log one batch at a time. Counters are assigned
+ * from the device clock when a batch is stored, and the clock only moves past
+ * them after the store succeeds, so the clock never claims a change the log
+ * does not hold. A failed batch stays queued and is retried by the next flush.
+ */
+export const createChangeLogWriter = (store: ChangeLogWriterStore): ChangeLogWriter => {
+  const queue: PendingLogWork[] = [];
+  let writing: Promise<void> = Promise.resolve();
+
+  const writeQueued = async (): Promise<void> => {
+    for (let work = queue[0]; work; work = queue[0]) {
+      if (work.changes.length > 0) {
+        const { deviceId, clock } = store.loadDevice();
+        let counter = clock[deviceId] ?? 0;
+        const entries = work.changes.map((change): ChangeLogEntry => {
+          counter += 1;
+          return {
+            opId: `${deviceId}:${counter}`,
+            origin: deviceId,
+            counter,
+            clock: { ...clock, [deviceId]: counter },
+            ...change,
+          };
+        });
+
+        await store.addChanges(entries);
+        store.commitCounter(counter);
+        // Stored - a retry after a failed forget must not log these twice
+        work.changes = [];
+      }
+
+      for (const [table, rowId] of work.forgotten) {
+        await store.forgetRow(table, rowId);
+      }
+      queue.shift();
+    }
+  };
+
+  const flush = (): Promise<void> => {
+    writing = writing.catch(() => undefined).then(writeQueued);
+    return writing;
+  };
+
+  return {
+    enqueue: (work) => {
+      queue.push(work);
+      return flush();
+    },
+    flush,
+    pendingCount: () => queue.length,
+  };
+};
+
+// ============================================================================
+// TRANSFER PAYLOAD
+// ============================================================================
+
+export const createSyncDeltaPayload = (
+  device: SyncPeerState,
+  since: VectorClock,
+  changes: SyncChange[]
+): SyncDeltaPayload => ({
+  type: 'sync-delta',
+  version: '1.0',
+  exportedAt: new Date().toISOString(),
+  deviceId: device.deviceId,
+  deviceName: device.deviceName,
+  clock: device.clock,
+  since,
+  changes,
+});
+
+const isVectorClock = (value: unknown): value is VectorClock =>
+  !!value &&
+  typeof value === 'object' &&
+  !Array.isArray(value) &&
+  Object.values(value).every(counter => typeof counter === 'number' && Number.isFinite(counter));
+
+const isSyncChange = (value: unknown): value is SyncChange => {
+  if (!value || typeof value !== 'object') return false;
+  const change = value as Record<string, unknown>;
+
+  if (typeof change.opId !== 'string' || typeof change.origin !== 'string') return false;
+  if (typeof change.counter !== 'number' || typeof change.changedAt !== 'number') return false;
+  if (typeof change.rowId !== 'string' || !change.rowId) return false;
+  if (!SYNC_TABLE_NAMES.includes(change.table as SyncTableName)) return false;
+  if (!CHANGE_KINDS.includes(change.kind as ChangeKind)) return false;
+  if (!isVectorClock(change.clock)) return false;
+
+  return change.kind === 'delete' || (!!change.row && typeof change.row === 'object');
+};
+
+export const isSyncDeltaPayload = (jsonData: unknown): jsonData is SyncDeltaPayload => {
+  if (!jsonData || typeof jsonData !== 'object') return false;
+  const data = jsonData as Record<string, unknown>;
+
+  if (data.type !== 'sync-delta') return false;
+  if (typeof data.deviceId !== 'string' || !data.deviceId) return false;
+  if (typeof data.deviceName !== 'string') return false;
+  if (!isVectorClock(data.clock) || !isVectorClock(data.since)) return false;
+  if (!Array.isArray(data.changes)) return false;
+
+  return data.changes.every(isSyncChange);
+};
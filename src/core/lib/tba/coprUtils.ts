@@ -1,4 +1,5 @@
 import { proxyGetJson } from '@/core/lib/apiProxy';
+import { workspaceStorage } from '@/core/db/eventWorkspaceDatabase';
 
 export interface COPRMetrics {
   hubAutoPoints: number;
@@ -92,9 +93,8 @@ const getStorageKey = (eventKey: string): string => `${COPR_STORAGE_PREFIX}${eve
 export const getCachedCOPREventKeys = (): string[] => {
   try {
     const keys: string[] = [];
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && key.startsWith(COPR_STORAGE_PREFIX)) {
+    for (const key of workspaceStorage.keys()) {
+      if (key.startsWith(COPR_STORAGE_PREFIX)) {
         const eventKey = key.replace(COPR_STORAGE_PREFIX, '');
         if (eventKey) keys.push(eventKey);
       }
@@ -108,7 +108,7 @@ export const getCachedCOPREventKeys = (): string[] => {
 
 export const getCachedEventCOPRs = (eventKey: string): Map<number, COPRMetrics> => {
   try {
-    const raw = localStorage.getItem(getStorageKey(eventKey));
+    const raw = workspaceStorage.getItem(getStorageKey(eventKey));
     if (!raw) return new Map();
 
     const parsed = JSON.parse(raw) as CachedCOPRPayload;
@@ -148,6 +148,6 @@ export const fetchAndCacheEventCOPRs = async (
     metricsByTeam: Object.fromEntries(metricsMap.entries()),
   };
 
-  localStorage.setItem(getStorageKey(eventKey), JSON.stringify(payload));
+  workspaceStorage.setItem(getStorageKey(eventKey), JSON.stringify(payload));
   return metricsMap;
 };
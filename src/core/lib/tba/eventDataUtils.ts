@@ -3,6 +3,7 @@
 import { clearStoredEventTeams } from './tbaUtils';
 import { clearStoredNexusData } from './nexusUtils';
 import { toast } from 'sonner';
+import { workspaceStorage } from '@/core/db/eventWorkspaceDatabase';
 
 // Storage keys
 const EVENT_HISTORY_KEY = 'event_history';
@@ -19,7 +20,7 @@ export interface EventHistoryItem {
  */
 export const getEventHistory = (): EventHistoryItem[] => {
   try {
-    const stored = localStorage.getItem(EVENT_HISTORY_KEY);
+    const stored = workspaceStorage.getItem(EVENT_HISTORY_KEY);
     if (!stored) return [];
     return JSON.parse(stored);
   } catch (error) {
@@ -58,7 +59,7 @@ export const addToEventHistory = (eventKey: string, eventName: string): void =>
     // Keep only the last 10 events
     const trimmedHistory = history.slice(0, 10);
     
-    localStorage.setItem(EVENT_HISTORY_KEY, JSON.stringify(trimmedHistory));
+    workspaceStorage.setItem(EVENT_HISTORY_KEY, JSON.stringify(trimmedHistory));
     console.log(`Updated event history for ${eventKey}`);
   } catch (error) {
     console.error('Failed to update event history:', error);
@@ -70,7 +71,7 @@ export const addToEventHistory = (eventKey: string, eventName: string): void =>
  */
 export const getCurrentEvent = (): string => {
   try {
-    const stored = localStorage.getItem(CURRENT_EVENT_KEY);
+    const stored = workspaceStorage.getItem(CURRENT_EVENT_KEY);
     return stored || '';
   } catch (error) {
     console.error('Failed to retrieve current event:', error);
@@ -85,7 +86,7 @@ export const setCurrentEvent = (eventKey: string): void => {
   if (!eventKey.trim()) return;
   
   try {
-    localStorage.setItem(CURRENT_EVENT_KEY, eventKey);
+    workspaceStorage.setItem(CURRENT_EVENT_KEY, eventKey);
     addToEventHistory(eventKey, eventKey); // Use eventKey as name fallback
     console.log(`Set current event to ${eventKey}`);
   } catch (error) {
@@ -102,7 +103,7 @@ export const hasStoredEventData = (eventKey: string): boolean => {
 
   // Check for TBA event teams
   const teamStorageKey = `tba_event_teams_${eventKey}`;
-  if (localStorage.getItem(teamStorageKey)) return true;
+  if (workspaceStorage.getItem(teamStorageKey)) return true;
 
   // Check for Nexus data
   const nexusKeys = [
@@ -112,7 +113,7 @@ export const hasStoredEventData = (eventKey: string): boolean => {
   ];
   
   for (const key of nexusKeys) {
-    if (localStorage.getItem(key)) return true;
+    if (workspaceStorage.getItem(key)) return true;
   }
 
   // Check for other event-specific data
@@ -126,7 +127,7 @@ export const hasStoredEventData = (eventKey: string): boolean => {
   ];
   
   for (const key of eventSpecificKeys) {
-    if (localStorage.getItem(key)) return true;
+    if (workspaceStorage.getItem(key)) return true;
   }
 
   return false;
@@ -161,27 +162,27 @@ export const clearEventData = (eventKey: string): void => {
     
     // Clear match schedule
     const scheduleKey = `tba_match_schedule_${eventKey}`;
-    localStorage.removeItem(scheduleKey);
+    workspaceStorage.removeItem(scheduleKey);
     
     // Clear match data
     const matchDataKey = `tba_match_data_${eventKey}`;
-    localStorage.removeItem(matchDataKey);
+    workspaceStorage.removeItem(matchDataKey);
     
     // Clear match results
     const matchResultsKey = `match_results_${eventKey}`;
-    localStorage.removeItem(matchResultsKey);
+    workspaceStorage.removeItem(matchResultsKey);
     
     // Clear event info
     const eventInfoKey = `event_info_${eventKey}`;
-    localStorage.removeItem(eventInfoKey);
+    workspaceStorage.removeItem(eventInfoKey);
     
     // Clear pit assignments
     const pitAssignmentsKey = `pit_assignments_${eventKey}`;
-    localStorage.removeItem(pitAssignmentsKey);
+    workspaceStorage.removeItem(pitAssignmentsKey);
 
     // Clear TBA COPRs and Statbotics EPA caches
-    localStorage.removeItem(`tba_event_coprs_${eventKey}`);
-    localStorage.removeItem(`statbotics_event_epa_${eventKey}`);
+    workspaceStorage.removeItem(`tba_event_coprs_${eventKey}`);
+    workspaceStorage.removeItem(`statbotics_event_epa_${eventKey}`);
     
     console.log(`Successfully cleared all event data for ${eventKey}`);
     toast.success(`Cleared all stored data for event ${eventKey}`);
@@ -196,7 +197,7 @@ export const clearEventData = (eventKey: string): void => {
  */
 export const clearCurrentEvent = (): void => {
   try {
-    localStorage.removeItem(CURRENT_EVENT_KEY);
+    workspaceStorage.removeItem(CURRENT_EVENT_KEY);
     console.log('Cleared current event selection');
   } catch (error) {
     console.error('Failed to clear current event:', error);
@@ -208,7 +209,7 @@ export const clearCurrentEvent = (): void => {
  */
 export const clearEventHistory = (): void => {
   try {
-    localStorage.removeItem(EVENT_HISTORY_KEY);
+    workspaceStorage.removeItem(EVENT_HISTORY_KEY);
     console.log('Cleared event history');
   } catch (error) {
     console.error('Failed to clear event history:', error);
@@ -230,7 +231,7 @@ export const removeFromEventHistory = (eventKey: string): void => {
   try {
     const history = getEventHistory();
     const filtered = history.filter(item => item.eventKey !== eventKey);
-    localStorage.setItem(EVENT_HISTORY_KEY, JSON.stringify(filtered));
+    workspaceStorage.setItem(EVENT_HISTORY_KEY, JSON.stringify(filtered));
     console.log(`Removed ${eventKey} from event history`);
   } catch (error) {
     console.error('Failed to remove event from history:', error);
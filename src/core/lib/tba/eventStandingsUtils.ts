@@ -0,0 +1,140 @@
+import { proxyGetJson } from '@/core/lib/apiProxy';
+import { fetchTBAEventMatchesDetailed, type TBAMatchData } from '@/core/lib/tbaMatchData';
+import {
+  cacheTBAEventAlliances,
+  cacheTBAEventRankings,
+  cacheTBAEventTeams,
+  cacheTBAMatches,
+  getCachedTBAEventAlliances,
+  getCachedTBAEventMatches,
+  getCachedTBAEventRankings,
+  getCachedTBAEventTeams,
+} from '@/core/lib/tbaCache';
+import type { TBAEliminationAlliance, TBAEventRankings, TBATeam } from './tbaUtils';
+
+export interface CachedEventStandings {
+  rankings: TBAEventRankings | null;
+  /** Empty until alliance selection has happened */
+  alliances: TBAEliminationAlliance[];
+  teams: TBATeam[];
+  playoffMatches: TBAMatchData[];
+  /** Oldest fetch time of what is cached, or null if nothing is */
+  fetchedAt: number | null;
+}
+
+export interface EventStandingsRefreshResult {
+  rankingCount: number;
+  allianceCount: number;
+  teamCount: number;
+  playoffMatchCount: number;
+  /** Which parts failed to load, so callers can say what is stale */
+  failed: Array<'rankings' | 'alliances' | 'teams' | 'matches'>;
+}
+
+const normalizeEventKey = (eventKey: string): string => eventKey.trim().toLowerCase();
+
+export const fetchAndCacheEventRankings = async (eventKey: string, apiKey: string): Promise<TBAEventRankings> => {
+  const normalized = normalizeEventKey(eventKey);
+  // TBA answers null before the first qualification match is played
+  const rankings = await proxyGetJson<TBAEventRankings | null>(
+    'tba',
+    `/event/${normalized}/rankings`,
+    { apiKeyOverride: apiKey || undefined }
+  ) ?? { rankings: [], sort_order_info: [], extra_stats_info: [] };
+
+  await cacheTBAEventRankings(normalized, rankings);
+  return rankings;
+};
+
+export const fetchAndCacheEventAlliances = async (eventKey: string, apiKey: string): Promise<TBAEliminationAlliance[]> => {
+  const normalized = normalizeEventKey(eventKey);
+  // TBA answers null until alliance selection is entered
+  const alliances = await proxyGetJson<TBAEliminationAlliance[] | null>(
+    'tba',
+    `/event/${normalized}/alliances`,
+    { apiKeyOverride: apiKey || undefined }
+  ) ?? [];
+
+  await cacheTBAEventAlliances(normalized, alliances);
+  return alliances;
+};
+
+export const fetchAndCacheEventTeamDetails = async (eventKey: string, apiKey: string): Promise<TBATeam[]> => {
+  const normalized = normalizeEventKey(eventKey);
+  const teams = await proxyGetJson<TBATeam[] | null>(
+    'tba',
+    `/event/${normalized}/teams`,
+    { apiKeyOverride: apiKey || undefined }
+  ) ?? [];
+
+  const sorted = [...teams].sort((a, b) => a.team_number - b.team_number);
+  await cacheTBAEventTeams(normalized, sorted);
+  return sorted;
+};
+
+/**
+ * Fetch rankings, alliances, teams and matches together. Each part is cached
+ * on its own, so one failing (for example rankings before quals start) does
+ * not throw away the others.
+ */
+export const refreshEventStandings = async (eventKey: string, apiKey: string): Promise<EventStandingsRefreshResult> => {
+  const normalized = normalizeEventKey(eventKey);
+  const [rankings, alliances, teams, matches] = await Promise.allSettled([
+    fetchAndCacheEventRankings(normalized, apiKey),
+    fetchAndCacheEventAlliances(normalized, apiKey),
+    fetchAndCacheEventTeamDetails(normalized, apiKey),
+    fetchTBAEventMatchesDetailed(normalized, apiKey || undefined).then(async eventMatches => {
+      await cacheTBAMatches(eventMatches);
+      return eventMatches;
+    }),
+  ]);
+
+  const failed: EventStandingsRefreshResult['failed'] = [];
+  const settled = [
+    ['rankings', rankings],
+    ['alliances', alliances],
+    ['teams', teams],
+    ['matches', matches],
+  ] as const;
+  settled.forEach(([part, result]) => {
+    if (result.status === 'rejected') {
+      console.warn(`[Event Standings] Failed to refresh ${part} for ${normalized}:`, result.reason);
+      failed.push(part);
+    }
+  });
+
+  return {
+    rankingCount: rankings.status === 'fulfilled' ? rankings.value.rankings.length : 0,
+    allianceCount: alliances.status === 'fulfilled' ? alliances.value.length : 0,
+    teamCount: teams.status === 'fulfilled' ? teams.value.length : 0,
+    playoffMatchCount: matches.status === 'fulfilled'
+      ? matches.value.filter(match => match.comp_level !== 'qm').length
+      : 0,
+    failed,
+  };
+};
+
+/**
+ * Everything cached for an event's standings, expired or not
+ */
+export const getCachedEventStandings = async (eventKey: string): Promise<CachedEventStandings> => {
+  const normalized = normalizeEventKey(eventKey);
+  const [rankings, alliances, teams, matches] = await Promise.all([
+    getCachedTBAEventRankings(normalized),
+    getCachedTBAEventAlliances(normalized),
+    getCachedTBAEventTeams(normalized),
+    getCachedTBAEventMatches(normalized),
+  ]);
+
+  const fetchTimes = [rankings, alliances, teams]
+    .map(resource => resource?.cachedAt)
+    .filter((cachedAt): cachedAt is number => typeof cachedAt === 'number');
+
+  return {
+    rankings: rankings?.data ?? null,
+    alliances: alliances?.data ?? [],
+    teams: teams?.data ?? [],
+    playoffMatches: matches.filter(match => match.comp_level !== 'qm'),
+    fetchedAt: fetchTimes.length > 0 ? Math.min(...fetchTimes) : null,
+  };
+};
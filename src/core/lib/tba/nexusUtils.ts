@@ -2,6 +2,7 @@
 // Documentation: https://frc.nexus/api/v1/docs
 
 import { proxyGetJson } from '@/core/lib/apiProxy';
+import { workspaceStorage } from '@/core/db/eventWorkspaceDatabase';
 
 // Types based on Nexus API documentation
 export interface NexusPitAddresses {
@@ -68,13 +69,50 @@ export interface NexusPitMap {
   walls: NexusPitMapWall | null;
 }
 
+export type NexusMatchStatus = 'Queuing soon' | 'Now queuing' | 'On deck' | 'On field';
+
+// All times are epoch milliseconds; null until Nexus has an estimate
+export interface NexusMatchTimes {
+  scheduledStartTime?: number | null;
+  estimatedQueueTime: number | null;
+  estimatedOnDeckTime: number | null;
+  estimatedOnFieldTime: number | null;
+  estimatedStartTime: number | null;
+  actualQueueTime?: number | null;
+  actualOnDeckTime?: number | null;
+  actualOnFieldTime?: number | null;
+}
+
+export interface NexusMatch {
+  label: string; // e.g., "Practice 3", "Qualification 12", "Playoff 4", "Final 2"
+  status: NexusMatchStatus | null;
+  redTeams: (string | null)[] | null;
+  blueTeams: (string | null)[] | null;
+  times: NexusMatchTimes;
+  breakAfter?: string | null; // e.g., "Lunch", "End of day"
+  replayOf?: string | null;
+}
+
+export interface NexusAnnouncement {
+  id: string;
+  announcement: string;
+  postedTime: number;
+}
+
+export interface NexusPartsRequest {
+  id: string;
+  parts: string;
+  requestedByTeam: string;
+  postedTime: number;
+}
+
 export interface NexusEventStatus {
   eventKey: string;
   dataAsOfTime: number;
   nowQueuing: string | null;
-  matches: unknown[]; // Match objects - complex structure, using unknown for now
-  announcements: unknown[]; // Announcement objects - complex structure, using unknown for now
-  partsRequests: unknown[]; // PartsRequest objects - complex structure, using unknown for now
+  matches: NexusMatch[];
+  announcements: NexusAnnouncement[];
+  partsRequests: NexusPartsRequest[];
 }
 
 /**
@@ -172,7 +210,7 @@ export const storePitData = (eventKey: string, addresses: NexusPitAddresses | nu
         timestamp: Date.now(),
         eventKey
       };
-      localStorage.setItem(addressesKey, JSON.stringify(addressData));
+      workspaceStorage.setItem(addressesKey, JSON.stringify(addressData));
     }
     
     if (pitMap) {
@@ -181,7 +219,7 @@ export const storePitData = (eventKey: string, addresses: NexusPitAddresses | nu
         timestamp: Date.now(),
         eventKey
       };
-      localStorage.setItem(mapKey, JSON.stringify(mapData));
+      workspaceStorage.setItem(mapKey, JSON.stringify(mapData));
     }
     
     console.log(`Stored pit data for event ${eventKey}`);
@@ -210,7 +248,7 @@ export const storePitAddresses = (eventKey: string, addresses: NexusPitAddresses
   };
   
   try {
-    localStorage.setItem(storageKey, JSON.stringify(data));
+    workspaceStorage.setItem(storageKey, JSON.stringify(data));
     console.log(`Stored pit addresses for event ${eventKey}`);
   } catch (error) {
     console.error('Failed to store pit addresses in localStorage:', error);
@@ -222,7 +260,7 @@ export const getStoredPitAddresses = (eventKey: string): NexusPitAddresses | nul
   const storageKey = `${NEXUS_STORAGE_PREFIX}pit_addresses_${eventKey}`;
   
   try {
-    const stored = localStorage.getItem(storageKey);
+    const stored = workspaceStorage.getItem(storageKey);
     if (!stored) return null;
     
     const data = JSON.parse(stored);
@@ -242,7 +280,7 @@ export const storePitMap = (eventKey: string, pitMap: NexusPitMap): void => {
   };
   
   try {
-    localStorage.setItem(storageKey, JSON.stringify(data));
+    workspaceStorage.setItem(storageKey, JSON.stringify(data));
     console.log(`Stored pit map for event ${eventKey}`);
   } catch (error) {
     console.error('Failed to store pit map in localStorage:', error);
@@ -254,7 +292,7 @@ export const getStoredPitMap = (eventKey: string): NexusPitMap | null => {
   const storageKey = `${NEXUS_STORAGE_PREFIX}pit_map_${eventKey}`;
   
   try {
-    const stored = localStorage.getItem(storageKey);
+    const stored = workspaceStorage.getItem(storageKey);
     if (!stored) return null;
     
     const data = JSON.parse(stored);
@@ -270,9 +308,9 @@ export const clearStoredNexusData = (eventKey: string): void => {
   const mapKey = `${NEXUS_STORAGE_PREFIX}pit_map_${eventKey}`;
   const teamsKey = `nexus_event_teams_${eventKey}`;
   
-  localStorage.removeItem(addressesKey);
-  localStorage.removeItem(mapKey);
-  localStorage.removeItem(teamsKey);
+  workspaceStorage.removeItem(addressesKey);
+  workspaceStorage.removeItem(mapKey);
+  workspaceStorage.removeItem(teamsKey);
   
   console.log(`Cleared Nexus data for event ${eventKey}`);
 };
@@ -295,7 +333,7 @@ export const extractAndStoreTeamsFromPitAddresses = (eventKey: string, addresses
   };
   
   try {
-    localStorage.setItem(storageKey, JSON.stringify(teamData));
+    workspaceStorage.setItem(storageKey, JSON.stringify(teamData));
     console.log(`Stored ${teamNumbers.length} teams from Nexus pit addresses for event ${eventKey}`);
     return teamNumbers;
   } catch (error) {
@@ -311,7 +349,7 @@ export const getStoredNexusTeams = (eventKey: string): string[] | null => {
   const storageKey = `nexus_event_teams_${eventKey}`;
   
   try {
-    const stored = localStorage.getItem(storageKey);
+    const stored = workspaceStorage.getItem(storageKey);
     if (!stored) return null;
     
     const data = JSON.parse(stored);
@@ -3,6 +3,7 @@
 // Full TBA API integration
 
 import { proxyGetJson } from '@/core/lib/apiProxy';
+import { workspaceStorage } from '@/core/db/eventWorkspaceDatabase';
 
 // ============================================================================
 // Type Definitions
@@ -45,6 +46,56 @@ export interface TBATeam {
   city?: string;
   state_prov?: string;
   country?: string;
+  rookie_year?: number | null;
+}
+
+export interface TBARankingRecord {
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+export interface TBARankingStatInfo {
+  name: string;
+  precision: number;
+}
+
+export interface TBARankingItem {
+  rank: number;
+  team_key: string;
+  matches_played: number;
+  dq: number;
+  record: TBARankingRecord | null;
+  qual_average?: number | null;
+  sort_orders: number[] | null;
+  extra_stats?: number[] | null;
+}
+
+/**
+ * Response of /event/{key}/rankings. The first sort order is the Ranking
+ * Score (average RP); total RP is usually the first extra stat.
+ */
+export interface TBAEventRankings {
+  rankings: TBARankingItem[];
+  sort_order_info: TBARankingStatInfo[] | null;
+  extra_stats_info?: TBARankingStatInfo[] | null;
+}
+
+/**
+ * One entry of /event/{key}/alliances, in seed order. picks[0] is the
+ * captain; backup.in is a backup robot the alliance called in.
+ */
+export interface TBAEliminationAlliance {
+  name?: string | null;
+  picks: string[];
+  declines?: string[] | null;
+  backup?: { in: string; out: string } | null;
+  status?: {
+    status?: string;
+    level?: string;
+    double_elim_round?: string;
+    record?: TBARankingRecord | null;
+  } | null;
 }
 
 interface LocalScheduleMatch {
@@ -184,7 +235,7 @@ export const storeEventTeams = (eventKey: string, teams: TBATeam[]): void => {
   };
   
   try {
-    localStorage.setItem(storageKey, JSON.stringify(data));
+    workspaceStorage.setItem(storageKey, JSON.stringify(data));
     console.log(`Stored ${teamNumbers.length} team numbers for event ${eventKey}`);
   } catch (error) {
     console.error('Failed to store teams in localStorage:', error);
@@ -199,7 +250,7 @@ export const getStoredEventTeams = (eventKey: string): number[] | null => {
   const storageKey = `${TEAMS_STORAGE_PREFIX}${eventKey}`;
   
   try {
-    const stored = localStorage.getItem(storageKey);
+    const stored = workspaceStorage.getItem(storageKey);
     if (!stored) return null;
     
     const data = JSON.parse(stored);
@@ -223,7 +274,7 @@ export const getStoredEventTeams = (eventKey: string): number[] | null => {
  */
 export const clearStoredEventTeams = (eventKey: string): void => {
   const storageKey = `${TEAMS_STORAGE_PREFIX}${eventKey}`;
-  localStorage.removeItem(storageKey);
+  workspaceStorage.removeItem(storageKey);
   console.log(`Cleared TBA teams for event ${eventKey}`);
 };
 
@@ -233,11 +284,10 @@ export const clearStoredEventTeams = (eventKey: string): void => {
 export const getAllStoredEventTeams = (): { [eventKey: string]: number[] } => {
   const result: { [eventKey: string]: number[] } = {};
   
-  for (let i = 0; i < localStorage.length; i++) {
-    const key = localStorage.key(i);
-    if (key && key.startsWith(TEAMS_STORAGE_PREFIX)) {
+  for (const key of workspaceStorage.keys()) {
+    if (key.startsWith(TEAMS_STORAGE_PREFIX)) {
       try {
-        const stored = localStorage.getItem(key);
+        const stored = workspaceStorage.getItem(key);
         if (stored) {
           const data = JSON.parse(stored);
           const eventKey = key.replace(TEAMS_STORAGE_PREFIX, '');
@@ -11,6 +11,7 @@
 import Dexie, { type Table } from 'dexie';
 import type { TBAMatchData } from './tbaMatchData';
 import type { ValidationResultDB } from './matchValidationTypes';
+import type { TBAEliminationAlliance, TBAEventRankings, TBATeam } from './tba/tbaUtils';
 
 // ============================================================================
 // Database Schema
@@ -34,6 +35,16 @@ export interface TBACacheMetadata {
   playoffMatchCount: number;
 }
 
+/**
+ * One event-level TBA response (rankings, alliances, team list), stored whole
+ */
+export interface CachedTBAEventResource<T> {
+  eventKey: string;  // Primary key
+  data: T;
+  cachedAt: number;
+  expiresAt: number;
+}
+
 /**
  * Dexie database for TBA cache and validation results
  */
@@ -41,6 +52,9 @@ class TBACacheDB extends Dexie {
   matches!: Table<CachedTBAMatch, string>;
   metadata!: Table<TBACacheMetadata, string>;
   validationResults!: Table<ValidationResultDB, string>;
+  rankings!: Table<CachedTBAEventResource<TBAEventRankings>, string>;
+  alliances!: Table<CachedTBAEventResource<TBAEliminationAlliance[]>, string>;
+  teams!: Table<CachedTBAEventResource<TBATeam[]>, string>;
 
   constructor() {
     super('TBACacheDB');
@@ -57,6 +71,16 @@ class TBACacheDB extends Dexie {
       metadata: 'eventKey, lastFetchedAt',
       validationResults: 'id, eventKey, matchKey, matchNumber, timestamp'
     });
+
+    // Version 3: Add event rankings, alliances and teams
+    this.version(3).stores({
+      matches: 'matchKey, eventKey, matchNumber, compLevel, cachedAt',
+      metadata: 'eventKey, lastFetchedAt',
+      validationResults: 'id, eventKey, matchKey, matchNumber, timestamp',
+      rankings: 'eventKey, cachedAt',
+      alliances: 'eventKey, cachedAt',
+      teams: 'eventKey, cachedAt'
+    });
   }
 }
 
@@ -292,6 +316,9 @@ export async function clearMatchCache(matchKey: string): Promise<void> {
 export async function clearEventCache(eventKey: string): Promise<void> {
   await db.matches.where('eventKey').equals(eventKey).delete();
   await db.metadata.delete(eventKey);
+  await db.rankings.delete(eventKey);
+  await db.alliances.delete(eventKey);
+  await db.teams.delete(eventKey);
 }
 
 /**
@@ -319,6 +346,9 @@ export async function clearExpiredCache(): Promise<number> {
 export async function clearAllTBACache(): Promise<void> {
   await db.matches.clear();
   await db.metadata.clear();
+  await db.rankings.clear();
+  await db.alliances.clear();
+  await db.teams.clear();
 }
 
 /**
@@ -394,6 +424,79 @@ export async function prefetchEventMatches(
   return matches;
 }
 
+// ============================================================================
+// Event Rankings, Alliances and Teams
+// ============================================================================
+
+function toEventResource<T>(
+  eventKey: string,
+  data: T,
+  cacheExpirationMs: number
+): CachedTBAEventResource<T> {
+  const now = Date.now();
+  return { eventKey, data, cachedAt: now, expiresAt: now + cacheExpirationMs };
+}
+
+/**
+ * Store official rankings for an event
+ */
+export async function cacheTBAEventRankings(
+  eventKey: string,
+  rankings: TBAEventRankings,
+  cacheExpirationMs: number = CACHE_EXPIRATION_MS
+): Promise<void> {
+  await db.rankings.put(toEventResource(eventKey, rankings, cacheExpirationMs));
+}
+
+/**
+ * Get cached rankings for an event, expired or not (offline-first)
+ */
+export async function getCachedTBAEventRankings(
+  eventKey: string
+): Promise<CachedTBAEventResource<TBAEventRankings> | null> {
+  return (await db.rankings.get(eventKey)) || null;
+}
+
+/**
+ * Store selected alliances for an event
+ */
+export async function cacheTBAEventAlliances(
+  eventKey: string,
+  alliances: TBAEliminationAlliance[],
+  cacheExpirationMs: number = CACHE_EXPIRATION_MS
+): Promise<void> {
+  await db.alliances.put(toEventResource(eventKey, alliances, cacheExpirationMs));
+}
+
+/**
+ * Get cached alliances for an event, expired or not (offline-first)
+ */
+export async function getCachedTBAEventAlliances(
+  eventKey: string
+): Promise<CachedTBAEventResource<TBAEliminationAlliance[]> | null> {
+  return (await db.alliances.get(eventKey)) || null;
+}
+
+/**
+ * Store the full team list for an event
+ */
+export async function cacheTBAEventTeams(
+  eventKey: string,
+  teams: TBATeam[],
+  cacheExpirationMs: number = CACHE_EXPIRATION_MS
+): Promise<void> {
+  await db.teams.put(toEventResource(eventKey, teams, cacheExpirationMs));
+}
+
+/**
+ * Get the cached team list for an event, expired or not (offline-first)
+ */
+export async function getCachedTBAEventTeams(
+  eventKey: string
+): Promise<CachedTBAEventResource<TBATeam[]> | null> {
+  return (await db.teams.get(eventKey)) || null;
+}
+
 // ============================================================================
 // Validation Results Storage (Phase 3)
 // ============================================================================
@@ -1,5 +1,7 @@
 // @ts-nocheck
 // The Blue Alliance API utilities
+import { workspaceStorage } from '@/core/db/eventWorkspaceDatabase';
+
 const TBA_BASE_URL = 'https://www.thebluealliance.com/api/v3';
 // Replace this with your actual TBA API key from https://www.thebluealliance.com/account
 const TBA_AUTH_KEY = 'YOUR_TBA_API_KEY_HERE';
@@ -307,7 +309,7 @@ export const storeEventTeams = (eventKey: string, teams: TBATeam[]): void => {
   };
   
   try {
-    localStorage.setItem(storageKey, JSON.stringify(data));
+    workspaceStorage.setItem(storageKey, JSON.stringify(data));
     console.log(`Stored ${teamNumbers.length} team numbers for event ${eventKey}`);
   } catch (error) {
     console.error('Failed to store teams in localStorage:', error);
@@ -319,7 +321,7 @@ export const getStoredEventTeams = (eventKey: string): number[] | null => {
   const storageKey = `${TEAMS_STORAGE_PREFIX}${eventKey}`;
   
   try {
-    const stored = localStorage.getItem(storageKey);
+    const stored = workspaceStorage.getItem(storageKey);
     if (!stored) return null;
     
     const data = JSON.parse(stored);
@@ -339,17 +341,16 @@ export const getStoredEventTeams = (eventKey: string): number[] | null => {
 
 export const clearStoredEventTeams = (eventKey: string): void => {
   const storageKey = `${TEAMS_STORAGE_PREFIX}${eventKey}`;
-  localStorage.removeItem(storageKey);
+  workspaceStorage.removeItem(storageKey);
 };
 
 export const getAllStoredEventTeams = (): { [eventKey: string]: number[] } => {
   const result: { [eventKey: string]: number[] } = {};
   
-  for (let i = 0; i < localStorage.length; i++) {
-    const key = localStorage.key(i);
-    if (key && key.startsWith(TEAMS_STORAGE_PREFIX)) {
+  for (const key of workspaceStorage.keys()) {
+    if (key.startsWith(TEAMS_STORAGE_PREFIX)) {
       try {
-        const stored = localStorage.getItem(key);
+        const stored = workspaceStorage.getItem(key);
         if (stored) {
           const data = JSON.parse(stored);
           const eventKey = key.replace(TEAMS_STORAGE_PREFIX, '');
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import type { TBAMatchData } from '@/core/lib/tbaMatchData';
+import {
+  buildTeamHistory,
+  fitTrend,
+  projectTeamMetric,
+  summarizeTbaResults,
+  type TeamHistoryEventSource,
+} from './teamHistory';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SEASON_START = Date.UTC(2026, 2, 5);
+
+// Field of eight teams whose EPA averages 20 + 5 * (week - 1); team 100 stays 1.5x the field
+function createEvent(eventKey: string, week: number, epaTeam100?: number): TeamHistoryEventSource {
+  const fieldAverage = 20 + 5 * (week - 1);
+  const teams = [-6, -4, -2, 0, 2, 4, 6].map((offset, index) => ({
+    teamNumber: 200 + index,
+    matchCount: 10,
+    values: { epaPoints: fieldAverage + offset },
+  }));
+
+  if (epaTeam100 !== undefined) {
+    teams.push({ teamNumber: 100, matchCount: 10, values: { epaPoints: epaTeam100 } });
+  }
+
+  return {
+    eventKey,
+    startedAt: SEASON_START + (week - 1) * 7 * DAY_MS + DAY_MS,
+    teams,
+  };
+}
+
+describe('fitTrend', () => {
+  it('fits a least-squares line and needs two distinct weeks', () => {
+    const trend = fitTrend([{ week: 1, value: 10 }, { week: 2, value: 14 }, { week: 3, value: 18 }]);
+    expect(trend).toEqual({ slope: 4, intercept: 6, sampleSize: 3 });
+
+    expect(fitTrend([{ week: 1, value: 10 }])).toBeNull();
+    expect(fitTrend([{ week: 2, value: 10 }, { week: 2, value: 12 }])).toBeNull();
+  });
+});
+
+describe('buildTeamHistory', () => {
+  it('assigns season weeks and compares each event against its field', () => {
+    const seasons = buildTeamHistory(100, [
+      createEvent('2026wk3', 3, 40),
+      createEvent('2026wk1', 1, 30),
+      createEvent('2026wk2', 2),
+      createEvent('2025old', 1, 12),
+    ]);
+
+    expect(seasons.map(season => season.season)).toEqual(['2025', '2026']);
+
+    const season = seasons[1]!;
+    expect(season.events.map(point => [point.eventKey, point.week])).toEqual([
+      ['2026wk1', 1],
+      ['2026wk3', 3],
+    ]);
+
+    const first = season.events[0]!.comparisons.epaPoints!;
+    expect(first.fieldSize).toBe(8);
+    expect(first.percentile).toBe(100);
+    expect(first.fieldRatio).toBeCloseTo(30 / ((20 * 7 + 30) / 8));
+
+    expect(season.trends.epaPoints?.slope).toBeCloseTo(5);
+    expect(season.fieldTrends.epaPoints).toBeDefined();
+  });
+
+  it('projects a team seen once from its standing against an improving field', () => {
+    const [season] = buildTeamHistory(100, [
+      createEvent('2026wk1', 1, 30),
+      createEvent('2026wk2', 2),
+      createEvent('2026wk3', 3),
+    ]);
+
+    const projection = projectTeamMetric(season!, 'epaPoints', 5);
+
+    expect(projection?.basis).toBe('field-relative');
+    // Field grows ~5 pts per week; team 100 keeps its week 1 ratio
+    expect(projection?.value).toBeGreaterThan(45);
+    expect(projection?.value).toBeLessThan(55);
+    expect(projectTeamMetric(season!, 'scoutedPoints', 5)).toBeNull();
+  });
+});
+
+describe('summarizeTbaResults', () => {
+  it('counts qualification records and skips unplayed matches', () => {
+    const match = (key: string, red: number, blue: number, winner: 'red' | 'blue' | '', compLevel = 'qm') => ({
+      key,
+      comp_level: compLevel,
+      alliances: {
+        red: { score: red, team_keys: ['frc100', 'frc200', 'frc201'] },
+        blue: { score: blue, team_keys: ['frc202', 'frc203', 'frc204'] },
+      },
+      winning_alliance: winner,
+    }) as unknown as TBAMatchData;
+
+    const results = summarizeTbaResults([
+      match('qm1', 50, 40, 'red'),
+      match('qm2', 30, 30, ''),
+      match('qm3', -1, -1, ''),
+      match('sf1m1', 10, 90, 'blue', 'sf'),
+    ]);
+
+    expect(results.get(100)).toEqual({ wins: 1, losses: 0, ties: 1, matchesPlayed: 2, avgAllianceScore: 40 });
+    expect(results.get(202)).toEqual({ wins: 0, losses: 1, ties: 1, matchesPlayed: 2, avgAllianceScore: 35 });
+  });
+});
@@ -0,0 +1,323 @@
+/**
+ * Cross-event team history
+ *
+ * Lines up a team's events by season week, compares each event against the
+ * rest of that event's field, and fits linear trends so a team seen early in
+ * the season can be projected to a later week. Weeks are counted from the
+ * earliest event this device knows about in the season, so "Week 1" is the
+ * first event with scouting, TBA or Statbotics data.
+ */
+
+import type { TBAMatchData } from '@/core/lib/tbaMatchData';
+
+export type TeamHistoryMetric = 'scoutedPoints' | 'epaPoints' | 'allianceScore';
+
+export const TEAM_HISTORY_METRICS: { key: TeamHistoryMetric; label: string; source: string }[] = [
+  { key: 'scoutedPoints', label: 'Scouted Points', source: 'Our scouting' },
+  { key: 'epaPoints', label: 'EPA Total Points', source: 'Statbotics' },
+  { key: 'allianceScore', label: 'Alliance Score', source: 'TBA' },
+];
+
+export interface TeamEventRecord {
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+/** One team's numbers at one event */
+export interface TeamEventSample {
+  teamNumber: number;
+  matchCount: number;
+  values: Partial<Record<TeamHistoryMetric, number>>;
+  record?: TeamEventRecord;
+}
+
+export interface TeamHistoryEventSource {
+  eventKey: string;
+  /** Start of the event in ms, or null when no timestamps are cached */
+  startedAt: number | null;
+  teams: TeamEventSample[];
+}
+
+export interface TeamHistoryComparison {
+  /** Team value divided by the field average at the same event */
+  fieldRatio: number;
+  /** Share of the field the team out-performed, 0-100 */
+  percentile: number;
+  fieldAverage: number;
+  fieldSize: number;
+}
+
+export interface TeamEventHistoryPoint {
+  eventKey: string;
+  season: string;
+  startedAt: number | null;
+  /** 1-based season week, null when the event has no date */
+  week: number | null;
+  matchCount: number;
+  record?: TeamEventRecord;
+  values: Partial<Record<TeamHistoryMetric, number>>;
+  comparisons: Partial<Record<TeamHistoryMetric, TeamHistoryComparison>>;
+}
+
+export interface TeamHistoryTrend {
+  /** Change per week */
+  slope: number;
+  intercept: number;
+  sampleSize: number;
+}
+
+export interface TeamSeasonHistory {
+  season: string;
+  events: TeamEventHistoryPoint[];
+  /** Raw value per week (the improvement rate) */
+  trends: Partial<Record<TeamHistoryMetric, TeamHistoryTrend>>;
+  /** Field ratio per week */
+  ratioTrends: Partial<Record<TeamHistoryMetric, TeamHistoryTrend>>;
+  /** Field average per week across every event in the season */
+  fieldTrends: Partial<Record<TeamHistoryMetric, TeamHistoryTrend>>;
+}
+
+export interface TeamHistoryProjection {
+  week: number;
+  value: number;
+  fieldRatio: number | null;
+  basis: 'field-relative' | 'team-trend' | 'latest-event';
+}
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Events with fewer teams than this are left out of the field trend */
+const MIN_FIELD_SIZE = 6;
+
+export function getEventSeason(eventKey: string): string {
+  const match = /^(\d{4})/.exec(eventKey);
+  return match?.[1] ?? 'unknown';
+}
+
+/**
+ * Least-squares line through (week, value) points.
+ * Needs at least two distinct weeks.
+ */
+export function fitTrend(points: { week: number; value: number }[]): TeamHistoryTrend | null {
+  if (points.length < 2) return null;
+
+  const meanWeek = points.reduce((sum, p) => sum + p.week, 0) / points.length;
+  const meanValue = points.reduce((sum, p) => sum + p.value, 0) / points.length;
+
+  let covariance = 0;
+  let variance = 0;
+  for (const point of points) {
+    covariance += (point.week - meanWeek) * (point.value - meanValue);
+    variance += (point.week - meanWeek) ** 2;
+  }
+
+  if (variance === 0) return null;
+
+  const slope = covariance / variance;
+  return {
+    slope,
+    intercept: meanValue - slope * meanWeek,
+    sampleSize: points.length,
+  };
+}
+
+export function projectTrend(trend: TeamHistoryTrend, week: number): number {
+  return trend.intercept + trend.slope * week;
+}
+
+function compareToField(value: number, fieldValues: number[]): TeamHistoryComparison | undefined {
+  if (fieldValues.length === 0) return undefined;
+
+  const fieldAverage = fieldValues.reduce((sum, v) => sum + v, 0) / fieldValues.length;
+  const below = fieldValues.filter(v => v < value).length;
+  const tied = fieldValues.filter(v => v === value).length;
+
+  return {
+    fieldRatio: fieldAverage > 0 ? value / fieldAverage : 0,
+    percentile: ((below + Math.max(tied - 1, 0) / 2) / Math.max(fieldValues.length - 1, 1)) * 100,
+    fieldAverage,
+    fieldSize: fieldValues.length,
+  };
+}
+
+function getFieldValues(event: TeamHistoryEventSource, metric: TeamHistoryMetric): number[] {
+  return event.teams
+    .map(team => team.values[metric])
+    .filter((value): value is number => typeof value === 'number' && Number.isFinite(value));
+}
+
+function fitMetricTrends(
+  metricPoints: (metric: TeamHistoryMetric) => { week: number; value: number }[]
+): Partial<Record<TeamHistoryMetric, TeamHistoryTrend>> {
+  const trends: Partial<Record<TeamHistoryMetric, TeamHistoryTrend>> = {};
+  for (const { key } of TEAM_HISTORY_METRICS) {
+    const trend = fitTrend(metricPoints(key));
+    if (trend) trends[key] = trend;
+  }
+  return trends;
+}
+
+/**
+ * Build a team's history from every cached event, grouped by season (oldest first).
+ * Events where the team has no sample are only used for field averages.
+ */
+export function buildTeamHistory(teamNumber: number, events: TeamHistoryEventSource[]): TeamSeasonHistory[] {
+  const eventsBySeason = new Map<string, TeamHistoryEventSource[]>();
+  for (const event of events) {
+    const season = getEventSeason(event.eventKey);
+    eventsBySeason.set(season, [...(eventsBySeason.get(season) ?? []), event]);
+  }
+
+  const seasons: TeamSeasonHistory[] = [];
+
+  for (const [season, seasonEvents] of eventsBySeason) {
+    const dated = seasonEvents.filter(event => event.startedAt !== null);
+    const seasonStart = dated.length > 0 ? Math.min(...dated.map(event => event.startedAt as number)) : null;
+    const getWeek = (event: TeamHistoryEventSource): number | null =>
+      event.startedAt !== null && seasonStart !== null
+        ? Math.round((event.startedAt - seasonStart) / WEEK_MS) + 1
+        : null;
+
+    const history: TeamEventHistoryPoint[] = seasonEvents
+      .map(event => ({ event, sample: event.teams.find(team => team.teamNumber === teamNumber) }))
+      .filter((item): item is { event: TeamHistoryEventSource; sample: TeamEventSample } => item.sample !== undefined)
+      .map(({ event, sample }) => {
+        const comparisons: Partial<Record<TeamHistoryMetric, TeamHistoryComparison>> = {};
+        for (const { key } of TEAM_HISTORY_METRICS) {
+          const value = sample.values[key];
+          if (typeof value !== 'number') continue;
+          const comparison = compareToField(value, getFieldValues(event, key));
+          if (comparison) comparisons[key] = comparison;
+        }
+
+        return {
+          eventKey: event.eventKey,
+          season,
+          startedAt: event.startedAt,
+          week: getWeek(event),
+          matchCount: sample.matchCount,
+          record: sample.record,
+          values: sample.values,
+          comparisons,
+        };
+      })
+      .sort((a, b) =>
+        (a.startedAt ?? Number.MAX_SAFE_INTEGER) - (b.startedAt ?? Number.MAX_SAFE_INTEGER)
+        || a.eventKey.localeCompare(b.eventKey)
+      );
+
+    if (history.length === 0) continue;
+
+    const datedHistory = history.filter(
+      (point): point is TeamEventHistoryPoint & { week: number } => point.week !== null
+    );
+
+    seasons.push({
+      season,
+      events: history,
+      trends: fitMetricTrends(metric => datedHistory
+        .filter(point => typeof point.values[metric] === 'number')
+        .map(point => ({ week: point.week, value: point.values[metric] as number }))),
+      ratioTrends: fitMetricTrends(metric => datedHistory
+        .filter(point => point.comparisons[metric] !== undefined)
+        .map(point => ({ week: point.week, value: point.comparisons[metric]!.fieldRatio }))),
+      fieldTrends: fitMetricTrends(metric => seasonEvents.flatMap(event => {
+        const week = getWeek(event);
+        const fieldValues = getFieldValues(event, metric);
+        if (week === null || fieldValues.length < MIN_FIELD_SIZE) return [];
+        return [{ week, value: fieldValues.reduce((sum, v) => sum + v, 0) / fieldValues.length }];
+      })),
+    });
+  }
+
+  return seasons.sort((a, b) => a.season.localeCompare(b.season));
+}
+
+/**
+ * Project a metric to a season week.
+ *
+ * Prefers the team's standing against the field (its field ratio, trended when
+ * it has played more than one event) times the projected field average, since
+ * the whole field improves over a season. Falls back to the team's own trend,
+ * then to its latest event.
+ */
+export function projectTeamMetric(
+  season: TeamSeasonHistory,
+  metric: TeamHistoryMetric,
+  week: number
+): TeamHistoryProjection | null {
+  const withValue = season.events.filter(point => typeof point.values[metric] === 'number');
+  const latest = withValue[withValue.length - 1];
+  if (!latest) return null;
+
+  const latestRatio = latest.comparisons[metric]?.fieldRatio ?? null;
+  const ratioTrend = season.ratioTrends[metric];
+  const fieldTrend = season.fieldTrends[metric];
+
+  if (fieldTrend && latestRatio !== null) {
+    const fieldRatio = Math.max(0, ratioTrend ? projectTrend(ratioTrend, week) : latestRatio);
+    return {
+      week,
+      value: Math.max(0, projectTrend(fieldTrend, week) * fieldRatio),
+      fieldRatio,
+      basis: 'field-relative',
+    };
+  }
+
+  const trend = season.trends[metric];
+  if (trend) {
+    return {
+      week,
+      value: Math.max(0, projectTrend(trend, week)),
+      fieldRatio: ratioTrend ? projectTrend(ratioTrend, week) : latestRatio,
+      basis: 'team-trend',
+    };
+  }
+
+  return {
+    week,
+    value: latest.values[metric] as number,
+    fieldRatio: latestRatio,
+    basis: 'latest-event',
+  };
+}
+
+/**
+ * Per-team record and average alliance score from cached TBA qualification matches.
+ * Unplayed matches (negative scores) are skipped.
+ */
+export function summarizeTbaResults(
+  matches: TBAMatchData[]
+): Map<number, TeamEventRecord & { matchesPlayed: number; avgAllianceScore: number }> {
+  const totals = new Map<number, TeamEventRecord & { matchesPlayed: number; scoreTotal: number }>();
+
+  for (const match of matches) {
+    if (match.comp_level !== 'qm') continue;
+
+    for (const color of ['red', 'blue'] as const) {
+      const alliance = match.alliances[color];
+      if (!alliance || alliance.score < 0) continue;
+
+      for (const teamKey of alliance.team_keys) {
+        const teamNumber = Number.parseInt(String(teamKey).replace(/^frc/i, ''), 10);
+        if (!Number.isFinite(teamNumber)) continue;
+
+        const entry = totals.get(teamNumber) ?? { wins: 0, losses: 0, ties: 0, matchesPlayed: 0, scoreTotal: 0 };
+        entry.matchesPlayed += 1;
+        entry.scoreTotal += alliance.score;
+        if (match.winning_alliance === color) entry.wins += 1;
+        else if (match.winning_alliance === '') entry.ties += 1;
+        else entry.losses += 1;
+        totals.set(teamNumber, entry);
+      }
+    }
+  }
+
+  return new Map(
+    [...totals].map(([teamNumber, { scoreTotal, ...entry }]) => [
+      teamNumber,
+      { ...entry, avgAllianceScore: entry.matchesPlayed > 0 ? scoreTotal / entry.matchesPlayed : 0 },
+    ])
+  );
+}
@@ -1,4 +1,4 @@
-import { db, pitDB, saveScoutingEntry } from '@/db';
+import { db, pitDB, saveScoutingEntry, syncLogDB } from '@/db';
 import {
     gamificationDB,
 } from '@/game-template/gamification';
@@ -301,6 +301,8 @@ export const resetEntireDatabase = async () => {
     await Promise.all([
         db.scoutingData.clear(),
         pitDB.pitScoutingData.clear(),
+        syncLogDB.changes.clear(),
+        syncLogDB.cursors.clear(),
         gamificationDB.scouts.clear(),
         gamificationDB.predictions.clear(),
         gamificationDB.scoutAchievements.clear()
@@ -0,0 +1,26 @@
+import { toast } from "sonner";
+import { isCustomFormPayload, normalizeCustomFormDefinition } from "@/core/lib/customForm";
+import { importCustomForm } from "@/core/db/customFormDatabase";
+
+export const handleCustomFormUpload = async (jsonData: unknown): Promise<void> => {
+  const form = isCustomFormPayload(jsonData) ? normalizeCustomFormDefinition(jsonData.form) : null;
+  if (!form) {
+    toast.error("Invalid custom form file. Please upload a file downloaded from Custom Scouting Form JSON export.");
+    return;
+  }
+
+  try {
+    const result = await importCustomForm(form);
+
+    if (result === 'older') {
+      toast.warning(`"${form.name}" v${form.version} is older than the form on this device. Nothing changed.`);
+    } else if (result === 'unchanged') {
+      toast.info(`"${form.name}" v${form.version} is already in use on this device`);
+    } else {
+      toast.success(`Now using "${form.name}" v${form.version} (${form.fields.length} questions)`);
+    }
+  } catch (error) {
+    console.error('Error importing custom form:', error);
+    toast.error("Failed to import custom form");
+  }
+};
@@ -1,4 +1,8 @@
 import { isMatchSchedulePayload } from "@/core/lib/matchScheduleTransfer";
+import { isCustomFormPayload } from "@/core/lib/customForm";
+import { isSyncDeltaPayload } from "@/core/lib/syncLog";
+import { isEventWorkspaceArchive } from "@/core/lib/eventWorkspace";
+import { isPitPhotoTransferPayload } from "@/core/lib/pitPhotos";
 
 const isPitLikeEntry = (entry: Record<string, unknown>): boolean => {
   if (typeof entry.id === 'string' && entry.id.startsWith('pit-')) {
@@ -30,7 +34,7 @@ const isPitLikeEntry = (entry: Record<string, unknown>): boolean => {
 };
 
 // Function to detect data type from JSON content
-export const detectDataType = (jsonData: unknown): 'scouting' | 'scoutProfiles' | 'pitScouting' | 'pitScoutingImagesOnly' | 'matchSchedule' | null => {
+export const detectDataType = (jsonData: unknown): 'scouting' | 'scoutProfiles' | 'pitScouting' | 'pitScoutingImagesOnly' | 'matchSchedule' | 'customForm' | 'syncDelta' | 'eventWorkspace' | null => {
   if (!jsonData || typeof jsonData !== 'object') return null;
 
   const data = jsonData as Record<string, unknown>;
@@ -40,7 +44,10 @@ export const detectDataType = (jsonData: unknown): 'scouting' | 'scoutProfiles'
     return 'scoutProfiles';
   }
 
-  // Check for pit scouting images-only format
+  // Check for pit scouting photos (current format, or legacy images-only)
+  if (isPitPhotoTransferPayload(jsonData)) {
+    return 'pitScoutingImagesOnly';
+  }
   if ('type' in data && data.type === 'pit-scouting-images-only' && 'entries' in data && Array.isArray(data.entries)) {
     return 'pitScoutingImagesOnly';
   }
@@ -49,6 +56,18 @@ export const detectDataType = (jsonData: unknown): 'scouting' | 'scoutProfiles'
     return 'matchSchedule';
   }
 
+  if (isCustomFormPayload(jsonData)) {
+    return 'customForm';
+  }
+
+  if (isSyncDeltaPayload(jsonData)) {
+    return 'syncDelta';
+  }
+
+  if (isEventWorkspaceArchive(jsonData)) {
+    return 'eventWorkspace';
+  }
+
   // Check for pit scouting format
   if ('entries' in data && Array.isArray(data.entries)) {
     const entries = data.entries as unknown[];
@@ -0,0 +1,28 @@
+import { toast } from "sonner";
+import type { UploadMode } from "./scoutingDataUploadHandler";
+import { isEventWorkspaceArchive } from "@/core/lib/eventWorkspace";
+import { restoreEventWorkspace, type EventWorkspaceRestoreResult } from "@/core/db/eventWorkspaceDatabase";
+
+export const handleEventWorkspaceUpload = async (jsonData: unknown, mode: UploadMode): Promise<EventWorkspaceRestoreResult | null> => {
+  void mode;
+
+  if (!isEventWorkspaceArchive(jsonData)) {
+    toast.error("Invalid workspace file. Please upload a file downloaded from Event Workspace JSON export.");
+    return null;
+  }
+
+  try {
+    const result = await restoreEventWorkspace(jsonData);
+    const source = jsonData.eventKey ? `workspace for ${jsonData.eventKey}` : "workspace for all events";
+
+    window.dispatchEvent(new Event('dataChanged'));
+    toast.success(`Restored ${source}`, {
+      description: `${result.itemsRestored} saved items, ${result.scoutingEntriesRestored} scouting entries, ${result.pitEntriesRestored} pit entries and ${result.pitPhotosRestored} photos. Reload to see every page with the restored data.`
+    });
+    return result;
+  } catch (error) {
+    console.error('Error restoring event workspace:', error);
+    toast.error("Failed to restore event workspace");
+    return null;
+  }
+};
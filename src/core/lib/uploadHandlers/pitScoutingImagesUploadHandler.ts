@@ -1,5 +1,6 @@
 import { toast } from "sonner";
-import { importPitScoutingImagesOnly } from "@/core/lib/pitScoutingUtils";
+import { importPitPhotoPayload, importPitScoutingImagesOnly } from "@/core/lib/pitScoutingUtils";
+import { isPitPhotoTransferPayload } from "@/core/lib/pitPhotos";
 
 export const handlePitScoutingImagesUpload = async (jsonData: unknown): Promise<void> => {
   if (!jsonData || typeof jsonData !== 'object') {
@@ -7,6 +8,22 @@ export const handlePitScoutingImagesUpload = async (jsonData: unknown): Promise<
     return;
   }
 
+  if (isPitPhotoTransferPayload(jsonData)) {
+    try {
+      const result = await importPitPhotoPayload(jsonData);
+      const received = result.added + result.updated;
+      if (received === 0) {
+        toast.info("All photos in this file are already on this device");
+      } else {
+        toast.success(`Imported ${received} ${received === 1 ? 'photo' : 'photos'} (${result.added} new, ${result.updated} updated)`);
+      }
+    } catch (error) {
+      console.error('Error importing pit scouting photos:', error);
+      toast.error("Failed to import pit scouting photos");
+    }
+    return;
+  }
+
   const data = jsonData as Record<string, unknown>;
   
   if (data.type !== 'pit-scouting-images-only' || !('entries' in data) || !Array.isArray(data.entries)) {
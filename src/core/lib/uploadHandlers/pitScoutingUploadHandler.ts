@@ -1,5 +1,6 @@
 import { toast } from "sonner";
-import { importPitScoutingData } from "@/core/lib/pitScoutingUtils";
+import { importPitPhotoPayload, importPitScoutingData } from "@/core/lib/pitScoutingUtils";
+import { createPitPhotoTransferPayload, isPitPhotoTransferPayload } from "@/core/lib/pitPhotos";
 import type { PitScoutingEntryBase } from "@/types/database";
 import type { UploadMode } from "./scoutingDataUploadHandler";
 
@@ -9,7 +10,7 @@ export const handlePitScoutingUpload = async (jsonData: unknown, mode: UploadMod
     return;
   }
 
-  const data = jsonData as { entries: unknown[]; lastUpdated?: number };
+  const data = jsonData as { entries: unknown[]; lastUpdated?: number; photos?: unknown[] };
   
   try {
     const result = await importPitScoutingData(
@@ -19,6 +20,11 @@ export const handlePitScoutingUpload = async (jsonData: unknown, mode: UploadMod
       },
       mode === 'overwrite' ? 'overwrite' : 'append'
     );
+
+    // "With images" exports carry the team photos alongside the entries
+    const photoPayload = Array.isArray(data.photos) ? { ...createPitPhotoTransferPayload([]), photos: data.photos } : null;
+    const photoResult = isPitPhotoTransferPayload(photoPayload) ? await importPitPhotoPayload(photoPayload) : null;
+    const photosImported = photoResult ? photoResult.added + photoResult.updated : 0;
     
     const message = mode === 'overwrite'
       ? `Overwritten with ${result.imported} pit scouting entries`
@@ -27,6 +33,7 @@ export const handlePitScoutingUpload = async (jsonData: unknown, mode: UploadMod
           result.updated > 0 ? `updated ${result.updated} existing ${result.updated === 1 ? 'entry' : 'entries'}` : null,
           result.seededFromPrevious > 0 ? `seeded ${result.seededFromPrevious} from the latest prior event` : null,
           result.duplicatesSkipped > 0 ? `${result.duplicatesSkipped} duplicates skipped` : null,
+          photosImported > 0 ? `${photosImported} ${photosImported === 1 ? 'photo' : 'photos'}` : null,
         ].filter(Boolean).join(', ');
     
     toast.success(message);
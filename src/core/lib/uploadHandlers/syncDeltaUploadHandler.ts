@@ -0,0 +1,31 @@
+import { toast } from "sonner";
+import type { UploadMode } from "./scoutingDataUploadHandler";
+import { formatSyncImportSummary, isSyncDeltaPayload, type SyncImportResult } from "@/core/lib/syncLog";
+import { importSyncDelta } from "@/core/db/database";
+
+export const handleSyncDeltaUpload = async (jsonData: unknown, mode: UploadMode): Promise<SyncImportResult | null> => {
+  void mode;
+
+  if (!isSyncDeltaPayload(jsonData)) {
+    toast.error("Invalid sync file. Please upload a file downloaded from Changes Since Last Sync JSON export.");
+    return null;
+  }
+
+  try {
+    const result = await importSyncDelta(jsonData);
+    const summary = `Synced with ${jsonData.deviceName}: ${formatSyncImportSummary(result)}`;
+
+    if (result.complete) {
+      toast.success(summary);
+    } else {
+      toast.warning(summary, {
+        description: `This device is missing earlier changes from ${jsonData.deviceName}. Ask them to resend everything.`
+      });
+    }
+    return result;
+  } catch (error) {
+    console.error('Error importing sync delta:', error);
+    toast.error("Failed to import sync changes");
+    return null;
+  }
+};
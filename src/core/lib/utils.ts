@@ -19,6 +19,7 @@ export const SCOUTING_DATA_HEADER = [
 ];
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { MATCH_CLOCK_STORAGE_KEY } from "./matchClock"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -70,9 +71,13 @@ export const convertTeamRole = (value: string | null) => {
 export function clearScoutingLocalStorage() {
   localStorage.removeItem("autoStateStack");
   localStorage.removeItem("teleopStateStack");
+  localStorage.removeItem(MATCH_CLOCK_STORAGE_KEY);
   localStorage.removeItem("autoRobotStatus");
   localStorage.removeItem("teleopRobotStatus");
   localStorage.removeItem("endgameRobotStatus");
   localStorage.removeItem("autoUndoHistory");
   localStorage.removeItem("teleopUndoHistory");
+  localStorage.removeItem("autoCustomFields");
+  localStorage.removeItem("teleopCustomFields");
+  localStorage.removeItem("endgameCustomFields");
 }
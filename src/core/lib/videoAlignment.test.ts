@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import {
+  findActiveEventIndex,
+  formatVideoOffset,
+  getTimelinePercent,
+  isVideoFile,
+  toMatchTime,
+  toVideoTime,
+} from './videoAlignment';
+
+describe('video alignment', () => {
+  it('maps match time to video time through the auto start offset', () => {
+    expect(toVideoTime(12.5, 30)).toBe(42.5);
+    expect(toMatchTime(12.5, 42.5)).toBe(30);
+    expect(toMatchTime(12.5, 2.5)).toBe(-10);
+  });
+
+  it('finds the latest event at or before a match time', () => {
+    const times = [0, 3.2, 3.2, 40, 45];
+
+    expect(findActiveEventIndex(times, -1)).toBe(-1);
+    expect(findActiveEventIndex(times, 3.2)).toBe(2);
+    expect(findActiveEventIndex(times, 44.9)).toBe(3);
+    expect(findActiveEventIndex(times, 200)).toBe(4);
+  });
+
+  it('places markers along the timeline', () => {
+    expect(getTimelinePercent(30, 120)).toBe(25);
+    expect(getTimelinePercent(-5, 120)).toBe(0);
+    expect(getTimelinePercent(500, 120)).toBe(100);
+    expect(getTimelinePercent(10, 0)).toBe(0);
+  });
+
+  it('recognizes videos by MIME type or extension', () => {
+    expect(isVideoFile({ type: 'video/mp4', name: 'match.mp4' })).toBe(true);
+    expect(isVideoFile({ type: '', name: 'IMG_0042.MOV' })).toBe(true);
+    expect(isVideoFile({ type: 'image/jpeg', name: 'robot.jpg' })).toBe(false);
+  });
+
+  it('formats offsets to a tenth of a second', () => {
+    expect(formatVideoOffset(72.34)).toBe('1:12.3');
+    expect(formatVideoOffset(5)).toBe('0:05.0');
+    expect(formatVideoOffset(-1.25)).toBe('-0:01.3');
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Match video alignment
+ * Framework implementation - game-agnostic
+ *
+ * Lines a locally recorded match video up with scouted events. The only thing
+ * a lead marks is where auto starts in the video; every event's match time
+ * (seconds since the start of auto, see lib/matchClock) then maps to a video
+ * time by adding that offset.
+ *
+ * Videos are opened from the device with the File API and played from an
+ * object URL, so nothing is uploaded and review works offline. Only the
+ * offset is kept, per match, so reopening the same recording needs no
+ * re-alignment.
+ */
+
+export const VIDEO_ALIGNMENT_STORAGE_KEY = 'videoAlignments';
+
+const VIDEO_FILE_EXTENSIONS = ['.mp4', '.mov', '.m4v', '.webm', '.mkv', '.3gp'];
+
+/** Video time (seconds) of a match time */
+export const toVideoTime = (autoStartSec: number, matchTime: number): number =>
+  autoStartSec + matchTime;
+
+/** Match time (seconds since the start of auto) at a video time */
+export const toMatchTime = (autoStartSec: number, videoTime: number): number =>
+  videoTime - autoStartSec;
+
+/**
+ * Index of the latest event at or before a match time, or -1 before the first.
+ * `times` must be sorted.
+ */
+export const findActiveEventIndex = (times: number[], matchTime: number): number => {
+  let active = -1;
+  times.forEach((time, index) => {
+    if (time <= matchTime) active = index;
+  });
+  return active;
+};
+
+/** Position of a video time along a timeline bar, 0-100 */
+export const getTimelinePercent = (videoTime: number, durationSec: number): number =>
+  durationSec > 0 ? Math.min(100, Math.max(0, (videoTime / durationSec) * 100)) : 0;
+
+/** Phones sometimes report an empty MIME type, so fall back to the extension */
+export const isVideoFile = (file: { type: string; name: string }): boolean =>
+  file.type.startsWith('video/')
+  || VIDEO_FILE_EXTENSIONS.some(extension => file.name.toLowerCase().endsWith(extension));
+
+/** m:ss.s, negative before auto starts */
+export const formatVideoOffset = (seconds: number): string => {
+  const sign = seconds < 0 ? '-' : '';
+  const tenths = Math.round(Math.abs(seconds) * 10);
+  const minutes = Math.floor(tenths / 600);
+  const remainder = (tenths % 600) / 10;
+  return `${sign}${minutes}:${remainder.toFixed(1).padStart(4, '0')}`;
+};
+
+const loadAlignments = (): Record<string, number> => {
+  try {
+    const stored = localStorage.getItem(VIDEO_ALIGNMENT_STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : {};
+    return parsed && typeof parsed === 'object' ? parsed as Record<string, number> : {};
+  } catch {
+    return {};
+  }
+};
+
+/** Saved auto start (video seconds) for a match, or null */
+export const loadVideoAlignment = (matchKey: string): number | null => {
+  const value = loadAlignments()[matchKey];
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+};
+
+export const saveVideoAlignment = (matchKey: string, autoStartSec: number): void => {
+  localStorage.setItem(
+    VIDEO_ALIGNMENT_STORAGE_KEY,
+    JSON.stringify({ ...loadAlignments(), [matchKey]: autoStartSec })
+  );
+};
+
+export const clearVideoAlignment = (matchKey: string): void => {
+  const { [matchKey]: _removed, ...rest } = loadAlignments();
+  localStorage.setItem(VIDEO_ALIGNMENT_STORAGE_KEY, JSON.stringify(rest));
+};
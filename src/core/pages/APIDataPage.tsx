@@ -27,6 +27,8 @@ import { getNexusPitData, storePitData, getStoredPitData, getNexusEvents, extrac
 import { clearEventData, hasStoredEventData, setCurrentEvent, getCurrentEvent, isDifferentEvent } from '@/core/lib/tba';
 import { processPredictionRewardsForMatches } from '@/core/lib/predictionRewards';
 import { fetchAndCacheEventCOPRs } from '@/core/lib/tba/coprUtils';
+import { refreshEventStandings } from '@/core/lib/tba/eventStandingsUtils';
+import { PlayoffBracketCard } from '@/core/components/Strategy/PlayoffBracketCard';
 import { extractTeamsFromMatches, fetchAndCacheEventStatboticsEPA, fetchEventTeamNumbersFromTBA } from '@/core/lib/statbotics/epaUtils';
 import {
   correctClimbDataWithValidation,
@@ -78,6 +80,8 @@ const APIDataPage: React.FC = () => {
   const [debugNexusLoading, setDebugNexusLoading] = useState(false);
   const [nexusEvents, setNexusEvents] = useState<Record<string, unknown> | null>(null);
   const [statboticsRefreshKey, setStatboticsRefreshKey] = useState(0);
+  const [eventStandingsLoading, setEventStandingsLoading] = useState(false);
+  const [eventStandingsRefreshKey, setEventStandingsRefreshKey] = useState(0);
   const [correctingClimbData, setCorrectingClimbData] = useState(false);
   const [previewingClimbCorrections, setPreviewingClimbCorrections] = useState(false);
   const [climbCorrectionPreview, setClimbCorrectionPreview] = useState<ClimbCorrectionPreview | null>(null);
@@ -278,6 +282,33 @@ const APIDataPage: React.FC = () => {
     await loadEventTeams(apiKey, eventKey, false, () => { });
   };
 
+  const handleLoadEventStandings = async () => {
+    if (!eventKey.trim()) {
+      toast.error('Please enter an event key');
+      return;
+    }
+
+    executeWithConfirmation(async () => {
+      setEventStandingsLoading(true);
+      try {
+        const result = await refreshEventStandings(eventKey, apiKey);
+        if (result.failed.length === 4) {
+          toast.error('Failed to load rankings and alliances from TBA');
+          return;
+        }
+
+        toast.success(
+          `Loaded ${result.rankingCount} rankings, ${result.allianceCount} alliances and ${result.teamCount} teams`,
+          result.failed.length > 0 ? { description: `Not loaded: ${result.failed.join(', ')}` } : undefined
+        );
+        setEventStandingsRefreshKey(Date.now());
+        setCurrentEvent(eventKey.trim());
+      } finally {
+        setEventStandingsLoading(false);
+      }
+    });
+  };
+
   const handleLoadPitData = async () => {
     if (!eventKey.trim()) {
       toast.error('Please enter an event key');
@@ -543,6 +574,7 @@ const APIDataPage: React.FC = () => {
         matchResultsLoading={matchResultsLoading}
         validationLoading={validationLoading}
         eventTeamsLoading={eventTeamsLoading}
+        eventStandingsLoading={eventStandingsLoading}
         pitDataLoading={pitDataLoading}
         debugNexusLoading={debugNexusLoading}
         onLoadMatchData={handleLoadMatchData}
@@ -550,6 +582,7 @@ const APIDataPage: React.FC = () => {
         onLoadValidationData={handleLoadValidationData}
         onLoadStatboticsEPA={handleLoadStatboticsEPA}
         onLoadEventTeams={handleLoadEventTeams}
+        onLoadEventStandings={handleLoadEventStandings}
         onLoadPitData={handleLoadPitData}
         onDebugNexus={handleDebugNexus}
       />
@@ -603,6 +636,11 @@ const APIDataPage: React.FC = () => {
         />
       )}
 
+      {/* Rankings, Alliances and Bracket Display */}
+      {dataType === 'event-standings' && (
+        <PlayoffBracketCard key={`${eventKey}-${eventStandingsRefreshKey}`} eventKey={eventKey.trim() || undefined} />
+      )}
+
       {/* Pit Data Display */}
       {dataType === 'pit-data' && (
         <PitDataDisplay
@@ -13,7 +13,19 @@ import { AUTO_PHASE_DURATION_MS } from "@/game-template/constants";
 import { useWorkflowNavigation } from "@/core/hooks/useWorkflowNavigation";
 import { submitMatchData } from "@/core/lib/submitMatch";
 import { useGame } from "@/core/contexts/GameContext";
+import { useCustomForm } from "@/core/hooks/useCustomForm";
+import { CustomFormFieldsCard } from "@/core/components/custom-form";
 import { workflowConfig } from "@/game-template/game-schema";
+import { getEffectiveScoutOptions } from "@/game-template/scout-options";
+import { CORE_SCOUT_OPTION_KEYS } from "@/core/components/GameStartComponents/ScoutOptionsSheet";
+import {
+  advanceMatchClockTo,
+  ensureMatchClock,
+  loadMatchClock,
+  saveMatchClock,
+  stampMatchTimes,
+  toMatchTimeSeconds,
+} from "@/core/lib/matchClock";
 
 const AUTO_CLIMB_START_PRESETS = [20, 15, 10, 5] as const;
 
@@ -23,6 +35,7 @@ const AutoScoringPage = () => {
   const navigate = useNavigate();
   const states = location.state;
   const { getNextRoute, getPrevRoute, isLastPage } = useWorkflowNavigation();
+  const { form: customForm } = useCustomForm();
   const isSubmitPage = isLastPage('autoScoring');
 
   const getSavedState = () => {
@@ -64,8 +77,21 @@ const AutoScoringPage = () => {
     localStorage.setItem("autoUndoHistory", JSON.stringify(undoHistory));
   }, [undoHistory]);
 
+  // The match clock starts with the first recorded action (normally the start
+  // confirmation), or on entering this page when the auto cue is set to start here
+  const startClockOnEntry = getEffectiveScoutOptions(states?.inputs?.scoutOptions)[
+    CORE_SCOUT_OPTION_KEYS.startAutoCueFromAutoScreenEntry
+  ] === true;
+
+  useEffect(() => {
+    if (startClockOnEntry) {
+      ensureMatchClock();
+    }
+  }, [startClockOnEntry]);
+
   const addScoringAction = (action: any) => {
-    const newAction = { ...action, timestamp: Date.now() };
+    const now = Date.now();
+    const newAction = { ...action, timestamp: now, matchTime: toMatchTimeSeconds(ensureMatchClock(now), now) };
     setScoringActions((prev: any) => [...prev, newAction]);
     // Add to undo history
     setUndoHistory((prev: any) => [...prev, { type: 'action', data: newAction }]);
@@ -184,10 +210,16 @@ const AutoScoringPage = () => {
       }
     }
 
-    if (Array.isArray(finalActions)) {
+    const matchClock = loadMatchClock();
+    actionsToUse = stampMatchTimes(actionsToUse, matchClock);
+    if (Array.isArray(finalActions) || matchClock) {
       setScoringActions(actionsToUse);
     }
     localStorage.setItem("autoStateStack", JSON.stringify(actionsToUse));
+    // Teleop cannot start before auto ends, whatever the clock says
+    if (matchClock) {
+      saveMatchClock(advanceMatchClockTo(matchClock, AUTO_PHASE_DURATION_MS));
+    }
 
     if (isSubmitPage) {
       // This is the last page - submit match data
@@ -333,6 +365,9 @@ const AutoScoringPage = () => {
               </Card>
             )}
 
+            {/* Custom Form Questions */}
+            <CustomFormFieldsCard form={customForm} phase="auto" />
+
             <Card>
               <CardHeader>
                 <CardTitle className="text-lg">Auto Climb Start Time</CardTitle>
@@ -7,6 +7,7 @@ import { ClearAllDataDialog } from "@/core/components/data-management/ClearCompo
 import { DataClearCard } from "@/core/components/data-management/ClearComponents/DataClearCard";
 import { EventDataClearCard } from "@/core/components/data-management/ClearComponents/EventDataClearCard";
 import { db, pitDB } from "@/core/db/database";
+import { workspaceStorage } from "@/core/db/eventWorkspaceDatabase";
 import { gamificationDB as gameDB } from "@/game-template/gamification";
 
 
@@ -37,7 +38,7 @@ const ClearDataPage = () => {
     };
 
     const addFromArrayStorage = (storageKey: string) => {
-      const raw = localStorage.getItem(storageKey);
+      const raw = workspaceStorage.getItem(storageKey);
       if (!raw) return;
 
       try {
@@ -65,14 +66,14 @@ const ClearDataPage = () => {
     };
 
     addIfValid(localStorage.getItem('eventKey'));
-    addIfValid(localStorage.getItem('current_event'));
+    addIfValid(workspaceStorage.getItem('current_event'));
     addFromArrayStorage('eventsList');
     addFromArrayStorage('customEventsList');
     addFromArrayStorage('event_history');
 
     const eventKeyPattern = /^(?:tba_event_teams_|nexus_pit_addresses_|nexus_pit_map_|nexus_event_teams_|matches_|match_results_|event_info_|pit_assignments_|pit_assignments_meta_|pit_assignments_mine_|tba_match_schedule_|tba_match_data_|matchResults_|stakesAwarded_)(.+)$/;
 
-    Object.keys(localStorage).forEach(storageKey => {
+    workspaceStorage.keys().forEach(storageKey => {
       const match = storageKey.match(eventKeyPattern);
       if (match && match[1]) {
         addIfValid(match[1]);
@@ -0,0 +1,256 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ClipboardList, Plus, QrCode, Save, Share2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/core/components/ui/card";
+import { Button } from "@/core/components/ui/button";
+import { Badge } from "@/core/components/ui/badge";
+import { Input } from "@/core/components/ui/input";
+import { Label } from "@/core/components/ui/label";
+import { CustomFieldEditor } from '@/core/components/custom-form';
+import { useCustomForm } from '@/core/hooks/useCustomForm';
+import { saveCustomFormVersion } from '@/core/db/customFormDatabase';
+import { createCustomFieldKey, createCustomFormPayload } from '@/core/lib/customForm';
+import { downloadTextFile } from '@/core/lib/downloadUtils';
+import {
+  CUSTOM_FIELD_PHASES,
+  CUSTOM_FIELD_PHASE_LABELS,
+  CUSTOM_FIELD_TYPES,
+  CUSTOM_FIELD_TYPE_LABELS,
+  DEFAULT_RATING_MAX,
+  type CustomFieldDefinition,
+  type CustomFieldType,
+} from '@/core/lib/customFormTypes';
+
+const NEW_FIELD_LABELS: Record<CustomFieldType, string> = {
+  counter: 'New counter',
+  toggle: 'New toggle',
+  select: 'New choice',
+  rating: 'New rating',
+  text: 'New note',
+};
+
+const getValidationError = (fields: CustomFieldDefinition[]): string | null => {
+  for (const field of fields) {
+    if (!field.label.trim()) return 'Every question needs a label.';
+    if (field.type === 'select' && (field.options ?? []).filter(option => option.trim()).length < 2) {
+      return `"${field.label}" needs at least two options.`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Unpublished fields take a key derived from their final label so stat columns
+ * read naturally; published keys may exist in submitted matches and stay fixed.
+ */
+const assignFieldKeys = (fields: CustomFieldDefinition[], publishedKeys: Set<string>): CustomFieldDefinition[] => {
+  // Removed published keys stay reserved so old answers are never read as a new question
+  const usedKeys = new Set(publishedKeys);
+  return fields.map(field => {
+    if (publishedKeys.has(field.key)) return field;
+    const key = createCustomFieldKey(field.label, usedKeys);
+    usedKeys.add(key);
+    return { ...field, key };
+  });
+};
+
+/** Trim select options and drop empty ones before saving */
+const cleanField = (field: CustomFieldDefinition): CustomFieldDefinition => (
+  field.type === 'select'
+    ? { ...field, label: field.label.trim(), options: [...new Set((field.options ?? []).map(option => option.trim()).filter(Boolean))] }
+    : { ...field, label: field.label.trim() }
+);
+
+const CustomFormBuilderPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { form, isLoading, reload } = useCustomForm();
+  const [name, setName] = useState('');
+  const [fields, setFields] = useState<CustomFieldDefinition[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setName(form?.name ?? 'Custom Form');
+    setFields(form?.fields ?? []);
+  }, [form]);
+
+  // Keys already saved may exist in submitted matches, so they stay fixed
+  const publishedKeys = useMemo(() => new Set((form?.fields ?? []).map(field => field.key)), [form]);
+
+  const hasChanges = useMemo(() => {
+    if (!form) return fields.length > 0;
+    return name.trim() !== form.name || JSON.stringify(fields.map(cleanField)) !== JSON.stringify(form.fields);
+  }, [form, name, fields]);
+
+  const addField = (type: CustomFieldType) => {
+    setFields(prev => {
+      const label = NEW_FIELD_LABELS[type];
+      const key = createCustomFieldKey(label, [...prev.map(field => field.key), ...publishedKeys]);
+      const field: CustomFieldDefinition = {
+        key,
+        label,
+        phase: 'teleop',
+        type,
+        ...(type === 'select' ? { options: [] } : {}),
+        ...(type === 'rating' ? { max: DEFAULT_RATING_MAX } : {}),
+      };
+      return [...prev, field];
+    });
+  };
+
+  const updateField = (index: number, next: CustomFieldDefinition) => {
+    setFields(prev => prev.map((field, fieldIndex) => (fieldIndex === index ? next : field)));
+  };
+
+  /** Swap with the nearest field of the same phase, since fields are listed by phase */
+  const moveField = (index: number, direction: -1 | 1) => {
+    setFields(prev => {
+      const current = prev[index];
+      if (!current) return prev;
+
+      let target = index + direction;
+      while (target >= 0 && target < prev.length && prev[target]?.phase !== current.phase) {
+        target += direction;
+      }
+      const swap = prev[target];
+      if (!swap) return prev;
+
+      const next = [...prev];
+      next[index] = swap;
+      next[target] = current;
+      return next;
+    });
+  };
+
+  const removeField = (index: number) => {
+    setFields(prev => prev.filter((_, fieldIndex) => fieldIndex !== index));
+  };
+
+  const handleSave = async () => {
+    const validationError = getValidationError(fields);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await saveCustomFormVersion(name, assignFieldKeys(fields.map(cleanField), publishedKeys));
+      await reload();
+      toast.success(`Saved "${saved.name}" v${saved.version}. Share it so every tablet uses this version.`);
+    } catch (error) {
+      console.error('Failed to save custom form:', error);
+      toast.error('Failed to save custom form');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!form) return;
+    downloadTextFile(
+      `ManeuverCustomForm-v${form.version}.json`,
+      JSON.stringify(createCustomFormPayload(form), null, 2),
+      'application/json'
+    );
+  };
+
+  return (
+    <div className="min-h-screen container mx-auto px-4 pt-12 pb-24 space-y-6 max-w-4xl">
+      <div className="text-start">
+        <h1 className="text-3xl font-bold">Custom Form Builder</h1>
+        <p className="text-muted-foreground">
+          Add extra questions to the Auto, Teleop and Endgame scouting screens without a redeploy
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5" />
+            Form
+            {form && <Badge variant="secondary">v{form.version}</Badge>}
+            {hasChanges && <Badge variant="outline">Unsaved changes</Badge>}
+          </CardTitle>
+          <CardDescription>
+            Each save creates a new version. Scouting entries record the version they were answered with.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="custom-form-name">Form name</Label>
+            <Input id="custom-form-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading form...</p>
+          ) : fields.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No questions yet. Add one below.</p>
+          ) : (
+            CUSTOM_FIELD_PHASES.map(phase => {
+              const phaseFields = fields
+                .map((field, index) => ({ field, index }))
+                .filter(({ field }) => field.phase === phase);
+              if (phaseFields.length === 0) return null;
+
+              return (
+                <div key={phase} className="space-y-2">
+                  <h3 className="font-semibold">{CUSTOM_FIELD_PHASE_LABELS[phase]}</h3>
+                  {phaseFields.map(({ field, index }, position) => (
+                    <CustomFieldEditor
+                      key={field.key}
+                      field={field}
+                      isPublished={publishedKeys.has(field.key)}
+                      canMoveUp={position > 0}
+                      canMoveDown={position < phaseFields.length - 1}
+                      onChange={(next) => updateField(index, next)}
+                      onMove={(direction) => moveField(index, direction)}
+                      onRemove={() => removeField(index)}
+                    />
+                  ))}
+                </div>
+              );
+            })
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            {CUSTOM_FIELD_TYPES.map(type => (
+              <Button key={type} type="button" variant="outline" onClick={() => addField(type)}>
+                <Plus className="h-4 w-4" />
+                {CUSTOM_FIELD_TYPE_LABELS[type]}
+              </Button>
+            ))}
+          </div>
+
+          <Button onClick={handleSave} disabled={!hasChanges || isSaving} className="w-full">
+            <Save className="h-4 w-4" />
+            {isSaving ? 'Saving...' : form ? `Save as v${form.version + 1}` : 'Save v1'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Share2 className="h-5 w-5" />
+            Share With Tablets
+          </CardTitle>
+          <CardDescription>
+            Scouting tablets import the form from JSON or QR transfer. Older versions never replace a newer one.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-2 sm:flex-row">
+          <Button variant="outline" className="flex-1" onClick={handleDownload} disabled={!form || hasChanges}>
+            Download JSON
+          </Button>
+          <Button variant="outline" className="flex-1" onClick={() => navigate('/qr-transfer')} disabled={!form || hasChanges}>
+            <QrCode className="h-4 w-4" />
+            Open QR Transfer
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default CustomFormBuilderPage;
@@ -11,6 +11,8 @@ import { useGame } from "@/core/contexts/GameContext";
 import { useWorkflowNavigation } from "@/core/hooks/useWorkflowNavigation";
 import { submitMatchData } from "@/core/lib/submitMatch";
 import { workflowConfig } from "@/game-template/game-schema";
+import { useCustomForm } from "@/core/hooks/useCustomForm";
+import { CustomFormFieldsCard } from "@/core/components/custom-form";
 
 const EndgamePage = () => {
   const { ui, transformation } = useGame();
@@ -19,6 +21,7 @@ const EndgamePage = () => {
   const navigate = useNavigate();
   const states = location.state;
   const { getPrevRoute } = useWorkflowNavigation();
+  const { form: customForm } = useCustomForm();
 
   const [robotStatus, setRobotStatus] = useState(() => {
     const saved = localStorage.getItem("endgameRobotStatus");
@@ -129,6 +132,9 @@ const EndgamePage = () => {
           </Card>
         )}
 
+        {/* Custom Form Questions */}
+        <CustomFormFieldsCard form={customForm} phase="endgame" className="w-full" />
+
         {/* Comments Section */}
         <Card className="w-full flex-1">
           <CardHeader>
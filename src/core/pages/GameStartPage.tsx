@@ -1,4 +1,4 @@
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { useLocation, useNavigate } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/core/components/ui/card";
 import { Button } from "@/core/components/ui/button";
@@ -21,17 +21,28 @@ import {
   ScoutOptionsSheet,
 } from "@/core/components/GameStartComponents/ScoutOptionsSheet";
 import { createMatchPrediction, getPredictionForMatch } from "@/core/lib/scoutGamificationUtils";
-import { AlertTriangle, RefreshCw } from "lucide-react";
+import { findMatchAssignmentForScout } from "@/core/lib/matchAssignmentTransfer";
+import type { MatchScoutAssignment } from "@/core/lib/matchAssignmentTypes";
+import { AlertTriangle, RadioTower, RefreshCw } from "lucide-react";
 import { useWorkflowNavigation } from "@/core/hooks/useWorkflowNavigation";
+import { useNexusQueue } from "@/core/hooks/useNexusQueue";
+import {
+  formatNexusRelativeTime,
+  getNexusMatchQueueTime,
+  getNexusMatchStartTime,
+} from "@/core/lib/nexusQueue";
 import { useScout } from "@/core/contexts/ScoutContext";
 import { useGame } from "@/core/contexts/GameContext";
 import type { ScoutOptionsState } from "@/types";
 import {
   GAME_SCOUT_OPTION_DEFAULTS,
 } from "@/game-template/scout-options";
+import { workspaceStorage } from "@/core/db/eventWorkspaceDatabase";
+import { clearMatchClock } from "@/core/lib/matchClock";
 
 const SCOUT_OPTIONS_STORAGE_KEY = "scoutOptions";
 const AUTO_SWITCH_ONCE_STORAGE_PREFIX = 'autoSwitchToTeleopDone';
+const FOLLOW_NEXUS_QUEUE_STORAGE_KEY = "followNexusQueue";
 
 const DEFAULT_SCOUT_OPTIONS: ScoutOptionsState = {
   [CORE_SCOUT_OPTION_KEYS.startAutoCueFromStartConfirmation]: false,
@@ -166,8 +177,13 @@ const GameStartPage = () => {
     states?.inputs?.eventKey || localStorage.getItem("eventKey") || ""
   );
   const [predictedWinner, setPredictedWinner] = useState<"red" | "blue" | "none">("none");
+  const [matchAssignment, setMatchAssignment] = useState<MatchScoutAssignment | null>(null);
+  const [followNexusQueue, setFollowNexusQueue] = useState(
+    () => localStorage.getItem(FOLLOW_NEXUS_QUEUE_STORAGE_KEY) === "true"
+  );
+  const lastAppliedNexusLabelRef = useRef<string | null>(null);
   const [scoutOptions, setScoutOptions] = useState<ScoutOptionsState>(() => {
-    const stored = localStorage.getItem(SCOUT_OPTIONS_STORAGE_KEY);
+    const stored = workspaceStorage.getItem(SCOUT_OPTIONS_STORAGE_KEY);
     if (!stored) return DEFAULT_SCOUT_OPTIONS;
 
     try {
@@ -181,6 +197,29 @@ const GameStartPage = () => {
     }
   });
 
+  const isFollowingNexusQueue = followNexusQueue && !isRescoutMode;
+  const nexusQueue = useNexusQueue(eventKey, isFollowingNexusQueue);
+  const queuingMatch = nexusQueue.queuingMatch;
+  const queuingTarget = nexusQueue.queuingTarget;
+  const queuingStartTime = queuingMatch ? getNexusMatchStartTime(queuingMatch) : null;
+  const nexusAsOf = nexusQueue.lastUpdated ?? Date.now();
+
+  useEffect(() => {
+    localStorage.setItem(FOLLOW_NEXUS_QUEUE_STORAGE_KEY, String(followNexusQueue));
+    lastAppliedNexusLabelRef.current = null;
+  }, [followNexusQueue]);
+
+  // Effect to jump to the queuing match whenever the Nexus queue moves on.
+  // Manual edits stick until the next match starts queuing.
+  useEffect(() => {
+    if (!isFollowingNexusQueue || !queuingMatch || !queuingTarget) return;
+    if (lastAppliedNexusLabelRef.current === queuingMatch.label) return;
+
+    lastAppliedNexusLabelRef.current = queuingMatch.label;
+    setMatchType(queuingTarget.matchType);
+    setMatchNumber(String(queuingTarget.matchNumber));
+  }, [isFollowingNexusQueue, queuingMatch, queuingTarget]);
+
   // Debounce matchNumber for team selection
   useEffect(() => {
     const timeout = setTimeout(() => {
@@ -189,6 +228,22 @@ const GameStartPage = () => {
     return () => clearTimeout(timeout);
   }, [matchNumber]);
 
+  // Effect to prefill team and alliance from the scout's match assignment
+  useEffect(() => {
+    const parsedMatchNumber = parseInt(debouncedMatchNumber);
+    if (isRescoutMode || matchType !== "qm" || !currentScout || !eventKey || !Number.isFinite(parsedMatchNumber)) {
+      setMatchAssignment(null);
+      return;
+    }
+
+    const assignment = findMatchAssignmentForScout(eventKey, currentScout, parsedMatchNumber);
+    setMatchAssignment(assignment);
+    if (assignment) {
+      setAlliance(assignment.alliance);
+      setSelectTeam(assignment.teamNumber);
+    }
+  }, [debouncedMatchNumber, matchType, eventKey, currentScout, isRescoutMode]);
+
   // Effect to save match number to localStorage when it changes
   useEffect(() => {
     if (matchNumber) {
@@ -218,7 +273,7 @@ const GameStartPage = () => {
   }, [matchNumber, eventKey, currentScout]);
 
   useEffect(() => {
-    localStorage.setItem(SCOUT_OPTIONS_STORAGE_KEY, JSON.stringify(scoutOptions));
+    workspaceStorage.setItem(SCOUT_OPTIONS_STORAGE_KEY, JSON.stringify(scoutOptions));
   }, [scoutOptions]);
 
   // Effect to pre-fill fields when in re-scout mode
@@ -347,7 +402,7 @@ const GameStartPage = () => {
     localStorage.setItem("matchNumber", matchNumber);
     localStorage.setItem("selectTeam", selectTeam);
     localStorage.setItem("alliance", alliance);
-    localStorage.setItem(SCOUT_OPTIONS_STORAGE_KEY, JSON.stringify(scoutOptions));
+    workspaceStorage.setItem(SCOUT_OPTIONS_STORAGE_KEY, JSON.stringify(scoutOptions));
 
     const autoSwitchOnceStorageKey = buildAutoSwitchOnceStorageKey(
       eventKey,
@@ -359,6 +414,7 @@ const GameStartPage = () => {
 
     localStorage.setItem("autoStateStack", JSON.stringify([]));
     localStorage.setItem("teleopStateStack", JSON.stringify([]));
+    clearMatchClock();
 
     const nextRoute = getNextRoute('gameStart') || '/auto-scoring';
     navigate(nextRoute, {
@@ -453,6 +509,11 @@ const GameStartPage = () => {
                     <span className="font-medium">{currentScout}</span>
                   </p>
                 )}
+                {matchAssignment && (
+                  <Badge variant="secondary">
+                    Assigned: {matchAssignment.station.replace("-", " ").toUpperCase()} • Team {matchAssignment.teamNumber}
+                  </Badge>
+                )}
               </div>
 
               <ScoutOptionsSheet
@@ -520,6 +581,49 @@ const GameStartPage = () => {
                   Enter match # (1-3) → Creates f1m#
                 </p>
               )}
+              <Button
+                variant={isFollowingNexusQueue ? "default" : "outline"}
+                onClick={() => setFollowNexusQueue((prev) => !prev)}
+                disabled={isRescoutMode || !eventKey}
+                className="w-full h-10 text-sm font-medium"
+              >
+                <RadioTower className="h-4 w-4 mr-2" />
+                {isFollowingNexusQueue ? "Following Nexus Queue" : "Follow Nexus Queue"}
+              </Button>
+              {isFollowingNexusQueue && (
+                <div className="rounded-md border p-3 text-sm space-y-1">
+                  {queuingMatch ? (
+                    <>
+                      <div className="flex items-center justify-between gap-2">
+                        <span>
+                          Now queuing: <span className="font-medium">{queuingMatch.label}</span>
+                        </span>
+                        {!queuingTarget && <Badge variant="outline">Not scouted</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Queue {formatNexusRelativeTime(getNexusMatchQueueTime(queuingMatch), nexusAsOf)}
+                        {" • "}
+                        Starts {formatNexusRelativeTime(queuingStartTime, nexusAsOf)}
+                        {queuingStartTime !== null &&
+                          ` (${new Date(queuingStartTime).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })})`}
+                      </p>
+                    </>
+                  ) : (
+                    <p className="text-muted-foreground">
+                      {nexusQueue.error
+                        ? `Nexus unavailable: ${nexusQueue.error.message}`
+                        : nexusQueue.isLoading
+                          ? "Checking the Nexus queue..."
+                          : "Nothing is queuing right now"}
+                    </p>
+                  )}
+                  {nexusQueue.lastUpdated && (
+                    <p className="text-xs text-muted-foreground">
+                      Updated {new Date(nexusQueue.lastUpdated).toLocaleTimeString()}
+                    </p>
+                  )}
+                </div>
+              )}
             </div>
 
             {/* Alliance Selection with Buttons */}
@@ -611,12 +715,17 @@ const GameStartPage = () => {
               <Label>Team Selection</Label>
               <div className={isRescoutMode ? "opacity-50 pointer-events-none" : ""}>
                 <GameStartSelectTeam
+                  key={matchAssignment?.id ?? "unassigned"}
                   defaultSelectTeam={selectTeam}
                   setSelectTeam={setSelectTeam}
                   selectedMatch={debouncedMatchNumber}
                   selectedAlliance={alliance}
                   selectedEventKey={eventKey}
-                  preferredTeamPosition={stationInfo.teamPosition}
+                  preferredTeamPosition={
+                    matchAssignment
+                      ? Number(matchAssignment.station.split("-")[1])
+                      : stationInfo.teamPosition
+                  }
                 />
               </div>
             </div>
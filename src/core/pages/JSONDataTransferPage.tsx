@@ -2,6 +2,7 @@
 import { useState } from "react";
 import { Button } from "@/core/components/ui/button";
 import JSONUploader from "@/core/components/data-transfer/JSONUploader";
+import CSVImportWizard from "@/core/components/data-transfer/CSVImportWizard";
 import { convertArrayOfArraysToCSV } from "@/core/lib/utils";
 import { loadScoutingData } from "@/core/lib/scoutingDataUtils";
 import { loadPitScoutingData, exportPitScoutingToCSV, downloadPitScoutingImagesOnly } from "@/core/lib/pitScoutingUtils";
@@ -10,7 +11,14 @@ import { csvExcludedFields, pitCsvExcludedFields } from "@/game-template/transfo
 import { Separator } from "@/core/components/ui/separator";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/core/components/ui/select";
 import { createMatchSchedulePayload } from "@/core/lib/matchScheduleTransfer";
+import { createCustomFormPayload } from "@/core/lib/customForm";
+import { getActiveCustomForm } from "@/core/db/customFormDatabase";
 import { downloadTextFile } from "@/core/lib/downloadUtils";
+import { exportSyncDelta } from "@/core/db/database";
+import { exportEventWorkspace } from "@/core/db/eventWorkspaceDatabase";
+import { advanceSyncCursor, getSyncCursor } from "@/core/db/syncLogDatabase";
+import { SyncPeerSelect, type SyncPeerChoice } from "@/core/components/data-transfer/SyncPeerSelect";
+import type { VectorClock } from "@/core/lib/syncLog";
 import { Loader2 } from "lucide-react";
 
 const getSortableMatchNumber = (matchNumber: unknown, matchKey: unknown): number => {
@@ -34,8 +42,10 @@ const waitForUiPaint = async (): Promise<void> => {
 
 
 const JSONDataTransferPage = () => {
-  const [mode, setMode] = useState<'select' | 'upload'>('select');
-  const [dataType, setDataType] = useState<'scouting' | 'scoutProfiles' | 'pitScouting' | 'pitScoutingImagesOnly' | 'matchSchedule'>('scouting');
+  const [mode, setMode] = useState<'select' | 'upload' | 'csvImport'>('select');
+  const [dataType, setDataType] = useState<'scouting' | 'scoutProfiles' | 'pitScouting' | 'pitScoutingImagesOnly' | 'matchSchedule' | 'customForm' | 'syncDelta' | 'eventWorkspace'>('scouting');
+  const [syncPeer, setSyncPeer] = useState<SyncPeerChoice | null>(null);
+  const [workspaceScope, setWorkspaceScope] = useState<'event' | 'all'>('event');
   const [activeDownload, setActiveDownload] = useState<'json' | 'csv' | null>(null);
 
   if (mode === 'upload') {
@@ -46,6 +56,14 @@ const JSONDataTransferPage = () => {
     );
   }
 
+  if (mode === 'csvImport') {
+    return (
+      <CSVImportWizard
+        onBack={() => setMode('select')}
+      />
+    );
+  }
+
   const handleDownloadCSV = async () => {
     setActiveDownload('csv');
 
@@ -206,6 +224,10 @@ const JSONDataTransferPage = () => {
           alert("CSV export not available for images-only data. Use JSON or Wifi download instead.");
           return;
         }
+        case 'eventWorkspace': {
+          alert("CSV export not available for the event workspace. Use JSON instead.");
+          return;
+        }
         case 'matchSchedule': {
           const matchDataStr = localStorage.getItem('matchData');
           const matches = matchDataStr ? JSON.parse(matchDataStr) : [];
@@ -230,6 +252,52 @@ const JSONDataTransferPage = () => {
           filename = `ManeuverMatchSchedule-${new Date().toLocaleTimeString()}-local.csv`;
           break;
         }
+        case 'customForm': {
+          const form = await getActiveCustomForm();
+
+          if (!form || form.fields.length === 0) {
+            alert("No custom scouting form found.");
+            return;
+          }
+
+          const header: (string | number)[] = ['key', 'label', 'phase', 'type', 'options', 'min', 'max'];
+          const rows: (string | number)[][] = form.fields.map((field) => [
+            field.key,
+            field.label,
+            field.phase,
+            field.type,
+            (field.options ?? []).join('|'),
+            field.min ?? '',
+            field.max ?? '',
+          ]);
+
+          csv = convertArrayOfArraysToCSV([header, ...rows]);
+          filename = `ManeuverCustomForm-v${form.version}-${new Date().toLocaleTimeString()}-local.csv`;
+          break;
+        }
+        case 'syncDelta': {
+          const cursor = syncPeer ? await getSyncCursor(syncPeer.peerId) : undefined;
+          const payload = await exportSyncDelta(cursor?.seen);
+
+          if (payload.changes.length === 0) {
+            alert("No changes since the last sync with this peer.");
+            return;
+          }
+
+          const header: (string | number)[] = ['changedAt', 'kind', 'table', 'rowId', 'device', 'counter'];
+          const rows: (string | number)[][] = payload.changes.map((change) => [
+            new Date(change.changedAt).toISOString(),
+            change.kind,
+            change.table,
+            change.rowId,
+            change.origin,
+            change.counter,
+          ]);
+
+          csv = convertArrayOfArraysToCSV([header, ...rows]);
+          filename = `ManeuverSyncChanges-${new Date().toLocaleTimeString()}-local.csv`;
+          break;
+        }
         case 'scoutProfiles': {
           // CSV export for scout profiles
           const scoutsData = await gameDB.scouts.toArray();
@@ -283,6 +351,7 @@ const JSONDataTransferPage = () => {
 
       let dataToExport: unknown;
       let filename: string;
+      let sentSyncClock: VectorClock | null = null;
 
       switch (dataType) {
         case 'scouting': {
@@ -334,6 +403,45 @@ const JSONDataTransferPage = () => {
           filename = `ManeuverMatchSchedule-${new Date().toLocaleTimeString()}.json`;
           break;
         }
+        case 'customForm': {
+          const form = await getActiveCustomForm();
+
+          if (!form || form.fields.length === 0) {
+            alert("No custom scouting form found.");
+            return;
+          }
+
+          dataToExport = createCustomFormPayload(form);
+          filename = `ManeuverCustomForm-v${form.version}-${new Date().toLocaleTimeString()}.json`;
+          break;
+        }
+        case 'syncDelta': {
+          const cursor = syncPeer ? await getSyncCursor(syncPeer.peerId) : undefined;
+          const payload = await exportSyncDelta(cursor?.seen);
+
+          if (payload.changes.length === 0) {
+            alert("No changes since the last sync with this peer.");
+            return;
+          }
+
+          dataToExport = payload;
+          sentSyncClock = payload.clock;
+          filename = `ManeuverSync-${payload.changes.length}changes-${new Date().toLocaleTimeString()}.json`;
+          break;
+        }
+        case 'eventWorkspace': {
+          const eventKey = workspaceScope === 'event' ? localStorage.getItem('eventKey') || '' : '';
+
+          if (workspaceScope === 'event' && !eventKey) {
+            alert("No current event selected. Choose All Events or set the event on Game Start.");
+            return;
+          }
+
+          const archive = await exportEventWorkspace(eventKey || null);
+          dataToExport = archive;
+          filename = `ManeuverWorkspace-${archive.eventKey ?? 'all-events'}-${new Date().toLocaleTimeString()}.json`;
+          break;
+        }
         case 'scoutProfiles': {
           const scoutsData = await gameDB.scouts.toArray();
           const predictionsData = await gameDB.predictions.toArray();
@@ -362,6 +470,11 @@ const JSONDataTransferPage = () => {
         JSON.stringify(dataToExport, null, 2),
         "application/json;charset=utf-8"
       );
+
+      // Like "From last export", assume the peer gets the file once it is downloaded
+      if (sentSyncClock && syncPeer) {
+        await advanceSyncCursor(syncPeer.peerId, syncPeer.peerName, sentSyncClock);
+      }
     } catch (error) {
       console.error("Failed to export data as JSON:", error);
       alert("Failed to export data as JSON.");
@@ -382,7 +495,7 @@ const JSONDataTransferPage = () => {
         <div className="flex flex-col gap-4 w-full">
           <div className="flex flex-col gap-2">
             <label className="text-sm font-medium">Data Type to Export:</label>
-            <Select value={dataType} onValueChange={(value: 'scouting' | 'scoutProfiles' | 'pitScouting' | 'pitScoutingImagesOnly' | 'matchSchedule') => setDataType(value)}>
+            <Select value={dataType} onValueChange={(value: 'scouting' | 'scoutProfiles' | 'pitScouting' | 'pitScoutingImagesOnly' | 'matchSchedule' | 'customForm' | 'syncDelta' | 'eventWorkspace') => setDataType(value)}>
               <SelectTrigger className="w-full">
                 <SelectValue placeholder="Select data type" />
               </SelectTrigger>
@@ -392,10 +505,35 @@ const JSONDataTransferPage = () => {
                 <SelectItem value="pitScouting">Pit Scouting Data</SelectItem>
                 <SelectItem value="pitScoutingImagesOnly">Pit Scouting Images Only</SelectItem>
                 <SelectItem value="matchSchedule">Match Schedule</SelectItem>
+                <SelectItem value="customForm">Custom Scouting Form</SelectItem>
+                <SelectItem value="syncDelta">Changes Since Last Sync</SelectItem>
+                <SelectItem value="eventWorkspace">Event Workspace (clone device)</SelectItem>
               </SelectContent>
             </Select>
           </div>
 
+          {dataType === 'syncDelta' && (
+            <SyncPeerSelect value={syncPeer} onChange={setSyncPeer} />
+          )}
+
+          {dataType === 'eventWorkspace' && (
+            <div className="flex flex-col gap-2">
+              <label className="text-sm font-medium">Workspace to Export:</label>
+              <Select value={workspaceScope} onValueChange={(value: 'event' | 'all') => setWorkspaceScope(value)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="event">Current Event ({localStorage.getItem('eventKey') || 'none selected'})</SelectItem>
+                  <SelectItem value="all">All Events</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Pick lists, assignments, cached TBA/Nexus/Statbotics data, scout options, strategy drawings and scouting entries in one file. Upload it on a replacement device to pick up where this one left off.
+              </p>
+            </div>
+          )}
+
           <Button
             onClick={handleDownloadJSON}
             disabled={activeDownload !== null}
@@ -406,7 +544,7 @@ const JSONDataTransferPage = () => {
                 <Loader2 className="h-5 w-5 animate-spin" />
                 <span>Preparing JSON Download...</span>
               </span>
-            ) : `Download ${dataType === 'scouting' ? 'Scouting Data' : dataType === 'pitScouting' ? 'Pit Scouting Data' : dataType === 'pitScoutingImagesOnly' ? 'Pit Scouting Images' : dataType === 'matchSchedule' ? 'Match Schedule' : 'Scout Profiles'} as JSON`}
+            ) : `Download ${dataType === 'scouting' ? 'Scouting Data' : dataType === 'pitScouting' ? 'Pit Scouting Data' : dataType === 'pitScoutingImagesOnly' ? 'Pit Scouting Images' : dataType === 'matchSchedule' ? 'Match Schedule' : dataType === 'customForm' ? 'Custom Scouting Form' : dataType === 'syncDelta' ? 'Changes Since Last Sync' : dataType === 'eventWorkspace' ? 'Event Workspace' : 'Scout Profiles'} as JSON`}
           </Button>
 
           <div className="flex items-center gap-4">
@@ -419,7 +557,7 @@ const JSONDataTransferPage = () => {
             <Button
               onClick={handleDownloadCSV}
               variant="secondary"
-              disabled={dataType === 'pitScoutingImagesOnly' || activeDownload !== null}
+              disabled={dataType === 'pitScoutingImagesOnly' || dataType === 'eventWorkspace' || activeDownload !== null}
               className="w-full h-16 text-xl"
             >
               {activeDownload === 'csv'
@@ -431,7 +569,9 @@ const JSONDataTransferPage = () => {
                 )
                 : dataType === 'pitScoutingImagesOnly'
                 ? 'Images Cannot Be Downloaded as CSV'
-                : `Download ${dataType === 'scouting' ? 'Scouting Data' : dataType === 'pitScouting' ? 'Pit Scouting Data' : dataType === 'matchSchedule' ? 'Match Schedule' : 'Scout Profiles'} as CSV`
+                : dataType === 'eventWorkspace'
+                ? 'Workspace Cannot Be Downloaded as CSV'
+                : `Download ${dataType === 'scouting' ? 'Scouting Data' : dataType === 'pitScouting' ? 'Pit Scouting Data' : dataType === 'matchSchedule' ? 'Match Schedule' : dataType === 'customForm' ? 'Custom Scouting Form' : dataType === 'syncDelta' ? 'Changes Since Last Sync' : 'Scout Profiles'} as CSV`
               }
             </Button>
             {activeDownload && (
@@ -465,6 +605,17 @@ const JSONDataTransferPage = () => {
           >
             Upload JSON Data
           </Button>
+
+          <Button
+            onClick={() => setMode('csvImport')}
+            variant="outline"
+            className="w-full h-16 text-xl"
+          >
+            Import CSV / Spreadsheet
+          </Button>
+          <p className="text-xs text-muted-foreground text-center -mt-2">
+            Map columns from paper scouting sheets, Google Forms or a partner's spreadsheet
+          </p>
         </div>
 
         <div className="text-xs text-muted-foreground text-start space-y-1">
@@ -473,7 +624,7 @@ const JSONDataTransferPage = () => {
           <p>• Scouting Data: Match performance data</p>
           <p>• Scout Profiles: User achievements and predictions</p>
           <p>• Pit Scouting: Team technical specifications and capabilities</p>
-          <p>• Pit Scouting Images Only: Robot photos for merging with existing data (requires text data first)</p>
+          <p>• Pit Scouting Images Only: Tagged pit photos with their annotations, merged by photo ID</p>
           <p>• Match Schedule: Qualification match lineups loaded from TBA</p>
         </div>
       </div>
@@ -0,0 +1,200 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { AlertCircle } from 'lucide-react';
+import { Alert, AlertDescription } from "@/core/components/ui/alert";
+import { useScoutManagement } from '@/core/hooks/useScoutManagement';
+import { useWebRTC } from '@/core/contexts/WebRTCContext';
+import { ScoutManagementSection } from '@/core/components/pit-assignments/ScoutManagementSection';
+import { MatchAssignmentRulesCard, MatchAssignmentScheduleTable } from '@/core/components/match-assignments';
+import { DataAttribution } from '@/core/components/DataAttribution';
+import { normalizeStoredMatchSchedule } from '@/core/lib/matchScheduleTransfer';
+import {
+  findMatchAssignmentGaps,
+  generateMatchAssignments,
+  getPitDutyByMatch,
+} from '@/core/lib/matchAssignmentScheduler';
+import {
+  buildMatchAssignmentsTransferPayload,
+  loadMatchAssignmentRules,
+  loadMatchAssignmentsForEvent,
+  saveMatchAssignmentRules,
+  saveMatchAssignmentsForEvent,
+} from '@/core/lib/matchAssignmentTransfer';
+import {
+  DEFAULT_MATCH_ASSIGNMENT_RULES,
+  type MatchAssignmentRules,
+  type MatchScoutAssignment,
+} from '@/core/lib/matchAssignmentTypes';
+import { toast } from 'sonner';
+
+const loadStoredSchedule = () => {
+  try {
+    return normalizeStoredMatchSchedule(JSON.parse(localStorage.getItem('matchData') || '[]'));
+  } catch {
+    return [];
+  }
+};
+
+const MatchAssignmentsPage: React.FC = () => {
+  const { scoutsList } = useScoutManagement();
+  const { connectedScouts, pushDataToAll } = useWebRTC();
+  const [eventKey, setEventKey] = useState<string>('');
+  const [schedule, setSchedule] = useState(loadStoredSchedule);
+  const [rules, setRules] = useState<MatchAssignmentRules>(DEFAULT_MATCH_ASSIGNMENT_RULES);
+  const [assignments, setAssignments] = useState<MatchScoutAssignment[]>([]);
+
+  const readyConnectedScoutsCount = useMemo(() => {
+    return connectedScouts.filter((scout) => {
+      const channelState = scout.channel?.readyState || scout.dataChannel?.readyState;
+      return scout.status === 'connected' && channelState === 'open';
+    }).length;
+  }, [connectedScouts]);
+
+  const availableScouts = useMemo(() => {
+    const activeConnectedScoutNames = connectedScouts
+      .filter((scout) => scout.status !== 'disconnected')
+      .map((scout) => scout.name.trim())
+      .filter((name) => name.length > 0);
+
+    return Array.from(new Set([...scoutsList, ...activeConnectedScoutNames])).sort((a, b) =>
+      a.localeCompare(b)
+    );
+  }, [scoutsList, connectedScouts]);
+
+  // Reload the schedule and active event when the page regains focus (e.g. after a TBA import)
+  useEffect(() => {
+    const loadEventData = () => {
+      setEventKey(localStorage.getItem('eventKey') || localStorage.getItem('eventName') || '');
+      setSchedule(loadStoredSchedule());
+    };
+
+    loadEventData();
+    window.addEventListener('focus', loadEventData);
+    return () => {
+      window.removeEventListener('focus', loadEventData);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!eventKey) return;
+    setRules(loadMatchAssignmentRules(eventKey));
+    setAssignments(loadMatchAssignmentsForEvent(eventKey));
+  }, [eventKey]);
+
+  const gaps = useMemo(
+    () => (assignments.length > 0 ? findMatchAssignmentGaps(schedule, assignments, rules) : []),
+    [schedule, assignments, rules]
+  );
+  const pitDuty = useMemo(() => getPitDutyByMatch(schedule, rules), [schedule, rules]);
+
+  const handleRulesChange = (nextRules: MatchAssignmentRules) => {
+    setRules(nextRules);
+    if (eventKey) {
+      saveMatchAssignmentRules(eventKey, nextRules);
+    }
+  };
+
+  const handleGenerate = () => {
+    if (!eventKey) {
+      toast.error('No active event selected');
+      return;
+    }
+
+    const plan = generateMatchAssignments(eventKey, schedule, availableScouts, rules);
+    setAssignments(plan.assignments);
+    saveMatchAssignmentsForEvent(eventKey, plan.assignments);
+
+    const unfilled = plan.gaps.filter(gap => gap.reason === 'no-scout').length;
+    if (unfilled > 0) {
+      toast.warning(`Generated assignments with ${unfilled} unfilled slot${unfilled === 1 ? '' : 's'}`);
+    } else {
+      toast.success(`Generated ${plan.assignments.length} match assignments`);
+    }
+  };
+
+  const handleClearAssignments = () => {
+    setAssignments([]);
+    if (eventKey) {
+      saveMatchAssignmentsForEvent(eventKey, []);
+    }
+  };
+
+  const handlePushAssignments = () => {
+    if (!eventKey) {
+      toast.error('No active event selected');
+      return;
+    }
+
+    if (assignments.length === 0) {
+      toast.error('Generate assignments first');
+      return;
+    }
+
+    if (readyConnectedScoutsCount === 0) {
+      toast.error('No connected scouts available to receive assignments');
+      return;
+    }
+
+    const sourceScoutName = localStorage.getItem('currentScout') || 'Lead Scout';
+    pushDataToAll(buildMatchAssignmentsTransferPayload(eventKey, sourceScoutName), 'match-assignments');
+    toast.success(`Pushed match assignments to ${readyConnectedScoutsCount} connected scout${readyConnectedScoutsCount === 1 ? '' : 's'}`);
+  };
+
+  return (
+    <div className="min-h-screen container mx-auto px-4 pt-12 pb-24 space-y-6 max-w-7xl">
+      <div className="text-start">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Match Assignments</h1>
+            <p className="text-muted-foreground">
+              Rotate scouts across robots and breaks for every qualification match
+            </p>
+          </div>
+          <div className="hidden md:block">
+            <DataAttribution sources={['tba']} variant="full" />
+          </div>
+        </div>
+        <div className="md:hidden mt-2">
+          <DataAttribution sources={['tba']} variant="compact" />
+        </div>
+      </div>
+
+      <ScoutManagementSection />
+
+      {schedule.length > 0 && availableScouts.length > 0 && (
+        <MatchAssignmentRulesCard
+          rules={rules}
+          scoutsList={availableScouts}
+          matchCount={schedule.length}
+          hasAssignments={assignments.length > 0}
+          readyConnectedScoutsCount={readyConnectedScoutsCount}
+          onRulesChange={handleRulesChange}
+          onGenerate={handleGenerate}
+          onPushAssignments={handlePushAssignments}
+        />
+      )}
+
+      {schedule.length > 0 && (
+        <MatchAssignmentScheduleTable
+          schedule={schedule}
+          assignments={assignments}
+          gaps={gaps}
+          pitDuty={pitDuty}
+          scoutsList={availableScouts}
+          onClearAssignments={handleClearAssignments}
+        />
+      )}
+
+      {(schedule.length === 0 || availableScouts.length === 0) && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            {schedule.length === 0 && "No match schedule found. Load match data from the API Data page or import a match schedule."}
+            {availableScouts.length === 0 && " Please add scouts or connect scouts over WiFi to create assignments."}
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+};
+
+export default MatchAssignmentsPage;
@@ -0,0 +1,163 @@
+/**
+ * Match Replay Page
+ *
+ * Pick a scouted match and replay all six robots together on the field, e.g.
+ * to review an opponent's last match before eliminations. The scouted fuel
+ * totals are checked against the cached TBA score breakdown.
+ *
+ * Supports deep links: /match-replay?event=2026mrcmp&match=2026mrcmp_qm12
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Card, CardContent } from '@/core/components/ui/card';
+import { Label } from '@/core/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/core/components/ui/select';
+import { loadAllScoutingEntries } from '@/core/db/database';
+import { getCachedTBAMatch } from '@/core/lib/tbaCache';
+import type { TBAMatchData } from '@/core/lib/tbaMatchData';
+import { formatMatchLabel, parseMatchKey } from '@/core/lib/matchValidationUtils';
+import { MatchReplayView } from '@/game-template/components';
+import { buildMatchReplay } from '@/game-template/matchReplay';
+import type { GameData, ScoutingEntry } from '@/game-template/scoring';
+
+const COMP_LEVEL_ORDER = ['qm', 'ef', 'qf', 'sf', 'f'];
+
+// Entries may store a bare "qm12" or the full TBA key
+const toTBAMatchKey = (entry: ScoutingEntry): string =>
+  entry.matchKey?.includes('_')
+    ? entry.matchKey
+    : `${entry.eventKey}_${entry.matchKey || `qm${entry.matchNumber}`}`;
+
+const compareMatchKeys = (a: string, b: string): number => {
+  try {
+    const matchA = parseMatchKey(a);
+    const matchB = parseMatchKey(b);
+    return COMP_LEVEL_ORDER.indexOf(matchA.compLevel) - COMP_LEVEL_ORDER.indexOf(matchB.compLevel)
+      || matchA.setNumber - matchB.setNumber
+      || matchA.matchNumber - matchB.matchNumber;
+  } catch {
+    return a.localeCompare(b);
+  }
+};
+
+const MatchReplayPage = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [entries, setEntries] = useState<ScoutingEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [tbaMatch, setTbaMatch] = useState<TBAMatchData | null>(null);
+
+  useEffect(() => {
+    loadAllScoutingEntries<GameData>()
+      .then((loaded) => setEntries(loaded as ScoutingEntry[]))
+      .catch((error) => console.error('Error loading scouting entries for replay:', error))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const events = useMemo(
+    () => [...new Set(entries.map(entry => entry.eventKey).filter(Boolean))].sort(),
+    [entries]
+  );
+  const selectedEvent = searchParams.get('event')
+    ?? (events.includes(localStorage.getItem('eventKey') ?? '') ? localStorage.getItem('eventKey') : null)
+    ?? events[0]
+    ?? '';
+
+  const entriesByMatch = useMemo(() => {
+    const grouped = new Map<string, ScoutingEntry[]>();
+    entries
+      .filter(entry => entry.eventKey === selectedEvent)
+      .forEach((entry) => {
+        const matchKey = toTBAMatchKey(entry);
+        grouped.set(matchKey, [...(grouped.get(matchKey) ?? []), entry]);
+      });
+    return grouped;
+  }, [entries, selectedEvent]);
+
+  const matchKeys = useMemo(() => [...entriesByMatch.keys()].sort(compareMatchKeys), [entriesByMatch]);
+  const selectedMatch = searchParams.get('match') ?? '';
+
+  const replay = useMemo(
+    () => selectedMatch ? buildMatchReplay(selectedMatch, entriesByMatch.get(selectedMatch) ?? []) : null,
+    [selectedMatch, entriesByMatch]
+  );
+
+  useEffect(() => {
+    setTbaMatch(null);
+    if (!selectedMatch) return;
+
+    let cancelled = false;
+    getCachedTBAMatch(selectedMatch)
+      .then((match) => {
+        if (!cancelled) setTbaMatch(match);
+      })
+      .catch((error) => console.error('Error loading cached TBA match:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedMatch]);
+
+  const handleEventChange = (eventKey: string) => setSearchParams({ event: eventKey });
+  const handleMatchChange = (matchKey: string) => setSearchParams({ event: selectedEvent, match: matchKey });
+
+  return (
+    <div className="min-h-screen w-full flex flex-col items-center px-4 pt-12 pb-24">
+      <div className="w-full max-w-7xl space-y-4">
+        <div>
+          <h1 className="text-2xl font-bold">Match Replay</h1>
+          <p className="text-muted-foreground">
+            Replay every scouted robot in a match together on one timeline
+          </p>
+        </div>
+
+        <Card>
+          <CardContent className="pt-6 grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Event</Label>
+              <Select value={selectedEvent} onValueChange={handleEventChange} disabled={events.length === 0}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select event" />
+                </SelectTrigger>
+                <SelectContent>
+                  {events.map((eventKey) => (
+                    <SelectItem key={eventKey} value={eventKey}>{eventKey}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Match</Label>
+              <Select value={selectedMatch} onValueChange={handleMatchChange} disabled={matchKeys.length === 0}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select match" />
+                </SelectTrigger>
+                <SelectContent>
+                  {matchKeys.map((matchKey) => (
+                    <SelectItem key={matchKey} value={matchKey}>
+                      {formatMatchLabel(matchKey)} ({entriesByMatch.get(matchKey)?.length ?? 0}/6 scouted)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        {isLoading ? (
+          <p className="text-muted-foreground">Loading scouting data...</p>
+        ) : events.length === 0 ? (
+          <p className="text-muted-foreground">No scouting data yet. Scout or import matches to replay them.</p>
+        ) : !replay ? (
+          <p className="text-muted-foreground">Select a match to replay.</p>
+        ) : replay.robots.length === 0 ? (
+          <p className="text-muted-foreground">No scouted entries for {formatMatchLabel(selectedMatch)}.</p>
+        ) : (
+          <MatchReplayView replay={replay} tbaMatch={tbaMatch} />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MatchReplayPage;
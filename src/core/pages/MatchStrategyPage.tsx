@@ -2,11 +2,14 @@
  * Match Strategy Page - Year-Agnostic
  * 
  * Main page for match strategy planning with:
- * - Field drawing on 3 phases (Autonomous, Teleop, Endgame)
+ * - Field drawing on 3 phases (Autonomous, Teleop, Endgame) as a vector whiteboard
+ * - Live whiteboard sessions shared over peer connections, and plan replay
+ * - PNG / printable PDF handout export
  * - Team selection (6 teams: 3 red, 3 blue)
  * - Team stats display (config-driven via match-strategy-config.ts)
  * - Match number lookup
  * - Alliance selection
+ * - Monte Carlo match prediction (win probability, score range, RP odds)
  * 
  * Year-agnostic design using:
  * - Centralized calculations (useAllTeamStats)
@@ -18,8 +21,11 @@ import { useEffect, useMemo, useState } from "react";
 import { MatchHeader } from "@/core/components/MatchStrategy/MatchHeader";
 import { FieldStrategy } from "@/core/components/MatchStrategy/FieldStrategy";
 import { TeamAnalysis } from "@/core/components/MatchStrategy/TeamAnalysis";
-import { clearAllStrategies, saveAllStrategyCanvases } from "@/core/lib/strategyCanvasUtils";
+import { StrategySessionBar } from "@/core/components/MatchStrategy/StrategySessionBar";
+import { saveAllStrategyCanvases } from "@/core/lib/strategyCanvasUtils";
 import { useMatchStrategy } from "@/core/hooks/useMatchStrategy";
+import { useStrategyWhiteboard } from "@/core/hooks/useStrategyWhiteboard";
+import { MatchPredictionCard } from "@/game-template/components";
 import { matchStrategyDisplayModes, type MatchStrategyDisplayMode } from "@/game-template/match-strategy-config";
 import defaultFieldImage from "@/game-template/assets/2026-field.png";
 
@@ -97,6 +103,8 @@ const MatchStrategyPage = (props: MatchStrategyPageProps) => {
         setMatchNumber
     } = useMatchStrategy();
 
+    const whiteboard = useStrategyWhiteboard(matchNumber ? `Match ${matchNumber}` : undefined);
+
     useEffect(() => {
         if (isDisplayModeLoading) {
             return;
@@ -178,11 +186,13 @@ const MatchStrategyPage = (props: MatchStrategyPageProps) => {
         });
     };
 
-    const handleClearAll = () => clearAllStrategies(setActiveTab, activeTab);
-    const handleSaveAll = () => saveAllStrategyCanvases(matchNumber, selectedTeams, fieldImage, {
+    const handleClearAll = () => whiteboard.clearAll();
+    const exportHandout = (format: 'png' | 'pdf') => saveAllStrategyCanvases(matchNumber, selectedTeams, fieldImage, {
         teamSlotSpotVisibility,
         getTeamSpots,
         selectedAutoRoutinesBySlot,
+        board: whiteboard.board,
+        format,
     });
 
     return (
@@ -204,9 +214,12 @@ const MatchStrategyPage = (props: MatchStrategyPageProps) => {
                     onMatchNumberChange={setMatchNumber}
                     onDisplayModeChange={handleDisplayModeChange}
                     onClearAll={handleClearAll}
-                    onSaveAll={handleSaveAll}
+                    onSaveAll={() => exportHandout('png')}
+                    onPrintAll={() => exportHandout('pdf')}
                 />
 
+                <StrategySessionBar whiteboard={whiteboard} />
+
                 <div className="flex flex-col gap-8 w-full pb-6">
                     <FieldStrategy
                         fieldImagePath={fieldImage}
@@ -215,9 +228,16 @@ const MatchStrategyPage = (props: MatchStrategyPageProps) => {
                         teamSlotSpotVisibility={teamSlotSpotVisibility}
                         getTeamSpots={getTeamSpots}
                         selectedAutoRoutinesBySlot={selectedAutoRoutinesBySlot}
+                        whiteboard={whiteboard}
                         onTabChange={setActiveTab}
                     />
 
+                    <MatchPredictionCard
+                        selectedTeams={selectedTeams}
+                        displayMode={displayMode}
+                        getTeamStats={getTeamStats}
+                    />
+
                     <TeamAnalysis
                         selectedTeams={selectedTeams}
                         availableTeams={availableTeams}
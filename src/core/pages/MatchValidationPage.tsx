@@ -21,6 +21,7 @@ import { DEFAULT_VALIDATION_CONFIG } from '@/core/lib/matchValidationTypes';
 import { formatMatchLabel } from '@/core/lib/matchValidationUtils';
 import { getCachedTBAEventMatches } from '@/core/lib/tbaCache';
 import { getEntriesByEvent } from '@/core/db/scoutingDatabase';
+import { revertRevisionBatch } from '@/core/db/database';
 import { calculateFuelOPR, calculateFuelOPRHybrid } from '@/game-template/fuelOpr';
 import { processPredictionRewardsForMatches } from '@/core/lib/predictionRewards';
 import {
@@ -669,6 +670,19 @@ export const MatchValidationPage: React.FC = () => {
     }
   };
 
+  const handleUndoCorrectionBatch = async (batchId: string) => {
+    try {
+      const result = await revertRevisionBatch(batchId, localStorage.getItem('currentScout') || 'match-validation-undo');
+      toast.success(
+        `Reverted ${result.reverted} corrected entries${result.skipped > 0 ? ` (${result.skipped} edited since, left as is)` : ''}`
+      );
+      await validateEvent();
+    } catch (error) {
+      console.error('Failed to undo climb corrections:', error);
+      toast.error('Failed to undo climb corrections');
+    }
+  };
+
   const handleApplyClimbCorrections = async () => {
     if (!eventKey.trim()) {
       toast.error('Please select an event first');
@@ -687,8 +701,16 @@ export const MatchValidationPage: React.FC = () => {
       setClimbCorrectionPreview(null);
 
       if (summary.correctedEntries > 0) {
+        const batchId = summary.batchId;
         toast.success(
-          `Corrected ${summary.correctedEntries} climb entries (${summary.skippedMissingEntries} missing entries, ${summary.skippedNoTBAClimbData} with no climb data)`
+          `Corrected ${summary.correctedEntries} climb entries (${summary.skippedMissingEntries} missing entries, ${summary.skippedNoTBAClimbData} with no climb data)`,
+          batchId ? {
+            duration: 15000,
+            action: {
+              label: 'Undo',
+              onClick: () => void handleUndoCorrectionBatch(batchId),
+            },
+          } : undefined
         );
 
         toast.info('Re-running match validation to refresh discrepancies...');
@@ -60,6 +60,7 @@ const PeerTransferPage = () => {
         setCurrentConflictIndex,
         setConflictResolutions,
         handleConflictResolution,
+        handleMergeResolution,
         handleBatchResolve,
         handleUndo,
         canUndo,
@@ -307,6 +308,7 @@ const PeerTransferPage = () => {
                 totalConflicts={currentConflicts.length}
                 onResolve={handleConflictResolution}
                 onBatchResolve={handleBatchResolve}
+                onMerge={handleMergeResolution}
                 onUndo={handleUndo}
                 canUndo={canUndo}
                 isProcessing={isProcessing}
@@ -7,9 +7,18 @@
 import { PickListHeader } from "@/core/components/PickListComponents/PickListHeader";
 import { MobilePickListLayout } from "@/core/components/PickListComponents/MobilePickListLayout";
 import { DesktopPickListLayout } from "@/core/components/PickListComponents/DesktopPickListLayout";
+import { PairwiseRankingPanel } from "@/core/components/PickListComponents/PairwiseRankingPanel";
+import { Button } from "@/core/components/ui/button";
 import { usePickList } from "@/core/hooks/usePickList";
+import { RankingProjectionCard } from "@/game-template/components";
+import { ListOrdered, Scale } from "lucide-react";
+import { useState } from "react";
+
+type PickListMode = "lists" | "pairwise";
 
 const PickListPage = () => {
+    const [mode, setMode] = useState<PickListMode>("lists");
+
     const {
         // State
         pickLists,
@@ -66,103 +75,141 @@ const PickListPage = () => {
                 <h1 className="text-2xl font-bold">Pick Lists</h1>
                 <p className="text-muted-foreground pb-2">Create and manage alliance selection pick lists</p>
 
-                {/* Header - Desktop Only */}
-                <div className="hidden xl:block">
-                    <PickListHeader
-                        onExport={exportPickLists}
-                        onImport={importPickLists}
-                        showAllianceSelection={showAllianceSelection}
-                        onToggleAllianceSelection={handleToggleAllianceSelection}
-                    />
+                {/* Mode - manage lists directly, or rank teams by head-to-head votes */}
+                <div className="flex gap-2 pb-4">
+                    <Button
+                        variant={mode === "lists" ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => setMode("lists")}
+                    >
+                        <ListOrdered className="w-4 h-4 mr-2" />
+                        Pick Lists
+                    </Button>
+                    <Button
+                        variant={mode === "pairwise" ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => setMode("pairwise")}
+                    >
+                        <Scale className="w-4 h-4 mr-2" />
+                        Pairwise Ranking
+                    </Button>
                 </div>
 
-                {/* Mobile Layout (below xl) - Tabs */}
-                <MobilePickListLayout
-                    activeTab={activeTab}
-                    showAllianceSelection={showAllianceSelection}
-                    filteredAndSortedTeams={filteredAndSortedTeams}
-                    pickLists={pickLists}
-                    alliances={alliances}
-                    backups={backups}
-                    availableTeams={availableTeams}
-                    teamLookupTeams={teamLookupTeams}
-                    pickListEventTeamCount={pickListEventTeamCount}
-                    newListName={newListName}
-                    newListDescription={newListDescription}
-                    searchFilter={searchFilter}
-                    sortBy={sortBy}
-                    activeFilterIds={activeFilterIds}
-                    defenseTargetTeamFilter={defenseTargetTeamFilter}
-                    hideAllianceAssignedTeams={hideAllianceAssignedTeams}
-                    pickListEvent={pickListEvent}
-                    availableEventKeys={availableEventKeys}
-                    onTabChange={setActiveTab}
-                    onSearchChange={setSearchFilter}
-                    onSortChange={setSortBy}
-                    onFilterChange={setActiveFilterIds}
-                    onDefenseTargetTeamFilterChange={setDefenseTargetTeamFilter}
-                    onPickListEventChange={setPickListEvent}
-                    onToggleHideAllianceAssignedTeams={setHideAllianceAssignedTeams}
-                    onAddTeamToList={addTeamToList}
-                    onAddTeamToAlliance={showAllianceSelection ? addTeamToAlliance : undefined}
-                    onUpdateAlliances={setAlliances}
-                    onUpdateBackups={setBackups}
-                    onAssignTeamToAllianceSlot={assignTeamToAllianceSlot}
-                    onHasTeamPickListSnapshot={hasTeamPickListSnapshot}
-                    onRestoreTeamToPickLists={restoreTeamToPickLists}
-                    onDiscardTeamPickListSnapshot={discardTeamPickListSnapshot}
-                    onNameChange={setNewListName}
-                    onDescriptionChange={setNewListDescription}
-                    onCreateList={createNewList}
-                    onDeleteList={deleteList}
-                    onUpdateTeams={updateListTeams}
-                    onAssignToAlliance={assignToAllianceAndRemove}
-                    // Header props
-                    onExport={exportPickLists}
-                    onImport={importPickLists}
-                    onToggleAllianceSelection={handleToggleAllianceSelection}
-                />
+                {mode === "pairwise" && (
+                    <PairwiseRankingPanel
+                        eventKey={pickListEvent}
+                        availableTeams={availableTeams}
+                        pickLists={pickLists}
+                        onUpdateTeams={updateListTeams}
+                    />
+                )}
+
+                {mode === "lists" && (
+                    <>
+                        {/* Header - Desktop Only */}
+                        <div className="hidden xl:block">
+                            <PickListHeader
+                                onExport={exportPickLists}
+                                onImport={importPickLists}
+                                showAllianceSelection={showAllianceSelection}
+                                onToggleAllianceSelection={handleToggleAllianceSelection}
+                            />
+                        </div>
+
+                        {/* Projected qualification standings */}
+                        <div className="pb-4">
+                            <RankingProjectionCard eventKey={pickListEvent || localStorage.getItem("eventKey") || undefined} initialRowCount={8} />
+                        </div>
+
+                        {/* Mobile Layout (below xl) - Tabs */}
+                        <MobilePickListLayout
+                            activeTab={activeTab}
+                            showAllianceSelection={showAllianceSelection}
+                            filteredAndSortedTeams={filteredAndSortedTeams}
+                            pickLists={pickLists}
+                            alliances={alliances}
+                            backups={backups}
+                            availableTeams={availableTeams}
+                            teamLookupTeams={teamLookupTeams}
+                            pickListEventTeamCount={pickListEventTeamCount}
+                            newListName={newListName}
+                            newListDescription={newListDescription}
+                            searchFilter={searchFilter}
+                            sortBy={sortBy}
+                            activeFilterIds={activeFilterIds}
+                            defenseTargetTeamFilter={defenseTargetTeamFilter}
+                            hideAllianceAssignedTeams={hideAllianceAssignedTeams}
+                            pickListEvent={pickListEvent}
+                            availableEventKeys={availableEventKeys}
+                            onTabChange={setActiveTab}
+                            onSearchChange={setSearchFilter}
+                            onSortChange={setSortBy}
+                            onFilterChange={setActiveFilterIds}
+                            onDefenseTargetTeamFilterChange={setDefenseTargetTeamFilter}
+                            onPickListEventChange={setPickListEvent}
+                            onToggleHideAllianceAssignedTeams={setHideAllianceAssignedTeams}
+                            onAddTeamToList={addTeamToList}
+                            onAddTeamToAlliance={showAllianceSelection ? addTeamToAlliance : undefined}
+                            onUpdateAlliances={setAlliances}
+                            onUpdateBackups={setBackups}
+                            onAssignTeamToAllianceSlot={assignTeamToAllianceSlot}
+                            onHasTeamPickListSnapshot={hasTeamPickListSnapshot}
+                            onRestoreTeamToPickLists={restoreTeamToPickLists}
+                            onDiscardTeamPickListSnapshot={discardTeamPickListSnapshot}
+                            onNameChange={setNewListName}
+                            onDescriptionChange={setNewListDescription}
+                            onCreateList={createNewList}
+                            onDeleteList={deleteList}
+                            onUpdateTeams={updateListTeams}
+                            onAssignToAlliance={assignToAllianceAndRemove}
+                            // Header props
+                            onExport={exportPickLists}
+                            onImport={importPickLists}
+                            onToggleAllianceSelection={handleToggleAllianceSelection}
+                        />
 
-                {/* Desktop Layout (xl and above) - Side by Side */}
-                <DesktopPickListLayout
-                    showAllianceSelection={showAllianceSelection}
-                    filteredAndSortedTeams={filteredAndSortedTeams}
-                    pickLists={pickLists}
-                    alliances={alliances}
-                    backups={backups}
-                    availableTeams={availableTeams}
-                    teamLookupTeams={teamLookupTeams}
-                    pickListEventTeamCount={pickListEventTeamCount}
-                    newListName={newListName}
-                    newListDescription={newListDescription}
-                    searchFilter={searchFilter}
-                    sortBy={sortBy}
-                    activeFilterIds={activeFilterIds}
-                    defenseTargetTeamFilter={defenseTargetTeamFilter}
-                    hideAllianceAssignedTeams={hideAllianceAssignedTeams}
-                    pickListEvent={pickListEvent}
-                    availableEventKeys={availableEventKeys}
-                    onSearchChange={setSearchFilter}
-                    onSortChange={setSortBy}
-                    onFilterChange={setActiveFilterIds}
-                    onDefenseTargetTeamFilterChange={setDefenseTargetTeamFilter}
-                    onPickListEventChange={setPickListEvent}
-                    onToggleHideAllianceAssignedTeams={setHideAllianceAssignedTeams}
-                    onAddTeamToList={addTeamToList}
-                    onAddTeamToAlliance={showAllianceSelection ? addTeamToAlliance : undefined}
-                    onUpdateAlliances={setAlliances}
-                    onUpdateBackups={setBackups}
-                    onAssignTeamToAllianceSlot={assignTeamToAllianceSlot}
-                    onHasTeamPickListSnapshot={hasTeamPickListSnapshot}
-                    onRestoreTeamToPickLists={restoreTeamToPickLists}
-                    onDiscardTeamPickListSnapshot={discardTeamPickListSnapshot}
-                    onNameChange={setNewListName}
-                    onDescriptionChange={setNewListDescription}
-                    onCreateList={createNewList}
-                    onDeleteList={deleteList}
-                    onUpdateTeams={updateListTeams}
-                    onAssignToAlliance={assignToAllianceAndRemove}
-                />
+                        {/* Desktop Layout (xl and above) - Side by Side */}
+                        <DesktopPickListLayout
+                            showAllianceSelection={showAllianceSelection}
+                            filteredAndSortedTeams={filteredAndSortedTeams}
+                            pickLists={pickLists}
+                            alliances={alliances}
+                            backups={backups}
+                            availableTeams={availableTeams}
+                            teamLookupTeams={teamLookupTeams}
+                            pickListEventTeamCount={pickListEventTeamCount}
+                            newListName={newListName}
+                            newListDescription={newListDescription}
+                            searchFilter={searchFilter}
+                            sortBy={sortBy}
+                            activeFilterIds={activeFilterIds}
+                            defenseTargetTeamFilter={defenseTargetTeamFilter}
+                            hideAllianceAssignedTeams={hideAllianceAssignedTeams}
+                            pickListEvent={pickListEvent}
+                            availableEventKeys={availableEventKeys}
+                            onSearchChange={setSearchFilter}
+                            onSortChange={setSortBy}
+                            onFilterChange={setActiveFilterIds}
+                            onDefenseTargetTeamFilterChange={setDefenseTargetTeamFilter}
+                            onPickListEventChange={setPickListEvent}
+                            onToggleHideAllianceAssignedTeams={setHideAllianceAssignedTeams}
+                            onAddTeamToList={addTeamToList}
+                            onAddTeamToAlliance={showAllianceSelection ? addTeamToAlliance : undefined}
+                            onUpdateAlliances={setAlliances}
+                            onUpdateBackups={setBackups}
+                            onAssignTeamToAllianceSlot={assignTeamToAllianceSlot}
+                            onHasTeamPickListSnapshot={hasTeamPickListSnapshot}
+                            onRestoreTeamToPickLists={restoreTeamToPickLists}
+                            onDiscardTeamPickListSnapshot={discardTeamPickListSnapshot}
+                            onNameChange={setNewListName}
+                            onDescriptionChange={setNewListDescription}
+                            onCreateList={createNewList}
+                            onDeleteList={deleteList}
+                            onUpdateTeams={updateListTeams}
+                            onAssignToAlliance={assignToAllianceAndRemove}
+                        />
+                    </>
+                )}
             </div>
         </div>
     );
@@ -17,6 +17,7 @@ import type { PitAssignment } from '@/core/lib/pitAssignmentTypes';
 import type { NexusPitMap } from '@/core/lib/nexusUtils';
 import type { PitAssignmentTransferPayload } from '@/core/lib/pitAssignmentTransfer';
 import { toast } from 'sonner';
+import { workspaceStorage } from '@/core/db/eventWorkspaceDatabase';
 
 const PitAssignmentsPage: React.FC = () => {
   const { scoutsList } = useScoutManagement();
@@ -54,7 +55,7 @@ const PitAssignmentsPage: React.FC = () => {
   useEffect(() => {
     if (selectedEvent && assignments.length > 0) {
       const storageKey = `pit_assignments_${selectedEvent}`;
-      localStorage.setItem(storageKey, JSON.stringify(assignments));
+      workspaceStorage.setItem(storageKey, JSON.stringify(assignments));
     }
   }, [assignments, selectedEvent]);
 
@@ -62,7 +63,7 @@ const PitAssignmentsPage: React.FC = () => {
   useEffect(() => {
     if (selectedEvent) {
       const storageKey = `pit_assignments_${selectedEvent}`;
-      const savedAssignments = localStorage.getItem(storageKey);
+      const savedAssignments = workspaceStorage.getItem(storageKey);
       if (savedAssignments) {
         try {
           const parsedAssignments = JSON.parse(savedAssignments) as PitAssignment[];
@@ -83,9 +84,8 @@ const PitAssignmentsPage: React.FC = () => {
       let foundSource: 'nexus' | 'tba' = 'tba';
 
       // Check for Nexus teams first (priority) by scanning localStorage
-      for (let i = 0; i < localStorage.length; i++) {
-        const key = localStorage.key(i);
-        if (key && key.startsWith('nexus_event_teams_')) {
+      for (const key of workspaceStorage.keys()) {
+        if (key.startsWith('nexus_event_teams_')) {
           const eventKey = key.replace('nexus_event_teams_', '');
           const nexusTeams = getStoredNexusTeams(eventKey);
 
@@ -354,7 +354,7 @@ const PitAssignmentsPage: React.FC = () => {
     // Also clear from localStorage
     if (selectedEvent) {
       const storageKey = `pit_assignments_${selectedEvent}`;
-      localStorage.removeItem(storageKey);
+      workspaceStorage.removeItem(storageKey);
     }
   };
 
@@ -12,7 +12,7 @@ import { ScrollArea } from "@/core/components/ui/scroll-area";
 import { Badge } from "@/core/components/ui/badge";
 import {
   BasicInformation,
-  RobotPhotoSection,
+  PitPhotosSection,
   TechnicalSpecifications,
   AdditionalNotes,
   GameSpecificQuestionsPlaceholder,
@@ -25,6 +25,7 @@ import {
   loadMyPitAssignments,
   markPitAssignmentCompleted,
 } from "@/core/lib/pitAssignmentTransfer";
+import { workspaceStorage } from "@/core/db/eventWorkspaceDatabase";
 import { Save, AlertCircle, CheckCircle } from "lucide-react";
 
 interface PitScoutingPageProps {
@@ -55,7 +56,6 @@ export function PitScoutingPage({
     setTeamNumber,
     setEventKey,
     setScoutName,
-    setRobotPhoto,
     setWeight,
     setDrivetrain,
     setProgrammingLanguage,
@@ -86,9 +86,8 @@ export function PitScoutingPage({
 
     if (!eventKey && scoutName) {
       const candidateEvents: string[] = [];
-      for (let i = 0; i < localStorage.length; i++) {
-        const key = localStorage.key(i);
-        if (key?.startsWith('pit_assignments_') && !key.startsWith('pit_assignments_meta_') && !key.startsWith('pit_assignments_mine_')) {
+      for (const key of workspaceStorage.keys()) {
+        if (key.startsWith('pit_assignments_') && !key.startsWith('pit_assignments_meta_') && !key.startsWith('pit_assignments_mine_')) {
           candidateEvents.push(key.replace('pit_assignments_', ''));
         }
       }
@@ -250,9 +249,10 @@ export function PitScoutingPage({
           </SheetContent>
         </Sheet>
 
-        <RobotPhotoSection
-          robotPhoto={formState.robotPhoto}
-          onRobotPhotoChange={setRobotPhoto}
+        <PitPhotosSection
+          teamNumber={formState.teamNumber}
+          eventKey={formState.eventKey}
+          scoutName={formState.scoutName}
         />
 
         <TechnicalSpecifications
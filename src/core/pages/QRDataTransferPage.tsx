@@ -6,7 +6,7 @@
  * Supports multiple data types with conflict resolution.
  */
 
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { Button } from "@/core/components/ui/button";
 import { Separator } from "@/core/components/ui/separator";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/core/components/ui/card";
@@ -14,7 +14,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { UniversalFountainGenerator } from "@/core/components/data-transfer/UniversalFountainGenerator";
 import { UniversalFountainScanner } from "@/core/components/data-transfer/UniversalFountainScanner";
 import { DataFilteringControls } from "@/core/components/data-transfer/DataFilteringControls";
-import { exportScoutingData } from "@/core/db/database";
+import { exportScoutingData, exportSyncDelta } from "@/core/db/database";
 import { loadPitScoutingData } from "@/core/lib/pitScoutingUtils";
 import { pitDB } from "@/core/db/database";
 import { gamificationDB } from "@/game-template/gamification/database";
@@ -38,13 +38,23 @@ import type { ConflictInfo } from "@/core/lib/scoutingDataUtils";
 import { normalizeTransferredScoutProfile } from "@/core/lib/normalizeTransferredScoutProfile";
 import { normalizeTransferredMatchPrediction } from "@/core/lib/normalizeTransferredMatchPrediction";
 import { normalizeTransferredScoutAchievement } from "@/core/lib/normalizeTransferredScoutAchievement";
+import { createCustomFormPayload, isCustomFormPayload } from "@/core/lib/customForm";
+import { getActiveCustomForm } from "@/core/db/customFormDatabase";
+import { handleCustomFormUpload } from "@/core/lib/uploadHandlers/customFormUploadHandler";
+import { handleSyncDeltaUpload } from "@/core/lib/uploadHandlers/syncDeltaUploadHandler";
+import { advanceSyncCursor, getSyncCursor } from "@/core/db/syncLogDatabase";
+import { isSyncDeltaPayload, type SyncDeltaPayload } from "@/core/lib/syncLog";
+import { SyncPeerSelect, type SyncPeerChoice } from "@/core/components/data-transfer/SyncPeerSelect";
+import { encodeScoutingTransfer } from "@/core/lib/scoutingCodec";
+import { scoutingCodecFields } from "@/game-template/scoutingCodecSchema";
 import { toast } from "sonner";
 
-type DataType = 'scouting' | 'match' | 'scout' | 'combined' | 'pit-scouting';
+type DataType = 'scouting' | 'match' | 'scout' | 'combined' | 'pit-scouting' | 'custom-form' | 'sync-delta';
 
 interface DataTypeConfig {
     loadData: () => Promise<unknown>;
     saveData: (data: unknown) => Promise<void>;
+    compressData?: (data: unknown) => Uint8Array;
     validateData: (data: unknown) => boolean;
     getDataSummary: (data: unknown) => string;
     title: string;
@@ -54,6 +64,10 @@ interface DataTypeConfig {
     expectedPacketType: string;
 }
 
+// Scouting entries go out in the binary columnar format instead of gzip JSON
+const compressScoutingEntries = (data: unknown): Uint8Array =>
+    encodeScoutingTransfer(data, scoutingCodecFields);
+
 const QRDataTransferPage = () => {
     const [mode, setMode] = useState<'select' | 'generate' | 'scan'>('select');
     const [dataType, setDataType] = useState<DataType>('scouting');
@@ -62,6 +76,9 @@ const QRDataTransferPage = () => {
     const [filterPreviewData, setFilterPreviewData] = useState<ScoutingDataCollection | null>(null);
     const [pitFilterPreviewData, setPitFilterPreviewData] = useState<Awaited<ReturnType<typeof loadPitScoutingData>> | null>(null);
     const [allScoutNames, setAllScoutNames] = useState<string[]>([]);
+    const [syncPeer, setSyncPeer] = useState<SyncPeerChoice | null>(null);
+    // QR is one-way, so the cursor only moves when the sender confirms the peer scanned it
+    const generatedSyncDeltaRef = useRef<SyncDeltaPayload | null>(null);
 
     // Batch review state (for scouting data conflicts)
     const [showBatchDialog, setShowBatchDialog] = useState(false);
@@ -78,6 +95,7 @@ const QRDataTransferPage = () => {
         setCurrentConflictIndex,
         setConflictResolutions,
         handleConflictResolution: handleConflictResolutionBase,
+        handleMergeResolution: handleMergeResolutionBase,
         handleBatchResolve: handleBatchResolveBase,
         handleUndo,
         canUndo,
@@ -95,6 +113,15 @@ const QRDataTransferPage = () => {
         }
     };
 
+    // Wrapper for field-by-field merge
+    const handleMergeResolution = async (merged: ScoutingEntryBase) => {
+        await handleMergeResolutionBase(merged);
+
+        if (currentConflictIndex >= currentConflicts.length - 1) {
+            setMode('select');
+        }
+    };
+
     // Wrapper for batch resolve
     const handleBatchResolve = async (action: 'replace' | 'skip') => {
         await handleBatchResolveBase(action);
@@ -239,6 +266,13 @@ const QRDataTransferPage = () => {
             isMounted = false;
         };
     }, [dataType]);
+    const handleMarkSyncReceived = useCallback(async () => {
+        const payload = generatedSyncDeltaRef.current;
+        if (!syncPeer || !payload) return;
+        await advanceSyncCursor(syncPeer.peerId, syncPeer.peerName, payload.clock);
+        toast.success(`Marked ${payload.changes.length} changes as received by ${syncPeer.peerName}`);
+    }, [syncPeer]);
+
     const handleApplyFilters = useCallback(() => {
         setAppliedFilters(filters);
         toast.success('Filters applied to QR generation');
@@ -252,6 +286,7 @@ const QRDataTransferPage = () => {
                 return applyFilters(scoutingData, appliedFilters);
             },
             saveData: saveScoutingDataWithConflicts,
+            compressData: compressScoutingEntries,
             validateData: (data: unknown): boolean => {
                 const scoutingData = data as { entries?: unknown[] };
                 return !!(scoutingData.entries && Array.isArray(scoutingData.entries));
@@ -304,6 +339,48 @@ const QRDataTransferPage = () => {
             completionMessage: 'Pit scouting data imported successfully!',
             expectedPacketType: 'pit-scouting_fountain_packet'
         },
+        'custom-form': {
+            loadData: async () => {
+                const form = await getActiveCustomForm();
+                return form && form.fields.length > 0 ? createCustomFormPayload(form) : null;
+            },
+            saveData: async (data: unknown) => {
+                await handleCustomFormUpload(data);
+            },
+            validateData: isCustomFormPayload,
+            getDataSummary: (data: unknown) => {
+                if (!isCustomFormPayload(data)) return 'Custom form';
+                return `${data.form.name} v${data.form.version} (${data.form.fields.length} questions)`;
+            },
+            title: 'Custom Scouting Form',
+            description: 'Share the custom scouting form so every tablet asks the same questions',
+            noDataMessage: 'No custom form found. Build one in Custom Form Builder first!',
+            completionMessage: 'Custom form imported successfully!',
+            expectedPacketType: 'custom-form_fountain_packet'
+        },
+        'sync-delta': {
+            loadData: async () => {
+                const cursor = syncPeer ? await getSyncCursor(syncPeer.peerId) : undefined;
+                const payload = await exportSyncDelta(cursor?.seen);
+                generatedSyncDeltaRef.current = payload;
+                return payload.changes.length > 0 ? payload : null;
+            },
+            saveData: async (data: unknown) => {
+                await handleSyncDeltaUpload(data, 'smart-merge');
+            },
+            validateData: isSyncDeltaPayload,
+            getDataSummary: (data: unknown) => {
+                if (!isSyncDeltaPayload(data)) return 'Sync changes';
+                return `${data.changes.length} changes from ${data.deviceName}`;
+            },
+            title: 'Changes Since Last Sync',
+            description: syncPeer
+                ? `Send the scouting and pit changes ${syncPeer.peerName} has not received yet`
+                : 'Send every logged scouting and pit change',
+            noDataMessage: 'No changes since the last sync with this peer.',
+            completionMessage: 'Sync changes applied!',
+            expectedPacketType: 'sync-delta_fountain_packet'
+        },
         'match': {
             loadData: async () => {
                 const matchDataStr = localStorage.getItem('matchData');
@@ -404,6 +481,7 @@ const QRDataTransferPage = () => {
                     }
                 };
             },
+            compressData: compressScoutingEntries,
             saveData: async (data: unknown) => {
                 const combinedData = data as {
                     entries?: ScoutingEntryBase[];
@@ -506,6 +584,7 @@ const QRDataTransferPage = () => {
                 onSwitchToScanner={() => setMode('scan')}
                 dataType={dataType}
                 loadData={loadData}
+                compressData={config.compressData}
                 title={config.title}
                 description={config.description}
                 noDataMessage={config.noDataMessage}
@@ -537,6 +616,15 @@ const QRDataTransferPage = () => {
                                 summaryOverride={dataType === 'pit-scouting' ? pitFilterSummary : dataType === 'scout' ? scoutFilterSummary : undefined}
                             />
                         </div>
+                    ) : dataType === 'sync-delta' && syncPeer ? (
+                        <div className="space-y-2">
+                            <p className="text-xs text-muted-foreground">
+                                Once {syncPeer.peerName} has scanned every code, mark the changes as received so the next transfer skips them.
+                            </p>
+                            <Button variant="outline" className="w-full" onClick={handleMarkSyncReceived}>
+                                Mark as Received by {syncPeer.peerName}
+                            </Button>
+                        </div>
                     ) : undefined
                 }
             />
@@ -574,6 +662,7 @@ const QRDataTransferPage = () => {
                     totalConflicts={currentConflicts.length}
                     onResolve={handleConflictResolution}
                     onBatchResolve={handleBatchResolve}
+                    onMerge={handleMergeResolution}
                     onUndo={handleUndo}
                     canUndo={canUndo}
                 />
@@ -609,8 +698,15 @@ const QRDataTransferPage = () => {
                                     <SelectItem value="pit-scouting">Pit Scouting Data (no images)</SelectItem>
                                     <SelectItem value="match">Match Schedule Data</SelectItem>
                                     <SelectItem value="scout">Scout Profiles</SelectItem>
+                                    <SelectItem value="custom-form">Custom Scouting Form</SelectItem>
+                                    <SelectItem value="sync-delta">Changes Since Last Sync</SelectItem>
                                 </SelectContent>
                             </Select>
+                            {dataType === 'sync-delta' && (
+                                <div className="mt-4">
+                                    <SyncPeerSelect value={syncPeer} onChange={setSyncPeer} />
+                                </div>
+                            )}
                         </CardContent>
                     </Card>
 
@@ -662,6 +758,7 @@ const QRDataTransferPage = () => {
                 totalConflicts={currentConflicts.length}
                 onResolve={handleConflictResolution}
                 onBatchResolve={handleBatchResolve}
+                onMerge={handleMergeResolution}
                 onUndo={handleUndo}
                 canUndo={canUndo}
             />
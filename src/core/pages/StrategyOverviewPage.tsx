@@ -1,4 +1,4 @@
-import { useState, useMemo, useEffect } from "react";
+import { useState, useMemo, useEffect, useRef } from "react";
 import { useTeamStatistics } from "@/core/hooks/useTeamStatistics";
 import { useChartData } from "@/core/hooks/useChartData";
 import { strategyConfig } from "@/game/strategy-config";
@@ -7,6 +7,26 @@ import { StrategyChart } from "@/core/components/Strategy/StrategyChart";
 import { TeamStatsTableEnhanced } from "@/core/components/Strategy/TeamStatsTableEnhanced";
 import { AggregationType, ColumnFilter, FilterOperator } from "@/core/types/strategy";
 import { Skeleton } from "@/core/components/ui/skeleton";
+import { RankingProjectionCard } from "@/game-template/components";
+import { useCustomForm } from "@/core/hooks/useCustomForm";
+import { getCustomFormStrategyColumns } from "@/core/lib/customForm";
+import { getOfficialRankingStrategyColumns } from "@/core/lib/eventStandings";
+import { PlayoffBracketCard } from "@/core/components/Strategy/PlayoffBracketCard";
+
+// Columns added after a user may have saved their visible columns. Keys in
+// this list have been offered once; new ones start at their default visibility.
+const CUSTOM_COLUMNS_SEEN_KEY = "strategy_customColumnsSeen";
+const OFFICIAL_COLUMNS = getOfficialRankingStrategyColumns();
+
+const readStoredKeys = (storageKey: string): string[] | null => {
+    try {
+        const saved = localStorage.getItem(storageKey);
+        const parsed = saved ? JSON.parse(saved) : null;
+        return Array.isArray(parsed) ? parsed.filter((key): key is string => typeof key === "string") : null;
+    } catch {
+        return null;
+    }
+};
 
 export default function StrategyOverviewPage() {
     const [selectedEvents, setSelectedEvents] = useState<string[]>(["all"]);
@@ -20,9 +40,12 @@ export default function StrategyOverviewPage() {
         strategyConfig.columns.find(col => col.numeric && col.key !== "matchCount")?.key || "rawValues.totalPoints"
     );
 
-    const [columnConfig, setColumnConfig] = useState(strategyConfig.columns);
+    const [columnConfig, setColumnConfig] = useState([...strategyConfig.columns, ...OFFICIAL_COLUMNS]);
     const [columnFilters, setColumnFilters] = useState<Record<string, ColumnFilter>>({});
     const [isColumnSettingsOpen, setIsColumnSettingsOpen] = useState(false);
+    const { form: customForm } = useCustomForm();
+    // Captured before the save effect below overwrites it with only the built-in columns
+    const savedVisibleColumnsRef = useRef(readStoredKeys("strategy_visibleColumns"));
 
     // Load data on mount
     useEffect(() => {
@@ -49,16 +72,51 @@ export default function StrategyOverviewPage() {
         if (savedVisibleColumns) {
             try {
                 const visibleKeys = JSON.parse(savedVisibleColumns) as string[];
+                const seenKeys = new Set(readStoredKeys(CUSTOM_COLUMNS_SEEN_KEY) ?? []);
+                const officialKeys = new Set(OFFICIAL_COLUMNS.map(col => col.key));
                 setColumnConfig(prev => prev.map(col => ({
                     ...col,
-                    visible: visibleKeys.includes(col.key)
+                    visible: officialKeys.has(col.key) && !seenKeys.has(col.key)
+                        ? col.visible
+                        : visibleKeys.includes(col.key)
                 })));
             } catch (e) {
                 console.error("Failed to parse saved visible columns", e);
             }
         }
+
+        localStorage.setItem(
+            CUSTOM_COLUMNS_SEEN_KEY,
+            JSON.stringify([...new Set([...(readStoredKeys(CUSTOM_COLUMNS_SEEN_KEY) ?? []), ...OFFICIAL_COLUMNS.map(col => col.key)])])
+        );
     }, []);
 
+    // Custom form questions load from IndexedDB after mount, so append their columns once available.
+    // New questions use their default visibility; ones seen before keep the saved choice.
+    useEffect(() => {
+        const customColumns = getCustomFormStrategyColumns(customForm);
+        if (customColumns.length === 0) return;
+
+        const savedVisible = savedVisibleColumnsRef.current;
+        const seenKeys = new Set(readStoredKeys(CUSTOM_COLUMNS_SEEN_KEY) ?? []);
+
+        setColumnConfig(prev => {
+            const existingKeys = new Set(prev.map(col => col.key));
+            const additions = customColumns
+                .filter(col => !existingKeys.has(col.key))
+                .map(col => ({
+                    ...col,
+                    visible: savedVisible && seenKeys.has(col.key) ? savedVisible.includes(col.key) : col.visible,
+                }));
+            return additions.length > 0 ? [...prev, ...additions] : prev;
+        });
+
+        localStorage.setItem(
+            CUSTOM_COLUMNS_SEEN_KEY,
+            JSON.stringify([...new Set([...seenKeys, ...customColumns.map(col => col.key)])])
+        );
+    }, [customForm]);
+
     // Save settings when they change
     useEffect(() => {
         localStorage.setItem("strategy_aggregation", aggregationType);
@@ -90,6 +148,12 @@ export default function StrategyOverviewPage() {
         }
         return selectedEvents;
     }, [selectedEvents]);
+
+    // Ranking projection needs a single event; fall back to the current event
+    const projectionEventKey = typeof selectedEventFilter === "string"
+        ? selectedEventFilter
+        : localStorage.getItem("eventKey") || undefined;
+
     // Calculate statistics using centralized hook
     const { teamStats, filteredTeamStats, isLoading, error, availableEvents } = useTeamStatistics(
         selectedEventFilter,
@@ -210,6 +274,10 @@ export default function StrategyOverviewPage() {
                 chartConfig={chartConfig}
             />
 
+            <RankingProjectionCard eventKey={projectionEventKey} />
+
+            <PlayoffBracketCard eventKey={projectionEventKey} />
+
             <TeamStatsTableEnhanced
                 teamStats={teamStats}
                 filteredTeamStats={filteredTeamStats}
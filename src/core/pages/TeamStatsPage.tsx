@@ -12,6 +12,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/core/components/anim
 import { GenericSelector } from "@/core/components/ui/generic-selector";
 import { DataAttribution } from "@/core/components/DataAttribution";
 import { TeamStatsFieldSettingsSheet, type TeamStatsFieldOption } from "@/core/components/team-stats/TeamStatsFieldSettingsSheet";
+import { TeamHistoryAnalysis } from "@/core/components/team-stats/TeamHistoryAnalysis";
 // PitDataDisplay import removed (will use one from game-template)
 import { useTeamStats } from "@/core/hooks/useTeamStats";
 import type { TeamStats } from "@/types/game-interfaces";
@@ -508,7 +509,7 @@ export function TeamStatsPage(props: TeamStatsPageProps) {
 
                         {/* Tabs */}
                         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full" enableSwipe={true}>
-                            <TabsList className="grid w-full grid-cols-5 h-auto">
+                            <TabsList className="grid w-full grid-cols-6 h-auto">
                                 <TabsTrigger value="overview" className="text-xs sm:text-sm px-1 sm:px-3">
                                     <span className="hidden sm:inline">Overview</span>
                                     <span className="sm:hidden">Over.</span>
@@ -529,6 +530,10 @@ export function TeamStatsPage(props: TeamStatsPageProps) {
                                     <span className="hidden sm:inline">Pit Data</span>
                                     <span className="sm:hidden">Pit</span>
                                 </TabsTrigger>
+                                <TabsTrigger value="history" className="text-xs sm:text-sm px-1 sm:px-3">
+                                    <span className="hidden sm:inline">History</span>
+                                    <span className="sm:hidden">Hist.</span>
+                                </TabsTrigger>
                             </TabsList>
 
                             {/* Overview Tab */}
@@ -587,6 +592,11 @@ export function TeamStatsPage(props: TeamStatsPageProps) {
                                     </Card>
                                 )}
                             </TabsContent>
+
+                            {/* Event History Tab */}
+                            <TabsContent value="history">
+                                <TeamHistoryAnalysis teamNumber={selectedTeam} />
+                            </TabsContent>
                         </Tabs>
                     </div>
                 )}
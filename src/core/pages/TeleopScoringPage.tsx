@@ -9,11 +9,21 @@ import { ArrowRight } from "lucide-react";
 import { ScoringSections, StatusToggles } from "@/game-template/components";
 import { FIELD_ELEMENTS } from "@/game-template/components/field-map";
 import { formatDurationSecondsLabel } from "@/game-template/duration";
-import { TELEOP_PHASE_DURATION_MS } from "@/game-template/constants";
+import { AUTO_PHASE_DURATION_MS, TELEOP_PHASE_DURATION_MS } from "@/game-template/constants";
 import { useWorkflowNavigation } from "@/core/hooks/useWorkflowNavigation";
 import { submitMatchData } from "@/core/lib/submitMatch";
 import { useGame } from "@/core/contexts/GameContext";
+import { useCustomForm } from "@/core/hooks/useCustomForm";
+import { CustomFormFieldsCard } from "@/core/components/custom-form";
 import { workflowConfig } from "@/game-template/game-schema";
+import {
+  advanceMatchClockTo,
+  ensureMatchClock,
+  loadMatchClock,
+  saveMatchClock,
+  stampMatchTimes,
+  toMatchTimeSeconds,
+} from "@/core/lib/matchClock";
 
 const TELEOP_CLIMB_START_PRESETS = [30, 25, 20, 15, 10, 5] as const;
 
@@ -23,6 +33,7 @@ const TeleopScoringPage = () => {
   const { transformation } = useGame();
   const states = location.state;
   const { getNextRoute, getPrevRoute, isLastPage } = useWorkflowNavigation();
+  const { form: customForm } = useCustomForm();
   const isSubmitPage = isLastPage('teleopScoring');
 
   const getSavedState = () => {
@@ -64,8 +75,18 @@ const TeleopScoringPage = () => {
     localStorage.setItem("teleopUndoHistory", JSON.stringify(undoHistory));
   }, [undoHistory]);
 
+  // Carry the clock over from auto; start it at the end of auto if auto was skipped
+  useEffect(() => {
+    saveMatchClock(advanceMatchClockTo(ensureMatchClock(Date.now(), AUTO_PHASE_DURATION_MS), AUTO_PHASE_DURATION_MS));
+  }, []);
+
   const addScoringAction = (action: any) => {
-    const newAction = { ...action, timestamp: Date.now() };
+    const now = Date.now();
+    const newAction = {
+      ...action,
+      timestamp: now,
+      matchTime: toMatchTimeSeconds(ensureMatchClock(now, AUTO_PHASE_DURATION_MS), now),
+    };
     setScoringActions((prev: any) => [...prev, newAction]);
     // Add to undo history
     setUndoHistory((prev: any) => [...prev, { type: 'action', data: newAction }]);
@@ -182,7 +203,9 @@ const TeleopScoringPage = () => {
       }
     }
 
-    if (Array.isArray(finalActions)) {
+    const matchClock = loadMatchClock();
+    actionsToUse = stampMatchTimes(actionsToUse, matchClock);
+    if (Array.isArray(finalActions) || matchClock) {
       setScoringActions(actionsToUse);
     }
     localStorage.setItem("teleopStateStack", JSON.stringify(actionsToUse));
@@ -330,6 +353,9 @@ const TeleopScoringPage = () => {
             </Card>
           )}
 
+          {/* Custom Form Questions */}
+          <CustomFormFieldsCard form={customForm} phase="teleop" />
+
           <Card>
             <CardHeader>
               <CardTitle className="text-lg">Teleop Climb Start Time</CardTitle>
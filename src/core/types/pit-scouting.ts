@@ -52,6 +52,7 @@ export interface PitScoutingEntryBase {
     timestamp: number;              // Unix milliseconds (not ISO string) for efficient comparison
 
     // Universal pit scouting fields (not game-specific)
+    /** @deprecated Photos live in PitScoutingDB.pitPhotos; base64 values are moved there on load */
     robotPhoto?: string;            // Base64 or URL
     weight?: number;                // Robot weight in pounds
     drivetrain?: DrivetrainType;    // Standard FRC drivetrain types
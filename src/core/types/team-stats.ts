@@ -83,6 +83,15 @@ export interface TeamStats {
     statboticsAutoTower?: number;
     statboticsEndgameTower?: number;
 
+    // Fused fuel estimate (optional; scouting + mOPR + event prior, with a 90% credible interval)
+    fusedAutoFuel?: number;
+    fusedTeleopFuel?: number;
+    fusedTotalFuel?: number;
+    fusedTotalFuelLower?: number;
+    fusedTotalFuelUpper?: number;
+    /** Percent of the fused total that came from scouting (the rest is mOPR and the prior) */
+    fusedFuelScoutingShare?: number;
+
     // Allow additional game-specific fields
     [key: string]: any;
 }
@@ -23,6 +23,11 @@ export {
   findExistingScoutingEntry,
   updateScoutingEntryWithCorrection,
   deleteScoutingEntry,
+  recordScoutingEntryRevision,
+  loadScoutingEntryRevisions,
+  loadRevisionBatch,
+  revertScoutingEntryRevision,
+  revertRevisionBatch,
   clearAllScoutingData,
 } from '../core/db/database';
 
@@ -38,6 +43,21 @@ export {
   importScoutingData,
 } from '../core/db/database';
 
+// Delta sync (change log and peer cursors)
+export {
+  exportSyncDelta,
+  importSyncDelta,
+} from '../core/db/database';
+
+export {
+  syncLogDB,
+  getLocalSyncState,
+  listSyncCursors,
+  advanceSyncCursor,
+  resetSyncCursor,
+  withoutChangeLog,
+} from '../core/db/syncLogDatabase';
+
 // Pit scouting operations
 export {
   savePitScoutingEntry,
@@ -0,0 +1,118 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Alliance } from '@/core/lib/allianceTypes';
+import { simulateAllianceDraft, type DraftTeamProfile } from './allianceDraftSimulator';
+
+vi.mock('@/core/db/eventWorkspaceDatabase', () => ({ workspaceStorage: {} }));
+
+function createAlliances(count: number, entries: Partial<Alliance>[] = []): Alliance[] {
+    return Array.from({ length: count }, (_, index) => ({
+        id: index + 1,
+        allianceNumber: index + 1,
+        captain: null,
+        pick1: null,
+        pick2: null,
+        pick3: null,
+        ...entries[index],
+    }));
+}
+
+// Team N is worth 100 - N, so seed order and value order agree
+const profiles: DraftTeamProfile[] = Array.from({ length: 12 }, (_, index) => ({
+    teamNumber: index + 1,
+    value: 100 - (index + 1),
+    fuelPoints: 50,
+    towerPoints: 10,
+}));
+const seedOrder = profiles.map(profile => profile.teamNumber);
+const deterministic = { iterations: 20, seed: 1, temperature: 0, complementarityWeight: 0 };
+
+const slotPick = (result: ReturnType<typeof simulateAllianceDraft>, round: number, allianceNumber: number) =>
+    result.slots.find(slot => slot.round === round && slot.allianceNumber === allianceNumber)?.candidates[0];
+
+describe('simulateAllianceDraft', () => {
+    it('runs a serpentine draft with captains moving up when a seed is picked', () => {
+        const result = simulateAllianceDraft(
+            { alliances: createAlliances(4), declinedTeams: [], seedOrder, roundCount: 2 },
+            profiles,
+            deterministic
+        );
+
+        expect(slotPick(result, 1, 1)).toEqual({ teamNumber: 2, probability: 1 });
+        expect(slotPick(result, 1, 2)?.teamNumber).toBe(4);
+        expect(slotPick(result, 1, 4)?.teamNumber).toBe(8);
+        expect(result.slots.filter(slot => slot.round === 2).map(slot => slot.allianceNumber)).toEqual([4, 3, 2, 1]);
+        expect(slotPick(result, 2, 4)?.teamNumber).toBe(9);
+        expect(slotPick(result, 2, 1)?.teamNumber).toBe(12);
+    });
+
+    it('reports which of our pick list teams survive to each of our turns', () => {
+        const result = simulateAllianceDraft(
+            {
+                alliances: createAlliances(4),
+                declinedTeams: [],
+                seedOrder,
+                roundCount: 2,
+                ourTeamNumber: 5,
+                ourPickList: [6, 9, 10],
+            },
+            profiles,
+            deterministic
+        );
+
+        expect(result.ourTurns.map(turn => [turn.round, turn.allianceNumber, turn.probability])).toEqual([[1, 3, 1], [2, 3, 1]]);
+        expect(result.ourTurns[0]?.teams.map(team => team.probability)).toEqual([1, 1, 1]);
+        expect(result.ourTurns[1]?.teams.find(team => team.teamNumber === 9)?.probability).toBe(0);
+        expect(result.ourTurns[1]?.teams.find(team => team.teamNumber === 10)?.probability).toBe(1);
+        expect(result.ourPickedProbability).toBe(0);
+    });
+
+    it('keeps entered picks and never picks a team that declined', () => {
+        const result = simulateAllianceDraft(
+            {
+                alliances: createAlliances(4, [{ captain: 1, pick1: 4 }]),
+                declinedTeams: [2],
+                seedOrder,
+                roundCount: 2,
+            },
+            profiles,
+            deterministic
+        );
+
+        expect(result.slots[0]?.actualTeam).toBe(4);
+        expect(result.slots[0]?.candidates).toEqual([]);
+        // Team 2 declined but is still the next seed, so it captains alliance 2 and takes 3
+        expect(slotPick(result, 1, 2)?.teamNumber).toBe(3);
+        const pickedTeams = result.slots.flatMap(slot => slot.candidates.map(candidate => candidate.teamNumber));
+        expect(pickedTeams).not.toContain(2);
+    });
+
+    it('favors a team that covers what the captain is missing', () => {
+        const specialists: DraftTeamProfile[] = [
+            { teamNumber: 1, value: 100, fuelPoints: 100, towerPoints: 0 },
+            { teamNumber: 2, value: 62, fuelPoints: 60, towerPoints: 2 },
+            { teamNumber: 3, value: 60, fuelPoints: 20, towerPoints: 40 },
+            { teamNumber: 4, value: 10, fuelPoints: 10, towerPoints: 0 },
+        ];
+        const state = { alliances: createAlliances(1), declinedTeams: [], seedOrder: [1, 2, 3, 4], roundCount: 2 as const };
+
+        const byValue = simulateAllianceDraft(state, specialists, deterministic);
+        const byFit = simulateAllianceDraft(state, specialists, { ...deterministic, complementarityWeight: 1 });
+
+        expect(slotPick(byValue, 1, 1)?.teamNumber).toBe(2);
+        expect(slotPick(byFit, 1, 1)?.teamNumber).toBe(3);
+    });
+
+    it('spreads picks across the board when captains are noisy', () => {
+        const result = simulateAllianceDraft(
+            { alliances: createAlliances(4), declinedTeams: [], seedOrder, roundCount: 2 },
+            profiles,
+            { iterations: 300, seed: 5, temperature: 0.1 }
+        );
+
+        const firstPick = result.slots[0]!;
+        expect(firstPick.candidates.length).toBeGreaterThan(1);
+        expect(firstPick.candidates[0]?.teamNumber).toBe(2);
+        const total = firstPick.candidates.reduce((sum, candidate) => sum + candidate.probability, 0);
+        expect(total).toBeLessThanOrEqual(1);
+    });
+});
@@ -0,0 +1,392 @@
+/**
+ * Alliance Selection Draft Simulator - 2026 REBUILT
+ *
+ * Plays out the rest of alliance selection many times to predict who the other
+ * captains take and which of our pick list teams are still on the board when
+ * it's our turn.
+ *
+ * Draft rules follow FRC alliance selection:
+ * - Round 1 goes 1 → N, round 2 goes N → 1, round 3 (championship) goes 1 → N
+ * - An alliance's captain is the highest seed not already on an alliance when
+ *   that alliance first picks, so picking a lower captain moves everyone up
+ * - A team that declines can't be picked again but can still become a captain
+ *
+ * Every other captain scores the board with a value model plus how well each
+ * team covers what the alliance is missing (fuel vs tower), with random noise
+ * so the output is a distribution instead of a single guess. Slots already in
+ * the alliance table are kept as real picks.
+ */
+
+import type { Alliance } from '@/core/lib/allianceTypes';
+import type { TeamStats } from '@/core/types/team-stats';
+import { buildRobotOutcomeModel, createRandom, type RobotMatchContribution, type RobotOutcomeModel } from './matchSimulator';
+import { getSortValue, isAscendingSort, type PickListSortOption } from './pick-list-config';
+
+export type DraftValueModel = 'opr' | 'epa' | 'composite';
+
+export interface DraftTeamProfile {
+    teamNumber: number;
+    /** How good the team is under the chosen value model (higher is better) */
+    value: number;
+    /** Expected fuel points per match */
+    fuelPoints: number;
+    /** Expected tower points per match */
+    towerPoints: number;
+}
+
+export interface AllianceDraftState {
+    /** Alliance table as entered so far */
+    alliances: Alliance[];
+    declinedTeams: number[];
+    /** Qualification seed order, best first */
+    seedOrder: number[];
+    roundCount: 2 | 3;
+    ourTeamNumber?: number | null;
+    /** Our pick list, in order */
+    ourPickList?: number[];
+}
+
+export interface AllianceDraftOptions {
+    iterations?: number;
+    seed?: number;
+    /** Weight on covering the alliance's weak area, relative to raw value (0 = pure value) */
+    complementarityWeight?: number;
+    /** Noise on each captain's scoring; higher spreads picks further down the board */
+    temperature?: number;
+}
+
+export interface DraftCandidateOdds {
+    teamNumber: number;
+    probability: number;
+}
+
+export interface DraftSlotPrediction {
+    round: number;
+    allianceNumber: number;
+    /** Team already entered in the alliance table for this slot */
+    actualTeam: number | null;
+    /** Chance this slot belongs to us */
+    ourTurnProbability: number;
+    /** Most likely picks, best first */
+    candidates: DraftCandidateOdds[];
+}
+
+export interface OurTurnAvailability {
+    round: number;
+    /** Chance we are a captain making this pick */
+    probability: number;
+    /** Most common alliance number we pick from */
+    allianceNumber: number | null;
+    /** Pick list teams in list order with the chance each is still available */
+    teams: DraftCandidateOdds[];
+}
+
+export interface AllianceDraftResult {
+    iterations: number;
+    slots: DraftSlotPrediction[];
+    ourTurns: OurTurnAvailability[];
+    /** Chance another captain picks us */
+    ourPickedProbability: number;
+}
+
+type PickPosition = 'pick1' | 'pick2' | 'pick3';
+
+interface SimAlliance {
+    allianceNumber: number;
+    captain: number | null;
+    picks: (number | null)[];
+}
+
+interface SlotTally {
+    actualTeam: number | null;
+    ourTurns: number;
+    counts: Map<number, number>;
+}
+
+interface OurTurnTally {
+    reached: number;
+    allianceCounts: Map<number, number>;
+    availableCounts: Map<number, number>;
+}
+
+const DEFAULT_ITERATIONS = 500;
+const DEFAULT_COMPLEMENTARITY_WEIGHT = 0.5;
+const DEFAULT_TEMPERATURE = 0.08;
+const CANDIDATES_PER_SLOT = 5;
+const PICK_POSITIONS: PickPosition[] = ['pick1', 'pick2', 'pick3'];
+
+function getMeanContribution(model: RobotOutcomeModel | null): RobotMatchContribution | null {
+    if (!model) {
+        return null;
+    }
+    if (model.kind === 'normal') {
+        return model.mean;
+    }
+    if (model.samples.length === 0) {
+        return null;
+    }
+
+    const total = model.samples.reduce(
+        (sum, sample) => ({
+            fuel: sum.fuel + sample.fuel,
+            fuelPoints: sum.fuelPoints + sample.fuelPoints,
+            towerPoints: sum.towerPoints + sample.towerPoints,
+        }),
+        { fuel: 0, fuelPoints: 0, towerPoints: 0 }
+    );
+    return {
+        fuel: total.fuel / model.samples.length,
+        fuelPoints: total.fuelPoints / model.samples.length,
+        towerPoints: total.towerPoints / model.samples.length,
+    };
+}
+
+/**
+ * Value and fuel/tower profile for every team under the chosen model.
+ * OPR and EPA fall back to scouted averages for teams the model doesn't cover.
+ */
+export function buildDraftTeamProfiles(
+    teamStats: TeamStats[],
+    valueModel: DraftValueModel,
+    compositeSortOption: PickListSortOption = 'totalPoints'
+): DraftTeamProfile[] {
+    return teamStats.map(stats => {
+        const scouted = getMeanContribution(buildRobotOutcomeModel(stats, 'scouted'));
+        const modeled = valueModel === 'composite' ? null : getMeanContribution(buildRobotOutcomeModel(stats, valueModel));
+        const contribution = modeled ?? scouted ?? { fuel: 0, fuelPoints: 0, towerPoints: 0 };
+
+        let value = contribution.fuelPoints + contribution.towerPoints;
+        if (valueModel === 'epa' && typeof stats.statboticsTotalPoints === 'number') {
+            value = stats.statboticsTotalPoints;
+        } else if (valueModel === 'composite') {
+            const sortValue = getSortValue(stats, compositeSortOption);
+            value = isAscendingSort(compositeSortOption) ? -sortValue : sortValue;
+        }
+
+        return {
+            teamNumber: stats.teamNumber,
+            value,
+            fuelPoints: contribution.fuelPoints,
+            towerPoints: contribution.towerPoints,
+        };
+    });
+}
+
+function createNormalizer(values: number[]): (value: number) => number {
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const range = max - min;
+    return value => (range > 0 ? (value - min) / range : 0);
+}
+
+/** Standard Gumbel noise: argmax(score + T·G) is a softmax draw with temperature T */
+function sampleGumbel(random: () => number): number {
+    const u = Math.min(Math.max(random(), 1e-12), 1 - 1e-12);
+    return -Math.log(-Math.log(u));
+}
+
+function getPickOrder(round: number, allianceCount: number): number[] {
+    const ascending = Array.from({ length: allianceCount }, (_, index) => index);
+    return round % 2 === 1 ? ascending : ascending.reverse();
+}
+
+/**
+ * Simulate the rest of alliance selection.
+ *
+ * @param state - Current alliance table, declines, seeds and our pick list
+ * @param profiles - Team profiles from buildDraftTeamProfiles
+ */
+export function simulateAllianceDraft(
+    state: AllianceDraftState,
+    profiles: DraftTeamProfile[],
+    options: AllianceDraftOptions = {}
+): AllianceDraftResult {
+    const iterations = Math.max(1, Math.floor(options.iterations ?? DEFAULT_ITERATIONS));
+    const complementarityWeight = options.complementarityWeight ?? DEFAULT_COMPLEMENTARITY_WEIGHT;
+    const temperature = Math.max(0, options.temperature ?? DEFAULT_TEMPERATURE);
+    const random = createRandom(options.seed ?? Math.floor(Math.random() * 2 ** 32));
+
+    const alliances = [...state.alliances].sort((a, b) => a.allianceNumber - b.allianceNumber);
+    const allianceCount = alliances.length;
+    const ourTeam = state.ourTeamNumber ?? null;
+    const ourPickList = state.ourPickList ?? [];
+    const declined = new Set(state.declinedTeams);
+
+    const profileByTeam = new Map(profiles.map(profile => [profile.teamNumber, profile]));
+    const normalizeValue = createNormalizer(profiles.map(profile => profile.value));
+    const normalizeFuel = createNormalizer(profiles.map(profile => profile.fuelPoints));
+    const normalizeTower = createNormalizer(profiles.map(profile => profile.towerPoints));
+    const traits = new Map(profiles.map(profile => [profile.teamNumber, {
+        value: normalizeValue(profile.value),
+        fuel: normalizeFuel(profile.fuelPoints),
+        tower: normalizeTower(profile.towerPoints),
+    }]));
+    const getTraits = (teamNumber: number) => traits.get(teamNumber) ?? { value: 0, fuel: 0, tower: 0 };
+
+    // Captains only lock in once their alliance has picked; until then the seat follows seed order
+    const lockedAlliances = alliances.map(alliance => alliance.pick1 !== null && alliance.captain !== null);
+    const enteredPicks = new Set<number>();
+    alliances.forEach((alliance, index) => {
+        if (lockedAlliances[index] && alliance.captain !== null) enteredPicks.add(alliance.captain);
+        PICK_POSITIONS.forEach(position => {
+            const teamNumber = alliance[position];
+            if (teamNumber !== null) enteredPicks.add(teamNumber);
+        });
+    });
+
+    const provisionalCaptains = alliances
+        .filter((alliance, index) => !lockedAlliances[index] && alliance.captain !== null)
+        .map(alliance => alliance.captain as number);
+    const valueOrder = [...profiles].sort((a, b) => b.value - a.value).map(profile => profile.teamNumber);
+    const seedQueue = [...new Set([...provisionalCaptains, ...state.seedOrder, ...valueOrder])]
+        .filter(teamNumber => !enteredPicks.has(teamNumber));
+    const boardTeams = [...new Set([...seedQueue, ...profileByTeam.keys()])]
+        .filter(teamNumber => !enteredPicks.has(teamNumber));
+
+    const slotTallies = new Map<string, SlotTally>();
+    const ourTurnTallies = new Map<number, OurTurnTally>();
+    let ourPickedCount = 0;
+    const slotKey = (round: number, allianceNumber: number) => `${round}:${allianceNumber}`;
+
+    for (let round = 1; round <= state.roundCount; round++) {
+        for (const index of getPickOrder(round, allianceCount)) {
+            const alliance = alliances[index]!;
+            const position = PICK_POSITIONS[round - 1]!;
+            slotTallies.set(slotKey(round, alliance.allianceNumber), {
+                actualTeam: alliance[position],
+                ourTurns: 0,
+                counts: new Map(),
+            });
+        }
+    }
+
+    const scoreCandidate = (teamNumber: number, members: number[]) => {
+        const candidate = getTraits(teamNumber);
+        const fuelCovered = Math.max(0, ...members.map(member => getTraits(member).fuel));
+        const towerCovered = Math.max(0, ...members.map(member => getTraits(member).tower));
+        const complement = (candidate.fuel * (1 - Math.min(1, fuelCovered)) + candidate.tower * (1 - Math.min(1, towerCovered))) / 2;
+        return candidate.value + complementarityWeight * complement;
+    };
+
+    for (let iteration = 0; iteration < iterations; iteration++) {
+        const taken = new Set(enteredPicks);
+        let ourAllianceNumber: number | null = null;
+        let seedCursor = 0;
+
+        const simAlliances: SimAlliance[] = alliances.map((alliance, index) => {
+            const captain = lockedAlliances[index] ? alliance.captain : null;
+            if (captain !== null && captain === ourTeam) ourAllianceNumber = alliance.allianceNumber;
+            return {
+                allianceNumber: alliance.allianceNumber,
+                captain,
+                picks: PICK_POSITIONS.map(position => alliance[position]),
+            };
+        });
+        if (ourTeam !== null && ourAllianceNumber === null && enteredPicks.has(ourTeam)) {
+            ourPickedCount += 1;
+        }
+
+        const nextCaptain = (): number | null => {
+            while (seedCursor < seedQueue.length) {
+                const teamNumber = seedQueue[seedCursor++]!;
+                if (!taken.has(teamNumber)) return teamNumber;
+            }
+            return null;
+        };
+
+        for (let round = 1; round <= state.roundCount; round++) {
+            for (const index of getPickOrder(round, allianceCount)) {
+                const alliance = simAlliances[index]!;
+                if (alliance.captain === null) {
+                    alliance.captain = nextCaptain();
+                    if (alliance.captain === null) continue;
+                    taken.add(alliance.captain);
+                    if (alliance.captain === ourTeam) ourAllianceNumber = alliance.allianceNumber;
+                }
+
+                const tally = slotTallies.get(slotKey(round, alliance.allianceNumber))!;
+                const isOurTurn = ourAllianceNumber !== null && alliance.allianceNumber === ourAllianceNumber;
+                if (isOurTurn) tally.ourTurns += 1;
+
+                if (alliance.picks[round - 1] !== null) continue;
+
+                const available = (teamNumber: number) => !taken.has(teamNumber) && !declined.has(teamNumber);
+                let pick: number | null = null;
+
+                if (isOurTurn) {
+                    let ourTally = ourTurnTallies.get(round);
+                    if (!ourTally) {
+                        ourTally = { reached: 0, allianceCounts: new Map(), availableCounts: new Map() };
+                        ourTurnTallies.set(round, ourTally);
+                    }
+                    ourTally.reached += 1;
+                    ourTally.allianceCounts.set(alliance.allianceNumber, (ourTally.allianceCounts.get(alliance.allianceNumber) ?? 0) + 1);
+                    ourPickList.filter(available).forEach(teamNumber => {
+                        ourTally!.availableCounts.set(teamNumber, (ourTally!.availableCounts.get(teamNumber) ?? 0) + 1);
+                    });
+                    // We follow our own list; fall back to the model once it runs dry
+                    pick = ourPickList.find(available) ?? null;
+                }
+
+                if (pick === null) {
+                    const members = [alliance.captain, ...alliance.picks].filter((team): team is number => team !== null);
+                    let bestScore = -Infinity;
+                    for (const teamNumber of boardTeams) {
+                        if (!available(teamNumber)) continue;
+                        const score = scoreCandidate(teamNumber, members) + temperature * sampleGumbel(random);
+                        if (score > bestScore) {
+                            bestScore = score;
+                            pick = teamNumber;
+                        }
+                    }
+                }
+
+                if (pick === null) continue;
+                alliance.picks[round - 1] = pick;
+                taken.add(pick);
+                tally.counts.set(pick, (tally.counts.get(pick) ?? 0) + 1);
+                if (pick === ourTeam && ourAllianceNumber === null) ourPickedCount += 1;
+            }
+        }
+    }
+
+    const slots: DraftSlotPrediction[] = [];
+    for (let round = 1; round <= state.roundCount; round++) {
+        for (const index of getPickOrder(round, allianceCount)) {
+            const allianceNumber = alliances[index]!.allianceNumber;
+            const tally = slotTallies.get(slotKey(round, allianceNumber))!;
+            slots.push({
+                round,
+                allianceNumber,
+                actualTeam: tally.actualTeam,
+                ourTurnProbability: tally.ourTurns / iterations,
+                candidates: [...tally.counts.entries()]
+                    .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+                    .slice(0, CANDIDATES_PER_SLOT)
+                    .map(([teamNumber, count]) => ({ teamNumber, probability: count / iterations })),
+            });
+        }
+    }
+
+    const ourTurns: OurTurnAvailability[] = [...ourTurnTallies.entries()]
+        .sort((a, b) => a[0] - b[0])
+        .map(([round, tally]) => {
+            const mostCommonAlliance = [...tally.allianceCounts.entries()].sort((a, b) => b[1] - a[1])[0];
+            return {
+                round,
+                probability: tally.reached / iterations,
+                allianceNumber: mostCommonAlliance?.[0] ?? null,
+                teams: ourPickList.map(teamNumber => ({
+                    teamNumber,
+                    probability: (tally.availableCounts.get(teamNumber) ?? 0) / tally.reached,
+                })),
+            };
+        });
+
+    return {
+        iterations,
+        slots,
+        ourTurns,
+        ourPickedProbability: ourPickedCount / iterations,
+    };
+}
@@ -21,6 +21,7 @@ import type {
 import { scoringCalculations } from "@/game-template/scoring";
 import type { GameData as CoreGameData } from "@/game-template/scoring";
 import { compareMatchLabels, getDisplayMatchLabel } from "@/game-template/matchLabel";
+import { summarizeTeamCycles } from "@/game-template/calculations";
 import fieldMapRedImage from "@/game-template/assets/2026-field-red.png";
 import fieldMapBlueImage from "@/game-template/assets/2026-field-blue.png";
 
@@ -115,6 +116,17 @@ export interface TeamStatsTemplate extends TeamStats {
     passedToAllianceFromOpponentRate: number;
     passedToNeutralRate: number;
 
+    // Cycle times and time on field (matches scouted with the match clock)
+    cycleMatchCount: number;
+    avgCycleTimeSec: number;
+    fastestCycleTimeSec: number;
+    avgCyclesPerMatch: number;
+    allianceZoneTimeRate: number;
+    neutralZoneTimeRate: number;
+    opponentZoneTimeRate: number;
+    idleTimeRate: number;
+    brokenDownTimeRate: number;
+
     // Start position percentages
     startPositions: Record<string, number>;
 
@@ -245,6 +257,15 @@ export const strategyAnalysis: StrategyAnalysis<ScoutingEntryTemplate> = {
                 passedToAllianceFromNeutralRate: 0,
                 passedToAllianceFromOpponentRate: 0,
                 passedToNeutralRate: 0,
+                cycleMatchCount: 0,
+                avgCycleTimeSec: 0,
+                fastestCycleTimeSec: 0,
+                avgCyclesPerMatch: 0,
+                allianceZoneTimeRate: 0,
+                neutralZoneTimeRate: 0,
+                opponentZoneTimeRate: 0,
+                idleTimeRate: 0,
+                brokenDownTimeRate: 0,
                 startPositions: {},
                 matchResults: [],
                 primaryActiveRole: 'None',
@@ -522,6 +543,8 @@ export const strategyAnalysis: StrategyAnalysis<ScoutingEntryTemplate> = {
             ? Math.round((weightedAccuracyTotal / (accuracySelectionCount * 5)) * 100)
             : 0;
 
+        const cycleSummary = summarizeTeamCycles(includedEntries);
+
         const defenseByTargetAccumulator: Record<string, { attempts: number; very: number; somewhat: number; not: number; }> = {};
         let totalDefenseEvents = 0;
         let veryEffectiveCount = 0;
@@ -741,6 +764,15 @@ export const strategyAnalysis: StrategyAnalysis<ScoutingEntryTemplate> = {
             passedToAllianceFromNeutralRate: Math.round((totals.passedToAllianceFromNeutral / matchCount) * 100),
             passedToAllianceFromOpponentRate: Math.round((totals.passedToAllianceFromOpponent / matchCount) * 100),
             passedToNeutralRate: Math.round((totals.passedToNeutral / matchCount) * 100),
+            cycleMatchCount: cycleSummary.matchesAnalyzed,
+            avgCycleTimeSec: cycleSummary.avgCycleTimeSec,
+            fastestCycleTimeSec: cycleSummary.fastestCycleTimeSec,
+            avgCyclesPerMatch: cycleSummary.avgCyclesPerMatch,
+            allianceZoneTimeRate: cycleSummary.allianceZoneTimeRate,
+            neutralZoneTimeRate: cycleSummary.neutralZoneTimeRate,
+            opponentZoneTimeRate: cycleSummary.opponentZoneTimeRate,
+            idleTimeRate: cycleSummary.idleTimeRate,
+            brokenDownTimeRate: cycleSummary.brokenDownTimeRate,
             accuracyAllRate: Math.round((totals.accuracyAll / matchCount) * 100),
             accuracyMostRate: Math.round((totals.accuracyMost / matchCount) * 100),
             accuracySomeRate: Math.round((totals.accuracySome / matchCount) * 100),
@@ -900,6 +932,18 @@ export const strategyAnalysis: StrategyAnalysis<ScoutingEntryTemplate> = {
                     { key: 'avgTeleopClimbStartTimeSec', label: 'Avg Start Time', type: 'number', color: 'orange', subtitle: 'seconds remaining' },
                 ],
             },
+            {
+                id: 'cycle-times',
+                title: 'Cycle Times',
+                tab: 'scoring',
+                columns: 2,
+                stats: [
+                    { key: 'avgCycleTimeSec', label: 'Avg Cycle Time', type: 'number', color: 'blue', subtitle: 'seconds, pickup or last volley to score' },
+                    { key: 'fastestCycleTimeSec', label: 'Fastest Cycle', type: 'number', color: 'green', subtitle: 'seconds' },
+                    { key: 'avgCyclesPerMatch', label: 'Cycles', type: 'number', color: 'purple', subtitle: 'avg per match' },
+                    { key: 'cycleMatchCount', label: 'Timed Matches', type: 'number', color: 'slate', subtitle: 'scouted with the match clock' },
+                ],
+            },
         ];
     },
 
@@ -951,6 +995,18 @@ export const strategyAnalysis: StrategyAnalysis<ScoutingEntryTemplate> = {
                     { key: 'roleInactiveDefenseRate', label: 'Defense' },
                 ],
             },
+            {
+                id: 'time-on-field',
+                title: 'Time on Field',
+                tab: 'performance',
+                rates: [
+                    { key: 'allianceZoneTimeRate', label: 'In Alliance Zone' },
+                    { key: 'neutralZoneTimeRate', label: 'In Neutral Zone' },
+                    { key: 'opponentZoneTimeRate', label: 'In Opponent Zone' },
+                    { key: 'idleTimeRate', label: 'Idle' },
+                    { key: 'brokenDownTimeRate', label: 'Broken Down' },
+                ],
+            },
             {
                 id: 'other-metrics',
                 title: 'Other Metrics',
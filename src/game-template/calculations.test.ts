@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import type { ScoutingEntry } from './scoring';
+import { analyzeMatchCycles, summarizeTeamCycles } from './calculations';
+
+type Waypoint = { type: string; matchTime?: number; zone?: string };
+
+function entry(autoPath: Waypoint[], teleopPath: Waypoint[], teleopBrokenDownMs = 0): ScoutingEntry {
+    return {
+        id: 'test',
+        teamNumber: 1,
+        matchNumber: 1,
+        allianceColor: 'red',
+        scoutName: 'Ann',
+        eventKey: '2026test',
+        timestamp: 0,
+        gameData: {
+            auto: { autoPath },
+            teleop: { teleopPath, brokenDownDuration: teleopBrokenDownMs },
+            endgame: {},
+        },
+    } as unknown as ScoutingEntry;
+}
+
+describe('analyzeMatchCycles', () => {
+    it('skips matches scouted without the match clock', () => {
+        expect(analyzeMatchCycles(entry([{ type: 'score' }], []))).toBeNull();
+    });
+
+    it('times cycles from the first pickup, then volley to volley', () => {
+        const analysis = analyzeMatchCycles(entry(
+            [
+                { type: 'start', matchTime: 0 },
+                { type: 'score', matchTime: 2 },
+                { type: 'collect', matchTime: 8 },
+                { type: 'score', matchTime: 14 },
+            ],
+            [
+                { type: 'score', matchTime: 30, zone: 'allianceZone' },
+                // Same volley - no pickup in between
+                { type: 'score', matchTime: 32, zone: 'allianceZone' },
+                { type: 'score', matchTime: 50, zone: 'allianceZone' },
+            ]
+        ))!;
+
+        // The preload volley at 2s has no pickup before it
+        expect(analysis.cycles.map(cycle => [cycle.startSec, cycle.endSec, cycle.startType])).toEqual([
+            [2, 14, 'score'],
+            [14, 30, 'score'],
+            [32, 50, 'score'],
+        ]);
+    });
+
+    it('splits the match across zones, counting long gaps as idle', () => {
+        const analysis = analyzeMatchCycles(entry(
+            [
+                { type: 'start', matchTime: 0 },
+                { type: 'traversal', matchTime: 5 },
+                { type: 'traversal', matchTime: 15 },
+            ],
+            [
+                { type: 'steal', matchTime: 40, zone: 'opponentZone' },
+                { type: 'score', matchTime: 60 },
+            ],
+            30_000
+        ))!;
+
+        expect(analysis.zoneSeconds).toEqual({ allianceZone: 5 + 25 + 100, neutralZone: 10, opponentZone: 20 });
+        // Gaps of 25s, 20s and 100s, less 30s broken down
+        expect(analysis.brokenDownSec).toBe(30);
+        expect(analysis.idleSec).toBe(115);
+    });
+});
+
+describe('summarizeTeamCycles', () => {
+    it('averages clock-stamped matches and reports breakdowns for all matches', () => {
+        const summary = summarizeTeamCycles([
+            entry([{ type: 'collect', matchTime: 1 }, { type: 'score', matchTime: 11 }], [{ type: 'score', matchTime: 31 }]),
+            entry([{ type: 'score' }], [], 16_000),
+        ]);
+
+        expect(summary.matchesAnalyzed).toBe(1);
+        expect(summary.avgCycleTimeSec).toBe(15);
+        expect(summary.fastestCycleTimeSec).toBe(10);
+        expect(summary.avgCyclesPerMatch).toBe(2);
+        expect(summary.cycleTimesSec).toEqual([15]);
+        expect(summary.brokenDownTimeRate).toBe(5);
+    });
+});
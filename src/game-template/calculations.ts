@@ -12,6 +12,8 @@ import type { ScoutingEntry } from "@/game-template/scoring";
 import type { TeamStats } from "@/core/types/team-stats";
 import { scoringCalculations } from "./scoring";
 import { millisecondsToSeconds } from "./duration";
+import { gameConstants } from "./game-schema";
+import { collectCustomFieldRawValues } from "@/core/lib/customForm";
 
 // Helper functions
 const sum = <T>(arr: T[], fn: (item: T) => number): number =>
@@ -40,28 +42,232 @@ const getStartPositionIndex = (positionLabel?: string): number => {
     return index;
 };
 
+export interface TeamStatsOptions {
+    /**
+     * Relative weight of each entry in the per-match point and fuel averages
+     * (e.g. from scout reliability). Defaults to 1; counts and rates stay unweighted.
+     */
+    entryWeight?: (entry: ScoutingEntry) => number;
+}
+
+// ============================================================================
+// CYCLE ANALYSIS (match-clock waypoints)
+// ============================================================================
+
+/** Scores this close together with no pickup between are one volley, not separate cycles */
+const SCORE_VOLLEY_GAP_SEC = 3;
+
+/** Stretches with no recorded action longer than this count as idle */
+const IDLE_GAP_SEC = 15;
+
+export type CycleZone = 'allianceZone' | 'neutralZone' | 'opponentZone';
+
+export interface MatchCycle {
+    startSec: number;
+    endSec: number;
+    durationSec: number;
+    /** A pickup starts the first cycle; later cycles run from the previous volley */
+    startType: 'collect' | 'steal' | 'score';
+}
+
+export interface MatchCycleAnalysis {
+    cycles: MatchCycle[];
+    zoneSeconds: Record<CycleZone, number>;
+    idleSec: number;
+    brokenDownSec: number;
+    matchSec: number;
+}
+
+export interface TeamCycleSummary {
+    /** Matches scouted with the match clock; cycle and zone stats only cover these */
+    matchesAnalyzed: number;
+    avgCycleTimeSec: number;
+    fastestCycleTimeSec: number;
+    avgCyclesPerMatch: number;
+    allianceZoneTimeRate: number;
+    neutralZoneTimeRate: number;
+    opponentZoneTimeRate: number;
+    idleTimeRate: number;
+    /** From the broken-down timers, so it covers every match */
+    brokenDownTimeRate: number;
+    /** Average cycle time of each analyzed match that had a cycle */
+    cycleTimesSec: number[];
+    cyclesPerMatch: number[];
+}
+
+interface TimedWaypoint {
+    type: string;
+    matchTime: number;
+    zone?: CycleZone;
+}
+
+const isCycleZone = (zone: unknown): zone is CycleZone =>
+    zone === 'allianceZone' || zone === 'neutralZone' || zone === 'opponentZone';
+
+const getTimedWaypoints = (path: unknown): TimedWaypoint[] => {
+    if (!Array.isArray(path)) return [];
+
+    return path.flatMap((waypoint) => {
+        if (!waypoint || typeof waypoint !== 'object') return [];
+        const record = waypoint as Record<string, unknown>;
+        if (typeof record.type !== 'string' || typeof record.matchTime !== 'number') return [];
+
+        return [{
+            type: record.type,
+            matchTime: record.matchTime,
+            zone: isCycleZone(record.zone) ? record.zone : undefined,
+        }];
+    });
+};
+
+const getBrokenDownSec = (entry: ScoutingEntry): number =>
+    millisecondsToSeconds(val(entry.gameData?.auto?.brokenDownDuration))
+    + millisecondsToSeconds(val(entry.gameData?.teleop?.brokenDownDuration));
+
+/**
+ * Derive cycles, time in each zone and idle time from one match's auto and
+ * teleop waypoints. Returns null when the match was scouted without the match
+ * clock (no waypoint has a `matchTime`).
+ *
+ * Zones come from the waypoint when it has one, otherwise scores and climbs
+ * place the robot in its alliance zone and auto traversals toggle between the
+ * alliance and neutral zones. Each stretch between actions is counted in the
+ * zone of the action that started it.
+ */
+export const analyzeMatchCycles = (entry: ScoutingEntry): MatchCycleAnalysis | null => {
+    const matchSec = gameConstants.totalDuration;
+    const waypoints = [
+        ...getTimedWaypoints(entry.gameData?.auto?.autoPath),
+        ...getTimedWaypoints(entry.gameData?.teleop?.teleopPath),
+    ]
+        .filter(waypoint => waypoint.matchTime <= matchSec)
+        .sort((a, b) => a.matchTime - b.matchTime);
+
+    if (waypoints.length === 0) return null;
+
+    const cycles: MatchCycle[] = [];
+    const zoneSeconds: Record<CycleZone, number> = { allianceZone: 0, neutralZone: 0, opponentZone: 0 };
+    let zone: CycleZone = 'allianceZone';
+    let lastSec = 0;
+    let gapIdleSec = 0;
+    let cycleStart: Pick<MatchCycle, 'startSec' | 'startType'> | null = null;
+    let lastScoreSec: number | null = null;
+    let pickedUpSinceScore = false;
+
+    const advanceTo = (sec: number) => {
+        const gap = sec - lastSec;
+        zoneSeconds[zone] += gap;
+        if (gap > IDLE_GAP_SEC) gapIdleSec += gap;
+        lastSec = sec;
+    };
+
+    waypoints.forEach((waypoint) => {
+        const sec = waypoint.matchTime;
+        advanceTo(sec);
+
+        if (waypoint.zone) {
+            zone = waypoint.zone;
+        } else if (waypoint.type === 'score' || waypoint.type === 'climb') {
+            zone = 'allianceZone';
+        } else if (waypoint.type === 'traversal') {
+            zone = zone === 'allianceZone' ? 'neutralZone' : 'allianceZone';
+        }
+
+        if (waypoint.type === 'collect' || waypoint.type === 'steal') {
+            cycleStart ??= { startSec: sec, startType: waypoint.type };
+            pickedUpSinceScore = true;
+        } else if (waypoint.type === 'score') {
+            const sameVolley = lastScoreSec !== null
+                && !pickedUpSinceScore
+                && sec - lastScoreSec <= SCORE_VOLLEY_GAP_SEC;
+
+            if (!sameVolley && cycleStart) {
+                cycles.push({ ...cycleStart, endSec: sec, durationSec: round(sec - cycleStart.startSec) });
+            }
+            cycleStart = { startSec: sec, startType: 'score' };
+            lastScoreSec = sec;
+            pickedUpSinceScore = false;
+        }
+    });
+    advanceTo(matchSec);
+
+    const brokenDownSec = Math.min(matchSec, getBrokenDownSec(entry));
+
+    return {
+        cycles,
+        zoneSeconds,
+        // Breakdowns show up as gaps too; count them once, as broken down
+        idleSec: round(Math.max(0, gapIdleSec - brokenDownSec)),
+        brokenDownSec: round(brokenDownSec),
+        matchSec,
+    };
+};
+
+/**
+ * Combine per-match cycle analyses into a team's cycle-time and time-on-field stats.
+ */
+export const summarizeTeamCycles = (teamMatches: ScoutingEntry[]): TeamCycleSummary => {
+    const analyses = teamMatches
+        .map(analyzeMatchCycles)
+        .filter((analysis): analysis is MatchCycleAnalysis => analysis !== null);
+    const cycleDurations = analyses.flatMap(analysis => analysis.cycles.map(cycle => cycle.durationSec));
+    const analyzedSec = sum(analyses, analysis => analysis.matchSec);
+    const timeRate = (seconds: number) => analyzedSec > 0 ? Math.round((seconds / analyzedSec) * 100) : 0;
+    const brokenDownSec = sum(teamMatches, m => Math.min(gameConstants.totalDuration, getBrokenDownSec(m)));
+
+    return {
+        matchesAnalyzed: analyses.length,
+        avgCycleTimeSec: round(avg(cycleDurations)),
+        fastestCycleTimeSec: cycleDurations.length > 0 ? round(Math.min(...cycleDurations)) : 0,
+        avgCyclesPerMatch: round(avg(analyses.map(analysis => analysis.cycles.length))),
+        allianceZoneTimeRate: timeRate(sum(analyses, analysis => analysis.zoneSeconds.allianceZone)),
+        neutralZoneTimeRate: timeRate(sum(analyses, analysis => analysis.zoneSeconds.neutralZone)),
+        opponentZoneTimeRate: timeRate(sum(analyses, analysis => analysis.zoneSeconds.opponentZone)),
+        idleTimeRate: timeRate(sum(analyses, analysis => analysis.idleSec)),
+        brokenDownTimeRate: teamMatches.length > 0
+            ? Math.round((brokenDownSec / (teamMatches.length * gameConstants.totalDuration)) * 100)
+            : 0,
+        cycleTimesSec: analyses
+            .filter(analysis => analysis.cycles.length > 0)
+            .map(analysis => round(avg(analysis.cycles.map(cycle => cycle.durationSec)))),
+        cyclesPerMatch: analyses.map(analysis => analysis.cycles.length),
+    };
+};
+
 /**
  * Calculate all statistics for a single team from their match entries.
  * Returns a complete TeamStats object with all metrics.
  */
-export const calculateTeamStats = (teamMatches: ScoutingEntry[]): Omit<TeamStats, 'teamNumber' | 'eventKey'> => {
+export const calculateTeamStats = (
+    teamMatches: ScoutingEntry[],
+    options: TeamStatsOptions = {}
+): Omit<TeamStats, 'teamNumber' | 'eventKey'> => {
     if (teamMatches.length === 0) {
         return getEmptyStats();
     }
 
     const matchCount = teamMatches.length;
 
+    // Weighted totals divided by weightTotal give weighted per-match averages;
+    // without weights they are plain sums over matchCount
+    const rawWeights = teamMatches.map(m => Math.max(0, options.entryWeight?.(m) ?? 1));
+    const rawWeightTotal = rawWeights.reduce((acc, weight) => acc + weight, 0);
+    const weights = rawWeightTotal > 0 ? rawWeights : teamMatches.map(() => 1);
+    const weightTotal = rawWeightTotal > 0 ? rawWeightTotal : matchCount;
+    const weightedSum = (fn: (item: ScoutingEntry) => number): number =>
+        teamMatches.reduce((acc, item, index) => acc + fn(item) * (weights[index] ?? 1), 0);
+
     // ============================================================================
     // POINT CALCULATIONS (using centralized scoring)
     // ============================================================================
 
-    const totalAutoPoints = sum(teamMatches, m =>
+    const totalAutoPoints = weightedSum(m =>
         scoringCalculations.calculateAutoPoints({ gameData: m.gameData } as any)
     );
-    const totalTeleopPoints = sum(teamMatches, m =>
+    const totalTeleopPoints = weightedSum(m =>
         scoringCalculations.calculateTeleopPoints({ gameData: m.gameData } as any)
     );
-    const totalEndgamePoints = sum(teamMatches, m =>
+    const totalEndgamePoints = weightedSum(m =>
         scoringCalculations.calculateEndgamePoints({ gameData: m.gameData } as any)
     );
     const totalPoints = totalAutoPoints + totalTeleopPoints + totalEndgamePoints;
@@ -71,20 +277,20 @@ export const calculateTeamStats = (teamMatches: ScoutingEntry[]): Omit<TeamStats
     // ============================================================================
 
     // Auto fuel
-    const autoFuelTotal = sum(teamMatches, m =>
+    const autoFuelTotal = weightedSum(m =>
         val(m.gameData?.auto?.fuelScoredCount)
     );
 
-    const autoFuelPassedTotal = sum(teamMatches, m =>
+    const autoFuelPassedTotal = weightedSum(m =>
         val(m.gameData?.auto?.fuelPassedCount)
     );
 
     // Teleop fuel
-    const teleopFuelTotal = sum(teamMatches, m =>
+    const teleopFuelTotal = weightedSum(m =>
         val(m.gameData?.teleop?.fuelScoredCount)
     );
 
-    const teleopFuelPassedTotal = sum(teamMatches, m =>
+    const teleopFuelPassedTotal = weightedSum(m =>
         val(m.gameData?.teleop?.fuelPassedCount)
     );
 
@@ -366,6 +572,9 @@ export const calculateTeamStats = (teamMatches: ScoutingEntry[]): Omit<TeamStats
     const topInactiveRoles = inactiveRoles.filter(r => r.count === maxInactiveCount && r.count > 0);
     const primaryInactiveRole = topInactiveRoles.length > 0 ? topInactiveRoles.map(r => r.name).join(' / ') : 'None';
 
+    // Cycle times and time on field (matches scouted with the match clock)
+    const cycleSummary = summarizeTeamCycles(teamMatches);
+
     const autoClimbLocationAttemptCount = autoClimbFromSideCount + autoClimbFromMiddleCount;
     const autoClimbAttemptCount = Math.max(autoClimbCount, autoClimbLocationAttemptCount);
 
@@ -457,6 +666,13 @@ export const calculateTeamStats = (teamMatches: ScoutingEntry[]): Omit<TeamStats
         endgameClimbStartTimeSec: teamMatches
             .map(m => m.gameData?.teleop?.teleopClimbStartTimeSecRemaining)
             .filter((time): time is number => typeof time === 'number'),
+
+        // Cycles - include only matches scouted with the match clock
+        cycleTimeSec: cycleSummary.cycleTimesSec,
+        cyclesPerMatch: cycleSummary.cyclesPerMatch,
+
+        // In-app custom form answers (custom_<fieldKey>)
+        ...collectCustomFieldRawValues(teamMatches.map(m => m.gameData)),
     };
 
     // ============================================================================
@@ -467,40 +683,40 @@ export const calculateTeamStats = (teamMatches: ScoutingEntry[]): Omit<TeamStats
         matchCount,
 
         // Aggregate scores
-        totalPoints: round(totalPoints / matchCount),
-        autoPoints: round(totalAutoPoints / matchCount),
-        teleopPoints: round(totalTeleopPoints / matchCount),
-        endgamePoints: round(totalEndgamePoints / matchCount),
+        totalPoints: round(totalPoints / weightTotal),
+        autoPoints: round(totalAutoPoints / weightTotal),
+        teleopPoints: round(totalTeleopPoints / weightTotal),
+        endgamePoints: round(totalEndgamePoints / weightTotal),
 
         // Top-level convenience fields (for match-strategy-config.ts compatibility)
-        avgTotalPoints: round(totalPoints / matchCount),
-        avgAutoPoints: round(totalAutoPoints / matchCount),
-        avgTeleopPoints: round(totalTeleopPoints / matchCount),
-        avgEndgamePoints: round(totalEndgamePoints / matchCount),
-        avgAutoFuel: round(autoFuelTotal / matchCount),
-        avgTeleopFuel: round(teleopFuelTotal / matchCount),
-        avgAutoFuelPassed: round(autoFuelPassedTotal / matchCount),
-        avgTeleopFuelPassed: round(teleopFuelPassedTotal / matchCount),
-        avgFuelPassed: round(totalFuelPassed / matchCount),
-        avgTotalFuel: round(totalFuelScored / matchCount),
+        avgTotalPoints: round(totalPoints / weightTotal),
+        avgAutoPoints: round(totalAutoPoints / weightTotal),
+        avgTeleopPoints: round(totalTeleopPoints / weightTotal),
+        avgEndgamePoints: round(totalEndgamePoints / weightTotal),
+        avgAutoFuel: round(autoFuelTotal / weightTotal),
+        avgTeleopFuel: round(teleopFuelTotal / weightTotal),
+        avgAutoFuelPassed: round(autoFuelPassedTotal / weightTotal),
+        avgTeleopFuelPassed: round(teleopFuelPassedTotal / weightTotal),
+        avgFuelPassed: round(totalFuelPassed / weightTotal),
+        avgTotalFuel: round(totalFuelScored / weightTotal),
         avgScaledAutoFuel: round(
-            sum(teamMatches, m => {
+            weightedSum(m => {
                 const scaledMetrics = m.gameData?.scaledMetrics as { scaledAutoFuel?: number } | undefined;
                 return typeof scaledMetrics?.scaledAutoFuel === 'number'
                     ? scaledMetrics.scaledAutoFuel
                     : val(m.gameData?.auto?.fuelScoredCount);
-            }) / matchCount
+            }) / weightTotal
         ),
         avgScaledTeleopFuel: round(
-            sum(teamMatches, m => {
+            weightedSum(m => {
                 const scaledMetrics = m.gameData?.scaledMetrics as { scaledTeleopFuel?: number } | undefined;
                 return typeof scaledMetrics?.scaledTeleopFuel === 'number'
                     ? scaledMetrics.scaledTeleopFuel
                     : val(m.gameData?.teleop?.fuelScoredCount);
-            }) / matchCount
+            }) / weightTotal
         ),
         avgScaledTotalFuel: round(
-            sum(teamMatches, m => {
+            weightedSum(m => {
                 const scaledMetrics = m.gameData?.scaledMetrics as {
                     scaledAutoFuel?: number;
                     scaledTeleopFuel?: number;
@@ -514,7 +730,7 @@ export const calculateTeamStats = (teamMatches: ScoutingEntry[]): Omit<TeamStats
                     : val(m.gameData?.teleop?.fuelScoredCount);
 
                 return scaledAuto + scaledTeleop;
-            }) / matchCount
+            }) / weightTotal
         ),
         fuelAutoOPR: 0,
         fuelTeleopOPR: 0,
@@ -541,6 +757,15 @@ export const calculateTeamStats = (teamMatches: ScoutingEntry[]): Omit<TeamStats
         climbSuccessRate: percent(climbSuccessCount, teleopClimbAttemptCount),
         brokeDownCount,
         noShowCount,
+        cycleMatchCount: cycleSummary.matchesAnalyzed,
+        avgCycleTimeSec: cycleSummary.avgCycleTimeSec,
+        fastestCycleTimeSec: cycleSummary.fastestCycleTimeSec,
+        avgCyclesPerMatch: cycleSummary.avgCyclesPerMatch,
+        allianceZoneTimeRate: cycleSummary.allianceZoneTimeRate,
+        neutralZoneTimeRate: cycleSummary.neutralZoneTimeRate,
+        opponentZoneTimeRate: cycleSummary.opponentZoneTimeRate,
+        idleTimeRate: cycleSummary.idleTimeRate,
+        brokenDownTimeRate: cycleSummary.brokenDownTimeRate,
         accuracyAllRate: percent(accuracyAllCount, matchCount),
         accuracyMostRate: percent(accuracyMostCount, matchCount),
         accuracySomeRate: percent(accuracySomeCount, matchCount),
@@ -573,25 +798,25 @@ export const calculateTeamStats = (teamMatches: ScoutingEntry[]): Omit<TeamStats
 
         // Overall phase
         overall: {
-            avgTotalPoints: round(totalPoints / matchCount),
-            totalPiecesScored: round(totalPieces / matchCount),
-            avgGamePiece1: round(totalFuelScored / matchCount),  // Fuel scored
-            avgGamePiece2: round(totalFuelPassed / matchCount),  // Fuel passed
+            avgTotalPoints: round(totalPoints / weightTotal),
+            totalPiecesScored: round(totalPieces / weightTotal),
+            avgGamePiece1: round(totalFuelScored / weightTotal),  // Fuel scored
+            avgGamePiece2: round(totalFuelPassed / weightTotal),  // Fuel passed
             // 2026-specific
-            avgFuelScored: round(totalFuelScored / matchCount),
-            avgFuelPassed: round(totalFuelPassed / matchCount),
+            avgFuelScored: round(totalFuelScored / weightTotal),
+            avgFuelPassed: round(totalFuelPassed / weightTotal),
         },
 
         // Auto phase
         auto: {
-            avgPoints: round(totalAutoPoints / matchCount),
-            avgGamePiece1: round(autoFuelTotal / matchCount),     // Auto fuel
-            avgGamePiece2: round(autoFuelPassedTotal / matchCount), // Auto passed
+            avgPoints: round(totalAutoPoints / weightTotal),
+            avgGamePiece1: round(autoFuelTotal / weightTotal),     // Auto fuel
+            avgGamePiece2: round(autoFuelPassedTotal / weightTotal), // Auto passed
             mobilityRate: 0, // Not applicable in 2026
             autoClimbRate: percent(autoClimbCount, matchCount),
             autoClimbFromSideRate: percent(autoClimbFromSideCount, matchCount),
             autoClimbFromMiddleRate: percent(autoClimbFromMiddleCount, matchCount),
-            avgFuelScored: round(autoFuelTotal / matchCount),
+            avgFuelScored: round(autoFuelTotal / weightTotal),
             shotOnTheMoveRate: percent(autoShotOnTheMoveTotal, autoShotTypeTotal),
             shotStationaryRate: percent(autoShotStationaryTotal, autoShotTypeTotal),
             startPositions,
@@ -604,11 +829,11 @@ export const calculateTeamStats = (teamMatches: ScoutingEntry[]): Omit<TeamStats
 
         // Teleop phase
         teleop: {
-            avgPoints: round(totalTeleopPoints / matchCount),
-            avgGamePiece1: round(teleopFuelTotal / matchCount),     // Teleop fuel
-            avgGamePiece2: round(teleopFuelPassedTotal / matchCount), // Teleop passed
-            avgFuelScored: round(teleopFuelTotal / matchCount),
-            avgFuelPassed: round(teleopFuelPassedTotal / matchCount),
+            avgPoints: round(totalTeleopPoints / weightTotal),
+            avgGamePiece1: round(teleopFuelTotal / weightTotal),     // Teleop fuel
+            avgGamePiece2: round(teleopFuelPassedTotal / weightTotal), // Teleop passed
+            avgFuelScored: round(teleopFuelTotal / weightTotal),
+            avgFuelPassed: round(teleopFuelPassedTotal / weightTotal),
             shotOnTheMoveRate: percent(teleopShotOnTheMoveTotal, teleopShotTypeTotal),
             shotStationaryRate: percent(teleopShotStationaryTotal, teleopShotTypeTotal),
             defenseRate: percent(defenseCount, matchCount),
@@ -623,7 +848,7 @@ export const calculateTeamStats = (teamMatches: ScoutingEntry[]): Omit<TeamStats
 
         // Endgame phase - tower climbing
         endgame: {
-            avgPoints: round(totalEndgamePoints / matchCount),
+            avgPoints: round(totalEndgamePoints / weightTotal),
             // Climb rates
             climbL1Rate: percent(climbL1Count, climbAttemptL1Count),
             climbL2Rate: percent(climbL2Count, climbAttemptL2Count),
@@ -741,6 +966,8 @@ function getEmptyStats(): Omit<TeamStats, 'teamNumber' | 'eventKey'> {
             scaledTotalFuel: [],
             autoClimbStartTimeSec: [],
             endgameClimbStartTimeSec: [],
+            cycleTimeSec: [],
+            cyclesPerMatch: [],
         },
         avgScaledAutoFuel: 0,
         avgScaledTeleopFuel: 0,
@@ -761,6 +988,15 @@ function getEmptyStats(): Omit<TeamStats, 'teamNumber' | 'eventKey'> {
         teleopShotStationaryRate: 0,
         brokeDownCount: 0,
         noShowCount: 0,
+        cycleMatchCount: 0,
+        avgCycleTimeSec: 0,
+        fastestCycleTimeSec: 0,
+        avgCyclesPerMatch: 0,
+        allianceZoneTimeRate: 0,
+        neutralZoneTimeRate: 0,
+        opponentZoneTimeRate: 0,
+        idleTimeRate: 0,
+        brokenDownTimeRate: 0,
         accuracyAllRate: 0,
         accuracyMostRate: 0,
         accuracySomeRate: 0,
@@ -1206,6 +1206,7 @@ function AutoFieldMapContent({
                 onProceed={recordingMode ? undefined : proceedToTeleop}
                 highlightProceed={shouldPulseAutoBorder}
                 proceedCountdownSeconds={autoCueCountdownSeconds}
+                showMatchClock={!recordingMode}
                 toggleFieldOrientation={toggleFieldOrientation}
                 isBrokenDown={isBrokenDown}
                 onBrokenDownToggle={recordingMode ? undefined : handleBrokenDownToggle}
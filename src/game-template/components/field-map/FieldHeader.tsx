@@ -31,6 +31,7 @@ import { Maximize2, Minimize2, Undo2, ChevronLeft, ArrowRight, RotateCw, AlertTr
 import { cn } from '@/core/lib/utils';
 import { shouldAllowProceed, DEFAULT_PROCEED_DEBOUNCE_MS } from '@/core/lib/proceedDebounce';
 import type { ZoneType } from './types';
+import { MatchClockBadge } from './MatchClockBadge';
 import { useState } from 'react';
 
 // =============================================================================
@@ -92,6 +93,9 @@ export interface FieldHeaderProps {
     // Optional UI behavior flags
     hideOverflowMenu?: boolean;
     prominentFullscreenControl?: boolean;
+
+    // Show the match clock (hidden until the clock is started)
+    showMatchClock?: boolean;
 }
 
 // =============================================================================
@@ -171,6 +175,7 @@ export function FieldHeader({
     hideOverflowMenu = false,
     prominentFullscreenControl = false,
     customActionSlot,
+    showMatchClock = false,
 }: FieldHeaderProps) {
     const phaseLabel = phase === 'auto' ? 'Autonomous' : 'Teleop';
     const proceedLabel = phase === 'auto' ? 'Teleop' : 'Post Match';
@@ -272,6 +277,8 @@ export function FieldHeader({
             <div className="flex items-center gap-1 pl-4">
                 {customActionSlot}
 
+                {showMatchClock && <MatchClockBadge />}
+
                 {/* Broken Down Button - Always visible */}
                 {onBrokenDownToggle && (
                     <Button
@@ -0,0 +1,82 @@
+/**
+ * MatchClockBadge - Match clock shown in the Auto and Teleop field map headers
+ *
+ * Shows the time left in the current period, like the arena display, so scouts
+ * can spot drift and nudge the clock. Waypoints are stamped from the same clock
+ * (see core/lib/matchClock).
+ */
+
+import { Button } from '@/core/components/ui/button';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from '@/core/components/ui/dropdown-menu';
+import { Pause, Play, Timer } from 'lucide-react';
+import { cn } from '@/core/lib/utils';
+import { formatMatchClock } from '@/core/lib/matchClock';
+import { useMatchClock } from '@/core/hooks/useMatchClock';
+import { AUTO_PHASE_DURATION_MS, TELEOP_PHASE_DURATION_MS } from '@/game-template/constants';
+
+const ADJUSTMENTS_MS = [-5000, -1000, 1000, 5000] as const;
+
+export function MatchClockBadge() {
+    const { clock, elapsedMs, isPaused, pause, resume, adjust } = useMatchClock();
+
+    if (!clock) {
+        return null;
+    }
+
+    const inAuto = elapsedMs < AUTO_PHASE_DURATION_MS;
+    const remainingMs = inAuto
+        ? AUTO_PHASE_DURATION_MS - elapsedMs
+        : AUTO_PHASE_DURATION_MS + TELEOP_PHASE_DURATION_MS - elapsedMs;
+
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+                <Button
+                    variant="outline"
+                    size="sm"
+                    className={cn(
+                        "h-8 px-2 text-[10px] md:text-xs font-bold tabular-nums gap-1",
+                        isPaused && "animate-pulse border-amber-400 text-amber-700 dark:text-amber-300"
+                    )}
+                    title="Match clock"
+                >
+                    {isPaused ? <Pause className="h-3 w-3" /> : <Timer className="h-3 w-3" />}
+                    <span>{inAuto ? 'A' : 'T'} {formatMatchClock(Math.max(0, remainingMs) + 999)}</span>
+                </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+                <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+                    Match time {formatMatchClock(elapsedMs)}
+                </DropdownMenuLabel>
+                <DropdownMenuItem onSelect={isPaused ? resume : pause}>
+                    {isPaused ? <Play className="mr-2 h-4 w-4" /> : <Pause className="mr-2 h-4 w-4" />}
+                    {isPaused ? 'Resume clock' : 'Pause clock'}
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+                    Match is ahead (+) or behind (−) the clock
+                </DropdownMenuLabel>
+                <div className="grid grid-cols-4 gap-1 px-1 pb-1">
+                    {ADJUSTMENTS_MS.map((deltaMs) => (
+                        <Button
+                            key={deltaMs}
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 text-xs"
+                            onClick={() => adjust(deltaMs)}
+                        >
+                            {deltaMs > 0 ? '+' : '−'}{Math.abs(deltaMs) / 1000}s
+                        </Button>
+                    ))}
+                </div>
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+}
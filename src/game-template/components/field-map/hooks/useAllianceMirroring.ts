@@ -2,7 +2,8 @@
  * Hook for alliance-aware coordinate mirroring
  * 
  * All canonical coordinates are stored in blue alliance perspective (left side = alliance zone).
- * For red alliance, visual X is mirrored: visualX = 1 - canonicalX
+ * The field is rotationally symmetric, so for red alliance both axes are mirrored
+ * (visualX = 1 - canonicalX, visualY = 1 - canonicalY), matching FieldCanvas.
  * This hook provides helpers to convert between canonical and visual coordinates.
  */
 
@@ -21,6 +22,11 @@ export interface AllianceMirroringHelpers {
      */
     getCanonicalX: (visualX: number) => number;
 
+    /**
+     * Convert canonical Y to visual Y based on alliance (its own inverse)
+     */
+    getVisualY: (canonicalY: number) => number;
+
     /**
      * Convert a full position from canonical to visual
      */
@@ -43,21 +49,26 @@ export function useAllianceMirroring(alliance: 'red' | 'blue'): AllianceMirrorin
         [alliance]
     );
 
+    const getVisualY = useCallback(
+        (canonicalY: number) => (alliance === 'red' ? 1 - canonicalY : canonicalY),
+        [alliance]
+    );
+
     const toVisualPosition = useCallback(
         (pos: { x: number; y: number }) => ({
             x: getVisualX(pos.x),
-            y: pos.y,
+            y: getVisualY(pos.y),
         }),
-        [getVisualX]
+        [getVisualX, getVisualY]
     );
 
     const toCanonicalPosition = useCallback(
         (pos: { x: number; y: number }) => ({
             x: getCanonicalX(pos.x),
-            y: pos.y,
+            y: getVisualY(pos.y),
         }),
-        [getCanonicalX]
+        [getCanonicalX, getVisualY]
     );
 
-    return { getVisualX, getCanonicalX, toVisualPosition, toCanonicalPosition };
+    return { getVisualX, getCanonicalX, getVisualY, toVisualPosition, toCanonicalPosition };
 }
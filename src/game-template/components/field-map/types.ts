@@ -40,7 +40,8 @@ export interface PathWaypoint {
     position: { x: number; y: number }; // Normalized 0-1
     fuelDelta?: number;
     amountLabel?: string; // e.g., "1/2 hopper", "Full", "+3"
-    timestamp: number;
+    timestamp: number; // Wall-clock time the action was recorded
+    matchTime?: number; // Seconds since the start of auto, from the match clock (0.1s precision)
     pathPoints?: { x: number; y: number }[]; // For free-form paths
     // Teleop-specific
     zone?: ZoneType;
@@ -10,6 +10,11 @@
  * - teleop-path: Components for teleop field map
  * - pit-scouting: Components for PitScoutingPage
  * - scoring: Components for AutoScoringPage and TeleopScoringPage
+ * - match-strategy: Components for MatchStrategyPage
+ * - match-replay: Components for MatchReplayPage
+ * - video-review: Components for MatchValidationPage
+ * - pick-list: Alliance selection components for PickListPage
+ * - ranking-projection: Components for PickListPage and StrategyOverviewPage
  */
 
 // Auto Start Page Components
@@ -31,3 +36,17 @@ export { GameSpecificQuestions } from './pit-scouting';
 export { ScoringSections, StatusToggles } from './scoring';
 export { PostClimbProceed } from './scoring/PostClimbProceed';
 
+// Match Strategy Page Components
+export { MatchPredictionCard } from './match-strategy';
+
+// Match Replay Page Components
+export { MatchReplayView } from './match-replay';
+
+// Match Validation Page Components
+export { MatchVideoReviewDialog } from './video-review';
+
+// Pick List Page Components
+export { AllianceDraftSimulator } from './pick-list/AllianceDraftSimulator';
+
+// Pick List + Strategy Overview Page Components
+export { RankingProjectionCard } from './ranking-projection';
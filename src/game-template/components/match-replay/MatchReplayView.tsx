@@ -0,0 +1,324 @@
+/**
+ * Match Replay View
+ *
+ * Animates all six scouted robots for one match on the field over a shared
+ * timeline, with play/pause, speed and scrubbing. Recent actions trail behind
+ * each robot, and running alliance fuel totals from the scouts are shown next
+ * to the TBA hub counts (see game-template/matchReplay).
+ */
+
+import { useState, useRef, useMemo, useEffect } from 'react';
+import { Pause, Play, RotateCcw, AlertCircle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/core/components/ui/card';
+import { Button } from '@/core/components/ui/button';
+import { Badge } from '@/core/components/ui/badge';
+import { Slider } from '@/core/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/core/components/ui/select';
+import { useFieldOrientation } from '@/core/hooks/useFieldOrientation';
+import { formatMatchClock } from '@/core/lib/matchClock';
+import type { TBAMatchData } from '@/core/lib/tbaMatchData';
+import { cn } from '@/core/lib/utils';
+import { gameConstants } from '@/game-template/game-schema';
+import {
+    compareAllianceFuel,
+    getAllianceFuelAt,
+    getRecentEvents,
+    getRobotPositionAt,
+    type MatchReplay,
+    type ReplayAlliance,
+    type ReplayRobot,
+} from '@/game-template/matchReplay';
+import fieldImage from '@/game-template/assets/2026-field.png';
+
+interface MatchReplayViewProps {
+    replay: MatchReplay;
+    tbaMatch: TBAMatchData | null;
+}
+
+const TICK_INTERVAL_MS = 50;
+const TRAIL_WINDOW_SEC = 8;
+const PLAYBACK_SPEEDS = [0.5, 1, 2, 4] as const;
+
+// Three shades per alliance so robots stay distinguishable on the field
+const ROBOT_COLORS: Record<ReplayAlliance, string[]> = {
+    red: ['#ef4444', '#f97316', '#ec4899'],
+    blue: ['#3b82f6', '#06b6d4', '#8b5cf6'],
+};
+
+const getRobotColor = (robots: ReplayRobot[], robot: ReplayRobot): string => {
+    const slot = robots.filter(r => r.alliance === robot.alliance).indexOf(robot);
+    const palette = ROBOT_COLORS[robot.alliance];
+    return palette[slot % palette.length] ?? palette[0]!;
+};
+
+const formatReplayTime = (time: number): string => {
+    const inAuto = time < gameConstants.autoDuration;
+    return `${inAuto ? 'Auto' : 'Teleop'} ${formatMatchClock(time * 1000)}`;
+};
+
+export function MatchReplayView({ replay, tbaMatch }: MatchReplayViewProps) {
+    const { isFieldRotated } = useFieldOrientation();
+    const containerRef = useRef<HTMLDivElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [canvasDimensions, setCanvasDimensions] = useState({ width: 640, height: 320 });
+    const [time, setTime] = useState(0);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [speed, setSpeed] = useState<number>(1);
+
+    const fuelComparison = useMemo(() => compareAllianceFuel(replay, tbaMatch), [replay, tbaMatch]);
+    const hasEstimatedTimes = replay.robots.some(robot => robot.estimatedTimes);
+
+    // Start over whenever a different match is loaded
+    useEffect(() => {
+        setTime(0);
+        setIsPlaying(false);
+    }, [replay]);
+
+    useEffect(() => {
+        if (!isPlaying) return;
+
+        const interval = window.setInterval(() => {
+            setTime((previous) => Math.min(previous + (TICK_INTERVAL_MS / 1000) * speed, replay.duration));
+        }, TICK_INTERVAL_MS);
+
+        return () => window.clearInterval(interval);
+    }, [isPlaying, speed, replay.duration]);
+
+    useEffect(() => {
+        if (isPlaying && time >= replay.duration) {
+            setIsPlaying(false);
+        }
+    }, [isPlaying, time, replay.duration]);
+
+    useEffect(() => {
+        const updateDimensions = () => {
+            if (containerRef.current) {
+                const rect = containerRef.current.getBoundingClientRect();
+                setCanvasDimensions({ width: rect.width, height: rect.width / 2 });
+            }
+        };
+
+        updateDimensions();
+        window.addEventListener('resize', updateDimensions);
+        return () => window.removeEventListener('resize', updateDimensions);
+    }, []);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return;
+
+        const { width, height } = canvasDimensions;
+        ctx.clearRect(0, 0, width, height);
+
+        // Positions are stored in blue alliance perspective; red robots are
+        // mirrored on both axes like the scouting field map. The canvas is not
+        // CSS-rotated so team labels stay upright.
+        const toCanvas = (robot: ReplayRobot, pos: { x: number; y: number }) => {
+            const visual = robot.alliance === 'red' ? { x: 1 - pos.x, y: 1 - pos.y } : pos;
+            return isFieldRotated
+                ? { x: (1 - visual.x) * width, y: (1 - visual.y) * height }
+                : { x: visual.x * width, y: visual.y * height };
+        };
+        const robotRadius = Math.max(10, width / 45);
+
+        replay.robots.forEach((robot) => {
+            const color = getRobotColor(replay.robots, robot);
+
+            getRecentEvents(robot, time, TRAIL_WINDOW_SEC).forEach((event) => {
+                const point = toCanvas(robot, event.position);
+                const age = (time - event.time) / TRAIL_WINDOW_SEC;
+                ctx.globalAlpha = Math.max(0.15, 1 - age);
+                ctx.fillStyle = color;
+                ctx.beginPath();
+                ctx.arc(point.x, point.y, robotRadius / 3, 0, Math.PI * 2);
+                ctx.fill();
+
+                if (event.fuel > 0) {
+                    ctx.font = `bold ${Math.round(robotRadius * 0.8)}px sans-serif`;
+                    ctx.textAlign = 'center';
+                    ctx.textBaseline = 'bottom';
+                    ctx.fillStyle = '#facc15';
+                    ctx.fillText(`+${event.fuel}`, point.x, point.y - robotRadius / 2);
+                }
+            });
+            ctx.globalAlpha = 1;
+
+            const position = getRobotPositionAt(robot, time);
+            if (!position) return;
+
+            const point = toCanvas(robot, position);
+            ctx.fillStyle = color;
+            ctx.strokeStyle = 'white';
+            ctx.lineWidth = 2;
+            ctx.beginPath();
+            ctx.arc(point.x, point.y, robotRadius, 0, Math.PI * 2);
+            ctx.fill();
+            ctx.stroke();
+
+            ctx.font = `bold ${Math.round(robotRadius * 0.7)}px sans-serif`;
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'middle';
+            ctx.fillStyle = 'white';
+            ctx.fillText(String(robot.teamNumber), point.x, point.y);
+        });
+    }, [replay, time, canvasDimensions, isFieldRotated]);
+
+    const handlePlayPause = () => {
+        if (!isPlaying && time >= replay.duration) {
+            setTime(0);
+        }
+        setIsPlaying(!isPlaying);
+    };
+
+    return (
+        <div className="space-y-4">
+            <Card>
+                <CardHeader>
+                    <CardTitle className="flex items-center justify-between gap-2">
+                        <span>Replay</span>
+                        <span className="text-base font-mono tabular-nums">{formatReplayTime(time)}</span>
+                    </CardTitle>
+                    {hasEstimatedTimes && (
+                        <CardDescription className="flex items-center gap-1">
+                            <AlertCircle className="h-4 w-4" />
+                            Some entries were scouted without the match clock, so their timing is estimated
+                        </CardDescription>
+                    )}
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div
+                        ref={containerRef}
+                        className="relative rounded-lg overflow-hidden border border-slate-700 bg-slate-900 w-full aspect-2/1"
+                    >
+                        <div className={cn("absolute inset-0", isFieldRotated && "rotate-180")}>
+                            <img
+                                src={fieldImage}
+                                alt="2026 Field"
+                                className="w-full h-full object-fill"
+                                style={{ opacity: 0.6 }}
+                            />
+                        </div>
+                        <canvas
+                            ref={canvasRef}
+                            width={canvasDimensions.width}
+                            height={canvasDimensions.height}
+                            className="absolute inset-0 w-full h-full pointer-events-none"
+                        />
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-2">
+                        <Button size="sm" onClick={handlePlayPause}>
+                            {isPlaying ? <Pause className="h-4 w-4 mr-1" /> : <Play className="h-4 w-4 mr-1" />}
+                            {isPlaying ? 'Pause' : 'Play'}
+                        </Button>
+                        <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => {
+                                setIsPlaying(false);
+                                setTime(0);
+                            }}
+                        >
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Restart
+                        </Button>
+                        <Select value={String(speed)} onValueChange={(value) => setSpeed(Number(value))}>
+                            <SelectTrigger className="w-24 h-9">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {PLAYBACK_SPEEDS.map((option) => (
+                                    <SelectItem key={option} value={String(option)}>
+                                        {option}×
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <Slider
+                            className="flex-1 min-w-48"
+                            min={0}
+                            max={replay.duration}
+                            step={0.1}
+                            value={[time]}
+                            onValueChange={([value]) => setTime(value ?? 0)}
+                        />
+                    </div>
+                </CardContent>
+            </Card>
+
+            <div className="grid gap-4 md:grid-cols-2">
+                {fuelComparison.map((comparison) => {
+                    const colorClass = comparison.alliance === 'red' ? 'text-red-600' : 'text-blue-600';
+                    const robots = replay.robots.filter(robot => robot.alliance === comparison.alliance);
+                    const rows = [
+                        { label: 'Auto fuel', scouted: comparison.scoutedAutoFuel, tba: comparison.tba?.autoFuel },
+                        { label: 'Match fuel', scouted: comparison.scoutedTotalFuel, tba: comparison.tba?.totalFuel },
+                    ];
+
+                    return (
+                        <Card key={comparison.alliance}>
+                            <CardHeader className="pb-2">
+                                <CardTitle className="flex items-baseline justify-between">
+                                    <span className={colorClass}>
+                                        {comparison.alliance === 'red' ? 'Red' : 'Blue'} Alliance
+                                    </span>
+                                    <span className={cn("text-2xl font-bold tabular-nums", colorClass)}>
+                                        {getAllianceFuelAt(replay, comparison.alliance, time)}
+                                    </span>
+                                </CardTitle>
+                                <CardDescription>Scouted fuel so far</CardDescription>
+                            </CardHeader>
+                            <CardContent className="space-y-3 text-sm">
+                                <div className="space-y-1">
+                                    {rows.map((row) => (
+                                        <div key={row.label} className="flex justify-between">
+                                            <span className="text-muted-foreground">{row.label}</span>
+                                            <span className="tabular-nums">
+                                                {row.scouted} scouted
+                                                {row.tba !== undefined && (
+                                                    <> / {row.tba} TBA ({row.scouted - row.tba >= 0 ? '+' : ''}{row.scouted - row.tba})</>
+                                                )}
+                                            </span>
+                                        </div>
+                                    ))}
+                                    {!comparison.tba && (
+                                        <p className="text-xs text-muted-foreground">
+                                            No TBA score breakdown cached for this alliance
+                                        </p>
+                                    )}
+                                </div>
+                                <div className="space-y-1">
+                                    {robots.map((robot) => {
+                                        const lastEvent = robot.events.filter(event => event.time <= time).pop();
+                                        return (
+                                            <div key={robot.entryId} className="flex items-center justify-between gap-2">
+                                                <span className="flex items-center gap-2">
+                                                    <span
+                                                        className="inline-block h-3 w-3 rounded-full"
+                                                        style={{ backgroundColor: getRobotColor(replay.robots, robot) }}
+                                                    />
+                                                    <span className="font-semibold">{robot.teamNumber}</span>
+                                                    <span className="text-xs text-muted-foreground">{robot.scoutName}</span>
+                                                    {robot.estimatedTimes && <Badge variant="outline" className="text-[10px]">est.</Badge>}
+                                                </span>
+                                                <span className="text-xs text-muted-foreground truncate">
+                                                    {lastEvent?.action ?? '—'}
+                                                </span>
+                                            </div>
+                                        );
+                                    })}
+                                    {robots.length < 3 && (
+                                        <p className="text-xs text-muted-foreground">
+                                            {3 - robots.length} robot{robots.length === 2 ? '' : 's'} not scouted
+                                        </p>
+                                    )}
+                                </div>
+                            </CardContent>
+                        </Card>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
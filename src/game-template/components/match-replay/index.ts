@@ -0,0 +1 @@
+export { MatchReplayView } from './MatchReplayView';
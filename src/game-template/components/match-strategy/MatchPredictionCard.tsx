@@ -0,0 +1,157 @@
+/**
+ * Match Prediction Card
+ *
+ * Prematch briefing summary for the Match Strategy page: Monte Carlo win
+ * probability, expected score range, score distribution and ranking point odds
+ * for the six selected teams, driven by the active display mode.
+ */
+
+import { useMemo } from "react";
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { AlertCircle, Dices } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/core/components/ui/card";
+import { Badge } from "@/core/components/ui/badge";
+import type { TeamStats } from "@/core/types/team-stats";
+import { RANKING_POINT_THRESHOLDS } from "@/game-template/constants";
+import { matchStrategyDisplayModes, type MatchStrategyDisplayMode } from "@/game-template/match-strategy-config";
+import {
+    buildRobotOutcomeModel,
+    simulateMatch,
+    type AllianceSimulationSummary,
+} from "@/game-template/matchSimulator";
+
+interface MatchPredictionCardProps {
+    selectedTeams: (number | null)[];
+    displayMode: MatchStrategyDisplayMode;
+    getTeamStats: (teamNumber: number | null) => TeamStats | null;
+}
+
+const SIMULATION_ITERATIONS = 5000;
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+// Same teams + mode always give the same numbers instead of jittering on re-render
+const getSimulationSeed = (teams: number[], displayMode: string) =>
+    [...teams.map(String), displayMode].join('|').split('').reduce((hash, char) => (Math.imul(hash, 31) + char.charCodeAt(0)) >>> 0, 7);
+
+const AllianceSummary = ({ alliance, summary }: { alliance: 'red' | 'blue'; summary: AllianceSimulationSummary }) => {
+    const colorClass = alliance === 'red' ? 'text-red-600' : 'text-blue-600';
+    const rankingPointRows = [
+        { label: `Tower RP (${RANKING_POINT_THRESHOLDS.TOWER}+ tower pts)`, value: summary.rankingPointOdds.tower },
+        { label: `Fuel RP (${RANKING_POINT_THRESHOLDS.FUEL_1}+ fuel)`, value: summary.rankingPointOdds.fuel1 },
+        { label: `Fuel RP (${RANKING_POINT_THRESHOLDS.FUEL_2}+ fuel)`, value: summary.rankingPointOdds.fuel2 },
+    ];
+
+    return (
+        <div className="flex-1 space-y-2">
+            <div className="flex items-baseline justify-between">
+                <span className={`font-semibold ${colorClass}`}>{alliance === 'red' ? 'Red' : 'Blue'} Alliance</span>
+                <span className={`text-2xl font-bold ${colorClass}`}>{summary.meanScore}</span>
+            </div>
+            <p className="text-xs text-muted-foreground">
+                80% range {summary.p10Score} – {summary.p90Score} pts · {summary.meanFuel} fuel · {summary.meanTowerPoints} tower pts
+            </p>
+            <div className="space-y-1 text-sm">
+                {rankingPointRows.map(row => (
+                    <div key={row.label} className="flex justify-between">
+                        <span className="text-muted-foreground">{row.label}</span>
+                        <span className="font-medium">{formatPercent(row.value)}</span>
+                    </div>
+                ))}
+                <div className="flex justify-between border-t pt-1">
+                    <span className="text-muted-foreground">Expected RP</span>
+                    <span className="font-semibold">{summary.expectedRankingPoints.toFixed(2)}</span>
+                </div>
+            </div>
+            {summary.missingTeams.length > 0 && (
+                <p className="flex items-center gap-1 text-xs text-amber-600">
+                    <AlertCircle className="h-3 w-3" />
+                    No data for {summary.missingTeams.join(', ')} (counted as 0)
+                </p>
+            )}
+        </div>
+    );
+};
+
+export const MatchPredictionCard = ({ selectedTeams, displayMode, getTeamStats }: MatchPredictionCardProps) => {
+    const simulation = useMemo(() => {
+        const slots = selectedTeams.map(teamNumber => ({
+            teamNumber: teamNumber ?? 0,
+            model: teamNumber ? buildRobotOutcomeModel(getTeamStats(teamNumber), displayMode) : null,
+        }));
+        const redSlots = slots.slice(0, 3).filter(slot => slot.teamNumber > 0);
+        const blueSlots = slots.slice(3, 6).filter(slot => slot.teamNumber > 0);
+
+        if (![...redSlots, ...blueSlots].some(slot => slot.model)) {
+            return null;
+        }
+
+        return simulateMatch(redSlots, blueSlots, {
+            iterations: SIMULATION_ITERATIONS,
+            seed: getSimulationSeed(slots.map(slot => slot.teamNumber), displayMode),
+        });
+    }, [selectedTeams, displayMode, getTeamStats]);
+
+    const modeLabel = matchStrategyDisplayModes.find(mode => mode.id === displayMode)?.label ?? displayMode;
+
+    if (!simulation) {
+        return null;
+    }
+
+    const chartData = simulation.scoreDistribution.map(bucket => ({
+        score: `${bucket.scoreStart}`,
+        red: Math.round(bucket.red * 1000) / 10,
+        blue: Math.round(bucket.blue * 1000) / 10,
+    }));
+
+    return (
+        <Card className="w-full">
+            <CardHeader>
+                <div className="flex items-center justify-between gap-2">
+                    <CardTitle className="flex items-center gap-2">
+                        <Dices className="h-5 w-5" />
+                        Match Prediction
+                    </CardTitle>
+                    <Badge variant="outline">{modeLabel}</Badge>
+                </div>
+                <CardDescription>
+                    {simulation.iterations.toLocaleString()} simulated matches using each robot's {modeLabel.toLowerCase()} distribution
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+                <div className="space-y-2">
+                    <div className="flex justify-between text-sm font-medium">
+                        <span className="text-red-600">Red {formatPercent(simulation.redWinProbability)}</span>
+                        {simulation.tieProbability >= 0.005 && (
+                            <span className="text-muted-foreground">Tie {formatPercent(simulation.tieProbability)}</span>
+                        )}
+                        <span className="text-blue-600">Blue {formatPercent(simulation.blueWinProbability)}</span>
+                    </div>
+                    <div className="flex h-3 w-full overflow-hidden rounded-full bg-muted">
+                        <div className="bg-red-500" style={{ width: `${simulation.redWinProbability * 100}%` }} />
+                        <div className="bg-muted-foreground/30" style={{ width: `${simulation.tieProbability * 100}%` }} />
+                        <div className="bg-blue-500" style={{ width: `${simulation.blueWinProbability * 100}%` }} />
+                    </div>
+                </div>
+
+                <div className="flex flex-col md:flex-row gap-6">
+                    <AllianceSummary alliance="red" summary={simulation.red} />
+                    <AllianceSummary alliance="blue" summary={simulation.blue} />
+                </div>
+
+                <div className="h-48 w-full">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={chartData} barGap={0}>
+                            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                            <XAxis dataKey="score" tick={{ fontSize: 10 }} />
+                            <YAxis tick={{ fontSize: 10 }} unit="%" width={36} />
+                            <Tooltip formatter={(value) => `${value}%`} labelFormatter={(label) => `${label}+ pts`} />
+                            <Bar dataKey="red" name="Red" fill="#ef4444" />
+                            <Bar dataKey="blue" name="Blue" fill="#3b82f6" />
+                        </BarChart>
+                    </ResponsiveContainer>
+                </div>
+            </CardContent>
+        </Card>
+    );
+};
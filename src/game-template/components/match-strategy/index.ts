@@ -0,0 +1 @@
+export { MatchPredictionCard } from './MatchPredictionCard';
@@ -0,0 +1,284 @@
+/**
+ * Alliance Draft Simulator
+ *
+ * Sits under the alliance table during selection. Predicts each captain's
+ * likely pick and, before each of our turns, how likely every team on our pick
+ * list is to still be available. Re-runs whenever a real pick or decline is
+ * entered.
+ */
+
+import { useMemo, useState } from "react";
+import { Shuffle, X } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/core/components/ui/card";
+import { Badge } from "@/core/components/ui/badge";
+import { Button } from "@/core/components/ui/button";
+import { Input } from "@/core/components/ui/input";
+import { Label } from "@/core/components/ui/label";
+import { GenericSelector } from "@/core/components/ui/generic-selector";
+import { useLocalStorage } from "@/core/hooks/useLocalStorage";
+import type { Alliance } from "@/core/lib/allianceTypes";
+import type { PickList } from "@/core/types/pickListTypes";
+import type { TeamStats } from "@/core/types/team-stats";
+import { useRankingProjection } from "@/game-template/hooks/useRankingProjection";
+import {
+    buildDraftTeamProfiles,
+    simulateAllianceDraft,
+    type DraftValueModel,
+} from "@/game-template/allianceDraftSimulator";
+import { sortOptions, type PickListSortOption } from "@/game-template/pick-list-config";
+
+interface AllianceDraftSimulatorProps {
+    alliances: Alliance[];
+    pickLists: PickList[];
+    teams: TeamStats[];
+    eventKey: string | undefined;
+}
+
+const DRAFT_ITERATIONS = 500;
+
+const VALUE_MODEL_LABELS: Record<DraftValueModel, string> = {
+    opr: "Fuel OPR + Tower",
+    epa: "Statbotics EPA",
+    composite: "Pick List Sort",
+};
+
+const FIT_WEIGHTS: Record<string, number> = {
+    "Value only": 0,
+    "Some fit": 0.5,
+    "Strong fit": 1,
+};
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+export const AllianceDraftSimulator = ({ alliances, pickLists, teams, eventKey }: AllianceDraftSimulatorProps) => {
+    const [ourTeamNumber, setOurTeamNumber] = useLocalStorage("allianceDraftOurTeam", "");
+    const [ourListId, setOurListId] = useLocalStorage<number | null>("allianceDraftPickListId", null);
+    const [valueModel, setValueModel] = useLocalStorage<DraftValueModel>("allianceDraftValueModel", "opr");
+    const [compositeSort, setCompositeSort] = useLocalStorage<PickListSortOption>("allianceDraftCompositeSort", "totalPoints");
+    const [fitWeightLabel, setFitWeightLabel] = useLocalStorage("allianceDraftFitWeight", "Some fit");
+    const [roundCount, setRoundCount] = useLocalStorage<2 | 3>("allianceDraftRounds", 2);
+    const [declinesByEvent, setDeclinesByEvent] = useLocalStorage<Record<string, number[]>>("allianceDraftDeclines", {});
+    const [declineInput, setDeclineInput] = useState("");
+
+    const { projection } = useRankingProjection(eventKey);
+    const declinedTeams = useMemo(() => declinesByEvent[eventKey ?? ""] ?? [], [declinesByEvent, eventKey]);
+    const ourList = pickLists.find(list => list.id === ourListId) ?? pickLists[0];
+
+    const result = useMemo(() => {
+        if (alliances.length === 0 || teams.length === 0) {
+            return null;
+        }
+
+        const parsedOurTeam = Number.parseInt(ourTeamNumber, 10);
+        return simulateAllianceDraft(
+            {
+                alliances,
+                declinedTeams,
+                seedOrder: projection?.teams.map(team => team.teamNumber) ?? [],
+                roundCount,
+                ourTeamNumber: Number.isFinite(parsedOurTeam) ? parsedOurTeam : null,
+                ourPickList: ourList?.teams.map(item => item.teamNumber) ?? [],
+            },
+            buildDraftTeamProfiles(teams, valueModel, compositeSort),
+            {
+                iterations: DRAFT_ITERATIONS,
+                seed: DRAFT_ITERATIONS,
+                complementarityWeight: FIT_WEIGHTS[fitWeightLabel] ?? FIT_WEIGHTS["Some fit"],
+            }
+        );
+    }, [alliances, teams, declinedTeams, projection, roundCount, ourTeamNumber, ourList, valueModel, compositeSort, fitWeightLabel]);
+
+    const setDeclines = (next: number[]) => {
+        setDeclinesByEvent(prev => ({ ...prev, [eventKey ?? ""]: next }));
+    };
+
+    const addDecline = () => {
+        const teamNumber = Number.parseInt(declineInput.trim(), 10);
+        if (!Number.isFinite(teamNumber) || declinedTeams.includes(teamNumber)) {
+            return;
+        }
+        setDeclines([...declinedTeams, teamNumber]);
+        setDeclineInput("");
+    };
+
+    if (alliances.length === 0) {
+        return null;
+    }
+
+    return (
+        <Card className="w-full">
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <Shuffle className="h-5 w-5" />
+                    Draft Simulator
+                </CardTitle>
+                <CardDescription>
+                    {DRAFT_ITERATIONS} simulated drafts from the current alliance table. Entered picks and declines re-run it automatically.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                    <div className="space-y-2">
+                        <Label htmlFor="draft-our-team">Our team number</Label>
+                        <Input
+                            id="draft-our-team"
+                            inputMode="numeric"
+                            placeholder="e.g., 3314"
+                            value={ourTeamNumber}
+                            onChange={(e) => setOurTeamNumber(e.target.value.trim())}
+                        />
+                    </div>
+                    <GenericSelector
+                        label="Our Pick List"
+                        value={ourList ? String(ourList.id) : ""}
+                        availableOptions={pickLists.map(list => String(list.id))}
+                        onValueChange={(value) => setOurListId(Number(value))}
+                        placeholder="Select pick list"
+                        displayFormat={(value) => pickLists.find(list => String(list.id) === value)?.name ?? value}
+                        buttonDisplayFormat={(value) => `Our List: ${pickLists.find(list => String(list.id) === value)?.name ?? value}`}
+                    />
+                    <GenericSelector
+                        label="Captain Value Model"
+                        value={valueModel}
+                        availableOptions={Object.keys(VALUE_MODEL_LABELS)}
+                        onValueChange={(value) => setValueModel(value as DraftValueModel)}
+                        displayFormat={(value) => VALUE_MODEL_LABELS[value as DraftValueModel] ?? value}
+                        buttonDisplayFormat={(value) => `Value: ${VALUE_MODEL_LABELS[value as DraftValueModel] ?? value}`}
+                    />
+                    {valueModel === "composite" && (
+                        <GenericSelector
+                            label="Composite Sort"
+                            value={compositeSort}
+                            availableOptions={sortOptions.map(option => option.value)}
+                            onValueChange={setCompositeSort}
+                            displayFormat={(value) => sortOptions.find(option => option.value === value)?.label ?? value}
+                            buttonDisplayFormat={(value) => `Sort: ${sortOptions.find(option => option.value === value)?.label ?? value}`}
+                        />
+                    )}
+                    <GenericSelector
+                        label="Complementarity"
+                        value={fitWeightLabel}
+                        availableOptions={Object.keys(FIT_WEIGHTS)}
+                        onValueChange={setFitWeightLabel}
+                        buttonDisplayFormat={(value) => `Fit: ${value}`}
+                    />
+                    <GenericSelector
+                        label="Rounds"
+                        value={String(roundCount)}
+                        availableOptions={["2", "3"]}
+                        onValueChange={(value) => setRoundCount(value === "3" ? 3 : 2)}
+                        displayFormat={(value) => (value === "3" ? "3 rounds (championship)" : "2 rounds")}
+                        buttonDisplayFormat={(value) => `${value} Rounds`}
+                    />
+                </div>
+
+                <div className="space-y-2">
+                    <Label htmlFor="draft-decline">Declined invitations</Label>
+                    <div className="flex gap-2">
+                        <Input
+                            id="draft-decline"
+                            inputMode="numeric"
+                            placeholder="Team that declined"
+                            value={declineInput}
+                            onChange={(e) => setDeclineInput(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === "Enter") addDecline();
+                            }}
+                        />
+                        <Button variant="outline" onClick={addDecline} disabled={!declineInput.trim()}>
+                            Add
+                        </Button>
+                    </div>
+                    {declinedTeams.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                            {declinedTeams.map(teamNumber => (
+                                <Badge key={teamNumber} variant="secondary" className="gap-1">
+                                    {teamNumber}
+                                    <button
+                                        type="button"
+                                        aria-label={`Remove decline for ${teamNumber}`}
+                                        onClick={() => setDeclines(declinedTeams.filter(team => team !== teamNumber))}
+                                    >
+                                        <X className="h-3 w-3" />
+                                    </button>
+                                </Badge>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                {result && result.ourTurns.length > 0 && (
+                    <div className="space-y-3">
+                        <h4 className="font-semibold">Before Our Picks</h4>
+                        {result.ourTurns.map(turn => (
+                            <div key={turn.round} className="space-y-2 rounded-lg border p-3">
+                                <div className="flex items-center justify-between text-sm">
+                                    <span className="font-medium">
+                                        Round {turn.round}{turn.allianceNumber !== null && ` · Alliance ${turn.allianceNumber}`}
+                                    </span>
+                                    {turn.probability < 0.995 && (
+                                        <span className="text-muted-foreground">{formatPercent(turn.probability)} we're picking</span>
+                                    )}
+                                </div>
+                                {turn.teams.length === 0 ? (
+                                    <p className="text-sm text-muted-foreground">Our pick list is empty.</p>
+                                ) : (
+                                    <div className="flex flex-wrap gap-2">
+                                        {turn.teams.map(team => (
+                                            <Badge
+                                                key={team.teamNumber}
+                                                variant={team.probability >= 0.5 ? "default" : "outline"}
+                                                className={team.probability < 0.05 ? "opacity-50" : undefined}
+                                            >
+                                                {team.teamNumber} · {formatPercent(team.probability)}
+                                            </Badge>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {result && result.ourPickedProbability > 0 && (
+                    <p className="text-sm text-muted-foreground">
+                        {formatPercent(result.ourPickedProbability)} chance another captain picks us.
+                    </p>
+                )}
+
+                {result && (
+                    <div className="space-y-2">
+                        <h4 className="font-semibold">Predicted Picks</h4>
+                        {Array.from({ length: roundCount }, (_, index) => index + 1).map(round => (
+                            <div key={round} className="space-y-1">
+                                <p className="text-xs font-medium uppercase text-muted-foreground">Round {round}</p>
+                                <div className="grid grid-cols-1 gap-1 sm:grid-cols-2">
+                                    {result.slots
+                                        .filter(slot => slot.round === round)
+                                        .map(slot => {
+                                            const isOurs = slot.ourTurnProbability >= 0.5;
+                                            return (
+                                                <div
+                                                    key={`${slot.round}-${slot.allianceNumber}`}
+                                                    className={`flex items-center justify-between rounded border px-2 py-1 text-sm ${isOurs ? "border-primary" : ""}`}
+                                                >
+                                                    <span className="text-muted-foreground">A{slot.allianceNumber}</span>
+                                                    {slot.actualTeam !== null ? (
+                                                        <span className="font-semibold">{slot.actualTeam}</span>
+                                                    ) : (
+                                                        <span>
+                                                            {slot.candidates.slice(0, 3).map(candidate => `${candidate.teamNumber} (${formatPercent(candidate.probability)})`).join(", ") || "—"}
+                                                        </span>
+                                                    )}
+                                                </div>
+                                            );
+                                        })}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+};
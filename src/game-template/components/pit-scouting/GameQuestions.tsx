@@ -32,6 +32,7 @@ import {
 import { Eraser, Save, Settings2, Trash2, X } from "lucide-react";
 import { useMemo, useState } from "react";
 import type { ScoutOptionsState } from "@/types";
+import { workspaceStorage } from "@/core/db/eventWorkspaceDatabase";
 
 interface GameSpecificQuestionsProps {
   gameData?: Record<string, unknown>;
@@ -211,7 +212,7 @@ export function GameSpecificQuestions({ gameData = {}, onGameDataChange }: GameS
         ...prev,
         [key]: value,
       };
-      localStorage.setItem(SCOUT_OPTIONS_STORAGE_KEY, JSON.stringify(next));
+      workspaceStorage.setItem(SCOUT_OPTIONS_STORAGE_KEY, JSON.stringify(next));
       return next;
     });
   };
@@ -0,0 +1,111 @@
+/**
+ * Ranking Projection Card
+ *
+ * Projected final qualification standings for an event: expected rank with an
+ * 80% range, odds of finishing as an alliance captain, and expected RP total.
+ * Shown on the Pick Lists and Strategy Overview pages.
+ */
+
+import { useState } from "react";
+import { Trophy } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/core/components/ui/card";
+import { Badge } from "@/core/components/ui/badge";
+import { Button } from "@/core/components/ui/button";
+import { Skeleton } from "@/core/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/core/components/ui/table";
+import { useRankingProjection } from "@/game-template/hooks/useRankingProjection";
+
+interface RankingProjectionCardProps {
+    eventKey: string | undefined;
+    /** Rows shown before "Show all" */
+    initialRowCount?: number;
+}
+
+const formatPercent = (value: number) => {
+    if (value > 0 && value < 0.01) return '<1%';
+    if (value < 1 && value > 0.99) return '>99%';
+    return `${Math.round(value * 100)}%`;
+};
+
+export const RankingProjectionCard = ({ eventKey, initialRowCount = 16 }: RankingProjectionCardProps) => {
+    const { projection, isLoading } = useRankingProjection(eventKey);
+    const [showAll, setShowAll] = useState(false);
+
+    if (!eventKey) {
+        return null;
+    }
+
+    if (isLoading && !projection) {
+        return <Skeleton className="h-48 w-full rounded-xl" />;
+    }
+
+    if (!projection) {
+        return null;
+    }
+
+    const rows = showAll ? projection.teams : projection.teams.slice(0, initialRowCount);
+    const qualsComplete = projection.remainingMatchCount === 0;
+
+    return (
+        <Card className="w-full">
+            <CardHeader>
+                <div className="flex items-center justify-between gap-2">
+                    <CardTitle className="flex items-center gap-2">
+                        <Trophy className="h-5 w-5" />
+                        Ranking Projection
+                    </CardTitle>
+                    <Badge variant="outline">{eventKey}</Badge>
+                </div>
+                <CardDescription>
+                    {qualsComplete
+                        ? `All ${projection.playedMatchCount} qualification matches played - final standings`
+                        : `${projection.playedMatchCount} played, ${projection.remainingMatchCount} remaining · ${projection.iterations.toLocaleString()} simulated events`}
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead>Team</TableHead>
+                            <TableHead className="text-right">Now</TableHead>
+                            <TableHead className="text-right">Proj. Rank</TableHead>
+                            <TableHead className="text-right">Top {projection.captainCount}</TableHead>
+                            <TableHead className="text-right">Exp. RP</TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {rows.map(team => (
+                            <TableRow key={team.teamNumber}>
+                                <TableCell className="font-medium">
+                                    {team.teamNumber}
+                                    {team.strengthSource === 'none' && team.matchesRemaining > 0 && (
+                                        <span className="ml-1 text-xs text-amber-600" title="No EPA or OPR data - simulated as 0">*</span>
+                                    )}
+                                </TableCell>
+                                <TableCell className="text-right text-muted-foreground">{team.currentRank ?? '—'}</TableCell>
+                                <TableCell className="text-right">
+                                    <span className="font-semibold">{team.expectedRank.toFixed(1)}</span>
+                                    {team.bestLikelyRank !== team.worstLikelyRank && (
+                                        <span className="ml-1 text-xs text-muted-foreground">
+                                            ({team.bestLikelyRank}–{team.worstLikelyRank})
+                                        </span>
+                                    )}
+                                </TableCell>
+                                <TableCell className="text-right">{formatPercent(team.captainProbability)}</TableCell>
+                                <TableCell className="text-right">
+                                    {team.expectedRankingPoints.toFixed(1)}
+                                    <span className="ml-1 text-xs text-muted-foreground">({team.currentRankingPoints})</span>
+                                </TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+                {projection.teams.length > initialRowCount && (
+                    <Button variant="ghost" size="sm" className="w-full" onClick={() => setShowAll(prev => !prev)}>
+                        {showAll ? 'Show fewer' : `Show all ${projection.teams.length} teams`}
+                    </Button>
+                )}
+            </CardContent>
+        </Card>
+    );
+};
@@ -0,0 +1 @@
+export { RankingProjectionCard } from './RankingProjectionCard';
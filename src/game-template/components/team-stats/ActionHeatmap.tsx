@@ -0,0 +1,365 @@
+/**
+ * Action Heatmap Component
+ *
+ * Density heatmaps of where a team shoots, passes, collects and steals, built
+ * from waypoint positions across matches (see game-template/heatmap). With a
+ * comparison team, both maps share one color scale, normalized per match.
+ */
+
+import { useState, useRef, useMemo, useEffect } from 'react';
+import { Card } from '@/core/components/ui/card';
+import { Button } from '@/core/components/ui/button';
+import { Label } from '@/core/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/core/components/ui/select';
+import { useFieldOrientation } from '@/core/hooks/useFieldOrientation';
+import { cn } from '@/core/lib/utils';
+import { SHOT_GRID_COLS, SHOT_GRID_ROW_BOUNDARIES } from '@/core/lib/experiment/constants';
+import type { MatchResult } from '@/game-template/analysis';
+import { useAllianceMirroring } from '@/game-template/components/field-map';
+import {
+    DEFAULT_HEATMAP_FILTERS,
+    HEATMAP_ACTION_TYPES,
+    buildDensityGrid,
+    collectHeatmapPoints,
+    countMatchesInRange,
+    countZoneGrid,
+    getHeatColor,
+    type DensityGrid,
+    type HeatmapFilters,
+    type HeatmapPhase,
+    type HeatmapShotType,
+} from '@/game-template/heatmap';
+import fieldImage from '@/game-template/assets/2026-field.png';
+
+type HeatmapMode = 'density' | 'zones';
+
+export interface ActionHeatmapTeam {
+    label: string;
+    matchResults: MatchResult[];
+}
+
+interface ActionHeatmapProps {
+    /** One team, or two for a side-by-side comparison */
+    teams: ActionHeatmapTeam[];
+}
+
+interface TeamHeatmap {
+    label: string;
+    matchCount: number;
+    pointCount: number;
+    density: DensityGrid;
+    /** Actions per match in each shot-grid cell */
+    zonesPerMatch: number[];
+}
+
+const ALL_MATCHES = 'all';
+
+export function ActionHeatmap({ teams }: ActionHeatmapProps) {
+    const [filters, setFilters] = useState<HeatmapFilters>(DEFAULT_HEATMAP_FILTERS);
+    const [mode, setMode] = useState<HeatmapMode>('density');
+    const [viewAlliance, setViewAlliance] = useState<'red' | 'blue'>('blue');
+
+    const maxMatches = Math.max(0, ...teams.map(team => team.matchResults.length));
+    const rangeStart = filters.matchRange?.[0] ?? 0;
+    const rangeEnd = filters.matchRange?.[1] ?? Math.max(0, maxMatches - 1);
+
+    const heatmaps = useMemo<TeamHeatmap[]>(() => teams.map((team) => {
+        const points = collectHeatmapPoints(team.matchResults, filters);
+        const matchCount = countMatchesInRange(team.matchResults.length, filters);
+        const perMatch = matchCount > 0 ? 1 / matchCount : 0;
+
+        return {
+            label: team.label,
+            matchCount,
+            pointCount: points.length,
+            density: buildDensityGrid(points, 48, 24, 2, perMatch),
+            zonesPerMatch: countZoneGrid(points).map(count => count * perMatch),
+        };
+    }), [teams, filters]);
+
+    // Shared scale so two teams compare directly
+    const maxValue = Math.max(0, ...heatmaps.map(heatmap =>
+        mode === 'density' ? heatmap.density.max : Math.max(0, ...heatmap.zonesPerMatch)
+    ));
+
+    const toggleActionType = (type: HeatmapFilters['actionTypes'][number]) => {
+        setFilters(prev => ({
+            ...prev,
+            actionTypes: prev.actionTypes.includes(type)
+                ? prev.actionTypes.filter(existing => existing !== type)
+                : [...prev.actionTypes, type],
+        }));
+    };
+
+    const setMatchRange = (start: number, end: number) => {
+        const isAll = start === 0 && end >= maxMatches - 1;
+        setFilters(prev => ({ ...prev, matchRange: isAll ? null : [Math.min(start, end), Math.max(start, end)] }));
+    };
+
+    const matchOptions = Array.from({ length: maxMatches }, (_, index) => index);
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between">
+                <h3 className="font-semibold">Action Heatmaps</h3>
+                <div className="flex items-center gap-1">
+                    <Button variant={mode === 'density' ? 'default' : 'outline'} size="sm" onClick={() => setMode('density')}>
+                        Density
+                    </Button>
+                    <Button variant={mode === 'zones' ? 'default' : 'outline'} size="sm" onClick={() => setMode('zones')}>
+                        Zones
+                    </Button>
+                </div>
+            </div>
+
+            {/* Filters */}
+            <div className="flex flex-wrap items-end gap-3">
+                <div className="space-y-1">
+                    <Label className="text-xs">Actions</Label>
+                    <div className="flex flex-wrap gap-1">
+                        {HEATMAP_ACTION_TYPES.map(option => (
+                            <Button
+                                key={option.id}
+                                variant={filters.actionTypes.includes(option.id) ? 'default' : 'outline'}
+                                size="sm"
+                                onClick={() => toggleActionType(option.id)}
+                            >
+                                {option.label}
+                            </Button>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="space-y-1">
+                    <Label className="text-xs">Phase</Label>
+                    <Select
+                        value={filters.phase}
+                        onValueChange={(value) => setFilters(prev => ({ ...prev, phase: value as HeatmapPhase }))}
+                    >
+                        <SelectTrigger className="w-28 h-9">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="all">All</SelectItem>
+                            <SelectItem value="auto">Auto</SelectItem>
+                            <SelectItem value="teleop">Teleop</SelectItem>
+                        </SelectContent>
+                    </Select>
+                </div>
+
+                <div className="space-y-1">
+                    <Label className="text-xs">Shot Type</Label>
+                    <Select
+                        value={filters.shotType}
+                        onValueChange={(value) => setFilters(prev => ({ ...prev, shotType: value as HeatmapShotType }))}
+                    >
+                        <SelectTrigger className="w-36 h-9">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="all">All Shots</SelectItem>
+                            <SelectItem value="onTheMove">On the Move</SelectItem>
+                            <SelectItem value="stationary">Stationary</SelectItem>
+                        </SelectContent>
+                    </Select>
+                </div>
+
+                <div className="space-y-1">
+                    <Label className="text-xs">Matches (each team's own order)</Label>
+                    <div className="flex items-center gap-1">
+                        <Select
+                            value={filters.matchRange ? String(rangeStart) : ALL_MATCHES}
+                            onValueChange={(value) => setMatchRange(value === ALL_MATCHES ? 0 : Number(value), rangeEnd)}
+                            disabled={maxMatches === 0}
+                        >
+                            <SelectTrigger className="w-24 h-9">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={ALL_MATCHES}>First</SelectItem>
+                                {matchOptions.map(index => (
+                                    <SelectItem key={index} value={String(index)}>#{index + 1}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <span className="text-xs text-muted-foreground">to</span>
+                        <Select
+                            value={filters.matchRange ? String(rangeEnd) : ALL_MATCHES}
+                            onValueChange={(value) => setMatchRange(rangeStart, value === ALL_MATCHES ? maxMatches - 1 : Number(value))}
+                            disabled={maxMatches === 0}
+                        >
+                            <SelectTrigger className="w-24 h-9">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={ALL_MATCHES}>Last</SelectItem>
+                                {matchOptions.map(index => (
+                                    <SelectItem key={index} value={String(index)}>#{index + 1}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                </div>
+
+                <div className="space-y-1">
+                    <Label className="text-xs">View As</Label>
+                    <div className="flex gap-1">
+                        {(['blue', 'red'] as const).map(alliance => (
+                            <Button
+                                key={alliance}
+                                variant={viewAlliance === alliance ? 'default' : 'outline'}
+                                size="sm"
+                                className="capitalize"
+                                onClick={() => setViewAlliance(alliance)}
+                            >
+                                {alliance}
+                            </Button>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            <div className={cn('grid gap-4', heatmaps.length > 1 && 'md:grid-cols-2')}>
+                {heatmaps.map(heatmap => (
+                    <Card key={heatmap.label} className="p-3 space-y-2">
+                        <div className="flex items-center justify-between text-sm">
+                            <span className="font-medium">{heatmap.label}</span>
+                            <span className="text-xs text-muted-foreground">
+                                {heatmap.pointCount} actions • {heatmap.matchCount} matches
+                            </span>
+                        </div>
+                        <HeatmapField heatmap={heatmap} mode={mode} maxValue={maxValue} viewAlliance={viewAlliance} />
+                    </Card>
+                ))}
+            </div>
+
+            {/* Legend */}
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <span>Fewer</span>
+                <div
+                    className="h-2 w-32 rounded-full"
+                    style={{
+                        background: `linear-gradient(to right, ${[0.05, 0.25, 0.5, 0.75, 1].map(getHeatColor).join(', ')})`,
+                    }}
+                />
+                <span>More per match</span>
+            </div>
+        </div>
+    );
+}
+
+interface HeatmapFieldProps {
+    heatmap: TeamHeatmap;
+    mode: HeatmapMode;
+    maxValue: number;
+    viewAlliance: 'red' | 'blue';
+}
+
+function HeatmapField({ heatmap, mode, maxValue, viewAlliance }: HeatmapFieldProps) {
+    const { isFieldRotated } = useFieldOrientation();
+    const { toVisualPosition } = useAllianceMirroring(viewAlliance);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [canvasDimensions, setCanvasDimensions] = useState({ width: 640, height: 320 });
+
+    useEffect(() => {
+        const updateDimensions = () => {
+            if (containerRef.current) {
+                const rect = containerRef.current.getBoundingClientRect();
+                setCanvasDimensions({ width: rect.width, height: rect.width / 2 });
+            }
+        };
+
+        updateDimensions();
+        window.addEventListener('resize', updateDimensions);
+        return () => window.removeEventListener('resize', updateDimensions);
+    }, []);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return;
+
+        const { width, height } = canvasDimensions;
+        ctx.clearRect(0, 0, width, height);
+        if (maxValue <= 0) return;
+
+        // The canvas is not CSS-rotated (so zone labels stay upright); apply
+        // the field rotation on top of the alliance mirroring instead
+        const toCanvas = (pos: { x: number; y: number }) => {
+            const visual = toVisualPosition(pos);
+            return isFieldRotated
+                ? { x: (1 - visual.x) * width, y: (1 - visual.y) * height }
+                : { x: visual.x * width, y: visual.y * height };
+        };
+        const fillCell = (x0: number, x1: number, y0: number, y1: number, color: string) => {
+            const a = toCanvas({ x: x0, y: y0 });
+            const b = toCanvas({ x: x1, y: y1 });
+            ctx.fillStyle = color;
+            ctx.fillRect(Math.min(a.x, b.x), Math.min(a.y, b.y), Math.abs(b.x - a.x), Math.abs(b.y - a.y));
+            return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+        };
+
+        if (mode === 'density') {
+            const { cols, rows, cells } = heatmap.density;
+            // Soften cell edges so hot spots read as blobs
+            ctx.filter = `blur(${Math.round(width / cols / 2)}px)`;
+            cells.forEach((value, index) => {
+                if (value <= 0) return;
+                const col = index % cols;
+                const row = Math.floor(index / cols);
+                fillCell(col / cols, (col + 1) / cols, row / rows, (row + 1) / rows, getHeatColor(value / maxValue));
+            });
+            ctx.filter = 'none';
+            return;
+        }
+
+        ctx.font = `${Math.max(10, Math.round(width / 48))}px sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        heatmap.zonesPerMatch.forEach((value, index) => {
+            const col = index % SHOT_GRID_COLS;
+            const row = Math.floor(index / SHOT_GRID_COLS);
+            const y0 = SHOT_GRID_ROW_BOUNDARIES[row - 1] ?? 0;
+            const y1 = SHOT_GRID_ROW_BOUNDARIES[row] ?? 1;
+            const center = fillCell(col / SHOT_GRID_COLS, (col + 1) / SHOT_GRID_COLS, y0, y1, getHeatColor(value / maxValue));
+
+            ctx.strokeStyle = 'rgba(255, 255, 255, 0.25)';
+            const a = toCanvas({ x: col / SHOT_GRID_COLS, y: y0 });
+            const b = toCanvas({ x: (col + 1) / SHOT_GRID_COLS, y: y1 });
+            ctx.strokeRect(Math.min(a.x, b.x), Math.min(a.y, b.y), Math.abs(b.x - a.x), Math.abs(b.y - a.y));
+
+            if (value > 0) {
+                ctx.fillStyle = 'white';
+                ctx.fillText(value.toFixed(1), center.x, center.y);
+            }
+        });
+    }, [heatmap, mode, maxValue, canvasDimensions, toVisualPosition, isFieldRotated]);
+
+    return (
+        <div
+            ref={containerRef}
+            className="relative rounded-lg overflow-hidden border border-slate-700 bg-slate-900 w-full aspect-2/1"
+        >
+            <div className={cn("absolute inset-0", isFieldRotated && "rotate-180")}>
+                <img
+                    src={fieldImage}
+                    alt="2026 Field"
+                    className="w-full h-full object-fill"
+                    style={{ opacity: 0.6 }}
+                />
+            </div>
+            <canvas
+                ref={canvasRef}
+                width={canvasDimensions.width}
+                height={canvasDimensions.height}
+                className="absolute inset-0 w-full h-full pointer-events-none"
+            />
+            {heatmap.pointCount === 0 && (
+                <div className="absolute inset-0 flex items-center justify-center">
+                    <p className="text-muted-foreground text-sm">No actions match these filters</p>
+                </div>
+            )}
+        </div>
+    );
+}
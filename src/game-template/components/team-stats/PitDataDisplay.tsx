@@ -3,7 +3,9 @@ import { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/core/components/ui/card";
 import { Badge } from "@/core/components/ui/badge";
 import { ScrollArea } from "@/core/components/ui/scroll-area";
-import { loadPitScoutingByTeamAndEvent, loadPitScoutingByTeam } from "@/core/db/database";
+import { loadPitScoutingByTeamAndEvent, loadPitScoutingByTeam, loadPitPhotosByTeamAndEvent } from "@/core/db/database";
+import { PitPhotoView } from "@/core/components/pit-scouting/PitPhotoView";
+import { getPitPhotoTagLabel, sortPitPhotos, type PitPhoto } from "@/core/lib/pitPhotos";
 import type { PitScoutingEntryBase } from "@/types/database";
 import { Skeleton } from "@/core/components/ui/skeleton";
 import { AutoPathsByPosition, type AutoPathListItem } from "@/game-template/components/team-stats/AutoPathsByPosition";
@@ -16,6 +18,8 @@ interface PitDataDisplayProps {
 
 export function PitDataDisplay({ teamNumber, selectedEvent }: PitDataDisplayProps) {
     const [entry, setEntry] = useState<PitScoutingEntryBase | null>(null);
+    const [photos, setPhotos] = useState<PitPhoto[]>([]);
+    const [selectedPhotoId, setSelectedPhotoId] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(true);
 
     const reportedAutosByStartRaw = entry?.gameData?.reportedAutosByStart;
@@ -86,6 +90,23 @@ export function PitDataDisplay({ teamNumber, selectedEvent }: PitDataDisplayProp
         return () => { isMounted = false; };
     }, [teamNumber, selectedEvent]);
 
+    useEffect(() => {
+        let isMounted = true;
+        setPhotos([]);
+        setSelectedPhotoId(null);
+        if (!entry) return;
+
+        loadPitPhotosByTeamAndEvent(entry.teamNumber, entry.eventKey)
+            .then((loaded) => {
+                if (isMounted) setPhotos(sortPitPhotos(loaded));
+            })
+            .catch((error) => console.error("Failed to load pit photos", error));
+
+        return () => { isMounted = false; };
+    }, [entry]);
+
+    const selectedPhoto = photos.find((photo) => photo.id === selectedPhotoId) ?? photos[0];
+
     if (isLoading) {
         return <PitDataSkeleton />;
     }
@@ -116,13 +137,28 @@ export function PitDataDisplay({ teamNumber, selectedEvent }: PitDataDisplayProp
                             <CardTitle>Robot Preview</CardTitle>
                         </CardHeader>
                         <CardContent>
-                            {entry.robotPhoto ? (
-                                <div className="aspect-video relative rounded-lg overflow-hidden bg-muted border border-border">
-                                    <img
-                                        src={entry.robotPhoto}
-                                        alt={`Team ${teamNumber} Robot`}
-                                        className="object-cover w-full h-full"
-                                    />
+                            {selectedPhoto ? (
+                                <div className="space-y-3">
+                                    <PitPhotoView photo={selectedPhoto} alt={`Team ${teamNumber} Robot`} />
+                                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                                        <Badge variant="secondary">{getPitPhotoTagLabel(selectedPhoto.tag)}</Badge>
+                                        {selectedPhoto.caption && <span className="text-muted-foreground">{selectedPhoto.caption}</span>}
+                                    </div>
+                                    {photos.length > 1 && (
+                                        <div className="grid grid-cols-4 gap-2">
+                                            {photos.map((photo) => (
+                                                <button
+                                                    key={photo.id}
+                                                    type="button"
+                                                    onClick={() => setSelectedPhotoId(photo.id)}
+                                                    className={photo.id === selectedPhoto.id ? "rounded-lg ring-2 ring-primary" : "rounded-lg opacity-80 hover:opacity-100"}
+                                                    title={getPitPhotoTagLabel(photo.tag)}
+                                                >
+                                                    <PitPhotoView photo={photo} variant="thumbnail" />
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
                                 </div>
                             ) : (
                                 <div className="aspect-video bg-muted rounded-lg flex items-center justify-center border border-border">
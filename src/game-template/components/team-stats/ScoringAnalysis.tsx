@@ -1,8 +1,10 @@
+import { useMemo } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/core/components/ui/card";
 import { StatCard } from "@/core/components/team-stats/StatCard";
 import type { TeamStats } from "@/core/types/team-stats";
 import type { StatSectionDefinition } from "@/types/team-stats-display";
 import { TeleopPathsVisualization } from "./TeleopPathsVisualization";
+import { ActionHeatmap, type ActionHeatmapTeam } from "./ActionHeatmap";
 import { type TeamStatsTemplate } from "@/game-template/analysis";
 
 interface ScoringAnalysisProps {
@@ -17,6 +19,19 @@ export function ScoringAnalysis({
     statSections
 }: ScoringAnalysisProps) {
     const teamStatsTemplate = teamStats as TeamStatsTemplate;
+    // Flagged matches stay out of the heatmaps, as they do for the averages
+    const heatmapTeams = useMemo<ActionHeatmapTeam[]>(() => {
+        const toHeatmapTeam = (stats: TeamStatsTemplate): ActionHeatmapTeam => ({
+            label: `Team ${stats.teamNumber}`,
+            matchResults: (stats.matchResults || []).filter(m => !m.ignoreForStats),
+        });
+        const compareStatsTemplate = compareStats as TeamStatsTemplate | null;
+
+        return [
+            toHeatmapTeam(teamStats as TeamStatsTemplate),
+            ...(compareStatsTemplate && compareStatsTemplate.matchesPlayed > 0 ? [toHeatmapTeam(compareStatsTemplate)] : []),
+        ];
+    }, [teamStats, compareStats]);
     const hasCoprData = [
         teamStats.coprHubAutoPoints,
         teamStats.coprHubTeleopPoints,
@@ -99,6 +114,15 @@ export function ScoringAnalysis({
                     </CardContent>
                 </Card>
             )}
+
+            {/* Action Location Heatmaps */}
+            {teamStats.matchesPlayed > 0 && (
+                <Card>
+                    <CardContent>
+                        <ActionHeatmap teams={heatmapTeams} />
+                    </CardContent>
+                </Card>
+            )}
         </div>
     );
 }
@@ -1131,6 +1131,7 @@ function TeleopFieldMapContent({
                 toggleFieldOrientation={toggleFieldOrientation}
                 isBrokenDown={isBrokenDown}
                 onBrokenDownToggle={handleBrokenDownToggle}
+                showMatchClock
             />
 
             {/* Field Map */}
@@ -0,0 +1,469 @@
+/**
+ * Match Video Review Dialog
+ *
+ * Plays a match video opened from the device next to one robot's scouted
+ * events. The lead marks where auto starts in the video (see
+ * core/lib/videoAlignment); from then on the event list follows playback,
+ * event markers sit on the video timeline, and clicking an event seeks to it.
+ * Shot and pass fuel can be fixed, or a mis-recorded action removed, as a
+ * tracked correction without leaving the review (see waypointCorrections).
+ *
+ * The video is played from an object URL for the File the lead picked, so it
+ * never leaves the device and works offline.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Check, Crosshair, FileVideo, Loader2, Pencil, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from '@/core/components/ui/dialog';
+import { Badge } from '@/core/components/ui/badge';
+import { Button } from '@/core/components/ui/button';
+import { Input } from '@/core/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/core/components/ui/select';
+import { loadScoutingEntriesByEvent, updateScoutingEntryWithCorrection } from '@/db';
+import { formatMatchClock } from '@/core/lib/matchClock';
+import {
+    findActiveEventIndex,
+    formatVideoOffset,
+    getTimelinePercent,
+    isVideoFile,
+    loadVideoAlignment,
+    saveVideoAlignment,
+    toMatchTime,
+    toVideoTime,
+} from '@/core/lib/videoAlignment';
+import { cn } from '@/core/lib/utils';
+import { gameConstants } from '@/game-template/game-schema';
+import { buildReplayRobot, type ReplayEvent } from '@/game-template/matchReplay';
+import type { GameData, ScoutingEntry } from '@/game-template/scoring';
+import {
+    applyWaypointCorrection,
+    canDeleteWaypoint,
+    canEditWaypointFuel,
+    describeWaypointCorrection,
+    getWaypointFuel,
+    type WaypointCorrection,
+} from '@/game-template/waypointCorrections';
+
+interface MatchVideoReviewDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    eventKey: string;
+    /** Full TBA match key (e.g. "2026mrcmp_qm12") */
+    matchKey: string;
+    teams: { teamNumber: number; alliance: 'red' | 'blue' }[];
+    /** Robot to show first */
+    initialTeamNumber: number | null;
+    /** Called after a correction so validation can be refreshed */
+    onCorrected?: () => void;
+}
+
+/** How long an event stays on the video overlay after it happens */
+const OVERLAY_WINDOW_SEC = 2;
+const NUDGE_SEC = 0.5;
+
+const EVENT_COLORS: Record<string, string> = {
+    score: 'bg-green-500',
+    pass: 'bg-sky-500',
+    collect: 'bg-amber-500',
+    steal: 'bg-purple-500',
+    climb: 'bg-pink-500',
+    foul: 'bg-red-600',
+};
+
+const getEventColor = (type: string) => EVENT_COLORS[type] ?? 'bg-slate-400';
+
+const describeEvent = (event: ReplayEvent, fuel: number) => {
+    const label = event.action !== event.type ? `${event.type} (${event.action})` : event.type;
+    return fuel > 0 ? `${label} · ${fuel} fuel` : label;
+};
+
+const formatEventTime = (event: ReplayEvent) =>
+    `${event.phase === 'auto' ? 'A' : 'T'} ${formatMatchClock(event.time * 1000)}`;
+
+export function MatchVideoReviewDialog({
+    open,
+    onOpenChange,
+    eventKey,
+    matchKey,
+    teams,
+    initialTeamNumber,
+    onCorrected,
+}: MatchVideoReviewDialogProps) {
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const activeRowRef = useRef<HTMLButtonElement>(null);
+    const [videoUrl, setVideoUrl] = useState<string | null>(null);
+    const [videoName, setVideoName] = useState('');
+    const [videoTime, setVideoTime] = useState(0);
+    const [videoDuration, setVideoDuration] = useState(0);
+    const [autoStartSec, setAutoStartSec] = useState<number | null>(() => loadVideoAlignment(matchKey));
+    const [teamNumber, setTeamNumber] = useState<number | null>(initialTeamNumber);
+    const [entries, setEntries] = useState<ScoutingEntry[]>([]);
+    const [editing, setEditing] = useState<{ waypointId: string; fuel: string } | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        setAutoStartSec(loadVideoAlignment(matchKey));
+    }, [matchKey]);
+
+    useEffect(() => {
+        if (open && initialTeamNumber !== null) {
+            setTeamNumber(initialTeamNumber);
+        }
+    }, [open, initialTeamNumber]);
+
+    // Release the previous video when another is opened, and on unmount
+    useEffect(() => () => {
+        if (videoUrl) URL.revokeObjectURL(videoUrl);
+    }, [videoUrl]);
+
+    const loadEntries = useCallback(async () => {
+        try {
+            const shortKey = matchKey.split('_')[1] ?? matchKey;
+            const loaded = await loadScoutingEntriesByEvent<GameData>(eventKey);
+            setEntries(loaded.filter(entry => entry.matchKey === matchKey || entry.matchKey === shortKey) as ScoutingEntry[]);
+        } catch (error) {
+            console.error('Failed to load entries for video review:', error);
+            toast.error('Failed to load scouting entries');
+        }
+    }, [eventKey, matchKey]);
+
+    useEffect(() => {
+        if (open) {
+            void loadEntries();
+        }
+    }, [open, loadEntries]);
+
+    const selectedTeam = teams.find(team => team.teamNumber === teamNumber) ?? teams[0];
+    const entry = selectedTeam
+        ? entries
+            .filter(item => item.teamNumber === selectedTeam.teamNumber && item.allianceColor === selectedTeam.alliance)
+            .sort((a, b) => b.timestamp - a.timestamp)[0]
+        : undefined;
+    const events = useMemo(() => entry ? buildReplayRobot(entry).events : [], [entry]);
+
+    const matchTime = autoStartSec === null ? null : toMatchTime(autoStartSec, videoTime);
+    const activeIndex = matchTime === null ? -1 : findActiveEventIndex(events.map(event => event.time), matchTime);
+    const overlayEvents = matchTime === null
+        ? []
+        : events.filter(event => event.time <= matchTime && event.time > matchTime - OVERLAY_WINDOW_SEC);
+
+    useEffect(() => {
+        activeRowRef.current?.scrollIntoView({ block: 'nearest' });
+    }, [activeIndex]);
+
+    const getWaypoint = (event: ReplayEvent): Record<string, unknown> | undefined => {
+        const path = event.phase === 'auto' ? entry?.gameData?.auto?.autoPath : entry?.gameData?.teleop?.teleopPath;
+        return Array.isArray(path) ? path.find(waypoint => waypoint?.id === event.waypointId) : undefined;
+    };
+
+    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+
+        if (!isVideoFile(file)) {
+            toast.error('Choose a video file');
+            return;
+        }
+
+        setVideoUrl(URL.createObjectURL(file));
+        setVideoName(file.name);
+        setVideoTime(0);
+    };
+
+    const updateAlignment = (seconds: number) => {
+        const rounded = Math.max(0, Math.round(seconds * 10) / 10);
+        setAutoStartSec(rounded);
+        saveVideoAlignment(matchKey, rounded);
+    };
+
+    const seekTo = (seconds: number) => {
+        const video = videoRef.current;
+        if (!video) return;
+        video.currentTime = Math.max(0, seconds);
+        setVideoTime(video.currentTime);
+    };
+
+    const seekToEvent = (event: ReplayEvent) => {
+        if (autoStartSec === null) {
+            toast.info('Mark auto start first');
+            return;
+        }
+        seekTo(toVideoTime(autoStartSec, event.time));
+    };
+
+    const saveCorrection = async (event: ReplayEvent, correction: WaypointCorrection) => {
+        const waypoint = getWaypoint(event);
+        if (!entry || !waypoint || !event.waypointId) return;
+
+        const gameData = applyWaypointCorrection(entry.gameData, event.phase, event.waypointId, correction);
+        if (!gameData) {
+            toast.error('This action cannot be corrected here');
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            await updateScoutingEntryWithCorrection(
+                entry.id,
+                { ...entry, gameData, originalScoutName: entry.originalScoutName ?? entry.scoutName },
+                describeWaypointCorrection(event.phase, waypoint, correction),
+                localStorage.getItem('currentScout') || 'video-review'
+            );
+            toast.success('Entry corrected');
+            setEditing(null);
+            await loadEntries();
+            onCorrected?.();
+        } catch (error) {
+            console.error('Failed to save video review correction:', error);
+            toast.error('Failed to save correction');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-5xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Video Review</DialogTitle>
+                    <DialogDescription>
+                        Open a recording of this match, pause on the first frame of auto and mark it to line up the scouted events.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="flex flex-wrap items-center gap-2">
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept="video/*"
+                        className="hidden"
+                        onChange={handleFileChange}
+                    />
+                    <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                        <FileVideo className="h-4 w-4 mr-1" />
+                        {videoUrl ? 'Change video' : 'Open video'}
+                    </Button>
+                    {videoName && <span className="text-xs text-muted-foreground truncate max-w-48">{videoName}</span>}
+                    <Select
+                        value={selectedTeam ? String(selectedTeam.teamNumber) : ''}
+                        onValueChange={(value) => {
+                            setTeamNumber(Number(value));
+                            setEditing(null);
+                        }}
+                    >
+                        <SelectTrigger className="w-40 h-9 ml-auto">
+                            <SelectValue placeholder="Robot" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {teams.map((team) => (
+                                <SelectItem key={`${team.alliance}-${team.teamNumber}`} value={String(team.teamNumber)}>
+                                    <span className={team.alliance === 'red' ? 'text-red-600' : 'text-blue-600'}>
+                                        {team.teamNumber}
+                                    </span>
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+
+                <div className="grid gap-4 lg:grid-cols-[3fr_2fr]">
+                    <div className="space-y-2">
+                        <div className="relative rounded-lg overflow-hidden bg-black aspect-video">
+                            {videoUrl ? (
+                                <video
+                                    ref={videoRef}
+                                    src={videoUrl}
+                                    controls
+                                    playsInline
+                                    className="w-full h-full"
+                                    onTimeUpdate={(event) => setVideoTime(event.currentTarget.currentTime)}
+                                    onSeeked={(event) => setVideoTime(event.currentTarget.currentTime)}
+                                    onLoadedMetadata={(event) => setVideoDuration(event.currentTarget.duration)}
+                                />
+                            ) : (
+                                <div className="absolute inset-0 flex items-center justify-center text-sm text-slate-400">
+                                    No video loaded
+                                </div>
+                            )}
+                            {videoUrl && matchTime !== null && (
+                                <div className="absolute top-2 left-2 flex flex-col items-start gap-1 pointer-events-none">
+                                    <Badge variant="secondary" className="tabular-nums">
+                                        {matchTime < 0
+                                            ? `Auto in ${formatVideoOffset(-matchTime)}`
+                                            : `${matchTime < gameConstants.autoDuration ? 'Auto' : 'Teleop'} ${formatMatchClock(matchTime * 1000)}`}
+                                    </Badge>
+                                    {overlayEvents.map((event, index) => (
+                                        <Badge key={`${event.waypointId}-${index}`} className={cn('text-white', getEventColor(event.type))}>
+                                            {selectedTeam?.teamNumber} {describeEvent(event, getWaypointFuel(getWaypoint(event) ?? {}))}
+                                        </Badge>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+
+                        {/* Event markers along the video timeline */}
+                        <div className="relative h-6 rounded bg-muted">
+                            {autoStartSec !== null && videoDuration > 0 && events.map((event, index) => (
+                                <button
+                                    key={`${event.waypointId}-${index}`}
+                                    type="button"
+                                    title={`${formatEventTime(event)} ${event.type}`}
+                                    className={cn('absolute top-1 h-4 w-1.5 -ml-0.5 rounded-sm', getEventColor(event.type))}
+                                    style={{ left: `${getTimelinePercent(toVideoTime(autoStartSec, event.time), videoDuration)}%` }}
+                                    onClick={() => seekToEvent(event)}
+                                />
+                            ))}
+                            {videoDuration > 0 && (
+                                <div
+                                    className="absolute inset-y-0 w-0.5 bg-foreground pointer-events-none"
+                                    style={{ left: `${getTimelinePercent(videoTime, videoDuration)}%` }}
+                                />
+                            )}
+                        </div>
+
+                        <div className="flex flex-wrap items-center gap-2">
+                            <Button size="sm" disabled={!videoUrl} onClick={() => updateAlignment(videoTime)}>
+                                <Crosshair className="h-4 w-4 mr-1" />
+                                Mark auto start
+                            </Button>
+                            <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={autoStartSec === null}
+                                onClick={() => autoStartSec !== null && updateAlignment(autoStartSec - NUDGE_SEC)}
+                            >
+                                −{NUDGE_SEC}s
+                            </Button>
+                            <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={autoStartSec === null}
+                                onClick={() => autoStartSec !== null && updateAlignment(autoStartSec + NUDGE_SEC)}
+                            >
+                                +{NUDGE_SEC}s
+                            </Button>
+                            <span className="text-xs text-muted-foreground">
+                                {autoStartSec === null
+                                    ? 'Not aligned'
+                                    : `Auto starts at ${formatVideoOffset(autoStartSec)} in the video`}
+                            </span>
+                        </div>
+                    </div>
+
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between text-sm">
+                            <span className="font-semibold">
+                                {entry ? `${entry.teamNumber} · ${entry.scoutName}` : 'No scouted entry'}
+                            </span>
+                            {entry && <span className="text-xs text-muted-foreground">{events.length} events</span>}
+                        </div>
+                        <div className="max-h-96 overflow-y-auto rounded border divide-y">
+                            {events.length === 0 && (
+                                <p className="p-3 text-sm text-muted-foreground">No recorded events for this robot</p>
+                            )}
+                            {events.map((event, index) => {
+                                const waypoint = getWaypoint(event);
+                                const fuel = getWaypointFuel(waypoint ?? {});
+                                const isEditing = editing !== null && editing.waypointId === event.waypointId;
+                                const canCorrect = !!waypoint && !!event.waypointId;
+
+                                return (
+                                    <div
+                                        key={`${event.waypointId}-${index}`}
+                                        className={cn('flex items-center gap-2 px-2 py-1.5 text-sm', index === activeIndex && 'bg-primary/10')}
+                                    >
+                                        <button
+                                            ref={index === activeIndex ? activeRowRef : undefined}
+                                            type="button"
+                                            className="flex flex-1 items-center gap-2 min-w-0 text-left"
+                                            onClick={() => seekToEvent(event)}
+                                        >
+                                            <span className={cn('h-2.5 w-2.5 shrink-0 rounded-full', getEventColor(event.type))} />
+                                            <span className="w-14 shrink-0 tabular-nums text-xs text-muted-foreground">
+                                                {formatEventTime(event)}
+                                            </span>
+                                            <span className="truncate">{describeEvent(event, fuel)}</span>
+                                        </button>
+
+                                        {isEditing ? (
+                                            <>
+                                                <Input
+                                                    type="number"
+                                                    min={0}
+                                                    value={editing.fuel}
+                                                    onChange={(e) => setEditing({ ...editing, fuel: e.target.value })}
+                                                    className="h-7 w-16"
+                                                    autoFocus
+                                                />
+                                                <Button
+                                                    size="icon"
+                                                    variant="ghost"
+                                                    className="h-7 w-7"
+                                                    disabled={isSaving || editing.fuel === ''}
+                                                    onClick={() => void saveCorrection(event, { kind: 'fuel', fuel: Number(editing.fuel) })}
+                                                    title="Save fuel"
+                                                >
+                                                    {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                                                </Button>
+                                                <Button
+                                                    size="icon"
+                                                    variant="ghost"
+                                                    className="h-7 w-7"
+                                                    onClick={() => setEditing(null)}
+                                                    title="Cancel"
+                                                >
+                                                    <X className="h-4 w-4" />
+                                                </Button>
+                                            </>
+                                        ) : (
+                                            <>
+                                                {canCorrect && canEditWaypointFuel(event.type) && (
+                                                    <Button
+                                                        size="icon"
+                                                        variant="ghost"
+                                                        className="h-7 w-7"
+                                                        disabled={isSaving}
+                                                        onClick={() => setEditing({ waypointId: event.waypointId!, fuel: String(fuel) })}
+                                                        title="Edit fuel"
+                                                    >
+                                                        <Pencil className="h-3.5 w-3.5" />
+                                                    </Button>
+                                                )}
+                                                {canCorrect && canDeleteWaypoint(event.type) && (
+                                                    <Button
+                                                        size="icon"
+                                                        variant="ghost"
+                                                        className="h-7 w-7 text-destructive"
+                                                        disabled={isSaving}
+                                                        onClick={() => void saveCorrection(event, { kind: 'delete' })}
+                                                        title="Remove action"
+                                                    >
+                                                        <Trash2 className="h-3.5 w-3.5" />
+                                                    </Button>
+                                                )}
+                                            </>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                        {entry && (
+                            <p className="text-xs text-muted-foreground">
+                                Corrections are saved to the entry's history and can be reverted from History.
+                            </p>
+                        )}
+                    </div>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1 @@
+export { MatchVideoReviewDialog } from './MatchVideoReviewDialog';
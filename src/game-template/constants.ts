@@ -41,6 +41,11 @@ export const RANKING_POINT_THRESHOLDS = {
     FUEL_2: gameConstants.fuelRP2Threshold,
 } as const;
 
+export const MATCH_RESULT_RANKING_POINTS = {
+    WIN: gameConstants.winRankingPoints,
+    TIE: gameConstants.tieRankingPoints,
+} as const;
+
 export const ROBOT_RESTRICTIONS = {
     MAX_WEIGHT: gameConstants.maxWeight,
     MAX_PERIMETER: gameConstants.maxPerimeter,
@@ -0,0 +1,67 @@
+/**
+ * CSV import columns for 2026 gameData
+ *
+ * Derived from game-schema.ts like the QR codec layout, so new actions and
+ * toggles can be mapped from a spreadsheet without touching the importer.
+ * Paths match the CSV export headers (minus the `gameData.` prefix), so an
+ * exported sheet maps itself.
+ */
+
+import type { CsvImportField } from '@/core/lib/csvImport';
+import { actions, toggles } from './game-schema';
+
+const PHASE_LABELS = { auto: 'Auto', teleop: 'Teleop', endgame: 'Endgame' } as const;
+
+const TOGGLE_GROUP_LABELS: Record<string, string> = {
+    roleActive: 'Active Role',
+    roleInactive: 'Inactive Role',
+    passingZone: 'Passing',
+    accuracy: 'Accuracy',
+    teleopTraversal: 'Traversal',
+};
+
+const actionCountFields = (phase: 'auto' | 'teleop'): CsvImportField[] =>
+    Object.entries(actions)
+        .filter(([, action]) => action.pathType !== 'climb')
+        .map(([key, action]) => ({
+            path: `gameData.${phase}.${key}Count`,
+            label: `${PHASE_LABELS[phase]} ${action.label}`,
+            kind: 'number',
+        }));
+
+const phaseToggleFields = (phase: keyof typeof PHASE_LABELS): CsvImportField[] =>
+    Object.entries(toggles[phase] as Record<string, { label: string; group?: string }>).map(([key, toggle]) => {
+        const group = toggle.group ? TOGGLE_GROUP_LABELS[toggle.group] : undefined;
+        return {
+            path: `gameData.${phase}.${key}`,
+            label: `${PHASE_LABELS[phase]} ${group ? `${group}: ` : ''}${toggle.label}`,
+            kind: 'boolean',
+            aliases: [key],
+        };
+    });
+
+export const csvImportFields: CsvImportField[] = [
+    { path: 'gameData.auto.startPosition', label: 'Auto Start Position', kind: 'integer', aliases: ['start position'] },
+    ...actionCountFields('auto'),
+    { path: 'gameData.auto.autoClimbL1', label: 'Auto Climb L1', kind: 'boolean' },
+    ...phaseToggleFields('auto'),
+    ...actionCountFields('teleop'),
+    { path: 'gameData.teleop.playedDefense', label: 'Teleop Played Defense', kind: 'boolean' },
+    ...phaseToggleFields('teleop'),
+    { path: 'gameData.endgame.climbL1', label: 'Endgame Climb Level 1', kind: 'boolean' },
+    { path: 'gameData.endgame.climbL2', label: 'Endgame Climb Level 2', kind: 'boolean' },
+    { path: 'gameData.endgame.climbL3', label: 'Endgame Climb Level 3', kind: 'boolean' },
+    { path: 'gameData.endgame.climbFailed', label: 'Endgame Climb Failed', kind: 'boolean' },
+    ...phaseToggleFields('endgame'),
+    { path: 'gameData.auto.autoPath', label: 'Auto Path (JSON)', kind: 'json' },
+    { path: 'gameData.teleop.teleopPath', label: 'Teleop Path (JSON)', kind: 'json' },
+];
+
+/**
+ * Starting gameData for an imported row, before mapped columns are applied
+ */
+export const createCsvImportGameData = (): Record<string, unknown> => ({
+    auto: { startPosition: null },
+    teleop: {},
+    endgame: {},
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import type { ScoutReliability } from '@/core/lib/scoutReliability';
+import { estimateTeamFuel, type FuelEstimateEntry, type FuelEstimateTeamInput } from './fuelEstimate';
+
+function entries(scoutName: string, teleop: number[], scaled = false): FuelEstimateEntry[] {
+    return teleop.map((teleopFuel, index) => ({
+        matchKey: `qm${index + 1}`,
+        scoutName,
+        autoFuel: 0,
+        teleopFuel,
+        scaled,
+    }));
+}
+
+function reliability(scoutName: string, fuelBias: number, score: number): ScoutReliability {
+    return {
+        scoutName,
+        fuelMatches: 6,
+        fuelBias,
+        fuelBiasDirection: fuelBias > 0 ? 'over' : fuelBias < 0 ? 'under' : 'none',
+        fuelErrorRate: 0,
+        climbChecks: 6,
+        climbMismatches: 0,
+        climbMismatchRate: 0,
+        score,
+    };
+}
+
+const field: FuelEstimateTeamInput[] = [
+    { teamNumber: 1, entries: entries('Ann', [10, 12, 8, 10]) },
+    { teamNumber: 2, entries: entries('Ann', [20, 22, 18, 20]) },
+    { teamNumber: 3, entries: entries('Ann', [30, 32, 28, 30]) },
+];
+
+describe('estimateTeamFuel', () => {
+    it('shrinks toward the event mean and brackets the estimate with an interval', () => {
+        const estimates = estimateTeamFuel(field);
+        const low = estimates.get(1)!;
+        const high = estimates.get(3)!;
+
+        expect(low.total.mean).toBeGreaterThan(10);
+        expect(low.total.mean).toBeLessThan(20);
+        expect(high.total.mean).toBeLessThan(30);
+        expect(high.total.lower).toBeLessThan(high.total.mean);
+        expect(high.total.upper).toBeGreaterThan(high.total.mean);
+        expect(high.total.weights.scouting + high.total.weights.prior).toBeCloseTo(1, 1);
+    });
+
+    it('removes a scout bias from unscaled entries but trusts scaled ones', () => {
+        const biased = new Map([['Bo', reliability('Bo', 5, 75)]]);
+        const team = (scaled: boolean): FuelEstimateTeamInput[] => [
+            ...field,
+            { teamNumber: 4, entries: entries('Bo', [25, 25, 25, 25], scaled) },
+        ];
+
+        const corrected = estimateTeamFuel(team(false), { reliabilityByScout: biased }).get(4)!;
+        const scaled = estimateTeamFuel(team(true), { reliabilityByScout: biased }).get(4)!;
+
+        expect(corrected.total.mean).toBeLessThan(scaled.total.mean);
+        expect(corrected.teleop.mean).toBeCloseTo(corrected.total.mean, 0);
+    });
+
+    it('counts a match scouted twice once, leaning on the more reliable scout', () => {
+        const reliabilityByScout = new Map([
+            ['Good', reliability('Good', 0, 100)],
+            ['Poor', reliability('Poor', 0, 20)],
+        ]);
+        const duplicated: FuelEstimateTeamInput[] = [
+            ...field,
+            {
+                teamNumber: 5,
+                entries: [...entries('Good', [20, 20, 20, 20]), ...entries('Poor', [40, 40, 40, 40])],
+            },
+        ];
+
+        const estimate = estimateTeamFuel(duplicated, { reliabilityByScout }).get(5)!;
+
+        expect(estimate.scoutedMatches).toBe(4);
+        expect(estimate.total.mean).toBeLessThan(30);
+    });
+
+    it('weights mOPR by matches played and falls back to it without scouting', () => {
+        const withMopr = (matchesPlayed: number): FuelEstimateTeamInput[] => [
+            ...field.map(team => ({
+                ...team,
+                mopr: { matchesPlayed: 4, autoFuel: 0, teleopFuel: 10 * team.teamNumber, totalFuel: 10 * team.teamNumber },
+            })),
+            {
+                teamNumber: 6,
+                entries: entries('Ann', [10, 10]),
+                mopr: { matchesPlayed, autoFuel: 0, teleopFuel: 40, totalFuel: 40 },
+            },
+            {
+                teamNumber: 7,
+                entries: [],
+                mopr: { matchesPlayed: 8, autoFuel: 0, teleopFuel: 15, totalFuel: 15 },
+            },
+        ];
+        const rmse = { auto: 2, teleop: 6, total: 6 };
+
+        const few = estimateTeamFuel(withMopr(2), { moprRmse: rmse }).get(6)!;
+        const many = estimateTeamFuel(withMopr(12), { moprRmse: rmse });
+
+        expect(many.get(6)!.total.weights.mopr).toBeGreaterThan(few.total.weights.mopr);
+        expect(many.get(6)!.total.mean).toBeGreaterThan(few.total.mean);
+        expect(many.get(7)).toMatchObject({ scoutedMatches: 0, total: { weights: { scouting: 0 } } });
+    });
+});
@@ -0,0 +1,330 @@
+/**
+ * Fused Fuel Estimate - 2026 REBUILT
+ *
+ * Combines the three fuel numbers we have for a team into one estimate:
+ * - scouted fuel, alliance-scaled to TBA when the match has been validated,
+ *   otherwise bias-corrected by the scout's measured over/under-count
+ * - fuel mOPR from TBA alliance totals
+ * - the event-wide average (a prior that keeps thin records from running away)
+ *
+ * Each source is treated as a normal measurement of the team's true per-match
+ * fuel and weighted by its precision (1 / variance), so more matches, more
+ * reliable scouts and a tighter mOPR fit all earn more weight. The result is
+ * a posterior mean with a credible interval.
+ *
+ * Duplicate scouting of one robot in one match is averaged (reliability-weighted)
+ * before fusing - two scouts watching the same match reduce counting error but
+ * don't tell us more about how the robot plays across matches.
+ */
+
+import { getScoutReliabilityWeight, type ScoutReliability } from '@/core/lib/scoutReliability';
+import type { ScoutingEntry } from './scoring';
+
+export type FuelEstimatePhase = 'auto' | 'teleop' | 'total';
+
+export interface FuelEstimateEntry {
+    matchKey: string;
+    scoutName: string;
+    autoFuel: number;
+    teleopFuel: number;
+    /** Values are already scaled to the official alliance total */
+    scaled: boolean;
+}
+
+export interface FuelEstimateMopr {
+    matchesPlayed: number;
+    autoFuel: number;
+    teleopFuel: number;
+    totalFuel: number;
+}
+
+export interface FuelEstimateTeamInput {
+    teamNumber: number;
+    entries: FuelEstimateEntry[];
+    mopr?: FuelEstimateMopr;
+}
+
+export interface FuelEstimateOptions {
+    /** Scout name -> reliability for this event */
+    reliabilityByScout?: Map<string, ScoutReliability>;
+    /** Alliance residual RMSE from the mOPR fit */
+    moprRmse?: Record<FuelEstimatePhase, number>;
+    /** Interval width as a normal quantile (default 1.645 = 90%) */
+    intervalZ?: number;
+}
+
+export interface FuelEstimate {
+    mean: number;
+    lower: number;
+    upper: number;
+    standardDeviation: number;
+    /** Share of the estimate's precision that came from each source (0-1) */
+    weights: {
+        scouting: number;
+        mopr: number;
+        prior: number;
+    };
+}
+
+export interface TeamFuelEstimate {
+    teamNumber: number;
+    /** Distinct matches scouted (duplicates counted once) */
+    scoutedMatches: number;
+    auto: FuelEstimate;
+    teleop: FuelEstimate;
+    total: FuelEstimate;
+}
+
+const DEFAULT_INTERVAL_Z = 1.645;
+const PHASES: FuelEstimatePhase[] = ['auto', 'teleop', 'total'];
+
+// A match scouted twice counts a bit more than once, never as two matches
+const MAX_MATCH_EVIDENCE = 1.5;
+// Alliance residuals are shared by three robots and partners overlap, so a
+// team's mOPR is noisier than rmse^2 / matches alone
+const MOPR_VARIANCE_INFLATION = 1.5;
+// Below this many teams the between-team spread is meaningless; use a flat prior
+const MIN_TEAMS_FOR_PRIOR = 3;
+const MIN_VARIANCE = 1;
+
+interface SourceMeasurement {
+    mean: number;
+    variance: number;
+}
+
+interface ScoutedPhase {
+    mean: number;
+    evidence: number;
+    matchValues: number[];
+}
+
+const round = (value: number, decimals: number = 1): number =>
+    Math.round(value * Math.pow(10, decimals)) / Math.pow(10, decimals);
+
+const getPhaseValue = (values: { autoFuel: number; teleopFuel: number }, phase: FuelEstimatePhase): number => {
+    if (phase === 'auto') return values.autoFuel;
+    if (phase === 'teleop') return values.teleopFuel;
+    return values.autoFuel + values.teleopFuel;
+};
+
+const getMoprValue = (mopr: FuelEstimateMopr, phase: FuelEstimatePhase): number => {
+    if (phase === 'auto') return mopr.autoFuel;
+    if (phase === 'teleop') return mopr.teleopFuel;
+    return mopr.totalFuel;
+};
+
+/**
+ * Scouted fuel for one entry with the scout's bias taken out. Scaled entries
+ * already match TBA, so they are used as-is.
+ */
+const getCorrectedValue = (
+    entry: FuelEstimateEntry,
+    phase: FuelEstimatePhase,
+    reliability: ScoutReliability | undefined
+): number => {
+    const raw = getPhaseValue(entry, phase);
+    if (entry.scaled || !reliability || reliability.fuelBiasDirection === 'none') {
+        return raw;
+    }
+
+    // fuelBias is per match over the whole match; split it by where this scout logged fuel
+    const total = entry.autoFuel + entry.teleopFuel;
+    const share = phase === 'total' ? 1 : total > 0 ? raw / total : 0.5;
+    return Math.max(0, raw - reliability.fuelBias * share);
+};
+
+const summarizeScouted = (
+    entries: FuelEstimateEntry[],
+    phase: FuelEstimatePhase,
+    reliabilityByScout: Map<string, ScoutReliability> | undefined
+): ScoutedPhase | null => {
+    const byMatch = new Map<string, Array<{ value: number; weight: number }>>();
+
+    entries.forEach(entry => {
+        const reliability = reliabilityByScout?.get(entry.scoutName.trim());
+        const observations = byMatch.get(entry.matchKey) ?? [];
+        observations.push({
+            value: getCorrectedValue(entry, phase, reliability),
+            weight: getScoutReliabilityWeight(reliability),
+        });
+        byMatch.set(entry.matchKey, observations);
+    });
+
+    if (byMatch.size === 0) return null;
+
+    let weightedTotal = 0;
+    let evidence = 0;
+    const matchValues: number[] = [];
+
+    byMatch.forEach(observations => {
+        const weightTotal = observations.reduce((sum, observation) => sum + observation.weight, 0);
+        const value = observations.reduce((sum, observation) => sum + observation.value * observation.weight, 0)
+            / Math.max(weightTotal, Number.EPSILON);
+        const matchEvidence = Math.min(MAX_MATCH_EVIDENCE, weightTotal);
+
+        weightedTotal += value * matchEvidence;
+        evidence += matchEvidence;
+        matchValues.push(value);
+    });
+
+    return {
+        mean: weightedTotal / Math.max(evidence, Number.EPSILON),
+        evidence,
+        matchValues,
+    };
+};
+
+/** Match-to-match variance pooled across every team's scouted matches */
+const getPooledWithinTeamVariance = (scouted: ScoutedPhase[]): number => {
+    let squaredError = 0;
+    let degreesOfFreedom = 0;
+
+    scouted.forEach(team => {
+        if (team.matchValues.length < 2) return;
+        const mean = team.matchValues.reduce((sum, value) => sum + value, 0) / team.matchValues.length;
+        team.matchValues.forEach(value => {
+            squaredError += (value - mean) ** 2;
+        });
+        degreesOfFreedom += team.matchValues.length - 1;
+    });
+
+    return degreesOfFreedom > 0 ? Math.max(MIN_VARIANCE, squaredError / degreesOfFreedom) : MIN_VARIANCE;
+};
+
+const combineMeasurements = (measurements: SourceMeasurement[]): SourceMeasurement | null => {
+    const precision = measurements.reduce((sum, measurement) => sum + 1 / measurement.variance, 0);
+    if (precision <= 0) return null;
+    return {
+        mean: measurements.reduce((sum, measurement) => sum + measurement.mean / measurement.variance, 0) / precision,
+        variance: 1 / precision,
+    };
+};
+
+/**
+ * Event prior from the teams' data-only estimates: their average, and the
+ * spread between teams once sampling noise is taken out (method of moments)
+ */
+const getPrior = (estimates: SourceMeasurement[]): SourceMeasurement | null => {
+    if (estimates.length < MIN_TEAMS_FOR_PRIOR) return null;
+
+    const mean = estimates.reduce((sum, estimate) => sum + estimate.mean, 0) / estimates.length;
+    const observedVariance = estimates.reduce((sum, estimate) => sum + (estimate.mean - mean) ** 2, 0)
+        / (estimates.length - 1);
+    const samplingVariance = estimates.reduce((sum, estimate) => sum + estimate.variance, 0) / estimates.length;
+    const betweenTeamVariance = Math.max(observedVariance - samplingVariance, 0.25 * observedVariance, MIN_VARIANCE);
+
+    return { mean, variance: betweenTeamVariance };
+};
+
+/**
+ * Fused fuel estimate for every team at one event. Teams with neither scouting
+ * nor mOPR are left out.
+ */
+export function estimateTeamFuel(
+    teams: FuelEstimateTeamInput[],
+    options: FuelEstimateOptions = {}
+): Map<number, TeamFuelEstimate> {
+    const z = options.intervalZ ?? DEFAULT_INTERVAL_Z;
+    const result = new Map<number, TeamFuelEstimate>();
+    const phaseEstimates = new Map<FuelEstimatePhase, Map<number, FuelEstimate>>();
+
+    PHASES.forEach(phase => {
+        const scoutedByTeam = new Map<number, ScoutedPhase>();
+        teams.forEach(team => {
+            const scouted = summarizeScouted(team.entries, phase, options.reliabilityByScout);
+            if (scouted) scoutedByTeam.set(team.teamNumber, scouted);
+        });
+
+        const withinTeamVariance = getPooledWithinTeamVariance([...scoutedByTeam.values()]);
+        const moprResidualVariance = Math.max((options.moprRmse?.[phase] ?? 0) ** 2, withinTeamVariance);
+
+        const sourcesByTeam = new Map<number, { scouting?: SourceMeasurement; mopr?: SourceMeasurement }>();
+        teams.forEach(team => {
+            const scouted = scoutedByTeam.get(team.teamNumber);
+            const sources: { scouting?: SourceMeasurement; mopr?: SourceMeasurement } = {};
+
+            if (scouted) {
+                sources.scouting = { mean: scouted.mean, variance: withinTeamVariance / scouted.evidence };
+            }
+            if (team.mopr && team.mopr.matchesPlayed > 0) {
+                sources.mopr = {
+                    mean: getMoprValue(team.mopr, phase),
+                    variance: MOPR_VARIANCE_INFLATION * moprResidualVariance / team.mopr.matchesPlayed,
+                };
+            }
+            if (sources.scouting || sources.mopr) {
+                sourcesByTeam.set(team.teamNumber, sources);
+            }
+        });
+
+        const dataOnly = [...sourcesByTeam.values()]
+            .map(sources => combineMeasurements([sources.scouting, sources.mopr].filter((source): source is SourceMeasurement => !!source)))
+            .filter((estimate): estimate is SourceMeasurement => estimate !== null);
+        const prior = getPrior(dataOnly);
+
+        const estimates = new Map<number, FuelEstimate>();
+        sourcesByTeam.forEach((sources, teamNumber) => {
+            const measurements = [sources.scouting, sources.mopr, prior ?? undefined]
+                .filter((source): source is SourceMeasurement => !!source);
+            const posterior = combineMeasurements(measurements);
+            if (!posterior) return;
+
+            const share = (source: SourceMeasurement | undefined) =>
+                source ? round(posterior.variance / source.variance, 2) : 0;
+            const standardDeviation = Math.sqrt(posterior.variance);
+
+            estimates.set(teamNumber, {
+                mean: round(posterior.mean),
+                lower: round(Math.max(0, posterior.mean - z * standardDeviation)),
+                upper: round(posterior.mean + z * standardDeviation),
+                standardDeviation: round(standardDeviation, 2),
+                weights: {
+                    scouting: share(sources.scouting),
+                    mopr: share(sources.mopr),
+                    prior: share(prior ?? undefined),
+                },
+            });
+        });
+
+        phaseEstimates.set(phase, estimates);
+    });
+
+    teams.forEach(team => {
+        const auto = phaseEstimates.get('auto')?.get(team.teamNumber);
+        const teleop = phaseEstimates.get('teleop')?.get(team.teamNumber);
+        const total = phaseEstimates.get('total')?.get(team.teamNumber);
+        if (!auto || !teleop || !total) return;
+
+        result.set(team.teamNumber, {
+            teamNumber: team.teamNumber,
+            scoutedMatches: new Set(team.entries.map(entry => entry.matchKey)).size,
+            auto,
+            teleop,
+            total,
+        });
+    });
+
+    return result;
+}
+
+/** Fuel from one scouting entry, preferring alliance-scaled values */
+export function toFuelEstimateEntry(entry: ScoutingEntry): FuelEstimateEntry {
+    const scaledMetrics = entry.gameData?.scaledMetrics as {
+        scaledAutoFuel?: number;
+        scaledTeleopFuel?: number;
+    } | undefined;
+    const autoFuel = Number(entry.gameData?.auto?.fuelScoredCount) || 0;
+    const teleopFuel = Number(entry.gameData?.teleop?.fuelScoredCount) || 0;
+
+    if (typeof scaledMetrics?.scaledAutoFuel === 'number' && typeof scaledMetrics.scaledTeleopFuel === 'number') {
+        return {
+            matchKey: entry.matchKey,
+            scoutName: entry.scoutName,
+            autoFuel: scaledMetrics.scaledAutoFuel,
+            teleopFuel: scaledMetrics.scaledTeleopFuel,
+            scaled: true,
+        };
+    }
+
+    return { matchKey: entry.matchKey, scoutName: entry.scoutName, autoFuel, teleopFuel, scaled: false };
+}
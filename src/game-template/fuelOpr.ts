@@ -331,10 +331,19 @@ export function sweepFuelOPRLambda(
     };
 }
 
-export function calculateFuelOPRHybrid(
-    matches: TBAMatchData[],
-    options: FuelOPRHybridOptions = {}
-): FuelOPRHybridResult {
+/**
+ * Stateful λ schedule behind `calculateFuelOPRHybrid`. Each `advance` call
+ * handles one more eligible match, so callers that walk an event match by
+ * match get the same λ timeline without replaying earlier sweeps.
+ */
+export interface FuelOPRLambdaTracker {
+    readonly lambda: number;
+    readonly latestSweep: FuelOPRLambdaSweepResult | null;
+    /** `eligibleMatches` is the eligible history up to and including the new match */
+    advance(eligibleMatches: TBAMatchData[]): FuelOPRHybridTimelinePoint;
+}
+
+export function createFuelOPRLambdaTracker(options: FuelOPRHybridOptions = {}): FuelOPRLambdaTracker {
     const includePlayoffs = options.includePlayoffs ?? false;
     const nonNegative = options.nonNegative ?? false;
     const fallbackLambda = options.fallbackLambda ?? DEFAULT_HYBRID_FALLBACK_LAMBDA;
@@ -348,34 +357,31 @@ export function calculateFuelOPRHybrid(
 
     const clampLambda = (value: number) => Math.max(minLambda, Math.min(maxLambda, value));
     let currentLambda = clampLambda(fallbackLambda);
-    const timeline: FuelOPRHybridTimelinePoint[] = [];
     let latestSweep: FuelOPRLambdaSweepResult | null = null;
 
-    const eligibleMatches = getEligibleMatches(matches, includePlayoffs);
+    const advance = (eligibleMatches: TBAMatchData[]): FuelOPRHybridTimelinePoint => {
+        const matchCount = eligibleMatches.length;
 
-    for (let matchCount = 1; matchCount <= eligibleMatches.length; matchCount++) {
         if (matchCount < minMatchesForSweep || lambdas.length === 0) {
-            timeline.push({
+            return {
                 matchCount,
                 mode: 'fixed',
                 lambda: currentLambda,
                 sweptLambda: null,
-            });
-            continue;
+            };
         }
 
         const shouldSweep = (matchCount - minMatchesForSweep) % Math.max(1, updateEveryMatches) === 0;
         if (!shouldSweep) {
-            timeline.push({
+            return {
                 matchCount,
                 mode: 'carry',
                 lambda: currentLambda,
                 sweptLambda: null,
-            });
-            continue;
+            };
         }
 
-        latestSweep = sweepFuelOPRLambda(eligibleMatches.slice(0, matchCount), {
+        latestSweep = sweepFuelOPRLambda(eligibleMatches, {
             includePlayoffs,
             lambdas,
             nonNegative,
@@ -385,16 +391,42 @@ export function calculateFuelOPRHybrid(
         const blendedLambda = currentLambda * (1 - smoothing) + sweepChoice * smoothing;
         currentLambda = clampLambda(blendedLambda);
 
-        timeline.push({
+        return {
             matchCount,
             mode: 'swept',
             lambda: currentLambda,
             sweptLambda: latestSweep.bestLambda,
-        });
+        };
+    };
+
+    return {
+        get lambda() {
+            return currentLambda;
+        },
+        get latestSweep() {
+            return latestSweep;
+        },
+        advance,
+    };
+}
+
+export function calculateFuelOPRHybrid(
+    matches: TBAMatchData[],
+    options: FuelOPRHybridOptions = {}
+): FuelOPRHybridResult {
+    const includePlayoffs = options.includePlayoffs ?? false;
+    const nonNegative = options.nonNegative ?? false;
+    const tracker = createFuelOPRLambdaTracker(options);
+    const timeline: FuelOPRHybridTimelinePoint[] = [];
+
+    const eligibleMatches = getEligibleMatches(matches, includePlayoffs);
+
+    for (let matchCount = 1; matchCount <= eligibleMatches.length; matchCount++) {
+        timeline.push(tracker.advance(eligibleMatches.slice(0, matchCount)));
     }
 
     const opr = calculateFuelOPR(matches, {
-        ridgeLambda: currentLambda,
+        ridgeLambda: tracker.lambda,
         includePlayoffs,
         nonNegative,
     });
@@ -403,10 +435,10 @@ export function calculateFuelOPRHybrid(
 
     return {
         opr,
-        selectedLambda: currentLambda,
+        selectedLambda: tracker.lambda,
         mode,
         timeline,
-        latestSweep,
+        latestSweep: tracker.latestSweep,
     };
 }
 
@@ -425,6 +457,16 @@ function getEligibleMatches(matches: TBAMatchData[], includePlayoffs: boolean):
     });
 }
 
+/** Fuel counts for one alliance, or null when the alliance has no hub breakdown or isn't a full 3-robot alliance */
+export function getAllianceFuelSample(
+    match: TBAMatchData,
+    alliance: 'red' | 'blue'
+): { teams: number[]; autoFuel: number; teleopFuel: number; totalFuel: number } | null {
+    const scoreBreakdown = match.score_breakdown as { red?: Record<string, unknown>; blue?: Record<string, unknown> } | null;
+    const breakdown = scoreBreakdown?.[alliance];
+    return breakdown ? buildAllianceSample(match.alliances[alliance].team_keys, breakdown) : null;
+}
+
 function buildAllianceSamples(matches: TBAMatchData[], includePlayoffs: boolean): { samples: AllianceSample[]; matchCount: number } {
     const samples: AllianceSample[] = [];
     let eligibleMatches = 0;
@@ -15,6 +15,7 @@
  * - scoring.ts → uses schema for point calculations
  * - calculations.ts → uses schema for stat aggregations
  * - strategy-config.ts → uses schema to generate columns
+ * - scoutingCodecSchema.ts → uses schema to lay out binary QR columns
  */
 
 // =============================================================================
@@ -351,6 +352,10 @@ export const strategyColumns = {
         "rawValues.endgamePoints": { label: "Endgame Points", visible: true, numeric: true },
         "rawValues.scaledTotalFuel": { label: "Scaled Fuel (Total)", visible: true, numeric: true },
         "fuelTotalOPR": { label: "Fuel mOPR (Total)", visible: true, numeric: true },
+        "fusedTotalFuel": { label: "Fused Fuel (Total)", visible: true, numeric: true },
+        "fusedTotalFuelLower": { label: "Fused Fuel 90% Low", visible: true, numeric: true },
+        "fusedTotalFuelUpper": { label: "Fused Fuel 90% High", visible: true, numeric: true },
+        "fusedFuelScoutingShare": { label: "Fused Fuel From Scouting %", visible: false, numeric: true, percentage: true },
         "statboticsTotalPoints": { label: "Statbotics EPA (Total Points)", visible: false, numeric: true },
         "statboticsAutoPoints": { label: "Statbotics EPA (Auto Points)", visible: false, numeric: true },
         "statboticsTeleopPoints": { label: "Statbotics EPA (Teleop Points)", visible: false, numeric: true },
@@ -373,6 +378,7 @@ export const strategyColumns = {
         "rawValues.autoFuel": { label: "Auto Fuel", visible: true, numeric: true },
         "rawValues.scaledAutoFuel": { label: "Scaled Auto Fuel", visible: true, numeric: true },
         "fuelAutoOPR": { label: "Fuel mOPR (Auto)", visible: true, numeric: true },
+        "fusedAutoFuel": { label: "Fused Fuel (Auto)", visible: true, numeric: true },
         "statboticsAutoFuel": { label: "Statbotics EPA (Auto Fuel)", visible: false, numeric: true },
         "statboticsAutoTower": { label: "Statbotics EPA (Auto Tower)", visible: false, numeric: true },
         "coprHubAutoPoints": { label: "TBA COPR (Hub Auto)", visible: false, numeric: true },
@@ -392,6 +398,7 @@ export const strategyColumns = {
         "rawValues.teleopFuel": { label: "Teleop Fuel", visible: true, numeric: true },
         "rawValues.scaledTeleopFuel": { label: "Scaled Teleop Fuel", visible: true, numeric: true },
         "fuelTeleopOPR": { label: "Fuel mOPR (Teleop)", visible: true, numeric: true },
+        "fusedTeleopFuel": { label: "Fused Fuel (Teleop)", visible: true, numeric: true },
         "statboticsTeleopFuel": { label: "Statbotics EPA (Teleop+Endgame Fuel)", visible: false, numeric: true },
         "coprHubTeleopPoints": { label: "TBA COPR (Hub Teleop)", visible: false, numeric: true },
         "defenseEffectivenessScore": { label: "Defense Effectiveness %", visible: true, numeric: true, percentage: true },
@@ -409,6 +416,14 @@ export const strategyColumns = {
         "endgame.passedToNeutralRate": { label: "Passed Opponent → Neutral %", visible: false, numeric: true, percentage: true },
         "rawValues.teleopTrenchStuckDuration": { label: "Trench Stuck (s)", visible: true, numeric: true },
         "rawValues.teleopBumpStuckDuration": { label: "Bump Stuck (s)", visible: true, numeric: true },
+        "rawValues.cycleTimeSec": { label: "Cycle Time (s)", visible: true, numeric: true },
+        "rawValues.cyclesPerMatch": { label: "Cycles", visible: false, numeric: true },
+        "fastestCycleTimeSec": { label: "Fastest Cycle (s)", visible: false, numeric: true },
+        "allianceZoneTimeRate": { label: "Alliance Zone Time %", visible: false, numeric: true, percentage: true },
+        "neutralZoneTimeRate": { label: "Neutral Zone Time %", visible: false, numeric: true, percentage: true },
+        "opponentZoneTimeRate": { label: "Opponent Zone Time %", visible: false, numeric: true, percentage: true },
+        "idleTimeRate": { label: "Idle Time %", visible: false, numeric: true, percentage: true },
+        "brokenDownTimeRate": { label: "Broken Down Time %", visible: false, numeric: true, percentage: true },
     },
     // Endgame stats (climb rates are percentages, keep as-is)
     endgame: {
@@ -432,9 +447,9 @@ export const strategyColumns = {
  * Strategy presets for quick column selection
  */
 export const strategyPresets: Record<string, string[]> = {
-    essential: ["teamNumber", "matchCount", "rawValues.totalPoints", "rawValues.scaledTotalFuel", "fuelTotalOPR", "endgame.climbSuccessRate"],
-    auto: ["teamNumber", "matchCount", "rawValues.autoPoints", "rawValues.autoFuel", "rawValues.scaledAutoFuel", "fuelAutoOPR", "autoShotOnTheMoveRate", "autoShotStationaryRate", "autoClimbRate", "autoClimbAttempts", "autoClimbFromSideRate", "autoClimbFromMiddleRate", "rawValues.autoClimbStartTimeSec"],
-    teleop: ["teamNumber", "matchCount", "rawValues.teleopPoints", "rawValues.teleopFuel", "rawValues.scaledTeleopFuel", "fuelTeleopOPR", "defenseEffectivenessScore", "teleopShotOnTheMoveRate", "teleopShotStationaryRate", "rawValues.teleopFuelPassed", "endgame.usedTrenchInTeleopRate", "endgame.usedBumpInTeleopRate", "endgame.passedToAllianceFromNeutralRate", "endgame.passedToAllianceFromOpponentRate", "endgame.passedToNeutralRate"],
+    essential: ["teamNumber", "matchCount", "rawValues.totalPoints", "rawValues.scaledTotalFuel", "fuelTotalOPR", "fusedTotalFuel", "endgame.climbSuccessRate"],
+    auto: ["teamNumber", "matchCount", "rawValues.autoPoints", "rawValues.autoFuel", "rawValues.scaledAutoFuel", "fuelAutoOPR", "fusedAutoFuel", "autoShotOnTheMoveRate", "autoShotStationaryRate", "autoClimbRate", "autoClimbAttempts", "autoClimbFromSideRate", "autoClimbFromMiddleRate", "rawValues.autoClimbStartTimeSec"],
+    teleop: ["teamNumber", "matchCount", "rawValues.teleopPoints", "rawValues.teleopFuel", "rawValues.scaledTeleopFuel", "fuelTeleopOPR", "fusedTeleopFuel", "defenseEffectivenessScore", "teleopShotOnTheMoveRate", "teleopShotStationaryRate", "rawValues.teleopFuelPassed", "endgame.usedTrenchInTeleopRate", "endgame.usedBumpInTeleopRate", "endgame.passedToAllianceFromNeutralRate", "endgame.passedToAllianceFromOpponentRate", "endgame.passedToNeutralRate", "rawValues.cycleTimeSec", "rawValues.cyclesPerMatch", "idleTimeRate"],
     endgame: ["teamNumber", "matchCount", "rawValues.endgamePoints", "rawValues.endgameClimbStartTimeSec", "endgame.climbAttempts", "endgame.climbL1Rate", "endgame.climbL1Attempts", "endgame.climbL2Rate", "endgame.climbL2Attempts", "endgame.climbL3Rate", "endgame.climbL3Attempts", "endgame.climbFromSideRate", "endgame.climbFromMiddleRate"],
     basic: ["teamNumber", "eventKey", "matchCount"],
 };
@@ -709,6 +724,8 @@ export const gameConstants = {
     towerRPThreshold: 50,    // Tower points for 1 RP
     fuelRP1Threshold: 100,   // Fuel for first RP
     fuelRP2Threshold: 360,   // Fuel for second RP (cumulative)
+    winRankingPoints: 3,     // RP for a match win
+    tieRankingPoints: 1,     // RP for a match tie
 
     // Robot restrictions
     maxWeight: 115,          // lbs
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import {
+    DEFAULT_HEATMAP_FILTERS,
+    buildDensityGrid,
+    collectHeatmapPoints,
+    countMatchesInRange,
+    countZoneGrid,
+    type HeatmapFilters,
+    type HeatmapMatch,
+} from './heatmap';
+
+const matches: HeatmapMatch[] = [
+    {
+        autoPath: [
+            { type: 'start', position: { x: 0.3, y: 0.5 } },
+            { type: 'score', position: { x: 0.2, y: 0.5 }, shotType: 'stationary' },
+            { type: 'collect', position: { x: 0.05, y: 0.2 } },
+        ],
+        teleopPath: [
+            { type: 'score', position: { x: 0.25, y: 0.4 }, shotType: 'onTheMove' },
+            { type: 'pass', position: { x: 0.6, y: 0.5 } },
+            { type: 'score' },
+        ],
+    },
+    {
+        teleopPath: [{ type: 'steal', position: { x: 0.9, y: 0.9 } }],
+    },
+];
+
+describe('collectHeatmapPoints', () => {
+    it('keeps only the selected action types with a position', () => {
+        const points = collectHeatmapPoints(matches, DEFAULT_HEATMAP_FILTERS);
+
+        expect(points.map(point => [point.phase, point.x])).toEqual([['auto', 0.2], ['teleop', 0.25]]);
+    });
+
+    it('filters by phase, shot type and match range', () => {
+        const all: HeatmapFilters = { ...DEFAULT_HEATMAP_FILTERS, actionTypes: ['score', 'pass', 'collect', 'steal'] };
+
+        expect(collectHeatmapPoints(matches, { ...all, phase: 'auto' }).map(p => p.type))
+            .toEqual(['score', 'collect']);
+        expect(collectHeatmapPoints(matches, { ...all, shotType: 'onTheMove' }).map(p => p.type))
+            .toEqual(['collect', 'score', 'pass', 'steal']);
+        expect(collectHeatmapPoints(matches, { ...all, matchRange: [1, 1] }).map(p => p.type))
+            .toEqual(['steal']);
+    });
+
+    it('counts the matches a range covers', () => {
+        expect(countMatchesInRange(5, DEFAULT_HEATMAP_FILTERS)).toBe(5);
+        expect(countMatchesInRange(5, { ...DEFAULT_HEATMAP_FILTERS, matchRange: [3, 9] })).toBe(2);
+    });
+});
+
+describe('grids', () => {
+    it('peaks the density grid at the point and spreads to its neighbours', () => {
+        const grid = buildDensityGrid([{ x: 0.5, y: 0.5 }], 10, 10, 1, 0.5);
+
+        expect(grid.max).toBe(0.5);
+        expect(grid.cells[5 * 10 + 5]).toBe(0.5);
+        expect(grid.cells[5 * 10 + 6]).toBeGreaterThan(0);
+        expect(grid.cells[5 * 10 + 7]).toBe(0);
+    });
+
+    it('counts points per shot-grid cell', () => {
+        const counts = countZoneGrid([{ x: 0.1, y: 0.1 }, { x: 0.15, y: 0.05 }, { x: 0.99, y: 0.99 }]);
+
+        expect(counts[0]).toBe(2);
+        expect(counts[counts.length - 1]).toBe(1);
+        expect(counts.reduce((total, count) => total + count, 0)).toBe(3);
+    });
+});
@@ -0,0 +1,175 @@
+/**
+ * Action Location Heatmaps - 2026 REBUILT
+ *
+ * Aggregates the normalized `position` of score, pass, collect and steal
+ * waypoints across a team's matches. Positions are stored in blue alliance
+ * perspective, so matches from both alliances stack without mirroring; the
+ * view mirrors once when drawn.
+ *
+ * Two summaries are built from the same points:
+ * - a density grid, smoothed so nearby shots blend into hot spots
+ * - a coarse zone grid using the experiment shot-grid cells (A1-E5), which is
+ *   easier to read off when comparing teams
+ */
+
+import { getGridCellIndex } from '@/core/lib/experiment/metrics';
+import { SHOT_GRID_CELL_COUNT } from '@/core/lib/experiment/constants';
+import type { ShotType } from './components/field-map/types';
+
+export type HeatmapActionType = 'score' | 'pass' | 'collect' | 'steal';
+export type HeatmapPhase = 'all' | 'auto' | 'teleop';
+export type HeatmapShotType = 'all' | ShotType;
+
+export const HEATMAP_ACTION_TYPES: { id: HeatmapActionType; label: string }[] = [
+    { id: 'score', label: 'Shots' },
+    { id: 'pass', label: 'Passes' },
+    { id: 'collect', label: 'Collects' },
+    { id: 'steal', label: 'Steals' },
+];
+
+export interface HeatmapFilters {
+    phase: HeatmapPhase;
+    actionTypes: HeatmapActionType[];
+    /** Only narrows score actions; the other types have no shot type */
+    shotType: HeatmapShotType;
+    /** Inclusive indexes into the team's match list, or null for every match */
+    matchRange: [number, number] | null;
+}
+
+export const DEFAULT_HEATMAP_FILTERS: HeatmapFilters = {
+    phase: 'all',
+    actionTypes: ['score'],
+    shotType: 'all',
+    matchRange: null,
+};
+
+export interface HeatmapPoint {
+    x: number;
+    y: number;
+    type: HeatmapActionType;
+    phase: 'auto' | 'teleop';
+    matchIndex: number;
+}
+
+/** The waypoint fields of a match result the heatmap reads */
+export interface HeatmapMatch {
+    autoPath?: unknown[];
+    teleopPath?: unknown[];
+}
+
+export interface DensityGrid {
+    cols: number;
+    rows: number;
+    /** Row-major, `rows * cols` long */
+    cells: number[];
+    max: number;
+}
+
+const isHeatmapActionType = (type: unknown): type is HeatmapActionType =>
+    HEATMAP_ACTION_TYPES.some(option => option.id === type);
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const getPathPoints = (
+    path: unknown[] | undefined,
+    phase: 'auto' | 'teleop',
+    matchIndex: number,
+    filters: HeatmapFilters
+): HeatmapPoint[] => {
+    if (!Array.isArray(path)) return [];
+
+    return path.flatMap((waypoint) => {
+        if (!waypoint || typeof waypoint !== 'object') return [];
+        const record = waypoint as Record<string, unknown>;
+        if (!isHeatmapActionType(record.type) || !filters.actionTypes.includes(record.type)) return [];
+        if (record.type === 'score' && filters.shotType !== 'all' && record.shotType !== filters.shotType) return [];
+
+        const position = record.position as { x?: unknown; y?: unknown } | undefined;
+        if (typeof position?.x !== 'number' || typeof position.y !== 'number') return [];
+        if (!Number.isFinite(position.x) || !Number.isFinite(position.y)) return [];
+
+        return [{ x: clamp01(position.x), y: clamp01(position.y), type: record.type, phase, matchIndex }];
+    });
+};
+
+/**
+ * Points for the matches and actions the filters select, in blue alliance perspective.
+ */
+export function collectHeatmapPoints(matches: HeatmapMatch[], filters: HeatmapFilters): HeatmapPoint[] {
+    const [first, last] = filters.matchRange ?? [0, matches.length - 1];
+
+    return matches.flatMap((match, matchIndex) => {
+        if (matchIndex < first || matchIndex > last) return [];
+
+        return [
+            ...(filters.phase !== 'teleop' ? getPathPoints(match.autoPath, 'auto', matchIndex, filters) : []),
+            ...(filters.phase !== 'auto' ? getPathPoints(match.teleopPath, 'teleop', matchIndex, filters) : []),
+        ];
+    });
+}
+
+/** Number of matches the filters' match range covers */
+export function countMatchesInRange(matchCount: number, filters: HeatmapFilters): number {
+    if (!filters.matchRange) return matchCount;
+    const [first, last] = filters.matchRange;
+    return Math.max(0, Math.min(last, matchCount - 1) - Math.max(first, 0) + 1);
+}
+
+/**
+ * Smoothed density of points on a `cols` x `rows` grid. Each point spreads over
+ * `radius` cells with a Gaussian falloff; `weight` scales every point (e.g. 1 /
+ * matches, so teams with different match counts compare per match).
+ */
+export function buildDensityGrid(
+    points: Pick<HeatmapPoint, 'x' | 'y'>[],
+    cols = 48,
+    rows = 24,
+    radius = 2,
+    weight = 1
+): DensityGrid {
+    const cells = Array.from({ length: cols * rows }, () => 0);
+    const sigma = Math.max(radius / 2, 0.5);
+
+    points.forEach((point) => {
+        const col = Math.min(cols - 1, Math.floor(point.x * cols));
+        const row = Math.min(rows - 1, Math.floor(point.y * rows));
+
+        for (let dy = -radius; dy <= radius; dy++) {
+            for (let dx = -radius; dx <= radius; dx++) {
+                const c = col + dx;
+                const r = row + dy;
+                if (c < 0 || c >= cols || r < 0 || r >= rows) continue;
+
+                const falloff = Math.exp(-(dx * dx + dy * dy) / (2 * sigma * sigma));
+                cells[r * cols + c]! += falloff * weight;
+            }
+        }
+    });
+
+    return { cols, rows, cells, max: Math.max(0, ...cells) };
+}
+
+/** Point counts per shot-grid cell (row-major, see SHOT_GRID_CELL_LABELS) */
+export function countZoneGrid(points: Pick<HeatmapPoint, 'x' | 'y'>[]): number[] {
+    const counts = Array.from({ length: SHOT_GRID_CELL_COUNT }, () => 0);
+
+    points.forEach((point) => {
+        const index = getGridCellIndex(point);
+        if (index !== null) counts[index]! += 1;
+    });
+
+    return counts;
+}
+
+/**
+ * Heat color for an intensity in 0-1: transparent blue through yellow to red.
+ */
+export function getHeatColor(intensity: number): string {
+    const t = clamp01(intensity);
+    if (t === 0) return 'rgba(0, 0, 0, 0)';
+
+    // Hue 240 (blue) -> 60 (yellow) -> 0 (red)
+    const hue = t < 0.5 ? 240 - (t / 0.5) * 180 : 60 - ((t - 0.5) / 0.5) * 60;
+    const alpha = 0.15 + t * 0.6;
+    return `hsla(${Math.round(hue)}, 100%, 50%, ${alpha.toFixed(2)})`;
+}
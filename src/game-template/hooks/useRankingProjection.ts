@@ -0,0 +1,66 @@
+/**
+ * 2026 Game-Specific: Qualification Ranking Projection
+ *
+ * Loads the cached TBA matches, cached Statbotics EPA and the stored match
+ * schedule for an event, then runs the ranking projection over them.
+ */
+
+import { useEffect, useState } from 'react';
+import { getCachedTBAEventMatches } from '@/core/lib/tbaCache';
+import { getCachedEventStatboticsEPA } from '@/core/lib/statbotics/epaUtils';
+import { normalizeStoredMatchSchedule } from '@/core/lib/matchScheduleTransfer';
+import { projectQualificationRankings, type RankingProjectionResult } from '../rankingProjection';
+
+const PROJECTION_ITERATIONS = 2000;
+
+const loadStoredSchedule = () => {
+    try {
+        return normalizeStoredMatchSchedule(JSON.parse(localStorage.getItem('matchData') || '[]'));
+    } catch {
+        return [];
+    }
+};
+
+// Stable seed per event so the panel doesn't reshuffle on every visit
+const getProjectionSeed = (eventKey: string) =>
+    eventKey.split('').reduce((hash, char) => (Math.imul(hash, 31) + char.charCodeAt(0)) >>> 0, 17);
+
+export function useRankingProjection(eventKey: string | undefined) {
+    const [projection, setProjection] = useState<RankingProjectionResult | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+
+    useEffect(() => {
+        if (!eventKey) {
+            setProjection(null);
+            return;
+        }
+
+        let cancelled = false;
+        setIsLoading(true);
+
+        getCachedTBAEventMatches(eventKey)
+            .then(matches => {
+                if (cancelled) return;
+                // Stored schedule only belongs to the current event
+                const schedule = localStorage.getItem('eventKey') === eventKey ? loadStoredSchedule() : [];
+                const result = projectQualificationRankings(matches, schedule, getCachedEventStatboticsEPA(eventKey), {
+                    iterations: PROJECTION_ITERATIONS,
+                    seed: getProjectionSeed(eventKey),
+                });
+                setProjection(result.teams.length > 0 ? result : null);
+            })
+            .catch(error => {
+                console.error('Failed to project rankings:', error);
+                if (!cancelled) setProjection(null);
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [eventKey]);
+
+    return { projection, isLoading };
+}
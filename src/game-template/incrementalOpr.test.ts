@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import type { TBAMatchData } from '@/core/lib/tbaMatchData';
+import { calculateFuelOPR, calculateFuelOPRHybrid } from './fuelOpr';
+import { createIncrementalRidgeSolver } from './incrementalOpr';
+import { calculateRollingFuelMoprRatings } from './rollingFuelOpr';
+
+function createMatch(
+    matchNumber: number,
+    redTeams: number[],
+    blueTeams: number[],
+    red: [number, number],
+    blue: [number, number],
+): TBAMatchData {
+    const hubScore = ([autoCount, teleopCount]: [number, number]) => ({
+        autoCount,
+        teleopCount,
+        totalCount: autoCount + teleopCount,
+    });
+
+    return {
+        key: `2026test_qm${matchNumber}`,
+        event_key: '2026test',
+        comp_level: 'qm',
+        match_number: matchNumber,
+        set_number: 1,
+        alliances: {
+            red: {
+                score: red[0] + red[1],
+                team_keys: redTeams.map(team => `frc${team}`),
+                dq_team_keys: [],
+                surrogate_team_keys: [],
+            },
+            blue: {
+                score: blue[0] + blue[1],
+                team_keys: blueTeams.map(team => `frc${team}`),
+                dq_team_keys: [],
+                surrogate_team_keys: [],
+            },
+        },
+        score_breakdown: {
+            red: { hubScore: hubScore(red) },
+            blue: { hubScore: hubScore(blue) },
+        },
+        winning_alliance: '',
+        time: 0,
+        actual_time: 0,
+        predicted_time: 0,
+        post_result_time: 0,
+    };
+}
+
+/** Deterministic pseudo-random event so failures are reproducible */
+function createEvent(matchCount: number, teamCount: number): TBAMatchData[] {
+    let seed = 2026;
+    const next = () => {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+        return seed / 2147483648;
+    };
+
+    const teams = Array.from({ length: teamCount }, (_, i) => 100 + i * 37);
+    const strength = new Map(teams.map(team => [team, 2 + next() * 12] as const));
+    const fuel = (alliance: number[]): [number, number] => {
+        const total = alliance.reduce((sum, team) => sum + (strength.get(team) ?? 0), 0);
+        return [Math.round(total * 0.3 + next() * 6), Math.round(total * 0.7 + next() * 10)];
+    };
+
+    return Array.from({ length: matchCount }, (_, index) => {
+        const picked = [...teams].sort(() => next() - 0.5).slice(0, 6);
+        const red = picked.slice(0, 3);
+        const blue = picked.slice(3);
+        return createMatch(index + 1, red, blue, fuel(red), fuel(blue));
+    });
+}
+
+function addFuelRows(solver: ReturnType<typeof createIncrementalRidgeSolver>, match: TBAMatchData) {
+    for (const alliance of ['red', 'blue'] as const) {
+        const hubScore = (match.score_breakdown as Record<string, { hubScore: Record<string, number> }>)[alliance]!.hubScore;
+        const teams = match.alliances[alliance].team_keys.map(key => Number(key.replace('frc', '')));
+        solver.addAllianceRow(teams, [hubScore.autoCount ?? 0, hubScore.teleopCount ?? 0]);
+    }
+}
+
+describe('createIncrementalRidgeSolver', () => {
+    it('matches a full ridge solve after every match', () => {
+        const matches = createEvent(40, 24);
+        const solver = createIncrementalRidgeSolver(0.3, 2);
+
+        matches.forEach((match, index) => {
+            addFuelRows(solver, match);
+            const batch = calculateFuelOPR(matches.slice(0, index + 1), { ridgeLambda: 0.3 });
+
+            for (const team of batch.teams) {
+                const [auto = 0, teleop = 0] = solver.getTeamRatings(team.teamNumber);
+                expect(auto).toBeCloseTo(team.autoFuelOPR, 8);
+                expect(teleop).toBeCloseTo(team.teleopFuelOPR, 8);
+            }
+            expect(solver.getRatings().size).toBe(batch.teams.length);
+        });
+    });
+
+    it('re-factors accumulated rows when lambda changes', () => {
+        const matches = createEvent(15, 18);
+        const solver = createIncrementalRidgeSolver(0.3, 2);
+        matches.forEach(match => addFuelRows(solver, match));
+
+        for (const lambda of [0.01, 0.75, 0]) {
+            solver.setLambda(lambda);
+            const batch = calculateFuelOPR(matches, { ridgeLambda: lambda });
+
+            for (const team of batch.teams) {
+                const [auto = 0, teleop = 0] = solver.getTeamRatings(team.teamNumber);
+                expect(auto).toBeCloseTo(team.autoFuelOPR, 8);
+                expect(teleop).toBeCloseTo(team.teleopFuelOPR, 8);
+            }
+        }
+
+        addFuelRows(solver, createEvent(16, 18)[15]!);
+        expect(solver.rowCount).toBe(32);
+    });
+});
+
+describe('calculateRollingFuelMoprRatings equivalence', () => {
+    it('reproduces per-prefix fixed and hybrid solves across lambda sweeps', () => {
+        const matches = createEvent(22, 18);
+        const rolling = calculateRollingFuelMoprRatings(matches, { includePlayoffs: true, fixedLambda: 0.3 });
+
+        matches.forEach((match, index) => {
+            const prefix = matches.slice(0, index + 1);
+            const fixed = calculateFuelOPR(prefix, { ridgeLambda: 0.3, includePlayoffs: true });
+            const adaptive = calculateFuelOPRHybrid(prefix, { includePlayoffs: true, fallbackLambda: 0.3 });
+
+            for (const teamKey of [...match.alliances.red.team_keys, ...match.alliances.blue.team_keys]) {
+                const teamNumber = Number(teamKey.replace('frc', ''));
+                const rating = rolling.get(`${match.key}::${teamNumber}`);
+                const fixedTeam = fixed.teams.find(team => team.teamNumber === teamNumber);
+                const adaptiveTeam = adaptive.opr.teams.find(team => team.teamNumber === teamNumber);
+
+                expect(rating?.matchesProcessed).toBe(index + 1);
+                expect(rating?.fixedTotalMopr).toBe(Math.round((fixedTeam?.totalFuelOPR ?? 0) * 10) / 10);
+                expect(rating?.adaptiveTotalMopr).toBe(Math.round((adaptiveTeam?.totalFuelOPR ?? 0) * 10) / 10);
+                expect(rating?.adaptiveLambda).toBe(adaptive.selectedLambda);
+                expect(rating?.adaptiveMode).toBe(adaptive.mode);
+            }
+        });
+    });
+});
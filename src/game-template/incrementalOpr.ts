@@ -0,0 +1,329 @@
+import type { TBAMatchData } from '@/core/lib/tbaMatchData';
+
+/**
+ * Streaming ridge-regression OPR solver.
+ *
+ * Keeps the inverse of (AᵀA + λI) and the current solution, and folds in one
+ * alliance row at a time with a Sherman-Morrison (recursive least squares)
+ * update. Adding a row costs O(teams²) instead of re-solving the whole system,
+ * so rolling ratings over an event drop from O(matches · teams³) to
+ * O(matches · teams²). New teams start at rating 0 with a 1/λ prior, which is
+ * exactly what the batch ridge solve gives a team with no rows yet.
+ *
+ * Each row can carry several targets (e.g. auto + teleop, or score + corrected
+ * total) that share the same design matrix and therefore the same inverse.
+ */
+export interface IncrementalRidgeSolver {
+    readonly lambda: number;
+    readonly rowCount: number;
+    addAllianceRow(teams: number[], values: number[]): void;
+    /** Ratings for one team, one entry per target. Unknown teams rate 0. */
+    getTeamRatings(teamNumber: number): number[];
+    /** All known teams, sorted by team number */
+    getRatings(): Map<number, number[]>;
+    /** Re-factor the accumulated rows for a different ridge λ */
+    setLambda(lambda: number): void;
+}
+
+const COMP_LEVEL_ORDER: Record<string, number> = {
+    qm: 0,
+    ef: 1,
+    qf: 2,
+    sf: 3,
+    f: 4,
+};
+
+export function createIncrementalRidgeSolver(lambda: number, targetCount: number): IncrementalRidgeSolver {
+    const teamIndex = new Map<number, number>();
+    // Unregularized AᵀA, kept so λ can change without replaying rows
+    const gram: number[][] = [];
+    const rhs: number[][] = Array.from({ length: targetCount }, () => []);
+    let inverse: number[][] = [];
+    let solution: number[][] = Array.from({ length: targetCount }, () => []);
+    let currentLambda = lambda;
+    let rowCount = 0;
+    let stale = false;
+
+    // λ <= 0 has no well-defined prior for new teams, so solve directly on read instead
+    const streaming = () => currentLambda > 0;
+
+    const ensureTeam = (teamNumber: number): number => {
+        const existing = teamIndex.get(teamNumber);
+        if (existing !== undefined) {
+            return existing;
+        }
+
+        const index = teamIndex.size;
+        teamIndex.set(teamNumber, index);
+
+        for (const row of gram) row.push(0);
+        gram.push(new Array(index + 1).fill(0));
+        for (const values of rhs) values.push(0);
+        for (const values of solution) values.push(0);
+
+        if (streaming()) {
+            for (const row of inverse) row.push(0);
+            const newRow = new Array(index + 1).fill(0);
+            newRow[index] = 1 / currentLambda;
+            inverse.push(newRow);
+        }
+
+        return index;
+    };
+
+    const refactor = () => {
+        const n = teamIndex.size;
+        if (n === 0) {
+            inverse = [];
+            stale = false;
+            return;
+        }
+
+        if (!streaming()) {
+            inverse = [];
+            solution = rhs.map(values => solveRegularizedInTeamOrder(gram, values, currentLambda, teamIndex));
+            stale = false;
+            return;
+        }
+
+        const regularized = gram.map((row, i) => row.map((value, j) => (i === j ? value + currentLambda : value)));
+        inverse = invertMatrix(regularized);
+        solution = rhs.map(values => multiply(inverse, values));
+        stale = false;
+    };
+
+    const addAllianceRow = (teams: number[], values: number[]) => {
+        const indices = [...new Set(teams.map(ensureTeam))];
+        rowCount += 1;
+
+        for (const i of indices) {
+            for (const j of indices) {
+                gram[i]![j] = (gram[i]![j] ?? 0) + 1;
+            }
+            for (let target = 0; target < targetCount; target++) {
+                rhs[target]![i] = (rhs[target]![i] ?? 0) + (values[target] ?? 0);
+            }
+        }
+
+        if (!streaming()) {
+            stale = true;
+            return;
+        }
+
+        const n = teamIndex.size;
+        const gain = new Array(n).fill(0);
+        for (let i = 0; i < n; i++) {
+            const inverseRow = inverse[i]!;
+            let sum = 0;
+            for (const j of indices) sum += inverseRow[j] ?? 0;
+            gain[i] = sum;
+        }
+
+        let denominator = 1;
+        for (const i of indices) denominator += gain[i] ?? 0;
+
+        for (let target = 0; target < targetCount; target++) {
+            const x = solution[target]!;
+            let predicted = 0;
+            for (const i of indices) predicted += x[i] ?? 0;
+            const step = ((values[target] ?? 0) - predicted) / denominator;
+            for (let i = 0; i < n; i++) {
+                x[i] = (x[i] ?? 0) + (gain[i] ?? 0) * step;
+            }
+        }
+
+        for (let i = 0; i < n; i++) {
+            const scaled = (gain[i] ?? 0) / denominator;
+            if (scaled === 0) continue;
+            const inverseRow = inverse[i]!;
+            for (let j = 0; j < n; j++) {
+                inverseRow[j] = (inverseRow[j] ?? 0) - scaled * (gain[j] ?? 0);
+            }
+        }
+    };
+
+    const getTeamRatings = (teamNumber: number): number[] => {
+        if (stale) refactor();
+        const index = teamIndex.get(teamNumber);
+        return solution.map(values => (index !== undefined ? values[index] ?? 0 : 0));
+    };
+
+    const getRatings = (): Map<number, number[]> => {
+        if (stale) refactor();
+        const teamNumbers = [...teamIndex.keys()].sort((a, b) => a - b);
+        return new Map(teamNumbers.map(teamNumber => [teamNumber, getTeamRatings(teamNumber)] as const));
+    };
+
+    const setLambda = (nextLambda: number) => {
+        if (nextLambda === currentLambda) {
+            return;
+        }
+        currentLambda = nextLambda;
+        refactor();
+    };
+
+    return {
+        get lambda() {
+            return currentLambda;
+        },
+        get rowCount() {
+            return rowCount;
+        },
+        addAllianceRow,
+        getTeamRatings,
+        getRatings,
+        setLambda,
+    };
+}
+
+export function compareTbaMatches(a: TBAMatchData, b: TBAMatchData): number {
+    const compLevelDiff = (COMP_LEVEL_ORDER[a.comp_level] ?? 99) - (COMP_LEVEL_ORDER[b.comp_level] ?? 99);
+    if (compLevelDiff !== 0) {
+        return compLevelDiff;
+    }
+
+    if (a.set_number !== b.set_number) {
+        return a.set_number - b.set_number;
+    }
+
+    if (a.match_number !== b.match_number) {
+        return a.match_number - b.match_number;
+    }
+
+    return a.key.localeCompare(b.key);
+}
+
+export function extractAllianceTeams(match: TBAMatchData, alliance: 'red' | 'blue'): number[] {
+    return match.alliances[alliance].team_keys
+        .map(teamKey => Number.parseInt(teamKey.replace('frc', ''), 10))
+        .filter(teamNumber => Number.isFinite(teamNumber));
+}
+
+function multiply(matrix: number[][], vector: number[]): number[] {
+    return matrix.map(row => row.reduce((sum, value, j) => sum + value * (vector[j] ?? 0), 0));
+}
+
+/** Direct solve with teams in ascending number order, the same pivot order the batch solvers use */
+function solveRegularizedInTeamOrder(
+    gram: number[][],
+    vector: number[],
+    lambda: number,
+    teamIndex: Map<number, number>
+): number[] {
+    const order = [...teamIndex.entries()].sort((a, b) => a[0] - b[0]).map(([, index]) => index);
+    const regularized = order.map((i, row) => order.map((j, col) => (gram[i]![j] ?? 0) + (row === col ? lambda : 0)));
+    const solved = gaussianEliminationSolve(regularized, order.map(i => vector[i] ?? 0));
+
+    const result = new Array(order.length).fill(0);
+    order.forEach((index, position) => {
+        result[index] = solved[position] ?? 0;
+    });
+    return result;
+}
+
+/** Gauss-Jordan inverse with partial pivoting. Singular systems invert to zeros, matching the batch solver. */
+function invertMatrix(matrix: number[][]): number[][] {
+    const n = matrix.length;
+    const A = matrix.map(row => [...row]);
+    const inverse = Array.from({ length: n }, (_, i) => {
+        const row = new Array(n).fill(0);
+        row[i] = 1;
+        return row;
+    });
+
+    for (let pivot = 0; pivot < n; pivot++) {
+        let maxRow = pivot;
+        let maxAbs = Math.abs(A[pivot]?.[pivot] ?? 0);
+
+        for (let row = pivot + 1; row < n; row++) {
+            const value = Math.abs(A[row]?.[pivot] ?? 0);
+            if (value > maxAbs) {
+                maxAbs = value;
+                maxRow = row;
+            }
+        }
+
+        if (maxAbs < 1e-12) {
+            return Array.from({ length: n }, () => new Array(n).fill(0));
+        }
+
+        if (maxRow !== pivot) {
+            [A[pivot], A[maxRow]] = [A[maxRow]!, A[pivot]!];
+            [inverse[pivot], inverse[maxRow]] = [inverse[maxRow]!, inverse[pivot]!];
+        }
+
+        const pivotValue = A[pivot]![pivot]!;
+        for (let col = 0; col < n; col++) {
+            A[pivot]![col] = (A[pivot]![col] ?? 0) / pivotValue;
+            inverse[pivot]![col] = (inverse[pivot]![col] ?? 0) / pivotValue;
+        }
+
+        for (let row = 0; row < n; row++) {
+            if (row === pivot) continue;
+            const factor = A[row]![pivot] ?? 0;
+            if (factor === 0) continue;
+
+            for (let col = 0; col < n; col++) {
+                A[row]![col] = (A[row]![col] ?? 0) - factor * (A[pivot]![col] ?? 0);
+                inverse[row]![col] = (inverse[row]![col] ?? 0) - factor * (inverse[pivot]![col] ?? 0);
+            }
+        }
+    }
+
+    return inverse;
+}
+
+function gaussianEliminationSolve(matrix: number[][], vector: number[]): number[] {
+    const n = matrix.length;
+    const A = matrix.map(row => [...row]);
+    const b = [...vector];
+
+    for (let pivot = 0; pivot < n; pivot++) {
+        let maxRow = pivot;
+        let maxAbs = Math.abs(A[pivot]?.[pivot] ?? 0);
+
+        for (let row = pivot + 1; row < n; row++) {
+            const value = Math.abs(A[row]?.[pivot] ?? 0);
+            if (value > maxAbs) {
+                maxAbs = value;
+                maxRow = row;
+            }
+        }
+
+        if (maxAbs < 1e-12) {
+            return new Array(n).fill(0);
+        }
+
+        if (maxRow !== pivot) {
+            [A[pivot], A[maxRow]] = [A[maxRow]!, A[pivot]!];
+            [b[pivot], b[maxRow]] = [b[maxRow]!, b[pivot]!];
+        }
+
+        const pivotValue = A[pivot]![pivot]!;
+        for (let col = pivot; col < n; col++) {
+            A[pivot]![col] = (A[pivot]![col] ?? 0) / pivotValue;
+        }
+        b[pivot] = (b[pivot] ?? 0) / pivotValue;
+
+        for (let row = pivot + 1; row < n; row++) {
+            const factor = A[row]![pivot] ?? 0;
+            if (factor === 0) continue;
+
+            for (let col = pivot; col < n; col++) {
+                A[row]![col] = (A[row]![col] ?? 0) - factor * (A[pivot]![col] ?? 0);
+            }
+            b[row] = (b[row] ?? 0) - factor * (b[pivot] ?? 0);
+        }
+    }
+
+    const x = new Array(n).fill(0);
+    for (let row = n - 1; row >= 0; row--) {
+        let sum = b[row] ?? 0;
+        for (let col = row + 1; col < n; col++) {
+            sum -= (A[row]![col] ?? 0) * (x[col] ?? 0);
+        }
+        x[row] = sum;
+    }
+
+    return x;
+}
@@ -10,7 +10,7 @@
 
 import type { TeamStats } from "@/core/types/team-stats";
 
-export type MatchStrategyDisplayMode = 'scouted' | 'scaled' | 'copr' | 'epa' | 'opr';
+export type MatchStrategyDisplayMode = 'scouted' | 'scaled' | 'copr' | 'epa' | 'opr' | 'fused';
 
 interface MatchStrategyValueOverride {
     key?: string;
@@ -64,6 +64,7 @@ export const matchStrategyDisplayModes: Array<{ id: MatchStrategyDisplayMode; la
     { id: 'copr', label: 'cOPR' },
     { id: 'epa', label: 'EPA' },
     { id: 'opr', label: 'OPR' },
+    { id: 'fused', label: 'Fused' },
 ];
 
 /**
@@ -87,6 +88,31 @@ export const matchStrategyConfig: {
             id: 'overall',
             label: 'Overall',
             gridCols: 3,
+            extraStatsByMode: {
+                fused: [
+                    {
+                        key: 'fusedTotalFuelLower',
+                        label: '90% Low',
+                        color: 'text-slate-600',
+                        format: 'number',
+                        decimals: 1,
+                    },
+                    {
+                        key: 'fusedTotalFuelUpper',
+                        label: '90% High',
+                        color: 'text-slate-600',
+                        format: 'number',
+                        decimals: 1,
+                    },
+                    {
+                        key: 'fusedFuelScoutingShare',
+                        label: 'From Scouting',
+                        color: 'text-purple-600',
+                        format: 'percent',
+                        decimals: 0,
+                    },
+                ],
+            },
             summary: {
                 key: 'overall.avgTotalPoints',
                 label: 'Total Points',
@@ -95,6 +121,7 @@ export const matchStrategyConfig: {
                     copr: { key: 'coprTotalPoints', label: 'Total Points' },
                     epa: { key: 'statboticsTotalPoints', label: 'Total Points' },
                     opr: { key: 'fuelTotalOPR', label: 'Fuel Total OPR' },
+                    fused: { key: 'fusedTotalFuel', label: 'Fused Fuel' },
                 },
             },
             stats: [
@@ -110,6 +137,7 @@ export const matchStrategyConfig: {
                         copr: { key: 'coprTotalPoints', label: 'cOPR Points' },
                         epa: { key: 'statboticsTotalFuel', label: 'Total Fuel' },
                         opr: { key: 'fuelTotalOPR', label: 'Fuel Total OPR' },
+                        fused: { key: 'fusedTotalFuel', label: 'Fused Fuel' },
                     }
                 },
                 {
@@ -124,6 +152,7 @@ export const matchStrategyConfig: {
                         copr: { key: 'coprTotalTowerPoints', label: 'Tower Points' },
                         epa: { key: 'statboticsTotalTower', label: 'Tower Points' },
                         opr: { hidden: true },
+                        fused: { hidden: true },
                     }
                 },
                 {
@@ -137,6 +166,7 @@ export const matchStrategyConfig: {
                         scaled: { hidden: true },
                         epa: { key: 'statboticsTotalPoints', label: 'Total Points' },
                         opr: { hidden: true },
+                        fused: { hidden: true },
                     }
                 },
                 {
@@ -167,6 +197,7 @@ export const matchStrategyConfig: {
                     copr: { key: 'coprTotalAutoPoints', label: 'Auto Points' },
                     epa: { key: 'statboticsAutoPoints', label: 'Auto Points' },
                     opr: { key: 'fuelAutoOPR', label: 'Fuel mOPR' },
+                    fused: { key: 'fusedAutoFuel', label: 'Fused Fuel' },
                 },
             },
             stats: [
@@ -182,6 +213,7 @@ export const matchStrategyConfig: {
                         copr: { key: 'coprTotalAutoPoints', label: 'Auto Points' },
                         epa: { key: 'statboticsAutoFuel', label: 'Fuel' },
                         opr: { key: 'fuelAutoOPR', label: 'Fuel mOPR' },
+                        fused: { key: 'fusedAutoFuel', label: 'Fused Fuel' },
                     }
                 },
                 {
@@ -196,6 +228,7 @@ export const matchStrategyConfig: {
                         copr: { key: 'coprAutoTowerPoints', label: 'Tower Points' },
                         epa: { key: 'statboticsAutoTower', label: 'Tower Points' },
                         opr: { hidden: true },
+                        fused: { hidden: true },
                     }
                 },
                 {
@@ -226,6 +259,7 @@ export const matchStrategyConfig: {
                     copr: { key: 'coprTotalTeleopPoints', label: 'Teleop Points' },
                     epa: { key: 'statboticsTeleopPoints', label: 'Teleop Points' },
                     opr: { key: 'fuelTeleopOPR', label: 'Fuel mOPR' },
+                    fused: { key: 'fusedTeleopFuel', label: 'Fused Fuel' },
                 },
             },
             stats: [
@@ -241,6 +275,7 @@ export const matchStrategyConfig: {
                         copr: { key: 'coprTotalTeleopPoints', label: 'Teleop Points' },
                         epa: { key: 'statboticsTeleopTotalFuel', label: 'Teleop + Endgame Fuel' },
                         opr: { key: 'fuelTeleopOPR', label: 'Fuel mOPR' },
+                        fused: { key: 'fusedTeleopFuel', label: 'Fused Fuel' },
                     }
                 },
                 {
@@ -254,6 +289,7 @@ export const matchStrategyConfig: {
                         scaled: { hidden: true },
                         epa: { key: 'statboticsTeleopPoints', label: 'Teleop Points', color: 'text-blue-600' },
                         opr: { hidden: true },
+                        fused: { hidden: true },
                     }
                 },
                 {
@@ -300,6 +336,7 @@ export const matchStrategyConfig: {
                     copr: { key: 'coprEndgameTowerPoints', label: 'Tower Points' },
                     epa: { key: 'statboticsEndgameTower', label: 'Tower Points' },
                     opr: { hidden: true },
+                    fused: { hidden: true },
                 },
             },
             stats: [
@@ -490,6 +527,11 @@ export function getAvailableMatchStrategyDisplayModes(options: {
         modes.push('opr');
     }
 
+    // Fused estimates are attached to team stats whenever scouting or mOPR exists
+    if (options.teamStats.some(team => typeof team.fusedTotalFuel === 'number')) {
+        modes.push('fused');
+    }
+
     return modes;
 }
 
@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import type { TBAMatchData } from '@/core/lib/tbaMatchData';
+import type { ScoutingEntry } from './scoring';
+import {
+    buildMatchReplay,
+    buildReplayRobot,
+    compareAllianceFuel,
+    getAllianceFuelAt,
+    getRobotPositionAt,
+} from './matchReplay';
+
+type Waypoint = {
+    type: string;
+    position?: { x: number; y: number };
+    matchTime?: number;
+    timestamp?: number;
+    fuelDelta?: number;
+};
+
+function entry(
+    teamNumber: number,
+    allianceColor: 'red' | 'blue',
+    autoPath: Waypoint[],
+    teleopPath: Waypoint[] = [],
+    timestamp = 0
+): ScoutingEntry {
+    return {
+        id: `entry-${teamNumber}-${timestamp}`,
+        teamNumber,
+        matchNumber: 1,
+        matchKey: 'qm1',
+        allianceColor,
+        scoutName: 'Ann',
+        eventKey: '2026test',
+        timestamp,
+        gameData: {
+            auto: { autoPath },
+            teleop: { teleopPath },
+            endgame: {},
+        },
+    } as unknown as ScoutingEntry;
+}
+
+const at = (x: number, y: number) => ({ x, y });
+
+describe('buildReplayRobot', () => {
+    it('uses match clock times and counts fuel from score waypoints', () => {
+        const robot = buildReplayRobot(entry(1, 'red', [
+            { type: 'start', position: at(0.3, 0.5), matchTime: 0 },
+            { type: 'score', position: at(0.2, 0.5), matchTime: 3.2, fuelDelta: -8 },
+        ], [
+            { type: 'collect', position: at(0.5, 0.5), matchTime: 40 },
+            { type: 'pass', position: at(0.6, 0.5), matchTime: 45, fuelDelta: -5 },
+        ]));
+
+        expect(robot.estimatedTimes).toBe(false);
+        expect(robot.events.map(event => [event.time, event.type, event.fuel])).toEqual([
+            [0, 'start', 0],
+            [3.2, 'score', 8],
+            [40, 'collect', 0],
+            [45, 'pass', 0],
+        ]);
+    });
+
+    it('anchors each phase at its first waypoint without a match clock', () => {
+        const robot = buildReplayRobot(entry(1, 'red', [
+            { type: 'start', position: at(0.3, 0.5), timestamp: 1_000_000 },
+            { type: 'score', position: at(0.2, 0.5), timestamp: 1_004_000 },
+            // Recorded late - held at the end of auto
+            { type: 'collect', position: at(0.1, 0.5), timestamp: 1_060_000 },
+        ], [
+            { type: 'score', position: at(0.2, 0.5), timestamp: 2_000_000 },
+            { type: 'score', position: at(0.2, 0.5), timestamp: 2_030_000 },
+        ]));
+
+        expect(robot.estimatedTimes).toBe(true);
+        expect(robot.events.map(event => event.time)).toEqual([0, 4, 20, 20, 50]);
+        expect(robot.events.map(event => event.phase)).toEqual(['auto', 'auto', 'auto', 'teleop', 'teleop']);
+    });
+
+    it('skips waypoints without a position', () => {
+        const robot = buildReplayRobot(entry(1, 'red', [{ type: 'score', matchTime: 2 }]));
+
+        expect(robot.events).toEqual([]);
+    });
+});
+
+describe('buildMatchReplay', () => {
+    it('orders red then blue and keeps the latest entry for a team', () => {
+        const replay = buildMatchReplay('2026test_qm1', [
+            entry(20, 'blue', []),
+            entry(3, 'red', [], [], 5),
+            entry(10, 'blue', []),
+            entry(3, 'red', [], [], 9),
+            entry(1, 'red', []),
+        ]);
+
+        expect(replay.robots.map(robot => robot.teamNumber)).toEqual([1, 3, 10, 20]);
+        expect(replay.robots[1]?.entryId).toBe('entry-3-9');
+        expect(replay.duration).toBe(160);
+    });
+});
+
+describe('getRobotPositionAt', () => {
+    const robot = buildReplayRobot(entry(1, 'red', [
+        { type: 'start', position: at(0.2, 0.4), matchTime: 2 },
+        { type: 'score', position: at(0.4, 0.8), matchTime: 6 },
+    ]));
+
+    it('interpolates between events and holds at the last one', () => {
+        expect(getRobotPositionAt(robot, 1)).toBeNull();
+        expect(getRobotPositionAt(robot, 2)).toEqual(at(0.2, 0.4));
+        const midway = getRobotPositionAt(robot, 4)!;
+        expect(midway.x).toBeCloseTo(0.3);
+        expect(midway.y).toBeCloseTo(0.6);
+        expect(getRobotPositionAt(robot, 100)).toEqual(at(0.4, 0.8));
+    });
+});
+
+describe('alliance fuel', () => {
+    const replay = buildMatchReplay('2026test_qm1', [
+        entry(1, 'red', [{ type: 'score', position: at(0.2, 0.5), matchTime: 5, fuelDelta: -8 }], [
+            { type: 'score', position: at(0.2, 0.5), matchTime: 60, fuelDelta: -10 },
+        ]),
+        entry(2, 'red', [], [{ type: 'score', position: at(0.2, 0.5), matchTime: 30, fuelDelta: -4 }]),
+        entry(3, 'blue', [{ type: 'score', position: at(0.2, 0.5), matchTime: 8, fuelDelta: -6 }]),
+    ]);
+
+    it('totals scouted fuel up to a match time', () => {
+        expect(getAllianceFuelAt(replay, 'red', 4)).toBe(0);
+        expect(getAllianceFuelAt(replay, 'red', 30)).toBe(12);
+        expect(getAllianceFuelAt(replay, 'red', 160)).toBe(22);
+        expect(getAllianceFuelAt(replay, 'blue', 160)).toBe(6);
+    });
+
+    it('compares scouted fuel with the TBA hub counts', () => {
+        const tbaMatch = {
+            alliances: {
+                red: { team_keys: ['frc1', 'frc2', 'frc4'] },
+                blue: { team_keys: ['frc3', 'frc5'] },
+            },
+            score_breakdown: {
+                red: { hubScore: { autoCount: 9, teleopCount: 15, totalCount: 24 } },
+                blue: { hubScore: { autoCount: 6, teleopCount: 0, totalCount: 6 } },
+            },
+        } as unknown as TBAMatchData;
+
+        const [red, blue] = compareAllianceFuel(replay, tbaMatch);
+
+        expect(red).toEqual({
+            alliance: 'red',
+            scoutedAutoFuel: 8,
+            scoutedTotalFuel: 22,
+            tba: { autoFuel: 9, teleopFuel: 15, totalFuel: 24 },
+        });
+        // Not a full alliance, so TBA counts cannot be attributed
+        expect(blue?.tba).toBeNull();
+        expect(compareAllianceFuel(replay, null)[0]?.tba).toBeNull();
+    });
+});
@@ -0,0 +1,220 @@
+/**
+ * Match Replay - 2026 REBUILT
+ *
+ * Lines up the six scouted entries for one match on a shared match clock so
+ * the robots can be animated together. Each robot becomes a list of timed
+ * events built from its auto and teleop waypoints; its position between two
+ * events is interpolated along the straight line joining them.
+ *
+ * Waypoints stamped by the match clock use their `matchTime`. Older entries
+ * only have wall-clock timestamps, so each phase is anchored at its first
+ * waypoint (auto at 0s, teleop at the end of auto) and the robot is flagged
+ * as estimated.
+ *
+ * Running alliance fuel totals come from score waypoints and are compared
+ * against the hub counts in the TBA score breakdown.
+ */
+
+import type { TBAMatchData } from '@/core/lib/tbaMatchData';
+import { getAllianceFuelSample } from './fuelOpr';
+import { gameConstants } from './game-schema';
+import type { ScoutingEntry } from './scoring';
+
+export type ReplayAlliance = 'red' | 'blue';
+export type ReplayPhase = 'auto' | 'teleop';
+
+export interface ReplayEvent {
+    /** The waypoint's id, when it has one */
+    waypointId: string | null;
+    /** Seconds since the start of auto */
+    time: number;
+    phase: ReplayPhase;
+    type: string;
+    action: string;
+    /** Normalized 0-1, blue alliance perspective */
+    position: { x: number; y: number };
+    /** Fuel scored by this event (score events only) */
+    fuel: number;
+}
+
+export interface ReplayRobot {
+    entryId: string;
+    teamNumber: number;
+    alliance: ReplayAlliance;
+    scoutName: string;
+    events: ReplayEvent[];
+    /** Some event times were estimated from wall-clock timestamps */
+    estimatedTimes: boolean;
+}
+
+export interface MatchReplay {
+    matchKey: string;
+    /** Red robots first, then blue, each by team number */
+    robots: ReplayRobot[];
+    /** Seconds; the full match unless an event was recorded after it */
+    duration: number;
+}
+
+export interface AllianceFuelComparison {
+    alliance: ReplayAlliance;
+    scoutedAutoFuel: number;
+    scoutedTotalFuel: number;
+    /** Hub counts from the TBA score breakdown, or null before results are cached */
+    tba: { autoFuel: number; teleopFuel: number; totalFuel: number } | null;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const toPhaseEvents = (
+    path: unknown,
+    phase: ReplayPhase
+): { events: ReplayEvent[]; estimated: boolean } => {
+    if (!Array.isArray(path)) return { events: [], estimated: false };
+
+    const phaseStart = phase === 'auto' ? 0 : gameConstants.autoDuration;
+    const phaseEnd = phase === 'auto' ? gameConstants.autoDuration : gameConstants.totalDuration;
+    const waypoints = path.filter((waypoint): waypoint is Record<string, unknown> => {
+        if (!waypoint || typeof waypoint !== 'object') return false;
+        const position = (waypoint as Record<string, unknown>).position as { x?: unknown; y?: unknown } | undefined;
+        return typeof position?.x === 'number' && typeof position.y === 'number';
+    });
+    const firstTimestamp = waypoints
+        .map(waypoint => waypoint.timestamp)
+        .find((timestamp): timestamp is number => typeof timestamp === 'number');
+    let estimated = false;
+
+    const events = waypoints.flatMap((waypoint) => {
+        let time: number;
+        if (typeof waypoint.matchTime === 'number') {
+            time = waypoint.matchTime;
+        } else if (typeof waypoint.timestamp === 'number' && firstTimestamp !== undefined) {
+            time = clamp(phaseStart + (waypoint.timestamp - firstTimestamp) / 1000, phaseStart, phaseEnd);
+            estimated = true;
+        } else {
+            return [];
+        }
+
+        const position = waypoint.position as { x: number; y: number };
+        const type = typeof waypoint.type === 'string' ? waypoint.type : 'unknown';
+        const fuelDelta = typeof waypoint.fuelDelta === 'number' ? waypoint.fuelDelta : 0;
+
+        return [{
+            waypointId: typeof waypoint.id === 'string' ? waypoint.id : null,
+            time: round(Math.max(0, time)),
+            phase,
+            type,
+            action: typeof waypoint.action === 'string' ? waypoint.action : type,
+            position: { x: clamp(position.x, 0, 1), y: clamp(position.y, 0, 1) },
+            fuel: type === 'score' ? Math.abs(fuelDelta) : 0,
+        }];
+    });
+
+    return { events, estimated };
+};
+
+/**
+ * Timed events for one scouted entry, in match order.
+ */
+export const buildReplayRobot = (entry: ScoutingEntry): ReplayRobot => {
+    const auto = toPhaseEvents(entry.gameData?.auto?.autoPath, 'auto');
+    const teleop = toPhaseEvents(entry.gameData?.teleop?.teleopPath, 'teleop');
+
+    return {
+        entryId: entry.id,
+        teamNumber: entry.teamNumber,
+        alliance: entry.allianceColor,
+        scoutName: entry.scoutName,
+        // Stable sort keeps same-time events in the order they were recorded
+        events: [...auto.events, ...teleop.events].sort((a, b) => a.time - b.time),
+        estimatedTimes: auto.estimated || teleop.estimated,
+    };
+};
+
+/**
+ * Build the replay for one match. When a team was scouted more than once the
+ * most recent entry is used.
+ */
+export const buildMatchReplay = (matchKey: string, entries: ScoutingEntry[]): MatchReplay => {
+    const latestByTeam = new Map<string, ScoutingEntry>();
+    entries.forEach((entry) => {
+        const key = `${entry.allianceColor}-${entry.teamNumber}`;
+        const existing = latestByTeam.get(key);
+        if (!existing || entry.timestamp > existing.timestamp) {
+            latestByTeam.set(key, entry);
+        }
+    });
+
+    const robots = [...latestByTeam.values()]
+        .map(buildReplayRobot)
+        .sort((a, b) => a.alliance === b.alliance
+            ? a.teamNumber - b.teamNumber
+            : a.alliance === 'red' ? -1 : 1);
+    const lastEventTime = Math.max(0, ...robots.flatMap(robot => robot.events.map(event => event.time)));
+
+    return {
+        matchKey,
+        robots,
+        duration: Math.max(gameConstants.totalDuration, Math.ceil(lastEventTime)),
+    };
+};
+
+/**
+ * Where the robot is at a match time: at its last event, moving in a straight
+ * line toward the next one. Null before the robot's first event.
+ */
+export const getRobotPositionAt = (robot: ReplayRobot, time: number): { x: number; y: number } | null => {
+    const nextIndex = robot.events.findIndex(event => event.time > time);
+    const previous = robot.events[(nextIndex === -1 ? robot.events.length : nextIndex) - 1];
+    if (!previous) return null;
+
+    const next = nextIndex === -1 ? undefined : robot.events[nextIndex];
+    if (!next) return previous.position;
+
+    const progress = (time - previous.time) / (next.time - previous.time);
+    return {
+        x: previous.position.x + (next.position.x - previous.position.x) * progress,
+        y: previous.position.y + (next.position.y - previous.position.y) * progress,
+    };
+};
+
+/** Events within `windowSec` before a match time, oldest first */
+export const getRecentEvents = (robot: ReplayRobot, time: number, windowSec: number): ReplayEvent[] =>
+    robot.events.filter(event => event.time <= time && event.time > time - windowSec);
+
+const sumAllianceFuel = (
+    replay: MatchReplay,
+    alliance: ReplayAlliance,
+    include: (event: ReplayEvent) => boolean
+): number =>
+    replay.robots
+        .filter(robot => robot.alliance === alliance)
+        .reduce((total, robot) => total + robot.events
+            .filter(include)
+            .reduce((sum, event) => sum + event.fuel, 0), 0);
+
+/** Fuel an alliance has scored, by the scouts' counts, up to a match time */
+export const getAllianceFuelAt = (replay: MatchReplay, alliance: ReplayAlliance, time: number): number =>
+    sumAllianceFuel(replay, alliance, event => event.time <= time);
+
+/**
+ * Scouted auto and match fuel for each alliance next to the TBA hub counts.
+ */
+export const compareAllianceFuel = (
+    replay: MatchReplay,
+    tbaMatch: TBAMatchData | null
+): AllianceFuelComparison[] =>
+    (['red', 'blue'] as const).map((alliance) => {
+        const sample = tbaMatch ? getAllianceFuelSample(tbaMatch, alliance) : null;
+
+        return {
+            alliance,
+            // By phase rather than time: estimated teleop times start exactly at the end of auto
+            scoutedAutoFuel: sumAllianceFuel(replay, alliance, event => event.phase === 'auto'),
+            scoutedTotalFuel: getAllianceFuelAt(replay, alliance, replay.duration),
+            tba: sample
+                ? { autoFuel: sample.autoFuel, teleopFuel: sample.teleopFuel, totalFuel: sample.totalFuel }
+                : null,
+        };
+    });
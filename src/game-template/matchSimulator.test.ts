@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { TeamStats } from '@/core/types/team-stats';
+import { buildRobotOutcomeModel, simulateMatch, type RobotOutcomeModel } from './matchSimulator';
+
+function createStats(teamNumber: number, matches: Array<{ fuel: number; climbL3?: boolean }>, extra: Partial<TeamStats> = {}): TeamStats {
+    return {
+        teamNumber,
+        eventKey: '2026test',
+        matchCount: matches.length,
+        rawValues: {
+            totalPoints: matches.map(m => m.fuel + (m.climbL3 ? 30 : 0)),
+            autoPoints: matches.map(() => 0),
+            teleopPoints: matches.map(m => m.fuel),
+            endgamePoints: matches.map(m => (m.climbL3 ? 30 : 0)),
+            autoFuel: matches.map(() => 0),
+            teleopFuel: matches.map(m => m.fuel),
+            autoClimb: matches.map(() => 0),
+            climbL1: matches.map(() => 0),
+            climbL2: matches.map(() => 0),
+            climbL3: matches.map(m => (m.climbL3 ? 1 : 0)),
+        },
+        ...extra,
+    } as TeamStats;
+}
+
+const slot = (teamNumber: number, model: RobotOutcomeModel | null) => ({ teamNumber, model });
+
+describe('simulateMatch', () => {
+    it('favors the stronger alliance and is reproducible with a seed', () => {
+        const strong = buildRobotOutcomeModel(createStats(1, [{ fuel: 60 }, { fuel: 70 }, { fuel: 80 }]), 'scouted');
+        const weak = buildRobotOutcomeModel(createStats(2, [{ fuel: 10 }, { fuel: 20 }, { fuel: 15 }]), 'scouted');
+
+        const red = [slot(1, strong), slot(11, strong), slot(21, strong)];
+        const blue = [slot(2, weak), slot(12, weak), slot(22, weak)];
+        const first = simulateMatch(red, blue, { iterations: 2000, seed: 42 });
+        const second = simulateMatch(red, blue, { iterations: 2000, seed: 42 });
+
+        expect(first).toEqual(second);
+        expect(first.redWinProbability).toBe(1);
+        expect(first.red.meanScore).toBeCloseTo(210, 0);
+        expect(first.red.rankingPointOdds.fuel1).toBe(1);
+        expect(first.blue.rankingPointOdds.fuel1).toBe(0);
+        expect(first.red.expectedRankingPoints).toBe(4);
+
+        const bucketTotal = first.scoreDistribution.reduce((sum, bucket) => sum + bucket.red, 0);
+        expect(bucketTotal).toBeCloseTo(1, 6);
+    });
+
+    it('applies the tower ranking point threshold to summed climb points', () => {
+        const climber = buildRobotOutcomeModel(createStats(3, [{ fuel: 5, climbL3: true }]), 'scouted');
+        const nonClimber = buildRobotOutcomeModel(createStats(4, [{ fuel: 5 }]), 'scouted');
+
+        const result = simulateMatch(
+            [slot(3, climber), slot(13, climber), slot(4, nonClimber)],
+            [slot(14, nonClimber), slot(24, nonClimber), slot(34, nonClimber)],
+            { iterations: 200, seed: 7 }
+        );
+
+        expect(result.red.meanTowerPoints).toBe(60);
+        expect(result.red.rankingPointOdds.tower).toBe(1);
+        expect(result.blue.rankingPointOdds.tower).toBe(0);
+    });
+
+    it('reports teams without data and draws model sources around their mean', () => {
+        const epaOnly = buildRobotOutcomeModel(createStats(5, [], { statboticsTotalFuel: 40, statboticsTotalTower: 10 }), 'epa');
+        expect(epaOnly?.kind).toBe('normal');
+        expect(buildRobotOutcomeModel(createStats(6, []), 'scouted')).toBeNull();
+
+        const result = simulateMatch(
+            [slot(5, epaOnly), slot(6, null), slot(7, null)],
+            [slot(8, null), slot(9, null), slot(10, null)],
+            { iterations: 4000, seed: 3 }
+        );
+
+        expect(result.red.missingTeams).toEqual([6, 7]);
+        expect(result.blue.missingTeams).toEqual([8, 9, 10]);
+        expect(result.red.meanScore).toBeGreaterThan(45);
+        expect(result.red.meanScore).toBeLessThan(55);
+    });
+});
@@ -0,0 +1,416 @@
+/**
+ * Match Outcome Simulator - 2026 REBUILT
+ *
+ * Monte Carlo prediction for a single match. Each robot gets a per-match
+ * distribution built from the active Match Strategy display mode:
+ * - scouted / scaled: bootstrap whole scouted matches from `rawValues`
+ * - copr / epa / opr: normal draws around the model's mean, with spread taken
+ *   from the team's scouted variability when available
+ *
+ * Alliance totals are summed per iteration and compared against
+ * RANKING_POINT_THRESHOLDS to estimate win probability, score spread and the
+ * chance of each ranking point.
+ */
+
+import type { TeamStats } from "@/core/types/team-stats";
+import type { MatchStrategyDisplayMode } from "./match-strategy-config";
+import {
+    AUTO_POINTS,
+    ENDGAME_POINTS,
+    MATCH_RESULT_RANKING_POINTS,
+    RANKING_POINT_THRESHOLDS,
+    TELEOP_POINTS,
+} from "./constants";
+
+/** One robot's contribution to a single simulated match */
+export interface RobotMatchContribution {
+    fuel: number;
+    fuelPoints: number;
+    towerPoints: number;
+}
+
+export type RobotOutcomeModel =
+    | {
+        teamNumber: number;
+        kind: 'samples';
+        samples: RobotMatchContribution[];
+    }
+    | {
+        teamNumber: number;
+        kind: 'normal';
+        mean: RobotMatchContribution;
+        stdDev: RobotMatchContribution;
+    };
+
+export interface MatchSimulationOptions {
+    iterations?: number;
+    /** Seed for reproducible runs; omit for a random seed */
+    seed?: number;
+    /** Width of score histogram buckets in points */
+    bucketSize?: number;
+}
+
+export interface AllianceSimulationSummary {
+    teams: number[];
+    /** Teams in the alliance without any usable data (counted as zero) */
+    missingTeams: number[];
+    meanScore: number;
+    p10Score: number;
+    medianScore: number;
+    p90Score: number;
+    meanFuel: number;
+    meanTowerPoints: number;
+    rankingPointOdds: {
+        tower: number;
+        fuel1: number;
+        fuel2: number;
+    };
+    /** Expected ranking points including win/tie points */
+    expectedRankingPoints: number;
+}
+
+export interface ScoreDistributionBucket {
+    scoreStart: number;
+    scoreEnd: number;
+    red: number;
+    blue: number;
+}
+
+export interface MatchSimulationResult {
+    iterations: number;
+    redWinProbability: number;
+    blueWinProbability: number;
+    tieProbability: number;
+    red: AllianceSimulationSummary;
+    blue: AllianceSimulationSummary;
+    scoreDistribution: ScoreDistributionBucket[];
+}
+
+const DEFAULT_ITERATIONS = 5000;
+const DEFAULT_BUCKET_SIZE = 10;
+// Spread assumed for model-only sources when a team has no scouted matches
+const DEFAULT_FUEL_CV = 0.35;
+const DEFAULT_TOWER_CV = 0.5;
+
+type SampleSource = 'scouted' | 'scaled';
+
+function getRawValue(stats: TeamStats, key: string, index: number): number {
+    const value = stats.rawValues?.[key]?.[index];
+    return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+function getNumber(stats: TeamStats, key: string): number | null {
+    const value = stats[key];
+    return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function buildScoutedSamples(stats: TeamStats, source: SampleSource): RobotMatchContribution[] {
+    const matchCount = stats.rawValues?.totalPoints?.length ?? 0;
+    const autoFuelKey = source === 'scaled' ? 'scaledAutoFuel' : 'autoFuel';
+    const teleopFuelKey = source === 'scaled' ? 'scaledTeleopFuel' : 'teleopFuel';
+
+    return Array.from({ length: matchCount }, (_, index) => {
+        const autoFuel = getRawValue(stats, autoFuelKey, index);
+        const teleopFuel = getRawValue(stats, teleopFuelKey, index);
+        const towerPoints = getRawValue(stats, 'autoClimb', index) * AUTO_POINTS.AUTO_CLIMB_L1
+            + getRawValue(stats, 'climbL1', index) * ENDGAME_POINTS.CLIMB_L1
+            + getRawValue(stats, 'climbL2', index) * ENDGAME_POINTS.CLIMB_L2
+            + getRawValue(stats, 'climbL3', index) * ENDGAME_POINTS.CLIMB_L3;
+
+        return {
+            fuel: autoFuel + teleopFuel,
+            fuelPoints: autoFuel * AUTO_POINTS.FUEL_SCORED + teleopFuel * TELEOP_POINTS.FUEL_SCORED,
+            towerPoints,
+        };
+    });
+}
+
+function summarizeSamples(samples: RobotMatchContribution[]): { mean: RobotMatchContribution; stdDev: RobotMatchContribution } {
+    const keys = ['fuel', 'fuelPoints', 'towerPoints'] as const;
+    const mean: RobotMatchContribution = { fuel: 0, fuelPoints: 0, towerPoints: 0 };
+    const stdDev: RobotMatchContribution = { fuel: 0, fuelPoints: 0, towerPoints: 0 };
+    if (samples.length === 0) {
+        return { mean, stdDev };
+    }
+
+    for (const key of keys) {
+        const values = samples.map(sample => sample[key]);
+        const average = values.reduce((sum, value) => sum + value, 0) / values.length;
+        const variance = values.reduce((sum, value) => sum + (value - average) ** 2, 0) / values.length;
+        mean[key] = average;
+        stdDev[key] = Math.sqrt(variance);
+    }
+
+    return { mean, stdDev };
+}
+
+/** Model-only sources: mean fuel and tower points for the current display mode */
+function getModelMeans(stats: TeamStats, displayMode: MatchStrategyDisplayMode, scoutedTower: number): { fuel: number; tower: number } | null {
+    switch (displayMode) {
+        case 'copr': {
+            const fuel = getNumber(stats, 'coprHubTotalPoints');
+            if (fuel === null) return null;
+            return { fuel, tower: getNumber(stats, 'coprTotalTowerPoints') ?? scoutedTower };
+        }
+        case 'epa': {
+            const fuel = getNumber(stats, 'statboticsTotalFuel');
+            if (fuel === null) return null;
+            return { fuel, tower: getNumber(stats, 'statboticsTotalTower') ?? scoutedTower };
+        }
+        case 'opr': {
+            const fuel = getNumber(stats, 'fuelTotalOPR');
+            if (fuel === null) return null;
+            // Fuel OPR has no tower component, so use what scouts saw
+            return { fuel, tower: scoutedTower };
+        }
+        case 'fused': {
+            const fuel = getNumber(stats, 'fusedTotalFuel');
+            if (fuel === null) return null;
+            return { fuel, tower: scoutedTower };
+        }
+        default:
+            return null;
+    }
+}
+
+/**
+ * Build the per-match distribution for one robot from its team stats.
+ * Returns null when the team has no data for the chosen source.
+ */
+export function buildRobotOutcomeModel(
+    stats: TeamStats | null,
+    displayMode: MatchStrategyDisplayMode
+): RobotOutcomeModel | null {
+    if (!stats) {
+        return null;
+    }
+
+    const scoutedSamples = buildScoutedSamples(stats, displayMode === 'scaled' ? 'scaled' : 'scouted');
+
+    if (displayMode === 'scouted' || displayMode === 'scaled') {
+        return scoutedSamples.length > 0
+            ? { teamNumber: stats.teamNumber, kind: 'samples', samples: scoutedSamples }
+            : null;
+    }
+
+    const scouted = summarizeSamples(scoutedSamples);
+    const means = getModelMeans(stats, displayMode, scouted.mean.towerPoints);
+    if (!means) {
+        return null;
+    }
+
+    const fuelCv = scoutedSamples.length > 1 && scouted.mean.fuel > 0
+        ? scouted.stdDev.fuel / scouted.mean.fuel
+        : DEFAULT_FUEL_CV;
+    const towerCv = scoutedSamples.length > 1 && scouted.mean.towerPoints > 0
+        ? scouted.stdDev.towerPoints / scouted.mean.towerPoints
+        : DEFAULT_TOWER_CV;
+
+    return {
+        teamNumber: stats.teamNumber,
+        kind: 'normal',
+        mean: { fuel: means.fuel, fuelPoints: means.fuel * TELEOP_POINTS.FUEL_SCORED, towerPoints: means.tower },
+        stdDev: {
+            fuel: Math.abs(means.fuel) * fuelCv,
+            fuelPoints: Math.abs(means.fuel) * fuelCv * TELEOP_POINTS.FUEL_SCORED,
+            towerPoints: Math.abs(means.tower) * towerCv,
+        },
+    };
+}
+
+/** Bonus ranking points an alliance earns for its fuel count and tower points */
+export function getBonusRankingPoints(fuel: number, towerPoints: number): {
+    tower: boolean;
+    fuel1: boolean;
+    fuel2: boolean;
+    total: number;
+} {
+    const tower = towerPoints >= RANKING_POINT_THRESHOLDS.TOWER;
+    const fuel1 = fuel >= RANKING_POINT_THRESHOLDS.FUEL_1;
+    const fuel2 = fuel >= RANKING_POINT_THRESHOLDS.FUEL_2;
+    return { tower, fuel1, fuel2, total: Number(tower) + Number(fuel1) + Number(fuel2) };
+}
+
+/** Small seeded PRNG (mulberry32) so predictions are reproducible in tests */
+export function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+export function sampleNormal(random: () => number): number {
+    const u = Math.max(random(), Number.EPSILON);
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function drawContribution(model: RobotOutcomeModel, random: () => number): RobotMatchContribution {
+    if (model.kind === 'samples') {
+        const index = Math.floor(random() * model.samples.length);
+        return model.samples[index] ?? { fuel: 0, fuelPoints: 0, towerPoints: 0 };
+    }
+
+    const z = sampleNormal(random);
+    const fuel = Math.max(0, model.mean.fuel + z * model.stdDev.fuel);
+    const fuelRatio = model.mean.fuel !== 0 ? model.mean.fuelPoints / model.mean.fuel : TELEOP_POINTS.FUEL_SCORED;
+    const towerPoints = Math.max(0, model.mean.towerPoints + sampleNormal(random) * model.stdDev.towerPoints);
+
+    return { fuel, fuelPoints: fuel * fuelRatio, towerPoints };
+}
+
+function percentile(sortedValues: number[], fraction: number): number {
+    if (sortedValues.length === 0) return 0;
+    const index = Math.min(sortedValues.length - 1, Math.max(0, Math.floor(fraction * (sortedValues.length - 1))));
+    return sortedValues[index] ?? 0;
+}
+
+function round1(value: number): number {
+    return Math.round(value * 10) / 10;
+}
+
+interface AllianceAccumulator {
+    scores: number[];
+    fuelSum: number;
+    towerSum: number;
+    towerRp: number;
+    fuel1Rp: number;
+    fuel2Rp: number;
+    rankingPointSum: number;
+}
+
+function createAccumulator(iterations: number): AllianceAccumulator {
+    return {
+        scores: new Array(iterations).fill(0),
+        fuelSum: 0,
+        towerSum: 0,
+        towerRp: 0,
+        fuel1Rp: 0,
+        fuel2Rp: 0,
+        rankingPointSum: 0,
+    };
+}
+
+function summarizeAlliance(
+    accumulator: AllianceAccumulator,
+    slots: Array<{ teamNumber: number; model: RobotOutcomeModel | null }>,
+    iterations: number
+): AllianceSimulationSummary {
+    const sortedScores = [...accumulator.scores].sort((a, b) => a - b);
+    const meanScore = accumulator.scores.reduce((sum, value) => sum + value, 0) / iterations;
+
+    return {
+        teams: slots.map(slot => slot.teamNumber),
+        missingTeams: slots.filter(slot => !slot.model).map(slot => slot.teamNumber),
+        meanScore: round1(meanScore),
+        p10Score: round1(percentile(sortedScores, 0.1)),
+        medianScore: round1(percentile(sortedScores, 0.5)),
+        p90Score: round1(percentile(sortedScores, 0.9)),
+        meanFuel: round1(accumulator.fuelSum / iterations),
+        meanTowerPoints: round1(accumulator.towerSum / iterations),
+        rankingPointOdds: {
+            tower: accumulator.towerRp / iterations,
+            fuel1: accumulator.fuel1Rp / iterations,
+            fuel2: accumulator.fuel2Rp / iterations,
+        },
+        expectedRankingPoints: Math.round((accumulator.rankingPointSum / iterations) * 100) / 100,
+    };
+}
+
+/**
+ * Run a Monte Carlo simulation of one match.
+ * Slots without a model (no data) contribute nothing and are reported in `missingTeams`.
+ */
+export function simulateMatch(
+    redSlots: Array<{ teamNumber: number; model: RobotOutcomeModel | null }>,
+    blueSlots: Array<{ teamNumber: number; model: RobotOutcomeModel | null }>,
+    options: MatchSimulationOptions = {}
+): MatchSimulationResult {
+    const iterations = Math.max(1, Math.floor(options.iterations ?? DEFAULT_ITERATIONS));
+    const bucketSize = Math.max(1, options.bucketSize ?? DEFAULT_BUCKET_SIZE);
+    const random = createRandom(options.seed ?? Math.floor(Math.random() * 2 ** 32));
+
+    const red = createAccumulator(iterations);
+    const blue = createAccumulator(iterations);
+    let redWins = 0;
+    let blueWins = 0;
+    let ties = 0;
+
+    const simulateAlliance = (
+        slots: Array<{ model: RobotOutcomeModel | null }>,
+        accumulator: AllianceAccumulator,
+        iteration: number
+    ): number => {
+        let fuel = 0;
+        let fuelPoints = 0;
+        let towerPoints = 0;
+
+        for (const slot of slots) {
+            if (!slot.model) continue;
+            const contribution = drawContribution(slot.model, random);
+            fuel += contribution.fuel;
+            fuelPoints += contribution.fuelPoints;
+            towerPoints += contribution.towerPoints;
+        }
+
+        const score = fuelPoints + towerPoints;
+        accumulator.scores[iteration] = score;
+        accumulator.fuelSum += fuel;
+        accumulator.towerSum += towerPoints;
+
+        const bonus = getBonusRankingPoints(fuel, towerPoints);
+        if (bonus.tower) accumulator.towerRp += 1;
+        if (bonus.fuel1) accumulator.fuel1Rp += 1;
+        if (bonus.fuel2) accumulator.fuel2Rp += 1;
+        accumulator.rankingPointSum += bonus.total;
+
+        return score;
+    };
+
+    for (let iteration = 0; iteration < iterations; iteration++) {
+        const redScore = simulateAlliance(redSlots, red, iteration);
+        const blueScore = simulateAlliance(blueSlots, blue, iteration);
+
+        if (redScore > blueScore) {
+            redWins += 1;
+            red.rankingPointSum += MATCH_RESULT_RANKING_POINTS.WIN;
+        } else if (blueScore > redScore) {
+            blueWins += 1;
+            blue.rankingPointSum += MATCH_RESULT_RANKING_POINTS.WIN;
+        } else {
+            ties += 1;
+            red.rankingPointSum += MATCH_RESULT_RANKING_POINTS.TIE;
+            blue.rankingPointSum += MATCH_RESULT_RANKING_POINTS.TIE;
+        }
+    }
+
+    const maxScore = Math.max(...red.scores, ...blue.scores, 0);
+    const bucketCount = Math.floor(maxScore / bucketSize) + 1;
+    const scoreDistribution: ScoreDistributionBucket[] = Array.from({ length: bucketCount }, (_, index) => ({
+        scoreStart: index * bucketSize,
+        scoreEnd: (index + 1) * bucketSize,
+        red: 0,
+        blue: 0,
+    }));
+
+    for (let iteration = 0; iteration < iterations; iteration++) {
+        const redBucket = scoreDistribution[Math.floor((red.scores[iteration] ?? 0) / bucketSize)];
+        const blueBucket = scoreDistribution[Math.floor((blue.scores[iteration] ?? 0) / bucketSize)];
+        if (redBucket) redBucket.red += 1 / iterations;
+        if (blueBucket) blueBucket.blue += 1 / iterations;
+    }
+
+    return {
+        iterations,
+        redWinProbability: redWins / iterations,
+        blueWinProbability: blueWins / iterations,
+        tieProbability: ties / iterations,
+        red: summarizeAlliance(red, redSlots, iterations),
+        blue: summarizeAlliance(blue, blueSlots, iterations),
+        scoreDistribution,
+    };
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import type { TBAMatchData } from '@/core/lib/tbaMatchData';
+import type { StatboticsEPAMetrics } from '@/core/lib/statbotics/epaUtils';
+import { projectQualificationRankings } from './rankingProjection';
+
+interface AllianceResult {
+    teams: number[];
+    fuel: number;
+    tower: number;
+    rp?: number;
+}
+
+function createQual(matchNumber: number, red: AllianceResult, blue: AllianceResult | null, surrogates: number[] = []): TBAMatchData {
+    const blueResult = blue ?? { teams: [], fuel: 0, tower: 0 };
+    const played = blue !== null;
+    const alliance = (result: AllianceResult) => ({
+        score: played ? result.fuel + result.tower : -1,
+        team_keys: result.teams.map(team => `frc${team}`),
+        dq_team_keys: [],
+        surrogate_team_keys: surrogates.filter(team => result.teams.includes(team)).map(team => `frc${team}`),
+    });
+    const breakdown = (result: AllianceResult) => ({
+        hubScore: { totalCount: result.fuel, autoCount: 0, teleopCount: result.fuel },
+        totalTowerPoints: result.tower,
+        rp: result.rp ?? 0,
+    });
+
+    return {
+        key: `2026test_qm${matchNumber}`,
+        event_key: '2026test',
+        comp_level: 'qm',
+        match_number: matchNumber,
+        set_number: 1,
+        alliances: { red: alliance(red), blue: alliance(blueResult) },
+        score_breakdown: played ? { red: breakdown(red), blue: breakdown(blueResult) } : null,
+        winning_alliance: '',
+        time: 0,
+        actual_time: 0,
+        predicted_time: 0,
+        post_result_time: 0,
+    };
+}
+
+const unplayed = (matchNumber: number, red: number[]) => createQual(matchNumber, { teams: red, fuel: 0, tower: 0 }, null);
+
+function createEpa(totalFuel: number, totalTower: number): StatboticsEPAMetrics {
+    return {
+        totalPoints: totalFuel + totalTower,
+        autoPoints: 0,
+        teleopPoints: totalFuel,
+        endgamePoints: totalTower,
+        totalFuel,
+        autoFuel: 0,
+        teleopFuel: totalFuel,
+        endgameFuel: 0,
+        totalTower,
+        autoTower: 0,
+        endgameTower: totalTower,
+    };
+}
+
+describe('projectQualificationRankings', () => {
+    it('keeps final standings when every qual has been played', () => {
+        const matches = [
+            createQual(1, { teams: [1, 2, 3], fuel: 120, tower: 60, rp: 5 }, { teams: [4, 5, 6], fuel: 40, tower: 0 }),
+            createQual(2, { teams: [1, 4, 5], fuel: 80, tower: 10 }, { teams: [2, 3, 6], fuel: 50, tower: 10 }),
+        ];
+
+        const result = projectQualificationRankings(matches, [], undefined, { iterations: 50, seed: 1, captainCount: 2 });
+        const team1 = result.teams.find(team => team.teamNumber === 1);
+        const team6 = result.teams.find(team => team.teamNumber === 6);
+
+        expect(result.remainingMatchCount).toBe(0);
+        expect(team1?.currentRankingPoints).toBe(8);
+        expect(team1?.expectedRank).toBe(1);
+        expect(team1?.captainProbability).toBe(1);
+        expect(team6?.currentRankingPoints).toBe(0);
+        expect(team6?.captainProbability).toBe(0);
+    });
+
+    it('simulates remaining matches from EPA and stored schedule entries', () => {
+        const matches = [
+            createQual(1, { teams: [1, 2, 3], fuel: 60, tower: 20 }, { teams: [4, 5, 6], fuel: 60, tower: 10 }),
+            unplayed(2, [1, 4, 5]),
+        ];
+        // Blue alliance for the unplayed TBA match
+        matches[1]!.alliances.blue.team_keys = ['frc2', 'frc3', 'frc6'];
+
+        const schedule = [
+            { matchNum: 3, redAlliance: ['1', '5', '6'], blueAlliance: ['2', '3', '4'] },
+        ];
+        const epa = new Map<number, StatboticsEPAMetrics>([[1, createEpa(150, 30)]]);
+
+        const result = projectQualificationRankings(matches, schedule, epa, { iterations: 400, seed: 9, captainCount: 2 });
+        const team1 = result.teams.find(team => team.teamNumber === 1);
+
+        expect(result.playedMatchCount).toBe(1);
+        expect(result.remainingMatchCount).toBe(2);
+        expect(team1?.matchesRemaining).toBe(2);
+        expect(team1?.strengthSource).toBe('epa');
+        expect(team1?.expectedRank).toBeLessThan(2);
+        expect(team1?.captainProbability).toBeGreaterThan(0.9);
+        expect(team1?.expectedRankingPoints).toBeGreaterThan(team1?.currentRankingPoints ?? 0);
+
+        const captainTotal = result.teams.reduce((sum, team) => sum + team.captainProbability, 0);
+        expect(captainTotal).toBeCloseTo(2, 6);
+    });
+
+    it('does not count surrogate appearances toward ranking', () => {
+        const matches = [
+            createQual(1, { teams: [1, 2, 3], fuel: 120, tower: 60 }, { teams: [4, 5, 6], fuel: 10, tower: 0 }, [3]),
+        ];
+
+        const result = projectQualificationRankings(matches, [], undefined, { iterations: 10, seed: 2 });
+        const team3 = result.teams.find(team => team.teamNumber === 3);
+
+        expect(team3?.matchesPlayed).toBe(0);
+        expect(team3?.currentRankingPoints).toBe(0);
+    });
+});
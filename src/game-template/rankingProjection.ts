@@ -0,0 +1,362 @@
+/**
+ * Qualification Ranking Projection - 2026 REBUILT
+ *
+ * Plays the rest of the qualification schedule many times to estimate where
+ * every team finishes. Played matches contribute their real ranking points;
+ * remaining matches are simulated from a per-team strength model:
+ * - fuel: Statbotics EPA when cached, otherwise fuel OPR from played matches
+ * - tower points: EPA tower when cached, otherwise a ridge OPR on TBA tower points
+ * Alliance-level noise comes from the OPR fit residuals so the spread reflects
+ * how predictable this event has actually been.
+ *
+ * Ranking score is average RP per match, with average alliance score as the
+ * first tiebreaker and a coin flip after that.
+ */
+
+import type { TBAMatchData } from '@/core/lib/tbaMatchData';
+import type { MatchScheduleTransferEntry } from '@/core/lib/matchScheduleTransfer';
+import type { StatboticsEPAMetrics } from '@/core/lib/statbotics/epaUtils';
+import { MATCH_RESULT_RANKING_POINTS } from './constants';
+import { calculateFuelOPR } from './fuelOpr';
+import { createIncrementalRidgeSolver, extractAllianceTeams } from './incrementalOpr';
+import { createRandom, getBonusRankingPoints, sampleNormal } from './matchSimulator';
+
+export interface RankingProjectionOptions {
+    iterations?: number;
+    seed?: number;
+    /** Number of alliance captains (top seeds) */
+    captainCount?: number;
+}
+
+export interface TeamRankingProjection {
+    teamNumber: number;
+    currentRank: number | null;
+    currentRankingPoints: number;
+    matchesPlayed: number;
+    matchesRemaining: number;
+    expectedRankingPoints: number;
+    expectedRank: number;
+    /** 10th / 90th percentile finishing rank */
+    bestLikelyRank: number;
+    worstLikelyRank: number;
+    captainProbability: number;
+    strengthSource: 'epa' | 'opr' | 'none';
+}
+
+export interface RankingProjectionResult {
+    iterations: number;
+    playedMatchCount: number;
+    remainingMatchCount: number;
+    captainCount: number;
+    teams: TeamRankingProjection[];
+}
+
+interface ScheduledMatch {
+    red: number[];
+    blue: number[];
+}
+
+interface TeamStrength {
+    fuel: number;
+    tower: number;
+    source: TeamRankingProjection['strengthSource'];
+}
+
+interface TeamRecord {
+    rankingPoints: number;
+    matchesPlayed: number;
+    scoreSum: number;
+}
+
+const DEFAULT_ITERATIONS = 1000;
+const DEFAULT_CAPTAIN_COUNT = 8;
+const OPR_LAMBDA = 0.75;
+// Alliance-level noise when there are no played matches to measure it from
+const DEFAULT_FUEL_NOISE = 20;
+const DEFAULT_TOWER_NOISE = 12;
+
+function toNumber(value: unknown): number | null {
+    return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function getBreakdown(match: TBAMatchData, alliance: 'red' | 'blue'): Record<string, unknown> | undefined {
+    const scoreBreakdown = match.score_breakdown as Record<string, Record<string, unknown>> | null;
+    return scoreBreakdown?.[alliance];
+}
+
+function getAllianceTower(breakdown: Record<string, unknown> | undefined): number | null {
+    return toNumber(breakdown?.totalTowerPoints);
+}
+
+function isPlayed(match: TBAMatchData): boolean {
+    return match.alliances.red.score >= 0 && match.alliances.blue.score >= 0;
+}
+
+/** RP an alliance earned in a played match, preferring TBA's own number */
+function getPlayedAllianceRankingPoints(match: TBAMatchData, alliance: 'red' | 'blue'): number {
+    const breakdown = getBreakdown(match, alliance);
+    const reported = toNumber(breakdown?.rp);
+    // Some feeds (and demo data) leave rp at 0, so fall back to deriving it
+    if (reported !== null && reported > 0) {
+        return reported;
+    }
+
+    const opponent = alliance === 'red' ? 'blue' : 'red';
+    const own = match.alliances[alliance].score;
+    const other = match.alliances[opponent].score;
+    const resultPoints = own > other
+        ? MATCH_RESULT_RANKING_POINTS.WIN
+        : own === other ? MATCH_RESULT_RANKING_POINTS.TIE : 0;
+
+    const bonus = breakdown
+        ? Number(breakdown.traversalAchieved === true)
+            + Number(breakdown.energizedAchieved === true)
+            + Number(breakdown.superchargedAchieved === true)
+        : 0;
+
+    return resultPoints + bonus;
+}
+
+function parseScheduleTeams(teams: string[]): number[] {
+    return teams
+        .map(team => Number.parseInt(team.replace(/^frc/i, ''), 10))
+        .filter(team => Number.isFinite(team));
+}
+
+function buildStrengthModel(
+    playedMatches: TBAMatchData[],
+    epaByTeam: Map<number, StatboticsEPAMetrics> | undefined
+): { byTeam: Map<number, TeamStrength>; fuelNoise: number; towerNoise: number } {
+    const fuelOpr = calculateFuelOPR(playedMatches, { ridgeLambda: OPR_LAMBDA, includePlayoffs: false });
+    const fuelByTeam = new Map(fuelOpr.teams.map(team => [team.teamNumber, team.totalFuelOPR] as const));
+
+    const towerSolver = createIncrementalRidgeSolver(OPR_LAMBDA, 1);
+    const towerSamples: Array<{ teams: number[]; tower: number }> = [];
+    for (const match of playedMatches) {
+        for (const alliance of ['red', 'blue'] as const) {
+            const tower = getAllianceTower(getBreakdown(match, alliance));
+            const teams = extractAllianceTeams(match, alliance);
+            if (tower === null || teams.length !== 3) continue;
+            towerSolver.addAllianceRow(teams, [tower]);
+            towerSamples.push({ teams, tower });
+        }
+    }
+
+    const towerResiduals = towerSamples.map(sample => {
+        const predicted = sample.teams.reduce((sum, team) => sum + (towerSolver.getTeamRatings(team)[0] ?? 0), 0);
+        return (sample.tower - predicted) ** 2;
+    });
+
+    const fuelNoise = fuelOpr.fitSummary.sampleCount > 0 ? fuelOpr.fitSummary.rmse.totalFuel : DEFAULT_FUEL_NOISE;
+    const towerNoise = towerResiduals.length > 0
+        ? Math.sqrt(towerResiduals.reduce((sum, value) => sum + value, 0) / towerResiduals.length)
+        : DEFAULT_TOWER_NOISE;
+
+    const byTeam = new Map<number, TeamStrength>();
+    const teams = new Set<number>([...fuelByTeam.keys(), ...(epaByTeam?.keys() ?? [])]);
+    teams.forEach(teamNumber => {
+        const epa = epaByTeam?.get(teamNumber);
+        if (epa) {
+            byTeam.set(teamNumber, { fuel: epa.totalFuel, tower: epa.totalTower, source: 'epa' });
+            return;
+        }
+
+        const fuel = fuelByTeam.get(teamNumber);
+        if (fuel !== undefined) {
+            byTeam.set(teamNumber, {
+                fuel,
+                tower: towerSolver.getTeamRatings(teamNumber)[0] ?? 0,
+                source: 'opr',
+            });
+        }
+    });
+
+    return { byTeam, fuelNoise, towerNoise };
+}
+
+function percentile(sortedValues: number[], fraction: number): number {
+    if (sortedValues.length === 0) return 0;
+    const index = Math.min(sortedValues.length - 1, Math.max(0, Math.floor(fraction * (sortedValues.length - 1))));
+    return sortedValues[index] ?? 0;
+}
+
+function rankTeams(
+    teams: number[],
+    records: Map<number, TeamRecord>,
+    tiebreak: (teamNumber: number) => number
+): number[] {
+    const rankingScore = (teamNumber: number) => {
+        const record = records.get(teamNumber);
+        return record && record.matchesPlayed > 0 ? record.rankingPoints / record.matchesPlayed : 0;
+    };
+    const averageScore = (teamNumber: number) => {
+        const record = records.get(teamNumber);
+        return record && record.matchesPlayed > 0 ? record.scoreSum / record.matchesPlayed : 0;
+    };
+
+    return [...teams].sort((a, b) =>
+        rankingScore(b) - rankingScore(a)
+        || averageScore(b) - averageScore(a)
+        || tiebreak(a) - tiebreak(b)
+    );
+}
+
+/**
+ * Project final qualification standings.
+ *
+ * @param matches - Cached TBA event matches (played and unplayed)
+ * @param schedule - Stored match schedule, used for quals TBA hasn't published yet
+ * @param epaByTeam - Cached Statbotics EPA, preferred over OPR when present
+ */
+export function projectQualificationRankings(
+    matches: TBAMatchData[],
+    schedule: MatchScheduleTransferEntry[] = [],
+    epaByTeam?: Map<number, StatboticsEPAMetrics>,
+    options: RankingProjectionOptions = {}
+): RankingProjectionResult {
+    const iterations = Math.max(1, Math.floor(options.iterations ?? DEFAULT_ITERATIONS));
+    const captainCount = Math.max(1, Math.floor(options.captainCount ?? DEFAULT_CAPTAIN_COUNT));
+    const random = createRandom(options.seed ?? Math.floor(Math.random() * 2 ** 32));
+
+    const qualMatches = matches.filter(match => match.comp_level === 'qm');
+    const playedMatches = qualMatches.filter(isPlayed);
+    const remainingMatches: ScheduledMatch[] = qualMatches
+        .filter(match => !isPlayed(match))
+        .map(match => ({ red: extractAllianceTeams(match, 'red'), blue: extractAllianceTeams(match, 'blue') }));
+
+    const tbaQualNumbers = new Set(qualMatches.map(match => match.match_number));
+    schedule
+        .filter(entry => !tbaQualNumbers.has(entry.matchNum))
+        .forEach(entry => {
+            remainingMatches.push({ red: parseScheduleTeams(entry.redAlliance), blue: parseScheduleTeams(entry.blueAlliance) });
+        });
+
+    const currentRecords = new Map<number, TeamRecord>();
+    const remainingCounts = new Map<number, number>();
+    const getRecord = (records: Map<number, TeamRecord>, teamNumber: number): TeamRecord => {
+        let record = records.get(teamNumber);
+        if (!record) {
+            record = { rankingPoints: 0, matchesPlayed: 0, scoreSum: 0 };
+            records.set(teamNumber, record);
+        }
+        return record;
+    };
+
+    for (const match of playedMatches) {
+        for (const alliance of ['red', 'blue'] as const) {
+            const rankingPoints = getPlayedAllianceRankingPoints(match, alliance);
+            const { surrogate_team_keys: surrogates, dq_team_keys: disqualified } = match.alliances[alliance];
+
+            match.alliances[alliance].team_keys.forEach(teamKey => {
+                const teamNumber = Number.parseInt(teamKey.replace('frc', ''), 10);
+                if (!Number.isFinite(teamNumber)) return;
+
+                const record = getRecord(currentRecords, teamNumber);
+                // Surrogate appearances don't count toward ranking
+                if (surrogates?.includes(teamKey)) return;
+
+                record.matchesPlayed += 1;
+                record.scoreSum += match.alliances[alliance].score;
+                if (!disqualified?.includes(teamKey)) {
+                    record.rankingPoints += rankingPoints;
+                }
+            });
+        }
+    }
+
+    for (const match of remainingMatches) {
+        for (const teamNumber of [...match.red, ...match.blue]) {
+            getRecord(currentRecords, teamNumber);
+            remainingCounts.set(teamNumber, (remainingCounts.get(teamNumber) ?? 0) + 1);
+        }
+    }
+
+    const teams = [...currentRecords.keys()].sort((a, b) => a - b);
+    const currentOrder = playedMatches.length > 0
+        ? rankTeams(teams, currentRecords, teamNumber => teamNumber)
+        : [];
+    const currentRankByTeam = new Map(currentOrder.map((teamNumber, index) => [teamNumber, index + 1] as const));
+
+    const { byTeam: strengthByTeam, fuelNoise, towerNoise } = buildStrengthModel(playedMatches, epaByTeam);
+    const strengthOf = (teamNumber: number) => strengthByTeam.get(teamNumber);
+
+    const ranksByTeam = new Map(teams.map(teamNumber => [teamNumber, [] as number[]] as const));
+    const rankingPointSums = new Map<number, number>(teams.map(teamNumber => [teamNumber, 0]));
+    const captainCounts = new Map<number, number>(teams.map(teamNumber => [teamNumber, 0]));
+
+    const simulateAlliance = (alliance: number[]) => {
+        const fuelMean = alliance.reduce((sum, team) => sum + (strengthOf(team)?.fuel ?? 0), 0);
+        const towerMean = alliance.reduce((sum, team) => sum + (strengthOf(team)?.tower ?? 0), 0);
+        const fuel = Math.max(0, fuelMean + sampleNormal(random) * fuelNoise);
+        const tower = Math.max(0, towerMean + sampleNormal(random) * towerNoise);
+        return { fuel, tower, score: fuel + tower };
+    };
+
+    for (let iteration = 0; iteration < iterations; iteration++) {
+        const records = new Map<number, TeamRecord>();
+        currentRecords.forEach((record, teamNumber) => records.set(teamNumber, { ...record }));
+
+        for (const match of remainingMatches) {
+            const red = simulateAlliance(match.red);
+            const blue = simulateAlliance(match.blue);
+            const redResult = red.score > blue.score ? 'win' : red.score < blue.score ? 'loss' : 'tie';
+
+            const credit = (alliance: number[], outcome: typeof red, result: 'win' | 'loss' | 'tie') => {
+                const resultPoints = result === 'win'
+                    ? MATCH_RESULT_RANKING_POINTS.WIN
+                    : result === 'tie' ? MATCH_RESULT_RANKING_POINTS.TIE : 0;
+                const rankingPoints = resultPoints + getBonusRankingPoints(outcome.fuel, outcome.tower).total;
+
+                alliance.forEach(teamNumber => {
+                    const record = getRecord(records, teamNumber);
+                    record.rankingPoints += rankingPoints;
+                    record.matchesPlayed += 1;
+                    record.scoreSum += outcome.score;
+                });
+            };
+
+            credit(match.red, red, redResult);
+            credit(match.blue, blue, redResult === 'win' ? 'loss' : redResult === 'loss' ? 'win' : 'tie');
+        }
+
+        const tiebreaks = new Map(teams.map(teamNumber => [teamNumber, random()] as const));
+        const order = rankTeams(teams, records, teamNumber => tiebreaks.get(teamNumber) ?? 0);
+
+        order.forEach((teamNumber, index) => {
+            ranksByTeam.get(teamNumber)?.push(index + 1);
+            rankingPointSums.set(teamNumber, (rankingPointSums.get(teamNumber) ?? 0) + (records.get(teamNumber)?.rankingPoints ?? 0));
+            if (index < captainCount) {
+                captainCounts.set(teamNumber, (captainCounts.get(teamNumber) ?? 0) + 1);
+            }
+        });
+    }
+
+    const projections: TeamRankingProjection[] = teams.map(teamNumber => {
+        const ranks = [...(ranksByTeam.get(teamNumber) ?? [])].sort((a, b) => a - b);
+        const record = currentRecords.get(teamNumber);
+
+        return {
+            teamNumber,
+            currentRank: currentRankByTeam.get(teamNumber) ?? null,
+            currentRankingPoints: record?.rankingPoints ?? 0,
+            matchesPlayed: record?.matchesPlayed ?? 0,
+            matchesRemaining: remainingCounts.get(teamNumber) ?? 0,
+            expectedRankingPoints: Math.round(((rankingPointSums.get(teamNumber) ?? 0) / iterations) * 10) / 10,
+            expectedRank: Math.round((ranks.reduce((sum, rank) => sum + rank, 0) / iterations) * 10) / 10,
+            bestLikelyRank: percentile(ranks, 0.1),
+            worstLikelyRank: percentile(ranks, 0.9),
+            captainProbability: (captainCounts.get(teamNumber) ?? 0) / iterations,
+            strengthSource: strengthOf(teamNumber)?.source ?? 'none',
+        };
+    });
+
+    projections.sort((a, b) => a.expectedRank - b.expectedRank || a.teamNumber - b.teamNumber);
+
+    return {
+        iterations,
+        playedMatchCount: playedMatches.length,
+        remainingMatchCount: remainingMatches.length,
+        captainCount,
+        teams: projections,
+    };
+}
@@ -1,5 +1,10 @@
 import type { TBAMatchData } from '@/core/lib/tbaMatchData';
-import { calculateFuelOPR, calculateFuelOPRHybrid, type FuelOPRHybridMode } from '@/game-template/fuelOpr';
+import {
+    createFuelOPRLambdaTracker,
+    getAllianceFuelSample,
+    type FuelOPRHybridMode,
+} from '@/game-template/fuelOpr';
+import { compareTbaMatches, createIncrementalRidgeSolver, extractAllianceTeams } from '@/game-template/incrementalOpr';
 
 export interface RollingFuelMoprRatings {
     fixedTotalMopr: number;
@@ -14,106 +19,134 @@ export interface RollingFuelMoprOptions {
     fixedLambda?: number;
 }
 
+/**
+ * Streaming rolling fuel mOPR: feed TBA matches in play order and each new
+ * match updates both the fixed-λ and adaptive-λ ratings without re-solving
+ * earlier history. The adaptive side only re-factors when its λ moves.
+ */
+export interface RollingFuelMoprTracker {
+    readonly matchesProcessed: number;
+    /**
+     * Fold in one match. Returns the post-match ratings for its six teams, or
+     * null when the match is ineligible or has already been added.
+     */
+    addMatch(match: TBAMatchData): Map<number, RollingFuelMoprRatings> | null;
+    getTeamRatings(teamNumber: number): RollingFuelMoprRatings;
+}
+
 const DEFAULT_FIXED_LAMBDA = 0.3;
 
-const COMP_LEVEL_ORDER: Record<string, number> = {
-    qm: 0,
-    ef: 1,
-    qf: 2,
-    sf: 3,
-    f: 4,
-};
+export function createRollingFuelMoprTracker(options: RollingFuelMoprOptions = {}): RollingFuelMoprTracker {
+    return createTracker(options, true);
+}
 
-export function calculateRollingFuelMoprRatings(
-    matches: TBAMatchData[],
-    options: RollingFuelMoprOptions = {}
-): Map<string, RollingFuelMoprRatings> {
+/**
+ * `skipRepeatedKeys` is off for the batch calculation, which has always fed a
+ * repeated match key in as another match (as the per-prefix batch solve did).
+ */
+function createTracker(options: RollingFuelMoprOptions, skipRepeatedKeys: boolean): RollingFuelMoprTracker {
     const includePlayoffs = options.includePlayoffs ?? true;
     const fixedLambda = options.fixedLambda ?? DEFAULT_FIXED_LAMBDA;
-    const eligibleMatches = getEligibleMatches(matches, includePlayoffs);
-    const ratingsByTeamMatch = new Map<string, RollingFuelMoprRatings>();
+    const lambdaTracker = createFuelOPRLambdaTracker({
+        includePlayoffs: true,
+        nonNegative: false,
+        fallbackLambda: fixedLambda,
+    });
+    // Targets: [auto fuel, teleop fuel]
+    const fixedSolver = createIncrementalRidgeSolver(fixedLambda, 2);
+    const adaptiveSolver = createIncrementalRidgeSolver(lambdaTracker.lambda, 2);
+    const history: TBAMatchData[] = [];
+    const seenMatchKeys = new Set<string>();
+    let adaptiveMode: FuelOPRHybridMode = 'fixed';
+
+    const getTeamRatings = (teamNumber: number): RollingFuelMoprRatings => {
+        const [fixedAuto = 0, fixedTeleop = 0] = fixedSolver.getTeamRatings(teamNumber);
+        const [adaptiveAuto = 0, adaptiveTeleop = 0] = adaptiveSolver.getTeamRatings(teamNumber);
+        return {
+            fixedTotalMopr: round1(fixedAuto + fixedTeleop),
+            adaptiveTotalMopr: round1(adaptiveAuto + adaptiveTeleop),
+            matchesProcessed: history.length,
+            adaptiveLambda: lambdaTracker.lambda,
+            adaptiveMode,
+        };
+    };
+
+    const addMatch = (match: TBAMatchData): Map<number, RollingFuelMoprRatings> | null => {
+        if ((skipRepeatedKeys && seenMatchKeys.has(match.key)) || !isEligibleMatch(match, includePlayoffs)) {
+            return null;
+        }
+        seenMatchKeys.add(match.key);
+        history.push(match);
+
+        for (const alliance of ['red', 'blue'] as const) {
+            const sample = getAllianceFuelSample(match, alliance);
+            if (!sample) continue;
+            fixedSolver.addAllianceRow(sample.teams, [sample.autoFuel, sample.teleopFuel]);
+            adaptiveSolver.addAllianceRow(sample.teams, [sample.autoFuel, sample.teleopFuel]);
+        }
 
-    for (let index = 0; index < eligibleMatches.length; index++) {
-        const prefix = eligibleMatches.slice(0, index + 1);
-        const fixed = calculateFuelOPR(prefix, {
-            ridgeLambda: fixedLambda,
-            includePlayoffs: true,
-            nonNegative: false,
-        });
-        const adaptive = calculateFuelOPRHybrid(prefix, {
-            includePlayoffs: true,
-            nonNegative: false,
-            fallbackLambda: fixedLambda,
-        });
+        adaptiveMode = lambdaTracker.advance(history).mode;
+        adaptiveSolver.setLambda(lambdaTracker.lambda);
 
-        const fixedByTeam = new Map(fixed.teams.map(team => [team.teamNumber, team] as const));
-        const adaptiveByTeam = new Map(adaptive.opr.teams.map(team => [team.teamNumber, team] as const));
-        const match = eligibleMatches[index]!;
         const participatingTeams = [
             ...extractAllianceTeams(match, 'red'),
             ...extractAllianceTeams(match, 'blue'),
         ];
+        return new Map(participatingTeams.map(teamNumber => [teamNumber, getTeamRatings(teamNumber)] as const));
+    };
+
+    return {
+        get matchesProcessed() {
+            return history.length;
+        },
+        addMatch,
+        getTeamRatings,
+    };
+}
 
-        for (const teamNumber of participatingTeams) {
-            ratingsByTeamMatch.set(`${match.key}::${teamNumber}`, {
-                fixedTotalMopr: round1(fixedByTeam.get(teamNumber)?.totalFuelOPR ?? 0),
-                adaptiveTotalMopr: round1(adaptiveByTeam.get(teamNumber)?.totalFuelOPR ?? 0),
-                matchesProcessed: index + 1,
-                adaptiveLambda: adaptive.selectedLambda,
-                adaptiveMode: adaptive.mode,
-            });
-        }
+export function calculateRollingFuelMoprRatings(
+    matches: TBAMatchData[],
+    options: RollingFuelMoprOptions = {}
+): Map<string, RollingFuelMoprRatings> {
+    const includePlayoffs = options.includePlayoffs ?? true;
+    const tracker = createTracker(options, false);
+    const ratingsByTeamMatch = new Map<string, RollingFuelMoprRatings>();
+
+    for (const match of getEligibleMatches(matches, includePlayoffs)) {
+        const ratings = tracker.addMatch(match);
+        ratings?.forEach((rating, teamNumber) => {
+            ratingsByTeamMatch.set(`${match.key}::${teamNumber}`, rating);
+        });
     }
 
     return ratingsByTeamMatch;
 }
 
 function getEligibleMatches(matches: TBAMatchData[], includePlayoffs: boolean): TBAMatchData[] {
-    return [...matches]
-        .filter(match => {
-            if (!includePlayoffs && match.comp_level !== 'qm') {
-                return false;
-            }
-
-            const redTeams = extractAllianceTeams(match, 'red');
-            const blueTeams = extractAllianceTeams(match, 'blue');
-            if (redTeams.length !== 3 || blueTeams.length !== 3) {
-                return false;
-            }
-
-            const scoreBreakdown = match.score_breakdown as {
-                red?: { hubScore?: Record<string, unknown> };
-                blue?: { hubScore?: Record<string, unknown> };
-            } | null;
-
-            return Boolean(scoreBreakdown?.red?.hubScore && scoreBreakdown?.blue?.hubScore);
-        })
+    return matches
+        .filter(match => isEligibleMatch(match, includePlayoffs))
         .sort(compareTbaMatches);
 }
 
-function compareTbaMatches(a: TBAMatchData, b: TBAMatchData): number {
-    const compLevelDiff = (COMP_LEVEL_ORDER[a.comp_level] ?? 99) - (COMP_LEVEL_ORDER[b.comp_level] ?? 99);
-    if (compLevelDiff !== 0) {
-        return compLevelDiff;
-    }
-
-    if (a.set_number !== b.set_number) {
-        return a.set_number - b.set_number;
+function isEligibleMatch(match: TBAMatchData, includePlayoffs: boolean): boolean {
+    if (!includePlayoffs && match.comp_level !== 'qm') {
+        return false;
     }
 
-    if (a.match_number !== b.match_number) {
-        return a.match_number - b.match_number;
+    const redTeams = extractAllianceTeams(match, 'red');
+    const blueTeams = extractAllianceTeams(match, 'blue');
+    if (redTeams.length !== 3 || blueTeams.length !== 3) {
+        return false;
     }
 
-    return a.key.localeCompare(b.key);
-}
+    const scoreBreakdown = match.score_breakdown as {
+        red?: { hubScore?: Record<string, unknown> };
+        blue?: { hubScore?: Record<string, unknown> };
+    } | null;
 
-function extractAllianceTeams(match: TBAMatchData, alliance: 'red' | 'blue'): number[] {
-    return match.alliances[alliance].team_keys
-        .map(teamKey => Number.parseInt(teamKey.replace('frc', ''), 10))
-        .filter(teamNumber => Number.isFinite(teamNumber));
+    return Boolean(scoreBreakdown?.red?.hubScore && scoreBreakdown?.blue?.hubScore);
 }
 
 function round1(value: number): number {
     return Math.round(value * 10) / 10;
-}
\ No newline at end of file
+}
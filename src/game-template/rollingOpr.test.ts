@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 import type { TBAMatchData } from '@/core/lib/tbaMatchData';
-import { calculateRollingTotalRatings } from './rollingOpr';
+import { calculateRollingTotalRatings, createRollingTotalRatingsTracker } from './rollingOpr';
 
 function createMatch(
     key: string,
@@ -48,6 +48,43 @@ function createMatch(
     };
 }
 
+/** Plain ridge least squares over the whole prefix: (AᵀA + λI)x = Aᵀb */
+function solveBatchRidge(
+    matches: TBAMatchData[],
+    lambda: number,
+    getTotal: (match: TBAMatchData, alliance: 'red' | 'blue') => number,
+): Map<number, number> {
+    const allianceTeams = (match: TBAMatchData, alliance: 'red' | 'blue') =>
+        match.alliances[alliance].team_keys.map(key => Number(key.replace('frc', '')));
+    const teams = [...new Set(matches.flatMap(match => [...allianceTeams(match, 'red'), ...allianceTeams(match, 'blue')]))];
+    const index = new Map(teams.map((team, i) => [team, i] as const));
+    const n = teams.length;
+    const system = Array.from({ length: n }, (_, i) => [...Array.from({ length: n }, (_, j) => (i === j ? lambda : 0)), 0]);
+
+    for (const match of matches) {
+        for (const alliance of ['red', 'blue'] as const) {
+            const columns = allianceTeams(match, alliance).map(team => index.get(team)!);
+            for (const i of columns) {
+                for (const j of columns) system[i]![j]! += 1;
+                system[i]![n]! += getTotal(match, alliance);
+            }
+        }
+    }
+
+    for (let col = 0; col < n; col++) {
+        const pivot = system.slice(col).reduce((best, row, offset) =>
+            Math.abs(row[col]!) > Math.abs(system[best]![col]!) ? col + offset : best, col);
+        [system[col], system[pivot]] = [system[pivot]!, system[col]!];
+        for (let row = 0; row < n; row++) {
+            if (row === col) continue;
+            const factor = system[row]![col]! / system[col]![col]!;
+            for (let k = col; k <= n; k++) system[row]![k]! -= factor * system[col]![k]!;
+        }
+    }
+
+    return new Map(teams.map((team, i) => [team, system[i]![n]! / system[i]![i]!] as const));
+}
+
 describe('calculateRollingTotalRatings', () => {
     it('builds rolling values for each played match and uses corrected totals for cOPR', () => {
         const matches: TBAMatchData[] = [
@@ -73,4 +110,62 @@ describe('calculateRollingTotalRatings', () => {
         expect(secondMatchTeam6?.oprTotalPoints).toBeGreaterThan(0);
         expect(secondMatchTeam6?.coprTotalPoints).toBeGreaterThan(0);
     });
-});
\ No newline at end of file
+
+    it('matches a batch ridge solve of every prefix, counting a repeated match key again', () => {
+        const matches: TBAMatchData[] = [
+            createMatch('2026test_qm1', 1, [1, 2, 3], [4, 5, 6], 30, 24, 27, 21),
+            createMatch('2026test_qm2', 2, [1, 4, 5], [2, 3, 6], 18, 36, 16, 33),
+            createMatch('2026test_qm3', 3, [1, 2, 6], [3, 4, 5], 42, 20, 38, 19),
+            createMatch('2026test_qm3', 3, [1, 2, 6], [3, 4, 5], 42, 20, 38, 19),
+            createMatch('2026test_qm4', 4, [7, 3, 5], [8, 1, 2], 25, 31, 23, 29),
+        ];
+        // Streaming and batch solves differ only by floating point error; the
+        // rest of the allowance covers rounding to one decimal place
+        const tolerance = 0.05 + 1e-9;
+
+        const ratings = calculateRollingTotalRatings(matches, { includePlayoffs: true, ridgeLambda: 0.75 });
+
+        matches.forEach((match, index) => {
+            const prefix = matches.slice(0, index + 1);
+            const opr = solveBatchRidge(prefix, 0.75, (m, alliance) => m.alliances[alliance].score);
+            const copr = solveBatchRidge(prefix, 0.75, (m, alliance) =>
+                (m.score_breakdown as Record<'red' | 'blue', { totalPoints: number }>)[alliance].totalPoints);
+
+            // A repeated key is overwritten by its later copy, as the batch code always did
+            if (matches.slice(index + 1).some(later => later.key === match.key)) return;
+
+            for (const teamKey of [...match.alliances.red.team_keys, ...match.alliances.blue.team_keys]) {
+                const teamNumber = Number(teamKey.replace('frc', ''));
+                const rating = ratings.get(`${match.key}::${teamNumber}`);
+                expect(rating?.matchesProcessed).toBe(index + 1);
+                expect(Math.abs((rating?.oprTotalPoints ?? Number.NaN) - opr.get(teamNumber)!)).toBeLessThanOrEqual(tolerance);
+                expect(Math.abs((rating?.coprTotalPoints ?? Number.NaN) - copr.get(teamNumber)!)).toBeLessThanOrEqual(tolerance);
+            }
+        });
+    });
+});
+
+describe('createRollingTotalRatingsTracker', () => {
+    it('streams one match at a time to the same values as the batch calculation', () => {
+        const matches: TBAMatchData[] = [
+            createMatch('2026test_qm1', 1, [1, 2, 3], [4, 5, 6], 30, 24, 27, 21),
+            createMatch('2026test_qm2', 2, [1, 4, 5], [2, 3, 6], 18, 36, 16, 33),
+            createMatch('2026test_qm3', 3, [1, 2, 6], [3, 4, 5], 42, 20, 38, 19),
+        ];
+
+        const batch = calculateRollingTotalRatings(matches, { includePlayoffs: true });
+        const tracker = createRollingTotalRatingsTracker({ includePlayoffs: true });
+
+        for (const match of matches) {
+            const ratings = tracker.addMatch(match);
+            expect(ratings?.size).toBe(6);
+            ratings?.forEach((rating, teamNumber) => {
+                expect(rating).toEqual(batch.get(`${match.key}::${teamNumber}`));
+            });
+        }
+
+        expect(tracker.addMatch(matches[2]!)).toBeNull();
+        expect(tracker.matchesProcessed).toBe(3);
+        expect(tracker.getTeamRatings(1)).toEqual(batch.get('2026test_qm3::1'));
+    });
+});
@@ -1,4 +1,5 @@
 import type { ScoutOptionsState } from "@/types";
+import { workspaceStorage } from "@/core/db/eventWorkspaceDatabase";
 
 export const SCOUT_OPTIONS_STORAGE_KEY = "scoutOptions";
 
@@ -36,7 +37,7 @@ function coerceScoutOptions(value: unknown): ScoutOptionsState {
 }
 
 export function readStoredScoutOptions(): ScoutOptionsState {
-  const stored = localStorage.getItem(SCOUT_OPTIONS_STORAGE_KEY);
+  const stored = workspaceStorage.getItem(SCOUT_OPTIONS_STORAGE_KEY);
   if (!stored) return {};
 
   try {
@@ -0,0 +1,27 @@
+/**
+ * Binary QR codec layout for 2026 gameData
+ *
+ * Derived from game-schema.ts so new actions and toggles get compact columns
+ * without touching the codec. Fields missing here (durations, stuck counters)
+ * are still transferred; the codec infers their kind from the data.
+ */
+
+import type { ScoutingCodecField } from '@/core/lib/scoutingCodec';
+import { actions, toggles } from './game-schema';
+
+const PHASES = ['auto', 'teleop', 'endgame'] as const;
+
+const phaseToggleFields = (phase: typeof PHASES[number]): ScoutingCodecField[] =>
+    Object.keys(toggles[phase]).map(key => ({ path: `gameData.${phase}.${key}`, kind: 'bool' }));
+
+const actionCountFields = (phase: 'auto' | 'teleop'): ScoutingCodecField[] =>
+    Object.keys(actions).map(key => ({ path: `gameData.${phase}.${key}Count`, kind: 'uint' }));
+
+export const scoutingCodecFields: ScoutingCodecField[] = [
+    { path: 'gameData.auto.startPosition', kind: 'uint' },
+    { path: 'gameData.auto.autoPath', kind: 'path' },
+    { path: 'gameData.teleop.teleopPath', kind: 'path' },
+    ...actionCountFields('auto'),
+    ...actionCountFields('teleop'),
+    ...PHASES.flatMap(phaseToggleFields),
+];
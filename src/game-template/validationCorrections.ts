@@ -1,6 +1,7 @@
 import type { TBAMatchData } from '@/core/lib/tbaMatchData';
 import { getEntriesByEvent } from '@/core/db/scoutingDatabase';
 import { updateScoutingEntryWithCorrection } from '@/db';
+import { createRevisionBatchId } from '@/core/lib/entryRevisions';
 import type { ScoutingEntryBase } from '@/core/types/scouting-entry';
 
 interface ParsedClimbOutcome {
@@ -32,6 +33,8 @@ export interface ClimbCorrectionSummary {
   correctedEntries: number;
   skippedMissingEntries: number;
   skippedNoTBAClimbData: number;
+  /** Revision batch for the applied corrections, for undo (see revertRevisionBatch) */
+  batchId?: string;
 }
 
 export interface ClimbCorrectionCandidate {
@@ -243,6 +246,7 @@ export async function correctClimbDataWithValidation(
     latestByEntryId.set(candidate.entry.id, candidate);
   }
 
+  const batchId = createRevisionBatchId('climb-correction');
   for (const candidate of latestByEntryId.values()) {
     const updatedEntry: ScoutingEntryBase<Record<string, unknown>> = {
       ...candidate.entry,
@@ -254,12 +258,17 @@ export async function correctClimbDataWithValidation(
       candidate.entry.id,
       updatedEntry,
       `Auto-corrected climb outcome from TBA validation (${candidate.matchKey}, team ${candidate.teamNumber})`,
-      correctedBy
+      correctedBy,
+      { batchId }
     );
 
     summary.correctedEntries += 1;
   }
 
+  if (summary.correctedEntries > 0) {
+    summary.batchId = batchId;
+  }
+
   return summary;
 }
 
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { GameData } from './scoring';
+import {
+    applyWaypointCorrection,
+    canDeleteWaypoint,
+    canEditWaypointFuel,
+    describeWaypointCorrection,
+} from './waypointCorrections';
+
+const gameData = (): GameData => ({
+    auto: {
+        startPosition: 1,
+        autoPath: [
+            { id: 'a1', type: 'start' },
+            { id: 'a2', type: 'score', fuelDelta: -8, amountLabel: 'Full', shotType: 'stationary' },
+            { id: 'a3', type: 'collect', action: 'depot' },
+        ],
+        fuelScoredCount: 8,
+        shotStationaryCount: 1,
+        depotCollectCount: 1,
+    },
+    teleop: {
+        teleopPath: [
+            { id: 't1', type: 'pass', fuelDelta: -6 },
+            { id: 't2', type: 'climb' },
+        ],
+        fuelPassedCount: 6,
+    },
+    endgame: {},
+});
+
+describe('applyWaypointCorrection', () => {
+    it('changes shot fuel and adjusts the count by the difference', () => {
+        const updated = applyWaypointCorrection(gameData(), 'auto', 'a2', { kind: 'fuel', fuel: 5 })!;
+
+        expect(updated.auto.autoPath?.[1]).toMatchObject({ fuelDelta: -5, amountLabel: '5' });
+        expect(updated.auto.fuelScoredCount).toBe(5);
+        expect(updated.auto.shotStationaryCount).toBe(1);
+        expect(updated.teleop).toEqual(gameData().teleop);
+    });
+
+    it('removes an action and the counters it contributed to', () => {
+        const data = gameData();
+        const withoutShot = applyWaypointCorrection(data, 'auto', 'a2', { kind: 'delete' })!;
+        const withoutCollect = applyWaypointCorrection(data, 'auto', 'a3', { kind: 'delete' })!;
+
+        expect(withoutShot.auto.autoPath?.map(waypoint => waypoint.id)).toEqual(['a1', 'a3']);
+        expect(withoutShot.auto.fuelScoredCount).toBe(0);
+        expect(withoutShot.auto.shotStationaryCount).toBe(0);
+        expect(withoutCollect.auto.depotCollectCount).toBe(0);
+        // The original is left untouched
+        expect(data.auto.autoPath).toHaveLength(3);
+    });
+
+    it('corrects passes in teleop', () => {
+        const updated = applyWaypointCorrection(gameData(), 'teleop', 't1', { kind: 'fuel', fuel: 10 })!;
+
+        expect(updated.teleop.fuelPassedCount).toBe(10);
+    });
+
+    it('refuses unknown waypoints and unsupported types', () => {
+        expect(applyWaypointCorrection(gameData(), 'auto', 'missing', { kind: 'delete' })).toBeNull();
+        expect(applyWaypointCorrection(gameData(), 'teleop', 't2', { kind: 'delete' })).toBeNull();
+        expect(applyWaypointCorrection(gameData(), 'auto', 'a3', { kind: 'fuel', fuel: 2 })).toBeNull();
+        expect(canEditWaypointFuel('collect')).toBe(false);
+        expect(canDeleteWaypoint('climb')).toBe(false);
+    });
+});
+
+describe('describeWaypointCorrection', () => {
+    it('summarizes the change for the correction notes', () => {
+        expect(describeWaypointCorrection('teleop', { type: 'score', fuelDelta: -8 }, { kind: 'fuel', fuel: 5 }))
+            .toBe('Video review: teleop score fuel 8 → 5');
+        expect(describeWaypointCorrection('auto', { type: 'foul' }, { kind: 'delete' }))
+            .toBe('Video review: removed auto foul');
+    });
+});
@@ -0,0 +1,115 @@
+/**
+ * Waypoint Corrections - 2026 REBUILT
+ *
+ * Single-waypoint fixes made while reviewing match video: change the fuel on a
+ * shot or pass, or remove an action the scout recorded by mistake. The path
+ * and the counters transformation.ts derived from it are updated together, by
+ * the difference, so counters that did not come from the path are kept.
+ *
+ * Only actions that map cleanly onto counters can be corrected; climbs,
+ * traversals, defense and stuck events also drive toggles and durations, so
+ * those still go through a re-scout.
+ */
+
+import type { ReplayPhase } from './matchReplay';
+import type { GameData } from './scoring';
+
+export type WaypointCorrection =
+    | { kind: 'fuel'; fuel: number }
+    | { kind: 'delete' };
+
+const FUEL_TYPES = ['score', 'pass'];
+const DELETABLE_TYPES = ['score', 'pass', 'collect', 'steal', 'foul'];
+
+type Waypoint = Record<string, unknown> & { id?: unknown; type?: unknown };
+
+export const canEditWaypointFuel = (type: string): boolean => FUEL_TYPES.includes(type);
+
+export const canDeleteWaypoint = (type: string): boolean => DELETABLE_TYPES.includes(type);
+
+/** Fuel moved by a shot or pass (stored as a negative fuelDelta) */
+export const getWaypointFuel = (waypoint: Record<string, unknown>): number =>
+    typeof waypoint.fuelDelta === 'number' ? Math.abs(waypoint.fuelDelta) : 0;
+
+const adjustCounter = (counters: Record<string, unknown>, key: string, delta: number) => {
+    if (delta === 0) return;
+    const current = typeof counters[key] === 'number' ? counters[key] as number : 0;
+    counters[key] = Math.max(0, current + delta);
+};
+
+/** Shift the counters a waypoint contributed to by a fuel and an action-count difference */
+const applyCounterDelta = (
+    counters: Record<string, unknown>,
+    phase: ReplayPhase,
+    waypoint: Waypoint,
+    fuelDelta: number,
+    countDelta: number
+) => {
+    switch (waypoint.type) {
+        case 'score':
+            adjustCounter(counters, 'fuelScoredCount', fuelDelta);
+            if (waypoint.shotType === 'onTheMove') adjustCounter(counters, 'shotOnTheMoveCount', countDelta);
+            if (waypoint.shotType === 'stationary') adjustCounter(counters, 'shotStationaryCount', countDelta);
+            break;
+        case 'pass':
+            adjustCounter(counters, 'fuelPassedCount', fuelDelta);
+            break;
+        case 'collect':
+            if (phase === 'auto' && waypoint.action === 'depot') adjustCounter(counters, 'depotCollectCount', countDelta);
+            if (phase === 'auto' && waypoint.action === 'outpost') adjustCounter(counters, 'outpostCollectCount', countDelta);
+            break;
+        case 'steal':
+            if (phase === 'teleop') adjustCounter(counters, 'stealCount', countDelta);
+            break;
+        case 'foul':
+            if (phase === 'auto') adjustCounter(counters, 'foulCommittedCount', countDelta);
+            break;
+    }
+};
+
+/**
+ * Game data with one waypoint corrected, or null when the waypoint is missing
+ * or the correction does not apply to its type.
+ */
+export const applyWaypointCorrection = (
+    gameData: GameData,
+    phase: ReplayPhase,
+    waypointId: string,
+    correction: WaypointCorrection
+): GameData | null => {
+    const pathKey = phase === 'auto' ? 'autoPath' : 'teleopPath';
+    const phaseData = { ...(gameData[phase] ?? {}) } as Record<string, unknown>;
+    const path = Array.isArray(phaseData[pathKey]) ? phaseData[pathKey] as Waypoint[] : [];
+    const index = path.findIndex(waypoint => waypoint?.id === waypointId);
+    const waypoint = path[index];
+    if (!waypoint || typeof waypoint.type !== 'string') return null;
+
+    const oldFuel = getWaypointFuel(waypoint);
+
+    if (correction.kind === 'fuel') {
+        if (!canEditWaypointFuel(waypoint.type)) return null;
+        const fuel = Math.max(0, Math.round(correction.fuel));
+        phaseData[pathKey] = path.map((item, i) => i === index
+            ? { ...item, fuelDelta: -fuel, amountLabel: String(fuel) }
+            : item);
+        applyCounterDelta(phaseData, phase, waypoint, fuel - oldFuel, 0);
+    } else {
+        if (!canDeleteWaypoint(waypoint.type)) return null;
+        phaseData[pathKey] = path.filter((_, i) => i !== index);
+        applyCounterDelta(phaseData, phase, waypoint, -oldFuel, -1);
+    }
+
+    return { ...gameData, [phase]: phaseData };
+};
+
+/** Correction note stored on the entry, e.g. "Video review: teleop score fuel 8 → 5" */
+export const describeWaypointCorrection = (
+    phase: ReplayPhase,
+    waypoint: { type?: unknown; fuelDelta?: unknown },
+    correction: WaypointCorrection
+): string => {
+    const label = `${phase} ${typeof waypoint.type === 'string' ? waypoint.type : 'action'}`;
+    return correction.kind === 'fuel'
+        ? `Video review: ${label} fuel ${getWaypointFuel(waypoint)} → ${Math.max(0, Math.round(correction.fuel))}`
+        : `Video review: removed ${label}`;
+};
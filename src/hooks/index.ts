@@ -31,11 +31,13 @@ export { useAllMatches } from '../core/hooks/useAllMatches';
 export { useTeamStats } from '../core/hooks/useTeamStats';
 export { useTeamStatistics } from '../core/hooks/useTeamStatistics';
 export { useAllTeamStats } from '../core/hooks/useAllTeamStats';
+export { useTeamHistory } from '../core/hooks/useTeamHistory';
 export { useChartData } from '../core/hooks/useChartData';
 
 // TBA hooks
 export { useTBAData } from '../core/hooks/useTBAData';
 export { useTBAMatchData } from '../core/hooks/useTBAMatchData';
+export { useNexusQueue } from '../core/hooks/useNexusQueue';
 
 // Scouting hooks
 export { useScoutingSession } from '../core/hooks/useScoutingSession';
@@ -6,14 +6,18 @@ import fieldImage from '@/game-template/assets/2026-field.png'
 import fieldImageRed from '@/game-template/assets/2026-field-red.png'
 import fieldImageBlue from '@/game-template/assets/2026-field-blue.png'
 import { warmCriticalAssets } from '@/core/lib/pwaAssetWarmup'
+import { initEventWorkspace } from '@/core/db/eventWorkspaceDatabase'
 
 const CRITICAL_OFFLINE_ASSETS = [fieldImage, fieldImageRed, fieldImageBlue]
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
-)
+// Workspace state is read synchronously during render, so load it first
+void initEventWorkspace().finally(() => {
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <App />
+    </StrictMode>,
+  )
+})
 
 if ('serviceWorker' in navigator && import.meta.env.PROD) {
   window.addEventListener('load', () => {
@@ -3,6 +3,8 @@
 interface ImportMetaEnv {
   readonly VITE_TBA_API_KEY?: string
   readonly VITE_NEXUS_API_KEY?: string
+  readonly VITE_EVENT_SERVER_URL?: string
+  readonly VITE_NEXUS_MOCK?: string
   readonly MODE: string
   readonly PROD: boolean
   readonly DEV: boolean